@@ -0,0 +1,132 @@
+// Service worker: keeps the app shell cached so the dashboard opens instantly (and offline),
+// and shows push notifications sent by the reminders and notifications edge functions.
+// Registered by src/main.tsx in production builds.
+
+// Bump to drop the cached shell when the caching rules here change
+const SHELL_CACHE = 'standup-shell-v1';
+
+// Today's standup, written by the app (see TodayStandupCache) and read back before the network
+// answers. Kept across service worker updates and cleared when the user signs out.
+const DATA_CACHE = 'standup-data-v1';
+
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys
+          .filter(key => key !== SHELL_CACHE && key !== DATA_CACHE)
+          .map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request;
+  const url = new URL(request.url);
+
+  // Supabase and other APIs always go to the network; only the app's own files are cached
+  if (request.method !== 'GET' || url.origin !== self.location.origin) {
+    return;
+  }
+
+  // Every route is the single-page app, so navigations get the cached index.html straight away
+  if (request.mode === 'navigate') {
+    event.respondWith(staleWhileRevalidate(new Request('/index.html'), event));
+    return;
+  }
+
+  // Built files have content hashes in their names, so a cached copy never goes stale
+  if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(cacheFirst(request));
+    return;
+  }
+
+  if (SHELL_URLS.includes(url.pathname)) {
+    event.respondWith(staleWhileRevalidate(request, event));
+  }
+});
+
+async function cacheFirst(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+// Answer from the cache when possible and refresh it in the background for next time
+async function staleWhileRevalidate(request, event) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+
+  const refresh = fetch(request)
+    .then(async response => {
+      if (response.ok) {
+        await cache.put(request, response.clone());
+      }
+      return response;
+    });
+
+  if (cached) {
+    event.waitUntil(refresh.catch(() => undefined));
+    return cached;
+  }
+
+  return refresh;
+}
+
+// ---------------------------------------------------------------------------
+// Push notifications
+// ---------------------------------------------------------------------------
+
+// Payloads are { title, body, url, tag } (PushMessage in supabase/functions/_shared/push.ts)
+self.addEventListener('push', (event) => {
+  let message = {};
+  try {
+    message = event.data ? event.data.json() : {};
+  } catch {
+    message = { body: event.data ? event.data.text() : '' };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(message.title || 'Standup', {
+      body: message.body || '',
+      tag: message.tag,
+      icon: '/icon.svg',
+      badge: '/icon.svg',
+      data: { url: message.url || '/' }
+    })
+  );
+});
+
+// Focus an open tab of the app if there is one, otherwise open a new one
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(windows => {
+      const open = windows.find(client => new URL(client.url).origin === self.location.origin);
+      if (open) {
+        // navigate() only works on tabs this worker controls; others are just focused
+        return open.focus().then(client => client.navigate(url)).catch(() => undefined);
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -65,7 +65,7 @@ echo "✅ Automated weekly reports setup complete!"
 echo ""
 echo "📋 Next steps:"
 echo "1. Set your ANTHROPIC_API_KEY in Supabase Dashboard > Edge Functions > Environment Variables"
-echo "2. Test the manual trigger: SELECT trigger_weekly_report_now();"
+echo "2. Test the manual trigger: SELECT invoke_edge_function('generate-weekly-report', jsonb_build_object('teamId', '<team id>'));"
 echo "3. Check scheduled jobs: SELECT * FROM cron.job;"
 echo "4. Monitor report generation: SELECT * FROM weekly_reports ORDER BY generated_at DESC;"
 echo ""
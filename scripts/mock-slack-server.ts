@@ -0,0 +1,242 @@
+// Mock Slack server for testing the `slack` edge function locally
+//
+// Stands in for the Slack Web API (point the function's SLACK_API_URL at http://localhost:<port>/api)
+// and plays the part of Slack calling the function: /simulate/* endpoints send signed slash
+// commands, button clicks and modal submissions, exactly as Slack would.
+//
+//   deno run --allow-net --allow-env scripts/mock-slack-server.ts
+//
+// Environment:
+//   PORT                  Port to listen on (default 54399)
+//   SLACK_SIGNING_SECRET  Must match the function's secret (default 'mock-signing-secret')
+//   SLACK_FUNCTION_URL    The function to call (default http://127.0.0.1:54321/functions/v1/slack)
+//   MOCK_SLACK_TEAM_ID    Workspace id sent with every request (default 'T0MOCK')
+//   MOCK_SLACK_USERS      Users the mock knows, e.g. "U001:ana@example.com,U002:ben@example.com"
+//
+// Inspect what the function sent with GET /calls, and clear the log with DELETE /calls.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+
+const PORT = Number(Deno.env.get('PORT') || 54399)
+const SIGNING_SECRET = Deno.env.get('SLACK_SIGNING_SECRET') || 'mock-signing-secret'
+const FUNCTION_URL = Deno.env.get('SLACK_FUNCTION_URL') || 'http://127.0.0.1:54321/functions/v1/slack'
+const SLACK_TEAM_ID = Deno.env.get('MOCK_SLACK_TEAM_ID') || 'T0MOCK'
+
+const users = new Map<string, string>(
+  (Deno.env.get('MOCK_SLACK_USERS') || '')
+    .split(',')
+    .map(pair => pair.trim().split(':'))
+    .filter(([id, email]) => id && email)
+    .map(([id, email]) => [id, email.toLowerCase()])
+)
+
+interface RecordedCall {
+  method: string
+  args: Record<string, unknown>
+  at: string
+}
+
+interface OpenView {
+  callback_id: string
+  private_metadata: string
+  blocks: { block_id?: string }[]
+}
+
+const calls: RecordedCall[] = []
+// The last modal opened for each user, so /simulate/submit can answer it
+const openViews = new Map<string, OpenView>()
+const triggers = new Map<string, string>()
+let sequence = 0
+
+serve(async (req) => {
+  const url = new URL(req.url)
+
+  if (url.pathname.startsWith('/api/')) {
+    return await handleApiCall(url.pathname.slice('/api/'.length), req)
+  }
+
+  if (url.pathname === '/calls') {
+    if (req.method === 'DELETE') {
+      calls.length = 0
+      return json({ ok: true })
+    }
+    const method = url.searchParams.get('method')
+    return json(method ? calls.filter(call => call.method === method) : calls)
+  }
+
+  if (req.method === 'POST' && url.pathname.startsWith('/simulate/')) {
+    const body = await req.json().catch(() => ({}))
+    return await simulate(url.pathname.slice('/simulate/'.length), body)
+  }
+
+  return json({ ok: false, error: 'unknown_route' }, 404)
+}, { port: PORT })
+
+console.log(`Mock Slack listening on http://localhost:${PORT} (API at /api, calling ${FUNCTION_URL})`)
+
+// ---------------------------------------------------------------------------
+// Web API
+// ---------------------------------------------------------------------------
+
+async function handleApiCall(method: string, req: Request): Promise<Response> {
+  if (!req.headers.get('Authorization')?.startsWith('Bearer ')) {
+    return json({ ok: false, error: 'not_authed' })
+  }
+
+  const args: Record<string, unknown> = {}
+  const form = new URLSearchParams(await req.text())
+  for (const [key, value] of form.entries()) {
+    try {
+      args[key] = /^[[{]/.test(value) ? JSON.parse(value) : value
+    } catch {
+      args[key] = value
+    }
+  }
+
+  calls.push({ method, args, at: new Date().toISOString() })
+  console.log(`→ ${method}`, JSON.stringify(args).slice(0, 200))
+
+  switch (method) {
+    case 'conversations.open':
+      return json({ ok: true, channel: { id: `D${args.users}` } })
+
+    case 'chat.postMessage':
+      return json({ ok: true, channel: args.channel, ts: `${Date.now() / 1000}` })
+
+    case 'views.open': {
+      const user = triggers.get(String(args.trigger_id))
+      if (!user) return json({ ok: false, error: 'invalid_trigger_id' })
+      openViews.set(user, args.view as OpenView)
+      return json({ ok: true, view: { id: `V${++sequence}` } })
+    }
+
+    case 'users.lookupByEmail': {
+      const email = String(args.email).toLowerCase()
+      const id = Array.from(users.entries()).find(([, candidate]) => candidate === email)?.[0]
+      return id
+        ? json({ ok: true, user: { id, profile: { email } } })
+        : json({ ok: false, error: 'users_not_found' })
+    }
+
+    case 'users.info': {
+      const email = users.get(String(args.user))
+      return email
+        ? json({ ok: true, user: { id: args.user, profile: { email } } })
+        : json({ ok: false, error: 'user_not_found' })
+    }
+
+    default:
+      return json({ ok: true })
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Requests from Slack to the function
+// ---------------------------------------------------------------------------
+
+async function simulate(action: string, body: Record<string, unknown>): Promise<Response> {
+  const user = String(body.user || '')
+  if (!user) return json({ ok: false, error: 'user is required' }, 400)
+
+  const triggerId = `trigger-${++sequence}`
+  triggers.set(triggerId, user)
+
+  switch (action) {
+    // { "user": "U001", "text": "Platform" }
+    case 'command':
+      return await sendToFunction(new URLSearchParams({
+        command: '/standup',
+        text: String(body.text || ''),
+        user_id: user,
+        team_id: SLACK_TEAM_ID,
+        trigger_id: triggerId
+      }))
+
+    // { "user": "U001", "teamId": "<team uuid from the prompt button>" }
+    case 'button':
+      return await sendInteraction({
+        type: 'block_actions',
+        trigger_id: triggerId,
+        team: { id: SLACK_TEAM_ID },
+        user: { id: user },
+        actions: [{ action_id: 'open_standup_modal', value: String(body.teamId || '') }]
+      })
+
+    // { "user": "U001", "yesterday": "...", "today": "...", "blockers": "one\ntwo", "resolved": ["<blocker id>"] }
+    case 'submit': {
+      const view = openViews.get(user)
+      if (!view) return json({ ok: false, error: 'Open the modal first with /simulate/command or /simulate/button' }, 400)
+
+      const values: Record<string, Record<string, unknown>> = {}
+      for (const field of ['yesterday', 'today', 'blockers']) {
+        values[field] = { value: { type: 'plain_text_input', value: body[field] ? String(body[field]) : null } }
+      }
+      if (view.blocks.some(block => block.block_id === 'resolved')) {
+        values.resolved = {
+          value: {
+            type: 'checkboxes',
+            selected_options: ((body.resolved as string[]) || []).map(value => ({ value }))
+          }
+        }
+      }
+
+      return await sendInteraction({
+        type: 'view_submission',
+        team: { id: SLACK_TEAM_ID },
+        user: { id: user },
+        view: { callback_id: view.callback_id, private_metadata: view.private_metadata, state: { values } }
+      })
+    }
+
+    default:
+      return json({ ok: false, error: `Unknown simulation: ${action}` }, 404)
+  }
+}
+
+function sendInteraction(payload: Record<string, unknown>): Promise<Response> {
+  return sendToFunction(new URLSearchParams({ payload: JSON.stringify(payload) }))
+}
+
+// Sign the body the way Slack does and relay the function's answer
+async function sendToFunction(form: URLSearchParams): Promise<Response> {
+  const body = form.toString()
+  const timestamp = String(Math.floor(Date.now() / 1000))
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(SIGNING_SECRET),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const digest = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`v0:${timestamp}:${body}`))
+  const signature = 'v0=' + Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('')
+
+  const response = await fetch(FUNCTION_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'X-Slack-Request-Timestamp': timestamp,
+      'X-Slack-Signature': signature
+    },
+    body
+  })
+
+  const text = await response.text()
+  return json({ status: response.status, body: text ? safeParse(text) : null })
+}
+
+function safeParse(text: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body, null, 2), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  })
+}
@@ -19,7 +19,7 @@ echo "✅ Test completed!"
 echo ""
 echo "📋 To manually test the system:"
 echo "1. Go to your Supabase Dashboard > SQL Editor"
-echo "2. Run: SELECT trigger_weekly_report_now();"
+echo "2. Run: SELECT invoke_edge_function('generate-weekly-report', jsonb_build_object('teamId', '<team id>'));"
 echo "3. Check results: SELECT * FROM weekly_reports ORDER BY generated_at DESC;"
 echo ""
 echo "📋 To check scheduled jobs:"
@@ -1,8 +1,12 @@
 -- Test manual weekly report generation
 -- Run this in your Supabase Dashboard > SQL Editor
 
--- First, let's test the manual trigger function
-SELECT trigger_weekly_report_now();
+-- First, ask the generate-weekly-report edge function for one team's report
+-- (the same call the hourly job makes); it runs in the background, so give it a few seconds
+SELECT invoke_edge_function(
+  'generate-weekly-report',
+  jsonb_build_object('teamId', (SELECT id FROM teams ORDER BY created_at LIMIT 1))
+);
 
 -- Check if a report was created
 SELECT 
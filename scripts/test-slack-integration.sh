@@ -0,0 +1,76 @@
+#!/bin/bash
+
+# Test the Slack integration against the local mock Slack server
+# Needs a local Supabase stack (supabase start) and Deno
+
+set -e
+
+MOCK_PORT="${MOCK_PORT:-54399}"
+MOCK_URL="http://localhost:${MOCK_PORT}"
+FUNCTION_URL="${SLACK_FUNCTION_URL:-http://127.0.0.1:54321/functions/v1/slack}"
+NOTIFICATIONS_URL="${NOTIFICATIONS_FUNCTION_URL:-http://127.0.0.1:54321/functions/v1/notifications}"
+TEAM_ID="$1"
+SLACK_USER="${2:-U001}"
+
+if [ -z "$TEAM_ID" ] || [ -z "$SUPABASE_SERVICE_ROLE_KEY" ]; then
+    echo "Usage: SUPABASE_SERVICE_ROLE_KEY=... $0 <team id> [slack user id]"
+    echo ""
+    echo "Before running:"
+    echo "1. Connect the team to Slack on the Team tab (workspace T0MOCK, any channel id)"
+    echo "2. Start the mock, with the roster email of a member who can post:"
+    echo "   MOCK_SLACK_USERS=\"U001:you@example.com\" deno run --allow-net --allow-env scripts/mock-slack-server.ts"
+    echo "3. Serve the functions against the mock:"
+    echo "   printf 'SLACK_API_URL=http://host.docker.internal:${MOCK_PORT}/api\\nSLACK_BOT_TOKEN=xoxb-mock\\nSLACK_SIGNING_SECRET=mock-signing-secret\\n' > supabase/.env.slack"
+    echo "   supabase functions serve --env-file supabase/.env.slack --no-verify-jwt"
+    exit 1
+fi
+
+call_function() {
+    curl -s -X POST "$FUNCTION_URL" \
+        -H "Authorization: Bearer $SUPABASE_SERVICE_ROLE_KEY" \
+        -H "Content-Type: application/json" \
+        -d "{\"action\": \"$1\", \"teamId\": \"$TEAM_ID\"}"
+    echo ""
+}
+
+# Sends even if this notification already went out, so the walkthrough can be rerun
+notify() {
+    curl -s -X POST "$NOTIFICATIONS_URL" \
+        -H "Authorization: Bearer $SUPABASE_SERVICE_ROLE_KEY" \
+        -H "Content-Type: application/json" \
+        -d "{\"event\": \"$1\", \"teamId\": \"$TEAM_ID\", \"force\": true}"
+    echo ""
+}
+
+echo "🧹 Clearing the mock's call log..."
+curl -s -X DELETE "$MOCK_URL/calls" > /dev/null
+
+echo "1️⃣ Sending standup prompts..."
+call_function prompt
+curl -s "$MOCK_URL/calls?method=chat.postMessage"
+echo ""
+
+echo "2️⃣ Clicking 'Post my update' as $SLACK_USER..."
+curl -s -X POST "$MOCK_URL/simulate/button" -d "{\"user\": \"$SLACK_USER\", \"teamId\": \"$TEAM_ID\"}"
+echo ""
+
+echo "3️⃣ Submitting the modal..."
+curl -s -X POST "$MOCK_URL/simulate/submit" -d "{
+    \"user\": \"$SLACK_USER\",
+    \"yesterday\": \"Reviewed the Slack integration\",
+    \"today\": \"Testing it against the mock server\",
+    \"blockers\": \"Waiting on a real Slack workspace\"
+}"
+echo ""
+
+echo "4️⃣ Posting today's digest..."
+notify daily_digest
+
+echo "5️⃣ Posting the latest weekly report..."
+notify weekly_report
+
+echo ""
+echo "📨 Messages the function sent to Slack:"
+curl -s "$MOCK_URL/calls?method=chat.postMessage"
+echo ""
+echo "✅ Done. The update should now show on the dashboard for today."
@@ -20,7 +20,7 @@ echo "   SELECT id, week_start, week_end, status, generated_at, error FROM weekl
 echo ""
 
 echo "4️⃣ Test the automation manually:"
-echo "   SELECT trigger_weekly_report_now();"
+echo "   SELECT invoke_edge_function('generate-weekly-report', jsonb_build_object('teamId', '<team id>'));"
 echo ""
 
 echo "5️⃣ Check the result of the manual test:"
@@ -9,7 +9,7 @@ echo "📋 Method 1: Using Supabase Dashboard (Recommended)"
 echo "1. Go to your Supabase Dashboard > SQL Editor"
 echo "2. Run this query:"
 echo ""
-echo "   SELECT trigger_weekly_report_now();"
+echo "   SELECT invoke_edge_function('generate-weekly-report', jsonb_build_object('teamId', '<team id>'));"
 echo ""
 echo "3. Check the results:"
 echo ""
@@ -46,20 +46,20 @@ SELECT
     ELSE 'DISABLED' 
   END as status;
 
--- Check if weekly report functions exist
+-- Check if the scheduled weekly report function exists
 SELECT 
-  'generate_weekly_report function' as component,
+  'run_scheduled_weekly_report function' as component,
   CASE 
-    WHEN EXISTS (SELECT 1 FROM information_schema.routines WHERE routine_name = 'generate_weekly_report') 
+    WHEN EXISTS (SELECT 1 FROM information_schema.routines WHERE routine_name = 'run_scheduled_weekly_report') 
     THEN 'EXISTS' 
     ELSE 'MISSING' 
   END as status;
 
--- Check if trigger function exists
+-- Check if the function that calls edge functions exists
 SELECT 
-  'trigger_weekly_report_now function' as component,
+  'invoke_edge_function function' as component,
   CASE 
-    WHEN EXISTS (SELECT 1 FROM information_schema.routines WHERE routine_name = 'trigger_weekly_report_now') 
+    WHEN EXISTS (SELECT 1 FROM information_schema.routines WHERE routine_name = 'invoke_edge_function') 
     THEN 'EXISTS' 
     ELSE 'MISSING' 
   END as status;
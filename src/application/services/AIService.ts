@@ -1,6 +1,7 @@
 import { WeeklyReport } from '@/domain/entities/WeeklyReport';
 import { WeeklyReportSummary } from '@/domain/value-objects/WeeklyReportSummary';
 import { TeamMember } from '@/domain/entities/TeamMember';
+import { UpdateSearchResult } from '@/domain/entities/UpdateSearchResult';
 
 /**
  * AI Service interface
@@ -54,4 +55,12 @@ export interface AIService {
    * @returns Promise<WeeklyReportSummary> Regenerated summary
    */
   regenerateWeeklySummary(report: WeeklyReport): Promise<WeeklyReportSummary>;
+
+  /**
+   * Answer a question about the team's standup history from the updates found for it
+   * @param question The question, e.g. "who touched the billing migration last month?"
+   * @param sources The most relevant updates, most relevant first
+   * @returns Promise<string> A short answer citing the updates it draws on as [1], [2], ... by position in sources
+   */
+  answerHistoryQuestion(question: string, sources: UpdateSearchResult[]): Promise<string>;
 }
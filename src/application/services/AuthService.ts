@@ -0,0 +1,44 @@
+/**
+ * Signed-in user
+ */
+export interface AuthUser {
+  id: string;
+  email: string;
+}
+
+/**
+ * Auth Service interface
+ * Defines the contract for signing users in and out
+ */
+export interface AuthService {
+  /**
+   * Get the user of the current session, if any
+   * @returns Promise<AuthUser | null> The signed-in user
+   */
+  getCurrentUser(): Promise<AuthUser | null>;
+
+  /**
+   * Listen for sign-in and sign-out
+   * @param callback Called with the new user (or null) whenever the session changes
+   * @returns Function that stops listening
+   */
+  onAuthStateChange(callback: (user: AuthUser | null) => void): () => void;
+
+  /**
+   * Email a one-time sign-in link
+   * @param email The address to send the link to
+   * @param redirectTo The URL the link should return to
+   */
+  sendMagicLink(email: string, redirectTo: string): Promise<void>;
+
+  /**
+   * Sign the current user out
+   */
+  signOut(): Promise<void>;
+
+  /**
+   * Link the signed-in user to the roster entries that carry their email
+   * @returns Promise<number> How many roster entries were newly linked
+   */
+  linkTeamMembers(): Promise<number>;
+}
@@ -0,0 +1,22 @@
+/**
+ * A text's embedding and the model that produced it
+ * Only embeddings from the same model can be compared
+ */
+export interface TextEmbedding {
+  model: string;
+  vector: number[];
+}
+
+/**
+ * Embedding Service interface
+ * Defines the contract for turning questions into embeddings to search standup updates by meaning
+ * Updates are embedded by the database with the same provider whenever they are saved
+ */
+export interface EmbeddingService {
+  /**
+   * Embed a question or search phrase
+   * @param text The text to embed
+   * @returns Promise<TextEmbedding> The embedding, with the model that produced it
+   */
+  embedQuery(text: string): Promise<TextEmbedding>;
+}
@@ -0,0 +1,38 @@
+/**
+ * Push Notification Service interface
+ * Defines the contract for subscribing this browser to push notifications for a roster member
+ */
+export interface PushNotificationService {
+  /**
+   * Check if this browser can receive push notifications
+   */
+  isSupported(): boolean;
+
+  /**
+   * Get whether the user has allowed, blocked or not yet been asked for notifications
+   */
+  getPermission(): NotificationPermission;
+
+  /**
+   * Check if this browser is subscribed for a member
+   * @param memberId The roster member
+   */
+  isSubscribed(memberId: string): Promise<boolean>;
+
+  /**
+   * Ask for permission if needed and subscribe this browser for a member
+   * @param memberId The roster member
+   */
+  subscribe(memberId: string): Promise<void>;
+
+  /**
+   * Stop pushing to this browser for a member
+   * @param memberId The roster member
+   */
+  unsubscribe(memberId: string): Promise<void>;
+
+  /**
+   * Stop pushing to this browser for every member of the signed-in user, e.g. when they sign out
+   */
+  unsubscribeAll(): Promise<void>;
+}
@@ -0,0 +1,51 @@
+/**
+ * A teammate who is writing their standup update right now
+ */
+export interface TypingMember {
+  memberId: string;
+  name: string;
+}
+
+/**
+ * The signed-in member's place in a team's presence channel
+ */
+export interface TeamPresence {
+  /**
+   * Tell teammates whether this member is writing an update
+   */
+  setTyping(typing: boolean): void;
+
+  /**
+   * Leave the channel
+   */
+  leave(): void;
+}
+
+/**
+ * Standup Realtime Service interface
+ * Defines the contract for hearing about changes made by teammates while the dashboard is open
+ */
+export interface StandupRealtimeService {
+  /**
+   * Listen for standup updates, their comments and reactions, and weekly reports being added or changed on a team
+   * @param teamId The team to listen to
+   * @param handlers Called after each change
+   * @returns Function that stops listening
+   */
+  subscribeToTeam(
+    teamId: string,
+    handlers: { onUpdatesChange: () => void; onWeeklyReportsChange: () => void }
+  ): () => void;
+
+  /**
+   * Join a team's presence channel to see who is writing an update
+   * @param teamId The team whose channel to join
+   * @param member The signed-in member, or null to watch without being seen
+   * @param onTypingChange Called with everyone writing an update whenever that changes
+   */
+  joinPresence(
+    teamId: string,
+    member: { id: string; name: string } | null,
+    onTypingChange: (typingMembers: TypingMember[]) => void
+  ): TeamPresence;
+}
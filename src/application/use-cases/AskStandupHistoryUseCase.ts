@@ -0,0 +1,83 @@
+import { StandupRepository } from '@/domain/repositories/StandupRepository';
+import { AuthorizationService } from '@/domain/services/AuthorizationService';
+import { HistoryQuestion } from '@/domain/value-objects/HistoryQuestion';
+import { HistoryAnswer } from '@/domain/value-objects/HistoryAnswer';
+import { EmbeddingService } from '@/application/services/EmbeddingService';
+import { AIService } from '@/application/services/AIService';
+
+/**
+ * Narrows the updates a question is asked of
+ * Dates given here take the place of any the question names
+ */
+export interface HistoryQuestionFilters {
+  memberId: string | null;
+  startDate: string | null;
+  endDate: string | null;
+}
+
+/**
+ * Ask Standup History Use Case
+ * Answers questions like "who touched the billing migration last month?" by finding the updates
+ * closest in meaning to the question and, when asked, having the AI service write an answer that
+ * cites them
+ */
+export class AskStandupHistoryUseCase {
+  static readonly MAX_SOURCES = 12;
+
+  // Updates less similar than this are not counted as relevant
+  static readonly MIN_SIMILARITY = 0.2;
+
+  constructor(
+    private readonly standupRepository: StandupRepository,
+    private readonly authorizationService: AuthorizationService,
+    private readonly embeddingService: EmbeddingService,
+    private readonly aiService: AIService
+  ) {}
+
+  /**
+   * Find the updates most relevant to a question, hiding blockers from users without view_blockers
+   */
+  async findRelevantUpdates(teamId: string, question: HistoryQuestion, filters: HistoryQuestionFilters): Promise<HistoryAnswer> {
+    if (!HistoryQuestion.isValid(question.text)) {
+      throw new Error(`Questions must be 1 to ${HistoryQuestion.MAX_LENGTH} characters`);
+    }
+
+    const startDate = filters.startDate ?? question.dateRange?.startDate ?? null;
+    const endDate = filters.endDate ?? question.dateRange?.endDate ?? null;
+    if (startDate && endDate && startDate > endDate) {
+      throw new Error('Start date must be before end date');
+    }
+
+    const [embedding, canViewBlockers] = await Promise.all([
+      this.embeddingService.embedQuery(question.text),
+      this.authorizationService.can(teamId, 'view_blockers')
+    ]);
+
+    const sources = await this.standupRepository.findSimilarUpdates(teamId, {
+      embedding: embedding.vector,
+      model: embedding.model,
+      memberId: filters.memberId,
+      startDate,
+      endDate,
+      minSimilarity: AskStandupHistoryUseCase.MIN_SIMILARITY,
+      limit: AskStandupHistoryUseCase.MAX_SOURCES
+    });
+
+    return new HistoryAnswer(
+      question,
+      canViewBlockers ? sources : sources.map(source => source.withoutBlockers())
+    );
+  }
+
+  /**
+   * Have the AI service answer the question from the updates found for it
+   */
+  async writeAnswer(found: HistoryAnswer): Promise<HistoryAnswer> {
+    if (!found.hasSources()) {
+      return found.withAnswer('No standup updates match this question.');
+    }
+
+    const answer = await this.aiService.answerHistoryQuestion(found.question.text, found.sources);
+    return found.withAnswer(answer);
+  }
+}
@@ -1,7 +1,8 @@
 import { StandupRepository } from '@/domain/repositories/StandupRepository';
-import { WeeklyReport } from '@/domain/entities/WeeklyReport';
+import { WeeklyReport, ReportContentVersion } from '@/domain/entities/WeeklyReport';
 import { WeeklyReportSummary, MemberSummary } from '@/domain/value-objects/WeeklyReportSummary';
 import { AIService } from '@/application/services/AIService';
+import { AuthorizationService } from '@/domain/services/AuthorizationService';
 
 /**
  * Use case for generating weekly reports
@@ -10,49 +11,48 @@ import { AIService } from '@/application/services/AIService';
 export class GenerateWeeklyReportUseCase {
   constructor(
     private readonly standupRepository: StandupRepository,
-    private readonly aiService: AIService
+    private readonly aiService: AIService,
+    private readonly authorizationService: AuthorizationService
   ) {}
 
   /**
    * Execute the use case
+   * @param teamId The team to report on
    * @param weekStart Start date of the week (YYYY-MM-DD)
    * @param weekEnd End date of the week (YYYY-MM-DD)
    * @param includeAI Whether to include AI-generated summary
+   * @param contentVersion Build from the latest edits or from each update as of standup time
    * @returns Promise<WeeklyReport> The generated weekly report
    */
   async execute(
+    teamId: string,
     weekStart: string, 
     weekEnd: string, 
-    includeAI: boolean = true
+    includeAI: boolean = true,
+    contentVersion: ReportContentVersion = 'latest'
   ): Promise<WeeklyReport> {
+    await this.authorizationService.authorize(teamId, 'generate_reports');
+
     try {
       // Validate date range
       this.validateDateRange(weekStart, weekEnd);
       
       // Generate the report from repository
-      const report = await this.standupRepository.generateWeeklyReport(weekStart, weekEnd);
+      const report = await this.standupRepository.generateWeeklyReport(teamId, weekStart, weekEnd, contentVersion);
       
       // If AI is requested and the report has data, enhance with AI summary
       if (includeAI && report.hasData()) {
         try {
           const aiSummary = await this.aiService.generateWeeklySummary(report);
-          // Create a new report with AI summary
-          return new WeeklyReport(
-            report.weekStart,
-            report.weekEnd,
-            report.entries,
-            aiSummary
+          // Create a new report with AI summary, keeping the blockers and dependencies tracked by the repository
+          return report.withSummary(
+            aiSummary.withBlockers(report.summary.blockers).withDependencies(report.summary.dependencies)
           );
         } catch (aiError) {
           console.warn('AI summary generation failed, using basic summary:', aiError);
           // Fall back to basic summary
           const basicSummary = this.generateBasicSummary(report);
-          return new WeeklyReport(
-            report.weekStart,
-            report.weekEnd,
-            report.entries,
-            basicSummary
-          );
+          return report.withSummary(basicSummary);
         }
       }
       
@@ -63,6 +63,24 @@ export class GenerateWeeklyReportUseCase {
     }
   }
 
+  /**
+   * Regenerate the AI summary of an existing report and save it
+   * @param teamId The team the report belongs to
+   * @param report The report to summarize again
+   * @returns Promise<WeeklyReport> The report with its new summary
+   */
+  async regenerateSummary(teamId: string, report: WeeklyReport): Promise<WeeklyReport> {
+    await this.authorizationService.authorize(teamId, 'generate_reports');
+
+    const summary = await this.aiService.regenerateWeeklySummary(report);
+    const updatedReport = report.withSummary(
+      summary.withBlockers(report.summary.blockers).withDependencies(report.summary.dependencies)
+    );
+
+    await this.standupRepository.saveWeeklyReport(teamId, updatedReport);
+    return updatedReport;
+  }
+
   /**
    * Validate the date range
    * @param weekStart Start date
@@ -99,7 +117,7 @@ export class GenerateWeeklyReportUseCase {
   private generateBasicSummary(report: WeeklyReport): WeeklyReportSummary {
     const allAccomplishments = report.getAllAccomplishments();
     const allOngoingWork = report.getAllPlannedWork();
-    const allBlockers = report.getAllBlockers();
+    const blockers = report.summary.blockers;
     
     // Generate member summaries
     const memberSummaries: Record<string, MemberSummary> = {};
@@ -110,9 +128,9 @@ export class GenerateWeeklyReportUseCase {
       const contributions = memberEntries.flatMap(entry => 
         entry.teamMembers.map(m => m.yesterday).filter(Boolean)
       );
-      const concerns = memberEntries.flatMap(entry => 
-        entry.teamMembers.map(m => m.blockers).filter(Boolean)
-      );
+      const concerns = Array.from(new Set(memberEntries.flatMap(entry =>
+        entry.getOpenBlockers().map(blocker => blocker.description)
+      )));
       
       memberSummaries[member.name] = new MemberSummary(
         member.role,
@@ -126,10 +144,11 @@ export class GenerateWeeklyReportUseCase {
     return new WeeklyReportSummary(
       allAccomplishments.slice(0, 10),
       allOngoingWork.slice(0, 10),
-      allBlockers.slice(0, 10),
-      `Generated basic summary for ${report.entries.length} days with ${allAccomplishments.length} accomplishments, ${allOngoingWork.length} ongoing tasks, and ${allBlockers.length} blockers.`,
+      blockers,
+      `Generated basic summary for ${report.entries.length} days with ${allAccomplishments.length} accomplishments, ${allOngoingWork.length} ongoing tasks, and ${blockers.getCount()} blockers.`,
       [],
-      memberSummaries
+      memberSummaries,
+      report.summary.dependencies
     );
   }
 }
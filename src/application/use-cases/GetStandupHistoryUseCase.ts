@@ -1,54 +1,77 @@
-import { StandupRepository } from '@/domain/repositories/StandupRepository';
-import { StandupEntry } from '@/domain/entities/StandupEntry';
+import { StandupRepository, StandupHistoryPage, StandupHistoryPageInput, UpdateSearchInput } from '@/domain/repositories/StandupRepository';
+import { RosterMember } from '@/domain/entities/RosterMember';
+import { UpdateSearchResult } from '@/domain/entities/UpdateSearchResult';
 import { DateRange } from '@/domain/value-objects/DateRange';
 import { DateFormatter } from '@/domain/services/DateFormatter';
+import { TeamCalendar } from '@/domain/services/TeamCalendar';
+import { AuthorizationService } from '@/domain/services/AuthorizationService';
 
 /**
  * Get Standup History Use Case
  * Handles retrieving and filtering standup history
  */
 export class GetStandupHistoryUseCase {
-  constructor(private readonly standupRepository: StandupRepository) {}
+  constructor(
+    private readonly standupRepository: StandupRepository,
+    private readonly authorizationService: AuthorizationService
+  ) {}
 
   /**
-   * Get all standup history
+   * Get a page of standup history, newest day first
+   * Pass the previous page's cursor to get the page after it
    */
-  async getAllHistory(): Promise<StandupEntry[]> {
-    return await this.standupRepository.getStandupHistory();
+  async getHistoryPage(teamId: string, cursor: string | null = null): Promise<StandupHistoryPage> {
+    return await this.loadPage(teamId, { before: cursor });
   }
 
   /**
-   * Get standup history filtered by date range
+   * Get a page of standup history within a date range, newest day first
    */
-  async getHistoryByDateRange(dateRange: DateRange): Promise<StandupEntry[]> {
-    const allHistory = await this.standupRepository.getStandupHistory();
-    
-    if (dateRange === DateRange.all()) {
-      return allHistory;
+  async getHistoryByDateRange(teamId: string, dateRange: DateRange, cursor: string | null = null): Promise<StandupHistoryPage> {
+    return await this.loadPage(teamId, {
+      before: cursor ?? TeamCalendar.addDays(dateRange.endDate, 1),
+      from: dateRange.startDate
+    });
+  }
+
+  /**
+   * Search standup updates by text and filters, best matches first
+   * Users without view_blockers cannot search, filter on or see blockers
+   */
+  async searchHistory(teamId: string, search: UpdateSearchInput): Promise<UpdateSearchResult[]> {
+    if (search.startDate && search.endDate && search.startDate > search.endDate) {
+      throw new Error('Start date must be before end date');
     }
 
-    return allHistory.filter(entry => dateRange.contains(entry.date));
+    const canViewBlockers = await this.authorizationService.can(teamId, 'view_blockers');
+    const results = await this.standupRepository.searchStandupUpdates(teamId, {
+      ...search,
+      text: search.text.trim(),
+      hasBlockers: canViewBlockers && search.hasBlockers,
+      limit: Math.min(Math.max(search.limit ?? UpdateSearchResult.DEFAULT_LIMIT, 1), UpdateSearchResult.MAX_LIMIT)
+    });
+
+    return canViewBlockers ? results : results.map(result => result.withoutBlockers());
   }
 
   /**
-   * Get available months from history
+   * Get the roster members whose updates can be searched, including archived ones
    */
-  async getAvailableMonths(): Promise<string[]> {
-    const history = await this.standupRepository.getStandupHistory();
-    const months = new Set<string>();
-    
-    history.forEach(entry => {
-      months.add(DateFormatter.extractMonthKey(entry.date));
-    });
-    
-    return Array.from(months).sort().reverse();
+  async getSearchableMembers(teamId: string): Promise<RosterMember[]> {
+    return await this.standupRepository.getRosterMembers(teamId, true);
+  }
+
+  /**
+   * Get the months with standup history, newest first
+   */
+  async getAvailableMonths(teamId: string): Promise<string[]> {
+    return await this.standupRepository.getHistoryMonths(teamId);
   }
 
   /**
-   * Get month display names
+   * Get display names for months, along with "All Months"
    */
-  async getMonthDisplayNames(): Promise<Record<string, string>> {
-    const months = await this.getAvailableMonths();
+  getMonthDisplayNames(months: string[]): Record<string, string> {
     const displayNames: Record<string, string> = { all: 'All Months' };
     
     months.forEach(month => {
@@ -57,4 +80,15 @@ export class GetStandupHistoryUseCase {
     
     return displayNames;
   }
+
+  /**
+   * Load a page of history, hiding blockers from users without view_blockers
+   */
+  private async loadPage(teamId: string, input: StandupHistoryPageInput): Promise<StandupHistoryPage> {
+    const [page, canViewBlockers] = await Promise.all([
+      this.standupRepository.getStandupHistory(teamId, input),
+      this.authorizationService.can(teamId, 'view_blockers')
+    ]);
+    return canViewBlockers ? page : { ...page, entries: page.entries.map(entry => entry.withoutBlockers()) };
+  }
 }
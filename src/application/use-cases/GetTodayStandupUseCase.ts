@@ -1,21 +1,29 @@
 import { StandupRepository } from '@/domain/repositories/StandupRepository';
 import { TeamMember } from '@/domain/entities/TeamMember';
+import { AuthorizationService } from '@/domain/services/AuthorizationService';
 
 /**
  * Use case for getting today's standup data
  * Encapsulates the business logic for retrieving today's team member updates
  */
 export class GetTodayStandupUseCase {
-  constructor(private readonly standupRepository: StandupRepository) {}
+  constructor(
+    private readonly standupRepository: StandupRepository,
+    private readonly authorizationService: AuthorizationService
+  ) {}
 
   /**
    * Execute the use case
+   * @param teamId The team to load
    * @returns Promise<TeamMember[]> Today's team member updates
    */
-  async execute(): Promise<TeamMember[]> {
+  async execute(teamId: string): Promise<TeamMember[]> {
     try {
-      const teamMembers = await this.standupRepository.getTodayStandup();
-      return teamMembers;
+      const [teamMembers, canViewBlockers] = await Promise.all([
+        this.standupRepository.getTodayStandup(teamId),
+        this.authorizationService.can(teamId, 'view_blockers')
+      ]);
+      return canViewBlockers ? teamMembers : teamMembers.map(member => member.withoutBlockers());
     } catch (error) {
       console.error('Failed to get today\'s standup:', error);
       throw new Error('Failed to retrieve today\'s standup data');
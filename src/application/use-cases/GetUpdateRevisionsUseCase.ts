@@ -0,0 +1,25 @@
+import { StandupRepository } from '@/domain/repositories/StandupRepository';
+import { StandupUpdateRevision } from '@/domain/entities/StandupUpdateRevision';
+import { AuthorizationService } from '@/domain/services/AuthorizationService';
+
+/**
+ * Get Update Revisions Use Case
+ * Handles retrieving the edit history of a standup update
+ */
+export class GetUpdateRevisionsUseCase {
+  constructor(
+    private readonly standupRepository: StandupRepository,
+    private readonly authorizationService: AuthorizationService
+  ) {}
+
+  /**
+   * Get every saved version of an update, hiding blockers from users without view_blockers
+   */
+  async execute(teamId: string, updateId: string): Promise<StandupUpdateRevision[]> {
+    const [revisions, canViewBlockers] = await Promise.all([
+      this.standupRepository.getUpdateRevisions(teamId, updateId),
+      this.authorizationService.can(teamId, 'view_blockers')
+    ]);
+    return canViewBlockers ? revisions : revisions.map(revision => revision.withoutBlockers());
+  }
+}
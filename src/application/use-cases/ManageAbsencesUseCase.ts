@@ -0,0 +1,89 @@
+import { StandupRepository, MemberAbsenceInput } from '@/domain/repositories/StandupRepository';
+import { MemberAbsence } from '@/domain/entities/MemberAbsence';
+import { AuthorizationService } from '@/domain/services/AuthorizationService';
+
+/**
+ * Manage Absences Use Case
+ * Handles recording PTO, sick days and public holidays for team members
+ * Members manage their own time off; roster managers can manage anyone's
+ */
+export class ManageAbsencesUseCase {
+  // Longest single absence that can be recorded, to catch mistyped years
+  private static readonly MAX_ABSENCE_DAYS = 366;
+
+  constructor(
+    private readonly standupRepository: StandupRepository,
+    private readonly authorizationService: AuthorizationService
+  ) {}
+
+  /**
+   * Get absences that overlap a date range
+   */
+  async getAbsences(teamId: string, startDate: string, endDate: string): Promise<MemberAbsence[]> {
+    return await this.standupRepository.getAbsences(teamId, startDate, endDate);
+  }
+
+  /**
+   * Record an absence for a member
+   * @param currentMemberId The signed-in user's roster member, if any
+   */
+  async recordAbsence(teamId: string, input: MemberAbsenceInput, currentMemberId?: string): Promise<MemberAbsence> {
+    await this.authorizeFor(teamId, input.teamMemberId, currentMemberId);
+    const absence = this.normalizeInput(input);
+    return await this.standupRepository.addAbsence(teamId, absence);
+  }
+
+  /**
+   * Remove a recorded absence
+   * @param currentMemberId The signed-in user's roster member, if any
+   */
+  async deleteAbsence(teamId: string, absence: MemberAbsence, currentMemberId?: string): Promise<void> {
+    await this.authorizeFor(teamId, absence.teamMemberId, currentMemberId);
+    await this.standupRepository.deleteAbsence(teamId, absence.id);
+  }
+
+  /**
+   * Members may manage their own absences; anyone else's requires manage_roster
+   */
+  private async authorizeFor(teamId: string, teamMemberId: string, currentMemberId?: string): Promise<void> {
+    if (currentMemberId && currentMemberId === teamMemberId) {
+      await this.authorizationService.authorize(teamId, 'post_updates');
+    } else {
+      await this.authorizationService.authorize(teamId, 'manage_roster');
+    }
+  }
+
+  /**
+   * Trim and validate absence input
+   */
+  private normalizeInput(input: MemberAbsenceInput): MemberAbsenceInput {
+    const note = input.note?.trim();
+
+    if (!input.teamMemberId) {
+      throw new Error('Team member is required');
+    }
+
+    if (!MemberAbsence.isValidKind(input.kind)) {
+      throw new Error(`${input.kind} is not a valid kind of absence`);
+    }
+
+    if (!this.isDate(input.startDate) || !this.isDate(input.endDate)) {
+      throw new Error('Start and end dates are required');
+    }
+
+    if (input.endDate < input.startDate) {
+      throw new Error('End date cannot be before the start date');
+    }
+
+    const days = (Date.parse(input.endDate) - Date.parse(input.startDate)) / 86_400_000 + 1;
+    if (days > ManageAbsencesUseCase.MAX_ABSENCE_DAYS) {
+      throw new Error(`Absences can be at most ${ManageAbsencesUseCase.MAX_ABSENCE_DAYS} days long`);
+    }
+
+    return { ...input, note: note || undefined };
+  }
+
+  private isDate(value: string): boolean {
+    return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+  }
+}
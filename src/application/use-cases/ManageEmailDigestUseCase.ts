@@ -0,0 +1,64 @@
+import { StandupRepository, EmailDigestSettingsInput } from '@/domain/repositories/StandupRepository';
+import { EmailDigestSettings } from '@/domain/entities/EmailDigestSettings';
+import { AuthorizationService } from '@/domain/services/AuthorizationService';
+
+/**
+ * Manage Email Digest Use Case
+ * Handles the distribution list the notifications edge function emails weekly reports to
+ */
+export class ManageEmailDigestUseCase {
+  constructor(
+    private readonly standupRepository: StandupRepository,
+    private readonly authorizationService: AuthorizationService
+  ) {}
+
+  /**
+   * Get the team's weekly report distribution list, or null if it has none
+   * The list may include addresses outside the team, so only team settings managers can read it
+   */
+  async getSettings(teamId: string): Promise<EmailDigestSettings | null> {
+    if (!(await this.authorizationService.can(teamId, 'manage_team_settings'))) {
+      return null;
+    }
+
+    return await this.standupRepository.getEmailDigestSettings(teamId);
+  }
+
+  /**
+   * Set the team's weekly report distribution list
+   */
+  async saveSettings(teamId: string, input: EmailDigestSettingsInput): Promise<EmailDigestSettings> {
+    await this.authorizationService.authorize(teamId, 'manage_team_settings');
+    return await this.standupRepository.saveEmailDigestSettings(teamId, this.normalizeInput(input));
+  }
+
+  /**
+   * Stop emailing the team's weekly reports
+   */
+  async removeSettings(teamId: string): Promise<void> {
+    await this.authorizationService.authorize(teamId, 'manage_team_settings');
+    await this.standupRepository.deleteEmailDigestSettings(teamId);
+  }
+
+  /**
+   * Trim, lowercase, de-duplicate and validate the distribution list
+   */
+  private normalizeInput(input: EmailDigestSettingsInput): EmailDigestSettingsInput {
+    const recipients = [...new Set(input.recipients.map(email => email.trim().toLowerCase()).filter(Boolean))];
+
+    if (recipients.length === 0) {
+      throw new Error('Add at least one email address');
+    }
+
+    if (recipients.length > EmailDigestSettings.MAX_RECIPIENTS) {
+      throw new Error(`A distribution list can have at most ${EmailDigestSettings.MAX_RECIPIENTS} addresses`);
+    }
+
+    const invalid = recipients.find(email => !EmailDigestSettings.isValidEmail(email));
+    if (invalid) {
+      throw new Error(`${invalid} is not an email address`);
+    }
+
+    return { ...input, recipients };
+  }
+}
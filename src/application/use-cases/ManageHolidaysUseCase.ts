@@ -0,0 +1,70 @@
+import { StandupRepository, TeamHolidayInput } from '@/domain/repositories/StandupRepository';
+import { TeamHoliday } from '@/domain/entities/TeamHoliday';
+import { AuthorizationService } from '@/domain/services/AuthorizationService';
+import { IcsCalendar } from '@/domain/services/IcsCalendar';
+
+/**
+ * Manage Holidays Use Case
+ * Handles the team holiday calendar that business-day calculations skip
+ */
+export class ManageHolidaysUseCase {
+  constructor(
+    private readonly standupRepository: StandupRepository,
+    private readonly authorizationService: AuthorizationService
+  ) {}
+
+  /**
+   * Get team holidays within a date range
+   */
+  async getHolidays(teamId: string, startDate: string, endDate: string): Promise<TeamHoliday[]> {
+    return await this.standupRepository.getHolidays(teamId, startDate, endDate);
+  }
+
+  /**
+   * Add a single holiday; an existing holiday on that date is renamed
+   */
+  async addHoliday(teamId: string, input: TeamHolidayInput): Promise<void> {
+    await this.authorizationService.authorize(teamId, 'manage_team_settings');
+    await this.standupRepository.saveHolidays(teamId, [this.normalizeInput(input)]);
+  }
+
+  /**
+   * Import every day from an iCalendar file
+   * @returns The number of holidays imported
+   */
+  async importIcs(teamId: string, ics: string): Promise<number> {
+    await this.authorizationService.authorize(teamId, 'manage_team_settings');
+
+    const holidays = IcsCalendar.parseHolidays(ics).map(holiday => this.normalizeInput(holiday));
+    if (holidays.length === 0) {
+      throw new Error('The calendar file has no events');
+    }
+
+    return await this.standupRepository.saveHolidays(teamId, holidays);
+  }
+
+  /**
+   * Remove a holiday
+   */
+  async deleteHoliday(teamId: string, id: string): Promise<void> {
+    await this.authorizationService.authorize(teamId, 'manage_team_settings');
+    await this.standupRepository.deleteHoliday(teamId, id);
+  }
+
+  /**
+   * Trim and validate holiday input
+   */
+  private normalizeInput(input: TeamHolidayInput): TeamHolidayInput {
+    const name = input.name.trim();
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(input.date) || Number.isNaN(Date.parse(input.date))) {
+      throw new Error(`${input.date} is not a valid date`);
+    }
+
+    if (!name) {
+      throw new Error('Holiday name is required');
+    }
+
+    return { date: input.date, name };
+  }
+}
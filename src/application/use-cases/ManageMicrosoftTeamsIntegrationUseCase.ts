@@ -0,0 +1,60 @@
+import { StandupRepository, MicrosoftTeamsIntegrationInput } from '@/domain/repositories/StandupRepository';
+import { MicrosoftTeamsIntegration } from '@/domain/entities/MicrosoftTeamsIntegration';
+import { AuthorizationService } from '@/domain/services/AuthorizationService';
+
+/**
+ * Manage Microsoft Teams Integration Use Case
+ * Handles connecting a team to the Teams channel and tenant the notifications and bot edge functions use
+ */
+export class ManageMicrosoftTeamsIntegrationUseCase {
+  constructor(
+    private readonly standupRepository: StandupRepository,
+    private readonly authorizationService: AuthorizationService
+  ) {}
+
+  /**
+   * Get the team's Microsoft Teams connection, or null if it is not connected
+   * The webhook URL lets anyone post to the channel, so only team settings managers can read it
+   */
+  async getIntegration(teamId: string): Promise<MicrosoftTeamsIntegration | null> {
+    if (!(await this.authorizationService.can(teamId, 'manage_team_settings'))) {
+      return null;
+    }
+
+    return await this.standupRepository.getMicrosoftTeamsIntegration(teamId);
+  }
+
+  /**
+   * Connect the team to Microsoft Teams, or change its connection
+   */
+  async saveIntegration(teamId: string, input: MicrosoftTeamsIntegrationInput): Promise<MicrosoftTeamsIntegration> {
+    await this.authorizationService.authorize(teamId, 'manage_team_settings');
+    return await this.standupRepository.saveMicrosoftTeamsIntegration(teamId, this.normalizeInput(input));
+  }
+
+  /**
+   * Disconnect the team from Microsoft Teams
+   */
+  async disconnect(teamId: string): Promise<void> {
+    await this.authorizationService.authorize(teamId, 'manage_team_settings');
+    await this.standupRepository.deleteMicrosoftTeamsIntegration(teamId);
+  }
+
+  /**
+   * Trim and validate Microsoft Teams connection input
+   */
+  private normalizeInput(input: MicrosoftTeamsIntegrationInput): MicrosoftTeamsIntegrationInput {
+    const webhookUrl = input.webhookUrl.trim();
+    const tenantId = input.tenantId?.trim().toLowerCase() || null;
+
+    if (!MicrosoftTeamsIntegration.isValidWebhookUrl(webhookUrl)) {
+      throw new Error('The webhook URL must be an https:// address');
+    }
+
+    if (tenantId && !MicrosoftTeamsIntegration.isValidTenantId(tenantId)) {
+      throw new Error(`${input.tenantId} is not a Microsoft 365 tenant ID`);
+    }
+
+    return { ...input, webhookUrl, tenantId };
+  }
+}
@@ -0,0 +1,55 @@
+import { StandupRepository, SlackIntegrationInput } from '@/domain/repositories/StandupRepository';
+import { SlackIntegration } from '@/domain/entities/SlackIntegration';
+import { AuthorizationService } from '@/domain/services/AuthorizationService';
+
+/**
+ * Manage Slack Integration Use Case
+ * Handles connecting a team to the Slack workspace and channel the slack edge function posts to
+ */
+export class ManageSlackIntegrationUseCase {
+  constructor(
+    private readonly standupRepository: StandupRepository,
+    private readonly authorizationService: AuthorizationService
+  ) {}
+
+  /**
+   * Get the team's Slack connection, or null if it is not connected
+   */
+  async getIntegration(teamId: string): Promise<SlackIntegration | null> {
+    return await this.standupRepository.getSlackIntegration(teamId);
+  }
+
+  /**
+   * Connect the team to Slack, or change its connection
+   */
+  async saveIntegration(teamId: string, input: SlackIntegrationInput): Promise<SlackIntegration> {
+    await this.authorizationService.authorize(teamId, 'manage_team_settings');
+    return await this.standupRepository.saveSlackIntegration(teamId, this.normalizeInput(input));
+  }
+
+  /**
+   * Disconnect the team from Slack
+   */
+  async disconnect(teamId: string): Promise<void> {
+    await this.authorizationService.authorize(teamId, 'manage_team_settings');
+    await this.standupRepository.deleteSlackIntegration(teamId);
+  }
+
+  /**
+   * Trim and validate Slack connection input
+   */
+  private normalizeInput(input: SlackIntegrationInput): SlackIntegrationInput {
+    const slackTeamId = input.slackTeamId.trim().toUpperCase();
+    const channelId = input.channelId.trim().toUpperCase();
+
+    if (!SlackIntegration.isValidSlackTeamId(slackTeamId)) {
+      throw new Error(`${input.slackTeamId} is not a Slack workspace ID (it starts with T)`);
+    }
+
+    if (!SlackIntegration.isValidChannelId(channelId)) {
+      throw new Error(`${input.channelId} is not a Slack channel ID (it starts with C or G)`);
+    }
+
+    return { ...input, slackTeamId, channelId };
+  }
+}
@@ -0,0 +1,40 @@
+import { StandupRepository } from '@/domain/repositories/StandupRepository';
+import { Blocker } from '@/domain/entities/Blocker';
+import { AuthorizationService } from '@/domain/services/AuthorizationService';
+
+/**
+ * Manage Stale Blockers Use Case
+ * Lists blockers that have been open for a while and lets leads acknowledge escalated ones
+ */
+export class ManageStaleBlockersUseCase {
+  constructor(
+    private readonly standupRepository: StandupRepository,
+    private readonly authorizationService: AuthorizationService
+  ) {}
+
+  /**
+   * Get the team's stale blockers, longest open first
+   * Escalated blockers are always included, even if a holiday has since pulled them under the stale line
+   * @param asOf Today in the team's timezone
+   * @param holidays Team holidays, which do not count towards a blocker's age
+   */
+  async getStaleBlockers(teamId: string, asOf: string, holidays: string[] = []): Promise<Blocker[]> {
+    if (!(await this.authorizationService.can(teamId, 'view_blockers'))) {
+      return [];
+    }
+
+    const blockers = await this.standupRepository.getOpenTeamBlockers(teamId);
+
+    return blockers
+      .filter(blocker => blocker.isEscalated() || blocker.isStale(asOf, holidays))
+      .sort((a, b) => b.getBusinessDaysOpen(asOf, holidays) - a.getBusinessDaysOpen(asOf, holidays));
+  }
+
+  /**
+   * Mark a blocker's escalation as seen
+   */
+  async acknowledgeEscalation(teamId: string, blockerId: string): Promise<void> {
+    await this.authorizationService.authorize(teamId, 'manage_roster');
+    await this.standupRepository.acknowledgeBlockerEscalation(teamId, blockerId);
+  }
+}
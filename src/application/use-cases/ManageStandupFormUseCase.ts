@@ -1,5 +1,9 @@
 import { TeamMember } from '@/domain/entities/TeamMember';
+import { RosterMember } from '@/domain/entities/RosterMember';
+import { Blocker } from '@/domain/entities/Blocker';
+import { StandupRepository } from '@/domain/repositories/StandupRepository';
 import { TeamMemberService } from '@/domain/services/TeamMemberService';
+import { TeamCalendar } from '@/domain/services/TeamCalendar';
 import { useDateUtils } from '@/presentation/hooks/useDateUtils';
 import { useAIGeneration } from '@/presentation/hooks/useAIGeneration';
 
@@ -10,37 +14,54 @@ import { useAIGeneration } from '@/presentation/hooks/useAIGeneration';
 export class ManageStandupFormUseCase {
   constructor(
     private readonly dateUtils: ReturnType<typeof useDateUtils>,
-    private readonly aiGeneration: ReturnType<typeof useAIGeneration>
+    private readonly aiGeneration: ReturnType<typeof useAIGeneration>,
+    private readonly standupRepository: StandupRepository
   ) {}
 
   /**
    * Get available team members
    */
-  getAvailableTeamMembers() {
-    return TeamMemberService.getAvailableTeamMembers();
+  async getAvailableTeamMembers(teamId: string): Promise<RosterMember[]> {
+    return await TeamMemberService.getAvailableTeamMembers(this.standupRepository, teamId);
   }
 
   /**
    * Find team member by name
    */
-  findTeamMemberByName(name: string) {
-    return TeamMemberService.findTeamMemberByName(name);
+  async findTeamMemberByName(teamId: string, name: string): Promise<RosterMember | undefined> {
+    return await TeamMemberService.findTeamMemberByName(this.standupRepository, teamId, name);
   }
 
   /**
-   * Get previous business day label
+   * Get previous business day label for an update posted for a date (today by default)
    */
-  getPreviousBusinessDayLabel(): string {
-    const today = new Date();
-    const dayOfWeek = today.getDay();
-    
-    if (dayOfWeek === 1) { // Monday
-      return 'What did you do on Friday?';
-    } else if (dayOfWeek === 0) { // Sunday
-      return 'What did you do on Friday?';
-    } else {
-      return 'What did you do yesterday?';
+  getPreviousBusinessDayLabel(date?: string): string {
+    const dayName = this.getPreviousBusinessDayName(date);
+    return dayName === 'yesterday' ? 'What did you do yesterday?' : `What did you do on ${dayName}?`;
+  }
+
+  /**
+   * Name the business day before a date the way a person would
+   * - The day right before → "yesterday"
+   * - Within the past week → its weekday, e.g. "Friday"
+   * - Further back (a long run of holidays) → its weekday and date
+   */
+  getPreviousBusinessDayName(date?: string): string {
+    const fromDate = date ?? this.dateUtils.getTeamDate();
+    const previous = this.dateUtils.getPreviousBusinessDay(fromDate);
+    const [year, month, day] = previous.split('-').map(Number);
+    const format = (options: Intl.DateTimeFormatOptions) =>
+      new Date(Date.UTC(year, month - 1, day)).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' });
+
+    if (previous === TeamCalendar.addDays(fromDate, -1)) {
+      return 'yesterday';
+    }
+
+    if (previous > TeamCalendar.addDays(fromDate, -7)) {
+      return format({ weekday: 'long' });
     }
+
+    return format({ weekday: 'long', month: 'short', day: 'numeric' });
   }
 
   /**
@@ -59,11 +80,12 @@ export class ManageStandupFormUseCase {
       role: string;
       yesterday: string;
       today: string;
-      blockers: string;
     },
+    blockerItems: Blocker[],
+    date: string,
     existingId?: string
   ): TeamMember {
-    return TeamMemberService.createTeamMemberFromForm(formData, existingId);
+    return TeamMemberService.createTeamMemberFromForm(formData, blockerItems, date, existingId);
   }
 
   /**
@@ -74,7 +96,6 @@ export class ManageStandupFormUseCase {
     role: string;
     yesterday: string;
     today: string;
-    blockers: string;
   }): { isValid: boolean; errors: string[] } {
     return TeamMemberService.validateFormData(formData);
   }
@@ -86,14 +107,15 @@ export class ManageStandupFormUseCase {
     memberName: string,
     memberRole: string,
     fieldType: 'yesterday' | 'today' | 'blockers',
-    previousEntries: TeamMember[]
+    previousEntries: TeamMember[],
+    date?: string
   ): Promise<string> {
-    const targetDate = fieldType === 'yesterday' ? this.dateUtils.getPreviousBusinessDay() : undefined;
+    const targetDate = fieldType === 'yesterday' ? this.dateUtils.getPreviousBusinessDay(date) : undefined;
     
     // Create context string with date information for better AI understanding
     let context = '';
     if (fieldType === 'yesterday' && targetDate) {
-      const today = this.dateUtils.getVancouverDate();
+      const today = date ?? this.dateUtils.getTeamDate();
       context = `Today is ${today}. Yesterday was ${targetDate} (previous business day). Generate realistic accomplishments for what they likely worked on yesterday.`;
     }
     
@@ -0,0 +1,168 @@
+import { StandupRepository, RosterMemberInput } from '@/domain/repositories/StandupRepository';
+import { RosterMember } from '@/domain/entities/RosterMember';
+import { AuthorizationService } from '@/domain/services/AuthorizationService';
+import { TeamRole } from '@/domain/value-objects/TeamRole';
+
+/**
+ * Manage Team Roster Use Case
+ * Handles adding, editing and archiving the people who take part in standups
+ */
+export class ManageTeamRosterUseCase {
+  constructor(
+    private readonly standupRepository: StandupRepository,
+    private readonly authorizationService: AuthorizationService
+  ) {}
+
+  /**
+   * Get the roster, including archived members so they can be restored
+   */
+  async getRoster(teamId: string): Promise<RosterMember[]> {
+    return await this.standupRepository.getRosterMembers(teamId, true);
+  }
+
+  /**
+   * Add a new member to the roster
+   */
+  async addMember(teamId: string, input: RosterMemberInput): Promise<RosterMember> {
+    await this.authorizationService.authorize(teamId, 'manage_roster');
+    const member = this.normalizeInput(input);
+    await this.ensureNameIsAvailable(teamId, member.name);
+    await this.ensureEmailIsAvailable(teamId, member.email);
+    return await this.standupRepository.addRosterMember(teamId, member);
+  }
+
+  /**
+   * Edit an existing roster member
+   */
+  async updateMember(teamId: string, id: string, input: RosterMemberInput): Promise<RosterMember> {
+    await this.authorizationService.authorize(teamId, 'manage_roster');
+    const member = this.normalizeInput(input);
+    await this.ensureNameIsAvailable(teamId, member.name, id);
+    await this.ensureEmailIsAvailable(teamId, member.email, id);
+    return await this.standupRepository.updateRosterMember(teamId, id, member);
+  }
+
+  /**
+   * Archive a member; their past updates stay in history and reports
+   */
+  async archiveMember(teamId: string, id: string): Promise<void> {
+    await this.authorizationService.authorize(teamId, 'manage_roster');
+    await this.ensureAnotherAdminRemains(teamId, id);
+    await this.standupRepository.archiveRosterMember(teamId, id);
+  }
+
+  /**
+   * Change a member's access role
+   */
+  async changeRole(teamId: string, id: string, role: string): Promise<void> {
+    await this.authorizationService.authorize(teamId, 'manage_roles');
+
+    if (!TeamRole.isValid(role)) {
+      throw new Error(`${role} is not a valid role`);
+    }
+
+    if (role !== 'admin') {
+      await this.ensureAnotherAdminRemains(teamId, id);
+    }
+
+    await this.standupRepository.updateRosterMemberRole(teamId, id, role);
+  }
+
+  /**
+   * Restore an archived member
+   */
+  async restoreMember(teamId: string, id: string): Promise<void> {
+    await this.authorizationService.authorize(teamId, 'manage_roster');
+
+    const roster = await this.standupRepository.getRosterMembers(teamId, true);
+    const member = roster.find(m => m.id === id);
+
+    if (!member) {
+      throw new Error('Team member not found');
+    }
+
+    await this.ensureNameIsAvailable(teamId, member.name, id);
+    await this.ensureEmailIsAvailable(teamId, member.email ?? undefined, id);
+    await this.standupRepository.restoreRosterMember(teamId, id);
+  }
+
+  /**
+   * Change how the signed-in user is reminded when they haven't posted
+   */
+  async updateReminderChannel(teamId: string, channel: string): Promise<void> {
+    await this.authorizationService.authorize(teamId, 'post_updates');
+
+    if (!RosterMember.isValidReminderChannel(channel)) {
+      throw new Error(`${channel} is not a valid reminder channel`);
+    }
+
+    await this.standupRepository.updateOwnReminderChannel(teamId, channel);
+  }
+
+  /**
+   * Trim and validate roster input
+   */
+  private normalizeInput(input: RosterMemberInput): RosterMemberInput {
+    const name = input.name.trim();
+    const role = input.role.trim();
+    const email = input.email?.trim().toLowerCase();
+
+    if (!name) {
+      throw new Error('Name is required');
+    }
+
+    if (!role) {
+      throw new Error('Role is required');
+    }
+
+    if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      throw new Error(`${email} is not a valid email address`);
+    }
+
+    return { ...input, name, role, email };
+  }
+
+  /**
+   * Names key member summaries in weekly reports, so active names must be unique
+   */
+  private async ensureNameIsAvailable(teamId: string, name: string, excludeId?: string): Promise<void> {
+    const activeMembers = await this.standupRepository.getRosterMembers(teamId);
+    const conflict = activeMembers.find(member =>
+      member.id !== excludeId && member.name.toLowerCase() === name.toLowerCase()
+    );
+
+    if (conflict) {
+      throw new Error(`A team member named ${conflict.name} already exists`);
+    }
+  }
+
+  /**
+   * Signing in links a user to the member with their email, so active emails must be unique
+   */
+  private async ensureEmailIsAvailable(teamId: string, email?: string, excludeId?: string): Promise<void> {
+    if (!email) return;
+
+    const activeMembers = await this.standupRepository.getRosterMembers(teamId);
+    const conflict = activeMembers.find(member =>
+      member.id !== excludeId && member.email?.toLowerCase() === email
+    );
+
+    if (conflict) {
+      throw new Error(`${email} is already used by ${conflict.name}`);
+    }
+  }
+
+  /**
+   * A team always keeps an active admin, so the last one can't be demoted or archived
+   */
+  private async ensureAnotherAdminRemains(teamId: string, id: string): Promise<void> {
+    const activeMembers = await this.standupRepository.getRosterMembers(teamId);
+    const member = activeMembers.find(m => m.id === id);
+
+    if (member?.accessRole !== 'admin') return;
+
+    if (!activeMembers.some(m => m.id !== id && m.accessRole === 'admin')) {
+      throw new Error(`${member.name} is the team's only admin; make someone else an admin first`);
+    }
+  }
+}
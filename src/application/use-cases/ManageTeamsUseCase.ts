@@ -0,0 +1,148 @@
+import { StandupRepository, HuddleSettingsInput } from '@/domain/repositories/StandupRepository';
+import { Team } from '@/domain/entities/Team';
+import { Blocker } from '@/domain/entities/Blocker';
+import { Huddle } from '@/domain/entities/Huddle';
+import { TeamCalendar } from '@/domain/services/TeamCalendar';
+import { AuthorizationService } from '@/domain/services/AuthorizationService';
+
+/**
+ * Manage Teams Use Case
+ * Handles creating teams (workspaces) and team-wide settings such as the timezone, standup time, backfill window, blocker escalation threshold, reminder time and huddle settings
+ */
+export class ManageTeamsUseCase {
+  constructor(
+    private readonly standupRepository: StandupRepository,
+    private readonly authorizationService: AuthorizationService
+  ) {}
+
+  /**
+   * Get all teams
+   */
+  async getTeams(): Promise<Team[]> {
+    return await this.standupRepository.getTeams();
+  }
+
+  /**
+   * Create a new team; the creator becomes its first admin
+   */
+  async createTeam(name: string, timezone: string): Promise<Team> {
+    const trimmedName = name.trim();
+
+    if (!trimmedName) {
+      throw new Error('Team name is required');
+    }
+
+    const teams = await this.standupRepository.getTeams();
+    if (teams.some(team => team.name.toLowerCase() === trimmedName.toLowerCase())) {
+      throw new Error(`A team named ${trimmedName} already exists`);
+    }
+
+    return await this.standupRepository.createTeam({
+      name: trimmedName,
+      timezone: this.normalizeTimezone(timezone)
+    });
+  }
+
+  /**
+   * Change a team's timezone
+   */
+  async updateTimezone(teamId: string, timezone: string): Promise<string> {
+    await this.authorizationService.authorize(teamId, 'manage_team_settings');
+    const normalized = this.normalizeTimezone(timezone);
+    await this.standupRepository.updateTeamTimezone(teamId, normalized);
+    return normalized;
+  }
+
+  /**
+   * Change the local time of day a team holds its standup
+   */
+  async updateStandupTime(teamId: string, standupTime: string): Promise<string> {
+    await this.authorizationService.authorize(teamId, 'manage_team_settings');
+    const trimmed = standupTime.trim();
+
+    if (!TeamCalendar.isValidTime(trimmed)) {
+      throw new Error(`${trimmed || 'Standup time'} is not a valid HH:MM time`);
+    }
+
+    await this.standupRepository.updateTeamStandupTime(teamId, trimmed);
+    return trimmed;
+  }
+
+  /**
+   * Change how many days back members can post or edit updates
+   */
+  async updateBackfillDays(teamId: string, backfillDays: number): Promise<number> {
+    await this.authorizationService.authorize(teamId, 'manage_team_settings');
+
+    if (!Number.isInteger(backfillDays) || backfillDays < 0 || backfillDays > TeamCalendar.MAX_BACKFILL_DAYS) {
+      throw new Error(`Backfill window must be a whole number of days between 0 and ${TeamCalendar.MAX_BACKFILL_DAYS}`);
+    }
+
+    await this.standupRepository.updateTeamBackfillDays(teamId, backfillDays);
+    return backfillDays;
+  }
+
+  /**
+   * Update how many business days a blocker can stay open before it is escalated to the team's leads
+   * 0 turns escalation off
+   */
+  async updateBlockerEscalationDays(teamId: string, escalationDays: number): Promise<number> {
+    await this.authorizationService.authorize(teamId, 'manage_team_settings');
+
+    if (!Number.isInteger(escalationDays) || escalationDays < 0 || escalationDays > Blocker.MAX_ESCALATION_DAYS) {
+      throw new Error(`Escalation threshold must be a whole number of business days between 0 and ${Blocker.MAX_ESCALATION_DAYS}`);
+    }
+
+    await this.standupRepository.updateTeamBlockerEscalationDays(teamId, escalationDays);
+    return escalationDays;
+  }
+
+  /**
+   * Change the local time members who haven't posted are reminded
+   * null turns reminders off
+   */
+  async updateReminderTime(teamId: string, reminderTime: string | null): Promise<string | null> {
+    await this.authorizationService.authorize(teamId, 'manage_team_settings');
+    const trimmed = reminderTime?.trim() || null;
+
+    if (trimmed && !TeamCalendar.isValidTime(trimmed)) {
+      throw new Error(`${trimmed} is not a valid HH:MM time`);
+    }
+
+    await this.standupRepository.updateTeamReminderTime(teamId, trimmed);
+    return trimmed;
+  }
+
+  /**
+   * Change each member's huddle time box and the speaking order
+   */
+  async updateHuddleSettings(teamId: string, input: HuddleSettingsInput): Promise<void> {
+    await this.authorizationService.authorize(teamId, 'manage_team_settings');
+
+    if (!Huddle.isValidTimeBox(input.timeBoxSeconds)) {
+      throw new Error(`Time box must be between ${Huddle.MIN_TIME_BOX_SECONDS} and ${Huddle.MAX_TIME_BOX_SECONDS} seconds`);
+    }
+
+    if (!Huddle.isValidOrder(input.order)) {
+      throw new Error(`${input.order} is not a valid speaking order`);
+    }
+
+    await this.standupRepository.updateTeamHuddleSettings(teamId, {
+      ...input,
+      memberOrder: [...new Set(input.memberOrder)]
+    });
+  }
+
+  /**
+   * Trim and validate an IANA timezone
+   */
+  private normalizeTimezone(timezone: string): string {
+    const trimmed = timezone.trim();
+
+    if (!TeamCalendar.isValidTimezone(trimmed)) {
+      throw new Error(`${trimmed || 'Timezone'} is not a valid IANA timezone`);
+    }
+
+    return trimmed;
+  }
+}
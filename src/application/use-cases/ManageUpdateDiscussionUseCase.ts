@@ -0,0 +1,97 @@
+import { StandupRepository } from '@/domain/repositories/StandupRepository';
+import { UpdateComment } from '@/domain/entities/UpdateComment';
+import { UpdateReaction } from '@/domain/entities/UpdateReaction';
+import { AuthorizationService } from '@/domain/services/AuthorizationService';
+
+/**
+ * Manage Update Discussion Use Case
+ * Handles comment threads and emoji reactions on standup updates
+ * Members who can post comment and react as themselves, and can only remove their own
+ */
+export class ManageUpdateDiscussionUseCase {
+  constructor(
+    private readonly standupRepository: StandupRepository,
+    private readonly authorizationService: AuthorizationService
+  ) {}
+
+  /**
+   * Get the comments on an update, oldest first
+   */
+  async getComments(teamId: string, updateId: string): Promise<UpdateComment[]> {
+    return await this.standupRepository.getUpdateComments(teamId, updateId);
+  }
+
+  /**
+   * Comment on an update, or reply in a thread
+   * @param parent The comment being replied to; replies to a reply join the same thread
+   */
+  async addComment(
+    teamId: string,
+    updateId: string,
+    currentMemberId: string,
+    body: string,
+    parent?: UpdateComment
+  ): Promise<UpdateComment> {
+    await this.authorizationService.authorize(teamId, 'post_updates');
+    const trimmed = body.trim();
+
+    if (!trimmed) {
+      throw new Error('Comment cannot be empty');
+    }
+
+    if (trimmed.length > UpdateComment.MAX_LENGTH) {
+      throw new Error(`Comments can be at most ${UpdateComment.MAX_LENGTH} characters`);
+    }
+
+    return await this.standupRepository.addUpdateComment(teamId, {
+      standupUpdateId: updateId,
+      teamMemberId: currentMemberId,
+      parentId: parent ? parent.parentId ?? parent.id : null,
+      body: trimmed
+    });
+  }
+
+  /**
+   * Delete one of the member's own comments, with its replies
+   */
+  async deleteComment(teamId: string, comment: UpdateComment, currentMemberId: string): Promise<void> {
+    await this.authorizationService.authorize(teamId, 'post_updates');
+
+    if (comment.teamMemberId !== currentMemberId) {
+      throw new Error('You can only delete your own comments');
+    }
+
+    await this.standupRepository.deleteUpdateComment(teamId, comment.id);
+  }
+
+  /**
+   * Add the member's reaction with an emoji, or take it back if they already reacted with it
+   * @returns The update's reactions after the change
+   */
+  async toggleReaction(
+    teamId: string,
+    updateId: string,
+    currentMemberId: string,
+    emoji: string,
+    reactions: UpdateReaction[]
+  ): Promise<UpdateReaction[]> {
+    await this.authorizationService.authorize(teamId, 'post_updates');
+
+    if (!UpdateReaction.isValidEmoji(emoji)) {
+      throw new Error(`${emoji} is not one of the available reactions`);
+    }
+
+    const existing = reactions.find(reaction => reaction.teamMemberId === currentMemberId && reaction.emoji === emoji);
+    if (existing) {
+      await this.standupRepository.deleteUpdateReaction(teamId, existing.id);
+      return reactions.filter(reaction => reaction.id !== existing.id);
+    }
+
+    const added = await this.standupRepository.addUpdateReaction(teamId, {
+      standupUpdateId: updateId,
+      teamMemberId: currentMemberId,
+      emoji
+    });
+    return [...reactions, added];
+  }
+}
@@ -0,0 +1,168 @@
+import { StandupRepository } from '@/domain/repositories/StandupRepository';
+import { UpdateDraftRepository } from '@/domain/repositories/UpdateDraftRepository';
+import { UpdateDraft } from '@/domain/entities/UpdateDraft';
+import { TeamMember } from '@/domain/entities/TeamMember';
+import { AuthorizationService } from '@/domain/services/AuthorizationService';
+import { NetworkErrorService } from '@/domain/services/NetworkErrorService';
+import { SaveTeamMemberUpdateUseCase } from './SaveTeamMemberUpdateUseCase';
+
+/**
+ * Outcome of posting the updates queued on this device
+ */
+export interface UpdateSyncResult {
+  synced: UpdateDraft[];
+  conflicts: UpdateDraft[];
+  failed: UpdateDraft[];
+}
+
+/**
+ * Manage Update Drafts Use Case
+ * Autosaves standup updates on this device while they are written, queues updates saved while offline,
+ * and posts the queue once the connection returns
+ */
+export class ManageUpdateDraftsUseCase {
+  // Unsaved drafts older than this are dropped; queued updates are kept until they are posted or discarded
+  private static readonly DRAFT_MAX_AGE_DAYS = 14;
+
+  private readonly saveTeamMemberUpdateUseCase: SaveTeamMemberUpdateUseCase;
+
+  constructor(
+    private readonly standupRepository: StandupRepository,
+    private readonly draftRepository: UpdateDraftRepository,
+    authorizationService: AuthorizationService,
+    private readonly networkErrorService: NetworkErrorService
+  ) {
+    this.saveTeamMemberUpdateUseCase = new SaveTeamMemberUpdateUseCase(standupRepository, authorizationService);
+  }
+
+  /**
+   * Get the draft or queued update for a member's standup date, if there is one
+   */
+  async getDraft(teamId: string, memberId: string, date: string): Promise<UpdateDraft | null> {
+    return await this.draftRepository.getDraft(teamId, memberId, date);
+  }
+
+  /**
+   * Autosave an update being written
+   * An update already queued for that date is left alone until it is saved again
+   * @param baseRevision The revision the writer started from, or 0 for a new update
+   */
+  async saveDraft(teamId: string, member: TeamMember, date: string, baseRevision: number): Promise<void> {
+    const existing = await this.draftRepository.getDraft(teamId, member.id, date);
+    if (existing?.isPending()) return;
+
+    await this.draftRepository.saveDraft(
+      new UpdateDraft(teamId, date, member, baseRevision, 'draft', new Date().toISOString())
+    );
+  }
+
+  /**
+   * Forget the draft or queued update for a member's standup date, e.g. once it has been posted
+   */
+  async discardDraft(teamId: string, memberId: string, date: string): Promise<void> {
+    await this.draftRepository.deleteDraft(teamId, memberId, date);
+  }
+
+  /**
+   * Keep an update that could not be posted, to post it when the connection returns
+   * @param baseRevision The revision the writer started from, or 0 for a new update
+   */
+  async queueUpdate(teamId: string, member: TeamMember, date: string, baseRevision: number): Promise<UpdateDraft> {
+    const draft = new UpdateDraft(teamId, date, member, baseRevision, 'queued', new Date().toISOString());
+    await this.draftRepository.saveDraft(draft);
+    return draft;
+  }
+
+  /**
+   * Get the team's updates saved on this device that have not been posted yet, oldest first
+   */
+  async getPendingUpdates(teamId: string): Promise<UpdateDraft[]> {
+    const drafts = await this.draftRepository.getDrafts();
+
+    return drafts
+      .filter(draft => draft.teamId === teamId && draft.isPending())
+      .sort((a, b) => a.savedAt.localeCompare(b.savedAt));
+  }
+
+  /**
+   * Post every queued update on this device, across teams
+   * An update whose revision changed since the writer started is held as a conflict. One that
+   * could not reach the server stays queued and is tried again next time; one the server turned
+   * down (outside the backfill window, no permission to post) is marked failed and not retried
+   */
+  async syncPendingUpdates(): Promise<UpdateSyncResult> {
+    const result: UpdateSyncResult = { synced: [], conflicts: [], failed: [] };
+    const drafts = await this.draftRepository.getDrafts();
+
+    await this.pruneStaleDrafts(drafts);
+
+    const queued = drafts
+      .filter(draft => draft.status === 'queued')
+      .sort((a, b) => a.savedAt.localeCompare(b.savedAt));
+
+    for (const draft of queued) {
+      try {
+        const revision = await this.standupRepository.getUpdateRevision(draft.teamId, draft.member.id, draft.date);
+
+        if (revision !== draft.baseRevision) {
+          const conflict = draft.withStatus('conflict');
+          await this.draftRepository.saveDraft(conflict);
+          result.conflicts.push(conflict);
+          continue;
+        }
+
+        await this.saveTeamMemberUpdateUseCase.execute(draft.teamId, draft.member, draft.date);
+        await this.draftRepository.deleteDraft(draft.teamId, draft.member.id, draft.date);
+        result.synced.push(draft);
+      } catch (error) {
+        if (this.networkErrorService.isNetworkError(error)) continue;
+
+        const failed = draft.withStatus('failed', ManageUpdateDraftsUseCase.getErrorMessage(error));
+        await this.draftRepository.saveDraft(failed);
+        result.failed.push(failed);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Settle a conflict by posting this device's version over the one saved elsewhere
+   */
+  async keepLocalVersion(draft: UpdateDraft): Promise<void> {
+    const revision = await this.standupRepository.getUpdateRevision(draft.teamId, draft.member.id, draft.date);
+    await this.draftRepository.saveDraft(draft.rebase(revision));
+  }
+
+  /**
+   * Check if posting an update failed before the server answered, so it can be queued instead
+   * Anything the server turned down, and any other error, is not
+   */
+  isNetworkError(error: unknown): boolean {
+    return this.networkErrorService.isNetworkError(error);
+  }
+
+  /**
+   * Drop unsaved drafts nobody came back to
+   */
+  private async pruneStaleDrafts(drafts: UpdateDraft[]): Promise<void> {
+    const cutoff = Date.now() - ManageUpdateDraftsUseCase.DRAFT_MAX_AGE_DAYS * 24 * 60 * 60 * 1000;
+
+    await Promise.all(
+      drafts
+        .filter(draft => !draft.isPending() && new Date(draft.savedAt).getTime() < cutoff)
+        .map(draft => this.draftRepository.deleteDraft(draft.teamId, draft.member.id, draft.date))
+    );
+  }
+
+  /**
+   * Get why posting was turned down, including from the plain error objects the Supabase client returns
+   */
+  private static getErrorMessage(error: unknown): string {
+    if (error instanceof Error) return error.message;
+    if (typeof error === 'object' && error !== null && typeof (error as { message?: unknown }).message === 'string') {
+      return (error as { message: string }).message;
+    }
+    return 'Failed to post update';
+  }
+}
@@ -0,0 +1,68 @@
+import { StandupRepository } from '@/domain/repositories/StandupRepository';
+import { Huddle } from '@/domain/entities/Huddle';
+import { MemberAbsence } from '@/domain/entities/MemberAbsence';
+import { RosterMember } from '@/domain/entities/RosterMember';
+import { AuthorizationService } from '@/domain/services/AuthorizationService';
+
+/**
+ * Members who take a turn at a huddle
+ */
+export interface HuddleParticipants {
+  members: RosterMember[];
+  // Roster ids of members with time off that day, who start out marked absent
+  awayMemberIds: string[];
+}
+
+/**
+ * Run Huddle Use Case
+ * Handles running the standup meeting from the dashboard and recording who was there and how long it took
+ */
+export class RunHuddleUseCase {
+  constructor(
+    private readonly standupRepository: StandupRepository,
+    private readonly authorizationService: AuthorizationService
+  ) {}
+
+  /**
+   * Get the members expected to speak on a date
+   */
+  async getParticipants(teamId: string, date: string): Promise<HuddleParticipants> {
+    const [roster, absences] = await Promise.all([
+      this.standupRepository.getRosterMembers(teamId),
+      this.standupRepository.getAbsences(teamId, date, date)
+    ]);
+
+    const members = roster.filter(member => member.isExpectedToPost());
+
+    return {
+      members,
+      awayMemberIds: members
+        .filter(member => MemberAbsence.isAway(absences, member.id, date))
+        .map(member => member.id)
+    };
+  }
+
+  /**
+   * Get the huddle recorded for a date, or null if none was run
+   */
+  async getHuddle(teamId: string, date: string): Promise<Huddle | null> {
+    return await this.standupRepository.getHuddle(teamId, date);
+  }
+
+  /**
+   * Save a finished huddle with its day's standup entry
+   */
+  async saveHuddle(teamId: string, huddle: Huddle): Promise<void> {
+    await this.authorizationService.authorize(teamId, 'post_updates');
+
+    if (!Number.isInteger(huddle.durationSeconds) || huddle.durationSeconds < 0) {
+      throw new Error('Huddle duration must be a whole number of seconds');
+    }
+
+    if (huddle.getPresentCount() === 0) {
+      throw new Error('Mark at least one member present before saving the huddle');
+    }
+
+    await this.standupRepository.saveHuddle(teamId, huddle);
+  }
+}
@@ -1,28 +1,61 @@
 import { StandupRepository } from '@/domain/repositories/StandupRepository';
 import { TeamMember } from '@/domain/entities/TeamMember';
+import { AuthorizationService } from '@/domain/services/AuthorizationService';
+import { TeamCalendar } from '@/domain/services/TeamCalendar';
+import { Blocker } from '@/domain/entities/Blocker';
 
 /**
  * Use case for saving a team member's standup update
  * Encapsulates the business logic for persisting team member updates
  */
 export class SaveTeamMemberUpdateUseCase {
-  constructor(private readonly standupRepository: StandupRepository) {}
+  constructor(
+    private readonly standupRepository: StandupRepository,
+    private readonly authorizationService: AuthorizationService
+  ) {}
 
   /**
    * Execute the use case
+   * @param teamId The team the update belongs to
    * @param member The team member update to save
+   * @param date The standup date to post for; defaults to today, past dates must be inside the backfill window
    * @returns Promise<void>
    */
-  async execute(member: TeamMember): Promise<void> {
+  async execute(teamId: string, member: TeamMember, date?: string): Promise<void> {
+    await this.authorizationService.authorize(teamId, 'post_updates');
+
+    if (date) {
+      await this.validateDate(teamId, date);
+    }
+
     try {
       // Validate the member data
       this.validateMemberData(member);
-      
-      // Save the update
-      await this.standupRepository.saveTeamMemberUpdate(member);
+
+      // Save the update; the database links blockers raised again by hand to the blocker they repeat,
+      // and links the teammates it @mentions
+      await this.standupRepository.saveTeamMemberUpdate(teamId, member, date);
     } catch (error) {
+      // Rethrown as is, so callers can tell a rejected update from a failed request
       console.error('Failed to save team member update:', error);
-      throw new Error('Failed to save team member update');
+      throw error;
+    }
+  }
+
+  /**
+   * Make sure a target date is not in the future or older than the team's backfill window
+   * @param teamId The team whose timezone and window apply
+   * @param date The standup date being posted for
+   */
+  private async validateDate(teamId: string, date: string): Promise<void> {
+    const team = await this.standupRepository.getTeam(teamId);
+
+    if (!TeamCalendar.isWithinBackfillWindow(date, team.timezone, team.backfillDays)) {
+      throw new Error(
+        team.backfillDays === 0
+          ? 'Updates can only be posted for today'
+          : `Updates can only be posted for today or the last ${team.backfillDays} days`
+      );
     }
   }
 
@@ -44,8 +77,22 @@ export class SaveTeamMemberUpdateUseCase {
     }
     
     // At least one field should have content
-    if (!member.yesterday && !member.today && !member.blockers) {
+    if (!member.yesterday && !member.today && !member.blockers && member.blockerItems.length === 0) {
       throw new Error('At least one update field (yesterday, today, or blockers) must be provided');
     }
+
+    member.blockerItems.forEach(blocker => {
+      if (!blocker.description.trim()) {
+        throw new Error('Every blocker needs a description');
+      }
+
+      if (!Blocker.isValidSeverity(blocker.severity)) {
+        throw new Error(`${blocker.severity} is not a valid blocker severity`);
+      }
+
+      if (blocker.teamMemberId !== member.id) {
+        throw new Error('Blockers can only be carried on their owner\'s update');
+      }
+    });
   }
 }
@@ -1,8 +1,7 @@
 import { useState } from 'react';
 import { motion } from 'motion/react';
-import { AlertTriangle, RefreshCw, Settings, Key } from 'lucide-react';
+import { AlertTriangle, RefreshCw, Settings } from 'lucide-react';
 import { useApiKeyValidation } from '@/presentation/hooks/useApiKeyValidation';
-import { SupabasePasskeyService } from '@/infrastructure/services/SupabasePasskeyService';
 
 export function ApiKeyStatusChecker() {
   const [isExpanded, setIsExpanded] = useState(false);
@@ -12,19 +11,6 @@ export function ApiKeyStatusChecker() {
     await validateApiKeySetup(true); // Show success toast if valid
   };
 
-  const handleTestPasskey = async () => {
-    console.log('🔑 Testing passkey system...');
-    const passkeyService = new SupabasePasskeyService();
-    
-    // Test fetching all passkeys
-    const passkeys = await passkeyService.getAllPasskeys();
-    console.log('🔑 Available passkeys:', passkeys);
-    
-    // Test validating the default passkey
-    const isValid = await passkeyService.validatePasskey('huddle2025');
-    console.log('🔑 Default passkey validation result:', isValid);
-  };
-
   return (
     <div className="fixed bottom-4 right-4 z-40">
       <motion.div
@@ -76,14 +62,6 @@ export function ApiKeyStatusChecker() {
                   </>
                 )}
               </button>
-              
-              <button
-                onClick={handleTestPasskey}
-                className="w-full flex items-center justify-center space-x-2 px-3 py-2 text-sm font-medium text-white bg-purple-600 dark:bg-purple-500 border border-purple-600 dark:border-purple-500 rounded-lg hover:bg-purple-700 dark:hover:bg-purple-600 transition-colors"
-              >
-                <Key className="w-4 h-4" />
-                <span>Test Passkey</span>
-              </button>
             </div>
             
             <div className="mt-3 p-2 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-700/50 rounded-lg">
@@ -1,43 +1,94 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import { motion } from 'motion/react';
-import { Lock, Eye, EyeOff, Save, AlertTriangle } from 'lucide-react';
+import { Lock, Eye, EyeOff, Save, AlertTriangle, Trash2, Power, History } from 'lucide-react';
 import { SupabasePasskeyService } from '@/infrastructure/services/SupabasePasskeyService';
-import { Passkey } from '@/domain/services/PasskeyService';
+import { Passkey, PasskeyAuditEntry, PasskeyAuditReason, PasskeyScope, PASSKEY_SCOPES } from '@/domain/services/PasskeyService';
+import { useTeams } from '@/presentation/hooks/useTeams';
+
+const AUDIT_REASON_LABELS: Record<PasskeyAuditReason, string> = {
+  valid: 'Accepted',
+  unknown: 'Unknown passkey',
+  inactive: 'Inactive',
+  expired: 'Expired',
+  exhausted: 'Use limit reached',
+  out_of_scope: 'Wrong scope'
+};
+
+const getPasskeyStatus = (passkey: Passkey): { label: string; usable: boolean } => {
+  if (!passkey.isActive) return { label: 'Inactive', usable: false };
+  if (passkey.expiresAt && new Date(passkey.expiresAt) <= new Date()) return { label: 'Expired', usable: false };
+  if (passkey.maxUses !== undefined && passkey.useCount >= passkey.maxUses) return { label: 'Used up', usable: false };
+  return { label: 'Active', usable: true };
+};
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString('en-US', {
+  month: 'short',
+  day: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit'
+});
 
 export function PasskeyManagement() {
+  const { teamId } = useTeams();
   const [passkeys, setPasskeys] = useState<Passkey[]>([]);
+  const [auditLog, setAuditLog] = useState<PasskeyAuditEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
-  const [showCurrentPasskey, setShowCurrentPasskey] = useState(false);
+  const [keyName, setKeyName] = useState<string>(PASSKEY_SCOPES[0]);
+  const [scope, setScope] = useState<PasskeyScope>(PASSKEY_SCOPES[0]);
   const [newPasskey, setNewPasskey] = useState('');
   const [showNewPasskey, setShowNewPasskey] = useState(false);
+  const [expiresOn, setExpiresOn] = useState('');
+  const [maxUses, setMaxUses] = useState('');
 
   const passkeyService = useMemo(() => new SupabasePasskeyService(), []);
 
   const loadPasskeys = useCallback(async () => {
     try {
       setLoading(true);
-      const data = await passkeyService.getAllPasskeys();
+      const [data, log] = await Promise.all([
+        passkeyService.getAllPasskeys(teamId),
+        passkeyService.getAuditLog(teamId)
+      ]);
       setPasskeys(data);
+      setAuditLog(log);
     } catch (error) {
       console.error('Error loading passkeys:', error);
       setError('Failed to load passkeys');
     } finally {
       setLoading(false);
     }
-  }, [passkeyService]);
+  }, [passkeyService, teamId]);
 
   useEffect(() => {
     loadPasskeys();
   }, [loadPasskeys]);
 
-  const handleUpdatePasskey = async (e: React.FormEvent) => {
+  const runAction = async (action: () => Promise<unknown>, successMessage: string, failureMessage: string) => {
+    try {
+      setSaving(true);
+      setError('');
+      setSuccess('');
+      await action();
+      setSuccess(successMessage);
+      await loadPasskeys();
+      return true;
+    } catch (error) {
+      console.error(failureMessage, error);
+      setError(error instanceof Error && error.message ? error.message : failureMessage);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSavePasskey = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    if (!newPasskey.trim()) {
-      setError('Please enter a new passkey');
+
+    if (!keyName.trim()) {
+      setError('Please enter a name for the passkey');
       return;
     }
 
@@ -46,29 +97,30 @@ export function PasskeyManagement() {
       return;
     }
 
-    try {
-      setSaving(true);
-      setError('');
-      setSuccess('');
+    const parsedMaxUses = maxUses ? parseInt(maxUses, 10) : undefined;
+    if (parsedMaxUses !== undefined && (isNaN(parsedMaxUses) || parsedMaxUses < 1)) {
+      setError('Max uses must be a positive number');
+      return;
+    }
 
-      // Find the weekly report generation passkey
-      const weeklyReportPasskey = passkeys.find(p => p.keyName === 'weekly_report_generation');
-      
-      if (weeklyReportPasskey) {
-        await passkeyService.updatePasskey(weeklyReportPasskey.id, {
-          keyValue: newPasskey
-        });
-        setSuccess('Passkey updated successfully!');
-        setNewPasskey('');
-        await loadPasskeys();
-      } else {
-        setError('Weekly report passkey not found');
-      }
-    } catch (error) {
-      console.error('Error updating passkey:', error);
-      setError('Failed to update passkey');
-    } finally {
-      setSaving(false);
+    const rotating = passkeys.some(p => p.keyName === keyName.trim());
+    const saved = await runAction(
+      () => passkeyService.savePasskey(teamId, {
+        keyName: keyName.trim(),
+        keyValue: newPasskey,
+        scopes: [scope],
+        // Expire at the end of the chosen day
+        expiresAt: expiresOn ? new Date(`${expiresOn}T23:59:59`).toISOString() : undefined,
+        maxUses: parsedMaxUses
+      }),
+      rotating ? 'Passkey rotated successfully!' : 'Passkey created successfully!',
+      'Failed to save passkey'
+    );
+
+    if (saved) {
+      setNewPasskey('');
+      setExpiresOn('');
+      setMaxUses('');
     }
   };
 
@@ -83,11 +135,9 @@ export function PasskeyManagement() {
     );
   }
 
-  const weeklyReportPasskey = passkeys.find(p => p.keyName === 'weekly_report_generation');
-
   return (
     <div className="bg-white/80 dark:bg-gray-900/80 backdrop-blur-sm rounded-2xl border border-white/20 dark:border-gray-700/20 p-6 shadow-lg">
-      <div className="flex items-center mb-6">
+      <div className="flex items-center mb-2">
         <div className="p-2 bg-blue-100 dark:bg-blue-900/30 rounded-lg mr-3">
           <Lock className="w-5 h-5 text-blue-600 dark:text-blue-400" />
         </div>
@@ -95,6 +145,9 @@ export function PasskeyManagement() {
           Passkey Management
         </h3>
       </div>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+        Passkeys let scripts call server functions such as weekly report generation. They are stored hashed, so a value is only shown while you type it.
+      </p>
 
       {error && (
         <motion.div
@@ -119,39 +172,151 @@ export function PasskeyManagement() {
         </motion.div>
       )}
 
-      {weeklyReportPasskey && (
-        <div className="mb-6">
-          <h4 className="text-md font-medium text-gray-900 dark:text-white mb-3">
-            Current Weekly Report Passkey
-          </h4>
-          <div className="flex items-center space-x-3">
-            <div className="flex-1 relative">
-              <input
-                type={showCurrentPasskey ? 'text' : 'password'}
-                value={weeklyReportPasskey.keyValue}
-                readOnly
-                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-gray-50 dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
-              />
-              <button
-                type="button"
-                onClick={() => setShowCurrentPasskey(!showCurrentPasskey)}
-                className="absolute right-2 top-1/2 -translate-y-1/2 p-1 hover:bg-gray-200 dark:hover:bg-gray-600 rounded"
-              >
-                {showCurrentPasskey ? (
-                  <EyeOff className="w-4 h-4 text-gray-500" />
-                ) : (
-                  <Eye className="w-4 h-4 text-gray-500" />
-                )}
-              </button>
-            </div>
+      {/* Existing passkeys */}
+      <div className="mb-6">
+        <h4 className="text-md font-medium text-gray-900 dark:text-white mb-3">
+          Passkeys
+        </h4>
+        {passkeys.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No passkeys yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200/50 dark:divide-gray-700/50">
+            {passkeys.map(passkey => {
+              const status = getPasskeyStatus(passkey);
+              return (
+                <li key={passkey.id} className="py-3 flex items-start gap-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium text-gray-900 dark:text-white">{passkey.keyName}</span>
+                      <span
+                        className={`text-xs font-medium px-2 py-0.5 rounded-lg ${
+                          status.usable
+                            ? 'text-emerald-700 dark:text-emerald-300 bg-emerald-50 dark:bg-emerald-900/20'
+                            : 'text-gray-500 dark:text-gray-400 bg-gray-100 dark:bg-gray-800'
+                        }`}
+                      >
+                        {status.label}
+                      </span>
+                      {passkey.scopes.map(s => (
+                        <span key={s} className="text-xs px-2 py-0.5 rounded-lg text-blue-700 dark:text-blue-300 bg-blue-50 dark:bg-blue-900/20">
+                          {s}
+                        </span>
+                      ))}
+                    </div>
+                    {passkey.description && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{passkey.description}</p>
+                    )}
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      {passkey.maxUses !== undefined
+                        ? `${passkey.useCount} of ${passkey.maxUses} uses`
+                        : `${passkey.useCount} use${passkey.useCount === 1 ? '' : 's'}`}
+                      {passkey.lastUsedAt && ` · last used ${formatDateTime(passkey.lastUsedAt)}`}
+                      {passkey.expiresAt && ` · expires ${formatDateTime(passkey.expiresAt)}`}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => runAction(
+                      () => passkeyService.updatePasskey(passkey.id, { isActive: !passkey.isActive }),
+                      passkey.isActive ? 'Passkey deactivated' : 'Passkey activated',
+                      'Failed to update passkey'
+                    )}
+                    disabled={saving}
+                    className="p-2 text-gray-500 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors disabled:opacity-50"
+                    title={passkey.isActive ? 'Deactivate' : 'Activate'}
+                  >
+                    <Power className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => runAction(
+                      () => passkeyService.deletePasskey(passkey.id),
+                      'Passkey deleted',
+                      'Failed to delete passkey'
+                    )}
+                    disabled={saving}
+                    className="p-2 text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors disabled:opacity-50"
+                    title="Delete"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      {/* Create or rotate */}
+      <form onSubmit={handleSavePasskey} className="space-y-4 mb-6">
+        <h4 className="text-md font-medium text-gray-900 dark:text-white">
+          Create or Rotate a Passkey
+        </h4>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="passkeyName" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Name
+            </label>
+            <input
+              id="passkeyName"
+              type="text"
+              list="passkeyNameOptions"
+              value={keyName}
+              onChange={(e) => setKeyName(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              disabled={saving}
+            />
+            <datalist id="passkeyNameOptions">
+              {passkeys.map(p => (
+                <option key={p.id} value={p.keyName} />
+              ))}
+            </datalist>
+          </div>
+          <div>
+            <label htmlFor="passkeyScope" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Scope
+            </label>
+            <select
+              id="passkeyScope"
+              value={scope}
+              onChange={(e) => setScope(e.target.value as PasskeyScope)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              disabled={saving}
+            >
+              {PASSKEY_SCOPES.map(s => (
+                <option key={s} value={s}>{s}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="passkeyExpires" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Expires on <span className="text-gray-400">(optional)</span>
+            </label>
+            <input
+              id="passkeyExpires"
+              type="date"
+              value={expiresOn}
+              onChange={(e) => setExpiresOn(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              disabled={saving}
+            />
+          </div>
+          <div>
+            <label htmlFor="passkeyMaxUses" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Max uses <span className="text-gray-400">(optional)</span>
+            </label>
+            <input
+              id="passkeyMaxUses"
+              type="number"
+              min={1}
+              value={maxUses}
+              onChange={(e) => setMaxUses(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="Unlimited"
+              disabled={saving}
+            />
           </div>
-          <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
-            {weeklyReportPasskey.description}
-          </p>
         </div>
-      )}
-
-      <form onSubmit={handleUpdatePasskey} className="space-y-4">
         <div>
           <label htmlFor="newPasskey" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
             New Passkey
@@ -180,28 +345,64 @@ export function PasskeyManagement() {
             </button>
           </div>
           <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-            Minimum 6 characters. This will be used for generating weekly reports.
+            Minimum 6 characters. Saving under an existing name rotates that passkey and resets its use count.
           </p>
         </div>
 
         <button
           type="submit"
-          disabled={saving || !newPasskey.trim()}
+          disabled={saving || !newPasskey.trim() || !keyName.trim()}
           className="flex items-center space-x-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 dark:bg-blue-500 border border-blue-600 dark:border-blue-500 rounded-xl hover:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
         >
           {saving ? (
             <>
               <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-              <span>Updating...</span>
+              <span>Saving...</span>
             </>
           ) : (
             <>
               <Save className="w-4 h-4" />
-              <span>Update Passkey</span>
+              <span>Save Passkey</span>
             </>
           )}
         </button>
       </form>
+
+      {/* Audit log */}
+      <div>
+        <h4 className="text-md font-medium text-gray-900 dark:text-white mb-3 flex items-center">
+          <History className="w-4 h-4 mr-2 text-gray-500 dark:text-gray-400" />
+          Recent Validation Attempts
+        </h4>
+        {auditLog.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No passkeys have been used yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 dark:text-gray-400">
+                  <th className="py-2 pr-4 font-medium">When</th>
+                  <th className="py-2 pr-4 font-medium">Passkey</th>
+                  <th className="py-2 pr-4 font-medium">Scope</th>
+                  <th className="py-2 font-medium">Result</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200/50 dark:divide-gray-700/50">
+                {auditLog.map(entry => (
+                  <tr key={entry.id} className="text-gray-700 dark:text-gray-300">
+                    <td className="py-2 pr-4 whitespace-nowrap">{formatDateTime(entry.createdAt)}</td>
+                    <td className="py-2 pr-4">{entry.keyName ?? '—'}</td>
+                    <td className="py-2 pr-4">{entry.scope}</td>
+                    <td className={`py-2 ${entry.success ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'}`}>
+                      {AUDIT_REASON_LABELS[entry.reason] ?? entry.reason}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
     </div>
   );
 }
@@ -1,173 +0,0 @@
-import { useState } from 'react';
-import { motion, AnimatePresence } from 'motion/react';
-import { Lock, Eye, EyeOff, X } from 'lucide-react';
-
-interface PasskeyModalProps {
-  isOpen: boolean;
-  onClose: () => void;
-  onConfirm: (passkey: string) => Promise<void>;
-  title: string;
-  description: string;
-  actionLabel: string;
-  loading?: boolean;
-}
-
-export function PasskeyModal({
-  isOpen,
-  onClose,
-  onConfirm,
-  title,
-  description,
-  actionLabel,
-  loading = false
-}: PasskeyModalProps) {
-  const [passkey, setPasskey] = useState('');
-  const [showPasskey, setShowPasskey] = useState(false);
-  const [error, setError] = useState('');
-  const [validating, setValidating] = useState(false);
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!passkey.trim()) {
-      setError('Please enter a passkey');
-      return;
-    }
-
-    setError('');
-    setValidating(true);
-    
-    try {
-      await onConfirm(passkey);
-    } catch (error) {
-      console.error('Error confirming passkey:', error);
-    } finally {
-      setValidating(false);
-    }
-  };
-
-  const handleClose = () => {
-    setPasskey('');
-    setError('');
-    setShowPasskey(false);
-    setValidating(false);
-    onClose();
-  };
-
-  return (
-    <AnimatePresence>
-      {isOpen && (
-        <div className="fixed inset-0 z-50 flex items-center justify-center">
-          {/* Backdrop */}
-          <motion.div
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            exit={{ opacity: 0 }}
-            className="absolute inset-0 bg-black/50 backdrop-blur-sm"
-            onClick={handleClose}
-          />
-          
-          {/* Modal */}
-          <motion.div
-            initial={{ opacity: 0, scale: 0.95, y: 20 }}
-            animate={{ opacity: 1, scale: 1, y: 0 }}
-            exit={{ opacity: 0, scale: 0.95, y: 20 }}
-            className="relative bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 shadow-2xl p-6 w-full max-w-md mx-4"
-          >
-            {/* Header */}
-            <div className="flex items-center justify-between mb-4">
-              <div className="flex items-center space-x-3">
-                <div className="p-2 bg-blue-100 dark:bg-blue-900/30 rounded-lg">
-                  <Lock className="w-5 h-5 text-blue-600 dark:text-blue-400" />
-                </div>
-                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
-                  {title}
-                </h3>
-              </div>
-              <button
-                onClick={handleClose}
-                className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
-                disabled={loading}
-              >
-                <X className="w-5 h-5 text-gray-500 dark:text-gray-400" />
-              </button>
-            </div>
-
-            {/* Description */}
-            <p className="text-gray-600 dark:text-gray-400 mb-6">
-              {description}
-            </p>
-
-            {/* Form */}
-            <form onSubmit={handleSubmit} className="space-y-4">
-              {/* Passkey Input */}
-              <div>
-                <label htmlFor="passkey" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  Passkey
-                </label>
-                <div className="relative">
-                  <input
-                    id="passkey"
-                    type={showPasskey ? 'text' : 'password'}
-                    value={passkey}
-                    onChange={(e) => {
-                      setPasskey(e.target.value);
-                      setError('');
-                    }}
-                    className="w-full px-4 py-3 pr-12 border border-gray-300 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
-                    placeholder="Enter passkey"
-                    disabled={loading}
-                    autoComplete="current-password"
-                  />
-                  <button
-                    type="button"
-                    onClick={() => setShowPasskey(!showPasskey)}
-                    className="absolute right-3 top-1/2 -translate-y-1/2 p-1 hover:bg-gray-100 dark:hover:bg-gray-600 rounded-lg transition-colors"
-                    disabled={loading}
-                  >
-                    {showPasskey ? (
-                      <EyeOff className="w-5 h-5 text-gray-500 dark:text-gray-400" />
-                    ) : (
-                      <Eye className="w-5 h-5 text-gray-500 dark:text-gray-400" />
-                    )}
-                  </button>
-                </div>
-                {error && (
-                  <p className="mt-2 text-sm text-red-600 dark:text-red-400">
-                    {error}
-                  </p>
-                )}
-              </div>
-
-              {/* Action Buttons */}
-              <div className="flex space-x-3 pt-2">
-                <button
-                  type="button"
-                  onClick={handleClose}
-                  className="flex-1 px-4 py-3 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-xl hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
-                  disabled={loading}
-                >
-                  Cancel
-                </button>
-                <button
-                  type="submit"
-                  className="flex-1 px-4 py-3 text-sm font-medium text-white bg-blue-600 dark:bg-blue-500 border border-blue-600 dark:border-blue-500 rounded-xl hover:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center space-x-2"
-                  disabled={loading || validating}
-                >
-                  {(loading || validating) ? (
-                    <>
-                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-                      <span>{validating ? 'Validating...' : 'Processing...'}</span>
-                    </>
-                  ) : (
-                    <span>{actionLabel}</span>
-                  )}
-                </button>
-              </div>
-            </form>
-          </motion.div>
-        </div>
-      )}
-    </AnimatePresence>
-  );
-}
@@ -1,14 +1,20 @@
-import { useMemo, useCallback, useState, useEffect } from 'react';
+import { useMemo, useCallback, useState, useEffect, useRef } from 'react';
 import { Editor } from '@tinymce/tinymce-react';
+import { UpdateMention, Mentionable } from '@/domain/entities/UpdateMention';
+
+// How many teammates the @mention menu lists at once
+const MAX_MENTION_SUGGESTIONS = 8;
 
 interface RichTextEditorProps {
   value: string;
   onChange: (value: string) => void;
   placeholder?: string;
   minHeight?: string;
+  // Teammates offered when typing "@"; the simple textarea keeps a typed "@Name" as plain text
+  mentionables?: Mentionable[];
 }
 
-export default function RichTextEditor({ value, onChange, placeholder, minHeight = '120px' }: RichTextEditorProps) {
+export default function RichTextEditor({ value, onChange, placeholder, minHeight = '120px', mentionables = [] }: RichTextEditorProps) {
   // Check if TinyMCE API key is available, use 'no-api-key' as fallback
   const apiKey = import.meta.env.VITE_TINYMCE_API_KEY || 'no-api-key';
   
@@ -19,6 +25,12 @@ export default function RichTextEditor({ value, onChange, placeholder, minHeight
   const [editorError, setEditorError] = useState(false);
   const [editorInitialized, setEditorInitialized] = useState(false);
 
+  // The editor is set up once, so the mention menu reads the latest roster through a ref
+  const mentionablesRef = useRef(mentionables);
+  useEffect(() => {
+    mentionablesRef.current = mentionables;
+  }, [mentionables]);
+
   // Add timeout to detect if TinyMCE fails to initialize
   useEffect(() => {
     if (!editorError) {
@@ -73,10 +85,35 @@ export default function RichTextEditor({ value, onChange, placeholder, minHeight
       editor.on('init', () => {
         setEditorInitialized(true);
       });
+
+      // "@" opens a menu of teammates; picking one inserts a mention linked to their roster entry
+      editor.ui.registry.addAutocompleter('mentions', {
+        trigger: '@',
+        minChars: 0,
+        columns: 1,
+        fetch: (pattern: string) => {
+          const query = pattern.toLowerCase();
+          return Promise.resolve(
+            mentionablesRef.current
+              .filter(member => member.name.toLowerCase().includes(query))
+              .slice(0, MAX_MENTION_SUGGESTIONS)
+              .map(member => ({ type: 'autocompleteitem', value: member.id, text: member.name }))
+          );
+        },
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        onAction: (api: any, range: Range, memberId: string) => {
+          const member = mentionablesRef.current.find(candidate => candidate.id === memberId);
+          editor.selection.setRng(range);
+          editor.insertContent(member ? `${UpdateMention.toHtml(member)}&nbsp;` : '');
+          api.hide();
+        }
+      });
     },
+    extended_valid_elements: 'span[class|data-mention-id|contenteditable]',
+    noneditable_class: 'mention',
     content_style: isDarkMode 
-      ? 'body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif; font-size: 14px; color: #e2e8f0; background-color: transparent; line-height: 1.6; } p { margin: 0 0 12px 0; } ul, ol { margin: 0 0 12px 0; padding-left: 20px; } .mce-content-body[data-mce-placeholder]:not(.mce-visualblocks)::before { color: #9ca3af; }'
-      : 'body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif; font-size: 14px; color: #374151; background-color: transparent; line-height: 1.6; } p { margin: 0 0 12px 0; } ul, ol { margin: 0 0 12px 0; padding-left: 20px; }',
+      ? 'body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif; font-size: 14px; color: #e2e8f0; background-color: transparent; line-height: 1.6; } p { margin: 0 0 12px 0; } ul, ol { margin: 0 0 12px 0; padding-left: 20px; } .mention { color: #93c5fd; font-weight: 600; } .mce-content-body[data-mce-placeholder]:not(.mce-visualblocks)::before { color: #9ca3af; }'
+      : 'body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif; font-size: 14px; color: #374151; background-color: transparent; line-height: 1.6; } p { margin: 0 0 12px 0; } ul, ol { margin: 0 0 12px 0; padding-left: 20px; } .mention { color: #2563eb; font-weight: 600; }',
     placeholder: placeholder || 'Start typing...',
     branding: false,
     elementpath: false,
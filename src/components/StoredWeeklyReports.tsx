@@ -1,7 +1,6 @@
 import { StoredWeeklyReport } from '@/domain/repositories/StandupRepository';
 import { Calendar, FileText, Users, Clock, CheckCircle, XCircle, AlertTriangle, Eye } from 'lucide-react';
-import { PasskeyModal } from './PasskeyModal';
-import { usePasskey } from '@/presentation/hooks/usePasskey';
+import { useTeams } from '@/presentation/hooks/useTeams';
 
 interface StoredWeeklyReportsProps {
   reports: StoredWeeklyReport[];
@@ -14,7 +13,7 @@ interface StoredWeeklyReportsProps {
 }
 
 export function StoredWeeklyReports({ reports, loading, onViewReport, onGenerateReportManually, onGenerateLastWeekReportManually, toGenerateReportManually = false, generatingReport = false }: StoredWeeklyReportsProps) {
-  const { isModalOpen, modalConfig, showPasskeyModal, handlePasskeyConfirm, handlePasskeyCancel } = usePasskey();
+  const { timezone } = useTeams();
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       weekday: 'long',
@@ -28,32 +27,10 @@ export function StoredWeeklyReports({ reports, loading, onViewReport, onGenerate
     return new Date(dateString).toLocaleTimeString('en-US', {
       hour: '2-digit',
       minute: '2-digit',
-      timeZone: 'America/Vancouver'
+      timeZone: timezone
     });
   };
 
-  const handleGenerateWithPasskey = () => {
-    if (!onGenerateReportManually) return;
-    
-    showPasskeyModal(
-      onGenerateReportManually,
-      'Generate Weekly Report',
-      'Please enter the passkey to generate this week\'s report. This action will create a new weekly report with AI analysis.',
-      'Generate Report'
-    );
-  };
-
-  const handleGenerateLastWeekWithPasskey = () => {
-    if (!onGenerateLastWeekReportManually) return;
-    
-    showPasskeyModal(
-      onGenerateLastWeekReportManually,
-      'Generate Last Week Report',
-      'Please enter the passkey to generate last week\'s report. This action will create a new weekly report with AI analysis for the previous week.',
-      'Generate Last Week Report'
-    );
-  };
-
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'generated':
@@ -138,7 +115,7 @@ export function StoredWeeklyReports({ reports, loading, onViewReport, onGenerate
           {toGenerateReportManually && onGenerateReportManually && (
             <div className="flex justify-center gap-3 mb-4">
               <button
-                onClick={handleGenerateWithPasskey}
+                onClick={onGenerateReportManually}
                 disabled={generatingReport}
                 className="flex items-center space-x-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 dark:bg-blue-500 border border-blue-600 dark:border-blue-500 rounded-xl hover:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-sm hover:shadow-md"
               >
@@ -157,7 +134,7 @@ export function StoredWeeklyReports({ reports, loading, onViewReport, onGenerate
               
               {onGenerateLastWeekReportManually && (
                 <button
-                  onClick={handleGenerateLastWeekWithPasskey}
+                  onClick={onGenerateLastWeekReportManually}
                   disabled={generatingReport}
                   className="flex items-center space-x-2 px-4 py-2 text-sm font-medium text-white bg-gray-600 dark:bg-gray-500 border border-gray-600 dark:border-gray-500 rounded-xl hover:bg-gray-700 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-sm hover:shadow-md"
                 >
@@ -192,7 +169,7 @@ export function StoredWeeklyReports({ reports, loading, onViewReport, onGenerate
           {toGenerateReportManually && (
             <div className="flex items-center gap-2">
               <button
-                onClick={handleGenerateWithPasskey}
+                onClick={onGenerateReportManually}
                 disabled={generatingReport}
                 className="flex items-center space-x-2 px-3 py-2 text-sm font-medium text-white bg-blue-600 dark:bg-blue-500 border border-blue-600 dark:border-blue-500 rounded-xl hover:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-sm hover:shadow-md"
               >
@@ -211,7 +188,7 @@ export function StoredWeeklyReports({ reports, loading, onViewReport, onGenerate
               
               {onGenerateLastWeekReportManually && (
                 <button
-                  onClick={handleGenerateLastWeekWithPasskey}
+                  onClick={onGenerateLastWeekReportManually}
                   disabled={generatingReport}
                   className="flex items-center space-x-2 px-3 py-2 text-sm font-medium text-white bg-gray-600 dark:bg-gray-500 border border-gray-600 dark:border-gray-500 rounded-xl hover:bg-gray-700 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-sm hover:shadow-md"
                 >
@@ -295,17 +272,6 @@ export function StoredWeeklyReports({ reports, loading, onViewReport, onGenerate
           <p>📅 <strong>Automatic Generation:</strong> Reports are automatically generated every Friday at 12:00 PM PST</p>
         </div>
       </div>
-
-      {/* Passkey Modal */}
-      <PasskeyModal
-        isOpen={isModalOpen}
-        onClose={handlePasskeyCancel}
-        onConfirm={handlePasskeyConfirm}
-        title={modalConfig.title}
-        description={modalConfig.description}
-        actionLabel={modalConfig.actionLabel}
-        loading={generatingReport}
-      />
     </div>
   );
 }
@@ -0,0 +1,242 @@
+import { TeamCalendar } from '@/domain/services/TeamCalendar';
+
+export type BlockerSeverity = 'low' | 'medium' | 'high';
+
+/**
+ * Blocker Entity
+ * Something stopping a team member, carried from update to update until it is resolved
+ * A blocker is open from the day it was raised until the day it was resolved, exclusive
+ * Blockers open longer than the team's escalation threshold are escalated to its leads
+ */
+export class Blocker {
+  static readonly SEVERITIES: BlockerSeverity[] = ['low', 'medium', 'high'];
+  static readonly STALE_AFTER_DAYS = 2;
+  static readonly DEFAULT_ESCALATION_DAYS = 3;
+  static readonly MAX_ESCALATION_DAYS = 30;
+
+  private static readonly LABELS: Record<BlockerSeverity, string> = {
+    low: 'Low',
+    medium: 'Medium',
+    high: 'High'
+  };
+
+  constructor(
+    public readonly id: string,
+    public readonly teamMemberId: string,
+    public readonly memberName: string,
+    public readonly description: string,
+    public readonly unblocker: string | null,
+    public readonly severity: BlockerSeverity,
+    public readonly openedOn: string,
+    public readonly resolvedOn: string | null,
+    public readonly resolution: string | null,
+    public readonly createdAt: string,
+    public readonly escalatedAt: string | null = null,
+    public readonly escalationAcknowledgedAt: string | null = null
+  ) {}
+
+  /**
+   * Start a blocker that has not been saved yet; it opens on the date of the update that saves it
+   */
+  static draft(
+    teamMemberId: string,
+    memberName: string,
+    details: { description: string; unblocker?: string | null; severity: BlockerSeverity }
+  ): Blocker {
+    return new Blocker(
+      '',
+      teamMemberId,
+      memberName,
+      details.description,
+      details.unblocker || null,
+      details.severity,
+      '',
+      null,
+      null,
+      new Date().toISOString()
+    );
+  }
+
+  /**
+   * Check if the blocker has not been saved yet
+   */
+  isNew(): boolean {
+    return !this.id;
+  }
+
+  /**
+   * Check if the blocker is still open
+   */
+  isOpen(): boolean {
+    return this.resolvedOn === null;
+  }
+
+  /**
+   * Check if the blocker was open on a calendar date
+   * Unsaved blockers count as open on any date
+   */
+  wasOpenOn(date: string): boolean {
+    return (this.isNew() || this.openedOn <= date) && (this.resolvedOn === null || this.resolvedOn > date);
+  }
+
+  /**
+   * Get the number of days the blocker has been (or was) open
+   */
+  getAgeInDays(asOf: string): number {
+    if (this.isNew()) return 0;
+    return Math.max(0, TeamCalendar.getDaysBetween(this.openedOn, this.resolvedOn ?? asOf));
+  }
+
+  /**
+   * Get the number of business days the blocker has been (or was) open
+   */
+  getBusinessDaysOpen(asOf: string, holidays: string[] = []): number {
+    if (this.isNew()) return 0;
+    return TeamCalendar.getBusinessDaysBetween(this.openedOn, this.resolvedOn ?? asOf, holidays);
+  }
+
+  /**
+   * Check if the blocker is still open and has been for long enough to call out
+   */
+  isStale(asOf: string, holidays: string[] = []): boolean {
+    return this.isOpen() && this.getBusinessDaysOpen(asOf, holidays) >= Blocker.STALE_AFTER_DAYS;
+  }
+
+  /**
+   * Check if the blocker has been escalated to the team's leads
+   */
+  isEscalated(): boolean {
+    return this.escalatedAt !== null;
+  }
+
+  /**
+   * Check if a lead has seen the blocker's escalation
+   */
+  isEscalationAcknowledged(): boolean {
+    return this.escalationAcknowledgedAt !== null;
+  }
+
+  /**
+   * Create a resolved copy
+   */
+  resolve(date: string, resolution: string | null = null): Blocker {
+    return new Blocker(
+      this.id,
+      this.teamMemberId,
+      this.memberName,
+      this.description,
+      this.unblocker,
+      this.severity,
+      this.openedOn,
+      date,
+      resolution?.trim() || null,
+      this.createdAt,
+      this.escalatedAt,
+      this.escalationAcknowledgedAt
+    );
+  }
+
+  /**
+   * Create a copy that is open again
+   */
+  reopen(): Blocker {
+    return new Blocker(
+      this.id,
+      this.teamMemberId,
+      this.memberName,
+      this.description,
+      this.unblocker,
+      this.severity,
+      this.openedOn,
+      null,
+      null,
+      this.createdAt,
+      this.escalatedAt,
+      this.escalationAcknowledgedAt
+    );
+  }
+
+  /**
+   * Get the display label for the blocker's severity
+   */
+  getSeverityLabel(): string {
+    return Blocker.getSeverityLabel(this.severity);
+  }
+
+  /**
+   * Get the display label for a severity
+   */
+  static getSeverityLabel(severity: BlockerSeverity): string {
+    return Blocker.LABELS[severity];
+  }
+
+  /**
+   * Check if a string is a known severity
+   */
+  static isValidSeverity(severity: string): severity is BlockerSeverity {
+    return (Blocker.SEVERITIES as string[]).includes(severity);
+  }
+
+  /**
+   * Render blockers as the HTML list stored on a standup update
+   * An empty list renders as an empty string, meaning "no blockers"
+   */
+  static toHtml(blockers: Blocker[]): string {
+    if (blockers.length === 0) return '';
+
+    const items = blockers.map(blocker => {
+      const unblocker = blocker.unblocker ? ` (waiting on ${Blocker.escapeHtml(blocker.unblocker)})` : '';
+      return `<li><strong>${blocker.getSeverityLabel()}</strong>: ${Blocker.escapeHtml(blocker.description)}${unblocker}</li>`;
+    });
+
+    return `<ul>${items.join('')}</ul>`;
+  }
+
+  private static escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  /**
+   * Convert to plain object for serialization
+   */
+  toJSON() {
+    return {
+      id: this.id,
+      teamMemberId: this.teamMemberId,
+      memberName: this.memberName,
+      description: this.description,
+      unblocker: this.unblocker,
+      severity: this.severity,
+      openedOn: this.openedOn,
+      resolvedOn: this.resolvedOn,
+      resolution: this.resolution,
+      createdAt: this.createdAt,
+      escalatedAt: this.escalatedAt,
+      escalationAcknowledgedAt: this.escalationAcknowledgedAt
+    };
+  }
+
+  /**
+   * Create from plain object
+   */
+  static fromJSON(data: Record<string, unknown>): Blocker {
+    return new Blocker(
+      data.id as string,
+      data.teamMemberId as string,
+      data.memberName as string,
+      data.description as string,
+      (data.unblocker as string) ?? null,
+      (data.severity as BlockerSeverity) ?? 'medium',
+      data.openedOn as string,
+      (data.resolvedOn as string) ?? null,
+      (data.resolution as string) ?? null,
+      data.createdAt as string,
+      (data.escalatedAt as string) ?? null,
+      (data.escalationAcknowledgedAt as string) ?? null
+    );
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * EmailDigestSettings Entity
+ * The distribution list a team's weekly reports are emailed to
+ * The notifications edge function sends each new weekly report, as HTML with a plain-text alternative, over SMTP
+ */
+export class EmailDigestSettings {
+  static readonly MAX_RECIPIENTS = 50;
+
+  constructor(
+    public readonly teamId: string,
+    public readonly recipients: string[],
+    public readonly weeklyReportEnabled: boolean,
+    public readonly createdAt: string,
+    public readonly updatedAt: string
+  ) {}
+
+  /**
+   * Check if a string looks like an email address
+   */
+  static isValidEmail(email: string): boolean {
+    return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+  }
+
+  /**
+   * Split a pasted list of addresses, separated by commas, semicolons or new lines
+   */
+  static parseRecipients(text: string): string[] {
+    return text.split(/[,;\n]/).map(email => email.trim()).filter(Boolean);
+  }
+
+  /**
+   * Convert to plain object for serialization
+   */
+  toJSON() {
+    return {
+      teamId: this.teamId,
+      recipients: this.recipients,
+      weeklyReportEnabled: this.weeklyReportEnabled,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt
+    };
+  }
+
+  /**
+   * Create from plain object
+   */
+  static fromJSON(data: Record<string, unknown>): EmailDigestSettings {
+    return new EmailDigestSettings(
+      data.teamId as string,
+      (data.recipients as string[]) ?? [],
+      (data.weeklyReportEnabled as boolean) ?? true,
+      data.createdAt as string,
+      data.updatedAt as string
+    );
+  }
+}
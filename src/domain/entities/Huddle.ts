@@ -0,0 +1,119 @@
+import { RosterMember } from './RosterMember';
+
+export type HuddleOrder = 'random' | 'custom';
+
+/**
+ * Whether a member was at a huddle, and how long their turn took
+ */
+export interface HuddleAttendance {
+  teamMemberId: string;
+  present: boolean;
+  speakingSeconds: number;
+}
+
+/**
+ * Huddle Entity
+ * A standup meeting run from the dashboard in huddle mode: when it started, how long it took and who was there
+ * It is saved with the day's standup entry; running the huddle again that day replaces it
+ */
+export class Huddle {
+  static readonly DEFAULT_TIME_BOX_SECONDS = 120;
+  static readonly MIN_TIME_BOX_SECONDS = 15;
+  static readonly MAX_TIME_BOX_SECONDS = 900;
+  static readonly ORDERS: HuddleOrder[] = ['random', 'custom'];
+
+  constructor(
+    public readonly date: string,
+    public readonly startedAt: string,
+    public readonly durationSeconds: number,
+    public readonly facilitatedBy: string | null,
+    public readonly attendance: HuddleAttendance[]
+  ) {}
+
+  /**
+   * Get how many members were present
+   */
+  getPresentCount(): number {
+    return this.attendance.filter(entry => entry.present).length;
+  }
+
+  /**
+   * Check if a member was present
+   */
+  wasPresent(teamMemberId: string): boolean {
+    return this.attendance.some(entry => entry.teamMemberId === teamMemberId && entry.present);
+  }
+
+  /**
+   * Check if a time box is a whole number of seconds within the allowed range
+   */
+  static isValidTimeBox(seconds: number): boolean {
+    return Number.isInteger(seconds) && seconds >= Huddle.MIN_TIME_BOX_SECONDS && seconds <= Huddle.MAX_TIME_BOX_SECONDS;
+  }
+
+  /**
+   * Check if a string is a known speaking order
+   */
+  static isValidOrder(order: string): order is HuddleOrder {
+    return (Huddle.ORDERS as string[]).includes(order);
+  }
+
+  /**
+   * Format a number of seconds as m:ss for timers
+   */
+  static formatDuration(seconds: number): string {
+    const whole = Math.max(0, Math.floor(seconds));
+    return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+  }
+
+  /**
+   * Put members in speaking order
+   * A custom order lists roster ids; members it doesn't list (e.g. who joined since) go last, by name
+   */
+  static orderMembers(
+    members: RosterMember[],
+    order: HuddleOrder,
+    memberOrder: string[],
+    random: () => number = Math.random
+  ): RosterMember[] {
+    if (order === 'random') {
+      const shuffled = [...members];
+      for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+      }
+      return shuffled;
+    }
+
+    const positions = new Map(memberOrder.map((id, index) => [id, index]));
+    return [...members].sort((a, b) =>
+      (positions.get(a.id) ?? Infinity) - (positions.get(b.id) ?? Infinity) || a.name.localeCompare(b.name)
+    );
+  }
+
+  /**
+   * Convert to plain object for serialization
+   */
+  toJSON() {
+    return {
+      date: this.date,
+      startedAt: this.startedAt,
+      durationSeconds: this.durationSeconds,
+      facilitatedBy: this.facilitatedBy,
+      attendance: this.attendance
+    };
+  }
+
+  /**
+   * Create from plain object
+   */
+  static fromJSON(data: Record<string, unknown>): Huddle {
+    return new Huddle(
+      data.date as string,
+      data.startedAt as string,
+      (data.durationSeconds as number) ?? 0,
+      (data.facilitatedBy as string) ?? null,
+      (data.attendance as HuddleAttendance[]) ?? []
+    );
+  }
+}
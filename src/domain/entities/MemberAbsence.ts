@@ -0,0 +1,109 @@
+export type AbsenceKind = 'pto' | 'sick' | 'public_holiday';
+
+/**
+ * MemberAbsence Entity
+ * A stretch of days a team member is legitimately away, inclusive of both ends
+ * Away members are not expected to post and are left out of participation metrics
+ */
+export class MemberAbsence {
+  static readonly KINDS: AbsenceKind[] = ['pto', 'sick', 'public_holiday'];
+
+  private static readonly LABELS: Record<AbsenceKind, string> = {
+    pto: 'PTO',
+    sick: 'Sick',
+    public_holiday: 'Public holiday'
+  };
+
+  constructor(
+    public readonly id: string,
+    public readonly teamMemberId: string,
+    public readonly memberName: string,
+    public readonly kind: AbsenceKind,
+    public readonly startDate: string,
+    public readonly endDate: string,
+    public readonly note: string | null,
+    public readonly createdAt: string
+  ) {}
+
+  /**
+   * Check if the absence includes a calendar date
+   */
+  covers(date: string): boolean {
+    return date >= this.startDate && date <= this.endDate;
+  }
+
+  /**
+   * Check if the absence shares any day with a date range
+   */
+  overlaps(startDate: string, endDate: string): boolean {
+    return this.startDate <= endDate && this.endDate >= startDate;
+  }
+
+  /**
+   * Get the display label for the kind of absence
+   */
+  getLabel(): string {
+    return MemberAbsence.getKindLabel(this.kind);
+  }
+
+  /**
+   * Get the display label for a kind of absence
+   */
+  static getKindLabel(kind: AbsenceKind): string {
+    return MemberAbsence.LABELS[kind];
+  }
+
+  /**
+   * Check if a string is a known kind of absence
+   */
+  static isValidKind(kind: string): kind is AbsenceKind {
+    return (MemberAbsence.KINDS as string[]).includes(kind);
+  }
+
+  /**
+   * Check if a member is away on a date
+   */
+  static isAway(absences: MemberAbsence[], teamMemberId: string, date: string): boolean {
+    return absences.some(absence => absence.teamMemberId === teamMemberId && absence.covers(date));
+  }
+
+  /**
+   * Check if a member is away on every one of the given dates
+   * An empty list of dates never counts as away
+   */
+  static isAwayThroughout(absences: MemberAbsence[], teamMemberId: string, dates: string[]): boolean {
+    return dates.length > 0 && dates.every(date => MemberAbsence.isAway(absences, teamMemberId, date));
+  }
+
+  /**
+   * Convert to plain object for serialization
+   */
+  toJSON() {
+    return {
+      id: this.id,
+      teamMemberId: this.teamMemberId,
+      memberName: this.memberName,
+      kind: this.kind,
+      startDate: this.startDate,
+      endDate: this.endDate,
+      note: this.note,
+      createdAt: this.createdAt
+    };
+  }
+
+  /**
+   * Create from plain object
+   */
+  static fromJSON(data: Record<string, unknown>): MemberAbsence {
+    return new MemberAbsence(
+      data.id as string,
+      data.teamMemberId as string,
+      data.memberName as string,
+      data.kind as AbsenceKind,
+      data.startDate as string,
+      data.endDate as string,
+      (data.note as string) ?? null,
+      data.createdAt as string
+    );
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * MicrosoftTeamsIntegration Entity
+ * A team's connection to a Microsoft Teams channel and, optionally, its Microsoft 365 tenant
+ * The notifications edge function posts the day's digest and each new weekly report to the channel's
+ * incoming webhook as Adaptive Cards; users in the tenant can post their update through the bot
+ */
+export class MicrosoftTeamsIntegration {
+  constructor(
+    public readonly teamId: string,
+    public readonly webhookUrl: string,
+    public readonly tenantId: string | null,
+    public readonly digestEnabled: boolean,
+    public readonly weeklyReportEnabled: boolean,
+    public readonly createdAt: string,
+    public readonly updatedAt: string
+  ) {}
+
+  /**
+   * Check if a string is an https URL webhooks can be posted to
+   */
+  static isValidWebhookUrl(url: string): boolean {
+    try {
+      return new URL(url).protocol === 'https:';
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Check if a string looks like a Microsoft 365 tenant (directory) id, which is a GUID
+   */
+  static isValidTenantId(id: string): boolean {
+    return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id);
+  }
+
+  /**
+   * Check if members can post updates through the bot
+   */
+  isBotEnabled(): boolean {
+    return this.tenantId !== null;
+  }
+
+  /**
+   * Convert to plain object for serialization
+   */
+  toJSON() {
+    return {
+      teamId: this.teamId,
+      webhookUrl: this.webhookUrl,
+      tenantId: this.tenantId,
+      digestEnabled: this.digestEnabled,
+      weeklyReportEnabled: this.weeklyReportEnabled,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt
+    };
+  }
+
+  /**
+   * Create from plain object
+   */
+  static fromJSON(data: Record<string, unknown>): MicrosoftTeamsIntegration {
+    return new MicrosoftTeamsIntegration(
+      data.teamId as string,
+      data.webhookUrl as string,
+      (data.tenantId as string) ?? null,
+      (data.digestEnabled as boolean) ?? true,
+      (data.weeklyReportEnabled as boolean) ?? true,
+      data.createdAt as string,
+      data.updatedAt as string
+    );
+  }
+}
@@ -0,0 +1,133 @@
+import { TeamRole, TeamRoleName } from '../value-objects/TeamRole';
+
+export type ReminderChannel = 'email' | 'slack' | 'push' | 'none';
+
+/**
+ * RosterMember Entity
+ * Represents a person on the team roster, independent of any standup update
+ */
+export class RosterMember {
+  static readonly REMINDER_CHANNELS: ReminderChannel[] = ['email', 'slack', 'push', 'none'];
+
+  private static readonly REMINDER_CHANNEL_LABELS: Record<ReminderChannel, string> = {
+    email: 'Email',
+    slack: 'Slack DM',
+    push: 'Push notification',
+    none: "Don't remind me"
+  };
+
+  constructor(
+    public readonly id: string,
+    public readonly name: string,
+    public readonly role: string,
+    public readonly avatar: string,
+    public readonly email: string | null,
+    public readonly userId: string | null,
+    public readonly accessRole: TeamRoleName,
+    public readonly reminderChannel: ReminderChannel,
+    public readonly archivedAt: string | null,
+    public readonly createdAt: string,
+    public readonly updatedAt: string
+  ) {}
+
+  /**
+   * Check if the member has been archived (left the team)
+   */
+  isArchived(): boolean {
+    return this.archivedAt !== null;
+  }
+
+  /**
+   * Check if the member can still post standup updates
+   */
+  isActive(): boolean {
+    return !this.isArchived();
+  }
+
+  /**
+   * Check if the member has signed in and been linked to a user account
+   */
+  isLinked(): boolean {
+    return this.userId !== null;
+  }
+
+  /**
+   * Check if the member is the given signed-in user
+   */
+  belongsTo(userId: string): boolean {
+    return this.userId === userId;
+  }
+
+  /**
+   * Get the member's access role and the permissions it grants
+   */
+  getRole(): TeamRole {
+    return new TeamRole(this.accessRole);
+  }
+
+  /**
+   * Check if the member is expected to post standup updates
+   */
+  isExpectedToPost(): boolean {
+    return this.isActive() && this.getRole().can('post_updates');
+  }
+
+  /**
+   * Get the display label for a reminder channel
+   */
+  static getReminderChannelLabel(channel: ReminderChannel): string {
+    return RosterMember.REMINDER_CHANNEL_LABELS[channel];
+  }
+
+  /**
+   * Check if a string is a known reminder channel
+   */
+  static isValidReminderChannel(channel: string): channel is ReminderChannel {
+    return (RosterMember.REMINDER_CHANNELS as string[]).includes(channel);
+  }
+
+  /**
+   * Read a stored reminder channel; members default to email
+   */
+  static toReminderChannel(channel: string | null | undefined): ReminderChannel {
+    return channel && RosterMember.isValidReminderChannel(channel) ? channel : 'email';
+  }
+
+  /**
+   * Convert to plain object for serialization
+   */
+  toJSON() {
+    return {
+      id: this.id,
+      name: this.name,
+      role: this.role,
+      avatar: this.avatar,
+      email: this.email,
+      userId: this.userId,
+      accessRole: this.accessRole,
+      reminderChannel: this.reminderChannel,
+      archivedAt: this.archivedAt,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt
+    };
+  }
+
+  /**
+   * Create from plain object
+   */
+  static fromJSON(data: Record<string, unknown>): RosterMember {
+    return new RosterMember(
+      data.id as string,
+      data.name as string,
+      data.role as string,
+      (data.avatar as string) || '',
+      (data.email as string) || null,
+      (data.userId as string) || null,
+      TeamRole.fromString(data.accessRole as string).name,
+      RosterMember.toReminderChannel(data.reminderChannel as string),
+      (data.archivedAt as string) || null,
+      data.createdAt as string,
+      data.updatedAt as string
+    );
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * SlackIntegration Entity
+ * A team's connection to a Slack workspace and channel
+ * The slack edge function DMs members at standup time and takes their updates through a Slack modal;
+ * the notifications edge function posts the day's digest and each new weekly report to the channel
+ */
+export class SlackIntegration {
+  constructor(
+    public readonly teamId: string,
+    public readonly slackTeamId: string,
+    public readonly channelId: string,
+    public readonly promptsEnabled: boolean,
+    public readonly digestEnabled: boolean,
+    public readonly weeklyReportEnabled: boolean,
+    public readonly lastPromptedOn: string | null,
+    public readonly createdAt: string,
+    public readonly updatedAt: string
+  ) {}
+
+  /**
+   * Check if a string looks like a Slack workspace id (e.g. T012AB3C4)
+   */
+  static isValidSlackTeamId(id: string): boolean {
+    return /^[TE][A-Z0-9]{2,}$/.test(id);
+  }
+
+  /**
+   * Check if a string looks like a Slack channel id (e.g. C012AB3C4); channel names are not accepted
+   * because they change when a channel is renamed
+   */
+  static isValidChannelId(id: string): boolean {
+    return /^[CG][A-Z0-9]{2,}$/.test(id);
+  }
+
+  /**
+   * Convert to plain object for serialization
+   */
+  toJSON() {
+    return {
+      teamId: this.teamId,
+      slackTeamId: this.slackTeamId,
+      channelId: this.channelId,
+      promptsEnabled: this.promptsEnabled,
+      digestEnabled: this.digestEnabled,
+      weeklyReportEnabled: this.weeklyReportEnabled,
+      lastPromptedOn: this.lastPromptedOn,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt
+    };
+  }
+
+  /**
+   * Create from plain object
+   */
+  static fromJSON(data: Record<string, unknown>): SlackIntegration {
+    return new SlackIntegration(
+      data.teamId as string,
+      data.slackTeamId as string,
+      data.channelId as string,
+      (data.promptsEnabled as boolean) ?? true,
+      (data.digestEnabled as boolean) ?? true,
+      (data.weeklyReportEnabled as boolean) ?? true,
+      (data.lastPromptedOn as string) ?? null,
+      data.createdAt as string,
+      data.updatedAt as string
+    );
+  }
+}
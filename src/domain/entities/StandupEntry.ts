@@ -1,4 +1,6 @@
 import { TeamMember } from './TeamMember';
+import { MemberAbsence } from './MemberAbsence';
+import { Blocker } from './Blocker';
 
 /**
  * StandupEntry Entity
@@ -12,6 +14,18 @@ export class StandupEntry {
     public readonly createdAt: string
   ) {}
 
+  /**
+   * Create a copy with every member's blockers hidden
+   */
+  withoutBlockers(): StandupEntry {
+    return new StandupEntry(
+      this.id,
+      this.date,
+      this.teamMembers.map(member => member.withoutBlockers()),
+      this.createdAt
+    );
+  }
+
   /**
    * Get the number of team members who provided updates
    */
@@ -21,19 +35,26 @@ export class StandupEntry {
 
   /**
    * Get team members who haven't provided updates
+   * Members who were away that day are not counted as missing
    */
-  getMembersWithoutUpdates(): TeamMember[] {
-    return this.teamMembers.filter(member => !member.hasUpdate());
+  getMembersWithoutUpdates(absences: MemberAbsence[] = []): TeamMember[] {
+    return this.teamMembers.filter(member =>
+      !member.hasUpdate() && !MemberAbsence.isAway(absences, member.id, this.date)
+    );
+  }
+
+  /**
+   * Get the tracked blockers that were open on this entry's date
+   */
+  getOpenBlockers(): Blocker[] {
+    return this.teamMembers.flatMap(member => member.getOpenBlockers(this.date));
   }
 
   /**
-   * Get all blockers mentioned in this entry
+   * Get all blockers open on this entry's date, as "Member: description" lines
    */
   getAllBlockers(): string[] {
-    return this.teamMembers
-      .map(member => member.blockers)
-      .filter(blocker => blocker && blocker.trim() !== '')
-      .filter(blocker => blocker !== '<p>None</p>' && blocker !== 'None');
+    return this.getOpenBlockers().map(blocker => `${blocker.memberName}: ${blocker.description}`);
   }
 
   /**
@@ -0,0 +1,84 @@
+/**
+ * StandupUpdateRevision Entity
+ * One saved version of a team member's standup update
+ * Revisions are numbered from 1 in the order they were saved
+ */
+export class StandupUpdateRevision {
+  constructor(
+    public readonly id: string,
+    public readonly updateId: string,
+    public readonly revisionNumber: number,
+    public readonly yesterday: string,
+    public readonly today: string,
+    public readonly blockers: string,
+    public readonly editedBy: string | null,
+    public readonly createdAt: string
+  ) {}
+
+  /**
+   * Check if this is the first version that was posted
+   */
+  isOriginal(): boolean {
+    return this.revisionNumber === 1;
+  }
+
+  /**
+   * Create a copy with the blockers hidden
+   */
+  withoutBlockers(): StandupUpdateRevision {
+    return new StandupUpdateRevision(
+      this.id,
+      this.updateId,
+      this.revisionNumber,
+      this.yesterday,
+      this.today,
+      '',
+      this.editedBy,
+      this.createdAt
+    );
+  }
+
+  /**
+   * Pick the revision that was current at an instant
+   * Updates first posted after that instant fall back to their original version
+   */
+  static asOf(revisions: StandupUpdateRevision[], instant: string): StandupUpdateRevision | undefined {
+    const sorted = [...revisions].sort((a, b) => a.revisionNumber - b.revisionNumber);
+    const cutoff = new Date(instant).getTime();
+    const current = sorted.filter(revision => new Date(revision.createdAt).getTime() <= cutoff).pop();
+
+    return current ?? sorted[0];
+  }
+
+  /**
+   * Convert to plain object for serialization
+   */
+  toJSON() {
+    return {
+      id: this.id,
+      updateId: this.updateId,
+      revisionNumber: this.revisionNumber,
+      yesterday: this.yesterday,
+      today: this.today,
+      blockers: this.blockers,
+      editedBy: this.editedBy,
+      createdAt: this.createdAt
+    };
+  }
+
+  /**
+   * Create from plain object
+   */
+  static fromJSON(data: Record<string, unknown>): StandupUpdateRevision {
+    return new StandupUpdateRevision(
+      data.id as string,
+      data.updateId as string,
+      data.revisionNumber as number,
+      data.yesterday as string,
+      data.today as string,
+      data.blockers as string,
+      (data.editedBy as string) ?? null,
+      data.createdAt as string
+    );
+  }
+}
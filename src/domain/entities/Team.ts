@@ -0,0 +1,89 @@
+import { Huddle, HuddleOrder } from './Huddle';
+
+/**
+ * Team Entity
+ * Represents a workspace that owns its own roster, standups and weekly reports
+ */
+export class Team {
+  constructor(
+    public readonly id: string,
+    public readonly name: string,
+    public readonly timezone: string,
+    public readonly standupTime: string,
+    public readonly backfillDays: number,
+    public readonly blockerEscalationDays: number,
+    public readonly reminderTime: string | null,
+    public readonly huddleTimeBoxSeconds: number,
+    public readonly huddleOrder: HuddleOrder,
+    public readonly huddleMemberOrder: string[],
+    public readonly createdAt: string,
+    public readonly updatedAt: string
+  ) {}
+
+  /**
+   * Check if members who haven't posted are reminded
+   */
+  hasReminders(): boolean {
+    return this.reminderTime !== null;
+  }
+
+  /**
+   * Create a new instance with updated settings
+   */
+  update(updates: Partial<Pick<Team, 'name' | 'timezone' | 'standupTime' | 'backfillDays' | 'blockerEscalationDays' | 'reminderTime' | 'huddleTimeBoxSeconds' | 'huddleOrder' | 'huddleMemberOrder'>>): Team {
+    return new Team(
+      this.id,
+      updates.name ?? this.name,
+      updates.timezone ?? this.timezone,
+      updates.standupTime ?? this.standupTime,
+      updates.backfillDays ?? this.backfillDays,
+      updates.blockerEscalationDays ?? this.blockerEscalationDays,
+      updates.reminderTime !== undefined ? updates.reminderTime : this.reminderTime,
+      updates.huddleTimeBoxSeconds ?? this.huddleTimeBoxSeconds,
+      updates.huddleOrder ?? this.huddleOrder,
+      updates.huddleMemberOrder ?? this.huddleMemberOrder,
+      this.createdAt,
+      new Date().toISOString()
+    );
+  }
+
+  /**
+   * Convert to plain object for serialization
+   */
+  toJSON() {
+    return {
+      id: this.id,
+      name: this.name,
+      timezone: this.timezone,
+      standupTime: this.standupTime,
+      backfillDays: this.backfillDays,
+      blockerEscalationDays: this.blockerEscalationDays,
+      reminderTime: this.reminderTime,
+      huddleTimeBoxSeconds: this.huddleTimeBoxSeconds,
+      huddleOrder: this.huddleOrder,
+      huddleMemberOrder: this.huddleMemberOrder,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt
+    };
+  }
+
+  /**
+   * Create from plain object
+   */
+  static fromJSON(data: Record<string, unknown>): Team {
+    return new Team(
+      data.id as string,
+      data.name as string,
+      data.timezone as string,
+      data.standupTime as string,
+      data.backfillDays as number,
+      data.blockerEscalationDays as number,
+      (data.reminderTime as string) ?? null,
+      (data.huddleTimeBoxSeconds as number) ?? Huddle.DEFAULT_TIME_BOX_SECONDS,
+      (data.huddleOrder as HuddleOrder) ?? 'random',
+      (data.huddleMemberOrder as string[]) ?? [],
+      data.createdAt as string,
+      data.updatedAt as string
+    );
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * TeamHoliday Entity
+ * A day the whole team is off, such as a statutory holiday
+ * Holidays are skipped by every business-day calculation
+ */
+export class TeamHoliday {
+  constructor(
+    public readonly id: string,
+    public readonly date: string,
+    public readonly name: string,
+    public readonly createdAt: string
+  ) {}
+
+  /**
+   * Get just the dates of a list of holidays, for calendar calculations
+   */
+  static toDates(holidays: TeamHoliday[]): string[] {
+    return holidays.map(holiday => holiday.date);
+  }
+
+  /**
+   * Convert to plain object for serialization
+   */
+  toJSON() {
+    return {
+      id: this.id,
+      date: this.date,
+      name: this.name,
+      createdAt: this.createdAt
+    };
+  }
+
+  /**
+   * Create from plain object
+   */
+  static fromJSON(data: Record<string, unknown>): TeamHoliday {
+    return new TeamHoliday(
+      data.id as string,
+      data.date as string,
+      data.name as string,
+      data.createdAt as string
+    );
+  }
+}
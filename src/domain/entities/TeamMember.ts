@@ -1,6 +1,13 @@
+import { Blocker } from './Blocker';
+import { UpdateReaction } from './UpdateReaction';
+import { UpdateMention } from './UpdateMention';
+
 /**
  * TeamMember Entity
  * Represents a team member in the standup system
+ * `blockers` is the update's blocker list rendered as HTML; `blockerItems` are the tracked
+ * blockers behind it, including any resolved in this update. `commentCount` and `reactions` are the
+ * discussion on the update, and `mentions` the teammates it @mentions
  */
 export class TeamMember {
   constructor(
@@ -11,7 +18,14 @@ export class TeamMember {
     public readonly yesterday: string,
     public readonly today: string,
     public readonly blockers: string,
-    public readonly lastUpdated: string
+    public readonly lastUpdated: string,
+    public readonly updateId: string | null = null,
+    public readonly revisionCount: number = 1,
+    public readonly postedLate: boolean = false,
+    public readonly blockerItems: Blocker[] = [],
+    public readonly commentCount: number = 0,
+    public readonly reactions: UpdateReaction[] = [],
+    public readonly mentions: UpdateMention[] = []
   ) {}
 
   /**
@@ -21,6 +35,34 @@ export class TeamMember {
     return !!(this.yesterday || this.today || this.blockers);
   }
 
+  /**
+   * Get the tracked blockers that were open on a standup date
+   */
+  getOpenBlockers(date: string): Blocker[] {
+    return this.blockerItems.filter(blocker => blocker.wasOpenOn(date));
+  }
+
+  /**
+   * Get the tracked blockers that were resolved in the update for a standup date
+   */
+  getResolvedBlockers(date: string): Blocker[] {
+    return this.blockerItems.filter(blocker => blocker.resolvedOn === date);
+  }
+
+  /**
+   * Get the teammates the member was waiting on, from the mentions in their blockers
+   */
+  getDependencies(): UpdateMention[] {
+    return this.mentions.filter(mention => mention.isDependency());
+  }
+
+  /**
+   * Check if the update was changed after it was first posted
+   */
+  hasEdits(): boolean {
+    return this.revisionCount > 1;
+  }
+
   /**
    * Get a summary of the team member's update
    */
@@ -44,7 +86,60 @@ export class TeamMember {
       updates.yesterday ?? this.yesterday,
       updates.today ?? this.today,
       updates.blockers ?? this.blockers,
-      new Date().toISOString()
+      new Date().toISOString(),
+      this.updateId,
+      this.revisionCount,
+      this.postedLate,
+      this.blockerItems,
+      this.commentCount,
+      this.reactions,
+      this.mentions
+    );
+  }
+
+  /**
+   * Create a copy with different tracked blockers, re-rendering the blocker list for a standup date
+   */
+  withBlockerItems(blockerItems: Blocker[], date: string): TeamMember {
+    return new TeamMember(
+      this.id,
+      this.name,
+      this.role,
+      this.avatar,
+      this.yesterday,
+      this.today,
+      Blocker.toHtml(blockerItems.filter(blocker => blocker.wasOpenOn(date))),
+      this.lastUpdated,
+      this.updateId,
+      this.revisionCount,
+      this.postedLate,
+      blockerItems,
+      this.commentCount,
+      this.reactions,
+      this.mentions
+    );
+  }
+
+  /**
+   * Create a copy with the blockers hidden, including who they were waiting on, keeping the original timestamp
+   */
+  withoutBlockers(): TeamMember {
+    return new TeamMember(
+      this.id,
+      this.name,
+      this.role,
+      this.avatar,
+      this.yesterday,
+      this.today,
+      '',
+      this.lastUpdated,
+      this.updateId,
+      this.revisionCount,
+      this.postedLate,
+      [],
+      this.commentCount,
+      this.reactions,
+      this.mentions.filter(mention => !mention.isDependency())
     );
   }
 
@@ -60,7 +155,14 @@ export class TeamMember {
       yesterday: this.yesterday,
       today: this.today,
       blockers: this.blockers,
-      lastUpdated: this.lastUpdated
+      lastUpdated: this.lastUpdated,
+      updateId: this.updateId,
+      revisionCount: this.revisionCount,
+      postedLate: this.postedLate,
+      blockerItems: this.blockerItems.map(blocker => blocker.toJSON()),
+      commentCount: this.commentCount,
+      reactions: this.reactions.map(reaction => reaction.toJSON()),
+      mentions: this.mentions.map(mention => mention.toJSON())
     };
   }
 
@@ -76,7 +178,14 @@ export class TeamMember {
       data.yesterday as string,
       data.today as string,
       data.blockers as string,
-      data.lastUpdated as string
+      data.lastUpdated as string,
+      (data.updateId as string) ?? null,
+      (data.revisionCount as number) ?? 1,
+      (data.postedLate as boolean) ?? false,
+      ((data.blockerItems as Record<string, unknown>[]) ?? []).map(blocker => Blocker.fromJSON(blocker)),
+      (data.commentCount as number) ?? 0,
+      ((data.reactions as Record<string, unknown>[]) ?? []).map(reaction => UpdateReaction.fromJSON(reaction)),
+      ((data.mentions as Record<string, unknown>[]) ?? []).map(mention => UpdateMention.fromJSON(mention))
     );
   }
 }
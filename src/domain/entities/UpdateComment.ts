@@ -0,0 +1,86 @@
+/**
+ * A comment and the replies in its thread, oldest first
+ */
+export interface CommentThread {
+  comment: UpdateComment;
+  replies: UpdateComment[];
+}
+
+/**
+ * UpdateComment Entity
+ * A teammate's comment on a standup update; a reply points at the comment that started its thread
+ */
+export class UpdateComment {
+  static readonly MAX_LENGTH = 2000;
+
+  constructor(
+    public readonly id: string,
+    public readonly standupUpdateId: string,
+    public readonly parentId: string | null,
+    public readonly teamMemberId: string,
+    public readonly authorName: string,
+    public readonly body: string,
+    public readonly createdAt: string
+  ) {}
+
+  /**
+   * Check if the comment replies to another
+   */
+  isReply(): boolean {
+    return this.parentId !== null;
+  }
+
+  /**
+   * Group comments into threads, oldest first
+   * Replies whose thread is missing are shown as their own thread
+   */
+  static toThreads(comments: UpdateComment[]): CommentThread[] {
+    const sorted = [...comments].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    const threads = new Map<string, CommentThread>();
+
+    sorted.filter(comment => !comment.isReply()).forEach(comment => {
+      threads.set(comment.id, { comment, replies: [] });
+    });
+
+    sorted.filter(comment => comment.isReply()).forEach(comment => {
+      const thread = threads.get(comment.parentId!);
+      if (thread) {
+        thread.replies.push(comment);
+      } else {
+        threads.set(comment.id, { comment, replies: [] });
+      }
+    });
+
+    return Array.from(threads.values()).sort((a, b) => a.comment.createdAt.localeCompare(b.comment.createdAt));
+  }
+
+  /**
+   * Convert to plain object for serialization
+   */
+  toJSON() {
+    return {
+      id: this.id,
+      standupUpdateId: this.standupUpdateId,
+      parentId: this.parentId,
+      teamMemberId: this.teamMemberId,
+      authorName: this.authorName,
+      body: this.body,
+      createdAt: this.createdAt
+    };
+  }
+
+  /**
+   * Create from plain object
+   */
+  static fromJSON(data: Record<string, unknown>): UpdateComment {
+    return new UpdateComment(
+      data.id as string,
+      data.standupUpdateId as string,
+      (data.parentId as string) ?? null,
+      data.teamMemberId as string,
+      data.authorName as string,
+      data.body as string,
+      data.createdAt as string
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { TeamMember } from './TeamMember';
+
+export type UpdateDraftStatus = 'draft' | 'queued' | 'conflict' | 'failed';
+
+/**
+ * UpdateDraft Entity
+ * A standup update kept on this device, one per member per standup date
+ * Drafts are autosaved while the update is being written; queued updates were saved while offline
+ * and are posted when the connection returns. `baseRevision` is the revision of the update the
+ * writer started from (0 when there was none), so an update changed elsewhere in the meantime is
+ * held as a conflict instead of being overwritten. A failed update was turned down by the server and
+ * is kept, with the reason, until its writer discards it
+ */
+export class UpdateDraft {
+  constructor(
+    public readonly teamId: string,
+    public readonly date: string,
+    public readonly member: TeamMember,
+    public readonly baseRevision: number,
+    public readonly status: UpdateDraftStatus,
+    public readonly savedAt: string,
+    public readonly error: string | null = null
+  ) {}
+
+  /**
+   * Get the key a draft is stored under
+   */
+  static getKey(teamId: string, memberId: string, date: string): string {
+    return `${teamId}:${memberId}:${date}`;
+  }
+
+  get key(): string {
+    return UpdateDraft.getKey(this.teamId, this.member.id, this.date);
+  }
+
+  /**
+   * Check if the update was saved and is waiting to be posted (or for the writer to settle a conflict)
+   */
+  isPending(): boolean {
+    return this.status !== 'draft';
+  }
+
+  /**
+   * Create a copy with a new status
+   */
+  withStatus(status: UpdateDraftStatus, error: string | null = null): UpdateDraft {
+    return new UpdateDraft(this.teamId, this.date, this.member, this.baseRevision, status, this.savedAt, error);
+  }
+
+  /**
+   * Create a queued copy based on the update's current revision, so it replaces whatever was saved elsewhere
+   */
+  rebase(revision: number): UpdateDraft {
+    return new UpdateDraft(this.teamId, this.date, this.member, revision, 'queued', this.savedAt);
+  }
+
+  /**
+   * Convert to plain object for serialization
+   */
+  toJSON() {
+    return {
+      key: this.key,
+      teamId: this.teamId,
+      date: this.date,
+      member: this.member.toJSON(),
+      baseRevision: this.baseRevision,
+      status: this.status,
+      savedAt: this.savedAt,
+      error: this.error
+    };
+  }
+
+  /**
+   * Create from plain object
+   */
+  static fromJSON(data: Record<string, unknown>): UpdateDraft {
+    return new UpdateDraft(
+      data.teamId as string,
+      data.date as string,
+      TeamMember.fromJSON(data.member as Record<string, unknown>),
+      (data.baseRevision as number) ?? 0,
+      (data.status as UpdateDraftStatus) ?? 'draft',
+      data.savedAt as string,
+      (data.error as string) ?? null
+    );
+  }
+}
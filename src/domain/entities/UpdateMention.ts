@@ -0,0 +1,78 @@
+export type MentionField = 'yesterday' | 'today' | 'blockers';
+
+/**
+ * A roster member who can be mentioned
+ */
+export interface Mentionable {
+  id: string;
+  name: string;
+}
+
+/**
+ * UpdateMention Entity
+ * A teammate @mentioned in one field of a standup update
+ * Editors insert mentions as `<span data-mention-id="...">@Name</span>`; a plain "@Name" typed
+ * without the editor (or in a blocker) also counts when it matches someone on the roster.
+ * save_standup_update finds them when an update is saved.
+ * A mention in blockers means the author is waiting on that member
+ */
+export class UpdateMention {
+  static readonly FIELDS: MentionField[] = ['yesterday', 'today', 'blockers'];
+
+  constructor(
+    public readonly teamMemberId: string,
+    public readonly memberName: string,
+    public readonly field: MentionField
+  ) {}
+
+  /**
+   * Check if the author is waiting on the mentioned member
+   */
+  isDependency(): boolean {
+    return this.field === 'blockers';
+  }
+
+  /**
+   * Render a mention the way the editor inserts it
+   */
+  static toHtml(member: Mentionable): string {
+    return `<span class="mention" data-mention-id="${UpdateMention.escapeHtml(member.id)}">@${UpdateMention.escapeHtml(member.name)}</span>`;
+  }
+
+  /**
+   * Check if a string is a field mentions can be made in
+   */
+  static isValidField(field: string): field is MentionField {
+    return (UpdateMention.FIELDS as string[]).includes(field);
+  }
+
+  private static escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  /**
+   * Convert to plain object for serialization
+   */
+  toJSON() {
+    return {
+      teamMemberId: this.teamMemberId,
+      memberName: this.memberName,
+      field: this.field
+    };
+  }
+
+  /**
+   * Create from plain object
+   */
+  static fromJSON(data: Record<string, unknown>): UpdateMention {
+    return new UpdateMention(
+      data.teamMemberId as string,
+      data.memberName as string,
+      data.field as MentionField
+    );
+  }
+}
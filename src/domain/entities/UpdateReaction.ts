@@ -0,0 +1,70 @@
+/**
+ * How many people reacted to an update with an emoji, and whether the signed-in member did
+ */
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  reacted: boolean;
+}
+
+/**
+ * UpdateReaction Entity
+ * An emoji a teammate reacted to a standup update with; each member can use each emoji once per update
+ */
+export class UpdateReaction {
+  static readonly EMOJIS = ['👍', '🎉', '❤️', '👀', '🙏', '🚀'];
+
+  constructor(
+    public readonly id: string,
+    public readonly standupUpdateId: string,
+    public readonly teamMemberId: string,
+    public readonly emoji: string
+  ) {}
+
+  /**
+   * Check if an emoji is one members can react with
+   */
+  static isValidEmoji(emoji: string): boolean {
+    return UpdateReaction.EMOJIS.includes(emoji);
+  }
+
+  /**
+   * Count an update's reactions by emoji, in the order the emoji are offered
+   */
+  static summarize(reactions: UpdateReaction[], currentMemberId?: string): ReactionSummary[] {
+    return UpdateReaction.EMOJIS
+      .map(emoji => {
+        const matching = reactions.filter(reaction => reaction.emoji === emoji);
+        return {
+          emoji,
+          count: matching.length,
+          reacted: !!currentMemberId && matching.some(reaction => reaction.teamMemberId === currentMemberId)
+        };
+      })
+      .filter(summary => summary.count > 0);
+  }
+
+  /**
+   * Convert to plain object for serialization
+   */
+  toJSON() {
+    return {
+      id: this.id,
+      standupUpdateId: this.standupUpdateId,
+      teamMemberId: this.teamMemberId,
+      emoji: this.emoji
+    };
+  }
+
+  /**
+   * Create from plain object
+   */
+  static fromJSON(data: Record<string, unknown>): UpdateReaction {
+    return new UpdateReaction(
+      data.id as string,
+      data.standupUpdateId as string,
+      data.teamMemberId as string,
+      data.emoji as string
+    );
+  }
+}
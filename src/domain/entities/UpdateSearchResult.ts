@@ -0,0 +1,84 @@
+import { TeamMember } from './TeamMember';
+
+export type SearchField = 'yesterday' | 'today' | 'blockers';
+
+/**
+ * A run of snippet text, and whether it matched the search
+ */
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * UpdateSearchResult Entity
+ * A standup update found by a history search, with a plain-text snippet of each field
+ * Snippets come from the database with each match wrapped in MATCH_START ... MATCH_END, control
+ * characters that never occur in update text; they are split into segments rather than rendered as HTML
+ */
+export class UpdateSearchResult {
+  static readonly MATCH_START = '\u0002';
+  static readonly MATCH_END = '\u0003';
+  static readonly DEFAULT_LIMIT = 50;
+  static readonly MAX_LIMIT = 200;
+
+  constructor(
+    public readonly member: TeamMember,
+    public readonly date: string,
+    public readonly rank: number,
+    public readonly headlines: Partial<Record<SearchField, string>>
+  ) {}
+
+  /**
+   * Check if a field's text matched the search
+   */
+  hasMatchIn(field: SearchField): boolean {
+    return !!this.headlines[field]?.includes(UpdateSearchResult.MATCH_START);
+  }
+
+  /**
+   * Check if the result matched on its text rather than only on the filters
+   */
+  hasMatches(): boolean {
+    return (['yesterday', 'today', 'blockers'] as SearchField[]).some(field => this.hasMatchIn(field));
+  }
+
+  /**
+   * Get a field's snippet split into matched and unmatched runs
+   */
+  getHighlights(field: SearchField): HighlightSegment[] {
+    return UpdateSearchResult.toSegments(this.headlines[field] ?? '');
+  }
+
+  /**
+   * Split a snippet into matched and unmatched runs, dropping empty ones
+   */
+  static toSegments(headline: string): HighlightSegment[] {
+    const segments: HighlightSegment[] = [];
+
+    headline.split(UpdateSearchResult.MATCH_START).forEach((part, index) => {
+      if (index === 0) {
+        segments.push({ text: part, match: false });
+        return;
+      }
+
+      const [matched, ...rest] = part.split(UpdateSearchResult.MATCH_END);
+      segments.push({ text: matched, match: true });
+      segments.push({ text: rest.join(''), match: false });
+    });
+
+    return segments.filter(segment => segment.text !== '');
+  }
+
+  /**
+   * Create a copy with the blockers hidden, along with their snippet
+   */
+  withoutBlockers(): UpdateSearchResult {
+    return new UpdateSearchResult(
+      this.member.withoutBlockers(),
+      this.date,
+      this.rank,
+      { yesterday: this.headlines.yesterday, today: this.headlines.today }
+    );
+  }
+}
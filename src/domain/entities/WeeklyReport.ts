@@ -1,5 +1,31 @@
 import { StandupEntry } from './StandupEntry';
+import { Blocker } from './Blocker';
+import { TeamMember } from './TeamMember';
 import { WeeklyReportSummary } from '@/domain/value-objects/WeeklyReportSummary';
+import { TeamCalendar } from '@/domain/services/TeamCalendar';
+
+/**
+ * Which version of each update a report is built from
+ * - latest: the update as it reads now, including later edits
+ * - standup: the update as it read at the team's standup time that day
+ */
+export type ReportContentVersion = 'latest' | 'standup';
+
+/**
+ * A team holiday that fell within the report's week
+ */
+export interface ReportHoliday {
+  date: string;
+  name: string;
+}
+
+/**
+ * One member's update on a day of the report
+ */
+export interface ReportUpdate {
+  date: string;
+  member: TeamMember;
+}
 
 /**
  * WeeklyReport Entity
@@ -10,9 +36,34 @@ export class WeeklyReport {
     public readonly weekStart: string,
     public readonly weekEnd: string,
     public readonly entries: StandupEntry[],
-    public readonly summary: WeeklyReportSummary
+    public readonly summary: WeeklyReportSummary,
+    public readonly contentVersion: ReportContentVersion = 'latest',
+    public readonly awayMembers: string[] = [],
+    public readonly holidays: ReportHoliday[] = []
   ) {}
 
+  /**
+   * Create a copy with a different summary
+   */
+  withSummary(summary: WeeklyReportSummary): WeeklyReport {
+    return new WeeklyReport(
+      this.weekStart,
+      this.weekEnd,
+      this.entries,
+      summary,
+      this.contentVersion,
+      this.awayMembers,
+      this.holidays
+    );
+  }
+
+  /**
+   * Get the working days of the week, skipping weekends and team holidays
+   */
+  getBusinessDays(): string[] {
+    return TeamCalendar.getBusinessDays(this.weekStart, this.weekEnd, this.holidays.map(holiday => holiday.date));
+  }
+
   /**
    * Get total number of updates across all entries
    */
@@ -22,22 +73,52 @@ export class WeeklyReport {
 
   /**
    * Get unique team members who provided updates
+   * Members who were away for the whole week are left out
    */
   getUniqueMembers(): number {
     const memberNames = new Set<string>();
     this.entries.forEach(entry => {
       entry.teamMembers.forEach(member => {
-        memberNames.add(member.name);
+        if (!this.awayMembers.includes(member.name)) {
+          memberNames.add(member.name);
+        }
       });
     });
     return memberNames.size;
   }
 
   /**
-   * Get all blockers from the week
+   * Get every tracked blocker open on a day with updates, once each
+   * Blockers are carried from day to day, so the same one shows up in many entries
+   */
+  getOpenBlockers(): Blocker[] {
+    const blockers = new Map<string, Blocker>();
+    this.entries.forEach(entry => {
+      entry.getOpenBlockers().forEach(blocker => {
+        if (!blockers.has(blocker.id)) {
+          blockers.set(blocker.id, blocker);
+        }
+      });
+    });
+    return Array.from(blockers.values());
+  }
+
+  /**
+   * Get all blockers from the week, as "Member: description" lines
    */
   getAllBlockers(): string[] {
-    return this.entries.flatMap(entry => entry.getAllBlockers());
+    return this.getOpenBlockers().map(blocker => `${blocker.memberName}: ${blocker.description}`);
+  }
+
+  /**
+   * Get the updates teammates commented on most, most comments first
+   */
+  getMostDiscussedUpdates(limit: number = 5): ReportUpdate[] {
+    return this.entries
+      .flatMap(entry => entry.teamMembers.map(member => ({ date: entry.date, member })))
+      .filter(update => update.member.commentCount > 0)
+      .sort((a, b) => b.member.commentCount - a.member.commentCount || a.date.localeCompare(b.date))
+      .slice(0, limit);
   }
 
   /**
@@ -100,9 +181,11 @@ export class WeeklyReport {
     const totalUpdates = this.getTotalUpdates();
     const uniqueMembers = this.getUniqueMembers();
     const daysWithData = this.entries.length;
-    const blockerCount = this.getAllBlockers().length;
+    const blockers = this.summary.blockers;
+    
+    const businessDays = this.getBusinessDays().length;
     
-    return `Week of ${this.weekStart} to ${this.weekEnd}: ${totalUpdates} updates from ${uniqueMembers} members across ${daysWithData} days. ${blockerCount} blockers reported.`;
+    return `Week of ${this.weekStart} to ${this.weekEnd}: ${totalUpdates} updates from ${uniqueMembers} members across ${daysWithData} of ${businessDays} working days. ${blockers.opened.length} new and ${blockers.resolved.length} resolved blockers, ${blockers.getOpenCount()} still open.`;
   }
 
   /**
@@ -115,7 +198,10 @@ export class WeeklyReport {
       totalUpdates: this.getTotalUpdates(),
       uniqueMembers: this.getUniqueMembers(),
       entries: this.entries.map(entry => entry.toJSON()),
-      summary: this.summary.toJSON()
+      summary: this.summary.toJSON(),
+      contentVersion: this.contentVersion,
+      awayMembers: this.awayMembers,
+      holidays: this.holidays
     };
   }
 
@@ -127,7 +213,10 @@ export class WeeklyReport {
       data.weekStart as string,
       data.weekEnd as string,
       (data.entries as Array<{ id: string; date: string; teamMembers: unknown[]; createdAt: string }>).map((entry) => StandupEntry.fromJSON(entry)),
-      WeeklyReportSummary.fromJSON(data.summary as Record<string, unknown>)
+      WeeklyReportSummary.fromJSON(data.summary as Record<string, unknown>),
+      data.contentVersion === 'standup' ? 'standup' : 'latest',
+      Array.isArray(data.awayMembers) ? data.awayMembers as string[] : [],
+      Array.isArray(data.holidays) ? data.holidays as ReportHoliday[] : []
     );
   }
 }
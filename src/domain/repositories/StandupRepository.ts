@@ -1,51 +1,459 @@
 import { TeamMember } from '@/domain/entities/TeamMember';
 import { StandupEntry } from '@/domain/entities/StandupEntry';
-import { WeeklyReport } from '@/domain/entities/WeeklyReport';
+import { WeeklyReport, ReportContentVersion } from '@/domain/entities/WeeklyReport';
+import { RosterMember, ReminderChannel } from '@/domain/entities/RosterMember';
+import { Team } from '@/domain/entities/Team';
+import { StandupUpdateRevision } from '@/domain/entities/StandupUpdateRevision';
+import { MemberAbsence, AbsenceKind } from '@/domain/entities/MemberAbsence';
+import { TeamHoliday } from '@/domain/entities/TeamHoliday';
+import { Blocker } from '@/domain/entities/Blocker';
+import { SlackIntegration } from '@/domain/entities/SlackIntegration';
+import { MicrosoftTeamsIntegration } from '@/domain/entities/MicrosoftTeamsIntegration';
+import { EmailDigestSettings } from '@/domain/entities/EmailDigestSettings';
+import { UpdateComment } from '@/domain/entities/UpdateComment';
+import { UpdateReaction } from '@/domain/entities/UpdateReaction';
+import { UpdateSearchResult } from '@/domain/entities/UpdateSearchResult';
+import { Huddle, HuddleOrder } from '@/domain/entities/Huddle';
+import { Participation } from '@/domain/value-objects/Participation';
+import { TeamRoleName } from '@/domain/value-objects/TeamRole';
 
 /**
  * Repository interface for standup data operations
  * Defines the contract for data access without implementation details
+ * Every standup, roster and report operation is scoped to a team
  */
 export interface StandupRepository {
+  /**
+   * Get all teams (workspaces)
+   */
+  getTeams(): Promise<Team[]>;
+
+  /**
+   * Get a single team
+   */
+  getTeam(teamId: string): Promise<Team>;
+
+  /**
+   * Create a new team
+   */
+  createTeam(team: TeamInput): Promise<Team>;
+
   /**
    * Get today's standup entries
    */
-  getTodayStandup(): Promise<TeamMember[]>;
+  getTodayStandup(teamId: string): Promise<TeamMember[]>;
+
+  /**
+   * Get a page of standup history (excluding today), newest day first
+   * Pages hold whole days, so a busy day is never split across two of them
+   */
+  getStandupHistory(teamId: string, page?: StandupHistoryPageInput): Promise<StandupHistoryPage>;
+
+  /**
+   * Get the months (YYYY-MM) with standup history (excluding today), newest first
+   */
+  getHistoryMonths(teamId: string): Promise<string[]>;
+
+  /**
+   * Search standup updates by their text and filters, best matches first (newest first without text)
+   * Blockers are only searched and returned for people who can view them
+   */
+  searchStandupUpdates(teamId: string, search: UpdateSearchInput): Promise<UpdateSearchResult[]>;
+
+  /**
+   * Find the standup updates closest in meaning to an embedding, most similar first
+   * Each result's rank is its similarity, from 0 to 1; blockers are only compared for people who can view them
+   */
+  findSimilarUpdates(teamId: string, search: SimilarUpdatesInput): Promise<UpdateSearchResult[]>;
+
+  /**
+   * Save a team member's update for a standup date, defaulting to today
+   * New blockers on the update open on that date; changes to carried-over blockers are saved with it
+   */
+  saveTeamMemberUpdate(teamId: string, member: TeamMember, date?: string): Promise<void>;
+
+  /**
+   * Get how many times a member's update for a standup date has been saved, or 0 if they have not posted for it
+   */
+  getUpdateRevision(teamId: string, teamMemberId: string, date: string): Promise<number>;
+
+  /**
+   * Get a member's blockers that were open on a standup date, to carry into that day's update
+   */
+  getOpenBlockers(teamId: string, teamMemberId: string, date: string): Promise<Blocker[]>;
+
+  /**
+   * Get every blocker that was open at some point within a date range
+   */
+  getBlockers(teamId: string, startDate: string, endDate: string): Promise<Blocker[]>;
+
+  /**
+   * Get every blocker on the team that is open now, with its escalation if it has one
+   */
+  getOpenTeamBlockers(teamId: string): Promise<Blocker[]>;
+
+  /**
+   * Mark a blocker's escalation as seen by a lead
+   */
+  acknowledgeBlockerEscalation(teamId: string, blockerId: string): Promise<void>;
+
+  /**
+   * Get how many members expected on the previous business day posted for it
+   */
+  getYesterdayParticipation(teamId: string): Promise<Participation>;
+
+  /**
+   * Get how many members expected this week have posted at least once
+   */
+  getTeamEngagement(teamId: string): Promise<Participation>;
+
+  /**
+   * Get every saved version of a standup update, oldest first
+   */
+  getUpdateRevisions(teamId: string, updateId: string): Promise<StandupUpdateRevision[]>;
+
+  /**
+   * Get the comments on a standup update, oldest first
+   */
+  getUpdateComments(teamId: string, updateId: string): Promise<UpdateComment[]>;
 
   /**
-   * Get standup history (excluding today)
+   * Comment on a standup update, or reply in a thread
    */
-  getStandupHistory(limit?: number): Promise<StandupEntry[]>;
+  addUpdateComment(teamId: string, comment: UpdateCommentInput): Promise<UpdateComment>;
 
   /**
-   * Save a team member's update
+   * Delete a comment, along with any replies to it
    */
-  saveTeamMemberUpdate(member: TeamMember): Promise<void>;
+  deleteUpdateComment(teamId: string, id: string): Promise<void>;
 
   /**
-   * Get yesterday's update count
+   * React to a standup update with an emoji
    */
-  getYesterdayUpdateCount(): Promise<number>;
+  addUpdateReaction(teamId: string, reaction: UpdateReactionInput): Promise<UpdateReaction>;
 
   /**
-   * Get team engagement for the current week
+   * Take back a reaction
    */
-  getTeamEngagement(): Promise<number>;
+  deleteUpdateReaction(teamId: string, id: string): Promise<void>;
 
   /**
    * Generate a weekly report for a specific date range
+   * from either the latest edits or each update as it read at standup time
    */
-  generateWeeklyReport(weekStart: string, weekEnd: string): Promise<WeeklyReport>;
+  generateWeeklyReport(
+    teamId: string,
+    weekStart: string,
+    weekEnd: string,
+    contentVersion?: ReportContentVersion
+  ): Promise<WeeklyReport>;
 
   /**
    * Get stored weekly reports
    */
-  getStoredWeeklyReports(limit?: number): Promise<StoredWeeklyReport[]>;
+  getStoredWeeklyReports(teamId: string, limit?: number): Promise<StoredWeeklyReport[]>;
 
   /**
    * Save a weekly report
    */
-  saveWeeklyReport(report: WeeklyReport): Promise<void>;
+  saveWeeklyReport(teamId: string, report: WeeklyReport): Promise<void>;
+
+  /**
+   * Get the team roster, optionally including archived members
+   */
+  getRosterMembers(teamId: string, includeArchived?: boolean): Promise<RosterMember[]>;
+
+  /**
+   * Add a new member to the roster
+   */
+  addRosterMember(teamId: string, member: RosterMemberInput): Promise<RosterMember>;
+
+  /**
+   * Update a roster member's name, role, avatar or email
+   */
+  updateRosterMember(teamId: string, id: string, updates: Partial<RosterMemberInput>): Promise<RosterMember>;
+
+  /**
+   * Change a roster member's access role
+   */
+  updateRosterMemberRole(teamId: string, id: string, role: TeamRoleName): Promise<void>;
+
+  /**
+   * Archive a roster member so they can no longer post updates
+   */
+  archiveRosterMember(teamId: string, id: string): Promise<void>;
+
+  /**
+   * Restore a previously archived roster member
+   */
+  restoreRosterMember(teamId: string, id: string): Promise<void>;
+
+  /**
+   * Change how the signed-in user is reminded to post on a team
+   */
+  updateOwnReminderChannel(teamId: string, channel: ReminderChannel): Promise<void>;
+
+  /**
+   * Get absences that overlap a date range
+   */
+  getAbsences(teamId: string, startDate: string, endDate: string): Promise<MemberAbsence[]>;
+
+  /**
+   * Record a member's absence
+   */
+  addAbsence(teamId: string, absence: MemberAbsenceInput): Promise<MemberAbsence>;
+
+  /**
+   * Remove a recorded absence
+   */
+  deleteAbsence(teamId: string, id: string): Promise<void>;
+
+  /**
+   * Get team holidays within a date range
+   */
+  getHolidays(teamId: string, startDate: string, endDate: string): Promise<TeamHoliday[]>;
+
+  /**
+   * Add team holidays; a holiday on a date that already has one replaces its name
+   * @returns The number of holidays saved
+   */
+  saveHolidays(teamId: string, holidays: TeamHolidayInput[]): Promise<number>;
+
+  /**
+   * Remove a team holiday
+   */
+  deleteHoliday(teamId: string, id: string): Promise<void>;
+
+  /**
+   * Get the IANA timezone that defines the team's "today" and "this week"
+   */
+  getTeamTimezone(teamId: string): Promise<string>;
+
+  /**
+   * Update the team's timezone
+   */
+  updateTeamTimezone(teamId: string, timezone: string): Promise<void>;
+
+  /**
+   * Update the local HH:MM time the team holds its standup
+   */
+  updateTeamStandupTime(teamId: string, standupTime: string): Promise<void>;
+
+  /**
+   * Update how many days back updates can be posted or edited
+   */
+  updateTeamBackfillDays(teamId: string, backfillDays: number): Promise<void>;
+
+  /**
+   * Update how many business days a blocker can stay open before it is escalated
+   */
+  updateTeamBlockerEscalationDays(teamId: string, escalationDays: number): Promise<void>;
+
+  /**
+   * Update the local time members who haven't posted are reminded; null turns reminders off
+   */
+  updateTeamReminderTime(teamId: string, reminderTime: string | null): Promise<void>;
+
+  /**
+   * Update how the team's huddle is run: each member's time box and the speaking order
+   */
+  updateTeamHuddleSettings(teamId: string, input: HuddleSettingsInput): Promise<void>;
+
+  /**
+   * Get the huddle recorded for a date, or null if none was run
+   */
+  getHuddle(teamId: string, date: string): Promise<Huddle | null>;
+
+  /**
+   * Save a huddle with its day's standup entry, replacing one saved earlier that day
+   */
+  saveHuddle(teamId: string, huddle: Huddle): Promise<void>;
+
+  /**
+   * Get the team's Slack connection, or null if it is not connected
+   */
+  getSlackIntegration(teamId: string): Promise<SlackIntegration | null>;
+
+  /**
+   * Connect the team to Slack, or change its connection
+   */
+  saveSlackIntegration(teamId: string, input: SlackIntegrationInput): Promise<SlackIntegration>;
+
+  /**
+   * Disconnect the team from Slack
+   */
+  deleteSlackIntegration(teamId: string): Promise<void>;
+
+  /**
+   * Get the team's Microsoft Teams connection, or null if it is not connected
+   */
+  getMicrosoftTeamsIntegration(teamId: string): Promise<MicrosoftTeamsIntegration | null>;
+
+  /**
+   * Connect the team to Microsoft Teams, or change its connection
+   */
+  saveMicrosoftTeamsIntegration(teamId: string, input: MicrosoftTeamsIntegrationInput): Promise<MicrosoftTeamsIntegration>;
+
+  /**
+   * Disconnect the team from Microsoft Teams
+   */
+  deleteMicrosoftTeamsIntegration(teamId: string): Promise<void>;
+
+  /**
+   * Get the team's weekly report distribution list, or null if it has none
+   */
+  getEmailDigestSettings(teamId: string): Promise<EmailDigestSettings | null>;
+
+  /**
+   * Set the team's weekly report distribution list
+   */
+  saveEmailDigestSettings(teamId: string, input: EmailDigestSettingsInput): Promise<EmailDigestSettings>;
+
+  /**
+   * Stop emailing the team's weekly reports
+   */
+  deleteEmailDigestSettings(teamId: string): Promise<void>;
+}
+
+/**
+ * Fields needed to create a team
+ */
+export interface TeamInput {
+  name: string;
+  timezone: string;
+}
+
+/**
+ * Editable fields of a roster member
+ */
+export interface RosterMemberInput {
+  name: string;
+  role: string;
+  avatar?: string;
+  email?: string;
+}
+
+/**
+ * Fields needed to record an absence
+ */
+export interface MemberAbsenceInput {
+  teamMemberId: string;
+  kind: AbsenceKind;
+  startDate: string;
+  endDate: string;
+  note?: string;
+}
+
+/**
+ * Fields needed to add a team holiday
+ */
+export interface TeamHolidayInput {
+  date: string;
+  name: string;
+}
+
+/**
+ * Fields needed to connect a team to Slack
+ */
+export interface SlackIntegrationInput {
+  slackTeamId: string;
+  channelId: string;
+  promptsEnabled: boolean;
+  digestEnabled: boolean;
+  weeklyReportEnabled: boolean;
+}
+
+/**
+ * Fields needed to connect a team to Microsoft Teams
+ */
+export interface MicrosoftTeamsIntegrationInput {
+  webhookUrl: string;
+  tenantId: string | null;
+  digestEnabled: boolean;
+  weeklyReportEnabled: boolean;
+}
+
+/**
+ * Fields needed to email a team's weekly reports
+ */
+export interface EmailDigestSettingsInput {
+  recipients: string[];
+  weeklyReportEnabled: boolean;
+}
+
+/**
+ * Fields needed to comment on a standup update
+ */
+export interface UpdateCommentInput {
+  standupUpdateId: string;
+  teamMemberId: string;
+  // The comment that started the thread, when replying
+  parentId: string | null;
+  body: string;
+}
+
+/**
+ * Fields needed to react to a standup update
+ */
+export interface UpdateReactionInput {
+  standupUpdateId: string;
+  teamMemberId: string;
+  emoji: string;
+}
+
+/**
+ * Fields needed to configure a team's huddle
+ */
+export interface HuddleSettingsInput {
+  timeBoxSeconds: number;
+  order: HuddleOrder;
+  memberOrder: string[];
+}
+
+/**
+ * Filters for searching standup updates
+ * `text` takes web search syntax ("quoted phrases", or, -excluded); empty text searches by the filters alone
+ */
+export interface UpdateSearchInput {
+  text: string;
+  memberId: string | null;
+  role: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  hasBlockers: boolean;
+  limit?: number;
+}
+
+/**
+ * An embedding to find similar standup updates to, with filters
+ * Only updates embedded by the same model are compared
+ */
+export interface SimilarUpdatesInput {
+  embedding: number[];
+  model: string;
+  memberId: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  minSimilarity?: number;
+  limit?: number;
+}
+
+/**
+ * Which page of standup history to get
+ * `before` is the cursor from the previous page; `from` stops paging at that date
+ */
+export interface StandupHistoryPageInput {
+  before?: string | null;
+  from?: string | null;
+  days?: number;
+}
+
+/**
+ * A page of standup history, with the cursor for the page after it or null on the last page
+ */
+export interface StandupHistoryPage {
+  entries: StandupEntry[];
+  nextCursor: string | null;
 }
 
 /**
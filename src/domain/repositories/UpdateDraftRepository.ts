@@ -0,0 +1,32 @@
+import { UpdateDraft } from '@/domain/entities/UpdateDraft';
+
+/**
+ * Repository interface for standup updates kept on this device
+ * Drafts and queued updates outlive page reloads and lost connections, so they are stored locally
+ */
+export interface UpdateDraftRepository {
+  /**
+   * Get the draft or queued update for a member's standup date, if there is one
+   */
+  getDraft(teamId: string, memberId: string, date: string): Promise<UpdateDraft | null>;
+
+  /**
+   * Get every draft and queued update on this device, across teams
+   */
+  getDrafts(): Promise<UpdateDraft[]>;
+
+  /**
+   * Store a draft or queued update, replacing the one for the same member and date
+   */
+  saveDraft(draft: UpdateDraft): Promise<void>;
+
+  /**
+   * Forget the draft or queued update for a member's standup date
+   */
+  deleteDraft(teamId: string, memberId: string, date: string): Promise<void>;
+
+  /**
+   * Forget everything stored on this device, e.g. when the user signs out
+   */
+  clear(): Promise<void>;
+}
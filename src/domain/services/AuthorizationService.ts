@@ -0,0 +1,30 @@
+import { Permission, TeamRole } from '../value-objects/TeamRole';
+
+/**
+ * Service interface for authorization
+ * Use cases consult it before acting; it supersedes the shared-passkey prompt
+ */
+export interface AuthorizationService {
+  /**
+   * Get the signed-in user's role on a team
+   * @param teamId The team to check
+   * @returns Promise<TeamRole> The role, or viewer when the user is not on the roster
+   */
+  getRole(teamId: string): Promise<TeamRole>;
+
+  /**
+   * Check whether the signed-in user has a permission on a team
+   * @param teamId The team to check
+   * @param permission The permission required
+   * @returns Promise<boolean> True if allowed
+   */
+  can(teamId: string, permission: Permission): Promise<boolean>;
+
+  /**
+   * Throw unless the signed-in user has a permission on a team
+   * @param teamId The team to check
+   * @param permission The permission required
+   * @returns Promise<void>
+   */
+  authorize(teamId: string, permission: Permission): Promise<void>;
+}
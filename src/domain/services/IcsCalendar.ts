@@ -0,0 +1,113 @@
+import { TeamCalendar } from './TeamCalendar';
+
+/**
+ * A single day read from a calendar file
+ */
+export interface IcsHoliday {
+  date: string;
+  name: string;
+}
+
+/**
+ * IcsCalendar Domain Service
+ * Reads holidays from iCalendar (.ics) files, such as public holiday feeds
+ */
+export class IcsCalendar {
+  // Multi-day events longer than this are ignored rather than flooding the calendar
+  private static readonly MAX_EVENT_DAYS = 31;
+
+  /**
+   * Read every day covered by the file's events, sorted by date
+   * All-day events end the day before DTEND; timed events count on their start date
+   */
+  static parseHolidays(ics: string): IcsHoliday[] {
+    const lines = this.unfold(ics);
+    if (!lines.some(line => line.toUpperCase() === 'BEGIN:VCALENDAR')) {
+      throw new Error('This file is not an iCalendar (.ics) file');
+    }
+
+    const holidays = new Map<string, IcsHoliday>();
+    let event: { start?: string; end?: string; allDay?: boolean; name?: string } | null = null;
+
+    for (const line of lines) {
+      const upper = line.toUpperCase();
+
+      if (upper === 'BEGIN:VEVENT') {
+        event = {};
+        continue;
+      }
+
+      if (upper === 'END:VEVENT') {
+        if (event?.start) {
+          for (const date of this.getEventDates(event.start, event.end, event.allDay ?? false)) {
+            if (!holidays.has(date)) {
+              holidays.set(date, { date, name: event.name || 'Holiday' });
+            }
+          }
+        }
+        event = null;
+        continue;
+      }
+
+      if (!event) continue;
+
+      const { name, params, value } = this.parseProperty(line);
+      if (name === 'DTSTART') {
+        event.start = this.toDate(value);
+        event.allDay = params.includes('VALUE=DATE') || /^\d{8}$/.test(value);
+      } else if (name === 'DTEND') {
+        event.end = this.toDate(value);
+      } else if (name === 'SUMMARY') {
+        event.name = this.unescape(value).trim();
+      }
+    }
+
+    return Array.from(holidays.values()).sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * Join folded lines; a line starting with a space or tab continues the previous one
+   */
+  private static unfold(ics: string): string[] {
+    return ics
+      .replace(/\r\n/g, '\n')
+      .replace(/\n[ \t]/g, '')
+      .split('\n')
+      .map(line => line.trim())
+      .filter(Boolean);
+  }
+
+  private static parseProperty(line: string): { name: string; params: string; value: string } {
+    const colon = line.indexOf(':');
+    if (colon === -1) return { name: '', params: '', value: '' };
+
+    const [name, ...params] = line.slice(0, colon).toUpperCase().split(';');
+    return { name, params: params.join(';'), value: line.slice(colon + 1) };
+  }
+
+  /**
+   * Turn a DATE or DATE-TIME value into a YYYY-MM-DD date
+   */
+  private static toDate(value: string): string | undefined {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+    return match ? `${match[1]}-${match[2]}-${match[3]}` : undefined;
+  }
+
+  private static getEventDates(start: string, end: string | undefined, allDay: boolean): string[] {
+    const lastDate = !end ? start : allDay ? TeamCalendar.addDays(end, -1) : start;
+    const dates: string[] = [];
+
+    for (let date = start; date <= lastDate; date = TeamCalendar.addDays(date, 1)) {
+      if (dates.length === this.MAX_EVENT_DAYS) return [];
+      dates.push(date);
+    }
+
+    return dates.length > 0 ? dates : [start];
+  }
+
+  private static unescape(value: string): string {
+    return value
+      .replace(/\\[nN]/g, ' ')
+      .replace(/\\([,;\\])/g, '$1');
+  }
+}
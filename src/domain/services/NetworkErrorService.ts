@@ -0,0 +1,11 @@
+/**
+ * Service interface for telling a request that never reached the server from one the server turned down
+ */
+export interface NetworkErrorService {
+  /**
+   * Check if an error means the request could not be sent or answered, so trying again later may work
+   * @param error The error thrown by a repository or service call
+   * @returns boolean False for everything else, such as database, validation and programming errors
+   */
+  isNetworkError(error: unknown): boolean;
+}
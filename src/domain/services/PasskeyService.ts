@@ -1,34 +1,32 @@
 /**
  * Service interface for passkey management
+ * In-app actions are gated by AuthorizationService; each team's passkeys are managed by its admins
+ * Passkeys are stored hashed and validated server-side, so clients never see their values
  */
 export interface PasskeyService {
   /**
-   * Validate a passkey
-   * @param passkey The passkey to validate
-   * @returns Promise<boolean> True if valid, false otherwise
-   */
-  validatePasskey(passkey: string): Promise<boolean>;
-
-  /**
-   * Get all passkeys (for management)
+   * Get a team's passkeys (for management)
+   * @param teamId The team ID
    * @returns Promise<Passkey[]>
    */
-  getAllPasskeys(): Promise<Passkey[]>;
+  getAllPasskeys(teamId: string): Promise<Passkey[]>;
 
   /**
-   * Create a new passkey
-   * @param passkey The passkey data
+   * Create a passkey for a team, or rotate the team's passkey with the same name
+   * Rotating replaces the value and limits and resets the use count
+   * @param teamId The team ID
+   * @param passkey The passkey data, including its plaintext value
    * @returns Promise<Passkey>
    */
-  createPasskey(passkey: Omit<Passkey, 'id' | 'createdAt' | 'updatedAt'>): Promise<Passkey>;
+  savePasskey(teamId: string, passkey: PasskeyInput): Promise<Passkey>;
 
   /**
-   * Update a passkey
+   * Update a passkey's description or active flag
    * @param id The passkey ID
    * @param updates The updates to apply
    * @returns Promise<Passkey>
    */
-  updatePasskey(id: string, updates: Partial<Omit<Passkey, 'id' | 'createdAt' | 'updatedAt'>>): Promise<Passkey>;
+  updatePasskey(id: string, updates: Partial<Pick<Passkey, 'description' | 'isActive'>>): Promise<Passkey>;
 
   /**
    * Delete a passkey
@@ -36,17 +34,67 @@ export interface PasskeyService {
    * @returns Promise<void>
    */
   deletePasskey(id: string): Promise<void>;
+
+  /**
+   * Get the most recent validation attempts on a team's passkeys
+   * @param teamId The team ID
+   * @param limit Maximum number of entries to return
+   * @returns Promise<PasskeyAuditEntry[]> Newest first
+   */
+  getAuditLog(teamId: string, limit?: number): Promise<PasskeyAuditEntry[]>;
 }
 
+/**
+ * What a passkey can be used for
+ */
+export const PASSKEY_SCOPES = ['weekly_report_generation'] as const;
+
+export type PasskeyScope = typeof PASSKEY_SCOPES[number];
+
 /**
  * Passkey entity
  */
 export interface Passkey {
   id: string;
   keyName: string;
-  keyValue: string;
   description?: string;
   isActive: boolean;
+  scopes: string[];
+  expiresAt?: string;
+  maxUses?: number;
+  useCount: number;
+  lastUsedAt?: string;
   createdAt: string;
   updatedAt: string;
 }
+
+/**
+ * Data for creating or rotating a passkey
+ */
+export interface PasskeyInput {
+  keyName: string;
+  keyValue: string;
+  scopes: PasskeyScope[];
+  description?: string;
+  expiresAt?: string;
+  maxUses?: number;
+}
+
+/**
+ * Why a validation attempt succeeded or failed
+ */
+export type PasskeyAuditReason = 'valid' | 'unknown' | 'inactive' | 'expired' | 'exhausted' | 'out_of_scope';
+
+/**
+ * A recorded validation attempt
+ */
+export interface PasskeyAuditEntry {
+  id: string;
+  passkeyId?: string;
+  keyName?: string;
+  scope: string;
+  success: boolean;
+  reason: PasskeyAuditReason;
+  userId?: string;
+  createdAt: string;
+}
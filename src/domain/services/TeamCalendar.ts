@@ -0,0 +1,223 @@
+/**
+ * TeamCalendar Domain Service
+ * Answers "what day is it" and "which week is this" in the team's timezone
+ *
+ * Calendar dates are YYYY-MM-DD strings. Arithmetic on them is done in UTC so
+ * the browser's own timezone and DST transitions never shift a date.
+ * Business days are weekdays that are not one of the team's holidays.
+ */
+export class TeamCalendar {
+  static readonly DEFAULT_TIMEZONE = 'America/Vancouver';
+  static readonly DEFAULT_STANDUP_TIME = '10:00';
+  static readonly DEFAULT_BACKFILL_DAYS = 7;
+  static readonly MAX_BACKFILL_DAYS = 90;
+
+  // Stop looking for a business day after this many holidays and weekend days in a row
+  private static readonly MAX_DAYS_SKIPPED = 31;
+
+  /**
+   * Check if a string is an IANA timezone the runtime understands
+   */
+  static isValidTimezone(timezone: string): boolean {
+    if (!timezone) return false;
+
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Check if a string is a 24-hour HH:MM time of day
+   */
+  static isValidTime(time: string): boolean {
+    return /^([01]\d|2[0-3]):[0-5]\d$/.test(time);
+  }
+
+  /**
+   * Get the calendar date of an instant in the team's timezone
+   */
+  static getDate(timezone: string, date: Date = new Date()): string {
+    return date.toLocaleDateString('en-CA', { timeZone: timezone });
+  }
+
+  /**
+   * Add (or subtract) whole days to a calendar date
+   */
+  static addDays(dateString: string, days: number): string {
+    const [year, month, day] = dateString.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+  }
+
+  /**
+   * Whole calendar days from one date to a later one
+   */
+  static getDaysBetween(startDate: string, endDate: string): number {
+    const toTime = (dateString: string) => {
+      const [year, month, day] = dateString.split('-').map(Number);
+      return Date.UTC(year, month - 1, day);
+    };
+    return Math.round((toTime(endDate) - toTime(startDate)) / (24 * 60 * 60 * 1000));
+  }
+
+  /**
+   * Day of week for a calendar date (0 = Sunday)
+   */
+  static getDayOfWeek(dateString: string): number {
+    const [year, month, day] = dateString.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  }
+
+  /**
+   * Get the earliest date an update can still be posted or edited for
+   */
+  static getEarliestBackfillDate(timezone: string, backfillDays: number, now: Date = new Date()): string {
+    return this.addDays(this.getDate(timezone, now), -backfillDays);
+  }
+
+  /**
+   * Check if a date is today or within the backfill window before it
+   */
+  static isWithinBackfillWindow(dateString: string, timezone: string, backfillDays: number, now: Date = new Date()): boolean {
+    return dateString >= this.getEarliestBackfillDate(timezone, backfillDays, now) &&
+      dateString <= this.getDate(timezone, now);
+  }
+
+  /**
+   * Check if a date is a weekday and not a team holiday
+   */
+  static isBusinessDay(dateString: string, holidays: string[] = []): boolean {
+    const dayOfWeek = this.getDayOfWeek(dateString);
+    return dayOfWeek !== 0 && dayOfWeek !== 6 && !holidays.includes(dateString);
+  }
+
+  /**
+   * Get the business days from one date to another, inclusive
+   */
+  static getBusinessDays(startDate: string, endDate: string, holidays: string[] = []): string[] {
+    const days: string[] = [];
+    for (let date = startDate; date <= endDate; date = this.addDays(date, 1)) {
+      if (this.isBusinessDay(date, holidays)) {
+        days.push(date);
+      }
+    }
+    return days;
+  }
+
+  /**
+   * Count the business days after one date, up to and including another
+   * A blocker raised on Friday has been open one business day on Monday
+   */
+  static getBusinessDaysBetween(startDate: string, endDate: string, holidays: string[] = []): number {
+    return this.getBusinessDays(this.addDays(startDate, 1), endDate, holidays).length;
+  }
+
+  /**
+   * Get the last business day before a date
+   * Weekends and holidays are skipped, so the day after a long weekend points back to the Friday before it
+   */
+  static getBusinessDayBefore(dateString: string, holidays: string[] = []): string {
+    let date = this.addDays(dateString, -1);
+    for (let i = 0; i < this.MAX_DAYS_SKIPPED && !this.isBusinessDay(date, holidays); i++) {
+      date = this.addDays(date, -1);
+    }
+    return date;
+  }
+
+  /**
+   * Get the previous business day before today in the team's timezone
+   */
+  static getPreviousBusinessDay(timezone: string, holidays: string[] = [], now: Date = new Date()): string {
+    return this.getBusinessDayBefore(this.getDate(timezone, now), holidays);
+  }
+
+  /**
+   * Get the Monday of the current week
+   */
+  static getWeekStartDate(timezone: string, now: Date = new Date()): string {
+    const today = this.getDate(timezone, now);
+    const dayOfWeek = this.getDayOfWeek(today);
+    const daysToMonday = dayOfWeek === 0 ? 6 : dayOfWeek - 1;
+
+    return this.addDays(today, -daysToMonday);
+  }
+
+  /**
+   * Get the Sunday of the current week
+   */
+  static getWeekEndDate(timezone: string, now: Date = new Date()): string {
+    return this.addDays(this.getWeekStartDate(timezone, now), 6);
+  }
+
+  /**
+   * Get the current week's date range (Monday to Sunday)
+   */
+  static getCurrentWeekDates(timezone: string, now: Date = new Date()): { weekStart: string; weekEnd: string } {
+    const weekStart = this.getWeekStartDate(timezone, now);
+    return { weekStart, weekEnd: this.addDays(weekStart, 6) };
+  }
+
+  /**
+   * Get the previous week's date range (Monday to Sunday)
+   */
+  static getPreviousWeekDates(timezone: string, now: Date = new Date()): { weekStart: string; weekEnd: string } {
+    const weekStart = this.addDays(this.getWeekStartDate(timezone, now), -7);
+    return { weekStart, weekEnd: this.addDays(weekStart, 6) };
+  }
+
+  /**
+   * Get the instant local midnight starts on a calendar date, as an ISO timestamp
+   * Used to bound timestamp queries without hardcoding a UTC offset
+   */
+  static getStartOfDay(dateString: string, timezone: string): string {
+    return this.getInstant(dateString, '00:00', timezone);
+  }
+
+  /**
+   * Get the instant a local HH:MM time occurs on a calendar date, as an ISO timestamp
+   */
+  static getInstant(dateString: string, time: string, timezone: string): string {
+    const [year, month, day] = dateString.split('-').map(Number);
+    const [hours, minutes] = time.split(':').map(Number);
+    const localAsUtc = Date.UTC(year, month - 1, day, hours, minutes);
+
+    // The offset at the UTC reading can differ from the offset at the local time
+    // on DST transition days, so correct once with the offset at the first guess
+    const firstGuess = localAsUtc - this.getOffset(timezone, new Date(localAsUtc));
+    const result = localAsUtc - this.getOffset(timezone, new Date(firstGuess));
+
+    return new Date(result).toISOString();
+  }
+
+  /**
+   * Offset of the timezone from UTC at an instant, in milliseconds
+   */
+  private static getOffset(timezone: string, date: Date): number {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    }).formatToParts(date);
+
+    const get = (type: Intl.DateTimeFormatPartTypes) =>
+      Number(parts.find(part => part.type === type)?.value);
+
+    const localAsUtc = Date.UTC(
+      get('year'),
+      get('month') - 1,
+      get('day'),
+      get('hour'),
+      get('minute'),
+      get('second')
+    );
+
+    return localAsUtc - (date.getTime() - date.getMilliseconds());
+  }
+}
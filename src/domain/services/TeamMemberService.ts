@@ -1,37 +1,40 @@
 import { TeamMember } from '../entities/TeamMember';
+import { Blocker } from '../entities/Blocker';
+import { RosterMember } from '../entities/RosterMember';
+import { StandupRepository } from '../repositories/StandupRepository';
 
 /**
  * TeamMemberService Domain Service
  * Handles team member business logic and operations
  */
 export class TeamMemberService {
-  // Predefined team members - you can modify this list
-  private static readonly TEAM_MEMBERS = [
-    { id: '1', name: 'Ibrahim', role: 'Boss' },
-    { id: '2', name: 'Aurelio', role: 'Developer' },
-    { id: '3', name: 'Francois', role: 'Developer' },
-    { id: '4', name: 'Isik', role: 'Marketing' },
-    { id: '5', name: 'Atena', role: 'Developer' },
-    { id: '6', name: 'Raphael', role: 'Sales' },
-    { id: '7', name: 'Gyunay', role: 'Developer' },
-  ];
+  /**
+   * Get all team members who can currently post updates
+   */
+  static async getAvailableTeamMembers(repository: StandupRepository, teamId: string): Promise<RosterMember[]> {
+    const members = await repository.getRosterMembers(teamId);
+    return members.filter(member => member.isActive());
+  }
 
   /**
-   * Get all available team members
+   * Find an active team member by name
    */
-  static getAvailableTeamMembers(): Array<{ id: string; name: string; role: string }> {
-    return [...this.TEAM_MEMBERS];
+  static async findTeamMemberByName(repository: StandupRepository, teamId: string, name: string): Promise<RosterMember | undefined> {
+    const members = await this.getAvailableTeamMembers(repository, teamId);
+    return members.find(member => member.name === name);
   }
 
   /**
-   * Find team member by name
+   * Find the active team member linked to a signed-in user
    */
-  static findTeamMemberByName(name: string): { id: string; name: string; role: string } | undefined {
-    return this.TEAM_MEMBERS.find(member => member.name === name);
+  static async findTeamMemberForUser(repository: StandupRepository, teamId: string, userId: string): Promise<RosterMember | undefined> {
+    const members = await this.getAvailableTeamMembers(repository, teamId);
+    return members.find(member => member.belongsTo(userId));
   }
 
   /**
    * Create a new team member from form data
+   * The update's blocker text lists the blockers still open on its standup date
    */
   static createTeamMemberFromForm(
     formData: {
@@ -39,8 +42,9 @@ export class TeamMemberService {
       role: string;
       yesterday: string;
       today: string;
-      blockers: string;
     },
+    blockerItems: Blocker[],
+    date: string,
     existingId?: string
   ): TeamMember {
     return new TeamMember(
@@ -50,8 +54,12 @@ export class TeamMemberService {
       '', // avatar
       formData.yesterday,
       formData.today,
-      formData.blockers,
-      new Date().toISOString()
+      Blocker.toHtml(blockerItems.filter(blocker => blocker.wasOpenOn(date))),
+      new Date().toISOString(),
+      null,
+      1,
+      false,
+      blockerItems
     );
   }
 
@@ -63,7 +71,6 @@ export class TeamMemberService {
     role: string;
     yesterday: string;
     today: string;
-    blockers: string;
   }): { isValid: boolean; errors: string[] } {
     const errors: string[] = [];
 
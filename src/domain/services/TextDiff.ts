@@ -0,0 +1,112 @@
+/**
+ * A run of text that was kept, added or removed between two versions
+ */
+export interface DiffSegment {
+  type: 'unchanged' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * TextDiff Domain Service
+ * Compares two versions of rich-text update content word by word
+ */
+export class TextDiff {
+  // Above this many word pairs the comparison falls back to "everything changed"
+  private static readonly MAX_COMPARISONS = 250_000;
+
+  /**
+   * Reduce rich-text HTML to plain text, keeping paragraph and list breaks
+   */
+  static toPlainText(html: string): string {
+    return (html || '')
+      .replace(/<\s*br\s*\/?>/gi, '\n')
+      .replace(/<\/\s*(p|div|li|h[1-6])\s*>/gi, '\n')
+      .replace(/<[^>]*>/g, '')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, '\'')
+      .replace(/&amp;/g, '&')
+      .replace(/[ \t]+\n/g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  /**
+   * Diff two rich-text values; segments read in order and reconstruct both versions
+   */
+  static diff(before: string, after: string): DiffSegment[] {
+    const oldTokens = this.tokenize(this.toPlainText(before));
+    const newTokens = this.tokenize(this.toPlainText(after));
+
+    if (oldTokens.length * newTokens.length > this.MAX_COMPARISONS) {
+      return this.merge([
+        { type: 'removed', text: oldTokens.join('') },
+        { type: 'added', text: newTokens.join('') }
+      ]);
+    }
+
+    // Longest common subsequence table, filled from the end
+    const lcs: number[][] = Array.from({ length: oldTokens.length + 1 }, () =>
+      new Array<number>(newTokens.length + 1).fill(0)
+    );
+    for (let i = oldTokens.length - 1; i >= 0; i--) {
+      for (let j = newTokens.length - 1; j >= 0; j--) {
+        lcs[i][j] = oldTokens[i] === newTokens[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    const segments: DiffSegment[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < oldTokens.length && j < newTokens.length) {
+      if (oldTokens[i] === newTokens[j]) {
+        segments.push({ type: 'unchanged', text: oldTokens[i] });
+        i++;
+        j++;
+      } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+        segments.push({ type: 'removed', text: oldTokens[i++] });
+      } else {
+        segments.push({ type: 'added', text: newTokens[j++] });
+      }
+    }
+    while (i < oldTokens.length) segments.push({ type: 'removed', text: oldTokens[i++] });
+    while (j < newTokens.length) segments.push({ type: 'added', text: newTokens[j++] });
+
+    return this.merge(segments);
+  }
+
+  /**
+   * Check if two rich-text values read the same once formatting is ignored
+   */
+  static isSame(before: string, after: string): boolean {
+    return this.toPlainText(before) === this.toPlainText(after);
+  }
+
+  /**
+   * Split text into words and the whitespace between them
+   */
+  private static tokenize(text: string): string[] {
+    return text.match(/\s+|[^\s]+/g) ?? [];
+  }
+
+  /**
+   * Join neighbouring segments of the same type and drop empty ones
+   */
+  private static merge(segments: DiffSegment[]): DiffSegment[] {
+    return segments.reduce<DiffSegment[]>((merged, segment) => {
+      if (!segment.text) return merged;
+
+      const last = merged[merged.length - 1];
+      if (last && last.type === segment.type) {
+        last.text += segment.text;
+      } else {
+        merged.push({ ...segment });
+      }
+      return merged;
+    }, []);
+  }
+}
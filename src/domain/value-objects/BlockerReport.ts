@@ -0,0 +1,141 @@
+import { Blocker, BlockerSeverity } from '@/domain/entities/Blocker';
+
+/**
+ * A blocker as it stood at the end of a report's week
+ */
+export interface BlockerReportItem {
+  id: string;
+  description: string;
+  memberName: string;
+  unblocker: string | null;
+  severity: BlockerSeverity;
+  openedOn: string;
+  resolvedOn: string | null;
+  resolution: string | null;
+  ageDays: number;
+}
+
+/**
+ * BlockerReport Value Object
+ * The week's blockers, split into three lists that never overlap:
+ * - opened: raised during the week and still open at its end
+ * - resolved: resolved during the week, whenever they were raised
+ * - stillOpen: raised before the week and still open at its end
+ */
+export class BlockerReport {
+  constructor(
+    public readonly opened: BlockerReportItem[],
+    public readonly resolved: BlockerReportItem[],
+    public readonly stillOpen: BlockerReportItem[]
+  ) {}
+
+  /**
+   * Build the report from every blocker that was open at some point during the week
+   * Ages are counted up to the day a blocker was resolved, or the end of the week
+   */
+  static fromBlockers(blockers: Blocker[], weekStart: string, weekEnd: string): BlockerReport {
+    const opened: BlockerReportItem[] = [];
+    const resolved: BlockerReportItem[] = [];
+    const stillOpen: BlockerReportItem[] = [];
+
+    blockers.forEach(blocker => {
+      if (blocker.openedOn > weekEnd) return;
+
+      if (blocker.resolvedOn !== null && blocker.resolvedOn <= weekEnd) {
+        if (blocker.resolvedOn >= weekStart) {
+          resolved.push(this.toItem(blocker, weekEnd));
+        }
+        return;
+      }
+
+      if (blocker.openedOn >= weekStart) {
+        opened.push(this.toItem(blocker, weekEnd));
+      } else {
+        stillOpen.push(this.toItem(blocker, weekEnd));
+      }
+    });
+
+    const oldestFirst = (a: BlockerReportItem, b: BlockerReportItem) => b.ageDays - a.ageDays;
+    return new BlockerReport(opened.sort(oldestFirst), resolved.sort(oldestFirst), stillOpen.sort(oldestFirst));
+  }
+
+  /**
+   * A report with no blockers
+   */
+  static empty(): BlockerReport {
+    return new BlockerReport([], [], []);
+  }
+
+  /**
+   * Get the number of blockers in the report
+   */
+  getCount(): number {
+    return this.opened.length + this.resolved.length + this.stillOpen.length;
+  }
+
+  /**
+   * Get the number of blockers open at the end of the week
+   */
+  getOpenCount(): number {
+    return this.opened.length + this.stillOpen.length;
+  }
+
+  /**
+   * Check if there are any blockers
+   */
+  hasBlockers(): boolean {
+    return this.getCount() > 0;
+  }
+
+  private static toItem(blocker: Blocker, weekEnd: string): BlockerReportItem {
+    return {
+      id: blocker.id,
+      description: blocker.description,
+      memberName: blocker.memberName,
+      unblocker: blocker.unblocker,
+      severity: blocker.severity,
+      openedOn: blocker.openedOn,
+      resolvedOn: blocker.resolvedOn,
+      resolution: blocker.resolution,
+      ageDays: blocker.getAgeInDays(weekEnd)
+    };
+  }
+
+  /**
+   * Convert to plain object for serialization
+   */
+  toJSON() {
+    return {
+      opened: this.opened,
+      resolved: this.resolved,
+      stillOpen: this.stillOpen
+    };
+  }
+
+  /**
+   * Create from plain object
+   * Reports saved before blockers were tracked hold a list of strings; those are read as open blockers of unknown age
+   */
+  static fromJSON(data: unknown): BlockerReport {
+    if (Array.isArray(data)) {
+      return new BlockerReport([], [], data.map((text, index) => ({
+        id: `legacy-${index}`,
+        description: String(text).replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim(),
+        memberName: '',
+        unblocker: null,
+        severity: 'medium',
+        openedOn: '',
+        resolvedOn: null,
+        resolution: null,
+        ageDays: 0
+      })));
+    }
+
+    const report = (data ?? {}) as Record<string, unknown>;
+    return new BlockerReport(
+      (report.opened as BlockerReportItem[]) || [],
+      (report.resolved as BlockerReportItem[]) || [],
+      (report.stillOpen as BlockerReportItem[]) || []
+    );
+  }
+}
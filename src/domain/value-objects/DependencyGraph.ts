@@ -0,0 +1,165 @@
+import { StandupEntry } from '@/domain/entities/StandupEntry';
+
+/**
+ * One member waiting on another during a report's week
+ */
+export interface DependencyEdge {
+  blockedMember: string;
+  blockingMember: string;
+  dates: string[];
+}
+
+/**
+ * How many teammates were waiting on one member during the week
+ */
+export interface DependencyBottleneck {
+  memberName: string;
+  blockedMembers: string[];
+  days: number;
+}
+
+/**
+ * DependencyGraph Value Object
+ * Who was blocked on whom during a report's week, from the teammates @mentioned in blockers
+ * Each edge points from the blocked member to the member they were waiting on, with the standup
+ * dates it was reported on; the longest-standing dependencies come first
+ */
+export class DependencyGraph {
+  constructor(public readonly edges: DependencyEdge[]) {}
+
+  /**
+   * Build the graph from the week's standup updates
+   */
+  static fromEntries(entries: StandupEntry[]): DependencyGraph {
+    const edges = new Map<string, DependencyEdge>();
+
+    entries.forEach(entry => {
+      entry.teamMembers.forEach(member => {
+        member.getDependencies().forEach(mention => {
+          const key = `${member.name}\u0000${mention.memberName}`;
+          const edge = edges.get(key) ?? { blockedMember: member.name, blockingMember: mention.memberName, dates: [] };
+
+          if (!edge.dates.includes(entry.date)) {
+            edge.dates.push(entry.date);
+          }
+          edges.set(key, edge);
+        });
+      });
+    });
+
+    return new DependencyGraph(
+      Array.from(edges.values())
+        .map(edge => ({ ...edge, dates: [...edge.dates].sort() }))
+        .sort((a, b) => b.dates.length - a.dates.length || a.blockedMember.localeCompare(b.blockedMember))
+    );
+  }
+
+  /**
+   * A graph with no dependencies
+   */
+  static empty(): DependencyGraph {
+    return new DependencyGraph([]);
+  }
+
+  /**
+   * Check if anyone was waiting on a teammate during the week
+   */
+  hasDependencies(): boolean {
+    return this.edges.length > 0;
+  }
+
+  /**
+   * Get the number of member-to-member dependencies
+   */
+  getCount(): number {
+    return this.edges.length;
+  }
+
+  /**
+   * Get everyone who appears in the graph, blocked or blocking, by name
+   */
+  getMembers(): string[] {
+    return Array.from(new Set(this.edges.flatMap(edge => [edge.blockedMember, edge.blockingMember]))).sort();
+  }
+
+  /**
+   * Get the teammates a member was waiting on
+   */
+  getBlockersOf(memberName: string): DependencyEdge[] {
+    return this.edges.filter(edge => edge.blockedMember === memberName);
+  }
+
+  /**
+   * Get the teammates who were waiting on a member
+   */
+  getBlockedBy(memberName: string): DependencyEdge[] {
+    return this.edges.filter(edge => edge.blockingMember === memberName);
+  }
+
+  /**
+   * Get the members others were waiting on, most teammates blocked first
+   */
+  getBottlenecks(): DependencyBottleneck[] {
+    const names = Array.from(new Set(this.edges.map(edge => edge.blockingMember)));
+
+    return names
+      .map(memberName => {
+        const blocked = this.getBlockedBy(memberName);
+        return {
+          memberName,
+          blockedMembers: blocked.map(edge => edge.blockedMember),
+          days: new Set(blocked.flatMap(edge => edge.dates)).size
+        };
+      })
+      .sort((a, b) => b.blockedMembers.length - a.blockedMembers.length || b.days - a.days);
+  }
+
+  /**
+   * Find members waiting on each other, directly or through others
+   * Each cycle is listed once, as member names in dependency order
+   */
+  getCycles(): string[][] {
+    const cycles: string[][] = [];
+    const seen = new Set<string>();
+
+    const visit = (path: string[]) => {
+      const current = path[path.length - 1];
+      this.getBlockersOf(current).forEach(edge => {
+        const start = path.indexOf(edge.blockingMember);
+        if (start >= 0) {
+          const cycle = path.slice(start);
+          const key = [...cycle].sort().join('\u0000');
+          if (!seen.has(key)) {
+            seen.add(key);
+            cycles.push(cycle);
+          }
+          return;
+        }
+        visit([...path, edge.blockingMember]);
+      });
+    };
+
+    this.getMembers().forEach(member => visit([member]));
+    return cycles;
+  }
+
+  /**
+   * Convert to plain object for serialization
+   */
+  toJSON() {
+    return {
+      edges: this.edges
+    };
+  }
+
+  /**
+   * Create from plain object
+   * Reports saved before dependencies were tracked have none
+   */
+  static fromJSON(data: unknown): DependencyGraph {
+    if (!data || typeof data !== 'object') return DependencyGraph.empty();
+
+    const edges = (data as Record<string, unknown>).edges;
+    return new DependencyGraph(Array.isArray(edges) ? edges as DependencyEdge[] : []);
+  }
+}
@@ -0,0 +1,98 @@
+import { UpdateSearchResult } from '@/domain/entities/UpdateSearchResult';
+import { HistoryQuestion } from './HistoryQuestion';
+
+/**
+ * A run of answer text, and the source it cites, if any
+ */
+export interface AnswerSegment {
+  text: string;
+  // 1-based number of the cited source
+  citation: number | null;
+}
+
+/**
+ * HistoryAnswer Value Object
+ * The standup updates most relevant to a question, most relevant first, and optionally an AI-written
+ * answer drawn from them
+ * The answer cites sources as [1], [2], ... by their position in `sources`; citations of sources that
+ * do not exist are dropped
+ */
+export class HistoryAnswer {
+  private static readonly CITATION_PATTERN = /\[(\d+)\]/g;
+
+  constructor(
+    public readonly question: HistoryQuestion,
+    public readonly sources: UpdateSearchResult[],
+    public readonly answer: string | null = null
+  ) {}
+
+  /**
+   * Check if any updates were found
+   */
+  hasSources(): boolean {
+    return this.sources.length > 0;
+  }
+
+  /**
+   * Check if an answer was written
+   */
+  hasAnswer(): boolean {
+    return !!this.answer;
+  }
+
+  /**
+   * Create a copy with an answer written from the sources
+   */
+  withAnswer(answer: string): HistoryAnswer {
+    return new HistoryAnswer(this.question, this.sources, answer.trim());
+  }
+
+  /**
+   * Split the answer into text and citations
+   */
+  getSegments(): AnswerSegment[] {
+    if (!this.answer) return [];
+
+    const segments: AnswerSegment[] = [];
+    let last = 0;
+
+    for (const match of this.answer.matchAll(HistoryAnswer.CITATION_PATTERN)) {
+      const citation = Number(match[1]);
+      const index = match.index ?? 0;
+
+      segments.push({ text: this.answer.slice(last, index), citation: null });
+      if (citation >= 1 && citation <= this.sources.length) {
+        segments.push({ text: match[0], citation });
+      }
+      last = index + match[0].length;
+    }
+
+    segments.push({ text: this.answer.slice(last), citation: null });
+    return segments.filter(segment => segment.text !== '');
+  }
+
+  /**
+   * Get the numbers of the sources the answer cites, in order
+   */
+  getCitations(): number[] {
+    return Array.from(new Set(
+      this.getSegments()
+        .map(segment => segment.citation)
+        .filter((citation): citation is number => citation !== null)
+    )).sort((a, b) => a - b);
+  }
+
+  /**
+   * Number the sources as plain text for an AI prompt, one block per update
+   */
+  static formatSources(sources: UpdateSearchResult[]): string {
+    const toText = (html: string) => html.replace(/<[^>]*>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim();
+
+    return sources.map(({ member, date }, index) => [
+      `[${index + 1}] ${date} - ${member.name} (${member.role})`,
+      `Yesterday: ${toText(member.yesterday) || 'No update'}`,
+      `Today: ${toText(member.today) || 'No update'}`,
+      `Blockers: ${toText(member.blockers) || 'None'}`
+    ].join('\n')).join('\n\n');
+  }
+}
@@ -0,0 +1,112 @@
+import { DateRange } from './DateRange';
+import { TeamCalendar } from '@/domain/services/TeamCalendar';
+
+/**
+ * HistoryQuestion Value Object
+ * A question asked of the standup history, such as "who touched the billing migration last month?",
+ * with the dates it refers to
+ * Common phrases ("today", "yesterday", "this week", "last month", "past 10 days", "in March") are
+ * read relative to the team's current date; a question without one covers all history
+ */
+export class HistoryQuestion {
+  static readonly MAX_LENGTH = 500;
+
+  private static readonly MONTHS = [
+    'january', 'february', 'march', 'april', 'may', 'june',
+    'july', 'august', 'september', 'october', 'november', 'december'
+  ];
+
+  constructor(
+    public readonly text: string,
+    public readonly dateRange: DateRange | null
+  ) {}
+
+  /**
+   * Read a question's dates relative to today in the team's timezone
+   */
+  static parse(text: string, timezone: string, now: Date = new Date()): HistoryQuestion {
+    const question = text.trim();
+    return new HistoryQuestion(question, HistoryQuestion.findDateRange(question.toLowerCase(), TeamCalendar.getDate(timezone, now)));
+  }
+
+  /**
+   * Check if the question names the dates it is about
+   */
+  hasDateRange(): boolean {
+    return this.dateRange !== null;
+  }
+
+  /**
+   * Check if a question can be asked
+   */
+  static isValid(text: string): boolean {
+    const length = text.trim().length;
+    return length > 0 && length <= HistoryQuestion.MAX_LENGTH;
+  }
+
+  private static findDateRange(question: string, today: string): DateRange | null {
+    const [year, month] = today.split('-').map(Number);
+
+    if (/\btoday\b/.test(question)) {
+      return new DateRange(today, today);
+    }
+
+    if (/\byesterday\b/.test(question)) {
+      const yesterday = TeamCalendar.addDays(today, -1);
+      return new DateRange(yesterday, yesterday);
+    }
+
+    const recent = question.match(/\b(?:last|past) (\d{1,3}) (day|week|month)s?\b/);
+    if (recent) {
+      const days = Number(recent[1]) * { day: 1, week: 7, month: 30 }[recent[2] as 'day' | 'week' | 'month'];
+      return new DateRange(TeamCalendar.addDays(today, -(days - 1)), today);
+    }
+
+    const daysSinceMonday = (TeamCalendar.getDayOfWeek(today) + 6) % 7;
+    const weekStart = TeamCalendar.addDays(today, -daysSinceMonday);
+
+    if (/\bthis week\b/.test(question)) {
+      return new DateRange(weekStart, today);
+    }
+
+    if (/\blast week\b/.test(question)) {
+      return new DateRange(TeamCalendar.addDays(weekStart, -7), TeamCalendar.addDays(weekStart, -1));
+    }
+
+    if (/\bthis month\b/.test(question)) {
+      return new DateRange(HistoryQuestion.monthStart(year, month), today);
+    }
+
+    if (/\blast month\b/.test(question)) {
+      return month === 1 ? HistoryQuestion.monthRange(year - 1, 12) : HistoryQuestion.monthRange(year, month - 1);
+    }
+
+    if (/\bthis year\b/.test(question)) {
+      return new DateRange(`${year}-01-01`, today);
+    }
+
+    if (/\blast year\b/.test(question)) {
+      return new DateRange(`${year - 1}-01-01`, `${year - 1}-12-31`);
+    }
+
+    // A month name, e.g. "in March" or "March 2025"; without a year, the most recent one
+    const named = question.match(new RegExp(`\\b(${HistoryQuestion.MONTHS.join('|')})(?:,? (\\d{4}))?\\b`));
+    if (named && (named[1] !== 'may' || named[2] || /\bin may\b/.test(question))) {
+      const namedMonth = HistoryQuestion.MONTHS.indexOf(named[1]) + 1;
+      const namedYear = named[2] ? Number(named[2]) : namedMonth > month ? year - 1 : year;
+      return HistoryQuestion.monthRange(namedYear, namedMonth);
+    }
+
+    return null;
+  }
+
+  private static monthStart(year: number, month: number): string {
+    return `${year}-${String(month).padStart(2, '0')}-01`;
+  }
+
+  private static monthRange(year: number, month: number): DateRange {
+    const start = HistoryQuestion.monthStart(year, month);
+    const nextStart = month === 12 ? HistoryQuestion.monthStart(year + 1, 1) : HistoryQuestion.monthStart(year, month + 1);
+    return new DateRange(start, TeamCalendar.addDays(nextStart, -1));
+  }
+}
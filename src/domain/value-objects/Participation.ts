@@ -0,0 +1,32 @@
+/**
+ * Participation Value Object
+ * How many of the members expected to post actually did
+ * Members who were away are not expected, so they count in neither number
+ */
+export class Participation {
+  constructor(
+    public readonly reported: number,
+    public readonly expected: number
+  ) {}
+
+  /**
+   * Get the share of expected members who posted, as a whole percentage
+   */
+  getRate(): number {
+    return this.expected === 0 ? 0 : Math.round((this.reported / this.expected) * 100);
+  }
+
+  /**
+   * Get a compact "reported/expected" label
+   */
+  toString(): string {
+    return `${this.reported}/${this.expected}`;
+  }
+
+  /**
+   * Participation with nobody expected
+   */
+  static none(): Participation {
+    return new Participation(0, 0);
+  }
+}
@@ -0,0 +1,90 @@
+export type TeamRoleName = 'admin' | 'lead' | 'member' | 'viewer';
+
+export type Permission =
+  | 'generate_reports'
+  | 'manage_roster'
+  | 'manage_roles'
+  | 'manage_team_settings'
+  | 'manage_api_keys'
+  | 'manage_passkeys'
+  | 'view_blockers'
+  | 'post_updates';
+
+/**
+ * TeamRole Value Object
+ * A user's access level on a team and the permissions it grants
+ * Mirrors has_team_permission() in the database, which enforces the same matrix
+ */
+export class TeamRole {
+  static readonly ROLES: TeamRoleName[] = ['admin', 'lead', 'member', 'viewer'];
+
+  private static readonly PERMISSIONS: Record<TeamRoleName, Permission[]> = {
+    admin: [
+      'generate_reports',
+      'manage_roster',
+      'manage_roles',
+      'manage_team_settings',
+      'manage_api_keys',
+      'manage_passkeys',
+      'view_blockers',
+      'post_updates'
+    ],
+    lead: [
+      'generate_reports',
+      'manage_roster',
+      'manage_team_settings',
+      'view_blockers',
+      'post_updates'
+    ],
+    member: ['view_blockers', 'post_updates'],
+    viewer: []
+  };
+
+  private static readonly PERMISSION_DESCRIPTIONS: Record<Permission, string> = {
+    generate_reports: 'generate weekly reports',
+    manage_roster: 'manage the team roster',
+    manage_roles: 'change team roles',
+    manage_team_settings: 'change team settings',
+    manage_api_keys: 'manage API keys',
+    manage_passkeys: 'manage passkeys',
+    view_blockers: 'view other people\'s blockers',
+    post_updates: 'post standup updates'
+  };
+
+  constructor(public readonly name: TeamRoleName) {}
+
+  /**
+   * Check if this role grants a permission
+   */
+  can(permission: Permission): boolean {
+    return TeamRole.PERMISSIONS[this.name].includes(permission);
+  }
+
+  /**
+   * Get the display label for this role
+   */
+  getLabel(): string {
+    return this.name.charAt(0).toUpperCase() + this.name.slice(1);
+  }
+
+  /**
+   * Check if a string is a known role
+   */
+  static isValid(name: string): name is TeamRoleName {
+    return (TeamRole.ROLES as string[]).includes(name);
+  }
+
+  /**
+   * Create a role from a stored value; unknown or missing roles get no permissions
+   */
+  static fromString(name: string | null | undefined): TeamRole {
+    return new TeamRole(name && TeamRole.isValid(name) ? name : 'viewer');
+  }
+
+  /**
+   * Describe a permission for error messages, e.g. "generate weekly reports"
+   */
+  static describePermission(permission: Permission): string {
+    return TeamRole.PERMISSION_DESCRIPTIONS[permission];
+  }
+}
@@ -1,17 +1,53 @@
+import { BlockerReport } from './BlockerReport';
+import { DependencyGraph } from './DependencyGraph';
+
 /**
  * WeeklyReportSummary Value Object
  * Immutable object representing the AI-generated summary of a weekly report
+ * Blockers come from the tracked blocker records, and dependencies from the teammates mentioned in
+ * them, never from the AI
  */
 export class WeeklyReportSummary {
   constructor(
     public readonly keyAccomplishments: string[],
     public readonly ongoingWork: string[],
-    public readonly blockers: string[],
+    public readonly blockers: BlockerReport,
     public readonly teamInsights: string,
     public readonly recommendations: string[],
-    public readonly memberSummaries: Record<string, MemberSummary>
+    public readonly memberSummaries: Record<string, MemberSummary>,
+    public readonly dependencies: DependencyGraph = DependencyGraph.empty()
   ) {}
 
+  /**
+   * Create a copy with a different blocker report
+   */
+  withBlockers(blockers: BlockerReport): WeeklyReportSummary {
+    return new WeeklyReportSummary(
+      this.keyAccomplishments,
+      this.ongoingWork,
+      blockers,
+      this.teamInsights,
+      this.recommendations,
+      this.memberSummaries,
+      this.dependencies
+    );
+  }
+
+  /**
+   * Create a copy with a different dependency graph
+   */
+  withDependencies(dependencies: DependencyGraph): WeeklyReportSummary {
+    return new WeeklyReportSummary(
+      this.keyAccomplishments,
+      this.ongoingWork,
+      this.blockers,
+      this.teamInsights,
+      this.recommendations,
+      this.memberSummaries,
+      dependencies
+    );
+  }
+
   /**
    * Get the number of key accomplishments
    */
@@ -30,7 +66,7 @@ export class WeeklyReportSummary {
    * Get the number of blockers
    */
   getBlockerCount(): number {
-    return this.blockers.length;
+    return this.blockers.getCount();
   }
 
   /**
@@ -51,7 +87,14 @@ export class WeeklyReportSummary {
    * Check if there are any blockers
    */
   hasBlockers(): boolean {
-    return this.blockers.length > 0;
+    return this.blockers.hasBlockers();
+  }
+
+  /**
+   * Check if any member was waiting on a teammate
+   */
+  hasDependencies(): boolean {
+    return this.dependencies.hasDependencies();
   }
 
   /**
@@ -81,7 +124,8 @@ export class WeeklyReportSummary {
   hasContent(): boolean {
     return this.keyAccomplishments.length > 0 ||
            this.ongoingWork.length > 0 ||
-           this.blockers.length > 0 ||
+           this.blockers.hasBlockers() ||
+           this.dependencies.hasDependencies() ||
            this.teamInsights.trim() !== '' ||
            this.recommendations.length > 0 ||
            Object.keys(this.memberSummaries).length > 0;
@@ -94,7 +138,7 @@ export class WeeklyReportSummary {
     const parts = [];
     if (this.keyAccomplishments.length > 0) parts.push(`${this.keyAccomplishments.length} accomplishments`);
     if (this.ongoingWork.length > 0) parts.push(`${this.ongoingWork.length} ongoing items`);
-    if (this.blockers.length > 0) parts.push(`${this.blockers.length} blockers`);
+    if (this.blockers.hasBlockers()) parts.push(`${this.blockers.getCount()} blockers`);
     if (this.recommendations.length > 0) parts.push(`${this.recommendations.length} recommendations`);
     if (Object.keys(this.memberSummaries).length > 0) parts.push(`${Object.keys(this.memberSummaries).length} member summaries`);
     
@@ -108,10 +152,11 @@ export class WeeklyReportSummary {
     return {
       keyAccomplishments: this.keyAccomplishments,
       ongoingWork: this.ongoingWork,
-      blockers: this.blockers,
+      blockers: this.blockers.toJSON(),
       teamInsights: this.teamInsights,
       recommendations: this.recommendations,
-      memberSummaries: this.memberSummaries
+      memberSummaries: this.memberSummaries,
+      dependencies: this.dependencies.toJSON()
     };
   }
 
@@ -122,10 +167,11 @@ export class WeeklyReportSummary {
     return new WeeklyReportSummary(
       (data.keyAccomplishments as string[]) || [],
       (data.ongoingWork as string[]) || [],
-      (data.blockers as string[]) || [],
+      BlockerReport.fromJSON(data.blockers),
       (data.teamInsights as string) || '',
       (data.recommendations as string[]) || [],
-      (data.memberSummaries as Record<string, MemberSummary>) || {}
+      (data.memberSummaries as Record<string, MemberSummary>) || {},
+      DependencyGraph.fromJSON(data.dependencies)
     );
   }
 }
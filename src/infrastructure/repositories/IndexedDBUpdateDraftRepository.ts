@@ -0,0 +1,103 @@
+import { UpdateDraft } from '@/domain/entities/UpdateDraft';
+import { UpdateDraftRepository } from '@/domain/repositories/UpdateDraftRepository';
+
+const DATABASE_NAME = 'standup-offline';
+const DATABASE_VERSION = 1;
+const DRAFT_STORE = 'update_drafts';
+
+/**
+ * IndexedDB implementation of the update draft repository
+ * Drafts are stored as plain objects keyed by team, member and date
+ */
+export class IndexedDBUpdateDraftRepository implements UpdateDraftRepository {
+  private database: Promise<IDBDatabase> | null = null;
+
+  async getDraft(teamId: string, memberId: string, date: string): Promise<UpdateDraft | null> {
+    try {
+      const row = await this.request<Record<string, unknown> | undefined>(
+        'readonly',
+        store => store.get(UpdateDraft.getKey(teamId, memberId, date))
+      );
+
+      return row ? UpdateDraft.fromJSON(row) : null;
+    } catch (error) {
+      console.error('Failed to get update draft:', error);
+      throw error;
+    }
+  }
+
+  async getDrafts(): Promise<UpdateDraft[]> {
+    try {
+      const rows = await this.request<Record<string, unknown>[]>('readonly', store => store.getAll());
+
+      return rows.map(row => UpdateDraft.fromJSON(row));
+    } catch (error) {
+      console.error('Failed to get update drafts:', error);
+      throw error;
+    }
+  }
+
+  async saveDraft(draft: UpdateDraft): Promise<void> {
+    try {
+      await this.request('readwrite', store => store.put(draft.toJSON()));
+    } catch (error) {
+      console.error('Failed to save update draft:', error);
+      throw error;
+    }
+  }
+
+  async deleteDraft(teamId: string, memberId: string, date: string): Promise<void> {
+    try {
+      await this.request('readwrite', store => store.delete(UpdateDraft.getKey(teamId, memberId, date)));
+    } catch (error) {
+      console.error('Failed to delete update draft:', error);
+      throw error;
+    }
+  }
+
+  async clear(): Promise<void> {
+    try {
+      await this.request('readwrite', store => store.clear());
+    } catch (error) {
+      console.error('Failed to clear update drafts:', error);
+      throw error;
+    }
+  }
+
+  private async request<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const database = await this.open();
+
+    return new Promise((resolve, reject) => {
+      const request = action(database.transaction(DRAFT_STORE, mode).objectStore(DRAFT_STORE));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Opened once per repository; the store is created the first time the app runs in a browser
+  private open(): Promise<IDBDatabase> {
+    const database = this.database ?? this.connect();
+    this.database = database;
+    return database;
+  }
+
+  private connect(): Promise<IDBDatabase> {
+    return new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('This browser cannot keep drafts offline'));
+        return;
+      }
+
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(DRAFT_STORE, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(error => {
+      // Try again next time, e.g. after the user leaves private browsing
+      this.database = null;
+      throw error;
+    });
+  }
+}
@@ -1,8 +1,27 @@
-import { StandupRepository, StoredWeeklyReport } from '@/domain/repositories/StandupRepository';
-import { WeeklyReport } from '@/domain/entities/WeeklyReport';
+import { StandupRepository, StoredWeeklyReport, RosterMemberInput, TeamInput, MemberAbsenceInput, TeamHolidayInput, SlackIntegrationInput, MicrosoftTeamsIntegrationInput, EmailDigestSettingsInput, HuddleSettingsInput, UpdateCommentInput, UpdateReactionInput, UpdateSearchInput, SimilarUpdatesInput, StandupHistoryPageInput, StandupHistoryPage } from '@/domain/repositories/StandupRepository';
+import { WeeklyReport, ReportContentVersion } from '@/domain/entities/WeeklyReport';
 import { TeamMember } from '@/domain/entities/TeamMember';
+import { RosterMember, ReminderChannel } from '@/domain/entities/RosterMember';
+import { Team } from '@/domain/entities/Team';
 import { StandupEntry } from '@/domain/entities/StandupEntry';
+import { StandupUpdateRevision } from '@/domain/entities/StandupUpdateRevision';
+import { MemberAbsence, AbsenceKind } from '@/domain/entities/MemberAbsence';
+import { TeamHoliday } from '@/domain/entities/TeamHoliday';
+import { Blocker, BlockerSeverity } from '@/domain/entities/Blocker';
+import { SlackIntegration } from '@/domain/entities/SlackIntegration';
+import { MicrosoftTeamsIntegration } from '@/domain/entities/MicrosoftTeamsIntegration';
+import { EmailDigestSettings } from '@/domain/entities/EmailDigestSettings';
+import { Huddle, HuddleAttendance, HuddleOrder } from '@/domain/entities/Huddle';
+import { UpdateComment } from '@/domain/entities/UpdateComment';
+import { UpdateReaction } from '@/domain/entities/UpdateReaction';
+import { UpdateMention, MentionField } from '@/domain/entities/UpdateMention';
+import { UpdateSearchResult } from '@/domain/entities/UpdateSearchResult';
+import { Participation } from '@/domain/value-objects/Participation';
+import { BlockerReport } from '@/domain/value-objects/BlockerReport';
+import { DependencyGraph } from '@/domain/value-objects/DependencyGraph';
 import { WeeklyReportSummary, MemberSummary } from '@/domain/value-objects/WeeklyReportSummary';
+import { TeamRole, TeamRoleName } from '@/domain/value-objects/TeamRole';
+import { TeamCalendar } from '@/domain/services/TeamCalendar';
 import { supabase } from '@/lib/supabase';
 
 /**
@@ -10,37 +29,116 @@ import { supabase } from '@/lib/supabase';
  * Handles all database operations for standup data
  */
 export class SupabaseStandupRepository implements StandupRepository {
-  private readonly VANCOUVER_TIMEZONE = 'America/Vancouver';
+  // Shared by every instance so a timezone change is seen app-wide
+  private static timezoneRequests = new Map<string, Promise<string>>();
+
+  private static readonly HISTORY_PAGE_DAYS = 10;
+
+  /**
+   * Get all teams
+   */
+  async getTeams(): Promise<Team[]> {
+    try {
+      const { data: teams, error } = await supabase
+        .from('teams')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+
+      return teams?.map(team => this.transformRowToTeam(team)) || [];
+    } catch (error) {
+      console.error('Failed to get teams:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a single team
+   */
+  async getTeam(teamId: string): Promise<Team> {
+    try {
+      const { data, error } = await supabase
+        .from('teams')
+        .select('*')
+        .eq('id', teamId)
+        .single();
+
+      if (error) throw error;
+
+      return this.transformRowToTeam(data);
+    } catch (error) {
+      console.error('Failed to get team:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a new team
+   * The team is only readable once its creator has been added as admin, which happens after the
+   * insert, so it is read back separately
+   */
+  async createTeam(team: TeamInput): Promise<Team> {
+    try {
+      const id = crypto.randomUUID();
+      const { error } = await supabase
+        .from('teams')
+        .insert({
+          id,
+          name: team.name,
+          timezone: team.timezone
+        });
+
+      if (error) throw error;
+
+      return await this.getTeam(id);
+    } catch (error) {
+      console.error('Failed to create team:', error);
+      throw error;
+    }
+  }
 
   /**
    * Get today's standup entries
    */
-  async getTodayStandup(): Promise<TeamMember[]> {
+  async getTodayStandup(teamId: string): Promise<TeamMember[]> {
     try {
-      const today = this.getVancouverDate();
-      const standupEntry = await this.getOrCreateStandupEntry(today);
+      const timezone = await this.getTeamTimezone(teamId);
+      const today = TeamCalendar.getDate(timezone);
+      const standupEntry = await this.getOrCreateStandupEntry(teamId, today);
 
       const { data: members, error: membersError } = await supabase
         .from('team_members')
         .select(`
           *,
           standup_updates!inner(
+            id,
             yesterday,
             today,
-            blockers,
+            revision_count,
             updated_at,
-            created_at
+            created_at,
+            standup_update_blockers(
+              blockers(*)
+            ),
+            update_comments(count),
+            update_reactions(id, team_member_id, emoji),
+            update_mentions(team_member_id, field, team_members(name))
           )
         `)
+        .eq('team_id', teamId)
         .eq('standup_updates.standup_entry_id', standupEntry.id)
-        .gte('standup_updates.created_at', `${today}T00:00:00-08:00`)
-        .lt('standup_updates.created_at', `${today}T23:59:59-08:00`);
+        .gte('standup_updates.created_at', TeamCalendar.getStartOfDay(today, timezone))
+        .lt('standup_updates.created_at', TeamCalendar.getStartOfDay(TeamCalendar.addDays(today, 1), timezone));
 
       if (membersError) throw membersError;
 
-      const membersWithUpdates = members?.map(member => 
-        this.transformUpdateToTeamMember(member.standup_updates[0], member)
-      ) || [];
+      const blockers = await this.getUpdateBlockers(teamId, (members ?? []).map(member => member.standup_updates[0].id));
+
+      const membersWithUpdates = members?.map(member => {
+        const update = member.standup_updates[0];
+        return this.transformUpdateToTeamMember({ ...update, blockers: blockers.get(update.id) }, member);
+      }) || [];
 
       return membersWithUpdates;
     } catch (error) {
@@ -50,63 +148,93 @@ export class SupabaseStandupRepository implements StandupRepository {
   }
 
   /**
-   * Get standup history
+   * Get a page of standup history, grouped by the standup date each update was posted for
    */
-  async getStandupHistory(limit: number = 50): Promise<StandupEntry[]> {
+  async getStandupHistory(teamId: string, page: StandupHistoryPageInput = {}): Promise<StandupHistoryPage> {
     try {
-      const today = this.getVancouverDate();
-      
+      const timezone = await this.getTeamTimezone(teamId);
+      const today = TeamCalendar.getDate(timezone);
+      const before = page.before && page.before < today ? page.before : today;
+      const days = Math.max(page.days ?? SupabaseStandupRepository.HISTORY_PAGE_DAYS, 1);
+
+      // Page over the days that have updates, fetching one extra to tell whether another page follows
+      // Relies on standup_entries_team_id_date_key: with one entry per team and day, each row is a whole day
+      let entriesQuery = supabase
+        .from('standup_entries')
+        .select('id, date, standup_updates!inner(id)')
+        .eq('team_id', teamId)
+        .lt('date', before)
+        .order('date', { ascending: false })
+        .limit(days + 1);
+
+      if (page.from) {
+        entriesQuery = entriesQuery.gte('date', page.from);
+      }
+
+      const { data: entries, error: entriesError } = await entriesQuery;
+
+      if (entriesError) throw entriesError;
+
+      const pageEntries = (entries || []).slice(0, days);
+      const nextCursor = entries && entries.length > days ? pageEntries[pageEntries.length - 1].date : null;
+
+      if (pageEntries.length === 0) {
+        return { entries: [], nextCursor: null };
+      }
+
       const { data: updates, error: updatesError } = await supabase
         .from('standup_updates')
         .select(`
-          *,
-          standup_entries!inner(
-            id,
-            date
-          ),
+          id,
+          team_id,
+          standup_entry_id,
+          team_member_id,
+          yesterday,
+          today,
+          revision_count,
+          posted_late,
+          created_at,
+          updated_at,
           team_members!inner(
             id,
             name,
             role,
             avatar
-          )
+          ),
+          standup_update_blockers(
+            blockers(*)
+          ),
+          update_comments(count),
+          update_reactions(id, team_member_id, emoji),
+          update_mentions(team_member_id, field, team_members(name))
         `)
-        .lt('created_at', `${today}T00:00:00-08:00`)
-        .order('created_at', { ascending: false })
-        .limit(limit);
+        .eq('team_id', teamId)
+        .in('standup_entry_id', pageEntries.map(entry => entry.id))
+        .order('created_at', { ascending: false });
 
       if (updatesError) throw updatesError;
-      
-      if (!updates || updates.length === 0) {
-        return [];
-      }
 
-      // Group by submission date
-      const updatesByDate = new Map<string, typeof updates>();
-      
-      updates.forEach(update => {
-        const submissionDate = this.extractDateFromTimestamp(update.created_at);
-        if (submissionDate) {
-          if (!updatesByDate.has(submissionDate)) {
-            updatesByDate.set(submissionDate, []);
-          }
-          updatesByDate.get(submissionDate)!.push(update);
-        }
-      });
+      const rows = (updates ?? []) as Record<string, unknown>[];
+      const blockers = await this.getUpdateBlockers(teamId, rows.map(update => update.id as string));
 
-      const history: StandupEntry[] = Array.from(updatesByDate.entries())
-        .sort(([dateA], [dateB]) => dateB.localeCompare(dateA))
-        .slice(0, 10)
-        .map(([date, dateUpdates]) => new StandupEntry(
-          `date-${date}`,
-          date,
-          dateUpdates.map((update) => 
-            this.transformUpdateToTeamMember(update, update.team_members)
+      // Every update of each day on the page; backfilled updates land on the day they were posted for
+      const history: StandupEntry[] = pageEntries.map(entry => {
+        const dateUpdates = rows.filter(update => update.standup_entry_id === entry.id);
+
+        return new StandupEntry(
+          `date-${entry.date}`,
+          entry.date,
+          dateUpdates.map((update) =>
+            this.transformUpdateToTeamMember(
+              { ...update, blockers: blockers.get(update.id as string) },
+              update.team_members as Record<string, unknown>
+            )
           ),
-          dateUpdates[0]?.created_at || date
-        ));
+          (dateUpdates[0]?.created_at as string | undefined) || entry.date
+        );
+      });
 
-      return history;
+      return { entries: history, nextCursor };
     } catch (error) {
       console.error('Failed to get standup history:', error);
       throw error;
@@ -114,156 +242,329 @@ export class SupabaseStandupRepository implements StandupRepository {
   }
 
   /**
-   * Save a team member's update
+   * Get the months with standup history with the get_standup_history_months database function
    */
-  async saveTeamMemberUpdate(member: TeamMember): Promise<void> {
+  async getHistoryMonths(teamId: string): Promise<string[]> {
     try {
-      const today = this.getVancouverDate();
-      const standupEntry = await this.getOrCreateStandupEntry(today);
+      const timezone = await this.getTeamTimezone(teamId);
+      const { data, error } = await supabase.rpc('get_standup_history_months', {
+        p_team_id: teamId,
+        p_before: TeamCalendar.getDate(timezone)
+      });
 
-      // Check if team member exists
-      const { data: existingMembers } = await supabase
-        .from('team_members')
-        .select('*')
-        .eq('id', member.id);
+      if (error) throw error;
 
-      const existingMember = existingMembers?.[0];
+      return ((data || []) as Record<string, unknown>[]).map(row => row.month as string);
+    } catch (error) {
+      console.error('Failed to get standup history months:', error);
+      throw error;
+    }
+  }
 
-      if (!existingMember) {
-        // Create new team member
-        const { error: memberError } = await supabase
-          .from('team_members')
-          .insert({
-            id: member.id,
-            name: member.name,
-            role: member.role,
-            avatar: member.avatar
-          });
+  /**
+   * Search standup updates with the search_standup_updates database function, then load the
+   * matching updates in full, in the order the search ranked them
+   */
+  async searchStandupUpdates(teamId: string, search: UpdateSearchInput): Promise<UpdateSearchResult[]> {
+    try {
+      const { data: matches, error: searchError } = await supabase.rpc('search_standup_updates', {
+        p_team_id: teamId,
+        p_query: search.text.trim() || null,
+        p_member_id: search.memberId,
+        p_role: search.role,
+        p_start_date: search.startDate,
+        p_end_date: search.endDate,
+        p_has_blockers: search.hasBlockers,
+        p_limit: search.limit ?? UpdateSearchResult.DEFAULT_LIMIT
+      });
 
-        if (memberError) throw memberError;
-      } else {
-        // Update existing team member
-        const { error: memberError } = await supabase
-          .from('team_members')
-          .update({
-            name: member.name,
-            role: member.role,
-            avatar: member.avatar
-          })
-          .eq('id', member.id);
+      if (searchError) throw searchError;
 
-        if (memberError) throw memberError;
-      }
+      return await this.loadSearchResults(teamId, (matches ?? []) as Record<string, unknown>[]);
+    } catch (error) {
+      console.error('Failed to search standup updates:', error);
+      throw error;
+    }
+  }
 
-      // Check if update already exists for today
-      const { data: existingUpdates } = await supabase
-        .from('standup_updates')
-        .select('*')
-        .eq('standup_entry_id', standupEntry.id)
-        .eq('team_member_id', member.id);
-
-      const existingUpdate = existingUpdates?.[0];
-
-      if (existingUpdate) {
-        // Update existing standup update
-        const { error: updateError } = await supabase
-          .from('standup_updates')
-          .update({
-            yesterday: member.yesterday,
-            today: member.today,
-            blockers: member.blockers
-          })
-          .eq('id', existingUpdate.id);
-
-        if (updateError) throw updateError;
-      } else {
-        // Create new standup update
-        const { error: updateError } = await supabase
-          .from('standup_updates')
-          .insert({
-            standup_entry_id: standupEntry.id,
-            team_member_id: member.id,
-            yesterday: member.yesterday,
-            today: member.today,
-            blockers: member.blockers
-          });
+  /**
+   * Find similar standup updates with the match_standup_updates database function, then load the
+   * matching updates in full, most similar first
+   */
+  async findSimilarUpdates(teamId: string, search: SimilarUpdatesInput): Promise<UpdateSearchResult[]> {
+    try {
+      const { data: matches, error: matchError } = await supabase.rpc('match_standup_updates', {
+        p_team_id: teamId,
+        p_embedding: JSON.stringify(search.embedding),
+        p_model: search.model,
+        p_member_id: search.memberId,
+        p_start_date: search.startDate,
+        p_end_date: search.endDate,
+        p_min_similarity: search.minSimilarity,
+        p_limit: search.limit
+      });
 
-        if (updateError) throw updateError;
-      }
+      if (matchError) throw matchError;
+
+      return await this.loadSearchResults(
+        teamId,
+        ((matches ?? []) as Record<string, unknown>[]).map(match => ({ ...match, rank: match.similarity }))
+      );
     } catch (error) {
-      console.error('Failed to save team member update:', error);
+      console.error('Failed to find similar standup updates:', error);
       throw error;
     }
   }
 
   /**
-   * Get yesterday's update count
+   * Load the updates a search matched in full, keeping the search's order
+   */
+  private async loadSearchResults(teamId: string, matches: Record<string, unknown>[]): Promise<UpdateSearchResult[]> {
+    if (matches.length === 0) {
+      return [];
+    }
+
+    const { data: updates, error: updatesError } = await supabase
+      .from('standup_updates')
+      .select(`
+        id,
+        team_id,
+        standup_entry_id,
+        team_member_id,
+        yesterday,
+        today,
+        revision_count,
+        posted_late,
+        created_at,
+        updated_at,
+        team_members!inner(
+          id,
+          name,
+          role,
+          avatar
+        ),
+        standup_update_blockers(
+          blockers(*)
+        ),
+        update_comments(count),
+        update_reactions(id, team_member_id, emoji),
+        update_mentions(team_member_id, field, team_members(name))
+      `)
+      .eq('team_id', teamId)
+      .in('id', matches.map(match => match.standup_update_id as string));
+
+    if (updatesError) throw updatesError;
+
+    const updatesById = new Map(((updates ?? []) as Record<string, unknown>[]).map(update => [update.id as string, update]));
+    const blockers = await this.getUpdateBlockers(teamId, Array.from(updatesById.keys()));
+
+    return matches.flatMap(match => {
+      const update = updatesById.get(match.standup_update_id as string);
+      return update
+        ? [this.transformRowToSearchResult(
+          match,
+          this.transformUpdateToTeamMember(
+            { ...update, blockers: blockers.get(update.id as string) },
+            update.team_members as Record<string, unknown>
+          )
+        )]
+        : [];
+    });
+  }
+
+  /**
+   * Save a team member's update through save_standup_update, which the chat apps use as well
+   * Past dates are checked against the backfill window by the database
+   * New blockers that repeat a recent one are linked back to it, the update is linked to every
+   * blocker on it, so history shows what was blocking that day, and to the teammates its text mentions
    */
-  async getYesterdayUpdateCount(): Promise<number> {
+  async saveTeamMemberUpdate(teamId: string, member: TeamMember, date?: string): Promise<void> {
     try {
-      const targetDate = this.getPreviousBusinessDay();
+      const { error } = await supabase.rpc('save_standup_update', {
+        p_team_id: teamId,
+        p_team_member_id: member.id,
+        p_date: date ?? null,
+        p_yesterday: member.yesterday,
+        p_today: member.today,
+        p_blockers: member.blockerItems.map(blocker => ({
+          id: blocker.isNew() ? null : blocker.id,
+          description: blocker.description,
+          unblocker: blocker.unblocker,
+          severity: blocker.severity,
+          resolved_on: blocker.resolvedOn,
+          resolution: blocker.resolution
+        }))
+      });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to save team member update:', error);
+      throw error;
+    }
+  }
 
-      const { data: updates } = await supabase
+  /**
+   * Get the revision count of a member's update for a standup date
+   */
+  async getUpdateRevision(teamId: string, teamMemberId: string, date: string): Promise<number> {
+    try {
+      const { data: updates, error } = await supabase
         .from('standup_updates')
-        .select(`
-          *,
-          standup_entries(*)
-        `);
+        .select('revision_count, standup_entries!inner(date)')
+        .eq('team_id', teamId)
+        .eq('team_member_id', teamMemberId)
+        .eq('standup_entries.date', date);
 
-      if (updates) {
-        const targetDateUpdates = updates.filter(update => 
-          update.standup_entries?.date === targetDate
-        );
-        return targetDateUpdates.length;
-      }
-      return 0;
+      if (error) throw error;
+
+      return updates?.[0]?.revision_count ?? 0;
     } catch (error) {
-      console.error('Failed to get yesterday update count:', error);
-      return 0;
+      console.error('Failed to get update revision:', error);
+      throw error;
     }
   }
 
   /**
-   * Get team engagement for the current week
+   * Get a member's blockers that were open on a standup date
    */
-  async getTeamEngagement(): Promise<number> {
+  async getOpenBlockers(teamId: string, teamMemberId: string, date: string): Promise<Blocker[]> {
     try {
-      const weekStart = this.getWeekStartDate();
+      const { data: blockers, error } = await supabase
+        .from('blockers')
+        .select('*, team_members!inner(name)')
+        .eq('team_id', teamId)
+        .eq('team_member_id', teamMemberId)
+        .lte('opened_on', date)
+        .or(`resolved_on.is.null,resolved_on.gt.${date}`)
+        .order('opened_on', { ascending: true });
 
-      const { data: weekEntries } = await supabase
-        .from('standup_entries')
-        .select('id')
-        .gte('date', weekStart);
+      if (error) throw error;
 
-      if (weekEntries?.length) {
-        const entryIds = weekEntries.map(entry => entry.id);
+      return blockers?.map(blocker => this.transformRowToBlocker(blocker)) || [];
+    } catch (error) {
+      console.error('Failed to get open blockers:', error);
+      throw error;
+    }
+  }
 
-        const { data: uniqueMembers } = await supabase
-          .from('standup_updates')
-          .select('team_member_id')
-          .in('standup_entry_id', entryIds);
+  /**
+   * Get every blocker that was open at some point within a date range
+   */
+  async getBlockers(teamId: string, startDate: string, endDate: string): Promise<Blocker[]> {
+    try {
+      const { data: blockers, error } = await supabase
+        .from('blockers')
+        .select('*, team_members!inner(name)')
+        .eq('team_id', teamId)
+        .lte('opened_on', endDate)
+        .or(`resolved_on.is.null,resolved_on.gte.${startDate}`)
+        .order('opened_on', { ascending: true });
 
-        if (uniqueMembers) {
-          const uniqueMemberIds = [...new Set(uniqueMembers.map(m => m.team_member_id))];
-          return uniqueMemberIds.length;
-        }
-      }
-      return 0;
+      if (error) throw error;
+
+      return blockers?.map(blocker => this.transformRowToBlocker(blocker)) || [];
+    } catch (error) {
+      console.error('Failed to get blockers:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get every blocker on the team that is open now, with its escalation if it has one
+   */
+  async getOpenTeamBlockers(teamId: string): Promise<Blocker[]> {
+    try {
+      const { data: blockers, error } = await supabase
+        .from('blockers')
+        .select('*, team_members!inner(name), blocker_escalations(created_at, acknowledged_at)')
+        .eq('team_id', teamId)
+        .is('resolved_on', null)
+        .order('opened_on', { ascending: true });
+
+      if (error) throw error;
+
+      return blockers?.map(blocker => this.transformRowToBlocker(blocker)) || [];
+    } catch (error) {
+      console.error('Failed to get open team blockers:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a blocker's escalation as seen by a lead
+   */
+  async acknowledgeBlockerEscalation(teamId: string, blockerId: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('blocker_escalations')
+        .update({ acknowledged_at: new Date().toISOString() })
+        .eq('team_id', teamId)
+        .eq('blocker_id', blockerId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to acknowledge blocker escalation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get how many members expected on the previous business day posted for it
+   * Members who were away that day are not expected
+   */
+  async getYesterdayParticipation(teamId: string): Promise<Participation> {
+    try {
+      const today = TeamCalendar.getDate(await this.getTeamTimezone(teamId));
+      const holidays = await this.getHolidaysBefore(teamId, today);
+      const targetDate = TeamCalendar.getBusinessDayBefore(today, holidays);
+      return await this.getParticipation(teamId, [targetDate]);
+    } catch (error) {
+      console.error('Failed to get yesterday participation:', error);
+      return Participation.none();
+    }
+  }
+
+  /**
+   * Get how many members expected this week have posted at least once
+   * Members who have been away every business day so far are not expected
+   */
+  async getTeamEngagement(teamId: string): Promise<Participation> {
+    try {
+      const timezone = await this.getTeamTimezone(teamId);
+      const weekStart = TeamCalendar.getWeekStartDate(timezone);
+      const today = TeamCalendar.getDate(timezone);
+      const holidays = await this.getHolidays(teamId, weekStart, today);
+      const businessDays = TeamCalendar.getBusinessDays(weekStart, today, TeamHoliday.toDates(holidays));
+      return await this.getParticipation(teamId, businessDays);
     } catch (error) {
       console.error('Failed to get team engagement:', error);
-      return 0;
+      return Participation.none();
     }
   }
 
   /**
    * Generate a weekly report
+   * The standup content version replaces each update with the revision current at standup time
    */
-  async generateWeeklyReport(weekStart: string, weekEnd: string): Promise<WeeklyReport> {
+  async generateWeeklyReport(
+    teamId: string,
+    weekStart: string,
+    weekEnd: string,
+    contentVersion: ReportContentVersion = 'latest'
+  ): Promise<WeeklyReport> {
     try {
+      // Holidays are listed on the report and are not working days
+      const holidays = (await this.getHolidays(teamId, weekStart, weekEnd))
+        .map(holiday => ({ date: holiday.date, name: holiday.name }));
+
+      // Blockers are reported from their records, so carried-over ones count once
+      const blockerReport = BlockerReport.fromBlockers(await this.getBlockers(teamId, weekStart, weekEnd), weekStart, weekEnd);
+
       // Fetch all standup entries for the week
       const { data: weekEntries, error: entriesError } = await supabase
         .from('standup_entries')
         .select('id, date')
+        .eq('team_id', teamId)
         .gte('date', weekStart)
         .lte('date', weekEnd)
         .order('date', { ascending: true });
@@ -275,7 +576,10 @@ export class SupabaseStandupRepository implements StandupRepository {
           weekStart,
           weekEnd,
           [],
-          new WeeklyReportSummary([], [], [], 'No standup data available for this week.', [], {})
+          new WeeklyReportSummary([], [], blockerReport, 'No standup data available for this week.', [], {}),
+          contentVersion,
+          [],
+          holidays
         );
       }
 
@@ -285,7 +589,16 @@ export class SupabaseStandupRepository implements StandupRepository {
       const { data: updates, error: updatesError } = await supabase
         .from('standup_updates')
         .select(`
-          *,
+          id,
+          team_id,
+          standup_entry_id,
+          team_member_id,
+          yesterday,
+          today,
+          revision_count,
+          posted_late,
+          created_at,
+          updated_at,
           standup_entries!inner(
             id,
             date
@@ -295,18 +608,29 @@ export class SupabaseStandupRepository implements StandupRepository {
             name,
             role,
             avatar
-          )
+          ),
+          standup_update_blockers(
+            blockers(*)
+          ),
+          update_comments(count),
+          update_mentions(team_member_id, field, team_members(name))
         `)
         .in('standup_entry_id', entryIds)
         .order('created_at', { ascending: true });
 
       if (updatesError) throw updatesError;
 
+      const rows = (updates ?? []) as Record<string, unknown>[];
+      const blockers = await this.getUpdateBlockers(teamId, rows.map(update => update.id as string));
+      const snapshots = contentVersion === 'standup'
+        ? await this.getStandupSnapshots(teamId, rows as { id: string; standup_entries?: { date: string } | null }[])
+        : new Map<string, StandupUpdateRevision>();
+
       // Group updates by date
-      const updatesByDate = new Map<string, typeof updates>();
+      const updatesByDate = new Map<string, Record<string, unknown>[]>();
       
-      updates?.forEach(update => {
-        const date = update.standup_entries?.date;
+      rows.forEach(update => {
+        const date = (update.standup_entries as { date: string } | null)?.date;
         if (date) {
           if (!updatesByDate.has(date)) {
             updatesByDate.set(date, []);
@@ -320,17 +644,34 @@ export class SupabaseStandupRepository implements StandupRepository {
         .map(([date, dateUpdates]) => new StandupEntry(
           `weekly-${date}`,
           date,
-          dateUpdates.map((update) => 
-            this.transformUpdateToTeamMember(update, update.team_members)
-          ),
-          dateUpdates[0]?.created_at || date
+          dateUpdates.map((update) => {
+            const snapshot = snapshots.get(update.id as string);
+            return this.transformUpdateToTeamMember(
+              snapshot
+                ? { ...update, yesterday: snapshot.yesterday, today: snapshot.today, blockers: snapshot.blockers }
+                : { ...update, blockers: blockers.get(update.id as string) },
+              update.team_members as Record<string, unknown>
+            );
+          }),
+          (dateUpdates[0]?.created_at as string | undefined) || date
         ))
         .sort((a, b) => a.date.localeCompare(b.date));
 
       // Create basic summary
-      const summary = this.generateBasicSummary(entries);
+      const summary = this.generateBasicSummary(entries, blockerReport)
+        .withDependencies(DependencyGraph.fromEntries(entries));
 
-      return new WeeklyReport(weekStart, weekEnd, entries, summary);
+      // Members away for every business day of the week are not counted as participants
+      const [roster, absences] = await Promise.all([
+        this.getRosterMembers(teamId, true),
+        this.getAbsences(teamId, weekStart, weekEnd)
+      ]);
+      const businessDays = TeamCalendar.getBusinessDays(weekStart, weekEnd, holidays.map(holiday => holiday.date));
+      const awayMembers = roster
+        .filter(member => MemberAbsence.isAwayThroughout(absences, member.id, businessDays))
+        .map(member => member.name);
+
+      return new WeeklyReport(weekStart, weekEnd, entries, summary, contentVersion, awayMembers, holidays);
     } catch (error) {
       console.error('Failed to generate weekly report:', error);
       throw error;
@@ -338,132 +679,1012 @@ export class SupabaseStandupRepository implements StandupRepository {
   }
 
   /**
-   * Get stored weekly reports
+   * Get every saved version of a standup update, oldest first
    */
-  async getStoredWeeklyReports(limit: number = 10): Promise<StoredWeeklyReport[]> {
+  async getUpdateRevisions(teamId: string, updateId: string): Promise<StandupUpdateRevision[]> {
     try {
-      const { data: reports, error } = await supabase
-        .from('weekly_reports')
-        .select('*')
-        .order('generated_at', { ascending: false })
-        .limit(limit);
+      const { data: revisions, error } = await supabase
+        .from('standup_update_revisions')
+        .select('id, standup_update_id, team_id, revision_number, yesterday, today, edited_by, created_at')
+        .eq('team_id', teamId)
+        .eq('standup_update_id', updateId)
+        .order('revision_number', { ascending: true });
 
-      if (error) {
-        if (error.code === 'PGRST205') {
-          console.log('Weekly reports table not found. This feature requires database setup.');
-          return [];
-        }
-        throw error;
-      }
+      if (error) throw error;
+
+      const blockers = await this.getRevisionBlockers(teamId, (revisions ?? []).map(revision => revision.id));
 
-      return reports?.map(report => ({
-        id: report.id,
-        weekStart: report.week_start,
-        weekEnd: report.week_end,
-        totalUpdates: report.total_updates,
-        uniqueMembers: report.unique_members,
-        reportData: report.report_data ? WeeklyReport.fromJSON(report.report_data) : new WeeklyReport('', '', [], new WeeklyReportSummary([], [], [], '', [], {})),
-        generatedAt: report.generated_at,
-        status: report.status,
-        error: report.error,
-        createdAt: report.created_at,
-        updatedAt: report.updated_at
-      })).filter(report => report.reportData) || [];
+      return revisions?.map(revision => this.transformRowToRevision({ ...revision, blockers: blockers.get(revision.id) })) || [];
     } catch (error) {
-      console.error('Failed to get stored weekly reports:', error);
-      return [];
+      console.error('Failed to get update revisions:', error);
+      throw error;
     }
   }
 
   /**
-   * Save a weekly report
+   * Get the comments on a standup update, oldest first
    */
-  async saveWeeklyReport(report: WeeklyReport): Promise<void> {
+  async getUpdateComments(teamId: string, updateId: string): Promise<UpdateComment[]> {
     try {
-      const { error } = await supabase
-        .from('weekly_reports')
-        .upsert({
-          week_start: report.weekStart,
-          week_end: report.weekEnd,
-          total_updates: report.getTotalUpdates(),
-          unique_members: report.getUniqueMembers(),
-          report_data: report.toJSON(),
-          status: 'generated',
-          generated_at: new Date().toISOString()
-        }, {
-          onConflict: 'week_start,week_end'
-        });
+      const { data: comments, error } = await supabase
+        .from('update_comments')
+        .select('*, team_members!inner(name)')
+        .eq('team_id', teamId)
+        .eq('standup_update_id', updateId)
+        .order('created_at', { ascending: true });
 
       if (error) throw error;
+
+      return comments?.map(comment => this.transformRowToComment(comment)) || [];
     } catch (error) {
-      console.error('Failed to save weekly report:', error);
+      console.error('Failed to get update comments:', error);
       throw error;
     }
   }
 
-  // Private helper methods
-  private getVancouverDate(date: Date = new Date()): string {
-    return date.toLocaleDateString('en-CA', {
-      timeZone: this.VANCOUVER_TIMEZONE
-    });
-  }
+  /**
+   * Comment on a standup update; the database fills in the update's team
+   */
+  async addUpdateComment(teamId: string, comment: UpdateCommentInput): Promise<UpdateComment> {
+    try {
+      const { data, error } = await supabase
+        .from('update_comments')
+        .insert({
+          team_id: teamId,
+          standup_update_id: comment.standupUpdateId,
+          team_member_id: comment.teamMemberId,
+          parent_id: comment.parentId,
+          body: comment.body
+        })
+        .select('*, team_members!inner(name)')
+        .single();
 
-  private getPreviousBusinessDay(): string {
-    const today = new Date();
-    const dayOfWeek = today.getDay();
-    
-    let targetDate: Date;
-    
-    if (dayOfWeek === 1) { // Monday
-      targetDate = new Date(today);
-      targetDate.setDate(today.getDate() - 3);
-    } else if (dayOfWeek === 0) { // Sunday
-      targetDate = new Date(today);
-      targetDate.setDate(today.getDate() - 2);
-    } else { // Tuesday through Saturday
-      targetDate = new Date(today);
-      targetDate.setDate(today.getDate() - 1);
+      if (error) throw error;
+
+      return this.transformRowToComment(data);
+    } catch (error) {
+      console.error('Failed to add update comment:', error);
+      throw error;
     }
-    
-    return this.getVancouverDate(targetDate);
   }
 
-  private getWeekStartDate(): string {
-    const today = new Date();
-    const dayOfWeek = today.getDay();
-    const daysToMonday = dayOfWeek === 0 ? 6 : dayOfWeek - 1;
-    
-    const monday = new Date(today);
-    monday.setDate(today.getDate() - daysToMonday);
-    
-    return this.getVancouverDate(monday);
-  }
+  /**
+   * Delete a comment; replies to it are deleted with it
+   */
+  async deleteUpdateComment(teamId: string, id: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('update_comments')
+        .delete()
+        .eq('team_id', teamId)
+        .eq('id', id);
 
-  private extractDateFromTimestamp(timestamp: string): string {
-    return timestamp.split('T')[0];
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to delete update comment:', error);
+      throw error;
+    }
   }
 
-  private async getOrCreateStandupEntry(date: string) {
-    const { data: entries, error: entryError } = await supabase
-      .from('standup_entries')
-      .select('*')
-      .eq('date', date);
+  /**
+   * React to a standup update with an emoji
+   */
+  async addUpdateReaction(teamId: string, reaction: UpdateReactionInput): Promise<UpdateReaction> {
+    try {
+      const { data, error } = await supabase
+        .from('update_reactions')
+        .insert({
+          team_id: teamId,
+          standup_update_id: reaction.standupUpdateId,
+          team_member_id: reaction.teamMemberId,
+          emoji: reaction.emoji
+        })
+        .select('*')
+        .single();
 
-    if (entryError) throw entryError;
+      if (error) throw error;
 
-    let standupEntry = entries?.[0];
+      return this.transformRowToReaction(data);
+    } catch (error) {
+      console.error('Failed to add update reaction:', error);
+      throw error;
+    }
+  }
 
-    if (!standupEntry) {
-      const { data: newEntry, error: createError } = await supabase
+  /**
+   * Take back a reaction
+   */
+  async deleteUpdateReaction(teamId: string, id: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('update_reactions')
+        .delete()
+        .eq('team_id', teamId)
+        .eq('id', id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to delete update reaction:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get stored weekly reports with the get_weekly_reports database function, which leaves out
+   * the blocker sections for people who may not view blockers
+   */
+  async getStoredWeeklyReports(teamId: string, limit: number = 10): Promise<StoredWeeklyReport[]> {
+    try {
+      const { data: reports, error } = await supabase.rpc('get_weekly_reports', {
+        p_team_id: teamId,
+        p_limit: limit
+      });
+
+      if (error) {
+        if (error.code === 'PGRST202') {
+          console.log('Weekly reports function not found. This feature requires database setup.');
+          return [];
+        }
+        throw error;
+      }
+
+      return ((reports || []) as Record<string, unknown>[])
+        .map(report => this.transformRowToStoredReport(report))
+        .filter(report => report.reportData);
+    } catch (error) {
+      console.error('Failed to get stored weekly reports:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Save a weekly report
+   */
+  async saveWeeklyReport(teamId: string, report: WeeklyReport): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('weekly_reports')
+        .upsert({
+          team_id: teamId,
+          week_start: report.weekStart,
+          week_end: report.weekEnd,
+          total_updates: report.getTotalUpdates(),
+          unique_members: report.getUniqueMembers(),
+          report_data: report.toJSON(),
+          status: 'generated',
+          generated_at: new Date().toISOString()
+        }, {
+          onConflict: 'team_id,week_start,week_end'
+        });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to save weekly report:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the team roster
+   */
+  async getRosterMembers(teamId: string, includeArchived: boolean = false): Promise<RosterMember[]> {
+    try {
+      let query = supabase
+        .from('team_members')
+        .select('*')
+        .eq('team_id', teamId)
+        .order('name', { ascending: true });
+
+      if (!includeArchived) {
+        query = query.is('archived_at', null);
+      }
+
+      const { data: members, error } = await query;
+
+      if (error) throw error;
+
+      return members?.map(member => this.transformRowToRosterMember(member)) || [];
+    } catch (error) {
+      console.error('Failed to get roster members:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add a new member to the roster
+   */
+  async addRosterMember(teamId: string, member: RosterMemberInput): Promise<RosterMember> {
+    try {
+      const { data, error } = await supabase
+        .from('team_members')
+        .insert({
+          team_id: teamId,
+          name: member.name,
+          role: member.role,
+          avatar: member.avatar ?? '',
+          email: member.email || null
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return this.transformRowToRosterMember(data);
+    } catch (error) {
+      console.error('Failed to add roster member:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a roster member
+   */
+  async updateRosterMember(teamId: string, id: string, updates: Partial<RosterMemberInput>): Promise<RosterMember> {
+    try {
+      const updateData: Record<string, unknown> = {};
+
+      if (updates.name !== undefined) updateData.name = updates.name;
+      if (updates.role !== undefined) updateData.role = updates.role;
+      if (updates.avatar !== undefined) updateData.avatar = updates.avatar;
+      if (updates.email !== undefined) updateData.email = updates.email || null;
+
+      const { data, error } = await supabase
+        .from('team_members')
+        .update(updateData)
+        .eq('team_id', teamId)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return this.transformRowToRosterMember(data);
+    } catch (error) {
+      console.error('Failed to update roster member:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Change a roster member's access role
+   */
+  async updateRosterMemberRole(teamId: string, id: string, role: TeamRoleName): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('team_members')
+        .update({ access_role: role })
+        .eq('team_id', teamId)
+        .eq('id', id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to update roster member role:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Archive a roster member
+   */
+  async archiveRosterMember(teamId: string, id: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('team_members')
+        .update({ archived_at: new Date().toISOString() })
+        .eq('team_id', teamId)
+        .eq('id', id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to archive roster member:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Restore an archived roster member
+   */
+  async restoreRosterMember(teamId: string, id: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('team_members')
+        .update({ archived_at: null })
+        .eq('team_id', teamId)
+        .eq('id', id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to restore roster member:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Change how the signed-in user is reminded to post; members can't otherwise edit their roster entry
+   */
+  async updateOwnReminderChannel(teamId: string, channel: ReminderChannel): Promise<void> {
+    try {
+      const { error } = await supabase.rpc('set_my_reminder_channel', { p_team_id: teamId, p_channel: channel });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to update reminder channel:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get absences that overlap a date range
+   */
+  async getAbsences(teamId: string, startDate: string, endDate: string): Promise<MemberAbsence[]> {
+    try {
+      const { data: absences, error } = await supabase
+        .from('member_absences')
+        .select('*, team_members!inner(name)')
+        .eq('team_id', teamId)
+        .lte('start_date', endDate)
+        .gte('end_date', startDate)
+        .order('start_date', { ascending: true });
+
+      if (error) throw error;
+
+      return absences?.map(absence => this.transformRowToAbsence(absence)) || [];
+    } catch (error) {
+      console.error('Failed to get absences:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a member's absence
+   */
+  async addAbsence(teamId: string, absence: MemberAbsenceInput): Promise<MemberAbsence> {
+    try {
+      const { data, error } = await supabase
+        .from('member_absences')
+        .insert({
+          team_id: teamId,
+          team_member_id: absence.teamMemberId,
+          kind: absence.kind,
+          start_date: absence.startDate,
+          end_date: absence.endDate,
+          note: absence.note || null
+        })
+        .select('*, team_members!inner(name)')
+        .single();
+
+      if (error) throw error;
+
+      return this.transformRowToAbsence(data);
+    } catch (error) {
+      console.error('Failed to add absence:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a recorded absence
+   */
+  async deleteAbsence(teamId: string, id: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('member_absences')
+        .delete()
+        .eq('team_id', teamId)
+        .eq('id', id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to delete absence:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get team holidays within a date range
+   */
+  async getHolidays(teamId: string, startDate: string, endDate: string): Promise<TeamHoliday[]> {
+    try {
+      const { data: holidays, error } = await supabase
+        .from('team_holidays')
+        .select('*')
+        .eq('team_id', teamId)
+        .gte('date', startDate)
+        .lte('date', endDate)
+        .order('date', { ascending: true });
+
+      if (error) throw error;
+
+      return holidays?.map(holiday => this.transformRowToHoliday(holiday)) || [];
+    } catch (error) {
+      console.error('Failed to get holidays:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add team holidays, replacing the name of any holiday already on the same date
+   */
+  async saveHolidays(teamId: string, holidays: TeamHolidayInput[]): Promise<number> {
+    try {
+      if (holidays.length === 0) return 0;
+
+      const { data, error } = await supabase
+        .from('team_holidays')
+        .upsert(
+          holidays.map(holiday => ({ team_id: teamId, date: holiday.date, name: holiday.name })),
+          { onConflict: 'team_id,date' }
+        )
+        .select('id');
+
+      if (error) throw error;
+
+      return data?.length ?? 0;
+    } catch (error) {
+      console.error('Failed to save holidays:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a team holiday
+   */
+  async deleteHoliday(teamId: string, id: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('team_holidays')
+        .delete()
+        .eq('team_id', teamId)
+        .eq('id', id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to delete holiday:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the team's timezone, falling back to the default when unset
+   */
+  async getTeamTimezone(teamId: string): Promise<string> {
+    const requests = SupabaseStandupRepository.timezoneRequests;
+
+    if (!requests.has(teamId)) {
+      requests.set(teamId, this.fetchTeamTimezone(teamId));
+    }
+
+    try {
+      return await requests.get(teamId)!;
+    } catch (error) {
+      // Retry on the next call instead of caching the failure
+      requests.delete(teamId);
+      console.error('Failed to get team timezone:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update the team's timezone
+   */
+  async updateTeamTimezone(teamId: string, timezone: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('teams')
+        .update({ timezone })
+        .eq('id', teamId);
+
+      if (error) throw error;
+
+      SupabaseStandupRepository.timezoneRequests.set(teamId, Promise.resolve(timezone));
+    } catch (error) {
+      console.error('Failed to update team timezone:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update the local time of day the team holds its standup
+   */
+  async updateTeamStandupTime(teamId: string, standupTime: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('teams')
+        .update({ standup_time: standupTime })
+        .eq('id', teamId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to update team standup time:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update how many days back updates can be posted or edited
+   */
+  async updateTeamBackfillDays(teamId: string, backfillDays: number): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('teams')
+        .update({ backfill_days: backfillDays })
+        .eq('id', teamId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to update team backfill window:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update how many business days a blocker can stay open before it is escalated
+   */
+  async updateTeamBlockerEscalationDays(teamId: string, escalationDays: number): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('teams')
+        .update({ blocker_escalation_days: escalationDays })
+        .eq('id', teamId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to update blocker escalation threshold:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update the local time members who haven't posted are reminded
+   */
+  async updateTeamReminderTime(teamId: string, reminderTime: string | null): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('teams')
+        .update({ reminder_time: reminderTime })
+        .eq('id', teamId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to update team reminder time:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update how the team's huddle is run
+   */
+  async updateTeamHuddleSettings(teamId: string, input: HuddleSettingsInput): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('teams')
+        .update({
+          huddle_time_box_seconds: input.timeBoxSeconds,
+          huddle_order: input.order,
+          huddle_member_order: input.memberOrder
+        })
+        .eq('id', teamId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to update team huddle settings:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the huddle recorded for a date, or null if none was run
+   */
+  async getHuddle(teamId: string, date: string): Promise<Huddle | null> {
+    try {
+      const { data, error } = await supabase
         .from('standup_entries')
-        .insert({ date })
+        .select(`
+          date,
+          huddle_started_at,
+          huddle_duration_seconds,
+          huddle_facilitated_by,
+          standup_attendance(team_member_id, present, speaking_seconds)
+        `)
+        .eq('team_id', teamId)
+        .eq('date', date)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return data?.huddle_started_at ? this.transformRowToHuddle(data) : null;
+    } catch (error) {
+      console.error('Failed to fetch huddle:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Save a huddle with its day's standup entry
+   * Goes through record_huddle() since members can't write standup entries directly
+   */
+  async saveHuddle(teamId: string, huddle: Huddle): Promise<void> {
+    try {
+      const { error } = await supabase.rpc('record_huddle', {
+        p_team_id: teamId,
+        p_date: huddle.date,
+        p_started_at: huddle.startedAt,
+        p_duration_seconds: huddle.durationSeconds,
+        p_attendance: huddle.attendance.map(entry => ({
+          team_member_id: entry.teamMemberId,
+          present: entry.present,
+          speaking_seconds: entry.speakingSeconds
+        }))
+      });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to save huddle:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the team's Slack connection, or null if it is not connected
+   */
+  async getSlackIntegration(teamId: string): Promise<SlackIntegration | null> {
+    try {
+      const { data, error } = await supabase
+        .from('slack_integrations')
+        .select('*')
+        .eq('team_id', teamId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return data ? this.transformRowToSlackIntegration(data) : null;
+    } catch (error) {
+      console.error('Failed to fetch Slack integration:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Connect the team to Slack, or change its connection
+   */
+  async saveSlackIntegration(teamId: string, input: SlackIntegrationInput): Promise<SlackIntegration> {
+    try {
+      const { data, error } = await supabase
+        .from('slack_integrations')
+        .upsert(
+          {
+            team_id: teamId,
+            slack_team_id: input.slackTeamId,
+            channel_id: input.channelId,
+            prompts_enabled: input.promptsEnabled,
+            digest_enabled: input.digestEnabled,
+            weekly_report_enabled: input.weeklyReportEnabled
+          },
+          { onConflict: 'team_id' }
+        )
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return this.transformRowToSlackIntegration(data);
+    } catch (error) {
+      console.error('Failed to save Slack integration:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Disconnect the team from Slack
+   */
+  async deleteSlackIntegration(teamId: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('slack_integrations')
+        .delete()
+        .eq('team_id', teamId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to delete Slack integration:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the team's Microsoft Teams connection, or null if it is not connected
+   */
+  async getMicrosoftTeamsIntegration(teamId: string): Promise<MicrosoftTeamsIntegration | null> {
+    try {
+      const { data, error } = await supabase
+        .from('microsoft_teams_integrations')
+        .select('*')
+        .eq('team_id', teamId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return data ? this.transformRowToMicrosoftTeamsIntegration(data) : null;
+    } catch (error) {
+      console.error('Failed to fetch Microsoft Teams integration:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Connect the team to Microsoft Teams, or change its connection
+   */
+  async saveMicrosoftTeamsIntegration(teamId: string, input: MicrosoftTeamsIntegrationInput): Promise<MicrosoftTeamsIntegration> {
+    try {
+      const { data, error } = await supabase
+        .from('microsoft_teams_integrations')
+        .upsert(
+          {
+            team_id: teamId,
+            webhook_url: input.webhookUrl,
+            tenant_id: input.tenantId,
+            digest_enabled: input.digestEnabled,
+            weekly_report_enabled: input.weeklyReportEnabled
+          },
+          { onConflict: 'team_id' }
+        )
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return this.transformRowToMicrosoftTeamsIntegration(data);
+    } catch (error) {
+      console.error('Failed to save Microsoft Teams integration:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Disconnect the team from Microsoft Teams
+   */
+  async deleteMicrosoftTeamsIntegration(teamId: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('microsoft_teams_integrations')
+        .delete()
+        .eq('team_id', teamId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to delete Microsoft Teams integration:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the team's weekly report distribution list, or null if it has none
+   */
+  async getEmailDigestSettings(teamId: string): Promise<EmailDigestSettings | null> {
+    try {
+      const { data, error } = await supabase
+        .from('email_digest_settings')
+        .select('*')
+        .eq('team_id', teamId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return data ? this.transformRowToEmailDigestSettings(data) : null;
+    } catch (error) {
+      console.error('Failed to fetch email digest settings:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Set the team's weekly report distribution list
+   */
+  async saveEmailDigestSettings(teamId: string, input: EmailDigestSettingsInput): Promise<EmailDigestSettings> {
+    try {
+      const { data, error } = await supabase
+        .from('email_digest_settings')
+        .upsert(
+          {
+            team_id: teamId,
+            recipients: input.recipients,
+            weekly_report_enabled: input.weeklyReportEnabled
+          },
+          { onConflict: 'team_id' }
+        )
         .select()
         .single();
 
-      if (createError) throw createError;
-      standupEntry = newEntry;
+      if (error) throw error;
+
+      return this.transformRowToEmailDigestSettings(data);
+    } catch (error) {
+      console.error('Failed to save email digest settings:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stop emailing the team's weekly reports
+   */
+  async deleteEmailDigestSettings(teamId: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('email_digest_settings')
+        .delete()
+        .eq('team_id', teamId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to delete email digest settings:', error);
+      throw error;
     }
+  }
+
+  // Private helper methods
+  private async fetchTeamTimezone(teamId: string): Promise<string> {
+    const { data, error } = await supabase
+      .from('teams')
+      .select('timezone')
+      .eq('id', teamId)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    return data?.timezone || TeamCalendar.DEFAULT_TIMEZONE;
+  }
+
+  /**
+   * Get the blockers text of updates, keyed by update id
+   * The column is not selectable; get_standup_update_blockers only returns it to people with view_blockers
+   */
+  private async getUpdateBlockers(teamId: string, updateIds: string[]): Promise<Map<string, string>> {
+    if (updateIds.length === 0) return new Map();
+
+    const { data, error } = await supabase.rpc('get_standup_update_blockers', {
+      p_team_id: teamId,
+      p_update_ids: updateIds
+    });
+
+    if (error) throw error;
+
+    return new Map(((data || []) as Record<string, unknown>[]).map(row => [row.standup_update_id as string, row.blockers as string]));
+  }
+
+  /**
+   * Get the blockers text of update revisions, keyed by revision id
+   */
+  private async getRevisionBlockers(teamId: string, revisionIds: string[]): Promise<Map<string, string>> {
+    if (revisionIds.length === 0) return new Map();
+
+    const { data, error } = await supabase.rpc('get_standup_update_revision_blockers', {
+      p_team_id: teamId,
+      p_revision_ids: revisionIds
+    });
+
+    if (error) throw error;
+
+    return new Map(((data || []) as Record<string, unknown>[]).map(row => [row.revision_id as string, row.blockers as string]));
+  }
+
+  /**
+   * Find the revision of each update that was current at that day's standup, keyed by update id
+   */
+  private async getStandupSnapshots(
+    teamId: string,
+    updates: { id: string; standup_entries?: { date: string } | null }[]
+  ): Promise<Map<string, StandupUpdateRevision>> {
+    const snapshots = new Map<string, StandupUpdateRevision>();
+    if (updates.length === 0) return snapshots;
+
+    const { data: team, error: teamError } = await supabase
+      .from('teams')
+      .select('timezone, standup_time')
+      .eq('id', teamId)
+      .maybeSingle();
+
+    if (teamError) throw teamError;
+
+    const timezone = team?.timezone || TeamCalendar.DEFAULT_TIMEZONE;
+    const standupTime = this.toStandupTime(team?.standup_time);
+
+    const { data: rows, error: revisionsError } = await supabase
+      .from('standup_update_revisions')
+      .select('id, standup_update_id, team_id, revision_number, yesterday, today, edited_by, created_at')
+      .eq('team_id', teamId)
+      .in('standup_update_id', updates.map(update => update.id));
+
+    if (revisionsError) throw revisionsError;
+
+    const blockers = await this.getRevisionBlockers(teamId, (rows ?? []).map(row => row.id));
+    const revisionsByUpdate = new Map<string, StandupUpdateRevision[]>();
+    rows?.forEach(row => {
+      const revision = this.transformRowToRevision({ ...row, blockers: blockers.get(row.id) });
+      if (!revisionsByUpdate.has(revision.updateId)) {
+        revisionsByUpdate.set(revision.updateId, []);
+      }
+      revisionsByUpdate.get(revision.updateId)!.push(revision);
+    });
+
+    updates.forEach(update => {
+      const date = update.standup_entries?.date;
+      const revisions = revisionsByUpdate.get(update.id);
+      if (!date || !revisions) return;
+
+      const snapshot = StandupUpdateRevision.asOf(revisions, TeamCalendar.getInstant(date, standupTime, timezone));
+      if (snapshot) snapshots.set(update.id, snapshot);
+    });
+
+    return snapshots;
+  }
+
+  /**
+   * Get holiday dates in the month before a date, enough to find the business day before it
+   */
+  private async getHolidaysBefore(teamId: string, date: string): Promise<string[]> {
+    const holidays = await this.getHolidays(teamId, TeamCalendar.addDays(date, -31), TeamCalendar.addDays(date, -1));
+    return TeamHoliday.toDates(holidays);
+  }
+
+  /**
+   * Count expected members who posted for any of the given dates
+   * A member is expected unless they were away on every one of the dates
+   */
+  private async getParticipation(teamId: string, dates: string[]): Promise<Participation> {
+    if (dates.length === 0) return Participation.none();
+
+    const startDate = dates[0];
+    const endDate = dates[dates.length - 1];
+
+    const [roster, absences, { data: updates, error }] = await Promise.all([
+      this.getRosterMembers(teamId),
+      this.getAbsences(teamId, startDate, endDate),
+      supabase
+        .from('standup_updates')
+        .select('team_member_id, standup_entries!inner(date)')
+        .eq('team_id', teamId)
+        .in('standup_entries.date', dates)
+    ]);
+
+    if (error) throw error;
+
+    const expected = roster.filter(member =>
+      member.isExpectedToPost() && !MemberAbsence.isAwayThroughout(absences, member.id, dates)
+    );
+    const posted = new Set((updates ?? []).map(update => update.team_member_id as string));
+
+    return new Participation(
+      expected.filter(member => posted.has(member.id)).length,
+      expected.length
+    );
+  }
+
+  private async getOrCreateStandupEntry(teamId: string, date: string) {
+    const { data: entries, error: entryError } = await supabase
+      .from('standup_entries')
+      .select('*')
+      .eq('team_id', teamId)
+      .eq('date', date);
+
+    if (entryError) throw entryError;
+
+    if (entries?.[0]) return entries[0];
+
+    // A day has one entry, which another save may have just created
+    const { error: createError } = await supabase
+      .from('standup_entries')
+      .upsert({ team_id: teamId, date }, { onConflict: 'team_id,date', ignoreDuplicates: true });
+
+    if (createError) throw createError;
+
+    const { data: standupEntry, error: fetchError } = await supabase
+      .from('standup_entries')
+      .select('*')
+      .eq('team_id', teamId)
+      .eq('date', date)
+      .single();
 
+    if (fetchError) throw fetchError;
     return standupEntry;
   }
 
@@ -476,18 +1697,235 @@ export class SupabaseStandupRepository implements StandupRepository {
       (update.yesterday as string) || '',
       (update.today as string) || '',
       (update.blockers as string) || '',
-      (update.created_at as string) || (member.updated_at as string) || new Date().toISOString()
+      (update.created_at as string) || (member.updated_at as string) || new Date().toISOString(),
+      (update.id as string) || null,
+      (update.revision_count as number) || 1,
+      (update.posted_late as boolean) || false,
+      ((update.standup_update_blockers as { blockers: Record<string, unknown> | null }[] | undefined) ?? [])
+        .flatMap(link => link.blockers ? [this.transformRowToBlocker({ ...link.blockers, team_members: member })] : [])
+        .sort((a, b) => a.openedOn.localeCompare(b.openedOn)),
+      // Embedded as update_comments(count)
+      (update.update_comments as { count: number }[] | undefined)?.[0]?.count ?? 0,
+      ((update.update_reactions as Record<string, unknown>[] | undefined) ?? [])
+        .map(reaction => this.transformRowToReaction({ ...reaction, standup_update_id: update.id })),
+      ((update.update_mentions as Record<string, unknown>[] | undefined) ?? [])
+        .map(mention => this.transformRowToMention(mention))
+    );
+  }
+
+  private transformRowToTeam(row: Record<string, unknown>): Team {
+    return new Team(
+      row.id as string,
+      row.name as string,
+      (row.timezone as string) || TeamCalendar.DEFAULT_TIMEZONE,
+      this.toStandupTime(row.standup_time as string | null),
+      (row.backfill_days as number | null) ?? TeamCalendar.DEFAULT_BACKFILL_DAYS,
+      (row.blocker_escalation_days as number | null) ?? Blocker.DEFAULT_ESCALATION_DAYS,
+      row.reminder_time ? this.toStandupTime(row.reminder_time as string) : null,
+      (row.huddle_time_box_seconds as number | null) ?? Huddle.DEFAULT_TIME_BOX_SECONDS,
+      Huddle.isValidOrder(row.huddle_order as string) ? row.huddle_order as HuddleOrder : 'random',
+      (row.huddle_member_order as string[] | null) ?? [],
+      row.created_at as string,
+      row.updated_at as string
+    );
+  }
+
+  private transformRowToHuddle(row: Record<string, unknown>): Huddle {
+    const attendance = (row.standup_attendance as Record<string, unknown>[] | null) ?? [];
+    return new Huddle(
+      row.date as string,
+      row.huddle_started_at as string,
+      (row.huddle_duration_seconds as number | null) ?? 0,
+      (row.huddle_facilitated_by as string | null) ?? null,
+      attendance.map((entry): HuddleAttendance => ({
+        teamMemberId: entry.team_member_id as string,
+        present: entry.present as boolean,
+        speakingSeconds: (entry.speaking_seconds as number | null) ?? 0
+      }))
+    );
+  }
+
+  private transformRowToHoliday(row: Record<string, unknown>): TeamHoliday {
+    return new TeamHoliday(
+      row.id as string,
+      row.date as string,
+      row.name as string,
+      row.created_at as string
+    );
+  }
+
+  private transformRowToSlackIntegration(row: Record<string, unknown>): SlackIntegration {
+    return new SlackIntegration(
+      row.team_id as string,
+      row.slack_team_id as string,
+      row.channel_id as string,
+      row.prompts_enabled as boolean,
+      row.digest_enabled as boolean,
+      row.weekly_report_enabled as boolean,
+      (row.last_prompted_on as string) || null,
+      row.created_at as string,
+      row.updated_at as string
+    );
+  }
+
+  private transformRowToMicrosoftTeamsIntegration(row: Record<string, unknown>): MicrosoftTeamsIntegration {
+    return new MicrosoftTeamsIntegration(
+      row.team_id as string,
+      row.webhook_url as string,
+      (row.tenant_id as string) || null,
+      row.digest_enabled as boolean,
+      row.weekly_report_enabled as boolean,
+      row.created_at as string,
+      row.updated_at as string
+    );
+  }
+
+  private transformRowToEmailDigestSettings(row: Record<string, unknown>): EmailDigestSettings {
+    return new EmailDigestSettings(
+      row.team_id as string,
+      (row.recipients as string[]) ?? [],
+      row.weekly_report_enabled as boolean,
+      row.created_at as string,
+      row.updated_at as string
+    );
+  }
+
+  private transformRowToAbsence(row: Record<string, unknown>): MemberAbsence {
+    const member = row.team_members as { name?: string } | null;
+    return new MemberAbsence(
+      row.id as string,
+      row.team_member_id as string,
+      member?.name || '',
+      row.kind as AbsenceKind,
+      row.start_date as string,
+      row.end_date as string,
+      (row.note as string) || null,
+      row.created_at as string
+    );
+  }
+
+  private transformRowToBlocker(row: Record<string, unknown>): Blocker {
+    const member = row.team_members as { name?: string } | null;
+    // blocker_id is unique, so PostgREST embeds the escalation as a single row
+    const escalation = row.blocker_escalations as { created_at?: string; acknowledged_at?: string | null } | null | undefined;
+    return new Blocker(
+      row.id as string,
+      row.team_member_id as string,
+      member?.name || '',
+      row.description as string,
+      (row.unblocker as string) || null,
+      row.severity as BlockerSeverity,
+      row.opened_on as string,
+      (row.resolved_on as string) || null,
+      (row.resolution as string) || null,
+      row.created_at as string,
+      escalation?.created_at || null,
+      escalation?.acknowledged_at || null
+    );
+  }
+
+  private transformRowToStoredReport(row: Record<string, unknown>): StoredWeeklyReport {
+    return {
+      id: row.id as string,
+      weekStart: row.week_start as string,
+      weekEnd: row.week_end as string,
+      totalUpdates: row.total_updates as number,
+      uniqueMembers: row.unique_members as number,
+      reportData: row.report_data
+        ? WeeklyReport.fromJSON(row.report_data as Record<string, unknown>)
+        : new WeeklyReport('', '', [], new WeeklyReportSummary([], [], BlockerReport.empty(), '', [], {})),
+      generatedAt: row.generated_at as string,
+      status: row.status as StoredWeeklyReport['status'],
+      error: (row.error as string | null) ?? undefined,
+      createdAt: row.created_at as string,
+      updatedAt: row.updated_at as string
+    };
+  }
+
+  private transformRowToRevision(row: Record<string, unknown>): StandupUpdateRevision {
+    return new StandupUpdateRevision(
+      row.id as string,
+      row.standup_update_id as string,
+      row.revision_number as number,
+      (row.yesterday as string) || '',
+      (row.today as string) || '',
+      (row.blockers as string) || '',
+      (row.edited_by as string) || null,
+      row.created_at as string
+    );
+  }
+
+  private transformRowToComment(row: Record<string, unknown>): UpdateComment {
+    const author = row.team_members as { name?: string } | null;
+    return new UpdateComment(
+      row.id as string,
+      row.standup_update_id as string,
+      (row.parent_id as string) || null,
+      row.team_member_id as string,
+      author?.name || 'Unknown',
+      row.body as string,
+      row.created_at as string
     );
   }
 
-  private generateBasicSummary(entries: StandupEntry[]): WeeklyReportSummary {
+  private transformRowToReaction(row: Record<string, unknown>): UpdateReaction {
+    return new UpdateReaction(
+      row.id as string,
+      row.standup_update_id as string,
+      row.team_member_id as string,
+      row.emoji as string
+    );
+  }
+
+  private transformRowToSearchResult(row: Record<string, unknown>, member: TeamMember): UpdateSearchResult {
+    return new UpdateSearchResult(
+      member,
+      row.standup_date as string,
+      (row.rank as number) || 0,
+      {
+        yesterday: (row.yesterday_headline as string | null) ?? undefined,
+        today: (row.today_headline as string | null) ?? undefined,
+        blockers: (row.blockers_headline as string | null) ?? undefined
+      }
+    );
+  }
+
+  private transformRowToMention(row: Record<string, unknown>): UpdateMention {
+    return new UpdateMention(
+      row.team_member_id as string,
+      (row.team_members as { name: string } | null)?.name ?? '',
+      UpdateMention.isValidField(row.field as string) ? row.field as MentionField : 'today'
+    );
+  }
+
+  // Postgres returns time columns as HH:MM:SS
+  private toStandupTime(value: string | null | undefined): string {
+    return value ? value.slice(0, 5) : TeamCalendar.DEFAULT_STANDUP_TIME;
+  }
+
+  private transformRowToRosterMember(row: Record<string, unknown>): RosterMember {
+    return new RosterMember(
+      row.id as string,
+      row.name as string,
+      row.role as string,
+      (row.avatar as string) || '',
+      (row.email as string) || null,
+      (row.user_id as string) || null,
+      TeamRole.fromString(row.access_role as string).name,
+      RosterMember.toReminderChannel(row.reminder_channel as string | null),
+      (row.archived_at as string) || null,
+      row.created_at as string,
+      row.updated_at as string
+    );
+  }
+
+  private generateBasicSummary(entries: StandupEntry[], blockers: BlockerReport): WeeklyReportSummary {
     const allAccomplishments: string[] = [];
     const allOngoingWork: string[] = [];
-    const allBlockers: string[] = [];
     const memberSummaries: Record<string, MemberSummary> = {};
 
     // Collect unique team members
-    const uniqueMembers = new Map<string, { role: string; accomplishments: string[]; ongoingWork: string[]; blockers: string[] }>();
+    const uniqueMembers = new Map<string, { role: string; accomplishments: string[]; ongoingWork: string[]; blockers: Set<string> }>();
 
     entries.forEach(entry => {
       entry.teamMembers.forEach(member => {
@@ -496,7 +1934,7 @@ export class SupabaseStandupRepository implements StandupRepository {
             role: member.role,
             accomplishments: [],
             ongoingWork: [],
-            blockers: []
+            blockers: new Set()
           });
         }
 
@@ -510,10 +1948,7 @@ export class SupabaseStandupRepository implements StandupRepository {
           allOngoingWork.push(`${member.name}: ${member.today}`);
           memberData.ongoingWork.push(member.today);
         }
-        if (member.blockers && member.blockers.trim()) {
-          allBlockers.push(`${member.name}: ${member.blockers}`);
-          memberData.blockers.push(member.blockers);
-        }
+        member.getOpenBlockers(entry.date).forEach(blocker => memberData.blockers.add(blocker.description));
       });
     });
 
@@ -523,7 +1958,7 @@ export class SupabaseStandupRepository implements StandupRepository {
         data.role,
         data.accomplishments.slice(0, 5),
         `Completed ${data.accomplishments.length} tasks, with ${data.ongoingWork.length} ongoing items`,
-        data.blockers,
+        Array.from(data.blockers),
         data.ongoingWork.length > 0 ? data.ongoingWork[data.ongoingWork.length - 1] : 'No specific focus identified'
       );
     });
@@ -531,8 +1966,8 @@ export class SupabaseStandupRepository implements StandupRepository {
     return new WeeklyReportSummary(
       allAccomplishments.slice(0, 10),
       allOngoingWork.slice(0, 10),
-      allBlockers.slice(0, 10),
-      `Generated basic summary for ${entries.length} days with ${allAccomplishments.length} accomplishments, ${allOngoingWork.length} ongoing tasks, and ${allBlockers.length} blockers.`,
+      blockers,
+      `Generated basic summary for ${entries.length} days with ${allAccomplishments.length} accomplishments, ${allOngoingWork.length} ongoing tasks, and ${blockers.getCount()} blockers.`,
       [],
       memberSummaries
     );
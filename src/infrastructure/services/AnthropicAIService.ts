@@ -2,7 +2,10 @@ import Anthropic from '@anthropic-ai/sdk';
 import { AIService } from '@/application/services/AIService';
 import { WeeklyReport } from '@/domain/entities/WeeklyReport';
 import { WeeklyReportSummary, MemberSummary } from '@/domain/value-objects/WeeklyReportSummary';
+import { BlockerReport } from '@/domain/value-objects/BlockerReport';
 import { TeamMember } from '@/domain/entities/TeamMember';
+import { UpdateSearchResult } from '@/domain/entities/UpdateSearchResult';
+import { HistoryAnswer } from '@/domain/value-objects/HistoryAnswer';
 
 /**
  * Anthropic AI Service implementation
@@ -52,7 +55,6 @@ Return ONLY valid JSON in this exact format:
 {
   "keyAccomplishments": ["accomplishment 1", "accomplishment 2"],
   "ongoingWork": ["ongoing work 1", "ongoing work 2"], 
-  "blockers": ["blocker 1", "blocker 2"],
   "teamInsights": "Brief team observation",
   "recommendations": ["recommendation 1", "recommendation 2"],
   "memberSummaries": {
@@ -182,7 +184,7 @@ Return only valid JSON.`;
           return new WeeklyReportSummary(
             summary.keyAccomplishments || [],
             summary.ongoingWork || [],
-            summary.blockers || [],
+            BlockerReport.empty(),
             summary.teamInsights || '',
             summary.recommendations || [],
             cleanedMemberSummaries
@@ -199,7 +201,7 @@ Return only valid JSON.`;
       return new WeeklyReportSummary(
         [],
         [],
-        [],
+        BlockerReport.empty(),
         'AI summary generation failed. Please review the data manually.',
         [],
         {}
@@ -379,6 +381,39 @@ Return only valid JSON.`;
     }
   }
 
+  /**
+   * Answer a question about standup history from the updates found for it
+   */
+  async answerHistoryQuestion(question: string, sources: UpdateSearchResult[]): Promise<string> {
+    try {
+      const message = await this.anthropic.messages.create({
+        model: 'claude-sonnet-4-20250514',
+        max_tokens: 1000,
+        system: `You are an AI assistant answering questions about a development team's past standup updates.
+
+        Answer using only the numbered standup updates you are given. Cite every update you draw on with its number in square brackets, e.g. [1] or [2][3], right after the statement it supports. Name the people and dates involved. If the updates do not answer the question, say so briefly instead of guessing.
+
+        Keep the answer to a short paragraph or a few bullet points of plain text, with no headings.`,
+        messages: [
+          {
+            role: 'user',
+            content: `Question: ${question}\n\nStandup updates:\n${HistoryAnswer.formatSources(sources)}`
+          }
+        ]
+      });
+
+      const content = message.content[0];
+      if (content.type === 'text') {
+        return content.text.trim();
+      }
+
+      throw new Error('Failed to generate AI answer');
+    } catch (error) {
+      console.error('AI history answer failed:', error);
+      throw new Error('Failed to generate AI answer');
+    }
+  }
+
   /**
    * Extract insights from AI text response (fallback method)
    */
@@ -387,7 +422,6 @@ Return only valid JSON.`;
     
     const keyAccomplishments: string[] = [];
     const ongoingWork: string[] = [];
-    const blockers: string[] = [];
     const recommendations: string[] = [];
     let teamInsights = '';
     const memberSummaries: Record<string, MemberSummary> = {};
@@ -437,7 +471,7 @@ Return only valid JSON.`;
             ongoingWork.push(item);
             break;
           case 'blockers':
-            blockers.push(item);
+            // The report's blockers come from the tracked blocker records
             break;
           case 'recommendations':
             recommendations.push(item);
@@ -485,7 +519,7 @@ Return only valid JSON.`;
     return new WeeklyReportSummary(
       keyAccomplishments,
       ongoingWork,
-      blockers,
+      BlockerReport.empty(),
       teamInsights || 'AI analysis completed. Review the data for specific insights.',
       recommendations,
       memberSummaries
@@ -0,0 +1,63 @@
+import { EmbeddingService, TextEmbedding } from '@/application/services/EmbeddingService';
+
+/**
+ * Local implementation of the embedding service
+ * Hashes words and word fragments into a fixed-size vector, with no network or API key. It only
+ * matches shared words and their variants, not paraphrases, but the same text always gives the same
+ * embedding, so it stands in for a real provider in tests and local development.
+ * Mirrors the local provider of the embeddings edge function, so its embeddings can be compared
+ * with updates embedded there
+ */
+export class LocalEmbeddingService implements EmbeddingService {
+  static readonly MODEL = 'local:hashed-terms-v1';
+  static readonly DIMENSIONS = 512;
+
+  private static readonly STOP_WORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'did', 'do', 'for', 'from', 'has', 'have', 'i', 'in',
+    'is', 'it', 'of', 'on', 'or', 'our', 'the', 'to', 'was', 'we', 'were', 'what', 'when', 'who', 'with'
+  ]);
+
+  async embedQuery(text: string): Promise<TextEmbedding> {
+    return { model: LocalEmbeddingService.MODEL, vector: LocalEmbeddingService.embed(text) };
+  }
+
+  /**
+   * Embed text as a unit-length vector
+   */
+  static embed(text: string): number[] {
+    const vector = new Array<number>(LocalEmbeddingService.DIMENSIONS).fill(0);
+
+    const words = (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+      .filter(word => !LocalEmbeddingService.STOP_WORDS.has(word));
+
+    words.forEach(word => {
+      LocalEmbeddingService.addFeature(vector, `w:${LocalEmbeddingService.stem(word)}`, 1);
+      const padded = `<${word}>`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        LocalEmbeddingService.addFeature(vector, `t:${padded.slice(i, i + 3)}`, 0.25);
+      }
+    });
+
+    const length = Math.hypot(...vector);
+    return length > 0 ? vector.map(value => value / length) : vector;
+  }
+
+  // "migrate", "migrated", "migrating" and "migration" all become "migrat"
+  private static stem(word: string): string {
+    return word.length > 4 ? word.replace(/ations?$/, 'at').replace(/(ing|ed|es|e|s)$/, '') : word;
+  }
+
+  private static addFeature(vector: number[], feature: string, weight: number): void {
+    const hash = LocalEmbeddingService.fnv1a(feature);
+    vector[hash % LocalEmbeddingService.DIMENSIONS] += (hash & 0x80000000) ? -weight : weight;
+  }
+
+  private static fnv1a(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
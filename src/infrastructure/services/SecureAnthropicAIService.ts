@@ -1,7 +1,10 @@
 import { AIService } from '@/application/services/AIService';
 import { WeeklyReportSummary } from '@/domain/value-objects/WeeklyReportSummary';
+import { BlockerReport } from '@/domain/value-objects/BlockerReport';
 import { WeeklyReport } from '@/domain/entities/WeeklyReport';
 import { TeamMember } from '@/domain/entities/TeamMember';
+import { UpdateSearchResult } from '@/domain/entities/UpdateSearchResult';
+import { HistoryAnswer } from '@/domain/value-objects/HistoryAnswer';
 
 /**
  * Secure Anthropic AI Service that uses Supabase Edge Function proxy
@@ -138,6 +141,34 @@ export class SecureAnthropicAIService implements AIService {
     }
   }
 
+  /**
+   * Answer a question about standup history from the updates found for it
+   */
+  async answerHistoryQuestion(question: string, sources: UpdateSearchResult[]): Promise<string> {
+    try {
+      const response = await this.callAnthropicAPI({
+        model: 'claude-3-opus-20240229',
+        max_tokens: 1000,
+        messages: [
+          {
+            role: 'user',
+            content: this.buildHistoryQuestionPrompt(question, sources)
+          }
+        ]
+      });
+
+      const contentArray = response.content as Array<{ text: string }>;
+      if (!contentArray || contentArray.length === 0) {
+        throw new Error('No content received from AI service');
+      }
+
+      return contentArray[0].text.trim();
+    } catch (error) {
+      console.error('Failed to answer history question:', error);
+      throw new Error('Failed to generate AI answer');
+    }
+  }
+
   /**
    * Call Anthropic API through Supabase Edge Function proxy with retry logic
    */
@@ -247,7 +278,9 @@ export class SecureAnthropicAIService implements AIService {
         return `**${member.name}** (${member.role}) - ${entry.date}:
 - Yesterday: ${member.yesterday || 'No update'}
 - Today: ${member.today || 'No update'}
-- Blockers: ${member.blockers || 'None'}`;
+- Blockers: ${member.blockers || 'None'}${member.commentCount > 0 ? `
+- Teammate comments: ${member.commentCount}` : ''}${member.getDependencies().length > 0 ? `
+- Waiting on: ${member.getDependencies().map(mention => mention.memberName).join(', ')}` : ''}`;
       }).join('\n\n');
     }).join('\n\n');
 
@@ -266,6 +299,9 @@ Please analyze the following weekly standup entries and create a detailed, in-de
    - Areas where they excelled or showed growth
 5. **Next Week Focus**: Strategic recommendations for priorities, goals, and areas of focus for the upcoming week
 
+Updates with many teammate comments were discussed heavily; call those items out in the overview or challenges.
+Members "waiting on" teammates were blocked by them; call out people many others were waiting on as dependencies in the challenges.
+
 **IMPORTANT**: For each team member, provide detailed, specific insights based on their actual standup entries. Don't give generic responses - analyze their specific work, challenges, and contributions mentioned in their updates.
 
 Format your response as a JSON object with the following structure:
@@ -354,6 +390,22 @@ Please provide a comprehensive, professional summary that would be valuable for
         `;
   }
 
+  /**
+   * Build the prompt for answering a question about standup history
+   */
+  private buildHistoryQuestionPrompt(question: string, sources: UpdateSearchResult[]): string {
+    return `You are an AI assistant answering a question about a development team's past standup updates.
+
+Answer using only the numbered standup updates below. Cite every update you draw on with its number in square brackets, e.g. [1] or [2][3], right after the statement it supports. Name the people and dates involved. If the updates do not answer the question, say so briefly instead of guessing.
+
+Keep the answer to a short paragraph or a few bullet points of plain text, with no headings.
+
+Question: ${question}
+
+Standup updates:
+${HistoryAnswer.formatSources(sources)}`;
+  }
+
   /**
    * Parse the AI response into a WeeklyReportSummary object
    */
@@ -423,7 +475,7 @@ Please provide a comprehensive, professional summary that would be valuable for
       const result = new WeeklyReportSummary(
         summaryData.keyAchievements || [],
         [], // ongoingWork - not provided by AI
-        summaryData.challenges || [],
+        BlockerReport.empty(), // blockers come from the tracked blocker records, not the AI's challenges
         enhancedTeamInsights,
         summaryData.nextWeekFocus || [],
         memberSummaries
@@ -431,7 +483,7 @@ Please provide a comprehensive, professional summary that would be valuable for
       
       console.log('✅ Final summary structure:', {
         keyAccomplishmentsCount: result.keyAccomplishments.length,
-        blockersCount: result.blockers.length,
+        blockersCount: result.getBlockerCount(),
         memberSummariesCount: Object.keys(result.memberSummaries).length,
         teamInsightsLength: result.teamInsights.length
       });
@@ -445,7 +497,7 @@ Please provide a comprehensive, professional summary that would be valuable for
       return new WeeklyReportSummary(
         [],
         [],
-        [],
+        BlockerReport.empty(),
         content.substring(0, 500) + (content.length > 500 ? '...' : ''),
         [],
         {}
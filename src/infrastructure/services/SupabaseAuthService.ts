@@ -0,0 +1,81 @@
+import type { User } from '@supabase/supabase-js';
+import { AuthService, AuthUser } from '@/application/services/AuthService';
+import { supabase } from '@/lib/supabase';
+
+/**
+ * Supabase Auth implementation of the auth service
+ * Shares the session with the repository's client so RLS sees the signed-in user
+ */
+export class SupabaseAuthService implements AuthService {
+  async getCurrentUser(): Promise<AuthUser | null> {
+    try {
+      const { data, error } = await supabase.auth.getSession();
+
+      if (error) throw error;
+
+      return this.toAuthUser(data.session?.user ?? null);
+    } catch (error) {
+      console.error('Failed to get current user:', error);
+      throw error;
+    }
+  }
+
+  onAuthStateChange(callback: (user: AuthUser | null) => void): () => void {
+    const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+      callback(this.toAuthUser(session?.user ?? null));
+    });
+
+    return () => data.subscription.unsubscribe();
+  }
+
+  async sendMagicLink(email: string, redirectTo: string): Promise<void> {
+    try {
+      // Accounts are only created by roster invites, never by signing in
+      const { error } = await supabase.auth.signInWithOtp({
+        email,
+        options: { emailRedirectTo: redirectTo, shouldCreateUser: false }
+      });
+
+      if (error?.code === 'otp_disabled' || error?.code === 'signup_disabled') {
+        throw new Error('This email is not on a team roster yet. Ask a team admin to add you.');
+      }
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to send sign-in link:', error);
+      throw error;
+    }
+  }
+
+  async signOut(): Promise<void> {
+    try {
+      const { error } = await supabase.auth.signOut();
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to sign out:', error);
+      throw error;
+    }
+  }
+
+  async linkTeamMembers(): Promise<number> {
+    try {
+      const { data, error } = await supabase.rpc('link_team_members_to_current_user');
+
+      if (error) throw error;
+
+      return data ?? 0;
+    } catch (error) {
+      console.error('Failed to link team members:', error);
+      throw error;
+    }
+  }
+
+  private toAuthUser(user: User | null): AuthUser | null {
+    if (!user) return null;
+
+    return {
+      id: user.id,
+      email: user.email ?? ''
+    };
+  }
+}
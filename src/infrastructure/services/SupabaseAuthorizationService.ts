@@ -0,0 +1,33 @@
+import { AuthorizationService } from '@/domain/services/AuthorizationService';
+import { Permission, TeamRole } from '@/domain/value-objects/TeamRole';
+import { supabase } from '@/lib/supabase';
+
+/**
+ * Supabase implementation of the authorization service
+ * Reads the role from the database so the client and RLS agree on who may do what
+ */
+export class SupabaseAuthorizationService implements AuthorizationService {
+  async getRole(teamId: string): Promise<TeamRole> {
+    try {
+      const { data, error } = await supabase.rpc('get_team_role', { p_team_id: teamId });
+
+      if (error) throw error;
+
+      return TeamRole.fromString(data);
+    } catch (error) {
+      console.error('Failed to get team role:', error);
+      throw error;
+    }
+  }
+
+  async can(teamId: string, permission: Permission): Promise<boolean> {
+    const role = await this.getRole(teamId);
+    return role.can(permission);
+  }
+
+  async authorize(teamId: string, permission: Permission): Promise<void> {
+    if (!(await this.can(teamId, permission))) {
+      throw new Error(`You don't have permission to ${TeamRole.describePermission(permission)}`);
+    }
+  }
+}
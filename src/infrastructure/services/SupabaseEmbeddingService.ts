@@ -0,0 +1,28 @@
+import { EmbeddingService, TextEmbedding } from '@/application/services/EmbeddingService';
+import { supabase } from '@/lib/supabase';
+
+/**
+ * Supabase implementation of the embedding service
+ * Questions are embedded by the embeddings edge function, with the same provider the database
+ * uses for standup updates, so the two can be compared
+ */
+export class SupabaseEmbeddingService implements EmbeddingService {
+  async embedQuery(text: string): Promise<TextEmbedding> {
+    try {
+      const { data, error } = await supabase.functions.invoke('embeddings', {
+        body: { action: 'embed_query', text }
+      });
+
+      if (error) throw error;
+
+      if (!data?.success || !Array.isArray(data.embedding)) {
+        throw new Error(data?.error || 'No embedding received');
+      }
+
+      return { model: data.model, vector: data.embedding };
+    } catch (error) {
+      console.error('Failed to embed query:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,20 @@
+import { FunctionsFetchError } from '@supabase/supabase-js';
+import { NetworkErrorService } from '@/domain/services/NetworkErrorService';
+
+// What browsers say when fetch fails before a response arrives
+const FETCH_FAILURE_PATTERN = /failed to fetch|networkerror|load failed/i;
+
+export class SupabaseNetworkErrorService implements NetworkErrorService {
+  isNetworkError(error: unknown): boolean {
+    if (error instanceof FunctionsFetchError) return true;
+    if (error instanceof TypeError) return FETCH_FAILURE_PATTERN.test(error.message);
+
+    // The database client returns a failed fetch as an error object named after the TypeError
+    if (typeof error === 'object' && error !== null) {
+      const message = (error as { message?: unknown }).message;
+      return typeof message === 'string' && message.startsWith('TypeError: ') && FETCH_FAILURE_PATTERN.test(message);
+    }
+
+    return false;
+  }
+}
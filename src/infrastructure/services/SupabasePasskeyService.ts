@@ -1,5 +1,8 @@
 import { createClient } from '@supabase/supabase-js';
-import { PasskeyService, Passkey } from '@/domain/services/PasskeyService';
+import { PasskeyService, Passkey, PasskeyInput, PasskeyAuditEntry, PasskeyAuditReason } from '@/domain/services/PasskeyService';
+
+// The hash column is not readable by clients, so passkeys are always selected by column
+const PASSKEY_COLUMNS = 'id, key_name, description, is_active, scopes, expires_at, max_uses, use_count, last_used_at, created_at, updated_at';
 
 export class SupabasePasskeyService implements PasskeyService {
   private supabase;
@@ -15,83 +18,66 @@ export class SupabasePasskeyService implements PasskeyService {
     this.supabase = createClient(supabaseUrl, supabaseAnonKey);
   }
 
-  async validatePasskey(passkey: string): Promise<boolean> {
-    try {
-      console.log('🔐 SupabasePasskeyService: Validating passkey...');
-      const { data, error } = await this.supabase
-        .rpc('validate_passkey', { passkey_value: passkey });
-
-      console.log('🔐 SupabasePasskeyService: RPC response:', { data, error });
-
-      if (error) {
-        console.error('❌ SupabasePasskeyService: Error validating passkey:', error);
-        return false;
-      }
-
-      const isValid = data === true;
-      console.log('🔐 SupabasePasskeyService: Validation result:', isValid);
-      return isValid;
-    } catch (error) {
-      console.error('❌ SupabasePasskeyService: Exception validating passkey:', error);
-      return false;
-    }
-  }
-
-  async getAllPasskeys(): Promise<Passkey[]> {
+  async getAllPasskeys(teamId: string): Promise<Passkey[]> {
     try {
-      console.log('🔐 SupabasePasskeyService: Fetching all passkeys...');
       const { data, error } = await this.supabase
         .from('passkeys')
-        .select('*')
+        .select(PASSKEY_COLUMNS)
+        .eq('team_id', teamId)
         .order('created_at', { ascending: false });
 
-      console.log('🔐 SupabasePasskeyService: Passkeys response:', { data, error });
-
       if (error) {
         console.error('❌ SupabasePasskeyService: Error fetching passkeys:', error);
         return [];
       }
 
-      const passkeys = data.map(this.mapToPasskey);
-      console.log('🔐 SupabasePasskeyService: Mapped passkeys:', passkeys);
-      return passkeys;
+      return data.map(this.mapToPasskey);
     } catch (error) {
       console.error('❌ SupabasePasskeyService: Exception fetching passkeys:', error);
       return [];
     }
   }
 
-  async createPasskey(passkeyData: Omit<Passkey, 'id' | 'createdAt' | 'updatedAt'>): Promise<Passkey> {
+  async savePasskey(teamId: string, passkeyData: PasskeyInput): Promise<Passkey> {
     try {
-      const { data, error } = await this.supabase
+      const { data: id, error } = await this.supabase
+        .rpc('save_passkey', {
+          p_team_id: teamId,
+          p_key_name: passkeyData.keyName,
+          p_key_value: passkeyData.keyValue,
+          p_scopes: passkeyData.scopes,
+          p_description: passkeyData.description ?? null,
+          p_expires_at: passkeyData.expiresAt ?? null,
+          p_max_uses: passkeyData.maxUses ?? null
+        });
+
+      if (error) {
+        console.error('Error saving passkey:', error);
+        throw new Error(error.message || 'Failed to save passkey');
+      }
+
+      const { data, error: fetchError } = await this.supabase
         .from('passkeys')
-        .insert({
-          key_name: passkeyData.keyName,
-          key_value: passkeyData.keyValue,
-          description: passkeyData.description,
-          is_active: passkeyData.isActive
-        })
-        .select()
+        .select(PASSKEY_COLUMNS)
+        .eq('id', id)
         .single();
 
-      if (error) {
-        console.error('Error creating passkey:', error);
-        throw new Error('Failed to create passkey');
+      if (fetchError) {
+        console.error('Error fetching saved passkey:', fetchError);
+        throw new Error('Failed to save passkey');
       }
 
       return this.mapToPasskey(data);
     } catch (error) {
-      console.error('Error creating passkey:', error);
+      console.error('Error saving passkey:', error);
       throw error;
     }
   }
 
-  async updatePasskey(id: string, updates: Partial<Omit<Passkey, 'id' | 'createdAt' | 'updatedAt'>>): Promise<Passkey> {
+  async updatePasskey(id: string, updates: Partial<Pick<Passkey, 'description' | 'isActive'>>): Promise<Passkey> {
     try {
       const updateData: Record<string, unknown> = {};
-      
-      if (updates.keyName !== undefined) updateData.key_name = updates.keyName;
-      if (updates.keyValue !== undefined) updateData.key_value = updates.keyValue;
+
       if (updates.description !== undefined) updateData.description = updates.description;
       if (updates.isActive !== undefined) updateData.is_active = updates.isActive;
 
@@ -99,7 +85,7 @@ export class SupabasePasskeyService implements PasskeyService {
         .from('passkeys')
         .update(updateData)
         .eq('id', id)
-        .select()
+        .select(PASSKEY_COLUMNS)
         .single();
 
       if (error) {
@@ -131,15 +117,53 @@ export class SupabasePasskeyService implements PasskeyService {
     }
   }
 
+  async getAuditLog(teamId: string, limit = 20): Promise<PasskeyAuditEntry[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('passkey_audit_log')
+        .select('*')
+        .eq('team_id', teamId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('Error fetching passkey audit log:', error);
+        throw new Error('Failed to load passkey audit log');
+      }
+
+      return data.map(this.mapToAuditEntry);
+    } catch (error) {
+      console.error('Error fetching passkey audit log:', error);
+      throw error;
+    }
+  }
+
   private mapToPasskey(data: Record<string, unknown>): Passkey {
     return {
       id: data.id as string,
       keyName: data.key_name as string,
-      keyValue: data.key_value as string,
-      description: data.description as string,
+      description: (data.description as string | null) ?? undefined,
       isActive: data.is_active as boolean,
+      scopes: (data.scopes as string[] | null) ?? [],
+      expiresAt: (data.expires_at as string | null) ?? undefined,
+      maxUses: (data.max_uses as number | null) ?? undefined,
+      useCount: (data.use_count as number | null) ?? 0,
+      lastUsedAt: (data.last_used_at as string | null) ?? undefined,
       createdAt: data.created_at as string,
       updatedAt: data.updated_at as string
     };
   }
+
+  private mapToAuditEntry(data: Record<string, unknown>): PasskeyAuditEntry {
+    return {
+      id: data.id as string,
+      passkeyId: (data.passkey_id as string | null) ?? undefined,
+      keyName: (data.key_name as string | null) ?? undefined,
+      scope: data.scope as string,
+      success: data.success as boolean,
+      reason: data.reason as PasskeyAuditReason,
+      userId: (data.user_id as string | null) ?? undefined,
+      createdAt: data.created_at as string
+    };
+  }
 }
@@ -0,0 +1,111 @@
+import { StandupRealtimeService, TeamPresence, TypingMember } from '@/application/services/StandupRealtimeService';
+import { supabase } from '@/lib/supabase';
+
+interface ChangeSignal {
+  team_id: string;
+  date: string;
+  kind: 'updates' | 'weekly_reports';
+}
+
+interface PresencePayload {
+  memberId: string;
+  name: string;
+  typing: boolean;
+}
+
+/**
+ * Supabase Realtime implementation of the standup realtime service
+ * Row changes arrive through Postgres Changes, which applies the tables' row level security;
+ * updates and reports are signalled through standup_changes and refetched rather than sent whole;
+ * typing is shared through presence on a private channel, authorized by policies on realtime.messages
+ */
+export class SupabaseRealtimeService implements StandupRealtimeService {
+  subscribeToTeam(
+    teamId: string,
+    handlers: { onUpdatesChange: () => void; onWeeklyReportsChange: () => void }
+  ): () => void {
+    const channel = supabase
+      .channel(`standup-changes:${teamId}`)
+      .on<ChangeSignal>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'standup_changes', filter: `team_id=eq.${teamId}` },
+        payload => {
+          const kind = 'kind' in payload.new ? payload.new.kind : undefined;
+          if (kind === 'weekly_reports') {
+            handlers.onWeeklyReportsChange();
+          } else {
+            handlers.onUpdatesChange();
+          }
+        }
+      )
+      // Comment counts and reactions are loaded with the updates
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'update_comments', filter: `team_id=eq.${teamId}` },
+        () => handlers.onUpdatesChange()
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'update_reactions', filter: `team_id=eq.${teamId}` },
+        () => handlers.onUpdatesChange()
+      )
+      .subscribe((status, error) => {
+        if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          console.error('Failed to listen for standup changes:', error ?? status);
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+
+  joinPresence(
+    teamId: string,
+    member: { id: string; name: string } | null,
+    onTypingChange: (typingMembers: TypingMember[]) => void
+  ): TeamPresence {
+    const channel = supabase.channel(`standup-presence:${teamId}`, {
+      config: { private: true, presence: { key: member?.id ?? '' } }
+    });
+
+    let typing = false;
+    let joined = false;
+
+    const track = () => {
+      if (!member || !joined) return;
+      channel.track({ memberId: member.id, name: member.name, typing } satisfies PresencePayload)
+        .catch(error => console.error('Failed to share typing status:', error));
+    };
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        // A member with several tabs open is listed once, as typing if any tab is
+        const typingMembers = new Map<string, TypingMember>();
+        Object.values(channel.presenceState<PresencePayload>()).flat()
+          .filter(presence => presence.typing)
+          .forEach(presence => typingMembers.set(presence.memberId, { memberId: presence.memberId, name: presence.name }));
+
+        onTypingChange([...typingMembers.values()]);
+      })
+      .subscribe((status, error) => {
+        if (status === 'SUBSCRIBED') {
+          joined = true;
+          track();
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          console.error('Failed to join presence channel:', error ?? status);
+        }
+      });
+
+    return {
+      setTyping: (value: boolean) => {
+        if (value === typing) return;
+        typing = value;
+        track();
+      },
+      leave: () => {
+        supabase.removeChannel(channel);
+      }
+    };
+  }
+}
@@ -0,0 +1,66 @@
+import { TeamMember } from '@/domain/entities/TeamMember';
+
+// Shared with public/sw.js, which keeps this cache across app updates
+const DATA_CACHE = 'standup-data-v1';
+
+/**
+ * Today's Standup Cache
+ * Keeps the last loaded copy of each team's standup for today in Cache Storage,
+ * so the dashboard can show it before the network answers and when offline
+ */
+export class TodayStandupCache {
+  /**
+   * Get the cached updates for a team's standup date, or null if none were cached for that date
+   */
+  async read(teamId: string, date: string): Promise<TeamMember[] | null> {
+    if (!TodayStandupCache.isSupported()) return null;
+
+    try {
+      const cache = await caches.open(DATA_CACHE);
+      const response = await cache.match(this.getKey(teamId));
+      if (!response) return null;
+
+      const cached = await response.json() as { date: string; members: Record<string, unknown>[] };
+      return cached.date === date ? cached.members.map(member => TeamMember.fromJSON(member)) : null;
+    } catch (error) {
+      console.error('Failed to read cached standup:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Cache the updates just loaded for a team's standup date, replacing the previous day's
+   */
+  async write(teamId: string, date: string, members: TeamMember[]): Promise<void> {
+    if (!TodayStandupCache.isSupported()) return;
+
+    try {
+      const cache = await caches.open(DATA_CACHE);
+      await cache.put(
+        this.getKey(teamId),
+        new Response(JSON.stringify({ date, members: members.map(member => member.toJSON()) }), {
+          headers: { 'Content-Type': 'application/json' }
+        })
+      );
+    } catch (error) {
+      console.error('Failed to cache standup:', error);
+    }
+  }
+
+  /**
+   * Forget every cached standup, e.g. when the user signs out
+   */
+  static async clear(): Promise<void> {
+    if (!TodayStandupCache.isSupported()) return;
+    await caches.delete(DATA_CACHE);
+  }
+
+  private static isSupported(): boolean {
+    return typeof caches !== 'undefined';
+  }
+
+  // Cache Storage is keyed by request URL; this path is never fetched
+  private getKey(teamId: string): string {
+    return `/__cache/standup/today/${teamId}`;
+  }
+}
@@ -0,0 +1,146 @@
+import { PushNotificationService } from '@/application/services/PushNotificationService';
+import { supabase } from '@/lib/supabase';
+
+/**
+ * Web Push implementation of the push notification service
+ * The browser's subscription is stored once per roster member, so one browser can follow several teams;
+ * it is only dropped from the push service when no member uses it any more
+ */
+export class WebPushNotificationService implements PushNotificationService {
+  isSupported(): boolean {
+    return 'serviceWorker' in navigator
+      && 'PushManager' in window
+      && 'Notification' in window
+      && Boolean(import.meta.env.VITE_VAPID_PUBLIC_KEY);
+  }
+
+  getPermission(): NotificationPermission {
+    return 'Notification' in window ? Notification.permission : 'denied';
+  }
+
+  async isSubscribed(memberId: string): Promise<boolean> {
+    if (!this.isSupported()) return false;
+
+    try {
+      const subscription = await this.getBrowserSubscription();
+      if (!subscription) return false;
+
+      const { count, error } = await supabase
+        .from('push_subscriptions')
+        .select('id', { count: 'exact', head: true })
+        .eq('team_member_id', memberId)
+        .eq('endpoint', subscription.endpoint);
+
+      if (error) throw error;
+
+      return (count ?? 0) > 0;
+    } catch (error) {
+      console.error('Failed to check push subscription:', error);
+      throw error;
+    }
+  }
+
+  async subscribe(memberId: string): Promise<void> {
+    if (!this.isSupported()) {
+      throw new Error('This browser does not support push notifications');
+    }
+
+    try {
+      const permission = await Notification.requestPermission();
+      if (permission !== 'granted') {
+        throw new Error('Notifications are blocked for this site; allow them in your browser settings');
+      }
+
+      const registration = await navigator.serviceWorker.ready;
+      const subscription = await registration.pushManager.getSubscription()
+        ?? await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: this.toApplicationServerKey(import.meta.env.VITE_VAPID_PUBLIC_KEY)
+        });
+
+      const { endpoint, keys } = subscription.toJSON();
+      if (!endpoint || !keys?.p256dh || !keys.auth) {
+        throw new Error('The browser returned an incomplete push subscription');
+      }
+
+      const { error } = await supabase
+        .from('push_subscriptions')
+        .upsert({
+          team_member_id: memberId,
+          endpoint,
+          p256dh: keys.p256dh,
+          auth: keys.auth,
+          user_agent: navigator.userAgent
+        }, { onConflict: 'team_member_id,endpoint' });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to subscribe to push notifications:', error);
+      throw error;
+    }
+  }
+
+  async unsubscribe(memberId: string): Promise<void> {
+    if (!this.isSupported()) return;
+
+    try {
+      const subscription = await this.getBrowserSubscription();
+      if (!subscription) return;
+
+      const { error } = await supabase
+        .from('push_subscriptions')
+        .delete()
+        .eq('team_member_id', memberId)
+        .eq('endpoint', subscription.endpoint);
+
+      if (error) throw error;
+
+      const { count, error: countError } = await supabase
+        .from('push_subscriptions')
+        .select('id', { count: 'exact', head: true })
+        .eq('endpoint', subscription.endpoint);
+
+      if (countError) throw countError;
+
+      if (!count) {
+        await subscription.unsubscribe();
+      }
+    } catch (error) {
+      console.error('Failed to unsubscribe from push notifications:', error);
+      throw error;
+    }
+  }
+
+  async unsubscribeAll(): Promise<void> {
+    if (!this.isSupported()) return;
+
+    try {
+      const subscription = await this.getBrowserSubscription();
+      if (!subscription) return;
+
+      // Row level security limits this to the signed-in user's own members
+      const { error } = await supabase
+        .from('push_subscriptions')
+        .delete()
+        .eq('endpoint', subscription.endpoint);
+
+      if (error) throw error;
+
+      await subscription.unsubscribe();
+    } catch (error) {
+      console.error('Failed to remove push subscriptions:', error);
+      throw error;
+    }
+  }
+
+  private async getBrowserSubscription(): Promise<PushSubscription | null> {
+    const registration = await navigator.serviceWorker.getRegistration();
+    return registration ? registration.pushManager.getSubscription() : null;
+  }
+
+  // VAPID public keys are URL-safe base64; the Push API wants the raw bytes
+  private toApplicationServerKey(key: string): Uint8Array<ArrayBuffer> {
+    const base64 = (key + '='.repeat((4 - key.length % 4) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+    return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+  }
+}
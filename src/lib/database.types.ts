@@ -12,25 +12,46 @@ export interface Database {
       team_members: {
         Row: {
           id: string
+          team_id: string
           name: string
           role: string
           avatar: string
+          email: string | null
+          user_id: string | null
+          access_role: string
+          slack_user_id: string | null
+          reminder_channel: string
+          archived_at: string | null
           created_at: string
           updated_at: string
         }
         Insert: {
           id?: string
+          team_id: string
           name: string
           role: string
           avatar?: string
+          email?: string | null
+          user_id?: string | null
+          access_role?: string
+          slack_user_id?: string | null
+          reminder_channel?: string
+          archived_at?: string | null
           created_at?: string
           updated_at?: string
         }
         Update: {
           id?: string
+          team_id?: string
           name?: string
           role?: string
           avatar?: string
+          email?: string | null
+          user_id?: string | null
+          access_role?: string
+          slack_user_id?: string | null
+          reminder_channel?: string
+          archived_at?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -38,36 +59,76 @@ export interface Database {
       standup_entries: {
         Row: {
           id: string
+          team_id: string
           date: string
+          huddle_started_at: string | null
+          huddle_duration_seconds: number | null
+          huddle_facilitated_by: string | null
           created_at: string
           updated_at: string
         }
         Insert: {
           id?: string
+          team_id: string
           date?: string
+          huddle_started_at?: string | null
+          huddle_duration_seconds?: number | null
+          huddle_facilitated_by?: string | null
           created_at?: string
           updated_at?: string
         }
         Update: {
           id?: string
+          team_id?: string
           date?: string
+          huddle_started_at?: string | null
+          huddle_duration_seconds?: number | null
+          huddle_facilitated_by?: string | null
           created_at?: string
           updated_at?: string
         }
       }
+      standup_attendance: {
+        Row: {
+          id: string
+          standup_entry_id: string
+          team_member_id: string
+          present: boolean
+          speaking_seconds: number
+        }
+        Insert: {
+          id?: string
+          standup_entry_id: string
+          team_member_id: string
+          present: boolean
+          speaking_seconds?: number
+        }
+        Update: {
+          id?: string
+          standup_entry_id?: string
+          team_member_id?: string
+          present?: boolean
+          speaking_seconds?: number
+        }
+      }
       standup_updates: {
         Row: {
           id: string
+          team_id: string
           standup_entry_id: string
           team_member_id: string
           yesterday: string
           today: string
           blockers: string
+          revision_count: number
+          posted_late: boolean
+          search_vector: string
           created_at: string
           updated_at: string
         }
         Insert: {
           id?: string
+          team_id: string
           standup_entry_id: string
           team_member_id: string
           yesterday?: string
@@ -78,15 +139,658 @@ export interface Database {
         }
         Update: {
           id?: string
+          team_id?: string
           standup_entry_id?: string
           team_member_id?: string
           yesterday?: string
           today?: string
           blockers?: string
+          revision_count?: number
+          posted_late?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      member_absences: {
+        Row: {
+          id: string
+          team_id: string
+          team_member_id: string
+          kind: 'pto' | 'sick' | 'public_holiday'
+          start_date: string
+          end_date: string
+          note: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          team_id: string
+          team_member_id: string
+          kind: 'pto' | 'sick' | 'public_holiday'
+          start_date: string
+          end_date: string
+          note?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          team_id?: string
+          team_member_id?: string
+          kind?: 'pto' | 'sick' | 'public_holiday'
+          start_date?: string
+          end_date?: string
+          note?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      team_holidays: {
+        Row: {
+          id: string
+          team_id: string
+          date: string
+          name: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          team_id: string
+          date: string
+          name: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          team_id?: string
+          date?: string
+          name?: string
+          created_at?: string
+        }
+      }
+      slack_integrations: {
+        Row: {
+          team_id: string
+          slack_team_id: string
+          channel_id: string
+          prompts_enabled: boolean
+          digest_enabled: boolean
+          weekly_report_enabled: boolean
+          last_prompted_on: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          team_id: string
+          slack_team_id: string
+          channel_id: string
+          prompts_enabled?: boolean
+          digest_enabled?: boolean
+          weekly_report_enabled?: boolean
+          last_prompted_on?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          team_id?: string
+          slack_team_id?: string
+          channel_id?: string
+          prompts_enabled?: boolean
+          digest_enabled?: boolean
+          weekly_report_enabled?: boolean
+          last_prompted_on?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      microsoft_teams_integrations: {
+        Row: {
+          team_id: string
+          webhook_url: string
+          tenant_id: string | null
+          digest_enabled: boolean
+          weekly_report_enabled: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          team_id: string
+          webhook_url: string
+          tenant_id?: string | null
+          digest_enabled?: boolean
+          weekly_report_enabled?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          team_id?: string
+          webhook_url?: string
+          tenant_id?: string | null
+          digest_enabled?: boolean
+          weekly_report_enabled?: boolean
           created_at?: string
           updated_at?: string
         }
       }
+      notification_deliveries: {
+        Row: {
+          id: string
+          team_id: string
+          channel: string
+          kind: 'daily_digest' | 'weekly_report'
+          subject: string
+          status: 'sent' | 'failed'
+          error: string | null
+          attempts: number
+          attempted_at: string
+        }
+        Insert: {
+          id?: string
+          team_id: string
+          channel: string
+          kind: 'daily_digest' | 'weekly_report'
+          subject: string
+          status: 'sent' | 'failed'
+          error?: string | null
+          attempts?: number
+          attempted_at?: string
+        }
+        Update: {
+          id?: string
+          team_id?: string
+          channel?: string
+          kind?: 'daily_digest' | 'weekly_report'
+          subject?: string
+          status?: 'sent' | 'failed'
+          error?: string | null
+          attempts?: number
+          attempted_at?: string
+        }
+      }
+      email_digest_settings: {
+        Row: {
+          team_id: string
+          recipients: string[]
+          weekly_report_enabled: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          team_id: string
+          recipients: string[]
+          weekly_report_enabled?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          team_id?: string
+          recipients?: string[]
+          weekly_report_enabled?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      standup_reminders: {
+        Row: {
+          id: string
+          team_id: string
+          team_member_id: string
+          date: string
+          channel: string
+          status: string
+          error: string | null
+          attempts: number
+          attempted_at: string
+        }
+        Insert: {
+          id?: string
+          team_id: string
+          team_member_id: string
+          date: string
+          channel: string
+          status: string
+          error?: string | null
+          attempts?: number
+          attempted_at?: string
+        }
+        Update: {
+          id?: string
+          team_id?: string
+          team_member_id?: string
+          date?: string
+          channel?: string
+          status?: string
+          error?: string | null
+          attempts?: number
+          attempted_at?: string
+        }
+      }
+      update_comments: {
+        Row: {
+          id: string
+          team_id: string
+          standup_update_id: string
+          parent_id: string | null
+          team_member_id: string
+          body: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          team_id: string
+          standup_update_id: string
+          parent_id?: string | null
+          team_member_id: string
+          body: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          team_id?: string
+          standup_update_id?: string
+          parent_id?: string | null
+          team_member_id?: string
+          body?: string
+          created_at?: string
+        }
+      }
+      update_reactions: {
+        Row: {
+          id: string
+          team_id: string
+          standup_update_id: string
+          team_member_id: string
+          emoji: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          team_id: string
+          standup_update_id: string
+          team_member_id: string
+          emoji: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          team_id?: string
+          standup_update_id?: string
+          team_member_id?: string
+          emoji?: string
+          created_at?: string
+        }
+      }
+      update_mentions: {
+        Row: {
+          id: string
+          team_id: string
+          standup_update_id: string
+          team_member_id: string
+          field: 'yesterday' | 'today' | 'blockers'
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          team_id: string
+          standup_update_id: string
+          team_member_id: string
+          field: 'yesterday' | 'today' | 'blockers'
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          team_id?: string
+          standup_update_id?: string
+          team_member_id?: string
+          field?: 'yesterday' | 'today' | 'blockers'
+          created_at?: string
+        }
+      }
+      standup_update_embeddings: {
+        Row: {
+          standup_update_id: string
+          team_id: string
+          model: string
+          embedding: string | null
+          blockers_embedding: string | null
+          embedded_at: string
+        }
+        Insert: {
+          standup_update_id: string
+          team_id: string
+          model: string
+          embedding?: string | null
+          blockers_embedding?: string | null
+          embedded_at?: string
+        }
+        Update: {
+          standup_update_id?: string
+          team_id?: string
+          model?: string
+          embedding?: string | null
+          blockers_embedding?: string | null
+          embedded_at?: string
+        }
+      }
+      push_subscriptions: {
+        Row: {
+          id: string
+          team_member_id: string
+          endpoint: string
+          p256dh: string
+          auth: string
+          user_agent: string | null
+          created_at: string
+          last_used_at: string | null
+        }
+        Insert: {
+          id?: string
+          team_member_id: string
+          endpoint: string
+          p256dh: string
+          auth: string
+          user_agent?: string | null
+          created_at?: string
+          last_used_at?: string | null
+        }
+        Update: {
+          id?: string
+          team_member_id?: string
+          endpoint?: string
+          p256dh?: string
+          auth?: string
+          user_agent?: string | null
+          created_at?: string
+          last_used_at?: string | null
+        }
+      }
+      blockers: {
+        Row: {
+          id: string
+          team_id: string
+          team_member_id: string
+          description: string
+          unblocker: string | null
+          severity: 'low' | 'medium' | 'high'
+          opened_on: string
+          resolved_on: string | null
+          resolution: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          team_id: string
+          team_member_id: string
+          description: string
+          unblocker?: string | null
+          severity?: 'low' | 'medium' | 'high'
+          opened_on: string
+          resolved_on?: string | null
+          resolution?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          team_id?: string
+          team_member_id?: string
+          description?: string
+          unblocker?: string | null
+          severity?: 'low' | 'medium' | 'high'
+          opened_on?: string
+          resolved_on?: string | null
+          resolution?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      standup_update_blockers: {
+        Row: {
+          standup_update_id: string
+          blocker_id: string
+        }
+        Insert: {
+          standup_update_id: string
+          blocker_id: string
+        }
+        Update: {
+          standup_update_id?: string
+          blocker_id?: string
+        }
+      }
+      blocker_escalations: {
+        Row: {
+          id: string
+          team_id: string
+          blocker_id: string
+          business_days_open: number
+          created_at: string
+          acknowledged_at: string | null
+          acknowledged_by: string | null
+        }
+        Insert: {
+          id?: string
+          team_id: string
+          blocker_id: string
+          business_days_open: number
+          created_at?: string
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+        }
+        Update: {
+          id?: string
+          team_id?: string
+          blocker_id?: string
+          business_days_open?: number
+          created_at?: string
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+        }
+      }
+      standup_update_revisions: {
+        Row: {
+          id: string
+          standup_update_id: string
+          team_id: string
+          revision_number: number
+          yesterday: string
+          today: string
+          blockers: string
+          edited_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          standup_update_id: string
+          team_id: string
+          revision_number: number
+          yesterday?: string
+          today?: string
+          blockers?: string
+          edited_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          standup_update_id?: string
+          team_id?: string
+          revision_number?: number
+          yesterday?: string
+          today?: string
+          blockers?: string
+          edited_by?: string | null
+          created_at?: string
+        }
+      }
+      teams: {
+        Row: {
+          id: string
+          name: string
+          timezone: string
+          standup_time: string
+          backfill_days: number
+          blocker_escalation_days: number
+          reminder_time: string | null
+          huddle_time_box_seconds: number
+          huddle_order: 'random' | 'custom'
+          huddle_member_order: string[]
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          timezone?: string
+          standup_time?: string
+          backfill_days?: number
+          blocker_escalation_days?: number
+          reminder_time?: string | null
+          huddle_time_box_seconds?: number
+          huddle_order?: 'random' | 'custom'
+          huddle_member_order?: string[]
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          timezone?: string
+          standup_time?: string
+          backfill_days?: number
+          blocker_escalation_days?: number
+          reminder_time?: string | null
+          huddle_time_box_seconds?: number
+          huddle_order?: 'random' | 'custom'
+          huddle_member_order?: string[]
+          created_at?: string
+          updated_at?: string
+        }
+      }
+    }
+    Functions: {
+      get_team_role: {
+        Args: { p_team_id: string }
+        Returns: string
+      }
+      link_team_members_to_current_user: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      set_my_reminder_channel: {
+        Args: { p_team_id: string; p_channel: string }
+        Returns: undefined
+      }
+      record_huddle: {
+        Args: {
+          p_team_id: string
+          p_date: string
+          p_started_at: string
+          p_duration_seconds: number
+          p_attendance: Json
+        }
+        Returns: string
+      }
+      get_standup_history_months: {
+        Args: {
+          p_team_id: string
+          p_before: string
+        }
+        Returns: {
+          month: string
+        }[]
+      }
+      search_standup_updates: {
+        Args: {
+          p_team_id: string
+          p_query?: string | null
+          p_member_id?: string | null
+          p_role?: string | null
+          p_start_date?: string | null
+          p_end_date?: string | null
+          p_has_blockers?: boolean
+          p_limit?: number
+        }
+        Returns: {
+          standup_update_id: string
+          standup_date: string
+          rank: number
+          yesterday_headline: string | null
+          today_headline: string | null
+          blockers_headline: string | null
+        }[]
+      }
+      get_standup_update_blockers: {
+        Args: {
+          p_team_id: string
+          p_update_ids: string[]
+        }
+        Returns: {
+          standup_update_id: string
+          blockers: string
+        }[]
+      }
+      get_standup_update_revision_blockers: {
+        Args: {
+          p_team_id: string
+          p_revision_ids: string[]
+        }
+        Returns: {
+          revision_id: string
+          blockers: string
+        }[]
+      }
+      get_weekly_reports: {
+        Args: {
+          p_team_id: string
+          p_limit?: number
+        }
+        Returns: {
+          id: string
+          week_start: string
+          week_end: string
+          total_updates: number
+          unique_members: number
+          report_data: Json | null
+          generated_at: string
+          status: 'pending' | 'generated' | 'failed'
+          error: string | null
+          created_at: string
+          updated_at: string
+        }[]
+      }
+      match_standup_updates: {
+        Args: {
+          p_team_id: string
+          p_embedding: string
+          p_model: string
+          p_member_id?: string | null
+          p_start_date?: string | null
+          p_end_date?: string | null
+          p_min_similarity?: number
+          p_limit?: number
+        }
+        Returns: {
+          standup_update_id: string
+          standup_date: string
+          similarity: number
+        }[]
+      }
+      save_standup_update: {
+        Args: {
+          p_team_id: string
+          p_team_member_id: string
+          p_date: string | null
+          p_yesterday: string
+          p_today: string
+          p_blockers?: Json
+        }
+        Returns: string
+      }
     }
   }
-}
\ No newline at end of file
+}
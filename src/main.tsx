@@ -3,7 +3,12 @@ import { createRoot } from 'react-dom/client';
 import App from './presentation/App.tsx';
 import './index.css';
 
-
+// The service worker caches the app shell and receives push notifications; dev builds skip it so HMR isn't cached
+if ('serviceWorker' in navigator && import.meta.env.PROD) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(err => console.error('Failed to register service worker:', err));
+  });
+}
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -3,6 +3,9 @@ import StandupDashboard from '@/presentation/components/StandupDashboard/Standup
 import { useColorScheme } from '@/hooks/useColorScheme';
 import { ToastContainer } from '@/components/Toast';
 import { useToast, ToastProvider } from '@/presentation/hooks/useToast';
+import { TeamsProvider } from '@/presentation/hooks/useTeams';
+import { AuthProvider } from '@/presentation/hooks/useAuth';
+import { CurrentMemberProvider } from '@/presentation/hooks/useCurrentMember';
 import { ApiKeyStatusChecker } from '@/components/ApiKeyStatusChecker';
 
 /**
@@ -24,6 +27,7 @@ function AppContent() {
         <Route path="/" element={<StandupDashboard />} />
         <Route path="/weekly-reports" element={<StandupDashboard initialTab="weekly" />} />
         <Route path="/weekly-reports/:reportId" element={<StandupDashboard initialTab="weekly" />} />
+        <Route path="/team" element={<StandupDashboard initialTab="team" />} />
         <Route path="*" element={<Navigate to="/" replace />} />
       </Routes>
       
@@ -42,7 +46,13 @@ function AppContent() {
 function App() {
   return (
     <ToastProvider>
-      <AppContent />
+      <AuthProvider>
+        <TeamsProvider>
+          <CurrentMemberProvider>
+            <AppContent />
+          </CurrentMemberProvider>
+        </TeamsProvider>
+      </AuthProvider>
     </ToastProvider>
   );
 }
@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { motion } from 'motion/react';
+import { Mail, MessageSquare, Loader2 } from 'lucide-react';
+
+import { LightRaysContainer } from '@/components/bits/light-ray';
+
+interface SignInProps {
+  onSendMagicLink: (email: string) => Promise<void>;
+}
+
+/**
+ * SignIn Component
+ * Emails a one-time sign-in link; the link returns the user to the app signed in
+ * Only existing accounts get a link, since accounts are created by roster invites
+ */
+export function SignIn({ onSendMagicLink }: SignInProps) {
+  const [email, setEmail] = useState('');
+  const [sending, setSending] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSending(true);
+      setError(null);
+      await onSendMagicLink(email);
+      setSentTo(email.trim());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send sign-in link');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen relative overflow-hidden flex items-center justify-center bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100 dark:from-slate-900 dark:via-slate-800 dark:to-slate-900">
+      <LightRaysContainer />
+
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="relative z-10 bg-white/80 dark:bg-gray-900/80 backdrop-blur-sm rounded-3xl shadow-xl border border-white/20 dark:border-gray-700/20 p-8 w-full max-w-md mx-4"
+      >
+        <div className="flex items-center gap-4 mb-8">
+          <div className="w-12 h-12 bg-gradient-to-br from-blue-500 via-purple-500 to-pink-500 rounded-xl flex items-center justify-center shadow-lg">
+            <MessageSquare className="text-white" size={24} />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+              Huddle
+            </h1>
+            <p className="text-sm text-gray-600 dark:text-gray-400">Sign in to post your standup</p>
+          </div>
+        </div>
+
+        {sentTo ? (
+          <div className="text-center">
+            <Mail className="mx-auto h-10 w-10 mb-4 text-blue-600 dark:text-blue-400" />
+            <p className="text-gray-900 dark:text-white font-medium mb-2">Check your inbox</p>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+              We sent a sign-in link to {sentTo}. Open it on this device to continue.
+            </p>
+            <button
+              onClick={() => setSentTo(null)}
+              className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              Use a different email
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label htmlFor="signInEmail" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Work email
+              </label>
+              <input
+                id="signInEmail"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="you@company.com"
+                autoFocus
+                required
+                disabled={sending}
+              />
+            </div>
+
+            {error && (
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            )}
+
+            <button
+              type="submit"
+              disabled={sending || !email.trim()}
+              className="w-full flex items-center justify-center gap-2 px-4 py-3 text-sm font-semibold text-white bg-gradient-to-r from-blue-500 to-purple-500 rounded-xl hover:from-blue-600 hover:to-purple-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-lg"
+            >
+              {sending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Mail className="w-4 h-4" />}
+              <span>{sending ? 'Sending...' : 'Email me a sign-in link'}</span>
+            </button>
+
+            <p className="text-xs text-gray-500 dark:text-gray-400 text-center">
+              Only people on a team's roster can sign in. Use the email your team added for you.
+            </p>
+          </form>
+        )}
+      </motion.div>
+    </div>
+  );
+}
@@ -1,19 +1,23 @@
 import React, { useCallback } from 'react';
-import { X, Save, Loader2, Sparkles, Zap, Target, AlertTriangle } from 'lucide-react';
+import { X, Save, Loader2, Sparkles, Zap, Target, AlertTriangle, CalendarClock, HardDrive } from 'lucide-react';
 import { TeamMember } from '@/domain/entities/TeamMember';
+import { Mentionable } from '@/domain/entities/UpdateMention';
 import RichTextEditor from '@/components/RichTextEditor';
 import { AIPreviewPanel } from '@/components/AIPreviewPanel';
 import { motion, AnimatePresence } from 'motion/react';
 import ParticleButton from '@/components/kokonutui/particle-button';
 import { useStandupForm } from '@/presentation/hooks/useStandupForm';
+import { BlockerEditor } from './BlockerEditor';
 
 interface AddUpdateModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (member: TeamMember) => Promise<void>;
+  onSave: (member: TeamMember, date: string) => Promise<void>;
   member?: TeamMember;
+  date?: string;
   saving?: boolean;
   previousEntries?: TeamMember[];
+  onTypingChange?: (typing: boolean) => void;
 }
 
 // Rich text editor component wrapper - moved outside to prevent recreation
@@ -21,12 +25,14 @@ const RichTextArea = React.memo(({
   value, 
   onChange, 
   placeholder, 
-  minHeight = '200px'
+  minHeight = '200px',
+  mentionables
 }: {
   value: string;
   onChange: (value: string) => void;
   placeholder: string;
   minHeight?: string;
+  mentionables?: Mentionable[];
 }) => {
   return (
     <RichTextEditor
@@ -34,6 +40,7 @@ const RichTextArea = React.memo(({
       onChange={onChange}
       placeholder={placeholder}
       minHeight={minHeight}
+      mentionables={mentionables}
     />
   );
 });
@@ -48,17 +55,23 @@ export function AddUpdateModal({
   onClose, 
   onSave, 
   member, 
+  date,
   saving = false, 
-  previousEntries = [] 
+  previousEntries = [],
+  onTypingChange
 }: AddUpdateModalProps) {
   
   // Use custom hook for all form logic
   const {
     formData,
-    handleNameChange,
     handleYesterdayChange,
     handleTodayChange,
-    handleBlockersChange,
+    blockerItems,
+    handleAddBlocker,
+    handleResolveBlocker,
+    handleReopenBlocker,
+    handleRemoveBlocker,
+    mentionables,
     aiPreviewOpen,
     setAiPreviewOpen,
     aiGeneratedContent,
@@ -67,12 +80,23 @@ export function AddUpdateModal({
     handleGenerateFullReport,
     handleAcceptAIContent,
     handleAcceptAllAI,
-    availableTeamMembers,
+    currentMember,
+    currentMemberLoading,
+    canPostUpdates,
     getPreviousBusinessDayLabel,
+    previousBusinessDayName,
     getTodayPlanLabel,
     createTeamMember,
-    validateForm
-  } = useStandupForm(member, previousEntries);
+    validateForm,
+    targetDate,
+    setTargetDate,
+    earliestDate,
+    today,
+    isLate,
+    restoredDraft,
+    restoredDraftIsStale,
+    discardRestoredDraft
+  } = useStandupForm(member, previousEntries, isOpen, date, onTypingChange);
 
   const handleSubmit = useCallback(async (e: React.FormEvent) => {
     e.preventDefault();
@@ -86,12 +110,13 @@ export function AddUpdateModal({
 
     try {
       const teamMember = createTeamMember();
-      await onSave(teamMember);
+      await onSave(teamMember, targetDate);
       onClose();
     } catch (error) {
       console.error('Failed to save member:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save update');
     }
-  }, [validateForm, createTeamMember, onSave, onClose]);
+  }, [validateForm, createTeamMember, onSave, onClose, targetDate]);
 
   const handleClose = useCallback(() => {
     onClose();
@@ -137,6 +162,37 @@ export function AddUpdateModal({
           </div>
 
         <form onSubmit={handleSubmit} className="p-8 space-y-8">
+          {!currentMemberLoading && !currentMember && (
+            <div className="p-4 bg-orange-50 dark:bg-orange-900/20 border border-orange-200 dark:border-orange-700/50 rounded-xl text-sm text-orange-700 dark:text-orange-400">
+              Your account isn't linked to anyone on this team's roster. Ask a teammate to add your email on the Team tab, then reload the page.
+            </div>
+          )}
+          {currentMember && !canPostUpdates && (
+            <div className="p-4 bg-orange-50 dark:bg-orange-900/20 border border-orange-200 dark:border-orange-700/50 rounded-xl text-sm text-orange-700 dark:text-orange-400">
+              You have view-only access to this team. Ask a team admin to change your role if you need to post updates.
+            </div>
+          )}
+
+          {restoredDraft && (
+            <div className="flex flex-col md:flex-row md:items-center gap-3 p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-700/50 rounded-xl text-sm text-blue-700 dark:text-blue-300">
+              <HardDrive size={16} className="flex-shrink-0" />
+              <span className="flex-1">
+                {restoredDraft.isPending()
+                  ? `This update was saved on this device at ${new Date(restoredDraft.savedAt).toLocaleString()} and hasn't been posted yet.`
+                  : `Restored the draft you were writing at ${new Date(restoredDraft.savedAt).toLocaleString()}.`}
+                {restoredDraftIsStale && ' The posted update has changed since then; saving replaces those changes.'}
+              </span>
+              <button
+                type="button"
+                onClick={discardRestoredDraft}
+                disabled={saving}
+                className="px-3 py-1.5 text-xs font-medium text-blue-700 dark:text-blue-300 bg-white/80 dark:bg-gray-800/80 border border-blue-200 dark:border-blue-700/50 rounded-lg hover:bg-blue-100 dark:hover:bg-blue-900/40 disabled:opacity-50 transition-colors"
+              >
+                Discard draft
+              </button>
+            </div>
+          )}
+
           <motion.div 
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
@@ -147,19 +203,13 @@ export function AddUpdateModal({
               <label className="block text-sm font-semibold text-gray-800 dark:text-gray-200 mb-3">
                 Team Member
               </label>
-              <select
+              <input
+                type="text"
                 value={formData.name}
-                onChange={(e) => handleNameChange(e.target.value)}
-                className="w-full px-4 py-3 bg-white/60 dark:bg-gray-800/60 backdrop-blur-sm border border-white/30 dark:border-gray-700/30 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 text-gray-900 dark:text-white shadow-sm hover:shadow-md"
-                required
-              >
-                <option value="">Select your name...</option>
-                {availableTeamMembers.map((member) => (
-                  <option key={member.id} value={member.name}>
-                    {member.name}
-                  </option>
-                ))}
-              </select>
+                className="w-full px-4 py-3 bg-white/40 dark:bg-gray-800/40 backdrop-blur-sm border border-white/30 dark:border-gray-700/30 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 text-gray-900 dark:text-white shadow-sm"
+                readOnly
+                placeholder={currentMemberLoading ? 'Loading...' : 'Not on this team\'s roster'}
+              />
             </div>
             <div>
               <label className="block text-sm font-semibold text-gray-800 dark:text-gray-200 mb-3">
@@ -172,11 +222,34 @@ export function AddUpdateModal({
                 className="w-full px-4 py-3 bg-white/40 dark:bg-gray-800/40 backdrop-blur-sm border border-white/30 dark:border-gray-700/30 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 text-gray-900 dark:text-white shadow-sm"
                 required
                 readOnly
-                placeholder="Auto-filled when name is selected"
+                placeholder="From the team roster"
               />
             </div>
           </motion.div>
 
+          {/* Standup date; existing updates stay on their date, new ones can be backfilled */}
+          <div className="flex flex-col md:flex-row md:items-center gap-3">
+            <label htmlFor="standupDate" className="flex items-center gap-2 text-sm font-semibold text-gray-800 dark:text-gray-200">
+              <CalendarClock size={16} className="text-blue-600 dark:text-blue-400" />
+              Standup date
+            </label>
+            <input
+              id="standupDate"
+              type="date"
+              value={targetDate}
+              min={earliestDate}
+              max={today}
+              onChange={(e) => setTargetDate(e.target.value)}
+              disabled={!!member}
+              className="px-4 py-2 bg-white/40 dark:bg-gray-800/40 backdrop-blur-sm border border-white/30 dark:border-gray-700/30 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 text-gray-900 dark:text-white shadow-sm disabled:opacity-60"
+            />
+            {isLate && (
+              <span className="text-xs font-medium px-2 py-1 rounded-full bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400">
+                {member ? 'Editing a past update' : 'Will be marked as posted late'}
+              </span>
+            )}
+          </div>
+
           <motion.div 
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
@@ -207,8 +280,9 @@ export function AddUpdateModal({
             <RichTextArea
               value={formData.yesterday}
               onChange={handleYesterdayChange}
-              placeholder={`Describe your accomplishments from ${getPreviousBusinessDayLabel.includes('Friday') ? 'Friday' : 'yesterday'}...`}
+              placeholder={`Describe your accomplishments from ${previousBusinessDayName}... Type @ to mention a teammate`}
               minHeight="400px"
+              mentionables={mentionables}
             />
           </motion.div>
 
@@ -229,8 +303,9 @@ export function AddUpdateModal({
             <RichTextArea
               value={formData.today}
               onChange={handleTodayChange}
-              placeholder="Describe your plans for today..."
+              placeholder="Describe your plans for today... Type @ to mention a teammate"
               minHeight="400px"
+              mentionables={mentionables}
             />
           </motion.div>
 
@@ -248,11 +323,15 @@ export function AddUpdateModal({
                 Any blockers or challenges?
               </label>
             </div>
-            <RichTextArea
-              value={formData.blockers}
-              onChange={handleBlockersChange}
-              placeholder="Any obstacles or challenges you're facing..."
-              minHeight="400px"
+            <BlockerEditor
+              blockers={blockerItems}
+              date={targetDate}
+              disabled={saving}
+              onAdd={handleAddBlocker}
+              onResolve={handleResolveBlocker}
+              onReopen={handleReopenBlocker}
+              onRemove={handleRemoveBlocker}
+              teammates={mentionables}
             />
           </motion.div>
 
@@ -311,7 +390,7 @@ export function AddUpdateModal({
             <ParticleButton
               type="submit"
               className="flex-1 px-6 py-4 bg-gradient-to-r from-blue-500 to-purple-500 text-white rounded-xl hover:from-blue-600 hover:to-purple-600 transition-all duration-200 flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed font-semibold shadow-lg hover:shadow-xl"
-              disabled={saving}
+              disabled={saving || !currentMember || !canPostUpdates}
             >
               {saving ? (
                 <>
@@ -0,0 +1,194 @@
+import { useState } from 'react';
+import { Plus, Trash2, CheckCircle2, RotateCcw } from 'lucide-react';
+import { Blocker, BlockerSeverity } from '@/domain/entities/Blocker';
+import { Mentionable } from '@/domain/entities/UpdateMention';
+
+interface BlockerEditorProps {
+  blockers: Blocker[];
+  date: string;
+  disabled?: boolean;
+  onAdd: (details: { description: string; unblocker: string; severity: BlockerSeverity }) => void;
+  onResolve: (index: number, resolution: string) => void;
+  onReopen: (index: number) => void;
+  onRemove: (index: number) => void;
+  teammates?: Mentionable[];
+}
+
+const severityStyles: Record<BlockerSeverity, string> = {
+  low: 'bg-gray-100 dark:bg-gray-700/50 text-gray-700 dark:text-gray-300',
+  medium: 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400',
+  high: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400'
+};
+
+/**
+ * BlockerEditor Component
+ * Lists the blockers on an update and adds new ones
+ * Blockers carried over from earlier days are resolved rather than deleted
+ * Naming a teammate as the unblocker, or @mentioning one, records that the member is waiting on them
+ */
+export function BlockerEditor({ blockers, date, disabled = false, onAdd, onResolve, onReopen, onRemove, teammates = [] }: BlockerEditorProps) {
+  const [description, setDescription] = useState('');
+  const [unblocker, setUnblocker] = useState('');
+  const [severity, setSeverity] = useState<BlockerSeverity>('medium');
+  const [resolvingIndex, setResolvingIndex] = useState<number | null>(null);
+  const [resolution, setResolution] = useState('');
+
+  const handleAdd = () => {
+    if (!description.trim()) return;
+    onAdd({ description: description.trim(), unblocker: unblocker.trim(), severity });
+    setDescription('');
+    setUnblocker('');
+    setSeverity('medium');
+  };
+
+  const handleResolve = (index: number) => {
+    onResolve(index, resolution);
+    setResolvingIndex(null);
+    setResolution('');
+  };
+
+  const inputClassName = 'w-full px-3 py-2 bg-white/60 dark:bg-gray-800/60 border border-white/30 dark:border-gray-700/30 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent text-sm text-gray-900 dark:text-white';
+
+  return (
+    <div className="space-y-4">
+      {blockers.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No open blockers.</p>
+      ) : (
+        <ul className="space-y-3">
+          {blockers.map((blocker, index) => {
+            const resolvedHere = blocker.resolvedOn === date;
+            const age = blocker.getAgeInDays(date);
+
+            return (
+              <li
+                key={blocker.id || `new-${index}`}
+                className={`p-3 rounded-xl border border-white/30 dark:border-gray-700/30 bg-white/60 dark:bg-gray-800/60 ${resolvedHere ? 'opacity-70' : ''}`}
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap items-center gap-2 mb-1">
+                      <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${severityStyles[blocker.severity]}`}>
+                        {blocker.getSeverityLabel()}
+                      </span>
+                      <span className="text-xs text-gray-500 dark:text-gray-400">
+                        {blocker.isNew() ? 'New' : `Open ${age} ${age === 1 ? 'day' : 'days'}, since ${blocker.openedOn}`}
+                      </span>
+                      {resolvedHere && (
+                        <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400">
+                          Resolved
+                        </span>
+                      )}
+                    </div>
+                    <p className={`text-sm text-gray-900 dark:text-white ${resolvedHere ? 'line-through' : ''}`}>{blocker.description}</p>
+                    {blocker.unblocker && (
+                      <p className="text-xs text-gray-600 dark:text-gray-400">Waiting on {blocker.unblocker}</p>
+                    )}
+                    {resolvedHere && blocker.resolution && (
+                      <p className="text-xs text-emerald-700 dark:text-emerald-400">{blocker.resolution}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    {blocker.isNew() ? (
+                      <button
+                        type="button"
+                        onClick={() => onRemove(index)}
+                        disabled={disabled}
+                        className="p-2 text-gray-400 hover:text-red-600 dark:hover:text-red-400 rounded-lg transition-colors disabled:opacity-50"
+                        title="Remove blocker"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    ) : resolvedHere ? (
+                      <button
+                        type="button"
+                        onClick={() => onReopen(index)}
+                        disabled={disabled}
+                        className="p-2 text-gray-400 hover:text-orange-600 dark:hover:text-orange-400 rounded-lg transition-colors disabled:opacity-50"
+                        title="Keep blocker open"
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                      </button>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => setResolvingIndex(resolvingIndex === index ? null : index)}
+                        disabled={disabled}
+                        className="p-2 text-gray-400 hover:text-emerald-600 dark:hover:text-emerald-400 rounded-lg transition-colors disabled:opacity-50"
+                        title="Resolve blocker"
+                      >
+                        <CheckCircle2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+                {resolvingIndex === index && (
+                  <div className="flex gap-2 mt-3">
+                    <input
+                      type="text"
+                      value={resolution}
+                      onChange={(e) => setResolution(e.target.value)}
+                      placeholder="How was it resolved? (optional)"
+                      className={inputClassName}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => handleResolve(index)}
+                      className="px-3 py-2 text-sm font-medium text-white bg-emerald-600 rounded-lg hover:bg-emerald-700 transition-colors"
+                    >
+                      Resolve
+                    </button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-3">
+        <input
+          type="text"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="What's blocking you? @mention a teammate you're waiting on"
+          className={inputClassName}
+          disabled={disabled}
+        />
+        <select
+          value={severity}
+          onChange={(e) => setSeverity(e.target.value as BlockerSeverity)}
+          className={inputClassName}
+          disabled={disabled}
+          aria-label="Severity"
+        >
+          {Blocker.SEVERITIES.map(option => (
+            <option key={option} value={option}>{Blocker.getSeverityLabel(option)}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={unblocker}
+          onChange={(e) => setUnblocker(e.target.value)}
+          placeholder="Who can unblock it? (optional)"
+          className={inputClassName}
+          disabled={disabled}
+          list="blocker-unblocker-teammates"
+        />
+        <datalist id="blocker-unblocker-teammates">
+          {teammates.map(teammate => (
+            <option key={teammate.id} value={teammate.name} />
+          ))}
+        </datalist>
+        <button
+          type="button"
+          onClick={handleAdd}
+          disabled={disabled || !description.trim()}
+          className="flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-white bg-orange-500 rounded-lg hover:bg-orange-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Add Blocker
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -6,7 +6,7 @@ import GradientButton from '@/components/kokonutui/gradient-button';
 interface HeaderProps {
   today: string;
   teamMembersCount: number;
-  yesterdayCount: number;
+  yesterdayCount: string;
   teamEngagement: string;
   onAddMember: () => void;
   saving: boolean;
@@ -0,0 +1,76 @@
+import { Sparkles, Loader2 } from 'lucide-react';
+
+import { TeamMember } from '@/domain/entities/TeamMember';
+import { HistoryAnswer } from '@/domain/value-objects/HistoryAnswer';
+import { HistorySearchResults } from './HistorySearchResults';
+
+interface HistoryAnswerPanelProps {
+  answer: HistoryAnswer | null;
+  finding: boolean;
+  answering: boolean;
+  error: string | null;
+  formatDate: (dateString: string) => string;
+  canEdit: (member: TeamMember, date: string) => boolean;
+  onEditMember?: (member: TeamMember, date: string) => void;
+}
+
+/**
+ * The answer to a question about standup history, above the updates it was drawn from
+ * Each citation in the answer jumps to the numbered update it cites
+ */
+export function HistoryAnswerPanel({ answer, finding, answering, error, formatDate, canEdit, onEditMember }: HistoryAnswerPanelProps) {
+  const showSource = (citation: number) => {
+    document.getElementById(`history-source-${citation}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  return (
+    <div className="space-y-4">
+      {answer?.question.dateRange && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Looking at {formatDate(answer.question.dateRange.startDate)}
+          {answer.question.dateRange.endDate !== answer.question.dateRange.startDate && ` to ${formatDate(answer.question.dateRange.endDate)}`}
+        </p>
+      )}
+
+      {(answering || answer?.hasAnswer()) && (
+        <div className="bg-blue-50/80 dark:bg-blue-900/20 rounded-lg p-4 border border-blue-200/50 dark:border-blue-700/50">
+          <div className="flex items-center gap-2 mb-2">
+            <Sparkles size={14} className="text-blue-600 dark:text-blue-400" />
+            <span className="text-sm font-medium text-gray-900 dark:text-white">Answer</span>
+          </div>
+          {answering ? (
+            <p className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+              <Loader2 size={14} className="animate-spin" />
+              Writing an answer from these updates...
+            </p>
+          ) : (
+            <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-line">
+              {answer!.getSegments().map((segment, index) => segment.citation !== null ? (
+                <button
+                  key={index}
+                  onClick={() => showSource(segment.citation!)}
+                  title="Show this update"
+                  className="mx-0.5 px-1.5 rounded bg-blue-100 dark:bg-blue-900/40 text-xs font-semibold text-blue-700 dark:text-blue-300 hover:bg-blue-200 dark:hover:bg-blue-800/60 transition-colors align-baseline"
+                >
+                  {segment.citation}
+                </button>
+              ) : (
+                <span key={index}>{segment.text}</span>
+              ))}
+            </p>
+          )}
+        </div>
+      )}
+
+      <HistorySearchResults
+        results={answer?.sources ?? []}
+        searching={finding}
+        error={error}
+        formatDate={formatDate}
+        canEdit={canEdit}
+        onEditMember={onEditMember}
+        numbered
+      />
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { Calendar, CheckCircle, AlertTriangle, Edit, Search } from 'lucide-react';
+
+import { TeamMember } from '@/domain/entities/TeamMember';
+import { SearchField, UpdateSearchResult } from '@/domain/entities/UpdateSearchResult';
+
+interface HistorySearchResultsProps {
+  results: UpdateSearchResult[];
+  searching: boolean;
+  error: string | null;
+  formatDate: (dateString: string) => string;
+  canEdit: (member: TeamMember, date: string) => boolean;
+  onEditMember?: (member: TeamMember, date: string) => void;
+  // Number each result as a source an answer can cite, with its similarity
+  numbered?: boolean;
+}
+
+const FIELDS: { field: SearchField; label: string; icon: typeof CheckCircle; iconClassName: string; empty: string }[] = [
+  { field: 'yesterday', label: 'Previous day:', icon: CheckCircle, iconClassName: 'text-green-500 dark:text-green-400', empty: 'No updates' },
+  { field: 'today', label: 'Today:', icon: CheckCircle, iconClassName: 'text-blue-500 dark:text-blue-400', empty: 'No plans' },
+  { field: 'blockers', label: 'Blockers:', icon: AlertTriangle, iconClassName: 'text-orange-500 dark:text-orange-400', empty: 'No blockers' }
+];
+
+/**
+ * Standup updates found by a history search, best matches first
+ * Text searches show a snippet of each field with the matches highlighted; searches by filters
+ * alone show the updates in full, as do updates found by meaning
+ */
+export function HistorySearchResults({ results, searching, error, formatDate, canEdit, onEditMember, numbered = false }: HistorySearchResultsProps) {
+  if (error) {
+    return (
+      <div className="text-center text-red-500 dark:text-red-400 py-12">
+        <Search size={48} className="text-red-300 dark:text-red-600 mx-auto mb-4" />
+        <p>Error: {error}</p>
+      </div>
+    );
+  }
+
+  if (results.length === 0) {
+    return (
+      <div className="text-center text-gray-500 dark:text-gray-400 py-12">
+        <Search size={48} className="text-gray-300 dark:text-gray-600 mx-auto mb-4" />
+        <p>{searching ? 'Searching...' : 'No updates match your search'}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`space-y-4 transition-opacity ${searching ? 'opacity-60' : ''}`}>
+      {results.map((result, index) => {
+        const { member } = result;
+
+        return (
+          <div
+            key={member.updateId ?? `${member.id}-${result.date}`}
+            id={numbered ? `history-source-${index + 1}` : undefined}
+            className="bg-white/60 dark:bg-gray-700/60 backdrop-blur-sm rounded-lg p-4 border border-white/40 dark:border-gray-600/40 scroll-mt-4"
+          >
+            <div className="flex items-center gap-3 mb-3">
+              {numbered && (
+                <span
+                  title={`${Math.round(result.rank * 100)}% similar`}
+                  className="text-xs font-semibold px-2 py-1 rounded-full bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300"
+                >
+                  {index + 1}
+                </span>
+              )}
+              <div className="w-8 h-8 bg-gradient-to-br from-blue-500 to-teal-500 rounded-full flex items-center justify-center text-white font-semibold text-sm">
+                {member.name.charAt(0).toUpperCase()}
+              </div>
+              <div className="flex-1">
+                <h4 className="font-medium text-gray-900 dark:text-white">{member.name}</h4>
+                <p className="text-xs text-gray-600 dark:text-gray-400">{member.role}</p>
+              </div>
+              <span className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400">
+                <Calendar size={12} />
+                {formatDate(result.date)}
+              </span>
+              {canEdit(member, result.date) && (
+                <button
+                  onClick={() => onEditMember!(member, result.date)}
+                  title="Edit this update"
+                  className="p-2 text-gray-500 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+                >
+                  <Edit size={14} />
+                </button>
+              )}
+            </div>
+
+            <div className="space-y-3 text-sm">
+              {FIELDS.map(({ field, label, icon: Icon, iconClassName, empty }) => {
+                const headline = result.headlines[field];
+
+                // Snippets without a match are left out, unless nothing in the update matched on text
+                if (headline !== undefined && result.hasMatches() && !result.hasMatchIn(field)) return null;
+
+                return (
+                  <div key={field}>
+                    <div className="flex items-center gap-2 mb-2">
+                      <Icon size={14} className={iconClassName} />
+                      <span className="font-medium text-gray-700 dark:text-gray-300">{label}</span>
+                    </div>
+                    {headline !== undefined ? (
+                      <p className="text-gray-600 dark:text-gray-400 pl-6">
+                        {result.getHighlights(field).map((segment, segmentIndex) => segment.match ? (
+                          <mark key={segmentIndex} className="bg-yellow-200 dark:bg-yellow-500/40 text-gray-900 dark:text-white rounded px-0.5">
+                            {segment.text}
+                          </mark>
+                        ) : (
+                          <span key={segmentIndex}>{segment.text}</span>
+                        ))}
+                        {headline === '' && empty}
+                      </p>
+                    ) : (
+                      <div
+                        className="text-gray-600 dark:text-gray-400 pl-6 prose prose-sm max-w-none dark:prose-invert"
+                        dangerouslySetInnerHTML={{ __html: member[field] || empty }}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,399 @@
+import { X, Timer, Shuffle, ListOrdered, ChevronUp, ChevronDown, ChevronLeft, ChevronRight, UserX, AlertTriangle, Loader2, Save, RotateCcw, Play, Flag } from 'lucide-react';
+import { motion } from 'motion/react';
+
+import { TeamMember } from '@/domain/entities/TeamMember';
+import { Huddle } from '@/domain/entities/Huddle';
+import { useHuddle } from '@/presentation/hooks/useHuddle';
+import { TeamMemberCard } from './TeamMemberCard';
+
+interface HuddleModeProps {
+  teamMembers: TeamMember[];
+  canManageSettings: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Huddle mode
+ * Full-screen view for running the standup on a shared screen: walks through members one at a time
+ * with a per-person timer, then saves the meeting's length and attendance with today's standup entry
+ */
+export function HuddleMode({ teamMembers, canManageSettings, onClose }: HuddleModeProps) {
+  const huddle = useHuddle();
+
+  const handleClose = () => {
+    if (huddle.phase === 'running' && !window.confirm('End the huddle without saving it?')) return;
+    onClose();
+  };
+
+  const handleSave = async () => {
+    if (await huddle.save()) onClose();
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="fixed inset-0 z-50 overflow-y-auto bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100 dark:from-slate-900 dark:via-slate-800 dark:to-slate-900"
+    >
+      <div className="max-w-6xl mx-auto p-6 lg:p-10">
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 bg-gradient-to-br from-blue-500 via-purple-500 to-teal-500 rounded-2xl flex items-center justify-center shadow-lg">
+              <Timer className="text-white" size={24} />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold bg-gradient-to-r from-gray-900 to-gray-600 dark:from-white dark:to-gray-300 bg-clip-text text-transparent">
+                Huddle
+              </h2>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {huddle.phase === 'setup'
+                  ? 'Choose the order and who is here'
+                  : `${Huddle.formatDuration(huddle.elapsedSeconds)} elapsed`}
+              </p>
+            </div>
+          </div>
+          <motion.button
+            whileHover={{ scale: 1.1, rotate: 90 }}
+            whileTap={{ scale: 0.9 }}
+            onClick={handleClose}
+            aria-label="Close huddle"
+            className="p-3 bg-white/60 dark:bg-gray-800/60 hover:bg-white/80 dark:hover:bg-gray-800/80 rounded-xl transition-all duration-200 border border-white/20 dark:border-gray-700/20 shadow-sm"
+          >
+            <X size={20} className="text-gray-600 dark:text-gray-400" />
+          </motion.button>
+        </div>
+
+        {huddle.loading ? (
+          <div className="flex items-center justify-center py-24">
+            <Loader2 className="w-8 h-8 animate-spin text-blue-600 dark:text-blue-400" />
+          </div>
+        ) : huddle.phase === 'setup' ? (
+          <HuddleSetup huddle={huddle} canManageSettings={canManageSettings} />
+        ) : huddle.phase === 'running' ? (
+          <HuddleTurn huddle={huddle} teamMembers={teamMembers} />
+        ) : (
+          <HuddleSummary huddle={huddle} onSave={handleSave} />
+        )}
+      </div>
+    </motion.div>
+  );
+}
+
+type HuddleState = ReturnType<typeof useHuddle>;
+
+const cardClassName = 'bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm rounded-2xl border border-gray-200/60 dark:border-slate-700/60 p-6 shadow-lg';
+
+// Speaking order, time box and attendance, before the huddle starts
+function HuddleSetup({ huddle, canManageSettings }: { huddle: HuddleState; canManageSettings: boolean }) {
+  const timeBoxValid = Huddle.isValidTimeBox(huddle.timeBoxSeconds);
+
+  return (
+    <div className="space-y-6">
+      {huddle.previousHuddle && (
+        <div className="p-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-700/50 rounded-xl text-sm text-amber-800 dark:text-amber-300">
+          A huddle was already recorded today ({huddle.previousHuddle.getPresentCount()} present, {Huddle.formatDuration(huddle.previousHuddle.durationSeconds)} long). Saving another replaces it.
+        </div>
+      )}
+
+      <div className={cardClassName}>
+        <div className="flex flex-wrap items-end gap-6">
+          <div>
+            <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Speaking order</p>
+            <div className="flex gap-2">
+              <button
+                onClick={() => huddle.changeOrder('random')}
+                className={`flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium transition-all duration-200 ${
+                  huddle.order === 'random'
+                    ? 'bg-blue-600 text-white shadow-lg'
+                    : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+                }`}
+              >
+                <Shuffle size={16} />
+                {huddle.order === 'random' ? 'Shuffle again' : 'Random'}
+              </button>
+              <button
+                onClick={() => huddle.changeOrder('custom')}
+                className={`flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium transition-all duration-200 ${
+                  huddle.order === 'custom'
+                    ? 'bg-blue-600 text-white shadow-lg'
+                    : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+                }`}
+              >
+                <ListOrdered size={16} />
+                Team order
+              </button>
+            </div>
+          </div>
+
+          <label className="block">
+            <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Time box per person (seconds)</span>
+            <input
+              type="number"
+              min={Huddle.MIN_TIME_BOX_SECONDS}
+              max={Huddle.MAX_TIME_BOX_SECONDS}
+              step={15}
+              value={huddle.timeBoxSeconds}
+              onChange={e => huddle.setTimeBoxSeconds(Number(e.target.value))}
+              className="mt-2 block w-32 px-3 py-2 rounded-xl border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+            />
+          </label>
+
+          {canManageSettings && (
+            <button
+              onClick={huddle.saveAsTeamSettings}
+              disabled={huddle.saving || !timeBoxValid}
+              className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50 transition-all duration-200"
+            >
+              <Save size={16} />
+              Save as team default
+            </button>
+          )}
+        </div>
+
+        {!timeBoxValid && (
+          <p className="mt-3 text-sm text-red-600 dark:text-red-400">
+            Time box must be between {Huddle.MIN_TIME_BOX_SECONDS} and {Huddle.MAX_TIME_BOX_SECONDS} seconds
+          </p>
+        )}
+      </div>
+
+      <div className={cardClassName}>
+        <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-4">
+          {huddle.speakers.length} of {huddle.members.length} here
+        </p>
+
+        {huddle.members.length === 0 ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400">No one on the roster posts standups yet.</p>
+        ) : (
+          <ol className="space-y-2">
+            {huddle.speakingOrder.map((member, index) => {
+              const present = huddle.presentIds.has(member.id);
+              return (
+                <li
+                  key={member.id}
+                  className="flex items-center gap-3 px-4 py-3 rounded-xl bg-gray-50 dark:bg-slate-800/60"
+                >
+                  <span className="w-6 text-sm text-gray-500 dark:text-gray-400">{index + 1}</span>
+                  <label className="flex items-center gap-3 flex-1 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={present}
+                      onChange={() => huddle.togglePresent(member.id)}
+                      className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span className={`font-medium ${present ? 'text-gray-900 dark:text-white' : 'text-gray-400 line-through'}`}>
+                      {member.name}
+                    </span>
+                    <span className="text-sm text-gray-500 dark:text-gray-400">{member.role}</span>
+                  </label>
+                  <button
+                    onClick={() => huddle.moveMember(member.id, -1)}
+                    disabled={index === 0}
+                    aria-label={`Move ${member.name} up`}
+                    className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-30"
+                  >
+                    <ChevronUp size={16} />
+                  </button>
+                  <button
+                    onClick={() => huddle.moveMember(member.id, 1)}
+                    disabled={index === huddle.speakingOrder.length - 1}
+                    aria-label={`Move ${member.name} down`}
+                    className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-30"
+                  >
+                    <ChevronDown size={16} />
+                  </button>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          onClick={huddle.start}
+          disabled={huddle.speakers.length === 0 || !timeBoxValid}
+          className="flex items-center gap-2 px-6 py-3 rounded-xl text-base font-semibold bg-emerald-600 hover:bg-emerald-700 text-white shadow-lg disabled:opacity-50 transition-all duration-200"
+        >
+          <Play size={18} />
+          Start huddle
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// The current speaker's update, open blockers and timer
+function HuddleTurn({ huddle, teamMembers }: { huddle: HuddleState; teamMembers: TeamMember[] }) {
+  const speaker = huddle.currentSpeaker;
+  if (!speaker) return null;
+
+  const update = teamMembers.find(member => member.id === speaker.id);
+  const openBlockers = update?.getOpenBlockers(huddle.today) ?? [];
+  const overTime = huddle.currentSpeakingSeconds > huddle.timeBoxSeconds;
+  const progress = Math.min(100, (huddle.currentSpeakingSeconds / huddle.timeBoxSeconds) * 100);
+  const isLast = huddle.currentIndex === huddle.speakers.length - 1;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="lg:col-span-2 space-y-6">
+        <div className={cardClassName}>
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {huddle.currentIndex + 1} of {huddle.speakers.length}
+              </p>
+              <h3 className="text-3xl font-bold text-gray-900 dark:text-white">{speaker.name}</h3>
+            </div>
+            <div className="text-right">
+              <p className={`text-5xl font-mono font-bold tabular-nums ${overTime ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}`}>
+                {Huddle.formatDuration(huddle.currentSpeakingSeconds)}
+              </p>
+              <p className="text-sm text-gray-500 dark:text-gray-400">of {Huddle.formatDuration(huddle.timeBoxSeconds)}</p>
+            </div>
+          </div>
+          <div className="h-3 bg-gray-200 dark:bg-slate-700 rounded-full overflow-hidden">
+            <div
+              className={`h-full transition-all duration-1000 ${overTime ? 'bg-red-500' : 'bg-emerald-500'}`}
+              style={{ width: `${progress}%` }}
+            />
+          </div>
+        </div>
+
+        {openBlockers.length > 0 && (
+          <div className="bg-gradient-to-r from-red-50/80 to-orange-100/60 dark:from-red-900/30 dark:to-orange-800/20 rounded-2xl p-6 border-2 border-red-300/60 dark:border-red-700/50 shadow-lg">
+            <div className="flex items-center gap-2 mb-3">
+              <AlertTriangle size={20} className="text-red-600 dark:text-red-400" />
+              <h4 className="text-lg font-bold text-red-700 dark:text-red-300">
+                {openBlockers.length === 1 ? 'Open blocker' : `${openBlockers.length} open blockers`}
+              </h4>
+            </div>
+            <ul className="space-y-2">
+              {openBlockers.map(blocker => (
+                <li key={blocker.id} className="text-red-800 dark:text-red-200">
+                  <span className="font-semibold">{blocker.getSeverityLabel()}:</span> {blocker.description}
+                  {blocker.unblocker && (
+                    <span className="text-sm text-red-700/80 dark:text-red-300/80"> (needs {blocker.unblocker})</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {update ? (
+          <TeamMemberCard member={update} onEdit={() => undefined} />
+        ) : (
+          <div className={`${cardClassName} text-center text-gray-600 dark:text-gray-400`}>
+            {speaker.name} hasn't posted an update today.
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <button
+            onClick={huddle.previous}
+            disabled={huddle.currentIndex === 0}
+            className="flex items-center gap-2 px-4 py-3 rounded-xl font-medium bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50 transition-all duration-200"
+          >
+            <ChevronLeft size={18} />
+            Previous
+          </button>
+          <div className="flex gap-3">
+            <button
+              onClick={huddle.markCurrentAbsent}
+              className="flex items-center gap-2 px-4 py-3 rounded-xl font-medium bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-all duration-200"
+            >
+              <UserX size={18} />
+              Not here
+            </button>
+            <button
+              onClick={huddle.next}
+              className="flex items-center gap-2 px-6 py-3 rounded-xl font-semibold bg-blue-600 hover:bg-blue-700 text-white shadow-lg transition-all duration-200"
+            >
+              {isLast ? 'Finish' : 'Next'}
+              {isLast ? <Flag size={18} /> : <ChevronRight size={18} />}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className={cardClassName}>
+        <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-4">Up next</p>
+        <ol className="space-y-2">
+          {huddle.speakers.map((member, index) => (
+            <li
+              key={member.id}
+              className={`flex items-center justify-between px-3 py-2 rounded-xl text-sm ${
+                index === huddle.currentIndex
+                  ? 'bg-blue-600 text-white font-semibold'
+                  : index < huddle.currentIndex
+                    ? 'text-gray-400'
+                    : 'text-gray-700 dark:text-gray-300'
+              }`}
+            >
+              <span>{member.name}</span>
+              {index < huddle.currentIndex && (
+                <span className="tabular-nums">{Huddle.formatDuration(huddle.speakingSeconds[member.id] ?? 0)}</span>
+              )}
+            </li>
+          ))}
+        </ol>
+        <button
+          onClick={huddle.finish}
+          className="mt-6 w-full px-4 py-2 rounded-xl text-sm font-medium bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-all duration-200"
+        >
+          End huddle now
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Attendance and speaking times once everyone has had a turn
+function HuddleSummary({ huddle, onSave }: { huddle: HuddleState; onSave: () => void }) {
+  return (
+    <div className="space-y-6">
+      <div className={cardClassName}>
+        <div className="flex items-baseline justify-between mb-4">
+          <h3 className="text-xl font-bold text-gray-900 dark:text-white">
+            {huddle.speakers.length} of {huddle.members.length} present
+          </h3>
+          <p className="text-gray-600 dark:text-gray-400">{Huddle.formatDuration(huddle.elapsedSeconds)} total</p>
+        </div>
+        <ul className="divide-y divide-gray-200/60 dark:divide-slate-700/60">
+          {huddle.speakingOrder.map(member => {
+            const present = huddle.presentIds.has(member.id);
+            const seconds = huddle.speakingSeconds[member.id] ?? 0;
+            return (
+              <li key={member.id} className="flex items-center justify-between py-2 text-sm">
+                <span className={present ? 'text-gray-900 dark:text-white' : 'text-gray-400'}>{member.name}</span>
+                <span className={`tabular-nums ${present && seconds > huddle.timeBoxSeconds ? 'text-red-600 dark:text-red-400' : 'text-gray-600 dark:text-gray-400'}`}>
+                  {present ? Huddle.formatDuration(seconds) : 'Absent'}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+
+      <div className="flex justify-end gap-3">
+        <button
+          onClick={huddle.restart}
+          disabled={huddle.saving}
+          className="flex items-center gap-2 px-4 py-3 rounded-xl font-medium bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50 transition-all duration-200"
+        >
+          <RotateCcw size={18} />
+          Start over
+        </button>
+        <button
+          onClick={onSave}
+          disabled={huddle.saving || huddle.speakers.length === 0}
+          className="flex items-center gap-2 px-6 py-3 rounded-xl font-semibold bg-emerald-600 hover:bg-emerald-700 text-white shadow-lg disabled:opacity-50 transition-all duration-200"
+        >
+          {huddle.saving ? <Loader2 size={18} className="animate-spin" /> : <Save size={18} />}
+          Save huddle
+        </button>
+      </div>
+    </div>
+  );
+}
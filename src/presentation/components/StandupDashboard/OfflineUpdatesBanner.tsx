@@ -0,0 +1,108 @@
+import { motion } from 'motion/react';
+import { WifiOff, UploadCloud, AlertTriangle } from 'lucide-react';
+
+import { UpdateDraft } from '@/domain/entities/UpdateDraft';
+import { DateFormatter } from '@/domain/services/DateFormatter';
+
+interface OfflineUpdatesBannerProps {
+  online: boolean;
+  syncing: boolean;
+  pendingUpdates: UpdateDraft[];
+  onRetry: () => void;
+  onKeepLocal: (draft: UpdateDraft) => void;
+  onDiscard: (draft: UpdateDraft) => void;
+}
+
+/**
+ * OfflineUpdatesBanner Component
+ * Says when the app is offline and lists updates saved on this device that haven't been posted yet
+ * An update that was changed elsewhere in the meantime waits for its writer to keep or discard their version,
+ * and one the server turned down stays with its reason until it is discarded
+ * Renders nothing when online with nothing waiting
+ */
+export function OfflineUpdatesBanner({ online, syncing, pendingUpdates, onRetry, onKeepLocal, onDiscard }: OfflineUpdatesBannerProps) {
+  if (online && pendingUpdates.length === 0) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="mb-6 bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm rounded-2xl border border-amber-200 dark:border-amber-700/50 p-4 shadow-lg"
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        {online ? (
+          <UploadCloud size={18} className="text-amber-500" />
+        ) : (
+          <WifiOff size={18} className="text-amber-500" />
+        )}
+        <span className="text-sm font-semibold text-gray-900 dark:text-white">
+          {online ? 'Updates waiting to be posted' : 'You\'re offline'}
+        </span>
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {online
+            ? 'Saved on this device while you were offline'
+            : 'Updates you save are kept on this device and posted when you reconnect'}
+        </span>
+        {online && pendingUpdates.some(draft => draft.status === 'queued') && (
+          <button
+            type="button"
+            onClick={onRetry}
+            disabled={syncing}
+            className="ml-auto px-3 py-1 text-xs font-medium text-amber-700 dark:text-amber-400 bg-amber-100 dark:bg-amber-900/30 rounded-lg hover:bg-amber-200 dark:hover:bg-amber-900/50 disabled:opacity-50 transition-colors"
+          >
+            {syncing ? 'Posting...' : 'Retry now'}
+          </button>
+        )}
+      </div>
+
+      {pendingUpdates.length > 0 && (
+        <ul className="mt-3 divide-y divide-gray-200/50 dark:divide-slate-700/50">
+          {pendingUpdates.map(draft => (
+            <li key={draft.key} className="py-2 flex flex-col md:flex-row md:items-center gap-2">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-gray-900 dark:text-white">
+                  {draft.member.name}'s update for {DateFormatter.formatStandupDate(draft.date)}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {draft.status === 'conflict' && (
+                    <span className="inline-flex items-center gap-1 text-red-600 dark:text-red-400">
+                      <AlertTriangle size={12} />
+                      Changed elsewhere since you wrote this. Post yours over it, or discard yours to keep the other version.
+                    </span>
+                  )}
+                  {draft.status === 'failed' && (
+                    <span className="inline-flex items-center gap-1 text-red-600 dark:text-red-400">
+                      <AlertTriangle size={12} />
+                      Can't be posted: {draft.error}
+                    </span>
+                  )}
+                  {draft.status === 'queued' && `Saved ${new Date(draft.savedAt).toLocaleString()}`}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                {draft.status === 'conflict' && (
+                  <button
+                    type="button"
+                    onClick={() => onKeepLocal(draft)}
+                    disabled={syncing || !online}
+                    className="px-3 py-1 text-xs font-medium text-white bg-blue-600 dark:bg-blue-500 rounded-lg hover:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50 transition-colors"
+                  >
+                    Post mine
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => onDiscard(draft)}
+                  disabled={syncing}
+                  className="px-3 py-1 text-xs font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50 transition-colors"
+                >
+                  Discard mine
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </motion.div>
+  );
+}
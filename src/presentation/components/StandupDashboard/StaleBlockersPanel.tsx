@@ -0,0 +1,123 @@
+import { motion } from 'motion/react';
+import { Hourglass, Siren, Check } from 'lucide-react';
+
+import { Blocker, BlockerSeverity } from '@/domain/entities/Blocker';
+import { useStaleBlockers } from '@/presentation/hooks/useStaleBlockers';
+import { useCurrentMember } from '@/presentation/hooks/useCurrentMember';
+
+interface StaleBlockersPanelProps {
+  refreshKey?: number;
+}
+
+const severityStyles: Record<BlockerSeverity, string> = {
+  low: 'bg-gray-100 dark:bg-gray-700/50 text-gray-700 dark:text-gray-300',
+  medium: 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400',
+  high: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400'
+};
+
+/**
+ * StaleBlockersPanel Component
+ * Lists blockers that have been open for a while, longest first, with how many business days each has been open
+ * Escalated blockers are flagged, and leads can acknowledge them
+ * Renders nothing when there are no stale blockers
+ */
+export function StaleBlockersPanel({ refreshKey }: StaleBlockersPanelProps) {
+  const { blockers, unacknowledgedCount, escalationDays, saving, getBusinessDaysOpen, acknowledgeEscalation } = useStaleBlockers(refreshKey);
+  const { can } = useCurrentMember();
+  const canAcknowledge = can('manage_roster');
+
+  if (blockers.length === 0) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.5 }}
+      className="mb-8 bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm rounded-2xl border border-white/20 dark:border-slate-700/20 p-4 shadow-lg"
+    >
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <Hourglass size={18} className="text-red-500" />
+        <span className="text-sm font-semibold text-gray-900 dark:text-white">Stale blockers</span>
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {escalationDays > 0
+            ? `Escalated to leads after ${escalationDays} business ${escalationDays === 1 ? 'day' : 'days'}`
+            : 'Escalation is off'}
+        </span>
+        {canAcknowledge && unacknowledgedCount > 0 && (
+          <span className="ml-auto text-xs font-medium px-2 py-0.5 rounded-full bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400">
+            {unacknowledgedCount} need{unacknowledgedCount === 1 ? 's' : ''} attention
+          </span>
+        )}
+      </div>
+
+      <ul className="divide-y divide-gray-200/50 dark:divide-slate-700/50">
+        {blockers.map(blocker => (
+          <StaleBlockerRow
+            key={blocker.id}
+            blocker={blocker}
+            businessDaysOpen={getBusinessDaysOpen(blocker)}
+            onAcknowledge={canAcknowledge && blocker.isEscalated() && !blocker.isEscalationAcknowledged()
+              ? () => acknowledgeEscalation(blocker)
+              : undefined}
+            disabled={saving}
+          />
+        ))}
+      </ul>
+    </motion.div>
+  );
+}
+
+function StaleBlockerRow({
+  blocker,
+  businessDaysOpen,
+  onAcknowledge,
+  disabled
+}: {
+  blocker: Blocker;
+  businessDaysOpen: number;
+  onAcknowledge?: () => void;
+  disabled: boolean;
+}) {
+  return (
+    <li className="flex items-start justify-between gap-3 py-2">
+      <div className="min-w-0">
+        <div className="flex flex-wrap items-center gap-2 mb-0.5">
+          <span className="text-sm font-semibold text-gray-900 dark:text-white">{blocker.memberName}</span>
+          <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${severityStyles[blocker.severity]}`}>
+            {blocker.getSeverityLabel()}
+          </span>
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            Open {businessDaysOpen} business {businessDaysOpen === 1 ? 'day' : 'days'}, since {blocker.openedOn}
+          </span>
+          {blocker.isEscalated() && (
+            <span
+              className={`inline-flex items-center gap-1 text-xs font-medium px-2 py-0.5 rounded-full ${
+                blocker.isEscalationAcknowledged()
+                  ? 'bg-gray-100 dark:bg-slate-800 text-gray-600 dark:text-gray-400'
+                  : 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400'
+              }`}
+            >
+              <Siren size={12} />
+              {blocker.isEscalationAcknowledged() ? 'Escalated · seen' : 'Escalated'}
+            </span>
+          )}
+        </div>
+        <p className="text-sm text-gray-700 dark:text-gray-300">{blocker.description}</p>
+        {blocker.unblocker && (
+          <p className="text-xs text-gray-600 dark:text-gray-400">Waiting on {blocker.unblocker}</p>
+        )}
+      </div>
+      {onAcknowledge && (
+        <button
+          onClick={onAcknowledge}
+          disabled={disabled}
+          className="shrink-0 flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-red-700 dark:text-red-300 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Mark this escalation as seen"
+        >
+          <Check size={14} />
+          <span>Acknowledge</span>
+        </button>
+      )}
+    </li>
+  );
+}
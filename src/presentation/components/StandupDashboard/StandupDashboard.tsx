@@ -1,24 +1,41 @@
 import { useState, useCallback, useEffect } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
-import { Plus, Users, History, ChevronRight, FileText, MessageSquare, Calendar, TrendingUp, BarChart3 } from 'lucide-react';
+import { Plus, Users, History, ChevronRight, FileText, MessageSquare, Calendar, TrendingUp, BarChart3, UserCog, LogOut, Timer } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
 
 import { useStandupData } from '@/presentation/hooks/useStandupData';
 import { useDateUtils } from '@/presentation/hooks/useDateUtils';
+import { useCurrentMember } from '@/presentation/hooks/useCurrentMember';
+import { useAuth } from '@/presentation/hooks/useAuth';
+import { useUpdateOutbox } from '@/presentation/hooks/useUpdateOutbox';
+import { useTypingPresence } from '@/presentation/hooks/useTypingPresence';
 
 import { TeamMember } from '@/domain/entities/TeamMember';
+import { UpdateDraft } from '@/domain/entities/UpdateDraft';
+import { TypingMember } from '@/application/services/StandupRealtimeService';
 import { WeeklyReport as WeeklyReportEntity } from '@/domain/entities/WeeklyReport';
 import { StoredWeeklyReport } from '@/domain/repositories/StandupRepository';
 import { LightRaysContainer } from '@/components/bits/light-ray';
 import ParticleButton from '@/components/kokonutui/particle-button';
 import GradientButton from '@/components/kokonutui/gradient-button';
 import { WeeklyReport } from '@/presentation/components/WeeklyReport/WeeklyReport';
+import { TeamRoster } from '@/presentation/components/TeamRoster/TeamRoster';
 import { TeamMemberCard } from './TeamMemberCard';
 import { AddUpdateModal } from './AddUpdateModal';
+import { UpdateRevisionsModal } from './UpdateRevisionsModal';
+import { TeamSwitcher } from './TeamSwitcher';
 import { StandupHistory } from './StandupHistory';
+import { WhosOutStrip } from './WhosOutStrip';
+import { StaleBlockersPanel } from './StaleBlockersPanel';
+import { OfflineUpdatesBanner } from './OfflineUpdatesBanner';
+import { TypingIndicator } from './TypingIndicator';
+import { HuddleMode } from './HuddleMode';
+import { Participation } from '@/domain/value-objects/Participation';
+
+type DashboardTab = 'daily' | 'weekly' | 'team';
 
 interface StandupDashboardProps {
-  initialTab?: 'daily' | 'weekly';
+  initialTab?: DashboardTab;
 }
 
 /**
@@ -29,6 +46,7 @@ export default function StandupDashboard({ initialTab = 'daily' }: StandupDashbo
   const navigate = useNavigate();
   const location = useLocation();
   const { getTodayFormatted } = useDateUtils();
+  const { member: currentMember, can } = useCurrentMember();
 
   const {
     teamMembers,
@@ -38,7 +56,9 @@ export default function StandupDashboard({ initialTab = 'daily' }: StandupDashbo
     loading,
     error,
     saveMember,
+    refreshUpdates,
     refreshData,
+    refreshParticipation,
     weeklyReport,
     weeklyReportLoading,
     weeklyReportError,
@@ -46,6 +66,8 @@ export default function StandupDashboard({ initialTab = 'daily' }: StandupDashbo
     generateCurrentWeekReportManually,
     generateLastWeekReportManually,
     getPreviousWeekDates,
+    reportContentVersion,
+    setReportContentVersion,
     storedWeeklyReports,
     storedReportsLoading,
     fetchStoredWeeklyReports,
@@ -53,15 +75,41 @@ export default function StandupDashboard({ initialTab = 'daily' }: StandupDashbo
 
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingMember, setEditingMember] = useState<TeamMember | undefined>();
+  const [editingDate, setEditingDate] = useState<string | undefined>();
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [revisionsMember, setRevisionsMember] = useState<TeamMember | null>(null);
   const [showHistory, setShowHistory] = useState(false);
   const [saving, setSaving] = useState(false);
   const [generatingReport, setGeneratingReport] = useState(false);
-  const [activeTab, setActiveTab] = useState<'daily' | 'weekly'>(initialTab);
+  const [activeTab, setActiveTab] = useState<DashboardTab>(initialTab);
+  const [huddleOpen, setHuddleOpen] = useState(false);
+
+  // Updates saved while offline are posted when the connection returns
+  const handleOfflineUpdatesPosted = useCallback(() => {
+    refreshUpdates();
+    setHistoryVersion(version => version + 1);
+  }, [refreshUpdates]);
+
+  const {
+    pendingUpdates,
+    online,
+    syncing,
+    queueUpdate,
+    sync,
+    discardDraft,
+    keepLocalVersion,
+    discardPendingUpdate,
+    isNetworkError
+  } = useUpdateOutbox(handleOfflineUpdatesPosted);
+
+  const { typingMembers, setTyping } = useTypingPresence();
 
   // Handle URL changes and sync with active tab
   useEffect(() => {
     if (location.pathname === '/weekly-reports' && activeTab !== 'weekly') {
       setActiveTab('weekly');
+    } else if (location.pathname === '/team' && activeTab !== 'team') {
+      setActiveTab('team');
     } else if (location.pathname === '/' && activeTab !== 'daily') {
       setActiveTab('daily');
     }
@@ -82,34 +130,62 @@ export default function StandupDashboard({ initialTab = 'daily' }: StandupDashbo
   }, [location.search, storedWeeklyReports, setWeeklyReport]);
 
   // Handle tab changes and update URL
-  const handleTabChange = useCallback((tab: 'daily' | 'weekly') => {
+  const handleTabChange = useCallback((tab: DashboardTab) => {
     setActiveTab(tab);
     if (tab === 'weekly') {
       navigate('/weekly-reports');
+    } else if (tab === 'team') {
+      navigate('/team');
     } else {
       navigate('/');
     }
   }, [navigate]);
 
-  const handleSaveMember = useCallback(async (member: TeamMember) => {
+  // Offline, or when the connection drops mid-save, the update is queued on this device instead
+  const handleSaveMember = useCallback(async (member: TeamMember, date: string) => {
+    const baseRevision = editingMember?.updateId ? editingMember.revisionCount : 0;
+
     setSaving(true);
     try {
-      await saveMember(member);
+      if (navigator.onLine) {
+        await saveMember(member, date);
+        await discardDraft(member.id, date);
+        // Saves change the history sheet and stale blockers, which load their own data
+        setHistoryVersion(version => version + 1);
+      } else {
+        await queueUpdate(member, date, baseRevision);
+      }
       setEditingMember(undefined);
+      setEditingDate(undefined);
     } catch (err) {
+      if (!navigator.onLine || isNetworkError(err)) {
+        await queueUpdate(member, date, baseRevision);
+        setEditingMember(undefined);
+        setEditingDate(undefined);
+        return;
+      }
       console.error('Failed to save member:', err);
+      throw err;
     } finally {
       setSaving(false);
     }
-  }, [saveMember]);
+  }, [editingMember, saveMember, discardDraft, queueUpdate, isNetworkError]);
 
-  const handleEditMember = useCallback((member: TeamMember) => {
+  const handleDiscardPendingUpdate = useCallback((draft: UpdateDraft) => {
+    if (window.confirm(`Discard ${draft.member.name}'s update saved on this device? It will not be posted.`)) {
+      discardPendingUpdate(draft);
+    }
+  }, [discardPendingUpdate]);
+
+  const handleEditMember = useCallback((member: TeamMember, date?: string) => {
     setEditingMember(member);
+    setEditingDate(date);
     setIsModalOpen(true);
   }, []);
 
   const handleAddMember = useCallback(async () => {
     setEditingMember(undefined);
+    setEditingDate(undefined);
     setIsModalOpen(true);
   }, []);
 
@@ -168,7 +244,7 @@ export default function StandupDashboard({ initialTab = 'daily' }: StandupDashbo
           activeTab={activeTab}
           onTabChange={handleTabChange}
           teamMembersCount={teamMembers.length}
-          yesterdayCount={yesterdayCount}
+          yesterdayCount={yesterdayCount.toString()}
           teamEngagement={teamEngagement.toString()}
         />
 
@@ -178,12 +254,22 @@ export default function StandupDashboard({ initialTab = 'daily' }: StandupDashbo
           <TopHeaderBar
             today={today}
             onAddMember={handleAddMember}
+            onStartHuddle={can('post_updates') ? () => setHuddleOpen(true) : undefined}
             saving={saving}
           />
 
           {/* Content Area */}
           <div className="flex-1 p-6 lg:p-8">
             <div className="max-w-8xl mx-auto">
+              <OfflineUpdatesBanner
+                online={online}
+                syncing={syncing}
+                pendingUpdates={pendingUpdates}
+                onRetry={sync}
+                onKeepLocal={keepLocalVersion}
+                onDiscard={handleDiscardPendingUpdate}
+              />
+
               {/* Daily Standup Tab */}
               {activeTab === 'daily' && (
                 <DailyStandupTab
@@ -191,7 +277,13 @@ export default function StandupDashboard({ initialTab = 'daily' }: StandupDashbo
                   showHistory={showHistory}
                   onToggleHistory={() => setShowHistory(!showHistory)}
                   onEditMember={handleEditMember}
+                  onViewEdits={setRevisionsMember}
                   onAddMember={handleAddMember}
+                  currentMemberId={can('post_updates') ? currentMember?.id : undefined}
+                  historyVersion={historyVersion}
+                  teamEngagement={teamEngagement}
+                  onAbsencesChange={refreshParticipation}
+                  typingMembers={typingMembers}
                 />
               )}
 
@@ -209,10 +301,15 @@ export default function StandupDashboard({ initialTab = 'daily' }: StandupDashbo
                   onGenerateReportManually={handleGenerateReportManually}
                   onGenerateLastWeekReportManually={handleGenerateLastWeekReportManually}
                   onRefreshStoredReports={fetchStoredWeeklyReports}
-                  toGenerateReportManually={true}
+                  toGenerateReportManually={can('generate_reports')}
                   generatingReport={generatingReport}
+                  contentVersion={reportContentVersion}
+                  onContentVersionChange={setReportContentVersion}
                 />
               )}
+
+              {/* Team Roster Tab */}
+              {activeTab === 'team' && <TeamRoster />}
             </div>
           </div>
         </div>
@@ -223,9 +320,24 @@ export default function StandupDashboard({ initialTab = 'daily' }: StandupDashbo
         onClose={handleCloseModal}
         onSave={handleSaveMember}
         member={editingMember}
+        date={editingDate}
         saving={saving}
         previousEntries={standupHistory.flatMap((entry) => entry.teamMembers)}
+        onTypingChange={setTyping}
+      />
+
+      <UpdateRevisionsModal
+        member={revisionsMember}
+        onClose={() => setRevisionsMember(null)}
       />
+
+      {huddleOpen && (
+        <HuddleMode
+          teamMembers={teamMembers}
+          canManageSettings={can('manage_team_settings')}
+          onClose={() => setHuddleOpen(false)}
+        />
+      )}
     </div>
   );
 }
@@ -363,10 +475,10 @@ function SidebarNavigation({
   yesterdayCount,
   teamEngagement
 }: { 
-  activeTab: 'daily' | 'weekly'; 
-  onTabChange: (tab: 'daily' | 'weekly') => void;
+  activeTab: DashboardTab; 
+  onTabChange: (tab: DashboardTab) => void;
   teamMembersCount: number;
-  yesterdayCount: number;
+  yesterdayCount: string;
   teamEngagement: string;
 }) {
   return (
@@ -423,6 +535,20 @@ function SidebarNavigation({
             <FileText size={20} />
             <span>Weekly Reports</span>
           </motion.button>
+
+          <motion.button
+            onClick={() => onTabChange('team')}
+            className={`w-full flex items-center gap-4 p-4 rounded-xl font-medium transition-all duration-300 ${
+              activeTab === 'team'
+                ? 'bg-gradient-to-r from-blue-500 to-purple-500 text-white shadow-lg'
+                : 'text-gray-600 dark:text-gray-400 hover:bg-white/60 dark:hover:bg-slate-800/60 hover:text-gray-900 dark:hover:text-white'
+            }`}
+            whileHover={{ scale: 1.02, x: 4 }}
+            whileTap={{ scale: 0.98 }}
+          >
+            <UserCog size={20} />
+            <span>Team</span>
+          </motion.button>
         </nav>
       </div>
 
@@ -463,10 +589,12 @@ function SidebarNavigation({
 function TopHeaderBar({
   today,
   onAddMember,
+  onStartHuddle,
   saving
 }: {
   today: string;
   onAddMember: () => void;
+  onStartHuddle?: () => void;
   saving: boolean;
 }) {
   return (
@@ -478,6 +606,8 @@ function TopHeaderBar({
     >
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-4">
+          <TeamSwitcher />
+
           <div className="flex items-center gap-3 bg-gradient-to-r from-gray-50/60 to-gray-100/40 dark:from-slate-800/60 dark:to-slate-700/40 backdrop-blur-sm rounded-xl px-4 py-2 border border-gray-200/40 dark:border-slate-700/30">
             <Calendar size={18} className="text-indigo-500" />
             <div>
@@ -494,36 +624,91 @@ function TopHeaderBar({
           </div>
         </div>
 
-        <motion.div
-          whileHover={{ scale: 1.05 }}
-          whileTap={{ scale: 0.95 }}
-        >
-          <GradientButton
-            label="Add Update"
-            variant="emerald"
-            className="px-6 py-3 text-base font-semibold shadow-lg hover:shadow-xl transition-all duration-300"
-            onClick={onAddMember}
-            disabled={saving}
-          />
-        </motion.div>
+        <div className="flex items-center gap-4">
+          <UserMenu />
+
+          {/* Run the standup meeting from this screen */}
+          {onStartHuddle && (
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={onStartHuddle}
+              className="flex items-center gap-2 px-4 py-3 rounded-xl text-sm font-semibold bg-white/60 dark:bg-slate-800/60 text-gray-700 dark:text-gray-200 border border-gray-200/40 dark:border-slate-700/30 hover:bg-white/80 dark:hover:bg-slate-800/80 shadow-sm transition-all duration-200"
+            >
+              <Timer size={18} className="text-indigo-500" />
+              Start Huddle
+            </motion.button>
+          )}
+
+          <motion.div
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+          >
+            <GradientButton
+              label="Add Update"
+              variant="emerald"
+              className="px-6 py-3 text-base font-semibold shadow-lg hover:shadow-xl transition-all duration-300"
+              onClick={onAddMember}
+              disabled={saving}
+            />
+          </motion.div>
+        </div>
       </div>
     </motion.div>
   );
 }
 
+// Signed-in user with a sign-out button
+function UserMenu() {
+  const { user, signOut } = useAuth();
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+    } catch (error) {
+      console.error('Failed to sign out:', error);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-sm text-gray-600 dark:text-gray-400 truncate max-w-[200px]">{user.email}</span>
+      <button
+        onClick={handleSignOut}
+        className="p-2 text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-white/60 dark:hover:bg-slate-800/60 rounded-lg transition-colors"
+        title="Sign out"
+      >
+        <LogOut size={18} />
+      </button>
+    </div>
+  );
+}
+
 // Daily standup tab component
 function DailyStandupTab({
   teamMembers,
   showHistory,
   onToggleHistory,
   onEditMember,
-  onAddMember
+  onViewEdits,
+  onAddMember,
+  currentMemberId,
+  historyVersion,
+  teamEngagement,
+  onAbsencesChange,
+  typingMembers
 }: {
   teamMembers: TeamMember[];
   showHistory: boolean;
   onToggleHistory: () => void;
-  onEditMember: (member: TeamMember) => void;
+  onEditMember: (member: TeamMember, date?: string) => void;
+  onViewEdits: (member: TeamMember) => void;
   onAddMember: () => void;
+  currentMemberId?: string;
+  historyVersion: number;
+  teamEngagement: Participation;
+  onAbsencesChange: () => void;
+  typingMembers: TypingMember[];
 }) {
   return (
     <>
@@ -540,6 +725,7 @@ function DailyStandupTab({
               Today's Updates
             </h2>
             <p className="text-gray-600 dark:text-gray-400">Team standup progress and insights</p>
+            <TypingIndicator typingMembers={typingMembers} />
           </div>
           
           <motion.button
@@ -592,17 +778,28 @@ function DailyStandupTab({
               </div>
               <div>
                 <p className="text-sm text-purple-600 dark:text-purple-400 font-medium">Engagement</p>
-                <p className="text-2xl font-bold text-purple-900 dark:text-purple-100">High</p>
+                <p className="text-2xl font-bold text-purple-900 dark:text-purple-100" title={`${teamEngagement.toString()} expected members posted this week`}>
+                  {teamEngagement.expected > 0 ? `${teamEngagement.getRate()}%` : '—'}
+                </p>
               </div>
             </div>
           </div>
         </div>
       </motion.div>
 
+      {/* Who's Out */}
+      <WhosOutStrip onAbsencesChange={onAbsencesChange} />
+
+      {/* Stale Blockers */}
+      <StaleBlockersPanel refreshKey={historyVersion} />
+
       {/* Standup History */}
       <StandupHistory
         isOpen={showHistory}
         onClose={() => onToggleHistory()}
+        onEditMember={onEditMember}
+        currentMemberId={currentMemberId}
+        refreshKey={historyVersion}
       />
 
       {/* Team Members Grid - Modern Card Layout */}
@@ -625,6 +822,8 @@ function DailyStandupTab({
                 <TeamMemberCard
                   member={member}
                   onEdit={onEditMember}
+                  onViewEdits={onViewEdits}
+                  canEdit={member.id === currentMemberId}
                 />
               </motion.div>
             ))}
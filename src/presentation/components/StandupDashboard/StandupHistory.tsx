@@ -1,36 +1,79 @@
 import { useState, useEffect, useRef } from 'react';
-import { Calendar, Users, CheckCircle, AlertTriangle, ChevronRight, ChevronDown, X } from 'lucide-react';
+import { Calendar, Users, CheckCircle, AlertTriangle, ChevronRight, ChevronDown, X, Edit, Clock, Search, SlidersHorizontal, Sparkles, Loader2 } from 'lucide-react';
 import { Sheet } from '@/components/ui/sheet';
 import { motion, AnimatePresence } from 'motion/react';
+import { TeamMember } from '@/domain/entities/TeamMember';
+import { TeamCalendar } from '@/domain/services/TeamCalendar';
+import { HistoryQuestion } from '@/domain/value-objects/HistoryQuestion';
 import { useStandupHistory } from '@/presentation/hooks/useStandupHistory';
+import { useTeams } from '@/presentation/hooks/useTeams';
+import { useCurrentMember } from '@/presentation/hooks/useCurrentMember';
+import { useHistoryQuestion } from '@/presentation/hooks/useHistoryQuestion';
+import { UpdateDiscussion } from './UpdateDiscussion';
+import { HistorySearchResults } from './HistorySearchResults';
+import { HistoryAnswerPanel } from './HistoryAnswerPanel';
 
 interface StandupHistoryProps {
   isOpen: boolean;
   onClose: () => void;
+  onEditMember?: (member: TeamMember, date: string) => void;
+  currentMemberId?: string;
+  refreshKey?: number;
 }
 
 /**
  * StandupHistory Component
  * Displays historical standup entries with filtering and accordion functionality
+ * Older days load as the list is scrolled to its end
+ * Updates can be searched by text and filtered by member, role, dates and blockers, with matches highlighted
+ * In Ask mode, a question finds the updates closest in meaning, optionally answered by AI with citations
  * Follows clean architecture by using custom hooks and domain services
  */
-export function StandupHistory({ isOpen, onClose }: StandupHistoryProps) {
+export function StandupHistory({ isOpen, onClose, onEditMember, currentMemberId, refreshKey }: StandupHistoryProps) {
+  const { timezone, currentTeam } = useTeams();
   const [expandedEntry, setExpandedEntry] = useState<string | null>(null);
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
+  const [mode, setMode] = useState<'search' | 'ask'>('search');
+  const [question, setQuestion] = useState('');
+  const [writeAnswer, setWriteAnswer] = useState(true);
+  const { can } = useCurrentMember();
+  const historyQuestion = useHistoryQuestion();
   const dropdownRef = useRef<HTMLDivElement>(null);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
 
   // Use custom hook for history management
   const {
     history,
+    hasMore,
     availableMonths,
     selectedMonth,
+    search,
+    isSearching,
+    searchResults,
+    searchableMembers,
+    searchableRoles,
     loading,
+    loadingMore,
+    searching,
     error,
+    searchError,
     setSelectedMonth,
+    loadMore,
+    updateSearch,
+    clearSearch,
     formatDate,
     formatCreationDate,
     getMonthDisplayName
-  } = useStandupHistory();
+  } = useStandupHistory(refreshKey, mode === 'search');
+
+  const isAsking = mode === 'ask' && (!!historyQuestion.answer || historyQuestion.finding || !!historyQuestion.error);
+
+  // Members can correct their own updates while the date is inside the backfill window
+  const canEdit = (member: TeamMember, date: string) =>
+    !!onEditMember &&
+    member.id === currentMemberId &&
+    TeamCalendar.isWithinBackfillWindow(date, timezone, currentTeam.backfillDays);
 
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -49,6 +92,24 @@ export function StandupHistory({ isOpen, onClose }: StandupHistoryProps) {
     };
   }, [isDropdownOpen]);
 
+  // Load older days once the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) {
+        loadMore();
+      }
+    }, { rootMargin: '200px' });
+
+    observer.observe(sentinel);
+
+    return () => {
+      observer.disconnect();
+    };
+  }, [hasMore, loadMore]);
+
   const toggleEntry = (entryId: string) => {
     setExpandedEntry(expandedEntry === entryId ? null : entryId);
   };
@@ -63,7 +124,11 @@ export function StandupHistory({ isOpen, onClose }: StandupHistoryProps) {
       <div className="flex items-center gap-4">
         <div>
           <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Standup History</h2>
-          <p className="text-sm text-gray-600 dark:text-gray-400">{history.length} meetings</p>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {isAsking
+              ? `${historyQuestion.answer?.sources.length ?? 0} relevant updates`
+              : isSearching ? `${searchResults.length} matching updates` : `${history.length}${hasMore ? '+' : ''} meetings`}
+          </p>
         </div>
         
         {/* Month Dropdown */}
@@ -127,6 +192,185 @@ export function StandupHistory({ isOpen, onClose }: StandupHistoryProps) {
     </div>
   );
 
+  const inputClassName = 'px-3 py-2 bg-white/60 dark:bg-gray-800/60 rounded-lg border border-white/20 dark:border-gray-700/20 text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  const handleAsk = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!question.trim()) return;
+
+    historyQuestion.ask(
+      question,
+      { memberId: search.memberId, startDate: search.startDate, endDate: search.endDate },
+      writeAnswer
+    );
+  };
+
+  const handleClearQuestion = () => {
+    setQuestion('');
+    historyQuestion.clear();
+  };
+
+  const modeButtonClassName = (buttonMode: 'search' | 'ask') => `flex items-center gap-1 px-3 py-1 rounded-md text-xs font-medium transition-colors ${
+    mode === buttonMode
+      ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow-sm'
+      : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+  }`;
+
+  const searchPanel = (
+    <div className="mb-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="inline-flex p-1 bg-white/40 dark:bg-gray-800/40 rounded-lg border border-white/30 dark:border-gray-700/30">
+          <button onClick={() => setMode('search')} className={modeButtonClassName('search')}>
+            <Search size={12} />
+            Search
+          </button>
+          <button onClick={() => setMode('ask')} className={modeButtonClassName('ask')}>
+            <Sparkles size={12} />
+            Ask
+          </button>
+        </div>
+        {mode === 'ask' && (
+          <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+            <input
+              type="checkbox"
+              checked={writeAnswer}
+              onChange={(e) => setWriteAnswer(e.target.checked)}
+              className="rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500"
+            />
+            Answer with AI
+          </label>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        {mode === 'search' ? (
+          <div className="relative flex-1">
+            <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500 dark:text-gray-400" />
+            <input
+              type="search"
+              value={search.text}
+              onChange={(e) => updateSearch({ text: e.target.value })}
+              placeholder='Search updates, e.g. "code review" or deploy -staging'
+              aria-label="Search standup updates"
+              className={`${inputClassName} w-full pl-9`}
+            />
+          </div>
+        ) : (
+          <form onSubmit={handleAsk} className="flex flex-1 items-center gap-2">
+            <div className="relative flex-1">
+              <Sparkles size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500 dark:text-gray-400" />
+              <input
+                type="search"
+                value={question}
+                onChange={(e) => setQuestion(e.target.value)}
+                maxLength={HistoryQuestion.MAX_LENGTH}
+                placeholder="Ask, e.g. who touched the billing migration last month?"
+                aria-label="Ask a question about standup history"
+                className={`${inputClassName} w-full pl-9`}
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={!question.trim() || historyQuestion.finding || historyQuestion.answering}
+              className="px-3 py-2 text-sm font-medium bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-lg transition-colors"
+            >
+              Ask
+            </button>
+          </form>
+        )}
+        <button
+          onClick={() => setShowFilters(!showFilters)}
+          title="Filters"
+          aria-expanded={showFilters}
+          className={`p-2 rounded-lg border transition-colors ${
+            showFilters
+              ? 'bg-blue-50 dark:bg-blue-900/30 border-blue-300 dark:border-blue-600 text-blue-700 dark:text-blue-300'
+              : 'bg-white/60 dark:bg-gray-800/60 border-white/20 dark:border-gray-700/20 text-gray-600 dark:text-gray-400 hover:bg-white/80 dark:hover:bg-gray-700/80'
+          }`}
+        >
+          <SlidersHorizontal size={16} />
+        </button>
+        {(mode === 'search' ? isSearching : isAsking) && (
+          <button
+            onClick={mode === 'search' ? clearSearch : handleClearQuestion}
+            className="px-3 py-2 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {showFilters && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 p-3 bg-white/40 dark:bg-gray-800/40 rounded-lg border border-white/30 dark:border-gray-700/30">
+          <label className="flex flex-col gap-1 text-xs font-medium text-gray-600 dark:text-gray-400">
+            Member
+            <select
+              value={search.memberId ?? ''}
+              onChange={(e) => updateSearch({ memberId: e.target.value || null })}
+              className={inputClassName}
+            >
+              <option value="">Everyone</option>
+              {searchableMembers.map(member => (
+                <option key={member.id} value={member.id}>{member.name}</option>
+              ))}
+            </select>
+          </label>
+          {mode === 'search' && (
+            <label className="flex flex-col gap-1 text-xs font-medium text-gray-600 dark:text-gray-400">
+              Role
+              <select
+                value={search.role ?? ''}
+                onChange={(e) => updateSearch({ role: e.target.value || null })}
+                className={inputClassName}
+              >
+                <option value="">Any role</option>
+                {searchableRoles.map(role => (
+                  <option key={role} value={role}>{role}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label className="flex flex-col gap-1 text-xs font-medium text-gray-600 dark:text-gray-400">
+            From
+            <input
+              type="date"
+              value={search.startDate ?? ''}
+              max={search.endDate ?? undefined}
+              onChange={(e) => updateSearch({ startDate: e.target.value || null })}
+              className={inputClassName}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-medium text-gray-600 dark:text-gray-400">
+            To
+            <input
+              type="date"
+              value={search.endDate ?? ''}
+              min={search.startDate ?? undefined}
+              onChange={(e) => updateSearch({ endDate: e.target.value || null })}
+              className={inputClassName}
+            />
+          </label>
+          {mode === 'search' && can('view_blockers') && (
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 sm:col-span-2">
+              <input
+                type="checkbox"
+                checked={search.hasBlockers}
+                onChange={(e) => updateSearch({ hasBlockers: e.target.checked })}
+                className="rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500"
+              />
+              Only updates with blockers
+            </label>
+          )}
+          {mode === 'search' && selectedMonth !== 'all' && !search.startDate && !search.endDate && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 sm:col-span-2">
+              Searching {getMonthDisplayName(selectedMonth)}; set dates to search other months.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
   // Loading state
   if (loading) {
     return (
@@ -168,10 +412,33 @@ export function StandupHistory({ isOpen, onClose }: StandupHistoryProps) {
       isOpen={isOpen}
       onClose={onClose}
       title="Standup History"
-      description={`${history.length} previous meetings`}
+      description={isAsking
+        ? `${historyQuestion.answer?.sources.length ?? 0} relevant updates`
+        : isSearching ? `${searchResults.length} matching updates` : `${history.length}${hasMore ? '+' : ''} previous meetings`}
       customHeader={customHeader}
     >
-      {history.length === 0 ? (
+      {searchPanel}
+
+      {isAsking ? (
+        <HistoryAnswerPanel
+          answer={historyQuestion.answer}
+          finding={historyQuestion.finding}
+          answering={historyQuestion.answering}
+          error={historyQuestion.error}
+          formatDate={formatDate}
+          canEdit={canEdit}
+          onEditMember={onEditMember}
+        />
+      ) : isSearching ? (
+        <HistorySearchResults
+          results={searchResults}
+          searching={searching}
+          error={searchError}
+          formatDate={formatDate}
+          canEdit={canEdit}
+          onEditMember={onEditMember}
+        />
+      ) : history.length === 0 ? (
         <div className="text-center text-gray-500 dark:text-gray-400 py-12">
           <Calendar size={48} className="text-gray-300 dark:text-gray-600 mx-auto mb-4" />
           <p>{selectedMonth === 'all' ? 'No previous standups yet' : 'No standups for this month'}</p>
@@ -238,10 +505,28 @@ export function StandupHistory({ isOpen, onClose }: StandupHistoryProps) {
                             <div className="w-8 h-8 bg-gradient-to-br from-blue-500 to-teal-500 rounded-full flex items-center justify-center text-white font-semibold text-sm">
                               {member.name.charAt(0).toUpperCase()}
                             </div>
-                            <div>
+                            <div className="flex-1">
                               <h4 className="font-medium text-gray-900 dark:text-white">{member.name}</h4>
                               <p className="text-xs text-gray-600 dark:text-gray-400">{member.role}</p>
                             </div>
+                            {member.postedLate && (
+                              <span
+                                title="Posted after this standup date"
+                                className="flex items-center gap-1 text-xs font-medium px-2 py-1 rounded-full bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400"
+                              >
+                                <Clock size={12} />
+                                Late
+                              </span>
+                            )}
+                            {canEdit(member, entry.date) && (
+                              <button
+                                onClick={() => onEditMember!(member, entry.date)}
+                                title="Edit this update"
+                                className="p-2 text-gray-500 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+                              >
+                                <Edit size={14} />
+                              </button>
+                            )}
                           </div>
 
                           <div className="space-y-3 text-sm">
@@ -280,6 +565,7 @@ export function StandupHistory({ isOpen, onClose }: StandupHistoryProps) {
                                 Submitted {formatCreationDate(member.lastUpdated)}
                               </p>
                             </div>
+                            <UpdateDiscussion member={member} />
                           </div>
                         </motion.div>
                       ))}
@@ -289,6 +575,17 @@ export function StandupHistory({ isOpen, onClose }: StandupHistoryProps) {
               </AnimatePresence>
             </div>
           ))}
+
+          {hasMore && (
+            <div ref={loadMoreRef} className="flex items-center justify-center gap-2 py-4 text-sm text-gray-500 dark:text-gray-400">
+              {loadingMore && (
+                <>
+                  <Loader2 size={14} className="animate-spin" />
+                  Loading older standups...
+                </>
+              )}
+            </div>
+          )}
         </div>
       )}
     </Sheet>
@@ -1,19 +1,22 @@
 import { motion } from 'motion/react';
-import { Edit, User } from 'lucide-react';
+import { Edit, User, History } from 'lucide-react';
 
 import { TeamMember } from '@/domain/entities/TeamMember';
 import ParticleButton from '@/components/kokonutui/particle-button';
+import { UpdateDiscussion } from './UpdateDiscussion';
 
 interface TeamMemberCardProps {
   member: TeamMember;
   onEdit: (member: TeamMember) => void;
+  onViewEdits?: (member: TeamMember) => void;
+  canEdit?: boolean;
 }
 
 /**
  * Team member card component
  * Displays a team member's standup update in a card format
  */
-export function TeamMemberCard({ member, onEdit }: TeamMemberCardProps) {
+export function TeamMemberCard({ member, onEdit, onViewEdits, canEdit = false }: TeamMemberCardProps) {
   // Helper function to safely render HTML content
   const renderHtmlContent = (content: string) => {
     if (!content) return null;
@@ -58,17 +61,20 @@ export function TeamMemberCard({ member, onEdit }: TeamMemberCardProps) {
             {member.role}
           </p>
         </div>
-        <motion.div
-          whileHover={{ scale: 1.1 }}
-          whileTap={{ scale: 0.9 }}
-        >
-          <ParticleButton
-            onClick={() => onEdit(member)}
-            className="p-3 text-gray-500 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-xl transition-all duration-300 group-hover:bg-blue-50/80 dark:group-hover:bg-blue-900/30"
+        {/* Only the member themselves can edit their update */}
+        {canEdit && (
+          <motion.div
+            whileHover={{ scale: 1.1 }}
+            whileTap={{ scale: 0.9 }}
           >
-            <Edit size={18} />
-          </ParticleButton>
-        </motion.div>
+            <ParticleButton
+              onClick={() => onEdit(member)}
+              className="p-3 text-gray-500 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-xl transition-all duration-300 group-hover:bg-blue-50/80 dark:group-hover:bg-blue-900/30"
+            >
+              <Edit size={18} />
+            </ParticleButton>
+          </motion.div>
+        )}
       </div>
 
       {/* Content */}
@@ -125,10 +131,23 @@ export function TeamMemberCard({ member, onEdit }: TeamMemberCardProps) {
           <div className="w-2 h-2 bg-emerald-500 rounded-full animate-pulse"></div>
           <span className="text-xs text-emerald-600 dark:text-emerald-400 font-medium">Active</span>
         </div>
-        <span className="text-xs text-gray-500 dark:text-gray-400 font-medium">
-          Updated {new Date(member.lastUpdated).toLocaleDateString()}
-        </span>
+        <div className="flex items-center gap-3">
+          {member.hasEdits() && onViewEdits && (
+            <button
+              onClick={() => onViewEdits(member)}
+              className="flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-medium transition-colors"
+            >
+              <History size={12} />
+              View edits ({member.revisionCount - 1})
+            </button>
+          )}
+          <span className="text-xs text-gray-500 dark:text-gray-400 font-medium">
+            Updated {new Date(member.lastUpdated).toLocaleDateString()}
+          </span>
+        </div>
       </div>
+
+      <UpdateDiscussion member={member} />
     </motion.div>
   );
 }
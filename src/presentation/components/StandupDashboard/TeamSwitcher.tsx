@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { ChevronDown, Check, Plus, Users2 } from 'lucide-react';
+
+import { useTeams } from '@/presentation/hooks/useTeams';
+import { useToast } from '@/presentation/hooks/useToast';
+
+/**
+ * TeamSwitcher Component
+ * Header dropdown for switching between teams and creating new ones
+ */
+export function TeamSwitcher() {
+  const { teams, currentTeam, timezone, selectTeam, createTeam } = useTeams();
+  const { showError, showSuccess } = useToast();
+  const [open, setOpen] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [newTeamName, setNewTeamName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const close = () => {
+    setOpen(false);
+    setCreating(false);
+    setNewTeamName('');
+  };
+
+  const handleSelect = (teamId: string) => {
+    selectTeam(teamId);
+    close();
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      // New teams start in the current team's timezone; it can be changed on the Team tab
+      const team = await createTeam(newTeamName, timezone);
+      showSuccess('Team Created', `Switched to ${team.name}.`, 3000);
+      close();
+    } catch (err) {
+      showError('Failed to Create Team', err instanceof Error ? err.message : undefined, 6000);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => (open ? close() : setOpen(true))}
+        className="flex items-center gap-3 bg-gradient-to-r from-gray-50/60 to-gray-100/40 dark:from-slate-800/60 dark:to-slate-700/40 backdrop-blur-sm rounded-xl px-4 py-2 border border-gray-200/40 dark:border-slate-700/30 hover:border-indigo-300 dark:hover:border-indigo-600 transition-colors"
+      >
+        <Users2 size={18} className="text-indigo-500" />
+        <span className="text-sm font-medium text-gray-900 dark:text-white">{currentTeam.name}</span>
+        <ChevronDown size={16} className={`text-gray-500 transition-transform ${open ? 'rotate-180' : ''}`} />
+      </button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ opacity: 0, y: -8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -8 }}
+            className="absolute left-0 mt-2 w-72 bg-white/95 dark:bg-slate-900/95 backdrop-blur-xl rounded-xl border border-gray-200/60 dark:border-slate-700/60 shadow-2xl z-30 overflow-hidden"
+          >
+            <ul className="max-h-64 overflow-y-auto py-1">
+              {teams.map(team => (
+                <li key={team.id}>
+                  <button
+                    onClick={() => handleSelect(team.id)}
+                    className="w-full flex items-center justify-between px-4 py-2 text-left hover:bg-indigo-50/80 dark:hover:bg-slate-800/80 transition-colors"
+                  >
+                    <div>
+                      <p className="text-sm font-medium text-gray-900 dark:text-white">{team.name}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">{team.timezone}</p>
+                    </div>
+                    {team.id === currentTeam.id && <Check size={16} className="text-indigo-500" />}
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <div className="border-t border-gray-200/60 dark:border-slate-700/60 p-2">
+              {creating ? (
+                <form onSubmit={handleCreate} className="flex gap-2">
+                  <input
+                    type="text"
+                    value={newTeamName}
+                    onChange={(e) => setNewTeamName(e.target.value)}
+                    placeholder="Team name"
+                    autoFocus
+                    disabled={saving}
+                    className="flex-1 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  />
+                  <button
+                    type="submit"
+                    disabled={saving || !newTeamName.trim()}
+                    className="px-3 py-1.5 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    Create
+                  </button>
+                </form>
+              ) : (
+                <button
+                  onClick={() => setCreating(true)}
+                  className="w-full flex items-center gap-2 px-2 py-1.5 text-sm text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50/80 dark:hover:bg-slate-800/80 rounded-lg transition-colors"
+                >
+                  <Plus size={16} />
+                  <span>New team</span>
+                </button>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
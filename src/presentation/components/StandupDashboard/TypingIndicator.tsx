@@ -0,0 +1,42 @@
+import { motion, AnimatePresence } from 'motion/react';
+import { PenLine } from 'lucide-react';
+
+import { TypingMember } from '@/application/services/StandupRealtimeService';
+
+interface TypingIndicatorProps {
+  typingMembers: TypingMember[];
+}
+
+// Name up to two writers, then count the rest
+function describeWriters(typingMembers: TypingMember[]): string {
+  const names = typingMembers.map(typingMember => typingMember.name);
+
+  if (names.length === 1) return `${names[0]} is writing an update`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are writing updates`;
+
+  const others = names.length - 2;
+  return `${names[0]}, ${names[1]} and ${others} ${others === 1 ? 'other' : 'others'} are writing updates`;
+}
+
+/**
+ * TypingIndicator Component
+ * Shows which teammates are writing their standup update right now
+ * Renders nothing when nobody is
+ */
+export function TypingIndicator({ typingMembers }: TypingIndicatorProps) {
+  return (
+    <AnimatePresence>
+      {typingMembers.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: -4 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -4 }}
+          className="mt-2 inline-flex items-center gap-2 text-sm text-blue-700 dark:text-blue-300"
+        >
+          <PenLine size={14} className="animate-pulse" />
+          <span>{describeWriters(typingMembers)}</span>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
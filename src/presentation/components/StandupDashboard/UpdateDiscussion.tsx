@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import { MessageSquare, SmilePlus, Reply, Trash2, Loader2, Send } from 'lucide-react';
+
+import { TeamMember } from '@/domain/entities/TeamMember';
+import { UpdateComment } from '@/domain/entities/UpdateComment';
+import { UpdateReaction } from '@/domain/entities/UpdateReaction';
+import { useUpdateDiscussion } from '@/presentation/hooks/useUpdateDiscussion';
+
+interface UpdateDiscussionProps {
+  member: TeamMember;
+}
+
+/**
+ * Emoji reactions and comment threads under a standup update
+ * Anyone signed in can read them; members who can post react, comment and reply
+ */
+export function UpdateDiscussion({ member }: UpdateDiscussionProps) {
+  const [open, setOpen] = useState(false);
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const discussion = useUpdateDiscussion(member, open);
+
+  if (!member.updateId) return null;
+
+  const handleReact = (emoji: string) => {
+    setPickerOpen(false);
+    discussion.toggleReaction(emoji);
+  };
+
+  return (
+    <div className="mt-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {discussion.reactions.map(reaction => (
+          <button
+            key={reaction.emoji}
+            onClick={() => handleReact(reaction.emoji)}
+            disabled={!discussion.canParticipate}
+            title={reaction.reacted ? 'Remove your reaction' : 'React'}
+            className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs border transition-colors ${
+              reaction.reacted
+                ? 'bg-blue-50 dark:bg-blue-900/30 border-blue-300 dark:border-blue-600 text-blue-700 dark:text-blue-300'
+                : 'bg-gray-50 dark:bg-slate-800 border-gray-200 dark:border-slate-700 text-gray-700 dark:text-gray-300'
+            } disabled:cursor-default`}
+          >
+            <span>{reaction.emoji}</span>
+            <span className="font-medium">{reaction.count}</span>
+          </button>
+        ))}
+
+        {discussion.canParticipate && (
+          <div className="relative">
+            <button
+              onClick={() => setPickerOpen(!pickerOpen)}
+              aria-label="Add a reaction"
+              className="p-1.5 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-slate-800 transition-colors"
+            >
+              <SmilePlus size={16} />
+            </button>
+            {pickerOpen && (
+              <div className="absolute bottom-full left-0 mb-2 flex gap-1 p-2 bg-white dark:bg-slate-800 rounded-xl shadow-lg border border-gray-200 dark:border-slate-700 z-10">
+                {UpdateReaction.EMOJIS.map(emoji => (
+                  <button
+                    key={emoji}
+                    onClick={() => handleReact(emoji)}
+                    className="p-1 text-lg rounded-lg hover:bg-gray-100 dark:hover:bg-slate-700 transition-colors"
+                  >
+                    {emoji}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <button
+          onClick={() => setOpen(!open)}
+          className="ml-auto flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 font-medium transition-colors"
+        >
+          <MessageSquare size={12} />
+          {discussion.commentCount === 0
+            ? 'Comment'
+            : `${discussion.commentCount} ${discussion.commentCount === 1 ? 'comment' : 'comments'}`}
+        </button>
+      </div>
+
+      {open && (
+        <div className="space-y-3 pt-3 border-t border-gray-200/50 dark:border-slate-700/50">
+          {discussion.loading && discussion.threads.length === 0 ? (
+            <div className="flex justify-center py-2">
+              <Loader2 className="w-4 h-4 animate-spin text-blue-600 dark:text-blue-400" />
+            </div>
+          ) : (
+            discussion.threads.map(thread => (
+              <div key={thread.comment.id} className="space-y-2">
+                <CommentItem comment={thread.comment} discussion={discussion} />
+                {thread.replies.length > 0 && (
+                  <div className="pl-4 ml-2 border-l-2 border-gray-200 dark:border-slate-700 space-y-2">
+                    {thread.replies.map(reply => (
+                      <CommentItem key={reply.id} comment={reply} discussion={discussion} />
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+
+          {discussion.canParticipate && (
+            <CommentComposer
+              placeholder={`Comment on ${member.name}'s update`}
+              saving={discussion.saving}
+              onSubmit={body => discussion.addComment(body)}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+type Discussion = ReturnType<typeof useUpdateDiscussion>;
+
+function CommentItem({ comment, discussion }: { comment: UpdateComment; discussion: Discussion }) {
+  const [replying, setReplying] = useState(false);
+  const isOwn = comment.teamMemberId === discussion.currentMemberId;
+
+  const handleDelete = () => {
+    if (window.confirm(comment.isReply() ? 'Delete this reply?' : 'Delete this comment and its replies?')) {
+      discussion.deleteComment(comment);
+    }
+  };
+
+  return (
+    <div>
+      <div className="px-3 py-2 rounded-xl bg-gray-50 dark:bg-slate-800/60">
+        <div className="flex items-center justify-between gap-2 mb-1">
+          <span className="text-xs font-semibold text-gray-900 dark:text-white">{comment.authorName}</span>
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            {new Date(comment.createdAt).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+          </span>
+        </div>
+        <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-words">{comment.body}</p>
+      </div>
+      {discussion.canParticipate && (
+        <div className="flex gap-3 mt-1 px-3">
+          <button
+            onClick={() => setReplying(!replying)}
+            className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+          >
+            <Reply size={12} />
+            Reply
+          </button>
+          {isOwn && (
+            <button
+              onClick={handleDelete}
+              disabled={discussion.saving}
+              className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+            >
+              <Trash2 size={12} />
+              Delete
+            </button>
+          )}
+        </div>
+      )}
+      {replying && (
+        <div className="mt-2 pl-4">
+          <CommentComposer
+            placeholder={`Reply to ${comment.authorName}`}
+            saving={discussion.saving}
+            onSubmit={async body => {
+              const posted = await discussion.addComment(body, comment);
+              if (posted) setReplying(false);
+              return posted;
+            }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function CommentComposer({
+  placeholder,
+  saving,
+  onSubmit
+}: {
+  placeholder: string;
+  saving: boolean;
+  onSubmit: (body: string) => Promise<boolean>;
+}) {
+  const [body, setBody] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+    if (await onSubmit(body)) setBody('');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex items-end gap-2">
+      <textarea
+        value={body}
+        onChange={e => setBody(e.target.value)}
+        onKeyDown={e => {
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleSubmit(e);
+        }}
+        placeholder={placeholder}
+        rows={1}
+        maxLength={UpdateComment.MAX_LENGTH}
+        className="flex-1 px-3 py-2 text-sm rounded-xl border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white resize-y"
+      />
+      <button
+        type="submit"
+        disabled={saving || !body.trim()}
+        aria-label="Post comment"
+        className="p-2 rounded-xl bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50 transition-colors"
+      >
+        {saving ? <Loader2 size={16} className="animate-spin" /> : <Send size={16} />}
+      </button>
+    </form>
+  );
+}
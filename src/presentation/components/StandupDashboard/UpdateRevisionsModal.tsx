@@ -0,0 +1,181 @@
+import { useState, useEffect } from 'react';
+import { X, History, Loader2 } from 'lucide-react';
+import { motion, AnimatePresence } from 'motion/react';
+import { TeamMember } from '@/domain/entities/TeamMember';
+import { StandupUpdateRevision } from '@/domain/entities/StandupUpdateRevision';
+import { TextDiff, DiffSegment } from '@/domain/services/TextDiff';
+import { useUpdateRevisions } from '@/presentation/hooks/useUpdateRevisions';
+
+interface UpdateRevisionsModalProps {
+  member: TeamMember | null;
+  onClose: () => void;
+}
+
+const FIELDS: { key: 'yesterday' | 'today' | 'blockers'; label: string }[] = [
+  { key: 'yesterday', label: 'Yesterday' },
+  { key: 'today', label: 'Today' },
+  { key: 'blockers', label: 'Blockers' }
+];
+
+/**
+ * UpdateRevisionsModal Component
+ * Shows every saved version of a standup update and what changed between them
+ */
+export function UpdateRevisionsModal({ member, onClose }: UpdateRevisionsModalProps) {
+  const { revisions, loading, error } = useUpdateRevisions(member?.updateId ?? null);
+  const [selectedNumber, setSelectedNumber] = useState<number | null>(null);
+
+  // Open on the most recent edit
+  useEffect(() => {
+    setSelectedNumber(revisions.length > 0 ? revisions[revisions.length - 1].revisionNumber : null);
+  }, [revisions]);
+
+  if (!member) return null;
+
+  const selectedIndex = revisions.findIndex(revision => revision.revisionNumber === selectedNumber);
+  const selected = revisions[selectedIndex];
+  const previous = selectedIndex > 0 ? revisions[selectedIndex - 1] : undefined;
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      >
+        <motion.div
+          initial={{ opacity: 0, scale: 0.9, y: 20 }}
+          animate={{ opacity: 1, scale: 1, y: 0 }}
+          exit={{ opacity: 0, scale: 0.9, y: 20 }}
+          transition={{ type: "spring", stiffness: 300, damping: 30 }}
+          className="bg-white/90 dark:bg-gray-900/90 backdrop-blur-xl rounded-3xl max-w-2xl w-full max-h-[90vh] overflow-y-auto shadow-2xl border border-white/20 dark:border-gray-700/20"
+        >
+          <div className="sticky top-0 bg-white/80 dark:bg-gray-900/80 backdrop-blur-sm border-b border-white/20 dark:border-gray-700/20 px-8 py-6 flex items-center justify-between rounded-t-3xl z-50">
+            <div className="flex items-center gap-4">
+              <div className="w-12 h-12 bg-gradient-to-br from-blue-500 via-purple-500 to-teal-500 rounded-2xl flex items-center justify-center shadow-lg">
+                <History className="text-white" size={24} />
+              </div>
+              <div>
+                <h2 className="text-2xl font-bold bg-gradient-to-r from-gray-900 to-gray-600 dark:from-white dark:to-gray-300 bg-clip-text text-transparent">
+                  Edit History
+                </h2>
+                <p className="text-sm text-gray-600 dark:text-gray-400">{member.name}'s update</p>
+              </div>
+            </div>
+            <motion.button
+              whileHover={{ scale: 1.1, rotate: 90 }}
+              whileTap={{ scale: 0.9 }}
+              onClick={onClose}
+              className="p-3 bg-white/60 dark:bg-gray-800/60 hover:bg-white/80 dark:hover:bg-gray-800/80 rounded-xl transition-all duration-200 border border-white/20 dark:border-gray-700/20 shadow-sm"
+            >
+              <X size={20} className="text-gray-600 dark:text-gray-400" />
+            </motion.button>
+          </div>
+
+          <div className="p-8 space-y-6">
+            {loading ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="w-6 h-6 animate-spin text-blue-600 dark:text-blue-400" />
+              </div>
+            ) : error ? (
+              <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700/50 rounded-xl text-sm text-red-700 dark:text-red-400">
+                {error}
+              </div>
+            ) : selected ? (
+              <>
+                {/* Revision picker */}
+                <div className="flex flex-wrap gap-2">
+                  {revisions.map(revision => (
+                    <button
+                      key={revision.id}
+                      onClick={() => setSelectedNumber(revision.revisionNumber)}
+                      className={`px-3 py-2 rounded-xl text-sm font-medium transition-all duration-200 ${
+                        revision.revisionNumber === selectedNumber
+                          ? 'bg-blue-600 text-white shadow-lg'
+                          : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+                      }`}
+                    >
+                      {revision.isOriginal() ? 'Original' : `Edit ${revision.revisionNumber - 1}`}
+                      <span className="ml-2 text-xs opacity-75">
+                        {new Date(revision.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  {previous
+                    ? `Changes since the version saved at ${new Date(previous.createdAt).toLocaleString()}`
+                    : `Posted at ${new Date(selected.createdAt).toLocaleString()}`}
+                </p>
+
+                {FIELDS.map(({ key, label }) => (
+                  <RevisionField
+                    key={key}
+                    label={label}
+                    revision={selected}
+                    previous={previous}
+                    field={key}
+                  />
+                ))}
+              </>
+            ) : (
+              <p className="text-center py-12 text-gray-500 dark:text-gray-400">No edit history recorded for this update</p>
+            )}
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+}
+
+// One field of a revision, diffed against the version before it
+function RevisionField({
+  label,
+  revision,
+  previous,
+  field
+}: {
+  label: string;
+  revision: StandupUpdateRevision;
+  previous?: StandupUpdateRevision;
+  field: 'yesterday' | 'today' | 'blockers';
+}) {
+  const after = revision[field];
+  const before = previous ? previous[field] : after;
+
+  if (!TextDiff.toPlainText(before) && !TextDiff.toPlainText(after)) return null;
+
+  const segments: DiffSegment[] = TextDiff.diff(before, after);
+  const changed = previous !== undefined && !TextDiff.isSame(before, after);
+
+  return (
+    <div className="bg-gray-50/80 dark:bg-gray-800/50 rounded-2xl p-4 border border-gray-200/50 dark:border-gray-700/50">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-bold text-gray-700 dark:text-gray-300 uppercase tracking-wide">{label}</h4>
+        {changed && (
+          <span className="text-xs font-medium px-2 py-1 rounded-full bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400">
+            Changed
+          </span>
+        )}
+      </div>
+      <p className="text-sm text-gray-800 dark:text-gray-200 leading-relaxed whitespace-pre-wrap">
+        {segments.map((segment, index) => (
+          <span
+            key={index}
+            className={
+              segment.type === 'added'
+                ? 'bg-emerald-100 dark:bg-emerald-900/40 text-emerald-800 dark:text-emerald-300'
+                : segment.type === 'removed'
+                  ? 'bg-red-100 dark:bg-red-900/40 text-red-800 dark:text-red-300 line-through'
+                  : undefined
+            }
+          >
+            {segment.text}
+          </span>
+        ))}
+      </p>
+    </div>
+  );
+}
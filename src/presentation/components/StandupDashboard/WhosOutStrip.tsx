@@ -0,0 +1,234 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { Plane, Plus, X, Trash2 } from 'lucide-react';
+
+import { MemberAbsence, AbsenceKind } from '@/domain/entities/MemberAbsence';
+import { MemberAbsenceInput } from '@/domain/repositories/StandupRepository';
+import { useAbsences } from '@/presentation/hooks/useAbsences';
+import { useCurrentMember } from '@/presentation/hooks/useCurrentMember';
+import { useTeamRoster } from '@/presentation/hooks/useTeamRoster';
+
+interface WhosOutStripProps {
+  onAbsencesChange?: () => void;
+}
+
+/**
+ * WhosOutStrip Component
+ * Shows who is out today and in the next two weeks, and lets members record time off
+ * Roster managers can record time off for anyone; everyone else only for themselves
+ */
+export function WhosOutStrip({ onAbsencesChange }: WhosOutStripProps) {
+  const { outToday, upcoming, today, saving, recordAbsence, deleteAbsence } = useAbsences(onAbsencesChange);
+  const { member: currentMember, can } = useCurrentMember();
+  const { activeMembers } = useTeamRoster();
+  const [showForm, setShowForm] = useState(false);
+
+  const canManageAll = can('manage_roster');
+  const canRecordOwn = !!currentMember && can('post_updates');
+
+  const canDelete = (absence: MemberAbsence) =>
+    canManageAll || (canRecordOwn && absence.teamMemberId === currentMember?.id);
+
+  const handleDelete = async (absence: MemberAbsence) => {
+    if (window.confirm(`Remove ${absence.getLabel().toLowerCase()} for ${absence.memberName}?`)) {
+      await deleteAbsence(absence);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.5 }}
+      className="mb-8 bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm rounded-2xl border border-white/20 dark:border-slate-700/20 p-4 shadow-lg"
+    >
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex items-center gap-2 mr-2">
+          <Plane size={18} className="text-amber-500" />
+          <span className="text-sm font-semibold text-gray-900 dark:text-white">Who's out</span>
+        </div>
+
+        {outToday.length === 0 && upcoming.length === 0 && (
+          <span className="text-sm text-gray-500 dark:text-gray-400">Everyone is in for the next two weeks</span>
+        )}
+
+        {outToday.map(absence => (
+          <AbsenceChip
+            key={absence.id}
+            absence={absence}
+            label="today"
+            highlighted
+            onDelete={canDelete(absence) ? () => handleDelete(absence) : undefined}
+            disabled={saving}
+          />
+        ))}
+
+        {upcoming.map(absence => (
+          <AbsenceChip
+            key={absence.id}
+            absence={absence}
+            label={formatRange(absence)}
+            onDelete={canDelete(absence) ? () => handleDelete(absence) : undefined}
+            disabled={saving}
+          />
+        ))}
+
+        {(canManageAll || canRecordOwn) && (
+          <button
+            onClick={() => setShowForm(!showForm)}
+            className="ml-auto flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-amber-700 dark:text-amber-300 hover:bg-amber-50 dark:hover:bg-amber-900/20 rounded-lg transition-colors"
+          >
+            {showForm ? <X size={16} /> : <Plus size={16} />}
+            <span>{showForm ? 'Cancel' : 'Add time off'}</span>
+          </button>
+        )}
+      </div>
+
+      <AnimatePresence>
+        {showForm && (
+          <AbsenceForm
+            today={today}
+            members={canManageAll ? activeMembers.map(m => ({ id: m.id, name: m.name })) : []}
+            defaultMemberId={currentMember?.id ?? activeMembers[0]?.id ?? ''}
+            saving={saving}
+            onSubmit={async (input) => {
+              if (await recordAbsence(input)) setShowForm(false);
+            }}
+          />
+        )}
+      </AnimatePresence>
+    </motion.div>
+  );
+}
+
+function AbsenceChip({
+  absence,
+  label,
+  highlighted = false,
+  onDelete,
+  disabled
+}: {
+  absence: MemberAbsence;
+  label: string;
+  highlighted?: boolean;
+  onDelete?: () => void;
+  disabled: boolean;
+}) {
+  return (
+    <span
+      title={absence.note ?? undefined}
+      className={`inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-medium ${
+        highlighted
+          ? 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-200'
+          : 'bg-gray-100 text-gray-700 dark:bg-slate-800 dark:text-gray-300'
+      }`}
+    >
+      <span className="font-semibold">{absence.memberName}</span>
+      <span>· {absence.getLabel()} · {label}</span>
+      {onDelete && (
+        <button
+          onClick={onDelete}
+          disabled={disabled}
+          className="ml-0.5 opacity-60 hover:opacity-100 disabled:cursor-not-allowed"
+          title="Remove"
+        >
+          <Trash2 size={12} />
+        </button>
+      )}
+    </span>
+  );
+}
+
+function AbsenceForm({
+  today,
+  members,
+  defaultMemberId,
+  saving,
+  onSubmit
+}: {
+  today: string;
+  members: { id: string; name: string }[];
+  defaultMemberId: string;
+  saving: boolean;
+  onSubmit: (input: MemberAbsenceInput) => Promise<void>;
+}) {
+  const [teamMemberId, setTeamMemberId] = useState(defaultMemberId);
+  const [kind, setKind] = useState<AbsenceKind>('pto');
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState(today);
+  const [note, setNote] = useState('');
+
+  const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-amber-500 focus:border-transparent';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await onSubmit({ teamMemberId, kind, startDate, endDate, note });
+  };
+
+  return (
+    <motion.form
+      initial={{ opacity: 0, height: 0 }}
+      animate={{ opacity: 1, height: 'auto' }}
+      exit={{ opacity: 0, height: 0 }}
+      onSubmit={handleSubmit}
+      className="mt-4 pt-4 border-t border-gray-200/50 dark:border-slate-700/50 grid grid-cols-1 md:grid-cols-6 gap-3 md:items-end overflow-hidden"
+    >
+      {members.length > 0 && (
+        <div>
+          <label htmlFor="absenceMember" className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Member</label>
+          <select id="absenceMember" value={teamMemberId} onChange={(e) => setTeamMemberId(e.target.value)} className={inputClass}>
+            {members.map(member => (
+              <option key={member.id} value={member.id}>{member.name}</option>
+            ))}
+          </select>
+        </div>
+      )}
+      <div>
+        <label htmlFor="absenceKind" className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Type</label>
+        <select id="absenceKind" value={kind} onChange={(e) => setKind(e.target.value as AbsenceKind)} className={inputClass}>
+          {MemberAbsence.KINDS.map(k => (
+            <option key={k} value={k}>{MemberAbsence.getKindLabel(k)}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label htmlFor="absenceStart" className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">From</label>
+        <input
+          id="absenceStart"
+          type="date"
+          value={startDate}
+          onChange={(e) => {
+            setStartDate(e.target.value);
+            if (endDate < e.target.value) setEndDate(e.target.value);
+          }}
+          className={inputClass}
+          required
+        />
+      </div>
+      <div>
+        <label htmlFor="absenceEnd" className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">To</label>
+        <input id="absenceEnd" type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} className={inputClass} required />
+      </div>
+      <div className={members.length > 0 ? '' : 'md:col-span-2'}>
+        <label htmlFor="absenceNote" className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Note (optional)</label>
+        <input id="absenceNote" type="text" value={note} onChange={(e) => setNote(e.target.value)} className={inputClass} />
+      </div>
+      <button
+        type="submit"
+        disabled={saving || !teamMemberId || !startDate || !endDate}
+        className="px-4 py-2 text-sm font-medium text-white bg-amber-600 rounded-xl hover:bg-amber-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        {saving ? 'Saving...' : 'Save'}
+      </button>
+    </motion.form>
+  );
+}
+
+function formatRange(absence: MemberAbsence): string {
+  const format = (date: string) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+  return absence.startDate === absence.endDate
+    ? format(absence.startDate)
+    : `${format(absence.startDate)} – ${format(absence.endDate)}`;
+}
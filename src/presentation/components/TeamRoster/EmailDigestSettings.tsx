@@ -0,0 +1,104 @@
+import { useState, useEffect } from 'react';
+import { Mail, Save, Trash2 } from 'lucide-react';
+
+import { EmailDigestSettings as EmailDigestSettingsEntity } from '@/domain/entities/EmailDigestSettings';
+import { useTeams } from '@/presentation/hooks/useTeams';
+import { useEmailDigestSettings } from '@/presentation/hooks/useEmailDigestSettings';
+import { useCurrentMember } from '@/presentation/hooks/useCurrentMember';
+
+/**
+ * EmailDigestSettings Component
+ * Sets the distribution list each new weekly report is emailed to
+ */
+export function EmailDigestSettings() {
+  const { currentTeam } = useTeams();
+  const { settings, loading, saving, saveSettings, removeSettings } = useEmailDigestSettings();
+  const { can } = useCurrentMember();
+  const canEdit = can('manage_team_settings');
+
+  const [recipients, setRecipients] = useState('');
+  const [weeklyReportEnabled, setWeeklyReportEnabled] = useState(true);
+
+  useEffect(() => {
+    setRecipients(settings?.recipients.join('\n') ?? '');
+    setWeeklyReportEnabled(settings?.weeklyReportEnabled ?? true);
+  }, [settings]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await saveSettings({ recipients: EmailDigestSettingsEntity.parseRecipients(recipients), weeklyReportEnabled });
+  };
+
+  const handleRemove = async () => {
+    if (window.confirm(`Stop emailing ${currentTeam.name}'s weekly reports and remove the distribution list?`)) {
+      await removeSettings();
+    }
+  };
+
+  return (
+    <div className="bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm rounded-2xl border border-white/20 dark:border-slate-700/20 p-6 shadow-lg">
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-3">
+          <Mail className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Email Digest</h3>
+        </div>
+        {canEdit && settings && (
+          <button
+            type="button"
+            onClick={handleRemove}
+            disabled={saving}
+            className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-red-600 dark:text-red-400 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-xl hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Trash2 className="w-4 h-4" />
+            <span>Remove</span>
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Email each new {currentTeam.name} weekly report to a distribution list, such as stakeholders outside the team.
+        {!canEdit && ' Only team leads and admins can see and change it.'}
+      </p>
+
+      {canEdit && (loading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading email digest settings...</p>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="emailDigestRecipients" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Recipients (one per line or comma-separated, up to {EmailDigestSettingsEntity.MAX_RECIPIENTS})
+            </label>
+            <textarea
+              id="emailDigestRecipients"
+              value={recipients}
+              onChange={(e) => setRecipients(e.target.value)}
+              placeholder={'lead@example.com\nstakeholders@example.com'}
+              rows={4}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              disabled={saving}
+              required
+            />
+          </div>
+          <label htmlFor="emailDigestWeeklyReport" className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              id="emailDigestWeeklyReport"
+              type="checkbox"
+              checked={weeklyReportEnabled}
+              onChange={(e) => setWeeklyReportEnabled(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              disabled={saving}
+            />
+            Email each new weekly report to the list
+          </label>
+          <button
+            type="submit"
+            disabled={saving || !recipients.trim()}
+            className="flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 dark:bg-blue-500 rounded-xl hover:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Save className="w-4 h-4" />
+            <span>Save</span>
+          </button>
+        </form>
+      ))}
+    </div>
+  );
+}
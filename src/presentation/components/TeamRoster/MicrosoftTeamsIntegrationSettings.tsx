@@ -0,0 +1,132 @@
+import { useState, useEffect } from 'react';
+import { MessagesSquare, Save, Unplug } from 'lucide-react';
+
+import { useTeams } from '@/presentation/hooks/useTeams';
+import { useMicrosoftTeamsIntegration } from '@/presentation/hooks/useMicrosoftTeamsIntegration';
+import { useCurrentMember } from '@/presentation/hooks/useCurrentMember';
+
+/**
+ * MicrosoftTeamsIntegrationSettings Component
+ * Connects the team to a Microsoft Teams channel through an incoming webhook, and to the standup bot
+ * through its Microsoft 365 tenant; bot users are matched to the roster by email
+ */
+export function MicrosoftTeamsIntegrationSettings() {
+  const { currentTeam } = useTeams();
+  const { integration, loading, saving, saveIntegration, disconnect } = useMicrosoftTeamsIntegration();
+  const { can } = useCurrentMember();
+  const canEdit = can('manage_team_settings');
+
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [tenantId, setTenantId] = useState('');
+  const [digestEnabled, setDigestEnabled] = useState(true);
+  const [weeklyReportEnabled, setWeeklyReportEnabled] = useState(true);
+
+  useEffect(() => {
+    setWebhookUrl(integration?.webhookUrl ?? '');
+    setTenantId(integration?.tenantId ?? '');
+    setDigestEnabled(integration?.digestEnabled ?? true);
+    setWeeklyReportEnabled(integration?.weeklyReportEnabled ?? true);
+  }, [integration]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await saveIntegration({ webhookUrl, tenantId: tenantId || null, digestEnabled, weeklyReportEnabled });
+  };
+
+  const handleDisconnect = async () => {
+    if (window.confirm(`Disconnect ${currentTeam.name} from Microsoft Teams? Digests and reports will stop being posted there.`)) {
+      await disconnect();
+    }
+  };
+
+  const toggles = [
+    { id: 'teamsDigest', label: "Post the day's digest to the channel an hour after standup", checked: digestEnabled, onChange: setDigestEnabled },
+    { id: 'teamsWeeklyReport', label: 'Post each new weekly report to the channel', checked: weeklyReportEnabled, onChange: setWeeklyReportEnabled }
+  ];
+
+  return (
+    <div className="bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm rounded-2xl border border-white/20 dark:border-slate-700/20 p-6 shadow-lg">
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-3">
+          <MessagesSquare className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Microsoft Teams</h3>
+        </div>
+        {canEdit && integration && (
+          <button
+            type="button"
+            onClick={handleDisconnect}
+            disabled={saving}
+            className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-red-600 dark:text-red-400 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-xl hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Unplug className="w-4 h-4" />
+            <span>Disconnect</span>
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Post {currentTeam.name}'s digest and weekly reports to a Teams channel as cards. Add your Microsoft 365 tenant ID
+        to let members post their update by messaging the standup bot; they are matched by the email on the roster.
+        {!canEdit && ' Only team leads and admins can see and change it.'}
+      </p>
+
+      {canEdit && (loading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading Microsoft Teams settings...</p>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="teamsWebhookUrl" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Channel webhook URL
+            </label>
+            <input
+              id="teamsWebhookUrl"
+              type="url"
+              value={webhookUrl}
+              onChange={(e) => setWebhookUrl(e.target.value)}
+              placeholder="https://..."
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              disabled={saving}
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="teamsTenantId" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Tenant ID (optional, for the bot)
+            </label>
+            <input
+              id="teamsTenantId"
+              type="text"
+              value={tenantId}
+              onChange={(e) => setTenantId(e.target.value)}
+              placeholder="e.g. 72f988bf-86f1-41af-91ab-2d7cd011db47"
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              disabled={saving}
+            />
+          </div>
+          <div className="space-y-2">
+            {toggles.map(toggle => (
+              <label key={toggle.id} htmlFor={toggle.id} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  id={toggle.id}
+                  type="checkbox"
+                  checked={toggle.checked}
+                  onChange={(e) => toggle.onChange(e.target.checked)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  disabled={saving}
+                />
+                {toggle.label}
+              </label>
+            ))}
+          </div>
+          <button
+            type="submit"
+            disabled={saving || !webhookUrl.trim()}
+            className="flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 dark:bg-blue-500 rounded-xl hover:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Save className="w-4 h-4" />
+            <span>{integration ? 'Save' : 'Connect'}</span>
+          </button>
+        </form>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { Smartphone, BellOff, BellRing } from 'lucide-react';
+
+import { useTeams } from '@/presentation/hooks/useTeams';
+import { useCurrentMember } from '@/presentation/hooks/useCurrentMember';
+import { usePushNotifications } from '@/presentation/hooks/usePushNotifications';
+
+/**
+ * PushNotificationSettings Component
+ * Turns push notifications on or off in this browser for the signed-in member of the current team
+ */
+export function PushNotificationSettings() {
+  const { currentTeam } = useTeams();
+  const { member } = useCurrentMember();
+  const { supported, permission, subscribed, loading, saving, enable, disable } = usePushNotifications();
+
+  if (!member) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm rounded-2xl border border-white/20 dark:border-slate-700/20 p-6 shadow-lg">
+      <div className="flex items-center gap-3 mb-4">
+        <Smartphone className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Push Notifications</h3>
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Get a notification in this browser when {currentTeam.name}'s weekly report is ready, and for standup
+        reminders if you choose push above. Install the app from your browser's menu to get them on your phone.
+        {!supported && ' This browser doesn\'t support push notifications, or they aren\'t set up for this site.'}
+        {supported && permission === 'denied' && ' Notifications are blocked for this site; allow them in your browser settings first.'}
+      </p>
+
+      {supported && !loading && (subscribed ? (
+        <button
+          type="button"
+          onClick={disable}
+          disabled={saving}
+          className="flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-xl hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <BellOff className="w-4 h-4" />
+          <span>Turn off in this browser</span>
+        </button>
+      ) : (
+        <button
+          type="button"
+          onClick={enable}
+          disabled={saving || permission === 'denied'}
+          className="flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 dark:bg-blue-500 rounded-xl hover:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <BellRing className="w-4 h-4" />
+          <span>Turn on in this browser</span>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { Bell } from 'lucide-react';
+
+import { RosterMember, ReminderChannel } from '@/domain/entities/RosterMember';
+import { useTeams } from '@/presentation/hooks/useTeams';
+import { useCurrentMember } from '@/presentation/hooks/useCurrentMember';
+
+/**
+ * ReminderPreferenceSettings Component
+ * Lets the signed-in member choose how they are reminded when they haven't posted by the team's reminder time
+ */
+export function ReminderPreferenceSettings({
+  saving,
+  onChange
+}: {
+  saving: boolean;
+  onChange: (channel: ReminderChannel) => Promise<boolean>;
+}) {
+  const { currentTeam, timezone } = useTeams();
+  const { member, can } = useCurrentMember();
+
+  if (!member || !can('post_updates')) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm rounded-2xl border border-white/20 dark:border-slate-700/20 p-6 shadow-lg">
+      <div className="flex items-center gap-3 mb-4">
+        <Bell className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">My Reminders</h3>
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        {currentTeam.reminderTime
+          ? `If you haven't posted by ${currentTeam.reminderTime} ${timezone} on a working day, ${currentTeam.name} reminds you here. You aren't reminded on days you're out.`
+          : `${currentTeam.name} doesn't send reminders yet; a team lead can turn them on above.`}
+        {member.reminderChannel === 'email' && !member.email && ' Your roster entry has no email address, so email reminders can\'t reach you.'}
+        {member.reminderChannel === 'push' && ' Turn on push notifications below in each browser you want to be reminded in.'}
+      </p>
+
+      <label htmlFor="myReminderChannel" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+        Remind me by
+      </label>
+      <select
+        id="myReminderChannel"
+        value={member.reminderChannel}
+        onChange={(e) => onChange(e.target.value as ReminderChannel)}
+        className="w-full md:w-64 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-60"
+        disabled={saving}
+      >
+        {RosterMember.REMINDER_CHANNELS.map(channel => (
+          <option key={channel} value={channel}>{RosterMember.getReminderChannelLabel(channel)}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { useState, useEffect } from 'react';
+import { Slack, Save, Unplug } from 'lucide-react';
+
+import { useTeams } from '@/presentation/hooks/useTeams';
+import { useSlackIntegration } from '@/presentation/hooks/useSlackIntegration';
+import { useCurrentMember } from '@/presentation/hooks/useCurrentMember';
+
+/**
+ * SlackIntegrationSettings Component
+ * Connects the team to a Slack workspace and channel
+ * Members are matched to Slack users by their roster email
+ */
+export function SlackIntegrationSettings() {
+  const { currentTeam } = useTeams();
+  const { integration, loading, saving, saveIntegration, disconnect } = useSlackIntegration();
+  const { can } = useCurrentMember();
+  const canEdit = can('manage_team_settings');
+
+  const [slackTeamId, setSlackTeamId] = useState('');
+  const [channelId, setChannelId] = useState('');
+  const [promptsEnabled, setPromptsEnabled] = useState(true);
+  const [digestEnabled, setDigestEnabled] = useState(true);
+  const [weeklyReportEnabled, setWeeklyReportEnabled] = useState(true);
+
+  useEffect(() => {
+    setSlackTeamId(integration?.slackTeamId ?? '');
+    setChannelId(integration?.channelId ?? '');
+    setPromptsEnabled(integration?.promptsEnabled ?? true);
+    setDigestEnabled(integration?.digestEnabled ?? true);
+    setWeeklyReportEnabled(integration?.weeklyReportEnabled ?? true);
+  }, [integration]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await saveIntegration({ slackTeamId, channelId, promptsEnabled, digestEnabled, weeklyReportEnabled });
+  };
+
+  const handleDisconnect = async () => {
+    if (window.confirm(`Disconnect ${currentTeam.name} from Slack? Members will stop getting standup prompts there.`)) {
+      await disconnect();
+    }
+  };
+
+  const toggles = [
+    { id: 'slackPrompts', label: 'DM each member at standup time', checked: promptsEnabled, onChange: setPromptsEnabled },
+    { id: 'slackDigest', label: "Post the day's digest to the channel an hour later", checked: digestEnabled, onChange: setDigestEnabled },
+    { id: 'slackWeeklyReport', label: 'Post each new weekly report to the channel', checked: weeklyReportEnabled, onChange: setWeeklyReportEnabled }
+  ];
+
+  return (
+    <div className="bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm rounded-2xl border border-white/20 dark:border-slate-700/20 p-6 shadow-lg">
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-3">
+          <Slack className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Slack</h3>
+        </div>
+        {canEdit && integration && (
+          <button
+            type="button"
+            onClick={handleDisconnect}
+            disabled={saving}
+            className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-red-600 dark:text-red-400 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-xl hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Unplug className="w-4 h-4" />
+            <span>Disconnect</span>
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        {integration
+          ? `${currentTeam.name} is connected to Slack. Members can also post with /standup.`
+          : `Connect ${currentTeam.name} to Slack so members can post their standup from a Slack message.`}
+        {' '}Members are matched to Slack users by the email on the roster.
+        {!canEdit && ' Only team leads and admins can change it.'}
+      </p>
+
+      {loading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading Slack settings...</p>
+      ) : canEdit ? (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="slackTeamId" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Workspace ID
+              </label>
+              <input
+                id="slackTeamId"
+                type="text"
+                value={slackTeamId}
+                onChange={(e) => setSlackTeamId(e.target.value)}
+                placeholder="e.g. T012AB3C4"
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                disabled={saving}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="slackChannelId" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Channel ID
+              </label>
+              <input
+                id="slackChannelId"
+                type="text"
+                value={channelId}
+                onChange={(e) => setChannelId(e.target.value)}
+                placeholder="e.g. C012AB3C4"
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                disabled={saving}
+                required
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            {toggles.map(toggle => (
+              <label key={toggle.id} htmlFor={toggle.id} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  id={toggle.id}
+                  type="checkbox"
+                  checked={toggle.checked}
+                  onChange={(e) => toggle.onChange(e.target.checked)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  disabled={saving}
+                />
+                {toggle.label}
+              </label>
+            ))}
+          </div>
+          <button
+            type="submit"
+            disabled={saving || !slackTeamId.trim() || !channelId.trim()}
+            className="flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 dark:bg-blue-500 rounded-xl hover:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Save className="w-4 h-4" />
+            <span>{integration ? 'Save' : 'Connect'}</span>
+          </button>
+        </form>
+      ) : integration ? (
+        <p className="text-sm text-gray-700 dark:text-gray-300">
+          Posting to channel <span className="font-mono">{integration.channelId}</span>.
+        </p>
+      ) : null}
+    </div>
+  );
+}
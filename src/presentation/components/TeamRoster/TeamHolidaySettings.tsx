@@ -0,0 +1,154 @@
+import { useState, useRef } from 'react';
+import { CalendarOff, Plus, Upload, Trash2 } from 'lucide-react';
+
+import { TeamCalendar } from '@/domain/services/TeamCalendar';
+import { useTeams } from '@/presentation/hooks/useTeams';
+import { useHolidays } from '@/presentation/hooks/useHolidays';
+import { useCurrentMember } from '@/presentation/hooks/useCurrentMember';
+
+/**
+ * TeamHolidaySettings Component
+ * Maintains the team holiday calendar, by hand or from an .ics file
+ * Holidays are skipped when working out "yesterday", participation and weekly report working days
+ */
+export function TeamHolidaySettings() {
+  const { currentTeam, timezone } = useTeams();
+  const { holidays, saving, addHoliday, importIcs, deleteHoliday } = useHolidays();
+  const { can } = useCurrentMember();
+  const canEdit = can('manage_team_settings');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const today = TeamCalendar.getDate(timezone);
+  const [date, setDate] = useState(today);
+  const [name, setName] = useState('');
+
+  const upcoming = holidays.filter(holiday => holiday.date >= today);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await addHoliday({ date, name })) {
+      setName('');
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) {
+      await importIcs(file);
+    }
+  };
+
+  const formatDate = (value: string) => {
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      timeZone: 'UTC'
+    });
+  };
+
+  return (
+    <div className="bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm rounded-2xl border border-white/20 dark:border-slate-700/20 p-6 shadow-lg">
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-3">
+          <CalendarOff className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Holiday Calendar</h3>
+        </div>
+        {canEdit && (
+          <>
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={saving}
+              className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-xl hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <Upload className="w-4 h-4" />
+              <span>Import .ics</span>
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".ics,text/calendar"
+              onChange={handleImport}
+              className="hidden"
+            />
+          </>
+        )}
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Days {currentTeam.name} is off. They are skipped like weekends, so the day after a holiday asks about the last working day,
+        and participation and weekly reports only count working days.
+        {!canEdit && ' Only team leads and admins can change it.'}
+      </p>
+
+      {canEdit && (
+        <form onSubmit={handleAdd} className="flex flex-col md:flex-row gap-4 md:items-end mb-4">
+          <div>
+            <label htmlFor="holidayDate" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Date
+            </label>
+            <input
+              id="holidayDate"
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              disabled={saving}
+              required
+            />
+          </div>
+          <div className="flex-1">
+            <label htmlFor="holidayName" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Name
+            </label>
+            <input
+              id="holidayName"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Canada Day"
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              disabled={saving}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={saving || !date || !name.trim()}
+            className="flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 dark:bg-blue-500 rounded-xl hover:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add Holiday</span>
+          </button>
+        </form>
+      )}
+
+      {upcoming.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No upcoming holidays.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200/50 dark:divide-slate-700/50 max-h-64 overflow-y-auto">
+          {upcoming.map(holiday => (
+            <li key={holiday.id} className="flex items-center justify-between py-2">
+              <div>
+                <span className="text-sm font-medium text-gray-900 dark:text-white">{holiday.name}</span>
+                <span className="ml-3 text-sm text-gray-500 dark:text-gray-400">{formatDate(holiday.date)}</span>
+              </div>
+              {canEdit && (
+                <button
+                  onClick={() => deleteHoliday(holiday)}
+                  disabled={saving}
+                  className="p-2 text-gray-400 hover:text-red-600 dark:hover:text-red-400 rounded-lg transition-colors disabled:opacity-50"
+                  title="Remove holiday"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,362 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { UserPlus, Edit, Archive, RotateCcw, Save, X, Users } from 'lucide-react';
+
+import { RosterMember } from '@/domain/entities/RosterMember';
+import { TeamRole, TeamRoleName } from '@/domain/value-objects/TeamRole';
+import { useTeamRoster } from '@/presentation/hooks/useTeamRoster';
+import { useCurrentMember } from '@/presentation/hooks/useCurrentMember';
+import { PasskeyManagement } from '@/components/PasskeyManagement';
+import { ApiKeyManagement } from '@/components/ApiKeyManagement';
+import { TeamTimezoneSettings } from './TeamTimezoneSettings';
+import { TeamHolidaySettings } from './TeamHolidaySettings';
+import { SlackIntegrationSettings } from './SlackIntegrationSettings';
+import { MicrosoftTeamsIntegrationSettings } from './MicrosoftTeamsIntegrationSettings';
+import { EmailDigestSettings } from './EmailDigestSettings';
+import { ReminderPreferenceSettings } from './ReminderPreferenceSettings';
+import { PushNotificationSettings } from './PushNotificationSettings';
+
+/**
+ * TeamRoster Component
+ * Lets the team add, edit and archive the people who post standup updates
+ * Controls are shown according to the signed-in user's role
+ */
+export function TeamRoster() {
+  const {
+    activeMembers,
+    archivedMembers,
+    loading,
+    saving,
+    error,
+    addMember,
+    updateMember,
+    archiveMember,
+    restoreMember,
+    changeRole,
+    updateReminderChannel
+  } = useTeamRoster();
+  const { can } = useCurrentMember();
+  const canManageRoster = can('manage_roster');
+  const canManageRoles = can('manage_roles');
+
+  const [newName, setNewName] = useState('');
+  const [newRole, setNewRole] = useState('');
+  const [newEmail, setNewEmail] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [editRole, setEditRole] = useState('');
+  const [editEmail, setEditEmail] = useState('');
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const added = await addMember({ name: newName, role: newRole, email: newEmail });
+    if (added) {
+      setNewName('');
+      setNewRole('');
+      setNewEmail('');
+    }
+  };
+
+  const startEditing = (member: RosterMember) => {
+    setEditingId(member.id);
+    setEditName(member.name);
+    setEditRole(member.role);
+    setEditEmail(member.email ?? '');
+  };
+
+  const handleSaveEdit = async (member: RosterMember) => {
+    const updated = await updateMember(member.id, { name: editName, role: editRole, email: editEmail });
+    if (updated) {
+      setEditingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white/80 dark:bg-gray-900/80 backdrop-blur-sm rounded-2xl border border-white/20 dark:border-gray-700/20 p-6 shadow-lg">
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 dark:border-blue-400"></div>
+          <span className="ml-3 text-gray-600 dark:text-gray-400">Loading team roster...</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.2 }}
+      >
+        <h2 className="text-3xl font-bold bg-gradient-to-r from-gray-900 to-gray-600 dark:from-white dark:to-gray-300 bg-clip-text text-transparent mb-2">
+          Team Roster
+        </h2>
+        <p className="text-gray-600 dark:text-gray-400">
+          Manage who can post standup updates. Members sign in with the email listed here. Archived members keep their history.
+        </p>
+      </motion.div>
+
+      <TeamTimezoneSettings />
+
+      <ReminderPreferenceSettings saving={saving} onChange={updateReminderChannel} />
+
+      <PushNotificationSettings />
+
+      <TeamHolidaySettings />
+
+      <SlackIntegrationSettings />
+
+      <MicrosoftTeamsIntegrationSettings />
+
+      <EmailDigestSettings />
+
+      {error && (
+        <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700/50 rounded-xl text-sm text-red-700 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {/* Add member form */}
+      {canManageRoster && (
+        <form
+          onSubmit={handleAdd}
+          className="bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm rounded-2xl border border-white/20 dark:border-slate-700/20 p-6 shadow-lg flex flex-col md:flex-row gap-4 md:items-end"
+        >
+          <div className="flex-1">
+            <label htmlFor="rosterName" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Name
+            </label>
+            <input
+              id="rosterName"
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="New team member"
+              disabled={saving}
+            />
+          </div>
+          <div className="flex-1">
+            <label htmlFor="rosterRole" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Role
+            </label>
+            <input
+              id="rosterRole"
+              type="text"
+              value={newRole}
+              onChange={(e) => setNewRole(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="Developer"
+              disabled={saving}
+            />
+          </div>
+          <div className="flex-1">
+            <label htmlFor="rosterEmail" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Email
+            </label>
+            <input
+              id="rosterEmail"
+              type="email"
+              value={newEmail}
+              onChange={(e) => setNewEmail(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="name@company.com"
+              disabled={saving}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={saving || !newName.trim() || !newRole.trim()}
+            className="flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 dark:bg-blue-500 rounded-xl hover:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <UserPlus className="w-4 h-4" />
+            <span>Add Member</span>
+          </button>
+        </form>
+      )}
+
+      {/* Active members */}
+      <div className="bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm rounded-2xl border border-white/20 dark:border-slate-700/20 p-6 shadow-lg">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Active Members</h3>
+          <span className="text-sm text-gray-500 dark:text-gray-400">{activeMembers.length} members</span>
+        </div>
+
+        {activeMembers.length === 0 ? (
+          <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+            <Users className="mx-auto h-10 w-10 mb-3 text-gray-400 dark:text-gray-500" />
+            <p>No team members yet.{canManageRoster && ' Add the first one above.'}</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200/50 dark:divide-slate-700/50">
+            <AnimatePresence>
+              {activeMembers.map((member) => (
+                <motion.li
+                  key={member.id}
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  exit={{ opacity: 0 }}
+                  className="py-3 flex items-center gap-4"
+                >
+                  <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-teal-500 rounded-full flex items-center justify-center text-white font-semibold">
+                    {member.name.charAt(0).toUpperCase()}
+                  </div>
+
+                  {editingId === member.id ? (
+                    <div className="flex-1 flex flex-col md:flex-row gap-2">
+                      <input
+                        type="text"
+                        value={editName}
+                        onChange={(e) => setEditName(e.target.value)}
+                        className="flex-1 px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white"
+                        disabled={saving}
+                      />
+                      <input
+                        type="text"
+                        value={editRole}
+                        onChange={(e) => setEditRole(e.target.value)}
+                        className="flex-1 px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white"
+                        disabled={saving}
+                      />
+                      <input
+                        type="email"
+                        value={editEmail}
+                        onChange={(e) => setEditEmail(e.target.value)}
+                        className="flex-1 px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white disabled:opacity-60"
+                        placeholder="Email"
+                        title={member.isLinked() ? 'The email is fixed once the member has signed in' : undefined}
+                        disabled={saving || member.isLinked()}
+                      />
+                    </div>
+                  ) : (
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-gray-900 dark:text-white truncate">{member.name}</p>
+                      <p className="text-sm text-gray-600 dark:text-gray-400 truncate">
+                        {member.role}
+                        {member.email && ` · ${member.email}`}
+                      </p>
+                    </div>
+                  )}
+
+                  {editingId !== member.id && (canManageRoles ? (
+                    <select
+                      value={member.accessRole}
+                      onChange={(e) => changeRole(member, e.target.value as TeamRoleName)}
+                      className="text-xs font-medium px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+                      title="Access role"
+                      disabled={saving}
+                    >
+                      {TeamRole.ROLES.map(role => (
+                        <option key={role} value={role}>{new TeamRole(role).getLabel()}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span
+                      className="text-xs font-medium px-2 py-1 rounded-lg text-blue-700 dark:text-blue-300 bg-blue-50 dark:bg-blue-900/20"
+                      title="Access role"
+                    >
+                      {member.getRole().getLabel()}
+                    </span>
+                  ))}
+
+                  {editingId !== member.id && (
+                    <span
+                      className={`text-xs font-medium px-2 py-1 rounded-lg ${
+                        member.isLinked()
+                          ? 'text-emerald-700 dark:text-emerald-300 bg-emerald-50 dark:bg-emerald-900/20'
+                          : 'text-gray-500 dark:text-gray-400 bg-gray-100 dark:bg-slate-800'
+                      }`}
+                    >
+                      {member.isLinked() ? 'Signed in' : member.email ? 'Invited' : 'No email'}
+                    </span>
+                  )}
+
+                  {canManageRoster && (
+                    <div className="flex items-center gap-2">
+                      {editingId === member.id ? (
+                        <>
+                          <button
+                            onClick={() => handleSaveEdit(member)}
+                            disabled={saving}
+                            className="p-2 text-emerald-600 dark:text-emerald-400 hover:bg-emerald-50 dark:hover:bg-emerald-900/20 rounded-lg transition-colors disabled:opacity-50"
+                            title="Save"
+                          >
+                            <Save size={16} />
+                          </button>
+                          <button
+                            onClick={() => setEditingId(null)}
+                            disabled={saving}
+                            className="p-2 text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-slate-800 rounded-lg transition-colors disabled:opacity-50"
+                            title="Cancel"
+                          >
+                            <X size={16} />
+                          </button>
+                        </>
+                      ) : (
+                        <>
+                          <button
+                            onClick={() => startEditing(member)}
+                            disabled={saving}
+                            className="p-2 text-gray-500 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors disabled:opacity-50"
+                            title="Edit"
+                          >
+                            <Edit size={16} />
+                          </button>
+                          <button
+                            onClick={() => archiveMember(member)}
+                            disabled={saving}
+                            className="p-2 text-gray-500 dark:text-gray-400 hover:text-orange-600 dark:hover:text-orange-400 hover:bg-orange-50 dark:hover:bg-orange-900/20 rounded-lg transition-colors disabled:opacity-50"
+                            title="Archive"
+                          >
+                            <Archive size={16} />
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  )}
+                </motion.li>
+              ))}
+            </AnimatePresence>
+          </ul>
+        )}
+      </div>
+
+      {/* Archived members */}
+      {archivedMembers.length > 0 && (
+        <div className="bg-white/60 dark:bg-slate-900/60 backdrop-blur-sm rounded-2xl border border-white/20 dark:border-slate-700/20 p-6 shadow-lg">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Archived Members</h3>
+          <ul className="divide-y divide-gray-200/50 dark:divide-slate-700/50">
+            {archivedMembers.map((member) => (
+              <li key={member.id} className="py-3 flex items-center gap-4 opacity-70">
+                <div className="w-10 h-10 bg-gray-300 dark:bg-slate-700 rounded-full flex items-center justify-center text-white font-semibold">
+                  {member.name.charAt(0).toUpperCase()}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-gray-900 dark:text-white truncate">{member.name}</p>
+                  <p className="text-sm text-gray-600 dark:text-gray-400 truncate">
+                    {member.role} · archived {new Date(member.archivedAt!).toLocaleDateString()}
+                  </p>
+                </div>
+                {canManageRoster && (
+                  <button
+                    onClick={() => restoreMember(member)}
+                    disabled={saving}
+                    className="flex items-center gap-2 px-3 py-1.5 text-sm text-blue-600 dark:text-blue-400 bg-blue-50/80 dark:bg-blue-900/20 border border-blue-200/50 dark:border-blue-700/50 rounded-lg hover:bg-blue-100/80 dark:hover:bg-blue-800/30 transition-colors disabled:opacity-50"
+                  >
+                    <RotateCcw size={14} />
+                    Restore
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Admin settings */}
+      {can('manage_passkeys') && <PasskeyManagement />}
+      {can('manage_api_keys') && <ApiKeyManagement />}
+    </div>
+  );
+}
@@ -0,0 +1,351 @@
+import { useState, useEffect } from 'react';
+import { Globe, Save, Clock, CalendarClock, Siren, BellRing } from 'lucide-react';
+
+import { TeamCalendar } from '@/domain/services/TeamCalendar';
+import { Blocker } from '@/domain/entities/Blocker';
+import { useTeams } from '@/presentation/hooks/useTeams';
+import { useCurrentMember } from '@/presentation/hooks/useCurrentMember';
+import { useToast } from '@/presentation/hooks/useToast';
+
+const COMMON_TIMEZONES = [
+  'America/Vancouver',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/Toronto',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Paris',
+  'Europe/Istanbul',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'UTC'
+];
+
+/**
+ * TeamTimezoneSettings Component
+ * Sets the timezone that decides when a standup day and week begin,
+ * the standup time that "as of standup" reports snapshot updates at,
+ * how many days back members can post or correct updates,
+ * how long a blocker can stay open before it is escalated to the leads,
+ * and when members who haven't posted are reminded
+ */
+export function TeamTimezoneSettings() {
+  const { currentTeam, timezone, updateTimezone, updateStandupTime, updateBackfillDays, updateBlockerEscalationDays, updateReminderTime } = useTeams();
+  const { showError, showSuccess } = useToast();
+  const { can } = useCurrentMember();
+  const canEdit = can('manage_team_settings');
+  const [value, setValue] = useState(timezone);
+  const [saving, setSaving] = useState(false);
+  const [standupTime, setStandupTime] = useState(currentTeam.standupTime);
+  const [savingStandupTime, setSavingStandupTime] = useState(false);
+  const [backfillDays, setBackfillDays] = useState(String(currentTeam.backfillDays));
+  const [savingBackfillDays, setSavingBackfillDays] = useState(false);
+  const [escalationDays, setEscalationDays] = useState(String(currentTeam.blockerEscalationDays));
+  const [savingEscalationDays, setSavingEscalationDays] = useState(false);
+  const [reminderTime, setReminderTime] = useState(currentTeam.reminderTime ?? '');
+  const [savingReminderTime, setSavingReminderTime] = useState(false);
+
+  useEffect(() => {
+    setValue(timezone);
+  }, [timezone]);
+
+  useEffect(() => {
+    setStandupTime(currentTeam.standupTime);
+  }, [currentTeam.standupTime]);
+
+  useEffect(() => {
+    setBackfillDays(String(currentTeam.backfillDays));
+  }, [currentTeam.backfillDays]);
+
+  useEffect(() => {
+    setEscalationDays(String(currentTeam.blockerEscalationDays));
+  }, [currentTeam.blockerEscalationDays]);
+
+  useEffect(() => {
+    setReminderTime(currentTeam.reminderTime ?? '');
+  }, [currentTeam.reminderTime]);
+
+  const parsedBackfillDays = Number(backfillDays);
+  const isValidBackfillDays = backfillDays.trim() !== '' && Number.isInteger(parsedBackfillDays) &&
+    parsedBackfillDays >= 0 && parsedBackfillDays <= TeamCalendar.MAX_BACKFILL_DAYS;
+
+  const parsedEscalationDays = Number(escalationDays);
+  const isValidEscalationDays = escalationDays.trim() !== '' && Number.isInteger(parsedEscalationDays) &&
+    parsedEscalationDays >= 0 && parsedEscalationDays <= Blocker.MAX_ESCALATION_DAYS;
+
+  const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const isValid = TeamCalendar.isValidTimezone(value.trim());
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      await updateTimezone(value);
+      showSuccess('Team Timezone Updated', `Standup days now follow ${value.trim()}.`, 3000);
+    } catch (err) {
+      showError('Failed to Update Timezone', err instanceof Error ? err.message : undefined, 6000);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveStandupTime = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSavingStandupTime(true);
+      await updateStandupTime(standupTime);
+      showSuccess('Standup Time Updated', `Standup is now at ${standupTime} ${timezone}.`, 3000);
+    } catch (err) {
+      showError('Failed to Update Standup Time', err instanceof Error ? err.message : undefined, 6000);
+    } finally {
+      setSavingStandupTime(false);
+    }
+  };
+
+  const handleSaveBackfillDays = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSavingBackfillDays(true);
+      await updateBackfillDays(parsedBackfillDays);
+      showSuccess('Backfill Window Updated', `Updates can now be posted up to ${parsedBackfillDays} days late.`, 3000);
+    } catch (err) {
+      showError('Failed to Update Backfill Window', err instanceof Error ? err.message : undefined, 6000);
+    } finally {
+      setSavingBackfillDays(false);
+    }
+  };
+
+  const handleSaveEscalationDays = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSavingEscalationDays(true);
+      await updateBlockerEscalationDays(parsedEscalationDays);
+      showSuccess(
+        'Blocker Escalation Updated',
+        parsedEscalationDays === 0
+          ? 'Blockers will no longer be escalated.'
+          : `Blockers open more than ${parsedEscalationDays} business days are escalated to leads.`,
+        3000
+      );
+    } catch (err) {
+      showError('Failed to Update Blocker Escalation', err instanceof Error ? err.message : undefined, 6000);
+    } finally {
+      setSavingEscalationDays(false);
+    }
+  };
+
+  const handleSaveReminderTime = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSavingReminderTime(true);
+      await updateReminderTime(reminderTime || null);
+      showSuccess(
+        'Reminders Updated',
+        reminderTime
+          ? `Members who haven't posted are reminded at ${reminderTime} ${timezone}.`
+          : 'Members will no longer be reminded.',
+        3000
+      );
+    } catch (err) {
+      showError('Failed to Update Reminders', err instanceof Error ? err.message : undefined, 6000);
+    } finally {
+      setSavingReminderTime(false);
+    }
+  };
+
+  return (
+    <div className="bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm rounded-2xl border border-white/20 dark:border-slate-700/20 p-6 shadow-lg space-y-6">
+      <form onSubmit={handleSave}>
+        <div className="flex items-center gap-3 mb-4">
+          <Globe className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Team Timezone</h3>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          Decides when "today" and "this week" start for {currentTeam.name}'s updates, history and weekly reports.
+          Today is {TeamCalendar.getDate(timezone)} in {timezone}.
+          {!canEdit && ' Only team leads and admins can change it.'}
+        </p>
+
+        <div className="flex flex-col md:flex-row gap-4 md:items-end">
+          <div className="flex-1">
+            <label htmlFor="teamTimezone" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              IANA timezone
+            </label>
+            <input
+              id="teamTimezone"
+              type="text"
+              list="teamTimezoneOptions"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-60"
+              disabled={saving || !canEdit}
+            />
+            <datalist id="teamTimezoneOptions">
+              {[browserTimezone, ...COMMON_TIMEZONES.filter(tz => tz !== browserTimezone)].map(tz => (
+                <option key={tz} value={tz} />
+              ))}
+            </datalist>
+            {!isValid && value.trim() && (
+              <p className="mt-1 text-sm text-red-600 dark:text-red-400">Unknown timezone</p>
+            )}
+          </div>
+          <button
+            type="submit"
+            disabled={saving || !canEdit || !isValid || value.trim() === timezone}
+            className="flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 dark:bg-blue-500 rounded-xl hover:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Save className="w-4 h-4" />
+            <span>{saving ? 'Saving...' : 'Save Timezone'}</span>
+          </button>
+        </div>
+      </form>
+
+      <form onSubmit={handleSaveStandupTime} className="pt-6 border-t border-gray-200/50 dark:border-slate-700/50">
+        <div className="flex items-center gap-3 mb-4">
+          <Clock className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Standup Time</h3>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          Weekly reports generated "as of standup" use each update as it read at this time, ignoring later edits.
+        </p>
+
+        <div className="flex flex-col md:flex-row gap-4 md:items-end">
+          <div className="flex-1">
+            <label htmlFor="teamStandupTime" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Local time in {timezone}
+            </label>
+            <input
+              id="teamStandupTime"
+              type="time"
+              value={standupTime}
+              onChange={(e) => setStandupTime(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-60"
+              disabled={savingStandupTime || !canEdit}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={savingStandupTime || !canEdit || !TeamCalendar.isValidTime(standupTime) || standupTime === currentTeam.standupTime}
+            className="flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 dark:bg-blue-500 rounded-xl hover:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Save className="w-4 h-4" />
+            <span>{savingStandupTime ? 'Saving...' : 'Save Standup Time'}</span>
+          </button>
+        </div>
+      </form>
+
+      <form onSubmit={handleSaveBackfillDays} className="pt-6 border-t border-gray-200/50 dark:border-slate-700/50">
+        <div className="flex items-center gap-3 mb-4">
+          <CalendarClock className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Backfill Window</h3>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          How many days back members can post a missed update or correct an old one. Updates posted after their date are marked late.
+        </p>
+
+        <div className="flex flex-col md:flex-row gap-4 md:items-end">
+          <div className="flex-1">
+            <label htmlFor="teamBackfillDays" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Days (0 allows today only)
+            </label>
+            <input
+              id="teamBackfillDays"
+              type="number"
+              min={0}
+              max={TeamCalendar.MAX_BACKFILL_DAYS}
+              step={1}
+              value={backfillDays}
+              onChange={(e) => setBackfillDays(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-60"
+              disabled={savingBackfillDays || !canEdit}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={savingBackfillDays || !canEdit || !isValidBackfillDays || parsedBackfillDays === currentTeam.backfillDays}
+            className="flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 dark:bg-blue-500 rounded-xl hover:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Save className="w-4 h-4" />
+            <span>{savingBackfillDays ? 'Saving...' : 'Save Window'}</span>
+          </button>
+        </div>
+      </form>
+
+      <form onSubmit={handleSaveEscalationDays} className="pt-6 border-t border-gray-200/50 dark:border-slate-700/50">
+        <div className="flex items-center gap-3 mb-4">
+          <Siren className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Blocker Escalation</h3>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          Blockers still open after this many business days are escalated to the team's leads on the dashboard. Weekends and team holidays don't count.
+        </p>
+
+        <div className="flex flex-col md:flex-row gap-4 md:items-end">
+          <div className="flex-1">
+            <label htmlFor="teamEscalationDays" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Business days (0 turns escalation off)
+            </label>
+            <input
+              id="teamEscalationDays"
+              type="number"
+              min={0}
+              max={Blocker.MAX_ESCALATION_DAYS}
+              step={1}
+              value={escalationDays}
+              onChange={(e) => setEscalationDays(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-60"
+              disabled={savingEscalationDays || !canEdit}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={savingEscalationDays || !canEdit || !isValidEscalationDays || parsedEscalationDays === currentTeam.blockerEscalationDays}
+            className="flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 dark:bg-blue-500 rounded-xl hover:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Save className="w-4 h-4" />
+            <span>{savingEscalationDays ? 'Saving...' : 'Save Threshold'}</span>
+          </button>
+        </div>
+      </form>
+
+      <form onSubmit={handleSaveReminderTime} className="pt-6 border-t border-gray-200/50 dark:border-slate-700/50">
+        <div className="flex items-center gap-3 mb-4">
+          <BellRing className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Standup Reminders</h3>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          On working days, members who haven't posted by this time are reminded by email, Slack or push notification, as each of them chooses. People who are out are not reminded.
+        </p>
+
+        <div className="flex flex-col md:flex-row gap-4 md:items-end">
+          <div className="flex-1">
+            <label htmlFor="teamReminderTime" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Local time in {timezone} (clear to turn reminders off)
+            </label>
+            <input
+              id="teamReminderTime"
+              type="time"
+              value={reminderTime}
+              onChange={(e) => setReminderTime(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-60"
+              disabled={savingReminderTime || !canEdit}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={savingReminderTime || !canEdit || (reminderTime !== '' && !TeamCalendar.isValidTime(reminderTime)) || reminderTime === (currentTeam.reminderTime ?? '')}
+            className="flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 dark:bg-blue-500 rounded-xl hover:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Save className="w-4 h-4" />
+            <span>{savingReminderTime ? 'Saving...' : 'Save Reminder Time'}</span>
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
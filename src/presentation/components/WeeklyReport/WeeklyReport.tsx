@@ -3,10 +3,8 @@ import { motion } from 'motion/react';
 import { AlertTriangle, FileText } from 'lucide-react';
 
 import { useAIGeneration } from '@/presentation/hooks/useAIGeneration';
-import { PasskeyModal } from '@/components/PasskeyModal';
-import { usePasskey } from '@/presentation/hooks/usePasskey';
 
-import { WeeklyReport as WeeklyReportType } from '@/domain/entities/WeeklyReport';
+import { WeeklyReport as WeeklyReportType, ReportContentVersion } from '@/domain/entities/WeeklyReport';
 import { StoredWeeklyReport } from '@/domain/repositories/StandupRepository';
 import { WeeklyReportHeader } from '@/presentation/components/WeeklyReport/WeeklyReportHeader';
 import { WeeklyReportStats } from '@/presentation/components/WeeklyReport/WeeklyReportStats';
@@ -28,6 +26,8 @@ interface WeeklyReportProps {
   onRefreshStoredReports?: () => Promise<void>;
   toGenerateReportManually?: boolean; 
   generatingReport?: boolean;
+  contentVersion?: ReportContentVersion;
+  onContentVersionChange?: (version: ReportContentVersion) => void;
 }
 
 /**
@@ -45,33 +45,12 @@ export function WeeklyReport({
   onGenerateLastWeekReportManually,
   onRefreshStoredReports,
   toGenerateReportManually = false,
-  generatingReport = false
+  generatingReport = false,
+  contentVersion = 'latest',
+  onContentVersionChange
 }: WeeklyReportProps) {
   const [regeneratingSummary, setRegeneratingSummary] = useState<boolean>(false);
   const { regenerateWeeklySummary } = useAIGeneration();
-  const { isModalOpen, modalConfig, showPasskeyModal, handlePasskeyConfirm, handlePasskeyCancel } = usePasskey();
-
-  const handleGenerateWithPasskey = useCallback(() => {
-    if (!onGenerateReportManually) return;
-    
-    showPasskeyModal(
-      onGenerateReportManually,
-      'Generate Weekly Report',
-      'Please enter the passkey to generate this week\'s report. This action will create a new weekly report with AI analysis.',
-      'Generate Report'
-    );
-  }, [onGenerateReportManually, showPasskeyModal]);
-
-  const handleGenerateLastWeekWithPasskey = useCallback(() => {
-    if (!onGenerateLastWeekReportManually) return;
-    
-    showPasskeyModal(
-      onGenerateLastWeekReportManually,
-      'Generate Last Week Report',
-      'Please enter the passkey to generate last week\'s report. This action will create a new weekly report with AI analysis for the previous week.',
-      'Generate Last Week Report'
-    );
-  }, [onGenerateLastWeekReportManually, showPasskeyModal]);
 
   const handleRegenerateSummary = useCallback(async () => {
     if (!report) return;
@@ -83,12 +62,7 @@ export function WeeklyReport({
       const newSummary = await regenerateWeeklySummary(report);
       
       // Update the report with the new summary
-      const updatedReport = new WeeklyReportType(
-        report.weekStart,
-        report.weekEnd,
-        report.entries,
-        newSummary
-      );
+      const updatedReport = report.withSummary(newSummary);
       
       setWeeklyReport(updatedReport);
       console.log('✅ Successfully regenerated and updated AI summary');
@@ -110,7 +84,7 @@ export function WeeklyReport({
     if (!report) return;
 
     const csvContent = [
-      ['Date', 'Team Member', 'Role', 'Yesterday', 'Today', 'Blockers'],
+      ['Date', 'Team Member', 'Role', 'Yesterday', 'Today', 'Blockers', 'Posted Late', 'Comments'],
       ...report.entries.flatMap(entry =>
         entry.teamMembers.map(member => [
           entry.date,
@@ -118,7 +92,9 @@ export function WeeklyReport({
           member.role,
           member.yesterday,
           member.today,
-          member.blockers
+          member.blockers,
+          member.postedLate ? 'Yes' : 'No',
+          member.commentCount
         ])
       )
     ].map(row => row.map(cell => `"${cell}"`).join(',')).join('\n');
@@ -180,7 +156,7 @@ export function WeeklyReport({
           {report.summary && (
             <WeeklyReportSummary
               summary={report.summary}
-              onRegenerate={handleRegenerateSummary}
+              onRegenerate={toGenerateReportManually ? handleRegenerateSummary : undefined}
               regenerating={regeneratingSummary}
             />
           )}
@@ -208,12 +184,24 @@ export function WeeklyReport({
         </div>
         {toGenerateReportManually && (
           <div className="flex items-center gap-3">
+            {onContentVersionChange && (
+              <select
+                value={contentVersion}
+                onChange={(e) => onContentVersionChange(e.target.value as ReportContentVersion)}
+                disabled={generatingReport}
+                title="Which version of each update the report is built from"
+                className="px-3 py-2 text-sm bg-white/80 dark:bg-slate-800/80 border border-gray-200 dark:border-slate-700 rounded-xl text-gray-700 dark:text-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+              >
+                <option value="latest">Latest edits</option>
+                <option value="standup">As of standup</option>
+              </select>
+            )}
             <motion.div
               whileHover={{ scale: 1.05 }}
               whileTap={{ scale: 0.95 }}
             >
               <button
-                onClick={handleGenerateWithPasskey}
+                onClick={onGenerateReportManually}
                 disabled={generatingReport}
                 className="btn-modern btn-primary flex items-center gap-3 disabled:opacity-50 disabled:cursor-not-allowed"
               >
@@ -236,7 +224,7 @@ export function WeeklyReport({
               whileTap={{ scale: 0.95 }}
             >
               <button
-                onClick={handleGenerateLastWeekWithPasskey}
+                onClick={onGenerateLastWeekReportManually}
                 disabled={generatingReport}
                 className="btn-modern btn-secondary flex items-center gap-3 disabled:opacity-50 disabled:cursor-not-allowed"
               >
@@ -292,17 +280,6 @@ export function WeeklyReport({
           generatingReport={generatingReport}
         />
       </motion.div>
-
-      {/* Passkey Modal */}
-      <PasskeyModal
-        isOpen={isModalOpen}
-        onClose={handlePasskeyCancel}
-        onConfirm={handlePasskeyConfirm}
-        title={modalConfig.title}
-        description={modalConfig.description}
-        actionLabel={modalConfig.actionLabel}
-        loading={generatingReport}
-      />
     </div>
   );
 }
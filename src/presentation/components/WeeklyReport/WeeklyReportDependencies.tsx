@@ -0,0 +1,142 @@
+import { GitBranch, RefreshCw } from 'lucide-react';
+
+import { DependencyGraph } from '@/domain/value-objects/DependencyGraph';
+
+interface WeeklyReportDependenciesProps {
+  dependencies: DependencyGraph;
+}
+
+// Layout of the graph drawing, in SVG units
+const SIZE = 320;
+const RADIUS = 120;
+const NODE_RADIUS = 22;
+
+/**
+ * Who was blocked on whom during the week
+ * Members are drawn in a circle with an arrow from each blocked member to the teammate they were
+ * waiting on, thicker the more days it was reported; the members others waited on most are listed
+ * alongside, with any members waiting on each other
+ */
+export function WeeklyReportDependencies({ dependencies }: WeeklyReportDependenciesProps) {
+  const members = dependencies.getMembers();
+  const bottlenecks = dependencies.getBottlenecks();
+  const cycles = dependencies.getCycles();
+
+  const positions = new Map(members.map((name, index) => {
+    const angle = (2 * Math.PI * index) / members.length - Math.PI / 2;
+    return [name, { x: SIZE / 2 + RADIUS * Math.cos(angle), y: SIZE / 2 + RADIUS * Math.sin(angle) }];
+  }));
+
+  const initials = (name: string) => name.split(/\s+/).map(part => part[0]).join('').slice(0, 2).toUpperCase();
+
+  return (
+    <div>
+      <h4 className="text-md font-medium text-gray-900 dark:text-white mb-3 flex items-center">
+        <GitBranch className="w-4 h-4 text-orange-600 dark:text-orange-400 mr-2" />
+        Dependencies
+      </h4>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 items-start">
+        <svg
+          viewBox={`0 0 ${SIZE} ${SIZE}`}
+          className="w-full max-w-sm mx-auto"
+          role="img"
+          aria-label="Who was waiting on whom this week"
+        >
+          <defs>
+            <marker id="dependency-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+              <path d="M 0 0 L 10 5 L 0 10 z" className="fill-orange-500" />
+            </marker>
+          </defs>
+
+          {dependencies.edges.map(edge => {
+            const from = positions.get(edge.blockedMember)!;
+            const to = positions.get(edge.blockingMember)!;
+            const length = Math.hypot(to.x - from.x, to.y - from.y) || 1;
+            const offsetX = ((to.x - from.x) / length) * NODE_RADIUS;
+            const offsetY = ((to.y - from.y) / length) * NODE_RADIUS;
+
+            return (
+              <line
+                key={`${edge.blockedMember}-${edge.blockingMember}`}
+                x1={from.x + offsetX}
+                y1={from.y + offsetY}
+                x2={to.x - offsetX}
+                y2={to.y - offsetY}
+                strokeWidth={Math.min(1 + edge.dates.length, 6)}
+                className="stroke-orange-400/80"
+                markerEnd="url(#dependency-arrow)"
+              >
+                <title>{`${edge.blockedMember} waited on ${edge.blockingMember} (${edge.dates.length} ${edge.dates.length === 1 ? 'day' : 'days'})`}</title>
+              </line>
+            );
+          })}
+
+          {members.map(name => {
+            const { x, y } = positions.get(name)!;
+            return (
+              <g key={name}>
+                <circle cx={x} cy={y} r={NODE_RADIUS} className="fill-white dark:fill-slate-800 stroke-gray-300 dark:stroke-slate-600" strokeWidth={2} />
+                <text x={x} y={y} textAnchor="middle" dominantBaseline="central" className="fill-gray-800 dark:fill-gray-100 text-xs font-semibold">
+                  {initials(name)}
+                </text>
+                <title>{name}</title>
+              </g>
+            );
+          })}
+        </svg>
+
+        <div className="space-y-4">
+          <ul className="space-y-2">
+            {dependencies.edges.map(edge => (
+              <li
+                key={`${edge.blockedMember}-${edge.blockingMember}`}
+                className="text-sm text-gray-700 dark:text-orange-900 bg-orange-50/80 dark:bg-orange-100/20 p-3 rounded-lg border border-orange-200/50 dark:border-orange-300/50 backdrop-blur-sm"
+              >
+                <span className="font-medium text-gray-900 dark:text-white">{edge.blockedMember}</span>
+                {' waited on '}
+                <span className="font-medium text-gray-900 dark:text-white">{edge.blockingMember}</span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {' '}· {edge.dates.length} {edge.dates.length === 1 ? 'day' : 'days'}
+                </span>
+              </li>
+            ))}
+          </ul>
+
+          {bottlenecks.some(bottleneck => bottleneck.blockedMembers.length > 1) && (
+            <div>
+              <h5 className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-2">
+                Most waited on
+              </h5>
+              <ul className="space-y-1">
+                {bottlenecks
+                  .filter(bottleneck => bottleneck.blockedMembers.length > 1)
+                  .map(bottleneck => (
+                    <li key={bottleneck.memberName} className="text-sm text-gray-700 dark:text-gray-300">
+                      <span className="font-medium text-gray-900 dark:text-white">{bottleneck.memberName}</span>
+                      {' '}blocked {bottleneck.blockedMembers.join(', ')}
+                    </li>
+                  ))}
+              </ul>
+            </div>
+          )}
+
+          {cycles.length > 0 && (
+            <div>
+              <h5 className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-2 flex items-center gap-1">
+                <RefreshCw className="w-3 h-3" />
+                Waiting on each other
+              </h5>
+              <ul className="space-y-1">
+                {cycles.map(cycle => (
+                  <li key={cycle.join('-')} className="text-sm text-red-700 dark:text-red-400">
+                    {[...cycle, cycle[0]].join(' → ')}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
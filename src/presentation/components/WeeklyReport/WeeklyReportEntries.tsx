@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { motion } from 'motion/react';
-import { Users, User } from 'lucide-react';
+import { Users, User, MessageSquare } from 'lucide-react';
 
 import { useDateUtils } from '@/presentation/hooks/useDateUtils';
 
@@ -173,6 +173,20 @@ export function WeeklyReportEntries({ report }: WeeklyReportEntriesProps) {
                       <div className="flex items-center gap-2 mb-2">
                         <span className="font-medium text-gray-900 dark:text-white">{member.name}</span>
                         <span className="text-sm text-gray-500 dark:text-gray-400">({member.role})</span>
+                        {member.postedLate && (
+                          <span
+                            title="Posted after this standup date"
+                            className="text-xs font-medium px-2 py-0.5 rounded-full bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400"
+                          >
+                            Late
+                          </span>
+                        )}
+                        {member.commentCount > 0 && (
+                          <span className="flex items-center gap-1 text-xs font-medium px-2 py-0.5 rounded-full bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400">
+                            <MessageSquare className="w-3 h-3" />
+                            {member.commentCount}
+                          </span>
+                        )}
                       </div>
                       {member.yesterday && (
                         <div className="mb-2">
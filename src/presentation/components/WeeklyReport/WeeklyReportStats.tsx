@@ -1,5 +1,5 @@
 import { motion } from 'motion/react';
-import { FileText, Users, Calendar } from 'lucide-react';
+import { FileText, Users, Calendar, MessageSquare } from 'lucide-react';
 
 import { WeeklyReport } from '@/domain/entities/WeeklyReport';
 
@@ -36,6 +36,7 @@ export function WeeklyReportStats({ report }: WeeklyReportStatsProps) {
   
   // Ensure the report is a proper domain entity
   const weeklyReport = ensureWeeklyReportEntity(report);
+  const mostDiscussed = weeklyReport.getMostDiscussedUpdates();
   
   return (
     <motion.div 
@@ -87,11 +88,44 @@ export function WeeklyReportStats({ report }: WeeklyReportStatsProps) {
             <Calendar className="w-5 h-5 text-purple-600 dark:text-purple-400" />
             <div className="ml-3">
               <p className="text-sm font-medium text-purple-600 dark:text-purple-400">Days with Data</p>
-              <p className="text-2xl font-bold text-purple-900 dark:text-purple-300">{weeklyReport.entries.length}</p>
+              <p className="text-2xl font-bold text-purple-900 dark:text-purple-300">
+                {weeklyReport.entries.length}
+                <span className="ml-1 text-sm font-medium text-purple-600 dark:text-purple-400">
+                  of {weeklyReport.getBusinessDays().length} working
+                </span>
+              </p>
             </div>
           </div>
         </motion.div>
       </div>
+
+      {weeklyReport.holidays.length > 0 && (
+        <p className="mt-4 text-sm text-gray-600 dark:text-gray-400">
+          Holidays: {weeklyReport.holidays.map(holiday => `${holiday.name} (${holiday.date})`).join(', ')}
+        </p>
+      )}
+
+      {mostDiscussed.length > 0 && (
+        <div className="mt-4 text-sm text-gray-600 dark:text-gray-400">
+          <p className="flex items-center gap-2 font-medium text-gray-700 dark:text-gray-300">
+            <MessageSquare className="w-4 h-4" />
+            Most discussed
+          </p>
+          <ul className="mt-2 space-y-1 pl-6">
+            {mostDiscussed.map(({ date, member }) => (
+              <li key={`${date}-${member.id}`}>
+                {member.name}'s update on {date}: {member.commentCount} {member.commentCount === 1 ? 'comment' : 'comments'}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {weeklyReport.awayMembers.length > 0 && (
+        <p className="mt-4 text-sm text-gray-600 dark:text-gray-400">
+          Away all week, not counted as active: {weeklyReport.awayMembers.join(', ')}
+        </p>
+      )}
     </motion.div>
   );
 }
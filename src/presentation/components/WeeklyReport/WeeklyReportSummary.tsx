@@ -4,31 +4,22 @@ import { Lightbulb, TrendingUp, Clock, AlertTriangle, Users, User, RefreshCw } f
 
 import ParticleButton from '@/components/kokonutui/particle-button';
 import { WeeklyReportSummary as WeeklyReportSummaryType } from '@/domain/value-objects/WeeklyReportSummary';
-import { PasskeyModal } from '@/components/PasskeyModal';
-import { usePasskey } from '@/presentation/hooks/usePasskey';
+import { BlockerReportItem } from '@/domain/value-objects/BlockerReport';
+import { WeeklyReportDependencies } from './WeeklyReportDependencies';
 
 interface WeeklyReportSummaryProps {
   summary: WeeklyReportSummaryType;
-  onRegenerate: () => void;
+  onRegenerate?: () => void;
   regenerating: boolean;
 }
 
 /**
  * AI-generated summary component for weekly reports
  * Displays the summary with tabs for team overview and individual members
+ * The regenerate button is hidden when no onRegenerate handler is given
  */
 export function WeeklyReportSummary({ summary, onRegenerate, regenerating }: WeeklyReportSummaryProps) {
   const [activeTab, setActiveTab] = useState<string>('all');
-  const { isModalOpen, modalConfig, showPasskeyModal, handlePasskeyConfirm, handlePasskeyCancel } = usePasskey();
-
-  const handleRegenerateWithPasskey = () => {
-    showPasskeyModal(
-      onRegenerate,
-      'Regenerate AI Summary',
-      'Please enter the passkey to regenerate the AI summary for this weekly report. This will create a new AI analysis of the team\'s work.',
-      'Regenerate Summary'
-    );
-  };
 
   // Helper function to safely render HTML content
   const renderHtmlContent = (content: string) => {
@@ -53,6 +44,43 @@ export function WeeklyReportSummary({ summary, onRegenerate, regenerating }: Wee
     );
   };
 
+  // Render one group of the blocker report, oldest first
+  const renderBlockerGroup = (title: string, items: BlockerReportItem[]) => {
+    if (items.length === 0) return null;
+
+    return (
+      <div>
+        <h5 className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-2">
+          {title} ({items.length})
+        </h5>
+        <ul className="space-y-2">
+          {items.map(item => (
+            <li key={item.id} className="text-sm text-gray-700 dark:text-red-900 bg-red-50/80 dark:bg-red-100/20 p-3 rounded-lg border border-red-200/50 dark:border-red-300/50 backdrop-blur-sm">
+              <div className="flex flex-wrap items-center gap-2 mb-1">
+                <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 capitalize">
+                  {item.severity}
+                </span>
+                {item.memberName && <span className="font-medium text-gray-900 dark:text-white">{item.memberName}</span>}
+                {item.openedOn && (
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    {item.resolvedOn ? 'open for' : 'open'} {item.ageDays} {item.ageDays === 1 ? 'day' : 'days'}
+                  </span>
+                )}
+              </div>
+              <p>{item.description}</p>
+              {item.unblocker && !item.resolvedOn && (
+                <p className="text-xs text-gray-600 dark:text-gray-400">Waiting on {item.unblocker}</p>
+              )}
+              {item.resolution && (
+                <p className="text-xs text-emerald-700 dark:text-emerald-400">{item.resolution}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  };
+
   // Get unique team members from the summary
   const getUniqueTeamMembers = () => {
     return Object.keys(summary.memberSummaries).sort();
@@ -70,18 +98,20 @@ export function WeeklyReportSummary({ summary, onRegenerate, regenerating }: Wee
           <Lightbulb className="w-5 h-5 text-yellow-500 dark:text-yellow-400 mr-2" />
           AI-Generated Summary
         </h3>
-        <ParticleButton
-          onClick={handleRegenerateWithPasskey}
-          disabled={regenerating}
-          className="px-4 py-2 bg-gradient-to-r from-orange-500 to-red-500 text-white rounded-xl hover:from-orange-600 hover:to-red-600 transition-all duration-200 flex items-center gap-2 shadow-lg hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed"
-        >
-          {regenerating ? (
-            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-          ) : (
-            <RefreshCw className="w-4 h-4" />
-          )}
-          {regenerating ? "Regenerating..." : "Regenerate Summary"}
-        </ParticleButton>
+        {onRegenerate && (
+          <ParticleButton
+            onClick={onRegenerate}
+            disabled={regenerating}
+            className="px-4 py-2 bg-gradient-to-r from-orange-500 to-red-500 text-white rounded-xl hover:from-orange-600 hover:to-red-600 transition-all duration-200 flex items-center gap-2 shadow-lg hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {regenerating ? (
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+            ) : (
+              <RefreshCw className="w-4 h-4" />
+            )}
+            {regenerating ? "Regenerating..." : "Regenerate Summary"}
+          </ParticleButton>
+        )}
       </div>
 
       {/* Summary Tabs */}
@@ -172,17 +202,15 @@ export function WeeklyReportSummary({ summary, onRegenerate, regenerating }: Wee
                 <AlertTriangle className="w-4 h-4 text-red-600 dark:text-red-400 mr-2" />
                 Blockers & Issues
               </h4>
-              <ul className="space-y-2">
-                {summary.blockers && summary.blockers.length > 0 ? (
-                  summary.blockers.map((blocker, index) => (
-                    <li key={index} className="text-sm text-gray-700 dark:text-red-900 bg-red-50/80 dark:bg-red-100/20 p-3 rounded-lg border border-red-200/50 dark:border-red-300/50 backdrop-blur-sm">
-                      {renderHtmlContent(blocker)}
-                    </li>
-                  ))
-                ) : (
-                  <li className="text-sm text-gray-500 dark:text-gray-400 italic">No blockers recorded</li>
-                )}
-              </ul>
+              {summary.hasBlockers() ? (
+                <div className="space-y-4">
+                  {renderBlockerGroup('New this week', summary.blockers.opened)}
+                  {renderBlockerGroup('Resolved', summary.blockers.resolved)}
+                  {renderBlockerGroup('Still open', summary.blockers.stillOpen)}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500 dark:text-gray-400 italic">No blockers recorded</p>
+              )}
             </div>
 
             {/* Team Insights */}
@@ -197,6 +225,9 @@ export function WeeklyReportSummary({ summary, onRegenerate, regenerating }: Wee
             </div>
           </div>
 
+          {/* Dependencies */}
+          {summary.hasDependencies() && <WeeklyReportDependencies dependencies={summary.dependencies} />}
+
           {/* Recommendations */}
           {summary.recommendations && summary.recommendations.length > 0 && (
             <div>
@@ -229,12 +260,25 @@ export function WeeklyReportSummary({ summary, onRegenerate, regenerating }: Wee
               );
             }
 
+            const waitingOn = summary.dependencies.getBlockersOf(activeTab);
+            const waitedOnBy = summary.dependencies.getBlockedBy(activeTab);
+
             return (
               <>
                 {/* Member Role */}
                 <div className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg">
                   <h4 className="text-md font-medium text-blue-900 dark:text-blue-100 mb-2">Role</h4>
                   <p className="text-blue-800 dark:text-blue-200">{memberSummary.role}</p>
+                  {waitingOn.length > 0 && (
+                    <p className="text-sm text-orange-700 dark:text-orange-400 mt-2">
+                      Waited on {waitingOn.map(edge => edge.blockingMember).join(', ')}
+                    </p>
+                  )}
+                  {waitedOnBy.length > 0 && (
+                    <p className="text-sm text-orange-700 dark:text-orange-400 mt-1">
+                      {waitedOnBy.map(edge => edge.blockedMember).join(', ')} waited on {activeTab}
+                    </p>
+                  )}
                 </div>
 
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -303,17 +347,6 @@ export function WeeklyReportSummary({ summary, onRegenerate, regenerating }: Wee
           })()}
         </div>
       )}
-
-      {/* Passkey Modal */}
-      <PasskeyModal
-        isOpen={isModalOpen}
-        onClose={handlePasskeyCancel}
-        onConfirm={handlePasskeyConfirm}
-        title={modalConfig.title}
-        description={modalConfig.description}
-        actionLabel={modalConfig.actionLabel}
-        loading={regenerating}
-      />
     </motion.div>
   );
 }
@@ -4,7 +4,10 @@ import { TeamMember } from '@/domain/entities/TeamMember';
 import { WeeklyReport } from '@/domain/entities/WeeklyReport';
 import { SecureAnthropicAIService } from '@/infrastructure/services/SecureAnthropicAIService';
 import { SupabaseStandupRepository } from '@/infrastructure/repositories/SupabaseStandupRepository';
+import { SupabaseAuthorizationService } from '@/infrastructure/services/SupabaseAuthorizationService';
+import { GenerateWeeklyReportUseCase } from '@/application/use-cases/GenerateWeeklyReportUseCase';
 import { useToast } from './useToast';
+import { useTeams } from './useTeams';
 
 /**
  * Custom hook for AI generation operations
@@ -15,8 +18,12 @@ export function useAIGeneration() {
   const [error, setError] = useState<string | null>(null);
   
   const aiService = useMemo(() => new SecureAnthropicAIService(), []);
-  const repository = useMemo(() => new SupabaseStandupRepository(), []);
+  const reportUseCase = useMemo(
+    () => new GenerateWeeklyReportUseCase(new SupabaseStandupRepository(), aiService, new SupabaseAuthorizationService()),
+    [aiService]
+  );
   const { showError, showSuccess } = useToast();
+  const { teamId } = useTeams();
 
   /**
    * Generate content for a specific field
@@ -92,18 +99,8 @@ export function useAIGeneration() {
       
       console.log('🔄 Regenerating AI summary for report:', report.weekStart, 'to', report.weekEnd);
       
-      const newSummary = await aiService.regenerateWeeklySummary(report);
-      
-      // Create a new report with the regenerated summary
-      const updatedReport = new WeeklyReport(
-        report.weekStart,
-        report.weekEnd,
-        report.entries,
-        newSummary
-      );
-      
-      // Save the updated report to the database
-      await repository.saveWeeklyReport(updatedReport);
+      // Regenerate and save the summary
+      const updatedReport = await reportUseCase.regenerateSummary(teamId, report);
       console.log('💾 Regenerated summary saved to database');
       
       // Show success toast
@@ -113,7 +110,7 @@ export function useAIGeneration() {
         4000
       );
       
-      return newSummary;
+      return updatedReport.summary;
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to regenerate summary';
       setError(errorMessage);
@@ -129,7 +126,7 @@ export function useAIGeneration() {
     } finally {
       setGenerating(false);
     }
-  }, [aiService, repository, showError, showSuccess]);
+  }, [reportUseCase, teamId, showError, showSuccess]);
 
   /**
    * Clear any existing errors
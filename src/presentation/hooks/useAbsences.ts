@@ -0,0 +1,101 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { MemberAbsence } from '@/domain/entities/MemberAbsence';
+import { MemberAbsenceInput } from '@/domain/repositories/StandupRepository';
+import { ManageAbsencesUseCase } from '@/application/use-cases/ManageAbsencesUseCase';
+import { SupabaseStandupRepository } from '@/infrastructure/repositories/SupabaseStandupRepository';
+import { SupabaseAuthorizationService } from '@/infrastructure/services/SupabaseAuthorizationService';
+import { TeamCalendar } from '@/domain/services/TeamCalendar';
+import { useToast } from './useToast';
+import { useTeams } from './useTeams';
+import { useCurrentMember } from './useCurrentMember';
+
+// How far ahead the dashboard looks for upcoming time off
+const UPCOMING_DAYS = 14;
+
+/**
+ * Custom hook for the team's current and upcoming absences
+ * @param onChange Called after an absence is recorded or removed, so metrics can refresh
+ */
+export function useAbsences(onChange?: () => void) {
+  const [absences, setAbsences] = useState<MemberAbsence[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const { showError, showSuccess } = useToast();
+  const { teamId, timezone } = useTeams();
+  const { member: currentMember } = useCurrentMember();
+
+  const absencesUseCase = useMemo(
+    () => new ManageAbsencesUseCase(new SupabaseStandupRepository(), new SupabaseAuthorizationService()),
+    []
+  );
+
+  const today = TeamCalendar.getDate(timezone);
+
+  const fetchAbsences = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await absencesUseCase.getAbsences(teamId, today, TeamCalendar.addDays(today, UPCOMING_DAYS));
+      setAbsences(data);
+    } catch (err) {
+      console.error('Failed to fetch absences:', err);
+      setAbsences([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [absencesUseCase, teamId, today]);
+
+  useEffect(() => {
+    fetchAbsences();
+  }, [fetchAbsences]);
+
+  const recordAbsence = useCallback(async (input: MemberAbsenceInput): Promise<boolean> => {
+    try {
+      setSaving(true);
+      const absence = await absencesUseCase.recordAbsence(teamId, input, currentMember?.id);
+      await fetchAbsences();
+      onChange?.();
+      showSuccess(`${absence.getLabel()} recorded for ${absence.memberName}`, undefined, 3000);
+      return true;
+    } catch (err) {
+      showError('Failed to Record Time Off', err instanceof Error ? err.message : undefined, 6000);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, [absencesUseCase, teamId, currentMember, fetchAbsences, onChange, showError, showSuccess]);
+
+  const deleteAbsence = useCallback(async (absence: MemberAbsence): Promise<boolean> => {
+    try {
+      setSaving(true);
+      await absencesUseCase.deleteAbsence(teamId, absence, currentMember?.id);
+      await fetchAbsences();
+      onChange?.();
+      showSuccess('Time Off Removed', undefined, 3000);
+      return true;
+    } catch (err) {
+      showError('Failed to Remove Time Off', err instanceof Error ? err.message : undefined, 6000);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, [absencesUseCase, teamId, currentMember, fetchAbsences, onChange, showError, showSuccess]);
+
+  const outToday = useMemo(() => absences.filter(absence => absence.covers(today)), [absences, today]);
+  const upcoming = useMemo(() => absences.filter(absence => absence.startDate > today), [absences, today]);
+
+  return {
+    // State
+    absences,
+    outToday,
+    upcoming,
+    today,
+    loading,
+    saving,
+
+    // Actions
+    recordAbsence,
+    deleteAbsence,
+    refreshAbsences: fetchAbsences
+  };
+}
@@ -0,0 +1,86 @@
+import React, { useState, useEffect, useCallback, useMemo, createContext, useContext } from 'react';
+import { AuthUser } from '@/application/services/AuthService';
+import { SupabaseAuthService } from '@/infrastructure/services/SupabaseAuthService';
+import { IndexedDBUpdateDraftRepository } from '@/infrastructure/repositories/IndexedDBUpdateDraftRepository';
+import { WebPushNotificationService } from '@/infrastructure/services/WebPushNotificationService';
+import { TodayStandupCache } from '@/infrastructure/services/TodayStandupCache';
+import { SignIn } from '@/presentation/components/Auth/SignIn';
+
+// Create a context for the signed-in user
+const AuthContext = createContext<{
+  user: AuthUser;
+  signOut: () => Promise<void>;
+} | null>(null);
+
+// Provider component
+// Children only render once a user is signed in, so every consumer has a user
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [linkedUserId, setLinkedUserId] = useState<string | null>(null);
+
+  const authService = useMemo(() => new SupabaseAuthService(), []);
+  const pushService = useMemo(() => new WebPushNotificationService(), []);
+
+  useEffect(() => {
+    authService.getCurrentUser()
+      .then(setUser)
+      .catch(err => console.error('Failed to restore session:', err))
+      .finally(() => setLoading(false));
+
+    return authService.onAuthStateChange(setUser);
+  }, [authService]);
+
+  // Claim the roster entries invited with this user's email before the app loads
+  useEffect(() => {
+    if (!user || linkedUserId === user.id) return;
+
+    authService.linkTeamMembers()
+      .catch(err => console.error('Failed to link team members:', err))
+      .finally(() => setLinkedUserId(user.id));
+  }, [authService, user, linkedUserId]);
+
+  const sendMagicLink = useCallback((email: string) => {
+    return authService.sendMagicLink(email.trim(), window.location.origin);
+  }, [authService]);
+
+  // A shared computer must not keep showing the last user's standup, drafts or notifications
+  const signOut = useCallback(async () => {
+    await Promise.all([
+      pushService.unsubscribeAll().catch(err => console.error('Failed to remove push subscriptions:', err)),
+      TodayStandupCache.clear().catch(err => console.error('Failed to clear cached standup:', err)),
+      new IndexedDBUpdateDraftRepository().clear().catch(err => console.error('Failed to clear drafts:', err))
+    ]);
+    await authService.signOut();
+  }, [authService, pushService]);
+
+  const value = useMemo(() => user ? { user, signOut } : null, [user, signOut]);
+
+  if (loading || (user && linkedUserId !== user.id)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100 dark:from-slate-900 dark:via-slate-800 dark:to-slate-900">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 dark:border-blue-400"></div>
+      </div>
+    );
+  }
+
+  if (!value) {
+    return <SignIn onSendMagicLink={sendMagicLink} />;
+  }
+
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+// Hook to use the auth context
+// eslint-disable-next-line react-refresh/only-export-components
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
@@ -0,0 +1,85 @@
+import React, { useState, useEffect, useCallback, useMemo, createContext, useContext } from 'react';
+import { RosterMember } from '@/domain/entities/RosterMember';
+import { TeamMemberService } from '@/domain/services/TeamMemberService';
+import { Permission, TeamRole } from '@/domain/value-objects/TeamRole';
+import { SupabaseStandupRepository } from '@/infrastructure/repositories/SupabaseStandupRepository';
+import { useAuth } from './useAuth';
+import { useTeams } from './useTeams';
+
+// Create a context for the signed-in user's member on the current team
+const CurrentMemberContext = createContext<{
+  member: RosterMember | undefined;
+  role: TeamRole;
+  loading: boolean;
+  can: (permission: Permission) => boolean;
+  refresh: () => Promise<void>;
+} | null>(null);
+
+const VIEWER = new TeamRole('viewer');
+
+// Provider component
+// The member is undefined when the user's email is not on this team's roster; they are then a viewer
+export function CurrentMemberProvider({ children }: { children: React.ReactNode }) {
+  const [member, setMember] = useState<RosterMember | undefined>();
+  const [loading, setLoading] = useState(true);
+
+  const { user } = useAuth();
+  const { teamId } = useTeams();
+  const repository = useMemo(() => new SupabaseStandupRepository(), []);
+
+  const refresh = useCallback(async () => {
+    try {
+      setMember(await TeamMemberService.findTeamMemberForUser(repository, teamId, user.id));
+    } catch (error) {
+      console.error('Failed to load current team member:', error);
+    }
+  }, [repository, teamId, user.id]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setMember(undefined);
+    setLoading(true);
+
+    TeamMemberService.findTeamMemberForUser(repository, teamId, user.id)
+      .then(found => {
+        if (!cancelled) setMember(found);
+      })
+      .catch(error => {
+        console.error('Failed to load current team member:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [repository, teamId, user.id]);
+
+  const value = useMemo(() => {
+    const role = member?.getRole() ?? VIEWER;
+    return {
+      member,
+      role,
+      loading,
+      can: (permission: Permission) => role.can(permission),
+      refresh
+    };
+  }, [member, loading, refresh]);
+
+  return (
+    <CurrentMemberContext.Provider value={value}>
+      {children}
+    </CurrentMemberContext.Provider>
+  );
+}
+
+// Hook to use the current member context
+// eslint-disable-next-line react-refresh/only-export-components
+export function useCurrentMember() {
+  const context = useContext(CurrentMemberContext);
+  if (!context) {
+    throw new Error('useCurrentMember must be used within a CurrentMemberProvider');
+  }
+  return context;
+}
@@ -1,94 +1,50 @@
 import { useCallback } from 'react';
+import { TeamCalendar } from '@/domain/services/TeamCalendar';
+import { useTeams } from './useTeams';
 
 /**
  * Custom hook for date utilities
  * Provides common date operations for the standup application
  */
 export function useDateUtils() {
-  const VANCOUVER_TIMEZONE = 'America/Vancouver';
+  const { timezone, holidayDates } = useTeams();
 
   /**
-   * Get a date in Vancouver timezone as YYYY-MM-DD string
+   * Get a date in the team's timezone as YYYY-MM-DD string
    */
-  const getVancouverDate = useCallback((date: Date = new Date()) => {
-    return date.toLocaleDateString('en-CA', {
-      timeZone: VANCOUVER_TIMEZONE
-    });
-  }, []);
+  const getTeamDate = useCallback((date: Date = new Date()) => {
+    return TeamCalendar.getDate(timezone, date);
+  }, [timezone]);
 
   /**
-   * Get the previous business day date
-   * - Monday → Friday (3 days back)
-   * - Sunday → Friday (2 days back) 
-   * - Other days → Yesterday (1 day back)
+   * Get the business day before a date (today by default), skipping weekends and team holidays
    */
-  const getPreviousBusinessDay = useCallback(() => {
-    const today = new Date();
-    const dayOfWeek = today.getDay();
-    
-    let targetDate: Date;
-    
-    if (dayOfWeek === 1) { // Monday
-      targetDate = new Date(today);
-      targetDate.setDate(today.getDate() - 3);
-    } else if (dayOfWeek === 0) { // Sunday
-      targetDate = new Date(today);
-      targetDate.setDate(today.getDate() - 2);
-    } else { // Tuesday through Saturday
-      targetDate = new Date(today);
-      targetDate.setDate(today.getDate() - 1);
-    }
-    
-    return getVancouverDate(targetDate);
-  }, [getVancouverDate]);
+  const getPreviousBusinessDay = useCallback((date?: string) => {
+    return date
+      ? TeamCalendar.getBusinessDayBefore(date, holidayDates)
+      : TeamCalendar.getPreviousBusinessDay(timezone, holidayDates);
+  }, [timezone, holidayDates]);
 
   /**
-   * Get the start of current week (Monday) in Vancouver timezone
+   * Get the start of current week (Monday) in the team's timezone
    */
   const getWeekStartDate = useCallback(() => {
-    const today = new Date();
-    const dayOfWeek = today.getDay();
-    const daysToMonday = dayOfWeek === 0 ? 6 : dayOfWeek - 1;
-    
-    const monday = new Date(today);
-    monday.setDate(today.getDate() - daysToMonday);
-    
-    return getVancouverDate(monday);
-  }, [getVancouverDate]);
+    return TeamCalendar.getWeekStartDate(timezone);
+  }, [timezone]);
 
   /**
-   * Get the end of current week (Sunday) in Vancouver timezone
+   * Get the end of current week (Sunday) in the team's timezone
    */
   const getWeekEndDate = useCallback(() => {
-    const today = new Date();
-    const dayOfWeek = today.getDay();
-    const daysToSunday = dayOfWeek === 0 ? 0 : 7 - dayOfWeek;
-    
-    const sunday = new Date(today);
-    sunday.setDate(today.getDate() + daysToSunday);
-    
-    return getVancouverDate(sunday);
-  }, [getVancouverDate]);
+    return TeamCalendar.getWeekEndDate(timezone);
+  }, [timezone]);
 
   /**
    * Get the previous week's date range
    */
   const getPreviousWeekDates = useCallback(() => {
-    const today = new Date();
-    const dayOfWeek = today.getDay();
-    const daysToMonday = dayOfWeek === 0 ? 6 : dayOfWeek - 1;
-    
-    const lastMonday = new Date(today);
-    lastMonday.setDate(today.getDate() - daysToMonday - 7);
-    
-    const lastSunday = new Date(lastMonday);
-    lastSunday.setDate(lastMonday.getDate() + 6);
-    
-    return {
-      weekStart: getVancouverDate(lastMonday),
-      weekEnd: getVancouverDate(lastSunday)
-    };
-  }, [getVancouverDate]);
+    return TeamCalendar.getPreviousWeekDates(timezone);
+  }, [timezone]);
 
   /**
    * Get the current week's date range
@@ -120,17 +76,18 @@ export function useDateUtils() {
       weekday: 'long',
       year: 'numeric',
       month: 'long',
-      day: 'numeric'
+      day: 'numeric',
+      timeZone: timezone
     });
-  }, []);
+  }, [timezone]);
 
   /**
    * Check if a date is today
    */
   const isToday = useCallback((dateString: string) => {
-    const today = getVancouverDate();
+    const today = getTeamDate();
     return dateString === today;
-  }, [getVancouverDate]);
+  }, [getTeamDate]);
 
   /**
    * Check if a date is yesterday
@@ -155,18 +112,17 @@ export function useDateUtils() {
    */
   const getWeekDates = useCallback((weekStart: string, weekEnd: string) => {
     const dates: string[] = [];
-    const start = new Date(weekStart);
-    const end = new Date(weekEnd);
     
-    for (let date = new Date(start); date <= end; date.setDate(date.getDate() + 1)) {
-      dates.push(getVancouverDate(date));
+    for (let date = weekStart; date <= weekEnd; date = TeamCalendar.addDays(date, 1)) {
+      dates.push(date);
     }
     
     return dates;
-  }, [getVancouverDate]);
+  }, []);
 
   return {
-    getVancouverDate,
+    timezone,
+    getTeamDate,
     getPreviousBusinessDay,
     getWeekStartDate,
     getWeekEndDate,
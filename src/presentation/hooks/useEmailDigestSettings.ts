@@ -0,0 +1,80 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { EmailDigestSettings } from '@/domain/entities/EmailDigestSettings';
+import { EmailDigestSettingsInput } from '@/domain/repositories/StandupRepository';
+import { ManageEmailDigestUseCase } from '@/application/use-cases/ManageEmailDigestUseCase';
+import { SupabaseStandupRepository } from '@/infrastructure/repositories/SupabaseStandupRepository';
+import { SupabaseAuthorizationService } from '@/infrastructure/services/SupabaseAuthorizationService';
+import { useToast } from './useToast';
+import { useTeams } from './useTeams';
+
+/**
+ * Custom hook for the current team's weekly report distribution list
+ */
+export function useEmailDigestSettings() {
+  const [settings, setSettings] = useState<EmailDigestSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const { showError, showSuccess } = useToast();
+  const { teamId } = useTeams();
+
+  const emailDigestUseCase = useMemo(
+    () => new ManageEmailDigestUseCase(new SupabaseStandupRepository(), new SupabaseAuthorizationService()),
+    []
+  );
+
+  const loadSettings = useCallback(async () => {
+    try {
+      setLoading(true);
+      setSettings(await emailDigestUseCase.getSettings(teamId));
+    } catch (err) {
+      showError('Failed to Load Email Digest Settings', err instanceof Error ? err.message : undefined, 6000);
+    } finally {
+      setLoading(false);
+    }
+  }, [emailDigestUseCase, teamId, showError]);
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  const saveSettings = useCallback(async (input: EmailDigestSettingsInput): Promise<boolean> => {
+    try {
+      setSaving(true);
+      setSettings(await emailDigestUseCase.saveSettings(teamId, input));
+      showSuccess('Email digest settings saved', undefined, 3000);
+      return true;
+    } catch (err) {
+      showError('Failed to Save Email Digest Settings', err instanceof Error ? err.message : undefined, 6000);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, [emailDigestUseCase, teamId, showError, showSuccess]);
+
+  const removeSettings = useCallback(async (): Promise<boolean> => {
+    try {
+      setSaving(true);
+      await emailDigestUseCase.removeSettings(teamId);
+      setSettings(null);
+      showSuccess('Weekly reports will no longer be emailed', undefined, 3000);
+      return true;
+    } catch (err) {
+      showError('Failed to Remove Email Digest', err instanceof Error ? err.message : undefined, 6000);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, [emailDigestUseCase, teamId, showError, showSuccess]);
+
+  return {
+    // State
+    settings,
+    loading,
+    saving,
+
+    // Actions
+    saveSettings,
+    removeSettings
+  };
+}
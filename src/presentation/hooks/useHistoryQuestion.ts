@@ -0,0 +1,91 @@
+import { useState, useCallback, useMemo, useRef } from 'react';
+
+import { HistoryQuestion } from '@/domain/value-objects/HistoryQuestion';
+import { HistoryAnswer } from '@/domain/value-objects/HistoryAnswer';
+import { AskStandupHistoryUseCase, HistoryQuestionFilters } from '@/application/use-cases/AskStandupHistoryUseCase';
+import { SupabaseStandupRepository } from '@/infrastructure/repositories/SupabaseStandupRepository';
+import { SupabaseAuthorizationService } from '@/infrastructure/services/SupabaseAuthorizationService';
+import { SupabaseEmbeddingService } from '@/infrastructure/services/SupabaseEmbeddingService';
+import { SecureAnthropicAIService } from '@/infrastructure/services/SecureAnthropicAIService';
+import { useToast } from './useToast';
+import { useTeams } from './useTeams';
+
+/**
+ * Custom hook for asking questions of the standup history
+ * Finds the updates closest in meaning to a question, read for the dates it names in the team's
+ * timezone, and optionally has AI write an answer citing them. Only the latest question's results are kept
+ */
+export function useHistoryQuestion() {
+  const [answer, setAnswer] = useState<HistoryAnswer | null>(null);
+  const [finding, setFinding] = useState(false);
+  const [answering, setAnswering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const latestRequest = useRef(0);
+
+  const { teamId, timezone } = useTeams();
+  const { showError } = useToast();
+
+  const askUseCase = useMemo(
+    () => new AskStandupHistoryUseCase(
+      new SupabaseStandupRepository(),
+      new SupabaseAuthorizationService(),
+      new SupabaseEmbeddingService(),
+      new SecureAnthropicAIService()
+    ),
+    []
+  );
+
+  const ask = useCallback(async (text: string, filters: HistoryQuestionFilters, writeAnswer: boolean) => {
+    const request = ++latestRequest.current;
+    const isLatest = () => request === latestRequest.current;
+
+    try {
+      setFinding(true);
+      setError(null);
+      setAnswer(null);
+
+      const found = await askUseCase.findRelevantUpdates(teamId, HistoryQuestion.parse(text, timezone), filters);
+      if (!isLatest()) return;
+      setAnswer(found);
+      setFinding(false);
+
+      if (!writeAnswer) return;
+
+      setAnswering(true);
+      try {
+        const written = await askUseCase.writeAnswer(found);
+        if (isLatest()) setAnswer(written);
+      } catch (err) {
+        // The relevant updates are still shown without the answer
+        if (isLatest()) showError('Failed to write an answer', err instanceof Error ? err.message : 'Unknown error', 6000);
+      }
+    } catch (err) {
+      if (isLatest()) setError(err instanceof Error ? err.message : 'Failed to search history');
+    } finally {
+      if (isLatest()) {
+        setFinding(false);
+        setAnswering(false);
+      }
+    }
+  }, [askUseCase, teamId, timezone, showError]);
+
+  const clear = useCallback(() => {
+    latestRequest.current++;
+    setAnswer(null);
+    setError(null);
+    setFinding(false);
+    setAnswering(false);
+  }, []);
+
+  return {
+    // State
+    answer,
+    finding,
+    answering,
+    error,
+
+    // Actions
+    ask,
+    clear
+  };
+}
@@ -0,0 +1,80 @@
+import { useState, useCallback, useMemo } from 'react';
+import { TeamHoliday } from '@/domain/entities/TeamHoliday';
+import { TeamHolidayInput } from '@/domain/repositories/StandupRepository';
+import { ManageHolidaysUseCase } from '@/application/use-cases/ManageHolidaysUseCase';
+import { SupabaseStandupRepository } from '@/infrastructure/repositories/SupabaseStandupRepository';
+import { SupabaseAuthorizationService } from '@/infrastructure/services/SupabaseAuthorizationService';
+import { useToast } from './useToast';
+import { useTeams } from './useTeams';
+
+/**
+ * Custom hook for managing the team holiday calendar
+ * The holidays themselves live in the teams context so every business-day calculation sees them
+ */
+export function useHolidays() {
+  const [saving, setSaving] = useState(false);
+
+  const { showError, showSuccess } = useToast();
+  const { teamId, holidays, refreshHolidays } = useTeams();
+
+  const holidaysUseCase = useMemo(
+    () => new ManageHolidaysUseCase(new SupabaseStandupRepository(), new SupabaseAuthorizationService()),
+    []
+  );
+
+  /**
+   * Run a calendar mutation, then reload the holidays and report the outcome
+   */
+  const runMutation = useCallback(async (
+    action: () => Promise<string>,
+    failureTitle: string
+  ): Promise<boolean> => {
+    try {
+      setSaving(true);
+      const successTitle = await action();
+      await refreshHolidays();
+      showSuccess(successTitle, undefined, 3000);
+      return true;
+    } catch (err) {
+      showError(failureTitle, err instanceof Error ? err.message : undefined, 6000);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, [refreshHolidays, showError, showSuccess]);
+
+  const addHoliday = useCallback((input: TeamHolidayInput) => runMutation(
+    async () => {
+      await holidaysUseCase.addHoliday(teamId, input);
+      return `${input.name.trim()} added to the holiday calendar`;
+    },
+    'Failed to Add Holiday'
+  ), [holidaysUseCase, teamId, runMutation]);
+
+  const importIcs = useCallback((file: File) => runMutation(
+    async () => {
+      const count = await holidaysUseCase.importIcs(teamId, await file.text());
+      return `Imported ${count} ${count === 1 ? 'holiday' : 'holidays'} from ${file.name}`;
+    },
+    'Failed to Import Calendar'
+  ), [holidaysUseCase, teamId, runMutation]);
+
+  const deleteHoliday = useCallback((holiday: TeamHoliday) => runMutation(
+    async () => {
+      await holidaysUseCase.deleteHoliday(teamId, holiday.id);
+      return `${holiday.name} removed`;
+    },
+    'Failed to Remove Holiday'
+  ), [holidaysUseCase, teamId, runMutation]);
+
+  return {
+    // State
+    holidays,
+    saving,
+
+    // Actions
+    addHoliday,
+    importIcs,
+    deleteHoliday
+  };
+}
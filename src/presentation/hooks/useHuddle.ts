@@ -0,0 +1,286 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Huddle, HuddleOrder } from '@/domain/entities/Huddle';
+import { RosterMember } from '@/domain/entities/RosterMember';
+import { RunHuddleUseCase } from '@/application/use-cases/RunHuddleUseCase';
+import { SupabaseStandupRepository } from '@/infrastructure/repositories/SupabaseStandupRepository';
+import { SupabaseAuthorizationService } from '@/infrastructure/services/SupabaseAuthorizationService';
+import { TeamCalendar } from '@/domain/services/TeamCalendar';
+import { useToast } from './useToast';
+import { useTeams } from './useTeams';
+
+export type HuddlePhase = 'setup' | 'running' | 'finished';
+
+/**
+ * Custom hook for running today's huddle: choosing the speaking order and who is here,
+ * timing each member's turn and saving the meeting with today's standup entry
+ */
+export function useHuddle() {
+  const { teamId, timezone, currentTeam, updateHuddleSettings } = useTeams();
+  const { showError, showSuccess } = useToast();
+
+  const [members, setMembers] = useState<RosterMember[]>([]);
+  const [presentIds, setPresentIds] = useState<Set<string>>(new Set());
+  const [order, setOrder] = useState<HuddleOrder>(currentTeam.huddleOrder);
+  const [memberOrder, setMemberOrder] = useState<string[]>(currentTeam.huddleMemberOrder);
+  const [shuffledIds, setShuffledIds] = useState<string[]>([]);
+  const [timeBoxSeconds, setTimeBoxSeconds] = useState(currentTeam.huddleTimeBoxSeconds);
+  const [previousHuddle, setPreviousHuddle] = useState<Huddle | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const [phase, setPhase] = useState<HuddlePhase>('setup');
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [startedAt, setStartedAt] = useState(0);
+  const [endedAt, setEndedAt] = useState(0);
+  const [turnStartedAt, setTurnStartedAt] = useState(0);
+  const [speakingSeconds, setSpeakingSeconds] = useState<Record<string, number>>({});
+  const [now, setNow] = useState(() => Date.now());
+
+  const huddleUseCase = useMemo(
+    () => new RunHuddleUseCase(new SupabaseStandupRepository(), new SupabaseAuthorizationService()),
+    []
+  );
+
+  const today = TeamCalendar.getDate(timezone);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    Promise.all([
+      huddleUseCase.getParticipants(teamId, today),
+      huddleUseCase.getHuddle(teamId, today)
+    ])
+      .then(([participants, huddle]) => {
+        if (cancelled) return;
+        setMembers(participants.members);
+        setShuffledIds(Huddle.orderMembers(participants.members, 'random', []).map(member => member.id));
+        // Members with time off start out absent
+        setPresentIds(new Set(
+          participants.members
+            .filter(member => !participants.awayMemberIds.includes(member.id))
+            .map(member => member.id)
+        ));
+        setPreviousHuddle(huddle);
+      })
+      .catch(err => {
+        console.error('Failed to load huddle:', err);
+        showError('Failed to Load Huddle', err instanceof Error ? err.message : undefined, 6000);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [huddleUseCase, teamId, today, showError]);
+
+  // A random order is the shuffle made when the huddle opened; a custom one is edited in place
+  const speakingOrder = useMemo(
+    () => Huddle.orderMembers(members, 'custom', order === 'random' ? shuffledIds : memberOrder),
+    [members, order, shuffledIds, memberOrder]
+  );
+
+  const speakers = useMemo(
+    () => speakingOrder.filter(member => presentIds.has(member.id)),
+    [speakingOrder, presentIds]
+  );
+
+  // Tick once a second while the huddle is running
+  useEffect(() => {
+    if (phase !== 'running') return;
+
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, [phase]);
+
+  const currentSpeaker = phase === 'running' ? speakers[currentIndex] ?? null : null;
+
+  const currentSpeakingSeconds = currentSpeaker
+    ? (speakingSeconds[currentSpeaker.id] ?? 0) + Math.max(0, Math.floor((now - turnStartedAt) / 1000))
+    : 0;
+
+  const elapsedSeconds = phase === 'setup'
+    ? 0
+    : Math.max(0, Math.round(((phase === 'finished' ? endedAt : now) - startedAt) / 1000));
+
+  const changeOrder = useCallback((nextOrder: HuddleOrder) => {
+    if (nextOrder === 'random') {
+      setShuffledIds(Huddle.orderMembers(members, 'random', []).map(member => member.id));
+    }
+    setOrder(nextOrder);
+  }, [members]);
+
+  // Moving someone turns the order, shuffled or not, into a custom one
+  const moveMember = useCallback((memberId: string, offset: -1 | 1) => {
+    const ids = speakingOrder.map(member => member.id);
+    const from = ids.indexOf(memberId);
+    const to = from + offset;
+    if (from === -1 || to < 0 || to >= ids.length) return;
+
+    [ids[from], ids[to]] = [ids[to], ids[from]];
+    setMemberOrder(ids);
+    setOrder('custom');
+  }, [speakingOrder]);
+
+  const togglePresent = useCallback((memberId: string) => {
+    setPresentIds(prev => {
+      const next = new Set(prev);
+      if (next.has(memberId)) {
+        next.delete(memberId);
+      } else {
+        next.add(memberId);
+      }
+      return next;
+    });
+  }, []);
+
+  const saveAsTeamSettings = useCallback(async (): Promise<boolean> => {
+    try {
+      setSaving(true);
+      await updateHuddleSettings({
+        timeBoxSeconds,
+        order,
+        memberOrder: order === 'custom' ? speakingOrder.map(member => member.id) : currentTeam.huddleMemberOrder
+      });
+      showSuccess('Huddle settings saved', 'Future huddles will start with this time box and order', 3000);
+      return true;
+    } catch (err) {
+      showError('Failed to Save Huddle Settings', err instanceof Error ? err.message : undefined, 6000);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, [updateHuddleSettings, timeBoxSeconds, order, speakingOrder, currentTeam, showError, showSuccess]);
+
+  const start = useCallback(() => {
+    if (speakers.length === 0) return;
+
+    const startTime = Date.now();
+    setStartedAt(startTime);
+    setTurnStartedAt(startTime);
+    setNow(startTime);
+    setSpeakingSeconds({});
+    setCurrentIndex(0);
+    setPhase('running');
+  }, [speakers]);
+
+  // Add the current turn to the speaker's total and start timing the next one
+  const endTurn = useCallback((): number => {
+    const endTime = Date.now();
+    if (currentSpeaker) {
+      const seconds = Math.max(0, Math.round((endTime - turnStartedAt) / 1000));
+      setSpeakingSeconds(prev => ({ ...prev, [currentSpeaker.id]: (prev[currentSpeaker.id] ?? 0) + seconds }));
+    }
+    setTurnStartedAt(endTime);
+    setNow(endTime);
+    return endTime;
+  }, [currentSpeaker, turnStartedAt]);
+
+  const finish = useCallback(() => {
+    setEndedAt(endTurn());
+    setPhase('finished');
+  }, [endTurn]);
+
+  const goTo = useCallback((index: number) => {
+    if (index >= speakers.length) {
+      finish();
+      return;
+    }
+
+    endTurn();
+    setCurrentIndex(Math.max(0, index));
+  }, [speakers, endTurn, finish]);
+
+  const next = useCallback(() => goTo(currentIndex + 1), [goTo, currentIndex]);
+  const previous = useCallback(() => goTo(currentIndex - 1), [goTo, currentIndex]);
+
+  // The current speaker isn't here after all: mark them absent and move on without timing them
+  const markCurrentAbsent = useCallback(() => {
+    if (!currentSpeaker) return;
+
+    const isLast = currentIndex >= speakers.length - 1;
+    const endTime = Date.now();
+    setSpeakingSeconds(prev => ({ ...prev, [currentSpeaker.id]: 0 }));
+    togglePresent(currentSpeaker.id);
+    setTurnStartedAt(endTime);
+    setNow(endTime);
+
+    if (isLast) {
+      setEndedAt(endTime);
+      setPhase('finished');
+    }
+  }, [currentSpeaker, currentIndex, speakers, togglePresent]);
+
+  const restart = useCallback(() => {
+    setPhase('setup');
+    setCurrentIndex(0);
+    setSpeakingSeconds({});
+  }, []);
+
+  const save = useCallback(async (): Promise<boolean> => {
+    const huddle = new Huddle(
+      today,
+      new Date(startedAt).toISOString(),
+      elapsedSeconds,
+      null,
+      members.map(member => ({
+        teamMemberId: member.id,
+        present: presentIds.has(member.id),
+        speakingSeconds: presentIds.has(member.id) ? speakingSeconds[member.id] ?? 0 : 0
+      }))
+    );
+
+    try {
+      setSaving(true);
+      await huddleUseCase.saveHuddle(teamId, huddle);
+      setPreviousHuddle(huddle);
+      showSuccess(
+        'Huddle saved',
+        `${huddle.getPresentCount()} of ${members.length} present, ${Huddle.formatDuration(huddle.durationSeconds)} long`,
+        3000
+      );
+      return true;
+    } catch (err) {
+      showError('Failed to Save Huddle', err instanceof Error ? err.message : undefined, 6000);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, [huddleUseCase, teamId, today, startedAt, elapsedSeconds, members, presentIds, speakingSeconds, showError, showSuccess]);
+
+  return {
+    // State
+    today,
+    phase,
+    members,
+    speakingOrder,
+    speakers,
+    presentIds,
+    order,
+    timeBoxSeconds,
+    previousHuddle,
+    currentIndex,
+    currentSpeaker,
+    currentSpeakingSeconds,
+    elapsedSeconds,
+    speakingSeconds,
+    loading,
+    saving,
+
+    // Actions
+    changeOrder,
+    moveMember,
+    togglePresent,
+    setTimeBoxSeconds,
+    saveAsTeamSettings,
+    start,
+    next,
+    previous,
+    markCurrentAbsent,
+    finish,
+    restart,
+    save
+  };
+}
@@ -0,0 +1,80 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { MicrosoftTeamsIntegration } from '@/domain/entities/MicrosoftTeamsIntegration';
+import { MicrosoftTeamsIntegrationInput } from '@/domain/repositories/StandupRepository';
+import { ManageMicrosoftTeamsIntegrationUseCase } from '@/application/use-cases/ManageMicrosoftTeamsIntegrationUseCase';
+import { SupabaseStandupRepository } from '@/infrastructure/repositories/SupabaseStandupRepository';
+import { SupabaseAuthorizationService } from '@/infrastructure/services/SupabaseAuthorizationService';
+import { useToast } from './useToast';
+import { useTeams } from './useTeams';
+
+/**
+ * Custom hook for the current team's Microsoft Teams connection
+ */
+export function useMicrosoftTeamsIntegration() {
+  const [integration, setIntegration] = useState<MicrosoftTeamsIntegration | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const { showError, showSuccess } = useToast();
+  const { teamId } = useTeams();
+
+  const teamsUseCase = useMemo(
+    () => new ManageMicrosoftTeamsIntegrationUseCase(new SupabaseStandupRepository(), new SupabaseAuthorizationService()),
+    []
+  );
+
+  const loadIntegration = useCallback(async () => {
+    try {
+      setLoading(true);
+      setIntegration(await teamsUseCase.getIntegration(teamId));
+    } catch (err) {
+      showError('Failed to Load Microsoft Teams Settings', err instanceof Error ? err.message : undefined, 6000);
+    } finally {
+      setLoading(false);
+    }
+  }, [teamsUseCase, teamId, showError]);
+
+  useEffect(() => {
+    loadIntegration();
+  }, [loadIntegration]);
+
+  const saveIntegration = useCallback(async (input: MicrosoftTeamsIntegrationInput): Promise<boolean> => {
+    try {
+      setSaving(true);
+      setIntegration(await teamsUseCase.saveIntegration(teamId, input));
+      showSuccess('Microsoft Teams settings saved', undefined, 3000);
+      return true;
+    } catch (err) {
+      showError('Failed to Save Microsoft Teams Settings', err instanceof Error ? err.message : undefined, 6000);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, [teamsUseCase, teamId, showError, showSuccess]);
+
+  const disconnect = useCallback(async (): Promise<boolean> => {
+    try {
+      setSaving(true);
+      await teamsUseCase.disconnect(teamId);
+      setIntegration(null);
+      showSuccess('Disconnected from Microsoft Teams', undefined, 3000);
+      return true;
+    } catch (err) {
+      showError('Failed to Disconnect Microsoft Teams', err instanceof Error ? err.message : undefined, 6000);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, [teamsUseCase, teamId, showError, showSuccess]);
+
+  return {
+    // State
+    integration,
+    loading,
+    saving,
+
+    // Actions
+    saveIntegration,
+    disconnect
+  };
+}
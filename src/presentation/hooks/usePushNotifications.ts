@@ -0,0 +1,91 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { WebPushNotificationService } from '@/infrastructure/services/WebPushNotificationService';
+import { useToast } from './useToast';
+import { useCurrentMember } from './useCurrentMember';
+
+/**
+ * Custom hook for this browser's push notifications for the signed-in member of the current team
+ */
+export function usePushNotifications() {
+  const [subscribed, setSubscribed] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const { showError, showSuccess } = useToast();
+  const { member } = useCurrentMember();
+  const memberId = member?.id;
+
+  const pushService = useMemo(() => new WebPushNotificationService(), []);
+  const supported = pushService.isSupported();
+
+  useEffect(() => {
+    if (!memberId || !supported) {
+      setSubscribed(false);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+
+    pushService.isSubscribed(memberId)
+      .then(isSubscribed => {
+        if (!cancelled) setSubscribed(isSubscribed);
+      })
+      .catch(err => console.error('Failed to load push subscription:', err))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pushService, memberId, supported]);
+
+  const enable = useCallback(async (): Promise<boolean> => {
+    if (!memberId) return false;
+
+    try {
+      setSaving(true);
+      await pushService.subscribe(memberId);
+      setSubscribed(true);
+      showSuccess('Push notifications turned on', 'This browser will be notified', 3000);
+      return true;
+    } catch (err) {
+      showError('Failed to Turn On Push Notifications', err instanceof Error ? err.message : undefined, 6000);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, [pushService, memberId, showError, showSuccess]);
+
+  const disable = useCallback(async (): Promise<boolean> => {
+    if (!memberId) return false;
+
+    try {
+      setSaving(true);
+      await pushService.unsubscribe(memberId);
+      setSubscribed(false);
+      showSuccess('Push notifications turned off', undefined, 3000);
+      return true;
+    } catch (err) {
+      showError('Failed to Turn Off Push Notifications', err instanceof Error ? err.message : undefined, 6000);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, [pushService, memberId, showError, showSuccess]);
+
+  return {
+    // State
+    supported,
+    permission: pushService.getPermission(),
+    subscribed,
+    loading,
+    saving,
+
+    // Actions
+    enable,
+    disable
+  };
+}
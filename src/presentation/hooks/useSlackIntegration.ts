@@ -0,0 +1,80 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { SlackIntegration } from '@/domain/entities/SlackIntegration';
+import { SlackIntegrationInput } from '@/domain/repositories/StandupRepository';
+import { ManageSlackIntegrationUseCase } from '@/application/use-cases/ManageSlackIntegrationUseCase';
+import { SupabaseStandupRepository } from '@/infrastructure/repositories/SupabaseStandupRepository';
+import { SupabaseAuthorizationService } from '@/infrastructure/services/SupabaseAuthorizationService';
+import { useToast } from './useToast';
+import { useTeams } from './useTeams';
+
+/**
+ * Custom hook for the current team's Slack connection
+ */
+export function useSlackIntegration() {
+  const [integration, setIntegration] = useState<SlackIntegration | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const { showError, showSuccess } = useToast();
+  const { teamId } = useTeams();
+
+  const slackUseCase = useMemo(
+    () => new ManageSlackIntegrationUseCase(new SupabaseStandupRepository(), new SupabaseAuthorizationService()),
+    []
+  );
+
+  const loadIntegration = useCallback(async () => {
+    try {
+      setLoading(true);
+      setIntegration(await slackUseCase.getIntegration(teamId));
+    } catch (err) {
+      showError('Failed to Load Slack Settings', err instanceof Error ? err.message : undefined, 6000);
+    } finally {
+      setLoading(false);
+    }
+  }, [slackUseCase, teamId, showError]);
+
+  useEffect(() => {
+    loadIntegration();
+  }, [loadIntegration]);
+
+  const saveIntegration = useCallback(async (input: SlackIntegrationInput): Promise<boolean> => {
+    try {
+      setSaving(true);
+      setIntegration(await slackUseCase.saveIntegration(teamId, input));
+      showSuccess('Slack settings saved', undefined, 3000);
+      return true;
+    } catch (err) {
+      showError('Failed to Save Slack Settings', err instanceof Error ? err.message : undefined, 6000);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, [slackUseCase, teamId, showError, showSuccess]);
+
+  const disconnect = useCallback(async (): Promise<boolean> => {
+    try {
+      setSaving(true);
+      await slackUseCase.disconnect(teamId);
+      setIntegration(null);
+      showSuccess('Disconnected from Slack', undefined, 3000);
+      return true;
+    } catch (err) {
+      showError('Failed to Disconnect Slack', err instanceof Error ? err.message : undefined, 6000);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, [slackUseCase, teamId, showError, showSuccess]);
+
+  return {
+    // State
+    integration,
+    loading,
+    saving,
+
+    // Actions
+    saveIntegration,
+    disconnect
+  };
+}
@@ -0,0 +1,83 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Blocker } from '@/domain/entities/Blocker';
+import { ManageStaleBlockersUseCase } from '@/application/use-cases/ManageStaleBlockersUseCase';
+import { SupabaseStandupRepository } from '@/infrastructure/repositories/SupabaseStandupRepository';
+import { SupabaseAuthorizationService } from '@/infrastructure/services/SupabaseAuthorizationService';
+import { TeamCalendar } from '@/domain/services/TeamCalendar';
+import { useToast } from './useToast';
+import { useTeams } from './useTeams';
+
+/**
+ * Custom hook for the team's stale and escalated blockers
+ * @param refreshKey Changes whenever updates are saved, so carried or resolved blockers show up
+ */
+export function useStaleBlockers(refreshKey?: number) {
+  const [blockers, setBlockers] = useState<Blocker[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const { showError, showSuccess } = useToast();
+  const { teamId, timezone, holidayDates, currentTeam } = useTeams();
+
+  const staleBlockersUseCase = useMemo(
+    () => new ManageStaleBlockersUseCase(new SupabaseStandupRepository(), new SupabaseAuthorizationService()),
+    []
+  );
+
+  const today = TeamCalendar.getDate(timezone);
+
+  const fetchBlockers = useCallback(async () => {
+    try {
+      setLoading(true);
+      setBlockers(await staleBlockersUseCase.getStaleBlockers(teamId, today, holidayDates));
+    } catch (err) {
+      console.error('Failed to fetch stale blockers:', err);
+      setBlockers([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [staleBlockersUseCase, teamId, today, holidayDates]);
+
+  useEffect(() => {
+    fetchBlockers();
+  }, [fetchBlockers, refreshKey]);
+
+  const acknowledgeEscalation = useCallback(async (blocker: Blocker): Promise<boolean> => {
+    try {
+      setSaving(true);
+      await staleBlockersUseCase.acknowledgeEscalation(teamId, blocker.id);
+      await fetchBlockers();
+      showSuccess('Escalation Acknowledged', `${blocker.memberName}'s blocker is marked as seen.`, 3000);
+      return true;
+    } catch (err) {
+      showError('Failed to Acknowledge Escalation', err instanceof Error ? err.message : undefined, 6000);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, [staleBlockersUseCase, teamId, fetchBlockers, showError, showSuccess]);
+
+  const getBusinessDaysOpen = useCallback(
+    (blocker: Blocker) => blocker.getBusinessDaysOpen(today, holidayDates),
+    [today, holidayDates]
+  );
+
+  const unacknowledgedCount = useMemo(
+    () => blockers.filter(blocker => blocker.isEscalated() && !blocker.isEscalationAcknowledged()).length,
+    [blockers]
+  );
+
+  return {
+    // State
+    blockers,
+    unacknowledgedCount,
+    escalationDays: currentTeam.blockerEscalationDays,
+    loading,
+    saving,
+
+    // Actions
+    getBusinessDaysOpen,
+    acknowledgeEscalation,
+    refreshBlockers: fetchBlockers
+  };
+}
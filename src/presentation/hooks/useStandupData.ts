@@ -2,25 +2,35 @@ import { useState, useEffect, useCallback, useMemo } from 'react';
 
 import { TeamMember } from '@/domain/entities/TeamMember';
 import { StandupEntry } from '@/domain/entities/StandupEntry';
-import { WeeklyReport } from '@/domain/entities/WeeklyReport';
+import { WeeklyReport, ReportContentVersion } from '@/domain/entities/WeeklyReport';
 import { StoredWeeklyReport } from '@/domain/repositories/StandupRepository';
+import { Participation } from '@/domain/value-objects/Participation';
 import { GetTodayStandupUseCase } from '@/application/use-cases/GetTodayStandupUseCase';
 import { SaveTeamMemberUpdateUseCase } from '@/application/use-cases/SaveTeamMemberUpdateUseCase';
 import { GenerateWeeklyReportUseCase } from '@/application/use-cases/GenerateWeeklyReportUseCase';
 import { SupabaseStandupRepository } from '@/infrastructure/repositories/SupabaseStandupRepository';
 import { SecureAnthropicAIService } from '@/infrastructure/services/SecureAnthropicAIService';
+import { SupabaseAuthorizationService } from '@/infrastructure/services/SupabaseAuthorizationService';
+import { TodayStandupCache } from '@/infrastructure/services/TodayStandupCache';
+import { SupabaseRealtimeService } from '@/infrastructure/services/SupabaseRealtimeService';
+import { TeamCalendar } from '@/domain/services/TeamCalendar';
 import { useToast } from './useToast';
+import { useTeams } from './useTeams';
+
+// How long to wait for a burst of realtime changes to settle before reloading
+const REALTIME_REFRESH_DELAY_MS = 500;
 
 /**
  * Custom hook for managing standup data
  * Provides a clean interface for components to interact with standup data
+ * Updates and weekly reports saved elsewhere arrive through Supabase Realtime
  */
 export function useStandupData() {
   // State
   const [teamMembers, setTeamMembers] = useState<TeamMember[]>([]);
   const [standupHistory, setStandupHistory] = useState<StandupEntry[]>([]);
-  const [yesterdayCount, setYesterdayCount] = useState(0);
-  const [teamEngagement, setTeamEngagement] = useState(0);
+  const [yesterdayCount, setYesterdayCount] = useState<Participation>(Participation.none());
+  const [teamEngagement, setTeamEngagement] = useState<Participation>(Participation.none());
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   
@@ -30,60 +40,68 @@ export function useStandupData() {
   const [weeklyReportError, setWeeklyReportError] = useState<string | null>(null);
   const [storedWeeklyReports, setStoredWeeklyReports] = useState<StoredWeeklyReport[]>([]);
   const [storedReportsLoading, setStoredReportsLoading] = useState(false);
+  const [reportContentVersion, setReportContentVersion] = useState<ReportContentVersion>('latest');
   
   // Toast notifications
   const { showError, showSuccess } = useToast();
 
+  // Everything is scoped to the current team, whose timezone defines "this week"
+  const { teamId, timezone } = useTeams();
+
   // Dependencies - memoized to prevent recreation on every render
   const repository = useMemo(() => new SupabaseStandupRepository(), []);
   const aiService = useMemo(() => new SecureAnthropicAIService(), []);
-  const getTodayStandupUseCase = useMemo(() => new GetTodayStandupUseCase(repository), [repository]);
-  const saveTeamMemberUpdateUseCase = useMemo(() => new SaveTeamMemberUpdateUseCase(repository), [repository]);
-  const generateWeeklyReportUseCase = useMemo(() => new GenerateWeeklyReportUseCase(repository, aiService), [repository, aiService]);
+  const authorizationService = useMemo(() => new SupabaseAuthorizationService(), []);
+  const todayCache = useMemo(() => new TodayStandupCache(), []);
+  const realtimeService = useMemo(() => new SupabaseRealtimeService(), []);
+  const getTodayStandupUseCase = useMemo(() => new GetTodayStandupUseCase(repository, authorizationService), [repository, authorizationService]);
+  const saveTeamMemberUpdateUseCase = useMemo(() => new SaveTeamMemberUpdateUseCase(repository, authorizationService), [repository, authorizationService]);
+  const generateWeeklyReportUseCase = useMemo(() => new GenerateWeeklyReportUseCase(repository, aiService, authorizationService), [repository, aiService, authorizationService]);
 
   // Fetch functions
   const fetchTodayStandup = useCallback(async () => {
     try {
-      const members = await getTodayStandupUseCase.execute();
+      const members = await getTodayStandupUseCase.execute(teamId);
       setTeamMembers(members);
+      await todayCache.write(teamId, TeamCalendar.getDate(timezone), members);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch today\'s standup');
     }
-  }, [getTodayStandupUseCase]);
+  }, [getTodayStandupUseCase, todayCache, teamId, timezone]);
 
   const fetchYesterdayCount = useCallback(async () => {
     try {
-      const count = await repository.getYesterdayUpdateCount();
-      setYesterdayCount(count);
+      const participation = await repository.getYesterdayParticipation(teamId);
+      setYesterdayCount(participation);
     } catch (err) {
       console.error('Failed to fetch yesterday count:', err);
-      setYesterdayCount(0);
+      setYesterdayCount(Participation.none());
     }
-  }, [repository]);
+  }, [repository, teamId]);
 
   const fetchTeamEngagement = useCallback(async () => {
     try {
-      const engagement = await repository.getTeamEngagement();
+      const engagement = await repository.getTeamEngagement(teamId);
       setTeamEngagement(engagement);
     } catch (err) {
       console.error('Failed to fetch team engagement:', err);
-      setTeamEngagement(0);
+      setTeamEngagement(Participation.none());
     }
-  }, [repository]);
+  }, [repository, teamId]);
 
   const fetchStandupHistory = useCallback(async () => {
     try {
-      const history = await repository.getStandupHistory(50);
-      setStandupHistory(history);
+      const { entries } = await repository.getStandupHistory(teamId);
+      setStandupHistory(entries);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch standup history');
     }
-  }, [repository]);
+  }, [repository, teamId]);
 
   const fetchStoredWeeklyReports = useCallback(async () => {
     try {
       setStoredReportsLoading(true);
-      const reports = await repository.getStoredWeeklyReports(10);
+      const reports = await repository.getStoredWeeklyReports(teamId, 10);
       setStoredWeeklyReports(reports);
     } catch (err) {
       console.error('Failed to fetch stored weekly reports:', err);
@@ -91,23 +109,28 @@ export function useStandupData() {
     } finally {
       setStoredReportsLoading(false);
     }
-  }, [repository]);
+  }, [repository, teamId]);
+
+  // Reload everything an update changes, without the loading state
+  const refreshUpdates = useCallback(async () => {
+    await Promise.all([
+      fetchTodayStandup(),
+      fetchYesterdayCount(),
+      fetchTeamEngagement(),
+      fetchStandupHistory()
+    ]);
+  }, [fetchTodayStandup, fetchYesterdayCount, fetchTeamEngagement, fetchStandupHistory]);
 
   // Save function
-  const saveMember = useCallback(async (member: TeamMember) => {
+  const saveMember = useCallback(async (member: TeamMember, date?: string) => {
     try {
-      await saveTeamMemberUpdateUseCase.execute(member);
+      await saveTeamMemberUpdateUseCase.execute(teamId, member, date);
       // Refresh data after saving
-      await Promise.all([
-        fetchTodayStandup(),
-        fetchYesterdayCount(),
-        fetchTeamEngagement(),
-        fetchStandupHistory()
-      ]);
+      await refreshUpdates();
     } catch (err) {
       throw new Error(err instanceof Error ? err.message : 'Failed to save member');
     }
-  }, [saveTeamMemberUpdateUseCase, fetchTodayStandup, fetchYesterdayCount, fetchTeamEngagement, fetchStandupHistory]);
+  }, [saveTeamMemberUpdateUseCase, teamId, refreshUpdates]);
 
   // Weekly report functions
   const generateWeeklyReport = useCallback(async (weekStart: string, weekEnd: string, includeAI: boolean = true) => {
@@ -115,39 +138,28 @@ export function useStandupData() {
       setWeeklyReportLoading(true);
       setWeeklyReportError(null);
 
-      const report = await generateWeeklyReportUseCase.execute(weekStart, weekEnd, includeAI);
+      const report = await generateWeeklyReportUseCase.execute(teamId, weekStart, weekEnd, includeAI, reportContentVersion);
       setWeeklyReport(report);
     } catch (err) {
       setWeeklyReportError(err instanceof Error ? err.message : 'Failed to generate weekly report');
     } finally {
       setWeeklyReportLoading(false);
     }
-  }, [generateWeeklyReportUseCase]);
+  }, [generateWeeklyReportUseCase, teamId, reportContentVersion]);
 
   const generateCurrentWeekReportManually = useCallback(async () => {
     console.log('🚀 generateCurrentWeekReportManually called!');
     try {
-      const today = new Date();
-      const dayOfWeek = today.getDay();
-      const daysToMonday = dayOfWeek === 0 ? 6 : dayOfWeek - 1;
-      
-      const monday = new Date(today);
-      monday.setDate(today.getDate() - daysToMonday);
-      
-      const sunday = new Date(monday);
-      sunday.setDate(monday.getDate() + 6);
-      
-      const weekStart = monday.toLocaleDateString('en-CA', { timeZone: 'America/Vancouver' });
-      const weekEnd = sunday.toLocaleDateString('en-CA', { timeZone: 'America/Vancouver' });
+      const { weekStart, weekEnd } = TeamCalendar.getCurrentWeekDates(timezone);
       
       console.log(`📅 Generating manual weekly report for ${weekStart} to ${weekEnd}`);
       
       // Generate the report
-      const report = await generateWeeklyReportUseCase.execute(weekStart, weekEnd, true);
+      const report = await generateWeeklyReportUseCase.execute(teamId, weekStart, weekEnd, true, reportContentVersion);
       console.log('Report generated successfully:', report);
       
       // Save the report to the database
-      await repository.saveWeeklyReport(report);
+      await repository.saveWeeklyReport(teamId, report);
       console.log('Report saved to database successfully');
       
       // Update the UI state
@@ -176,24 +188,11 @@ export function useStandupData() {
       
       throw error;
     }
-  }, [generateWeeklyReportUseCase, repository, setWeeklyReport, fetchStoredWeeklyReports, showError, showSuccess]);
+  }, [generateWeeklyReportUseCase, repository, teamId, timezone, reportContentVersion, setWeeklyReport, fetchStoredWeeklyReports, showError, showSuccess]);
 
   const getPreviousWeekDates = useCallback(() => {
-    const today = new Date();
-    const dayOfWeek = today.getDay();
-    const daysToMonday = dayOfWeek === 0 ? 6 : dayOfWeek - 1;
-    
-    const lastMonday = new Date(today);
-    lastMonday.setDate(today.getDate() - daysToMonday - 7);
-    
-    const lastSunday = new Date(lastMonday);
-    lastSunday.setDate(lastMonday.getDate() + 6);
-    
-    return {
-      weekStart: lastMonday.toLocaleDateString('en-CA', { timeZone: 'America/Vancouver' }),
-      weekEnd: lastSunday.toLocaleDateString('en-CA', { timeZone: 'America/Vancouver' })
-    };
-  }, []);
+    return TeamCalendar.getPreviousWeekDates(timezone);
+  }, [timezone]);
 
   const generateLastWeekReportManually = useCallback(async () => {
     console.log('🚀 generateLastWeekReportManually called!');
@@ -203,11 +202,11 @@ export function useStandupData() {
       console.log(`📅 Generating manual weekly report for last week: ${weekStart} to ${weekEnd}`);
       
       // Generate the report
-      const report = await generateWeeklyReportUseCase.execute(weekStart, weekEnd, true);
+      const report = await generateWeeklyReportUseCase.execute(teamId, weekStart, weekEnd, true, reportContentVersion);
       console.log('Report generated successfully:', report);
       
       // Save the report to the database
-      await repository.saveWeeklyReport(report);
+      await repository.saveWeeklyReport(teamId, report);
       console.log('Report saved to database successfully');
       
       // Update the UI state
@@ -236,7 +235,12 @@ export function useStandupData() {
       
       throw error;
     }
-  }, [generateWeeklyReportUseCase, repository, setWeeklyReport, fetchStoredWeeklyReports, getPreviousWeekDates, showError, showSuccess]);
+  }, [generateWeeklyReportUseCase, repository, teamId, reportContentVersion, setWeeklyReport, fetchStoredWeeklyReports, getPreviousWeekDates, showError, showSuccess]);
+
+  // Absences change who is expected to post, so participation can be refreshed on its own
+  const refreshParticipation = useCallback(async () => {
+    await Promise.all([fetchYesterdayCount(), fetchTeamEngagement()]);
+  }, [fetchYesterdayCount, fetchTeamEngagement]);
 
   // Refresh function
   const refreshData = useCallback(async () => {
@@ -258,10 +262,22 @@ export function useStandupData() {
   }, [fetchTodayStandup, fetchYesterdayCount, fetchTeamEngagement, fetchStandupHistory]);
 
   // Effects
+  useEffect(() => {
+    // A report opened for another team must not linger after switching
+    setWeeklyReport(null);
+  }, [teamId]);
+
   useEffect(() => {
     const loadData = async () => {
       setLoading(true);
       setError(null);
+
+      // Show today's last known updates straight away; the fetch below replaces them
+      const cachedMembers = await todayCache.read(teamId, TeamCalendar.getDate(timezone));
+      if (cachedMembers) {
+        setTeamMembers(cachedMembers);
+        setLoading(false);
+      }
       
       try {
         await Promise.all([
@@ -279,7 +295,25 @@ export function useStandupData() {
     };
 
     loadData();
-  }, [fetchTodayStandup, fetchYesterdayCount, fetchTeamEngagement, fetchStandupHistory, fetchStoredWeeklyReports]);
+  }, [todayCache, teamId, timezone, fetchTodayStandup, fetchYesterdayCount, fetchTeamEngagement, fetchStandupHistory, fetchStoredWeeklyReports]);
+
+  // Follow teammates' updates and newly generated reports live; a save touches several rows, so reloads are batched
+  useEffect(() => {
+    let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const unsubscribe = realtimeService.subscribeToTeam(teamId, {
+      onUpdatesChange: () => {
+        clearTimeout(refreshTimer);
+        refreshTimer = setTimeout(refreshUpdates, REALTIME_REFRESH_DELAY_MS);
+      },
+      onWeeklyReportsChange: fetchStoredWeeklyReports
+    });
+
+    return () => {
+      clearTimeout(refreshTimer);
+      unsubscribe();
+    };
+  }, [realtimeService, teamId, refreshUpdates, fetchStoredWeeklyReports]);
 
   return {
     // State
@@ -292,13 +326,17 @@ export function useStandupData() {
     
     // Actions
     saveMember,
+    refreshUpdates,
     refreshData,
+    refreshParticipation,
     
     // Weekly report state
     weeklyReport,
     weeklyReportLoading,
     weeklyReportError,
     setWeeklyReport,
+    reportContentVersion,
+    setReportContentVersion,
     generateWeeklyReport,
     generateCurrentWeekReportManually,
     generateLastWeekReportManually,
@@ -1,21 +1,59 @@
-import { useState, useCallback, useEffect, useMemo } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { TeamMember } from '@/domain/entities/TeamMember';
+import { Blocker, BlockerSeverity } from '@/domain/entities/Blocker';
+import { RosterMember } from '@/domain/entities/RosterMember';
+import { UpdateDraft } from '@/domain/entities/UpdateDraft';
 import { useDateUtils } from './useDateUtils';
 import { useAIGeneration } from './useAIGeneration';
+import { useCurrentMember } from './useCurrentMember';
+import { useTeams } from './useTeams';
+import { TeamCalendar } from '@/domain/services/TeamCalendar';
 import { ManageStandupFormUseCase } from '@/application/use-cases/ManageStandupFormUseCase';
+import { ManageUpdateDraftsUseCase } from '@/application/use-cases/ManageUpdateDraftsUseCase';
+import { SupabaseStandupRepository } from '@/infrastructure/repositories/SupabaseStandupRepository';
+import { IndexedDBUpdateDraftRepository } from '@/infrastructure/repositories/IndexedDBUpdateDraftRepository';
+import { SupabaseAuthorizationService } from '@/infrastructure/services/SupabaseAuthorizationService';
+import { SupabaseNetworkErrorService } from '@/infrastructure/services/SupabaseNetworkErrorService';
+
+// How long after the last edit the form is autosaved
+const AUTOSAVE_DELAY_MS = 1000;
+
+// How long after the last edit teammates stop seeing the writer as typing
+const TYPING_IDLE_MS = 5000;
 
 /**
  * Custom hook for managing standup form
  * Encapsulates all form logic and AI generation
+ * The target date starts at the given standup date (or today) and can be moved back within the backfill window
+ * Blockers still open on the target date are carried into the form, where they can be resolved
+ * Edits are autosaved on this device, and a draft left from an earlier visit is restored when the form opens
+ * `onTypingChange` hears when the writer starts and stops editing, to show teammates
+ * Teammates on the active roster can be @mentioned in the update and named as a blocker's unblocker
  */
-export function useStandupForm(member?: TeamMember, previousEntries: TeamMember[] = []) {
+export function useStandupForm(
+  member?: TeamMember,
+  previousEntries: TeamMember[] = [],
+  isOpen: boolean = true,
+  date?: string,
+  onTypingChange?: (typing: boolean) => void
+) {
+  const { teamId, timezone, currentTeam } = useTeams();
+  const today = TeamCalendar.getDate(timezone);
+  const earliestDate = TeamCalendar.getEarliestBackfillDate(timezone, currentTeam.backfillDays);
+  const [targetDate, setTargetDate] = useState(date ?? today);
+
   const [formData, setFormData] = useState({
     name: '',
     role: '',
     yesterday: '',
-    today: '',
-    blockers: ''
+    today: ''
   });
+  const [blockerItems, setBlockerItems] = useState<Blocker[]>([]);
+  const [mentionables, setMentionables] = useState<RosterMember[]>([]);
+
+  // Draft state; only edits made in the form are autosaved, not what it was opened with
+  const [restoredDraft, setRestoredDraft] = useState<UpdateDraft | null>(null);
+  const editedRef = useRef(false);
 
   // AI generation state
   const [aiPreviewOpen, setAiPreviewOpen] = useState(false);
@@ -29,60 +67,164 @@ export function useStandupForm(member?: TeamMember, previousEntries: TeamMember[
   // Initialize hooks
   const dateUtils = useDateUtils();
   const aiGeneration = useAIGeneration();
+  const { member: currentMember, loading: currentMemberLoading, can } = useCurrentMember();
+  const repository = useMemo(() => new SupabaseStandupRepository(), []);
 
-  // Initialize use case
+  // Initialize use cases
   const formUseCase = useMemo(
-    () => new ManageStandupFormUseCase(dateUtils, aiGeneration),
-    [dateUtils, aiGeneration]
+    () => new ManageStandupFormUseCase(dateUtils, aiGeneration, repository),
+    [dateUtils, aiGeneration, repository]
+  );
+  const draftsUseCase = useMemo(
+    () => new ManageUpdateDraftsUseCase(
+      repository,
+      new IndexedDBUpdateDraftRepository(),
+      new SupabaseAuthorizationService(),
+      new SupabaseNetworkErrorService()
+    ),
+    [repository]
   );
 
-  // Initialize form data when member changes
-  useEffect(() => {
+  // The revision being edited, so a draft can tell whether the update changed since it was written
+  const baseRevision = member?.updateId ? member.revisionCount : 0;
+
+  // Fill the form with the update being edited, or a blank update for the signed-in user
+  const resetForm = useCallback(() => {
+    editedRef.current = false;
+    setRestoredDraft(null);
+
     if (member) {
       setFormData({
         name: member.name,
         role: member.role,
         yesterday: member.yesterday,
-        today: member.today,
-        blockers: member.blockers
+        today: member.today
       });
+      setBlockerItems(member.blockerItems);
     } else {
       setFormData({
-        name: '',
-        role: '',
+        name: currentMember?.name ?? '',
+        role: currentMember?.role ?? '',
         yesterday: '',
-        today: '',
-        blockers: ''
+        today: ''
       });
+      setBlockerItems([]);
     }
-  }, [member]);
-
-  // Form handlers
-  const handleNameChange = useCallback((selectedName: string) => {
-    const selectedMember = formUseCase.findTeamMemberByName(selectedName);
-    setFormData(prev => ({
-      ...prev,
-      name: selectedName,
-      role: selectedMember?.role || ''
-    }));
-  }, [formUseCase]);
+  }, [member, currentMember]);
+
+  // Initialize form data when the form opens; new updates are always for the signed-in user
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setTargetDate(date ?? today);
+    resetForm();
+  }, [resetForm, isOpen, date, today]);
+
+  // Restore the draft or queued update left for this date on this device
+  const ownerId = member?.id ?? currentMember?.id;
+  const initialDate = date ?? today;
+  useEffect(() => {
+    if (!isOpen || !ownerId) return;
+
+    let cancelled = false;
+    draftsUseCase.getDraft(teamId, ownerId, initialDate)
+      .then(draft => {
+        if (cancelled || !draft || editedRef.current) return;
+        setFormData(prev => ({ ...prev, yesterday: draft.member.yesterday, today: draft.member.today }));
+        setBlockerItems(draft.member.blockerItems);
+        setRestoredDraft(draft);
+      })
+      .catch(error => console.error('Failed to load draft:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, ownerId, teamId, initialDate, draftsUseCase]);
+
+  // Carry over blockers still open on the target date, keeping edits and blockers added in this form
+  useEffect(() => {
+    if (!isOpen || !ownerId) return;
+
+    let cancelled = false;
+    repository.getOpenBlockers(teamId, ownerId, targetDate)
+      .then(openBlockers => {
+        if (cancelled) return;
+        setBlockerItems(prev => {
+          const edited = new Map(prev.filter(blocker => !blocker.isNew()).map(blocker => [blocker.id, blocker]));
+          const openIds = new Set(openBlockers.map(blocker => blocker.id));
+          return [
+            ...openBlockers.map(blocker => edited.get(blocker.id) ?? blocker),
+            ...prev.filter(blocker => !blocker.isNew() && !openIds.has(blocker.id) && blocker.resolvedOn === targetDate),
+            ...prev.filter(blocker => blocker.isNew())
+          ];
+        });
+      })
+      .catch(error => console.error('Failed to load open blockers:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, ownerId, teamId, targetDate, repository]);
+
+  // Load the teammates who can be mentioned; without them, a typed "@Name" still counts when saved
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    formUseCase.getAvailableTeamMembers(teamId)
+      .then(members => {
+        if (!cancelled) setMentionables(members.filter(rosterMember => rosterMember.id !== ownerId));
+      })
+      .catch(error => console.error('Failed to load teammates to mention:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, ownerId, teamId, formUseCase]);
 
   const handleYesterdayChange = useCallback((value: string) => {
+    editedRef.current = true;
     setFormData(prev => ({ ...prev, yesterday: value }));
   }, []);
 
   const handleTodayChange = useCallback((value: string) => {
+    editedRef.current = true;
     setFormData(prev => ({ ...prev, today: value }));
   }, []);
 
-  const handleBlockersChange = useCallback((value: string) => {
-    setFormData(prev => ({ ...prev, blockers: value }));
+  const handleAddBlocker = useCallback((details: { description: string; unblocker: string; severity: BlockerSeverity }) => {
+    if (!ownerId) return;
+    editedRef.current = true;
+    setBlockerItems(prev => [...prev, Blocker.draft(ownerId, formData.name, details)]);
+  }, [ownerId, formData.name]);
+
+  const handleResolveBlocker = useCallback((index: number, resolution: string) => {
+    editedRef.current = true;
+    setBlockerItems(prev => prev.map((blocker, i) => i === index ? blocker.resolve(targetDate, resolution) : blocker));
+  }, [targetDate]);
+
+  const handleReopenBlocker = useCallback((index: number) => {
+    editedRef.current = true;
+    setBlockerItems(prev => prev.map((blocker, i) => i === index ? blocker.reopen() : blocker));
   }, []);
 
+  // Only blockers added in this form can be removed; saved ones are resolved instead
+  const handleRemoveBlocker = useCallback((index: number) => {
+    editedRef.current = true;
+    setBlockerItems(prev => prev.filter((blocker, i) => i !== index || !blocker.isNew()));
+  }, []);
+
+  // Generated blocker text becomes a new blocker, unless it says there are none
+  const addGeneratedBlocker = useCallback((content: string) => {
+    const description = content.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+    if (!description || /^(none|no blockers?)\.?$/i.test(description)) return;
+    handleAddBlocker({ description, unblocker: '', severity: 'medium' });
+  }, [handleAddBlocker]);
+
   // AI generation handlers
   const handleGenerateField = useCallback(async (fieldType: 'yesterday' | 'today' | 'blockers') => {
     if (!formData.name || !formData.role) {
-      alert('Please select your name first');
+      alert('Your account is not on this team\'s roster');
       return;
     }
 
@@ -92,7 +234,8 @@ export function useStandupForm(member?: TeamMember, previousEntries: TeamMember[
         formData.name,
         formData.role,
         fieldType,
-        previousEntries
+        previousEntries,
+        targetDate
       );
       
       setAiGeneratedContent(prev => ({
@@ -106,11 +249,11 @@ export function useStandupForm(member?: TeamMember, previousEntries: TeamMember[
     } finally {
       setAiLoading(false);
     }
-  }, [formData.name, formData.role, previousEntries, formUseCase]);
+  }, [formData.name, formData.role, previousEntries, formUseCase, targetDate]);
 
   const handleGenerateFullReport = useCallback(async () => {
     if (!formData.name || !formData.role) {
-      alert('Please select your name first');
+      alert('Your account is not on this team\'s roster');
       return;
     }
 
@@ -132,10 +275,15 @@ export function useStandupForm(member?: TeamMember, previousEntries: TeamMember[
   }, [formData.name, formData.role, previousEntries, formUseCase]);
 
   const handleAcceptAIContent = useCallback((field: 'yesterday' | 'today' | 'blockers', content: string) => {
-    setFormData(prev => ({
-      ...prev,
-      [field]: content
-    }));
+    if (field === 'blockers') {
+      addGeneratedBlocker(content);
+    } else {
+      editedRef.current = true;
+      setFormData(prev => ({
+        ...prev,
+        [field]: content
+      }));
+    }
     
     // Remove the accepted content from preview
     setAiGeneratedContent(prev => {
@@ -143,9 +291,10 @@ export function useStandupForm(member?: TeamMember, previousEntries: TeamMember[
       delete updated[field];
       return updated;
     });
-  }, []);
+  }, [addGeneratedBlocker]);
 
   const handleAcceptAllAI = useCallback(() => {
+    editedRef.current = true;
     if (aiGeneratedContent.yesterday) {
       setFormData(prev => ({ ...prev, yesterday: aiGeneratedContent.yesterday! }));
     }
@@ -153,22 +302,70 @@ export function useStandupForm(member?: TeamMember, previousEntries: TeamMember[
       setFormData(prev => ({ ...prev, today: aiGeneratedContent.today! }));
     }
     if (aiGeneratedContent.blockers) {
-      setFormData(prev => ({ ...prev, blockers: aiGeneratedContent.blockers! }));
+      addGeneratedBlocker(aiGeneratedContent.blockers);
     }
     
     setAiGeneratedContent({});
     setAiPreviewOpen(false);
-  }, [aiGeneratedContent]);
+  }, [aiGeneratedContent, addGeneratedBlocker]);
 
   // Create team member from form data
   const createTeamMember = useCallback(() => {
-    return formUseCase.createTeamMemberFromForm(formData, member?.id);
-  }, [formData, member?.id, formUseCase]);
+    return formUseCase.createTeamMemberFromForm(formData, blockerItems, targetDate, currentMember?.id);
+  }, [formData, blockerItems, targetDate, currentMember?.id, formUseCase]);
+
+  // Autosave edits on this device shortly after typing stops
+  useEffect(() => {
+    if (!isOpen || !currentMember || !editedRef.current) return;
+
+    const timer = setTimeout(() => {
+      draftsUseCase.saveDraft(teamId, createTeamMember(), targetDate, baseRevision)
+        .catch(error => console.error('Failed to autosave draft:', error));
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [isOpen, currentMember, draftsUseCase, teamId, createTeamMember, targetDate, baseRevision]);
+
+  // Count the writer as typing from their first edit until they pause or close the form
+  useEffect(() => {
+    if (!onTypingChange) return;
+
+    if (!isOpen || !editedRef.current) {
+      onTypingChange(false);
+      return;
+    }
 
-  // Validate form
+    onTypingChange(true);
+    const timer = setTimeout(() => onTypingChange(false), TYPING_IDLE_MS);
+
+    return () => clearTimeout(timer);
+  }, [isOpen, formData, blockerItems, onTypingChange]);
+
+  // Throw away the restored draft and go back to the saved update
+  const discardRestoredDraft = useCallback(async () => {
+    if (!restoredDraft) return;
+
+    try {
+      await draftsUseCase.discardDraft(restoredDraft.teamId, restoredDraft.member.id, restoredDraft.date);
+      resetForm();
+    } catch (error) {
+      console.error('Failed to discard draft:', error);
+    }
+  }, [draftsUseCase, restoredDraft, resetForm]);
+
+  // Validate form, including that the target date is still inside the backfill window
   const validateForm = useCallback(() => {
-    return formUseCase.validateFormData(formData);
-  }, [formData, formUseCase]);
+    const validation = formUseCase.validateFormData(formData);
+
+    if (!TeamCalendar.isWithinBackfillWindow(targetDate, timezone, currentTeam.backfillDays)) {
+      return {
+        isValid: false,
+        errors: [...validation.errors, `Pick a date between ${earliestDate} and ${today}`]
+      };
+    }
+
+    return validation;
+  }, [formData, formUseCase, targetDate, timezone, currentTeam.backfillDays, earliestDate, today]);
 
   return {
     // Form data
@@ -176,10 +373,18 @@ export function useStandupForm(member?: TeamMember, previousEntries: TeamMember[
     setFormData,
     
     // Form handlers
-    handleNameChange,
     handleYesterdayChange,
     handleTodayChange,
-    handleBlockersChange,
+
+    // Blockers
+    blockerItems,
+    handleAddBlocker,
+    handleResolveBlocker,
+    handleReopenBlocker,
+    handleRemoveBlocker,
+
+    // Mentions
+    mentionables,
     
     // AI generation
     aiPreviewOpen,
@@ -191,9 +396,24 @@ export function useStandupForm(member?: TeamMember, previousEntries: TeamMember[
     handleAcceptAIContent,
     handleAcceptAllAI,
     
+    // Target date
+    targetDate,
+    setTargetDate,
+    earliestDate,
+    today,
+    isLate: targetDate < today,
+
+    // Drafts
+    restoredDraft,
+    restoredDraftIsStale: !!restoredDraft && restoredDraft.baseRevision !== baseRevision,
+    discardRestoredDraft,
+
     // Business logic
-    availableTeamMembers: formUseCase.getAvailableTeamMembers(),
-    getPreviousBusinessDayLabel: formUseCase.getPreviousBusinessDayLabel(),
+    currentMember,
+    currentMemberLoading,
+    canPostUpdates: can('post_updates'),
+    getPreviousBusinessDayLabel: formUseCase.getPreviousBusinessDayLabel(targetDate),
+    previousBusinessDayName: formUseCase.getPreviousBusinessDayName(targetDate),
     getTodayPlanLabel: formUseCase.getTodayPlanLabel(),
     createTeamMember,
     validateForm
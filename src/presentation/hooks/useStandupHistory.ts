@@ -1,28 +1,82 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { StandupEntry } from '@/domain/entities/StandupEntry';
+import { RosterMember } from '@/domain/entities/RosterMember';
+import { UpdateSearchResult } from '@/domain/entities/UpdateSearchResult';
+import { UpdateSearchInput } from '@/domain/repositories/StandupRepository';
 import { DateRange } from '@/domain/value-objects/DateRange';
 import { DateFormatter } from '@/domain/services/DateFormatter';
 import { GetStandupHistoryUseCase } from '@/application/use-cases/GetStandupHistoryUseCase';
 import { SupabaseStandupRepository } from '@/infrastructure/repositories/SupabaseStandupRepository';
+import { SupabaseAuthorizationService } from '@/infrastructure/services/SupabaseAuthorizationService';
+import { useTeams } from './useTeams';
+
+// How long after the last keystroke the search runs
+const SEARCH_DELAY_MS = 300;
+
+export type HistorySearch = Omit<UpdateSearchInput, 'limit'>;
+
+const EMPTY_SEARCH: HistorySearch = {
+  text: '',
+  memberId: null,
+  role: null,
+  startDate: null,
+  endDate: null,
+  hasBlockers: false
+};
 
 /**
  * Custom hook for managing standup history
  * Follows clean architecture by using use cases
+ * Reloads whenever the refresh key changes, e.g. after a past update is edited
+ * History loads a page of days at a time, with `loadMore` adding the next page to the end
+ * Picking a month pages through that month from the server; searching by text or filters returns
+ * matching updates, best first, within the selected month unless a date range is given
+ * Turning `keywordSearch` off keeps the search text and filters but stops searching by them
  */
-export function useStandupHistory() {
+export function useStandupHistory(refreshKey: number = 0, keywordSearch: boolean = true) {
   const [history, setHistory] = useState<StandupEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [availableMonths, setAvailableMonths] = useState<string[]>([]);
   const [monthDisplayNames, setMonthDisplayNames] = useState<Record<string, string>>({});
   const [selectedMonth, setSelectedMonth] = useState<string>('all');
+  const [search, setSearch] = useState<HistorySearch>(EMPTY_SEARCH);
+  const [searchResults, setSearchResults] = useState<UpdateSearchResult[]>([]);
+  const [searchableMembers, setSearchableMembers] = useState<RosterMember[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [searching, setSearching] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const { teamId } = useTeams();
+
+  // Bumped whenever history starts over, so pages still loading for the old history are dropped
+  const historyRequest = useRef(0);
 
   // Initialize use case
   const getStandupHistoryUseCase = useMemo(
-    () => new GetStandupHistoryUseCase(new SupabaseStandupRepository()),
+    () => new GetStandupHistoryUseCase(new SupabaseStandupRepository(), new SupabaseAuthorizationService()),
     []
   );
 
+  const isSearching = keywordSearch && (search.text.trim() !== '' ||
+    !!search.memberId ||
+    !!search.role ||
+    !!search.startDate ||
+    !!search.endDate ||
+    search.hasBlockers);
+
+  // The selected month as a date range, or null for all months
+  const monthRange = useMemo(() => {
+    if (selectedMonth === 'all') {
+      return null;
+    }
+
+    return DateRange.forMonth(
+      parseInt(selectedMonth.split('-')[0]),
+      parseInt(selectedMonth.split('-')[1])
+    );
+  }, [selectedMonth]);
+
   // Load initial data
   useEffect(() => {
     const loadData = async () => {
@@ -30,15 +84,14 @@ export function useStandupHistory() {
         setLoading(true);
         setError(null);
 
-        const [historyData, months, displayNames] = await Promise.all([
-          getStandupHistoryUseCase.getAllHistory(),
-          getStandupHistoryUseCase.getAvailableMonths(),
-          getStandupHistoryUseCase.getMonthDisplayNames()
+        const [months, members] = await Promise.all([
+          getStandupHistoryUseCase.getAvailableMonths(teamId),
+          getStandupHistoryUseCase.getSearchableMembers(teamId)
         ]);
 
-        setHistory(historyData);
         setAvailableMonths(months);
-        setMonthDisplayNames(displayNames);
+        setMonthDisplayNames(getStandupHistoryUseCase.getMonthDisplayNames(months));
+        setSearchableMembers(members);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load history');
       } finally {
@@ -47,21 +100,108 @@ export function useStandupHistory() {
     };
 
     loadData();
-  }, [getStandupHistoryUseCase]);
+  }, [getStandupHistoryUseCase, teamId, refreshKey]);
 
-  // Filter history based on selected month
-  const filteredHistory = useMemo(() => {
-    if (selectedMonth === 'all') {
-      return history;
+  // Load a page of the selected month's history, or of all history
+  const loadPage = useCallback((cursor: string | null) => monthRange
+    ? getStandupHistoryUseCase.getHistoryByDateRange(teamId, monthRange, cursor)
+    : getStandupHistoryUseCase.getHistoryPage(teamId, cursor), [getStandupHistoryUseCase, teamId, monthRange]);
+
+  // Load the first page of the selected month's history
+  useEffect(() => {
+    const request = ++historyRequest.current;
+    setLoadingMore(false);
+
+    const loadHistory = async () => {
+      try {
+        const page = await loadPage(null);
+
+        if (request === historyRequest.current) {
+          setHistory(page.entries);
+          setNextCursor(page.nextCursor);
+        }
+      } catch (err) {
+        if (request === historyRequest.current) setError(err instanceof Error ? err.message : 'Failed to load history');
+      }
+    };
+
+    loadHistory();
+  }, [loadPage, refreshKey]);
+
+  // Run the search shortly after the text or filters stop changing
+  useEffect(() => {
+    if (!isSearching) {
+      setSearchResults([]);
+      setSearchError(null);
+      setSearching(false);
+      return;
     }
 
-    const dateRange = DateRange.forMonth(
-      parseInt(selectedMonth.split('-')[0]),
-      parseInt(selectedMonth.split('-')[1])
-    );
+    let cancelled = false;
+    setSearching(true);
+
+    const timer = setTimeout(async () => {
+      try {
+        const hasDates = !!search.startDate || !!search.endDate;
+        const results = await getStandupHistoryUseCase.searchHistory(teamId, {
+          ...search,
+          startDate: hasDates ? search.startDate : monthRange?.startDate ?? null,
+          endDate: hasDates ? search.endDate : monthRange?.endDate ?? null
+        });
+
+        if (!cancelled) {
+          setSearchResults(results);
+          setSearchError(null);
+        }
+      } catch (err) {
+        if (!cancelled) setSearchError(err instanceof Error ? err.message : 'Failed to search history');
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [getStandupHistoryUseCase, teamId, search, isSearching, monthRange, refreshKey]);
+
+  // Add the next page of days to the end of the history
+  const loadMore = async () => {
+    if (!nextCursor || loadingMore) return;
 
-    return history.filter(entry => dateRange.contains(entry.date));
-  }, [history, selectedMonth]);
+    const request = historyRequest.current;
+    setLoadingMore(true);
+
+    try {
+      const page = await loadPage(nextCursor);
+
+      if (request === historyRequest.current) {
+        setHistory(current => [...current, ...page.entries]);
+        setNextCursor(page.nextCursor);
+      }
+    } catch (err) {
+      if (request === historyRequest.current) setError(err instanceof Error ? err.message : 'Failed to load history');
+    } finally {
+      if (request === historyRequest.current) setLoadingMore(false);
+    }
+  };
+
+  // Roles that appear on the roster, for filtering
+  const searchableRoles = useMemo(
+    () => Array.from(new Set(searchableMembers.map(member => member.role).filter(Boolean))).sort(),
+    [searchableMembers]
+  );
+
+  // Change some of the search text and filters
+  const updateSearch = (changes: Partial<HistorySearch>) => {
+    setSearch(current => ({ ...current, ...changes }));
+  };
+
+  // Go back to browsing history
+  const clearSearch = () => {
+    setSearch(EMPTY_SEARCH);
+  };
 
   // Format date for display
   const formatDate = (dateString: string): string => {
@@ -79,13 +219,25 @@ export function useStandupHistory() {
   };
 
   return {
-    history: filteredHistory,
+    history,
+    hasMore: nextCursor !== null,
     availableMonths,
     monthDisplayNames,
     selectedMonth,
+    search,
+    isSearching,
+    searchResults,
+    searchableMembers,
+    searchableRoles,
     loading,
+    loadingMore,
+    searching,
     error,
+    searchError,
     setSelectedMonth,
+    loadMore,
+    updateSearch,
+    clearSearch,
     formatDate,
     formatCreationDate,
     getMonthDisplayName
@@ -0,0 +1,134 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { RosterMember, ReminderChannel } from '@/domain/entities/RosterMember';
+import { RosterMemberInput } from '@/domain/repositories/StandupRepository';
+import { TeamRole, TeamRoleName } from '@/domain/value-objects/TeamRole';
+import { ManageTeamRosterUseCase } from '@/application/use-cases/ManageTeamRosterUseCase';
+import { SupabaseStandupRepository } from '@/infrastructure/repositories/SupabaseStandupRepository';
+import { SupabaseAuthorizationService } from '@/infrastructure/services/SupabaseAuthorizationService';
+import { useToast } from './useToast';
+import { useTeams } from './useTeams';
+import { useCurrentMember } from './useCurrentMember';
+
+/**
+ * Custom hook for managing the team roster
+ * Wraps the roster use case with loading state and toast feedback
+ */
+export function useTeamRoster() {
+  const [members, setMembers] = useState<RosterMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { showError, showSuccess } = useToast();
+  const { teamId } = useTeams();
+  const { refresh: refreshCurrentMember } = useCurrentMember();
+
+  // Initialize use case
+  const rosterUseCase = useMemo(
+    () => new ManageTeamRosterUseCase(new SupabaseStandupRepository(), new SupabaseAuthorizationService()),
+    []
+  );
+
+  const fetchRoster = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const roster = await rosterUseCase.getRoster(teamId);
+      setMembers(roster);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load team roster');
+    } finally {
+      setLoading(false);
+    }
+  }, [rosterUseCase, teamId]);
+
+  useEffect(() => {
+    fetchRoster();
+  }, [fetchRoster]);
+
+  /**
+   * Run a roster mutation, then refresh the list and report the outcome
+   */
+  const runMutation = useCallback(async (
+    action: () => Promise<unknown>,
+    successTitle: string,
+    failureTitle: string
+  ): Promise<boolean> => {
+    try {
+      setSaving(true);
+      await action();
+      await fetchRoster();
+      showSuccess(successTitle, undefined, 3000);
+      return true;
+    } catch (err) {
+      showError(failureTitle, err instanceof Error ? err.message : undefined, 6000);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, [fetchRoster, showError, showSuccess]);
+
+  const addMember = useCallback((input: RosterMemberInput) => runMutation(
+    () => rosterUseCase.addMember(teamId, input),
+    `${input.name.trim()} added to the team`,
+    'Failed to Add Member'
+  ), [rosterUseCase, teamId, runMutation]);
+
+  const updateMember = useCallback((id: string, input: RosterMemberInput) => runMutation(
+    () => rosterUseCase.updateMember(teamId, id, input),
+    'Team Member Updated',
+    'Failed to Update Member'
+  ), [rosterUseCase, teamId, runMutation]);
+
+  const archiveMember = useCallback((member: RosterMember) => runMutation(
+    () => rosterUseCase.archiveMember(teamId, member.id),
+    `${member.name} archived`,
+    'Failed to Archive Member'
+  ), [rosterUseCase, teamId, runMutation]);
+
+  const restoreMember = useCallback((member: RosterMember) => runMutation(
+    () => rosterUseCase.restoreMember(teamId, member.id),
+    `${member.name} restored`,
+    'Failed to Restore Member'
+  ), [rosterUseCase, teamId, runMutation]);
+
+  const changeRole = useCallback((member: RosterMember, role: TeamRoleName) => runMutation(
+    async () => {
+      await rosterUseCase.changeRole(teamId, member.id, role);
+      // The signed-in user may have changed their own permissions
+      await refreshCurrentMember();
+    },
+    `${member.name} is now ${new TeamRole(role).getLabel().toLowerCase()}`,
+    'Failed to Change Role'
+  ), [rosterUseCase, teamId, runMutation, refreshCurrentMember]);
+
+  const updateReminderChannel = useCallback((channel: ReminderChannel) => runMutation(
+    async () => {
+      await rosterUseCase.updateReminderChannel(teamId, channel);
+      await refreshCurrentMember();
+    },
+    channel === 'none' ? "You won't be reminded to post" : `Reminders will come by ${RosterMember.getReminderChannelLabel(channel).toLowerCase()}`,
+    'Failed to Update Reminders'
+  ), [rosterUseCase, teamId, runMutation, refreshCurrentMember]);
+
+  const activeMembers = useMemo(() => members.filter(member => member.isActive()), [members]);
+  const archivedMembers = useMemo(() => members.filter(member => member.isArchived()), [members]);
+
+  return {
+    // State
+    activeMembers,
+    archivedMembers,
+    loading,
+    saving,
+    error,
+
+    // Actions
+    addMember,
+    updateMember,
+    archiveMember,
+    restoreMember,
+    changeRole,
+    updateReminderChannel,
+    refreshRoster: fetchRoster
+  };
+}
@@ -0,0 +1,235 @@
+import React, { useState, useEffect, useCallback, useMemo, createContext, useContext } from 'react';
+import { Team } from '@/domain/entities/Team';
+import { TeamHoliday } from '@/domain/entities/TeamHoliday';
+import { HuddleSettingsInput } from '@/domain/repositories/StandupRepository';
+import { TeamCalendar } from '@/domain/services/TeamCalendar';
+import { ManageTeamsUseCase } from '@/application/use-cases/ManageTeamsUseCase';
+import { ManageHolidaysUseCase } from '@/application/use-cases/ManageHolidaysUseCase';
+import { SupabaseStandupRepository } from '@/infrastructure/repositories/SupabaseStandupRepository';
+import { SupabaseAuthorizationService } from '@/infrastructure/services/SupabaseAuthorizationService';
+
+const CURRENT_TEAM_STORAGE_KEY = 'current-team-id';
+
+// Holidays are loaded for a year either side of today
+const HOLIDAY_WINDOW_DAYS = 366;
+
+// Create a context for the current team (workspace)
+const TeamsContext = createContext<{
+  teams: Team[];
+  currentTeam: Team;
+  teamId: string;
+  timezone: string;
+  holidays: TeamHoliday[];
+  holidayDates: string[];
+  refreshHolidays: () => Promise<void>;
+  selectTeam: (teamId: string) => void;
+  createTeam: (name: string, timezone: string) => Promise<Team>;
+  updateTimezone: (timezone: string) => Promise<void>;
+  updateStandupTime: (standupTime: string) => Promise<void>;
+  updateBackfillDays: (backfillDays: number) => Promise<void>;
+  updateBlockerEscalationDays: (escalationDays: number) => Promise<void>;
+  updateReminderTime: (reminderTime: string | null) => Promise<void>;
+  updateHuddleSettings: (input: HuddleSettingsInput) => Promise<void>;
+} | null>(null);
+
+// Provider component
+// Children only render once a team is selected, so every consumer has a team to scope to
+export function TeamsProvider({ children }: { children: React.ReactNode }) {
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [currentTeamId, setCurrentTeamId] = useState<string | null>(
+    () => localStorage.getItem(CURRENT_TEAM_STORAGE_KEY)
+  );
+  const [holidays, setHolidays] = useState<TeamHoliday[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newTeamName, setNewTeamName] = useState('');
+  const [creatingTeam, setCreatingTeam] = useState(false);
+
+  const teamsUseCase = useMemo(
+    () => new ManageTeamsUseCase(new SupabaseStandupRepository(), new SupabaseAuthorizationService()),
+    []
+  );
+  const holidaysUseCase = useMemo(
+    () => new ManageHolidaysUseCase(new SupabaseStandupRepository(), new SupabaseAuthorizationService()),
+    []
+  );
+
+  useEffect(() => {
+    teamsUseCase.getTeams()
+      .then(setTeams)
+      .catch(err => {
+        console.error('Failed to load teams:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load teams');
+      })
+      .finally(() => setLoading(false));
+  }, [teamsUseCase]);
+
+  // Fall back to the first team when nothing (or a deleted team) was stored
+  const currentTeam = teams.find(team => team.id === currentTeamId) ?? teams[0];
+
+  const currentTeamKey = currentTeam?.id;
+  const currentTimezone = currentTeam?.timezone;
+
+  const refreshHolidays = useCallback(async () => {
+    if (!currentTeamKey || !currentTimezone) return;
+
+    const today = TeamCalendar.getDate(currentTimezone);
+    try {
+      setHolidays(await holidaysUseCase.getHolidays(
+        currentTeamKey,
+        TeamCalendar.addDays(today, -HOLIDAY_WINDOW_DAYS),
+        TeamCalendar.addDays(today, HOLIDAY_WINDOW_DAYS)
+      ));
+    } catch (err) {
+      console.error('Failed to load team holidays:', err);
+      setHolidays([]);
+    }
+  }, [holidaysUseCase, currentTeamKey, currentTimezone]);
+
+  useEffect(() => {
+    setHolidays([]);
+    refreshHolidays();
+  }, [refreshHolidays]);
+
+  const holidayDates = useMemo(() => TeamHoliday.toDates(holidays), [holidays]);
+
+  const selectTeam = useCallback((teamId: string) => {
+    localStorage.setItem(CURRENT_TEAM_STORAGE_KEY, teamId);
+    setCurrentTeamId(teamId);
+  }, []);
+
+  const createTeam = useCallback(async (name: string, timezone: string) => {
+    const team = await teamsUseCase.createTeam(name, timezone);
+    setTeams(prev => [...prev, team].sort((a, b) => a.name.localeCompare(b.name)));
+    selectTeam(team.id);
+    return team;
+  }, [teamsUseCase, selectTeam]);
+
+  const updateTimezone = useCallback(async (timezone: string) => {
+    if (!currentTeam) return;
+
+    const saved = await teamsUseCase.updateTimezone(currentTeam.id, timezone);
+    setTeams(prev => prev.map(team => team.id === currentTeam.id ? team.update({ timezone: saved }) : team));
+  }, [teamsUseCase, currentTeam]);
+
+  const updateStandupTime = useCallback(async (standupTime: string) => {
+    if (!currentTeam) return;
+
+    const saved = await teamsUseCase.updateStandupTime(currentTeam.id, standupTime);
+    setTeams(prev => prev.map(team => team.id === currentTeam.id ? team.update({ standupTime: saved }) : team));
+  }, [teamsUseCase, currentTeam]);
+
+  const updateBackfillDays = useCallback(async (backfillDays: number) => {
+    if (!currentTeam) return;
+
+    const saved = await teamsUseCase.updateBackfillDays(currentTeam.id, backfillDays);
+    setTeams(prev => prev.map(team => team.id === currentTeam.id ? team.update({ backfillDays: saved }) : team));
+  }, [teamsUseCase, currentTeam]);
+
+  const updateBlockerEscalationDays = useCallback(async (escalationDays: number) => {
+    if (!currentTeam) return;
+
+    const saved = await teamsUseCase.updateBlockerEscalationDays(currentTeam.id, escalationDays);
+    setTeams(prev => prev.map(team => team.id === currentTeam.id ? team.update({ blockerEscalationDays: saved }) : team));
+  }, [teamsUseCase, currentTeam]);
+
+  const updateReminderTime = useCallback(async (reminderTime: string | null) => {
+    if (!currentTeam) return;
+
+    const saved = await teamsUseCase.updateReminderTime(currentTeam.id, reminderTime);
+    setTeams(prev => prev.map(team => team.id === currentTeam.id ? team.update({ reminderTime: saved }) : team));
+  }, [teamsUseCase, currentTeam]);
+
+  const updateHuddleSettings = useCallback(async (input: HuddleSettingsInput) => {
+    if (!currentTeam) return;
+
+    await teamsUseCase.updateHuddleSettings(currentTeam.id, input);
+    setTeams(prev => prev.map(team => team.id === currentTeam.id ? team.update({
+      huddleTimeBoxSeconds: input.timeBoxSeconds,
+      huddleOrder: input.order,
+      huddleMemberOrder: input.memberOrder
+    }) : team));
+  }, [teamsUseCase, currentTeam]);
+
+  const value = useMemo(() => currentTeam ? {
+    teams,
+    currentTeam,
+    teamId: currentTeam.id,
+    timezone: currentTeam.timezone,
+    holidays,
+    holidayDates,
+    refreshHolidays,
+    selectTeam,
+    createTeam,
+    updateTimezone,
+    updateStandupTime,
+    updateBackfillDays,
+    updateBlockerEscalationDays,
+    updateReminderTime,
+    updateHuddleSettings
+  } : null, [teams, currentTeam, holidays, holidayDates, refreshHolidays, selectTeam, createTeam, updateTimezone, updateStandupTime, updateBackfillDays, updateBlockerEscalationDays, updateReminderTime, updateHuddleSettings]);
+
+  // Someone on no team's roster can only start a team of their own
+  const handleCreateFirstTeam = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setCreatingTeam(true);
+      setError(null);
+      await createTeam(newTeamName, Intl.DateTimeFormat().resolvedOptions().timeZone);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create team');
+    } finally {
+      setCreatingTeam(false);
+    }
+  };
+
+  if (loading || !value) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100 dark:from-slate-900 dark:via-slate-800 dark:to-slate-900">
+        {loading ? (
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 dark:border-blue-400"></div>
+        ) : (
+          <form onSubmit={handleCreateFirstTeam} className="max-w-sm mx-4 space-y-3 text-center">
+            <p className="text-gray-600 dark:text-gray-400">
+              You're not on any team yet. Ask a team admin to add your email to their roster, or start a new team.
+            </p>
+            <input
+              type="text"
+              value={newTeamName}
+              onChange={(e) => setNewTeamName(e.target.value)}
+              placeholder="Team name"
+              disabled={creatingTeam}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            {error && (
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            )}
+            <button
+              type="submit"
+              disabled={creatingTeam || !newTeamName.trim()}
+              className="px-4 py-2 text-sm font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {creatingTeam ? 'Creating...' : 'Create team'}
+            </button>
+          </form>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <TeamsContext.Provider value={value}>
+      {children}
+    </TeamsContext.Provider>
+  );
+}
+
+// Hook to use the teams context
+// eslint-disable-next-line react-refresh/only-export-components
+export function useTeams() {
+  const context = useContext(TeamsContext);
+  if (!context) {
+    throw new Error('useTeams must be used within a TeamsProvider');
+  }
+  return context;
+}
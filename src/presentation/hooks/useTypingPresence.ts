@@ -0,0 +1,52 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { TeamPresence, TypingMember } from '@/application/services/StandupRealtimeService';
+import { SupabaseRealtimeService } from '@/infrastructure/services/SupabaseRealtimeService';
+import { useTeams } from './useTeams';
+import { useCurrentMember } from './useCurrentMember';
+
+/**
+ * Custom hook for who on the current team is writing a standup update right now
+ * Members who can post share their own typing status; everyone else only watches
+ */
+export function useTypingPresence() {
+  const [typingMembers, setTypingMembers] = useState<TypingMember[]>([]);
+  const presenceRef = useRef<TeamPresence | null>(null);
+
+  const { teamId } = useTeams();
+  const { member, can } = useCurrentMember();
+  const realtimeService = useMemo(() => new SupabaseRealtimeService(), []);
+
+  const canPost = can('post_updates');
+  const memberId = member?.id;
+  const memberName = member?.name;
+
+  useEffect(() => {
+    const presence = realtimeService.joinPresence(
+      teamId,
+      canPost && memberId && memberName ? { id: memberId, name: memberName } : null,
+      setTypingMembers
+    );
+    presenceRef.current = presence;
+
+    return () => {
+      presence.leave();
+      presenceRef.current = null;
+      setTypingMembers([]);
+    };
+  }, [realtimeService, teamId, canPost, memberId, memberName]);
+
+  const setTyping = useCallback((typing: boolean) => {
+    presenceRef.current?.setTyping(typing);
+  }, []);
+
+  return {
+    // State
+    typingMembers: useMemo(
+      () => typingMembers.filter(typingMember => typingMember.memberId !== memberId),
+      [typingMembers, memberId]
+    ),
+
+    // Actions
+    setTyping
+  };
+}
@@ -0,0 +1,128 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { TeamMember } from '@/domain/entities/TeamMember';
+import { UpdateComment } from '@/domain/entities/UpdateComment';
+import { UpdateReaction } from '@/domain/entities/UpdateReaction';
+import { ManageUpdateDiscussionUseCase } from '@/application/use-cases/ManageUpdateDiscussionUseCase';
+import { SupabaseStandupRepository } from '@/infrastructure/repositories/SupabaseStandupRepository';
+import { SupabaseAuthorizationService } from '@/infrastructure/services/SupabaseAuthorizationService';
+import { useToast } from './useToast';
+import { useTeams } from './useTeams';
+import { useCurrentMember } from './useCurrentMember';
+
+/**
+ * Custom hook for the comments and reactions on one member's standup update
+ * Reactions and the comment count come with the update; comments are only loaded while the
+ * thread is open, and reload when the count changes (e.g. a teammate replied)
+ * @param open Whether the comment thread is showing
+ */
+export function useUpdateDiscussion(member: TeamMember, open: boolean) {
+  const [comments, setComments] = useState<UpdateComment[]>([]);
+  const [reactions, setReactions] = useState<UpdateReaction[]>(member.reactions);
+  const [commentCount, setCommentCount] = useState(member.commentCount);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const { showError } = useToast();
+  const { teamId } = useTeams();
+  const { member: currentMember, can } = useCurrentMember();
+
+  const discussionUseCase = useMemo(
+    () => new ManageUpdateDiscussionUseCase(new SupabaseStandupRepository(), new SupabaseAuthorizationService()),
+    []
+  );
+
+  const updateId = member.updateId;
+  const currentMemberId = can('post_updates') ? currentMember?.id : undefined;
+
+  // Take in changes loaded with the update, including teammates' through realtime
+  useEffect(() => {
+    setReactions(member.reactions);
+    setCommentCount(member.commentCount);
+  }, [member.reactions, member.commentCount]);
+
+  useEffect(() => {
+    if (!open || !updateId) return;
+
+    let cancelled = false;
+    setLoading(true);
+
+    discussionUseCase.getComments(teamId, updateId)
+      .then(data => {
+        if (cancelled) return;
+        setComments(data);
+        setCommentCount(data.length);
+      })
+      .catch(err => {
+        console.error('Failed to load comments:', err);
+        if (!cancelled) showError('Failed to Load Comments', err instanceof Error ? err.message : undefined, 6000);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [discussionUseCase, teamId, updateId, open, member.commentCount, showError]);
+
+  const addComment = useCallback(async (body: string, parent?: UpdateComment): Promise<boolean> => {
+    if (!updateId || !currentMemberId) return false;
+
+    try {
+      setSaving(true);
+      const comment = await discussionUseCase.addComment(teamId, updateId, currentMemberId, body, parent);
+      setComments(prev => [...prev, comment]);
+      setCommentCount(count => count + 1);
+      return true;
+    } catch (err) {
+      showError('Failed to Post Comment', err instanceof Error ? err.message : undefined, 6000);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, [discussionUseCase, teamId, updateId, currentMemberId, showError]);
+
+  const deleteComment = useCallback(async (comment: UpdateComment): Promise<boolean> => {
+    if (!currentMemberId) return false;
+
+    try {
+      setSaving(true);
+      await discussionUseCase.deleteComment(teamId, comment, currentMemberId);
+      const remaining = comments.filter(existing => existing.id !== comment.id && existing.parentId !== comment.id);
+      setComments(remaining);
+      setCommentCount(remaining.length);
+      return true;
+    } catch (err) {
+      showError('Failed to Delete Comment', err instanceof Error ? err.message : undefined, 6000);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, [discussionUseCase, teamId, comments, currentMemberId, showError]);
+
+  const toggleReaction = useCallback(async (emoji: string) => {
+    if (!updateId || !currentMemberId) return;
+
+    try {
+      setReactions(await discussionUseCase.toggleReaction(teamId, updateId, currentMemberId, emoji, reactions));
+    } catch (err) {
+      showError('Failed to React', err instanceof Error ? err.message : undefined, 6000);
+    }
+  }, [discussionUseCase, teamId, updateId, currentMemberId, reactions, showError]);
+
+  return {
+    // State
+    threads: useMemo(() => UpdateComment.toThreads(comments), [comments]),
+    reactions: useMemo(() => UpdateReaction.summarize(reactions, currentMemberId), [reactions, currentMemberId]),
+    commentCount,
+    currentMemberId,
+    canParticipate: !!currentMemberId && !!updateId,
+    loading,
+    saving,
+
+    // Actions
+    addComment,
+    deleteComment,
+    toggleReaction
+  };
+}
@@ -0,0 +1,155 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { TeamMember } from '@/domain/entities/TeamMember';
+import { UpdateDraft } from '@/domain/entities/UpdateDraft';
+import { ManageUpdateDraftsUseCase } from '@/application/use-cases/ManageUpdateDraftsUseCase';
+import { SupabaseStandupRepository } from '@/infrastructure/repositories/SupabaseStandupRepository';
+import { IndexedDBUpdateDraftRepository } from '@/infrastructure/repositories/IndexedDBUpdateDraftRepository';
+import { SupabaseAuthorizationService } from '@/infrastructure/services/SupabaseAuthorizationService';
+import { SupabaseNetworkErrorService } from '@/infrastructure/services/SupabaseNetworkErrorService';
+import { useToast } from './useToast';
+import { useTeams } from './useTeams';
+
+/**
+ * Custom hook for standup updates saved on this device while offline
+ * Queued updates are posted when the browser comes back online (and when the dashboard opens);
+ * `onSynced` is called after any were posted so the dashboard can reload
+ */
+export function useUpdateOutbox(onSynced: () => void) {
+  const [pendingUpdates, setPendingUpdates] = useState<UpdateDraft[]>([]);
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [syncing, setSyncing] = useState(false);
+
+  const { showError, showSuccess } = useToast();
+  const { teamId } = useTeams();
+
+  // Kept in a ref so a new callback on each render doesn't trigger another sync
+  const onSyncedRef = useRef(onSynced);
+  onSyncedRef.current = onSynced;
+
+  const draftsUseCase = useMemo(
+    () => new ManageUpdateDraftsUseCase(
+      new SupabaseStandupRepository(),
+      new IndexedDBUpdateDraftRepository(),
+      new SupabaseAuthorizationService(),
+      new SupabaseNetworkErrorService()
+    ),
+    []
+  );
+
+  const loadPendingUpdates = useCallback(async () => {
+    try {
+      setPendingUpdates(await draftsUseCase.getPendingUpdates(teamId));
+    } catch (err) {
+      console.error('Failed to load offline updates:', err);
+    }
+  }, [draftsUseCase, teamId]);
+
+  const sync = useCallback(async () => {
+    if (!navigator.onLine) return;
+
+    try {
+      setSyncing(true);
+      const { synced, conflicts, failed } = await draftsUseCase.syncPendingUpdates();
+
+      if (synced.length > 0) {
+        showSuccess(
+          synced.length === 1 ? 'Offline update posted' : `${synced.length} offline updates posted`,
+          undefined,
+          3000
+        );
+        onSyncedRef.current();
+      }
+
+      if (conflicts.length > 0) {
+        showError(
+          'Offline Update Not Posted',
+          'The update was changed elsewhere while you were offline. Choose which version to keep.',
+          6000
+        );
+      }
+
+      if (failed.length > 0) {
+        showError(
+          'Offline Update Not Posted',
+          failed.length === 1 ? failed[0].error ?? undefined : `${failed.length} updates saved on this device can't be posted`,
+          6000
+        );
+      }
+    } catch (err) {
+      console.error('Failed to post offline updates:', err);
+    } finally {
+      setSyncing(false);
+      await loadPendingUpdates();
+    }
+  }, [draftsUseCase, loadPendingUpdates, showError, showSuccess]);
+
+  // Post what was queued on opening, and again whenever the connection returns
+  useEffect(() => {
+    sync();
+  }, [sync]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true);
+      sync();
+    };
+    const handleOffline = () => setOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [sync]);
+
+  const queueUpdate = useCallback(async (member: TeamMember, date: string, baseRevision: number) => {
+    await draftsUseCase.queueUpdate(teamId, member, date, baseRevision);
+    showSuccess('Saved on this device', 'Your update will be posted when you\'re back online', 3000);
+    await loadPendingUpdates();
+  }, [draftsUseCase, teamId, loadPendingUpdates, showSuccess]);
+
+  const discardDraft = useCallback(async (memberId: string, date: string) => {
+    try {
+      await draftsUseCase.discardDraft(teamId, memberId, date);
+      await loadPendingUpdates();
+    } catch (err) {
+      console.error('Failed to discard draft:', err);
+    }
+  }, [draftsUseCase, teamId, loadPendingUpdates]);
+
+  const keepLocalVersion = useCallback(async (draft: UpdateDraft) => {
+    try {
+      await draftsUseCase.keepLocalVersion(draft);
+      await sync();
+    } catch (err) {
+      showError('Failed to Post Offline Update', err instanceof Error ? err.message : undefined, 6000);
+    }
+  }, [draftsUseCase, sync, showError]);
+
+  const isNetworkError = useCallback(
+    (error: unknown) => draftsUseCase.isNetworkError(error),
+    [draftsUseCase]
+  );
+
+  const discardPendingUpdate = useCallback(async (draft: UpdateDraft) => {
+    await discardDraft(draft.member.id, draft.date);
+    showSuccess('Offline update discarded', undefined, 3000);
+  }, [discardDraft, showSuccess]);
+
+  return {
+    // State
+    pendingUpdates,
+    online,
+    syncing,
+
+    // Actions
+    queueUpdate,
+    sync,
+    discardDraft,
+    keepLocalVersion,
+    discardPendingUpdate,
+    isNetworkError
+  };
+}
@@ -0,0 +1,54 @@
+import { useState, useEffect, useMemo } from 'react';
+import { StandupUpdateRevision } from '@/domain/entities/StandupUpdateRevision';
+import { GetUpdateRevisionsUseCase } from '@/application/use-cases/GetUpdateRevisionsUseCase';
+import { SupabaseStandupRepository } from '@/infrastructure/repositories/SupabaseStandupRepository';
+import { SupabaseAuthorizationService } from '@/infrastructure/services/SupabaseAuthorizationService';
+import { useTeams } from './useTeams';
+
+/**
+ * Custom hook for loading the edit history of a standup update
+ * Nothing is loaded until an update id is given
+ */
+export function useUpdateRevisions(updateId: string | null) {
+  const [revisions, setRevisions] = useState<StandupUpdateRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { teamId } = useTeams();
+
+  const getUpdateRevisionsUseCase = useMemo(
+    () => new GetUpdateRevisionsUseCase(new SupabaseStandupRepository(), new SupabaseAuthorizationService()),
+    []
+  );
+
+  useEffect(() => {
+    if (!updateId) {
+      setRevisions([]);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    getUpdateRevisionsUseCase.execute(teamId, updateId)
+      .then(data => {
+        if (!cancelled) setRevisions(data);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load edit history');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [getUpdateRevisionsUseCase, teamId, updateId]);
+
+  return {
+    revisions,
+    loading,
+    error
+  };
+}
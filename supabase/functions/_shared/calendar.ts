@@ -0,0 +1,42 @@
+// Calendar helpers shared by the edge functions
+
+export const DEFAULT_TIMEZONE = 'America/Vancouver'
+export const DEFAULT_STANDUP_TIME = '10:00'
+
+// Mirrors TeamCalendar.getDate in the app
+export function getDate(timezone: string): string {
+  return new Date().toLocaleDateString('en-CA', { timeZone: timezone })
+}
+
+// The current HH:MM in the team's timezone
+export function getLocalTime(timezone: string): string {
+  return new Intl.DateTimeFormat('en-GB', { timeZone: timezone, hourCycle: 'h23', hour: '2-digit', minute: '2-digit' })
+    .format(new Date())
+}
+
+export function addMinutes(time: string, minutes: number): string {
+  const [hours, mins] = time.split(':').map(Number)
+  const total = Math.min(hours * 60 + mins + minutes, 23 * 60 + 59)
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`
+}
+
+// Mirrors TeamCalendar.addDays in the app
+export function addDays(dateString: string, days: number): string {
+  const [year, month, day] = dateString.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0]
+}
+
+// Mirrors TeamCalendar.getBusinessDays in the app: weekdays that are not team holidays, inclusive
+export function getBusinessDays(startDate: string, endDate: string, holidays: string[] = []): string[] {
+  const days: string[] = []
+
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    const [year, month, day] = date.split('-').map(Number)
+    const dayOfWeek = new Date(Date.UTC(year, month - 1, day)).getUTCDay()
+    if (dayOfWeek !== 0 && dayOfWeek !== 6 && !holidays.includes(date)) {
+      days.push(date)
+    }
+  }
+
+  return days
+}
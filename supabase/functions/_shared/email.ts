@@ -0,0 +1,245 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts'
+import { escapeHtml } from './text.ts'
+import { SEVERITY_LABELS } from './standup.ts'
+import {
+  NotificationChannel,
+  NotificationKind,
+  WeeklyReportNotification,
+  ReportBlocker,
+  describeReportBlockers
+} from './notifications.ts'
+import { ReminderChannel, StandupReminder } from './reminders.ts'
+
+// EMAIL_TEST_MODE=inbucket sends every message to the local stack's Inbucket over plain SMTP
+// (see [inbucket] smtp_port in supabase/config.toml), where it shows up at http://127.0.0.1:54324
+const TEST_MODE = Deno.env.get('EMAIL_TEST_MODE') === 'inbucket'
+
+const SMTP_HOST = Deno.env.get('SMTP_HOST') || (TEST_MODE ? 'host.docker.internal' : '')
+const SMTP_PORT = Number(Deno.env.get('SMTP_PORT') || (TEST_MODE ? 54325 : 587))
+// 'true' for implicit TLS (usually port 465); otherwise the connection is upgraded with STARTTLS
+const SMTP_TLS = Deno.env.get('SMTP_TLS') === 'true'
+const SMTP_USERNAME = Deno.env.get('SMTP_USERNAME') ?? ''
+const SMTP_PASSWORD = Deno.env.get('SMTP_PASSWORD') ?? ''
+const EMAIL_FROM = Deno.env.get('EMAIL_FROM') || (TEST_MODE ? 'Standups <standups@example.com>' : '')
+
+interface EmailMessage {
+  subject: string
+  text: string
+  html: string
+}
+
+// Emails each new weekly report to the team's distribution list
+export const emailChannel: NotificationChannel = {
+  name: 'email',
+
+  async getDestination(
+    supabase: ReturnType<typeof createClient>,
+    teamId: string,
+    kind: NotificationKind
+  ): Promise<string | null> {
+    if (kind !== 'weekly_report') return null
+
+    const { data: settings, error } = await supabase
+      .from('email_digest_settings')
+      .select('recipients, weekly_report_enabled')
+      .eq('team_id', teamId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch email digest settings: ${error.message}`)
+    }
+
+    const recipients = (settings?.recipients ?? []) as string[]
+    return settings?.weekly_report_enabled && recipients.length > 0 ? recipients.join(',') : null
+  },
+
+  async send(recipients, notification) {
+    if (notification.kind !== 'weekly_report') return
+
+    await sendEmail(recipients.split(','), renderWeeklyReport(notification))
+  }
+}
+
+// Emails the member at the address on the roster
+export const emailReminderChannel: ReminderChannel = {
+  name: 'email',
+
+  async send(_supabase, reminder) {
+    if (!reminder.member.email) {
+      throw new Error(`${reminder.member.name} has no email address on the roster`)
+    }
+
+    await sendEmail([reminder.member.email], renderReminder(reminder))
+  }
+}
+
+async function sendEmail(recipients: string[], message: EmailMessage): Promise<void> {
+  if (!SMTP_HOST || !EMAIL_FROM) {
+    throw new Error('SMTP_HOST and EMAIL_FROM must be set, or EMAIL_TEST_MODE=inbucket')
+  }
+
+  const client = new SMTPClient({
+    connection: {
+      hostname: SMTP_HOST,
+      port: SMTP_PORT,
+      tls: SMTP_TLS,
+      ...(SMTP_USERNAME ? { auth: { username: SMTP_USERNAME, password: SMTP_PASSWORD } } : {})
+    },
+    // Inbucket speaks neither TLS nor STARTTLS
+    ...(TEST_MODE ? { debug: { allowUnsecure: true, noStartTLS: true } } : {})
+  })
+
+  try {
+    await client.send({
+      from: EMAIL_FROM,
+      to: recipients,
+      subject: message.subject,
+      content: message.text,
+      html: message.html
+    })
+  } finally {
+    await client.close()
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+// The report's summary, blockers and member summaries as HTML with a plain-text alternative,
+// in the same order as the Weekly Reports tab
+function renderWeeklyReport({ team, report, url }: WeeklyReportNotification): EmailMessage {
+  const summary = report.report_data?.summary ?? {}
+  const blockers = Array.isArray(summary.blockers) ? null : summary.blockers
+  const members = Object.entries(summary.memberSummaries ?? {})
+  const title = `${team.name} weekly report · ${report.week_start} to ${report.week_end}`
+  const stats = `${report.total_updates} updates from ${report.unique_members} members · Blockers: ${describeReportBlockers(report)}`
+
+  const listSections: [string, string[]][] = [
+    ['Key accomplishments', summary.keyAccomplishments ?? []],
+    ['Ongoing work', summary.ongoingWork ?? []],
+    ['Recommendations', summary.recommendations ?? []]
+  ]
+  const blockerSections: [string, ReportBlocker[]][] = [
+    ['New blockers', blockers?.opened ?? []],
+    ['Resolved blockers', blockers?.resolved ?? []],
+    ['Still open', blockers?.stillOpen ?? []]
+  ]
+
+  // Plain text
+  const text: string[] = [title, '='.repeat(title.length), '', stats, '']
+
+  if (summary.teamInsights) {
+    text.push(summary.teamInsights, '')
+  }
+
+  for (const [heading, items] of listSections) {
+    if (items.length === 0) continue
+    text.push(heading, '-'.repeat(heading.length), ...items.map(item => `- ${item}`), '')
+  }
+
+  for (const [heading, items] of blockerSections) {
+    if (items.length === 0) continue
+    text.push(heading, '-'.repeat(heading.length), ...items.map(blocker => `- ${describeBlocker(blocker)}`), '')
+  }
+
+  for (const [name, member] of members) {
+    const heading = member.role ? `${name} (${member.role})` : name
+    text.push(heading, '-'.repeat(heading.length))
+    if (member.progress) text.push(member.progress)
+    text.push(...(member.keyContributions ?? []).map(item => `- ${item}`))
+    if ((member.concerns ?? []).length > 0) text.push(`Concerns: ${member.concerns!.join('; ')}`)
+    if (member.nextWeekFocus) text.push(`Next week: ${member.nextWeekFocus}`)
+    text.push('')
+  }
+
+  if (url) {
+    text.push(`Open the full report: ${url}`)
+  }
+
+  // HTML
+  const h2 = (heading: string) => `<h2 style="font-size:16px;margin:24px 0 8px;color:#111827">${escapeHtml(heading)}</h2>`
+  const list = (items: string[]) =>
+    `<ul style="margin:0;padding-left:20px">${items.map(item => `<li style="margin:4px 0">${escapeHtml(item)}</li>`).join('')}</ul>`
+
+  const html: string[] = [
+    `<h1 style="font-size:20px;margin:0 0 4px;color:#111827">${escapeHtml(title)}</h1>`,
+    `<p style="margin:0 0 16px;color:#6b7280">${escapeHtml(stats)}</p>`
+  ]
+
+  if (summary.teamInsights) {
+    html.push(`<p style="margin:0 0 16px">${escapeHtml(summary.teamInsights)}</p>`)
+  }
+
+  for (const [heading, items] of listSections) {
+    if (items.length === 0) continue
+    html.push(h2(heading), list(items))
+  }
+
+  for (const [heading, items] of blockerSections) {
+    if (items.length === 0) continue
+    html.push(h2(heading), list(items.map(describeBlocker)))
+  }
+
+  if (members.length > 0) {
+    html.push(h2('Team members'))
+    for (const [name, member] of members) {
+      html.push(
+        `<h3 style="font-size:14px;margin:16px 0 4px;color:#111827">${escapeHtml(name)}${member.role ? ` <span style="font-weight:normal;color:#6b7280">${escapeHtml(member.role)}</span>` : ''}</h3>`
+      )
+      if (member.progress) html.push(`<p style="margin:0 0 4px">${escapeHtml(member.progress)}</p>`)
+      if ((member.keyContributions ?? []).length > 0) html.push(list(member.keyContributions!))
+      if ((member.concerns ?? []).length > 0) html.push(`<p style="margin:4px 0"><strong>Concerns:</strong> ${escapeHtml(member.concerns!.join('; '))}</p>`)
+      if (member.nextWeekFocus) html.push(`<p style="margin:4px 0"><strong>Next week:</strong> ${escapeHtml(member.nextWeekFocus)}</p>`)
+    }
+  }
+
+  if (url) {
+    html.push(`<p style="margin:24px 0 0"><a href="${escapeHtml(url)}" style="color:#2563eb">Open the full report</a></p>`)
+  }
+
+  return {
+    subject: title,
+    text: text.join('\n').trim(),
+    html: htmlDocument(html.join(''))
+  }
+}
+
+function renderReminder({ team, member, date, url }: StandupReminder): EmailMessage {
+  const subject = `Reminder: post your ${team.name} standup update`
+  const body = `Hi ${member.name}, you haven't posted your standup update for ${team.name} on ${date} yet.`
+  const question = 'What did you do yesterday, what are you doing today, and is anything in your way?'
+  const text = [body, question]
+
+  if (url) {
+    text.push('', `Post your update: ${url}`)
+  }
+
+  return {
+    subject,
+    text: text.join('\n'),
+    html: htmlDocument(
+      `<p style="margin:0 0 8px">${escapeHtml(body)}</p>` +
+      `<p style="margin:0 0 16px">${escapeHtml(question)}</p>` +
+      (url ? `<p style="margin:0"><a href="${escapeHtml(url)}" style="color:#2563eb">Post your update</a></p>` : '')
+    )
+  }
+}
+
+// Inline styles, since most mail clients ignore style sheets
+function htmlDocument(body: string): string {
+  return `<!DOCTYPE html><html><body style="font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;font-size:14px;line-height:1.5;color:#374151;max-width:640px;margin:0 auto;padding:24px">${body}</body></html>`
+}
+
+// "High: Waiting on the API keys (Ana, 4 days, waiting on Platform)"
+function describeBlocker(blocker: ReportBlocker): string {
+  const details = [
+    blocker.memberName,
+    `${blocker.ageDays} ${blocker.ageDays === 1 ? 'day' : 'days'}`,
+    blocker.unblocker ? `waiting on ${blocker.unblocker}` : '',
+    blocker.resolution ? `resolved: ${blocker.resolution}` : ''
+  ].filter(Boolean).join(', ')
+
+  return `${SEVERITY_LABELS[blocker.severity] ?? blocker.severity}: ${blocker.description} (${details})`
+}
@@ -0,0 +1,136 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Embeddings for semantic search over standup updates. Each provider turns text into vectors of
+// EMBEDDING_DIMENSIONS numbers; EMBEDDING_PROVIDER picks one (voyage, openai or local, the default).
+// To add a provider, implement EmbeddingProvider and add it to getEmbeddingProvider.
+
+// Must match the vector columns in standup_update_embeddings
+export const EMBEDDING_DIMENSIONS = 512
+
+export interface EmbeddingProvider {
+  // Stored with each vector; vectors from different models are never compared
+  model: string
+  embed(texts: string[], purpose: 'document' | 'query'): Promise<number[][]>
+}
+
+// Voyage AI, with the key stored as the 'voyage' API key
+export function voyageProvider(apiKey: string): EmbeddingProvider {
+  const model = 'voyage-3-lite'
+
+  return {
+    model: `voyage:${model}`,
+    async embed(texts, purpose) {
+      const response = await fetch('https://api.voyageai.com/v1/embeddings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${apiKey}` },
+        body: JSON.stringify({ model, input: texts, input_type: purpose, output_dimension: EMBEDDING_DIMENSIONS })
+      })
+
+      if (!response.ok) {
+        throw new Error(`Voyage embeddings failed: ${response.status} ${await response.text()}`)
+      }
+
+      const { data } = await response.json()
+      return (data as { index: number; embedding: number[] }[])
+        .sort((a, b) => a.index - b.index)
+        .map(item => item.embedding)
+    }
+  }
+}
+
+// OpenAI, with the key stored as the 'openai' API key
+export function openAIProvider(apiKey: string): EmbeddingProvider {
+  const model = 'text-embedding-3-small'
+
+  return {
+    model: `openai:${model}`,
+    async embed(texts) {
+      const response = await fetch('https://api.openai.com/v1/embeddings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${apiKey}` },
+        body: JSON.stringify({ model, input: texts, dimensions: EMBEDDING_DIMENSIONS })
+      })
+
+      if (!response.ok) {
+        throw new Error(`OpenAI embeddings failed: ${response.status} ${await response.text()}`)
+      }
+
+      const { data } = await response.json()
+      return (data as { index: number; embedding: number[] }[])
+        .sort((a, b) => a.index - b.index)
+        .map(item => item.embedding)
+    }
+  }
+}
+
+// Hashed word and word-fragment counts, computed here with no API key. It only matches shared words
+// and their variants ("migrate", "migration"), not paraphrases, but is deterministic, so it suits
+// tests and local development. Mirrors LocalEmbeddingService in the app.
+export const localProvider: EmbeddingProvider = {
+  model: 'local:hashed-terms-v1',
+  embed(texts) {
+    return Promise.resolve(texts.map(localEmbedding))
+  }
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'did', 'do', 'for', 'from', 'has', 'have', 'i', 'in',
+  'is', 'it', 'of', 'on', 'or', 'our', 'the', 'to', 'was', 'we', 'were', 'what', 'when', 'who', 'with'
+])
+
+export function localEmbedding(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0)
+
+  const words = (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(word => !STOP_WORDS.has(word))
+  words.forEach(word => {
+    addFeature(vector, `w:${stem(word)}`, 1)
+    const padded = `<${word}>`
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      addFeature(vector, `t:${padded.slice(i, i + 3)}`, 0.25)
+    }
+  })
+
+  const length = Math.hypot(...vector)
+  return length > 0 ? vector.map(value => value / length) : vector
+}
+
+// "migrate", "migrated", "migrating" and "migration" all become "migrat"
+function stem(word: string): string {
+  return word.length > 4 ? word.replace(/ations?$/, 'at').replace(/(ing|ed|es|e|s)$/, '') : word
+}
+
+function addFeature(vector: number[], feature: string, weight: number) {
+  const hash = fnv1a(feature)
+  vector[hash % EMBEDDING_DIMENSIONS] += (hash & 0x80000000) ? -weight : weight
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// The provider EMBEDDING_PROVIDER names, falling back to the local one when it needs a key that is not stored
+export async function getEmbeddingProvider(supabase: ReturnType<typeof createClient>): Promise<EmbeddingProvider> {
+  const name = (Deno.env.get('EMBEDDING_PROVIDER') ?? 'local').toLowerCase()
+  if (name === 'local') return localProvider
+
+  const { data: apiKey, error } = await supabase.rpc('get_api_key', { service_name_param: name })
+  if (error || !apiKey) {
+    console.error(`No ${name} API key stored; using local embeddings:`, error)
+    return localProvider
+  }
+
+  switch (name) {
+    case 'voyage':
+      return voyageProvider(apiKey as string)
+    case 'openai':
+      return openAIProvider(apiKey as string)
+    default:
+      console.error(`Unknown EMBEDDING_PROVIDER "${name}"; using local embeddings`)
+      return localProvider
+  }
+}
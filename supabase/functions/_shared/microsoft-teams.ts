@@ -0,0 +1,161 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { htmlToText, truncate } from './text.ts'
+import { NotificationChannel, NotificationKind, DailyDigest, WeeklyReportNotification, describeReportBlockers } from './notifications.ts'
+
+// Teams renders Adaptive Cards up to schema 1.4 everywhere, including mobile
+export const ADAPTIVE_CARD_VERSION = '1.4'
+
+// Incoming webhooks reject messages over about 28 KB; keep the digest well under it
+const MAX_DIGEST_UPDATES = 30
+
+// Adaptive Card elements are passed through as plain JSON
+export type CardElement = Record<string, unknown>
+
+// Posts digests and weekly reports as Adaptive Cards to the incoming webhook set on the team's
+// Microsoft Teams integration (a Workflows "post to a channel when a webhook request is received"
+// flow, or a classic incoming webhook connector)
+export const microsoftTeamsChannel: NotificationChannel = {
+  name: 'microsoft_teams',
+
+  async getDestination(
+    supabase: ReturnType<typeof createClient>,
+    teamId: string,
+    kind: NotificationKind
+  ): Promise<string | null> {
+    const { data: integration, error } = await supabase
+      .from('microsoft_teams_integrations')
+      .select('webhook_url, digest_enabled, weekly_report_enabled')
+      .eq('team_id', teamId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch Microsoft Teams integration: ${error.message}`)
+    }
+
+    const enabled = kind === 'daily_digest' ? integration?.digest_enabled : integration?.weekly_report_enabled
+    return enabled && integration.webhook_url ? integration.webhook_url as string : null
+  },
+
+  async send(webhookUrl, notification) {
+    const card = notification.kind === 'daily_digest'
+      ? digestCard(notification)
+      : weeklyReportCard(notification)
+
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(toMessage(card))
+    })
+
+    if (!response.ok) {
+      const detail = await response.text()
+      throw new Error(`Microsoft Teams webhook failed: ${response.status} ${detail || response.statusText}`)
+    }
+  }
+}
+
+export function adaptiveCard(body: CardElement[], actions: CardElement[] = []): CardElement {
+  return {
+    type: 'AdaptiveCard',
+    $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+    version: ADAPTIVE_CARD_VERSION,
+    body,
+    ...(actions.length > 0 ? { actions } : {}),
+    msteams: { width: 'Full' }
+  }
+}
+
+// The message envelope both webhooks and the Bot Framework accept for a card
+export function toMessage(card: CardElement): Record<string, unknown> {
+  return {
+    type: 'message',
+    attachments: [{ contentType: 'application/vnd.microsoft.card.adaptive', contentUrl: null, content: card }]
+  }
+}
+
+export function textBlock(text: string, options: Record<string, unknown> = {}): CardElement {
+  return { type: 'TextBlock', text, wrap: true, ...options }
+}
+
+// Each update for the day, followed by who is out and who has not posted
+function digestCard(digest: DailyDigest): CardElement {
+  const body: CardElement[] = [
+    textBlock(`${digest.team.name} standup · ${digest.date}`, { size: 'Large', weight: 'Bolder' })
+  ]
+
+  for (const { member, update } of digest.posted.slice(0, MAX_DIGEST_UPDATES)) {
+    const facts = [
+      { title: 'Yesterday', value: update.yesterday },
+      { title: 'Today', value: update.today },
+      { title: 'Blockers', value: update.blockers }
+    ]
+      .filter(fact => fact.value)
+      .map(fact => ({ title: fact.title, value: truncate(htmlToText(fact.value!), 1000) }))
+
+    body.push({
+      type: 'Container',
+      separator: true,
+      spacing: 'Medium',
+      items: [
+        textBlock(`**${member.name}** · ${member.role}`),
+        { type: 'FactSet', facts }
+      ]
+    })
+  }
+
+  if (digest.posted.length > MAX_DIGEST_UPDATES) {
+    body.push(textBlock(`…and ${digest.posted.length - MAX_DIGEST_UPDATES} more updates in the app`, { isSubtle: true }))
+  }
+
+  const footer = [
+    digest.posted.length === 0
+      ? 'No updates yet today.'
+      : `${digest.posted.length} of ${digest.posted.length + digest.missing.length} expected updates posted.`,
+    digest.missing.length > 0 ? `Not posted yet: ${digest.missing.map(member => member.name).join(', ')}` : '',
+    digest.away.length > 0 ? `Out today: ${digest.away.map(member => member.name).join(', ')}` : ''
+  ].filter(Boolean)
+
+  body.push({
+    type: 'Container',
+    separator: true,
+    items: footer.map(line => textBlock(line, { isSubtle: true, size: 'Small', spacing: 'None' }))
+  })
+
+  return adaptiveCard(body)
+}
+
+function weeklyReportCard({ team, report, url }: WeeklyReportNotification): CardElement {
+  const summary = report.report_data?.summary ?? {}
+  const accomplishments = (summary.keyAccomplishments ?? []).slice(0, 5)
+  const recommendations = (summary.recommendations ?? []).slice(0, 3)
+
+  const body: CardElement[] = [
+    textBlock(`${team.name} weekly report`, { size: 'Large', weight: 'Bolder' }),
+    textBlock(`${report.week_start} to ${report.week_end}`, { isSubtle: true, spacing: 'None' }),
+    {
+      type: 'FactSet',
+      facts: [
+        { title: 'Updates', value: `${report.total_updates} from ${report.unique_members} members` },
+        { title: 'Blockers', value: describeReportBlockers(report) }
+      ]
+    }
+  ]
+
+  if (summary.teamInsights) {
+    body.push(textBlock(truncate(summary.teamInsights, 2000)))
+  }
+
+  if (accomplishments.length > 0) {
+    body.push(textBlock('Key accomplishments', { weight: 'Bolder', spacing: 'Medium' }))
+    body.push(textBlock(accomplishments.map(item => `- ${item}`).join('\n')))
+  }
+
+  if (recommendations.length > 0) {
+    body.push(textBlock('Recommendations', { weight: 'Bolder', spacing: 'Medium' }))
+    body.push(textBlock(recommendations.map(item => `- ${item}`).join('\n')))
+  }
+
+  const actions = url ? [{ type: 'Action.OpenUrl', title: 'Open the full report', url }] : []
+
+  return adaptiveCard(body, actions)
+}
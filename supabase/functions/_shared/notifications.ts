@@ -0,0 +1,94 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { Team, RosterMember, StandupUpdate, BlockerSeverity } from './standup.ts'
+
+// Team notifications posted to chat apps, sent by email and pushed to browsers. Each is a NotificationChannel: the
+// notifications function builds a notification once and hands it to every channel the team has
+// connected. To add a channel, implement NotificationChannel and add it to the list in that function.
+
+export type NotificationKind = 'daily_digest' | 'weekly_report'
+
+// The day's updates, in roster order, with who has not posted and who is away
+export interface DailyDigest {
+  kind: 'daily_digest'
+  team: Team
+  date: string
+  posted: { member: RosterMember; update: StandupUpdate }[]
+  missing: RosterMember[]
+  away: RosterMember[]
+}
+
+// A weekly report that has just been generated
+export interface WeeklyReportNotification {
+  kind: 'weekly_report'
+  team: Team
+  report: WeeklyReport
+  // Where to read the full report in the app, when APP_URL is set
+  url: string | null
+}
+
+export type TeamNotification = DailyDigest | WeeklyReportNotification
+
+// Mirrors WeeklyReport and WeeklyReportSummary in the app, as stored in report_data
+export interface WeeklyReport {
+  id: string
+  week_start: string
+  week_end: string
+  total_updates: number
+  unique_members: number
+  generated_at: string
+  report_data: {
+    summary?: {
+      keyAccomplishments?: string[]
+      ongoingWork?: string[]
+      teamInsights?: string
+      recommendations?: string[]
+      blockers?: { opened?: ReportBlocker[]; resolved?: ReportBlocker[]; stillOpen?: ReportBlocker[] } | string[]
+      memberSummaries?: Record<string, ReportMemberSummary>
+    }
+  } | null
+}
+
+// Mirrors BlockerReportItem in the app
+export interface ReportBlocker {
+  description: string
+  memberName: string
+  unblocker: string | null
+  severity: BlockerSeverity
+  openedOn: string
+  resolvedOn: string | null
+  resolution: string | null
+  ageDays: number
+}
+
+// Mirrors MemberSummary in the app
+export interface ReportMemberSummary {
+  role?: string
+  keyContributions?: string[]
+  progress?: string
+  concerns?: string[]
+  nextWeekFocus?: string
+}
+
+export interface NotificationChannel {
+  // Recorded with each delivery, e.g. 'slack'
+  name: string
+
+  // Where the team's notifications of this kind go (a channel id, a webhook URL, email addresses, members),
+  // or null when the team has not connected this channel or has switched this kind off
+  getDestination(
+    supabase: ReturnType<typeof createClient>,
+    teamId: string,
+    kind: NotificationKind
+  ): Promise<string | null>
+
+  // Throws when the channel rejects the post, so the delivery is recorded as failed and retried
+  send(destination: string, notification: TeamNotification, supabase: ReturnType<typeof createClient>): Promise<void>
+}
+
+// "3 new · 1 resolved · 2 still open"; reports saved before blockers were tracked hold a list of strings
+export function describeReportBlockers(report: WeeklyReport): string {
+  const blockers = report.report_data?.summary?.blockers
+  return Array.isArray(blockers)
+    ? `${blockers.length} open`
+    : `${blockers?.opened?.length ?? 0} new · ${blockers?.resolved?.length ?? 0} resolved · ${blockers?.stillOpen?.length ?? 0} still open`
+}
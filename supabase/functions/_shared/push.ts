@@ -0,0 +1,150 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import webpush from 'npm:web-push@3.6.7'
+import { NotificationChannel, NotificationKind, describeReportBlockers } from './notifications.ts'
+import { ReminderChannel } from './reminders.ts'
+
+// Web Push to the browsers members have subscribed on the Team tab. The app's service worker
+// (public/sw.js) shows each message and opens its url when it is clicked.
+
+const VAPID_PUBLIC_KEY = Deno.env.get('VAPID_PUBLIC_KEY') ?? ''
+const VAPID_PRIVATE_KEY = Deno.env.get('VAPID_PRIVATE_KEY') ?? ''
+// A mailto: or https: contact for the push services
+const VAPID_SUBJECT = Deno.env.get('VAPID_SUBJECT') || 'mailto:standups@example.com'
+
+const APP_URL = (Deno.env.get('APP_URL') ?? '').replace(/\/$/, '')
+
+// How long a push service keeps trying to deliver to a browser that is offline
+const PUSH_TTL_SECONDS = 6 * 60 * 60
+
+// The payload the service worker reads
+export interface PushMessage {
+  title: string
+  body: string
+  // Opened when the notification is clicked
+  url: string | null
+  // A newer message with the same tag replaces the older one
+  tag: string
+}
+
+interface StoredSubscription {
+  id: string
+  endpoint: string
+  p256dh: string
+  auth: string
+}
+
+// Pushes each new weekly report to every subscribed member of the team
+export const webPushChannel: NotificationChannel = {
+  name: 'web_push',
+
+  async getDestination(
+    supabase: ReturnType<typeof createClient>,
+    teamId: string,
+    kind: NotificationKind
+  ): Promise<string | null> {
+    if (kind !== 'weekly_report') return null
+
+    const { data: subscriptions, error } = await supabase
+      .from('push_subscriptions')
+      .select('team_member_id, team_members!inner(team_id, archived_at)')
+      .eq('team_members.team_id', teamId)
+      .is('team_members.archived_at', null)
+
+    if (error) {
+      throw new Error(`Failed to fetch push subscriptions: ${error.message}`)
+    }
+
+    const memberIds = [...new Set((subscriptions || []).map(subscription => subscription.team_member_id as string))]
+    return memberIds.length > 0 ? memberIds.join(',') : null
+  },
+
+  async send(memberIds, notification, supabase) {
+    if (notification.kind !== 'weekly_report') return
+
+    const { team, report, url } = notification
+    await pushToMembers(supabase, memberIds.split(','), {
+      title: `${team.name} weekly report is ready`,
+      body: `${report.week_start} to ${report.week_end} · ${report.total_updates} updates · Blockers: ${describeReportBlockers(report)}`,
+      url,
+      tag: `weekly-report-${report.id}`
+    })
+  }
+}
+
+// Reminds the member in every browser they have turned push on in
+export const pushReminderChannel: ReminderChannel = {
+  name: 'push',
+
+  async send(supabase, { team, member, date }) {
+    await pushToMembers(supabase, [member.id], {
+      title: `Time to post your ${team.name} update`,
+      body: `You haven't posted your standup update for ${date} yet.`,
+      url: APP_URL || null,
+      tag: `reminder-${team.id}-${date}`
+    })
+  }
+}
+
+// Push a message to every browser the members have subscribed. Subscriptions the push service
+// reports as expired are removed. Throws when no browser could be reached.
+export async function pushToMembers(
+  supabase: ReturnType<typeof createClient>,
+  memberIds: string[],
+  message: PushMessage
+): Promise<number> {
+  if (!VAPID_PUBLIC_KEY || !VAPID_PRIVATE_KEY) {
+    throw new Error('VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY must be set')
+  }
+
+  const { data, error } = await supabase
+    .from('push_subscriptions')
+    .select('id, endpoint, p256dh, auth')
+    .in('team_member_id', memberIds)
+
+  if (error) {
+    throw new Error(`Failed to fetch push subscriptions: ${error.message}`)
+  }
+
+  const subscriptions = (data || []) as StoredSubscription[]
+  if (subscriptions.length === 0) {
+    throw new Error('Push notifications are not turned on in any browser')
+  }
+
+  webpush.setVapidDetails(VAPID_SUBJECT, VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY)
+
+  const payload = JSON.stringify(message)
+  const delivered: string[] = []
+  const expired: string[] = []
+  const failures: string[] = []
+
+  for (const subscription of subscriptions) {
+    try {
+      await webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+        payload,
+        { TTL: PUSH_TTL_SECONDS }
+      )
+      delivered.push(subscription.id)
+    } catch (pushError) {
+      // 404 and 410 mean the browser unsubscribed or the subscription expired
+      if (pushError.statusCode === 404 || pushError.statusCode === 410) {
+        expired.push(subscription.id)
+      } else {
+        console.error('Web push failed:', pushError)
+        failures.push(pushError.body || pushError.message || 'Unknown error occurred')
+      }
+    }
+  }
+
+  if (expired.length > 0) {
+    await supabase.from('push_subscriptions').delete().in('id', expired)
+  }
+
+  if (delivered.length > 0) {
+    await supabase.from('push_subscriptions').update({ last_used_at: new Date().toISOString() }).in('id', delivered)
+  } else {
+    throw new Error(failures[0] ?? 'Every push subscription has expired')
+  }
+
+  return delivered.length
+}
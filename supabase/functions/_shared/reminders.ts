@@ -0,0 +1,21 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { Team, RosterMember, ReminderChannelName } from './standup.ts'
+
+// Reminders nudge one member who has not posted today's update, through the channel they chose on
+// the Team tab. Each way of reaching a member is a ReminderChannel; the reminders function picks the
+// one named by the member's reminder_channel.
+
+export interface StandupReminder {
+  team: Team
+  member: RosterMember
+  date: string
+  // Where to post the update in the app, when APP_URL is set
+  url: string | null
+}
+
+export interface ReminderChannel {
+  name: Exclude<ReminderChannelName, 'none'>
+
+  // Throws when the member can't be reached this way, so the reminder is recorded as failed
+  send(supabase: ReturnType<typeof createClient>, reminder: StandupReminder): Promise<void>
+}
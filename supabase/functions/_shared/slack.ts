@@ -0,0 +1,229 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { htmlToText, truncate } from './text.ts'
+import { RosterMember } from './standup.ts'
+import { ReminderChannel } from './reminders.ts'
+import { NotificationChannel, NotificationKind, DailyDigest, WeeklyReportNotification, describeReportBlockers } from './notifications.ts'
+
+// SLACK_API_URL points at the local mock server (mock-slack-server.ts) when testing
+const SLACK_API_URL = (Deno.env.get('SLACK_API_URL') || 'https://slack.com/api').replace(/\/$/, '')
+const SLACK_BOT_TOKEN = Deno.env.get('SLACK_BOT_TOKEN') ?? ''
+
+// Slack allows 50 blocks per message; keep room for the header and the footer
+const MAX_DIGEST_UPDATES = 45
+
+// The button on prompts and reminders; the slack function opens the update modal when it is clicked
+export const OPEN_MODAL_ACTION_ID = 'open_standup_modal'
+
+// Slack Block Kit objects are passed through as plain JSON
+export type SlackBlock = Record<string, unknown>
+
+// Posts digests and weekly reports to the channel set on the team's Slack integration
+export const slackChannel: NotificationChannel = {
+  name: 'slack',
+
+  async getDestination(
+    supabase: ReturnType<typeof createClient>,
+    teamId: string,
+    kind: NotificationKind
+  ): Promise<string | null> {
+    const { data: integration, error } = await supabase
+      .from('slack_integrations')
+      .select('channel_id, digest_enabled, weekly_report_enabled')
+      .eq('team_id', teamId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch Slack integration: ${error.message}`)
+    }
+
+    const enabled = kind === 'daily_digest' ? integration?.digest_enabled : integration?.weekly_report_enabled
+    return enabled ? integration.channel_id as string : null
+  },
+
+  async send(channelId, notification) {
+    const message = notification.kind === 'daily_digest'
+      ? formatDigest(notification)
+      : formatWeeklyReport(notification)
+
+    await callSlack('chat.postMessage', { channel: channelId, ...message })
+  }
+}
+
+// DMs the member the same button as the standup-time prompt
+export const slackReminderChannel: ReminderChannel = {
+  name: 'slack',
+
+  async send(supabase, { team, member }) {
+    const { data: integration, error } = await supabase
+      .from('slack_integrations')
+      .select('team_id')
+      .eq('team_id', team.id)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch Slack integration: ${error.message}`)
+    }
+
+    if (!integration) {
+      throw new Error(`${team.name} is not connected to Slack`)
+    }
+
+    const slackUserId = await resolveSlackUserId(supabase, member)
+    if (!slackUserId) {
+      throw new Error(`No Slack user for ${member.name}`)
+    }
+
+    await sendStandupDm(
+      slackUserId,
+      team.id,
+      `Hi ${escapeMrkdwn(member.name)}, you haven't posted today's update for *${escapeMrkdwn(team.name)}* yet.`,
+      `Reminder: post your ${team.name} standup update`
+    )
+  }
+}
+
+// Each update for the day, followed by who is out and who has not posted
+function formatDigest(digest: DailyDigest): { text: string; blocks: SlackBlock[] } {
+  const blocks: SlackBlock[] = [
+    { type: 'header', text: { type: 'plain_text', text: `${digest.team.name} standup · ${digest.date}` } }
+  ]
+
+  for (const { member, update } of digest.posted.slice(0, MAX_DIGEST_UPDATES)) {
+    const lines = [`*${escapeMrkdwn(member.name)}* · ${escapeMrkdwn(member.role)}`]
+    if (update.yesterday) lines.push(`*Yesterday:* ${htmlToMrkdwn(update.yesterday)}`)
+    if (update.today) lines.push(`*Today:* ${htmlToMrkdwn(update.today)}`)
+    if (update.blockers) lines.push(`*Blockers:* ${htmlToMrkdwn(update.blockers)}`)
+
+    blocks.push({ type: 'section', text: { type: 'mrkdwn', text: truncate(lines.join('\n'), 3000) } })
+  }
+
+  if (digest.posted.length > MAX_DIGEST_UPDATES) {
+    blocks.push({ type: 'context', elements: [{ type: 'mrkdwn', text: `…and ${digest.posted.length - MAX_DIGEST_UPDATES} more updates in the app` }] })
+  }
+
+  const footer = [
+    digest.posted.length === 0
+      ? 'No updates yet today.'
+      : `${digest.posted.length} of ${digest.posted.length + digest.missing.length} expected updates posted.`,
+    digest.missing.length > 0 ? `Not posted yet: ${digest.missing.map(member => escapeMrkdwn(member.name)).join(', ')}` : '',
+    digest.away.length > 0 ? `Out today: ${digest.away.map(member => escapeMrkdwn(member.name)).join(', ')}` : ''
+  ].filter(Boolean).join('\n')
+
+  blocks.push({ type: 'context', elements: [{ type: 'mrkdwn', text: footer }] })
+
+  return { text: `${digest.team.name} standup digest for ${digest.date}`, blocks }
+}
+
+function formatWeeklyReport({ team, report, url }: WeeklyReportNotification): { text: string; blocks: SlackBlock[] } {
+  const summary = report.report_data?.summary ?? {}
+  const accomplishments = (summary.keyAccomplishments ?? []).slice(0, 5)
+  const recommendations = (summary.recommendations ?? []).slice(0, 3)
+
+  const blocks: SlackBlock[] = [
+    { type: 'header', text: { type: 'plain_text', text: `${team.name} weekly report · ${report.week_start} to ${report.week_end}` } },
+    {
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: `${report.total_updates} updates from ${report.unique_members} members · Blockers: ${describeReportBlockers(report)}` }]
+    }
+  ]
+
+  if (summary.teamInsights) {
+    blocks.push({ type: 'section', text: { type: 'mrkdwn', text: truncate(escapeMrkdwn(summary.teamInsights), 3000) } })
+  }
+
+  if (accomplishments.length > 0) {
+    blocks.push({
+      type: 'section',
+      text: { type: 'mrkdwn', text: truncate(`*Key accomplishments*\n${accomplishments.map(item => `• ${escapeMrkdwn(item)}`).join('\n')}`, 3000) }
+    })
+  }
+
+  if (recommendations.length > 0) {
+    blocks.push({
+      type: 'section',
+      text: { type: 'mrkdwn', text: truncate(`*Recommendations*\n${recommendations.map(item => `• ${escapeMrkdwn(item)}`).join('\n')}`, 3000) }
+    })
+  }
+
+  if (url) {
+    blocks.push({ type: 'context', elements: [{ type: 'mrkdwn', text: `<${url}|Open the full report>` }] })
+  }
+
+  return { text: `${team.name} weekly report for ${report.week_start} to ${report.week_end}`, blocks }
+}
+
+// DM a member with a "Post my update" button for the team; `text` is the mrkdwn message above it
+export async function sendStandupDm(slackUserId: string, teamId: string, text: string, fallbackText: string): Promise<void> {
+  const { channel } = await callSlack<{ channel: { id: string } }>('conversations.open', { users: slackUserId })
+  await callSlack('chat.postMessage', {
+    channel: channel.id,
+    text: fallbackText,
+    blocks: [
+      { type: 'section', text: { type: 'mrkdwn', text } },
+      {
+        type: 'actions',
+        elements: [{
+          type: 'button',
+          action_id: OPEN_MODAL_ACTION_ID,
+          text: { type: 'plain_text', text: 'Post my update' },
+          style: 'primary',
+          value: teamId
+        }]
+      }
+    ]
+  })
+}
+
+// The member's Slack user id, looked up by email (and remembered) if it is not known yet
+export async function resolveSlackUserId(supabase: ReturnType<typeof createClient>, member: RosterMember): Promise<string | null> {
+  if (member.slack_user_id) return member.slack_user_id
+  if (!member.email) return null
+
+  try {
+    const { user } = await callSlack<{ user: { id: string } }>('users.lookupByEmail', { email: member.email })
+    await supabase.from('team_members').update({ slack_user_id: user.id }).eq('id', member.id)
+    return user.id
+  } catch (lookupError) {
+    console.warn(`No Slack user for ${member.name}:`, lookupError)
+    return null
+  }
+}
+
+// Arguments are form-encoded, which every Web API method accepts; objects are sent as JSON strings
+export async function callSlack<T = Record<string, unknown>>(method: string, args: Record<string, unknown>): Promise<T> {
+  if (!SLACK_BOT_TOKEN) {
+    throw new Error('SLACK_BOT_TOKEN is not set')
+  }
+
+  const form = new URLSearchParams()
+  for (const [key, value] of Object.entries(args)) {
+    form.set(key, typeof value === 'string' ? value : JSON.stringify(value))
+  }
+
+  const response = await fetch(`${SLACK_API_URL}/${method}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${SLACK_BOT_TOKEN}`,
+      'Content-Type': 'application/x-www-form-urlencoded'
+    },
+    body: form
+  })
+
+  const data = await response.json()
+
+  if (!response.ok || !data.ok) {
+    throw new Error(`Slack ${method} failed: ${data.error || response.statusText}`)
+  }
+
+  return data as T
+}
+
+// Slack treats &, < and > as control characters in message text
+export function escapeMrkdwn(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+function htmlToMrkdwn(html: string): string {
+  const text = escapeMrkdwn(htmlToText(html))
+  return text.includes('\n') ? `\n${text}` : text
+}
@@ -0,0 +1,227 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { htmlToText, textToHtml } from './text.ts'
+
+// Standup data access and saving for the edge functions that take updates from chat apps
+
+// Mirrors TeamRole in the app: the roles with the post_updates permission
+export const POSTING_ROLES = ['admin', 'lead', 'member']
+
+// Mirrors TeamRole in the app: the roles with the manage_roster permission, who handle escalations
+export const ROSTER_MANAGER_ROLES = ['admin', 'lead']
+
+// Mirrors Blocker in the app
+export const SEVERITY_LABELS: Record<BlockerSeverity, string> = { low: 'Low', medium: 'Medium', high: 'High' }
+
+export type BlockerSeverity = 'low' | 'medium' | 'high'
+
+// Mirrors ReminderChannel in the app
+export type ReminderChannelName = 'email' | 'slack' | 'push' | 'none'
+
+export interface Team {
+  id: string
+  name: string
+  timezone: string
+  standup_time: string | null
+}
+
+export interface RosterMember {
+  id: string
+  team_id: string
+  name: string
+  role: string
+  email: string | null
+  slack_user_id: string | null
+  reminder_channel: ReminderChannelName
+  access_role: string
+  archived_at: string | null
+}
+
+export interface Blocker {
+  id: string
+  team_member_id: string
+  description: string
+  unblocker: string | null
+  severity: BlockerSeverity
+  opened_on: string
+  resolved_on: string | null
+  resolution: string | null
+}
+
+export interface StandupUpdate {
+  id: string
+  team_member_id: string
+  yesterday: string | null
+  today: string | null
+  blockers: string | null
+}
+
+// An update as a chat app collects it: plain text answers, the open blockers the member
+// ticked as resolved, and any new blockers
+export interface SaveUpdateInput {
+  yesterday: string
+  today: string
+  resolvedBlockerIds: string[]
+  newBlockers: string[]
+}
+
+// ---------------------------------------------------------------------------
+// Saving an update
+// ---------------------------------------------------------------------------
+
+// Saved through save_standup_update, like updates from the app: open blockers carry over, new
+// blockers that repeat a recent one are linked back to it, the blockers text is the rendered
+// list of blockers open that day, and the teammates it @mentions are stored and notified
+export async function saveUpdate(
+  supabase: ReturnType<typeof createClient>,
+  team: Team,
+  member: RosterMember,
+  date: string,
+  input: SaveUpdateInput
+): Promise<void> {
+  const [openBlockers, updates] = await Promise.all([
+    getOpenBlockers(supabase, team.id, member.id, date),
+    getUpdates(supabase, team.id, date)
+  ])
+  const existing = updates.find(update => update.team_member_id === member.id)
+
+  const blockers = [
+    ...openBlockers.map(blocker =>
+      input.resolvedBlockerIds.includes(blocker.id) ? { ...blocker, resolved_on: date } : blocker
+    ),
+    ...input.newBlockers.map(description => ({
+      id: null,
+      description,
+      unblocker: null,
+      severity: 'medium',
+      resolved_on: null,
+      resolution: null
+    }))
+  ]
+
+  // Keep the app's formatting when a field comes back from Slack unchanged
+  const keepOrConvert = (text: string, html: string | null | undefined) =>
+    html && htmlToText(html) === text ? html : textToHtml(text)
+
+  const yesterday = keepOrConvert(input.yesterday, existing?.yesterday)
+  const today = keepOrConvert(input.today, existing?.today)
+
+  const { error } = await supabase.rpc('save_standup_update', {
+    p_team_id: team.id,
+    p_team_member_id: member.id,
+    p_date: date,
+    p_yesterday: yesterday,
+    p_today: today,
+    p_blockers: blockers.map(blocker => ({
+      id: blocker.id,
+      description: blocker.description,
+      unblocker: blocker.unblocker,
+      severity: blocker.severity,
+      resolved_on: blocker.resolved_on,
+      resolution: blocker.resolution
+    }))
+  })
+
+  if (error) throw new Error(`Failed to save update: ${error.message}`)
+}
+
+// New blockers typed into a chat app, one per line, with any list bullets removed
+export function parseBlockerLines(text: string): string[] {
+  return text.split('\n').map(line => line.replace(/^[-*•]\s*/, '').trim()).filter(Boolean)
+}
+
+// ---------------------------------------------------------------------------
+// Data access
+// ---------------------------------------------------------------------------
+
+// Active roster members who can post, in name order
+export async function getPostingMembers(supabase: ReturnType<typeof createClient>, teamId: string): Promise<RosterMember[]> {
+  const { data: members, error } = await supabase
+    .from('team_members')
+    .select('id, team_id, name, role, email, slack_user_id, reminder_channel, access_role, archived_at')
+    .eq('team_id', teamId)
+    .is('archived_at', null)
+    .in('access_role', POSTING_ROLES)
+    .order('name', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to fetch team members: ${error.message}`)
+  }
+
+  return (members || []) as RosterMember[]
+}
+
+export async function getUpdates(supabase: ReturnType<typeof createClient>, teamId: string, date: string): Promise<StandupUpdate[]> {
+  const { data: updates, error } = await supabase
+    .from('standup_updates')
+    .select('id, team_member_id, yesterday, today, blockers, standup_entries!inner(date)')
+    .eq('team_id', teamId)
+    .eq('standup_entries.date', date)
+
+  if (error) {
+    throw new Error(`Failed to fetch standup updates: ${error.message}`)
+  }
+
+  return (updates || []) as StandupUpdate[]
+}
+
+export async function getOpenBlockers(
+  supabase: ReturnType<typeof createClient>,
+  teamId: string,
+  teamMemberId: string,
+  date: string
+): Promise<Blocker[]> {
+  const { data: blockers, error } = await supabase
+    .from('blockers')
+    .select('id, team_member_id, description, unblocker, severity, opened_on, resolved_on, resolution')
+    .eq('team_id', teamId)
+    .eq('team_member_id', teamMemberId)
+    .lte('opened_on', date)
+    .or(`resolved_on.is.null,resolved_on.gt.${date}`)
+    .order('opened_on', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to fetch open blockers: ${error.message}`)
+  }
+
+  return (blockers || []) as Blocker[]
+}
+
+export async function getHolidayDates(
+  supabase: ReturnType<typeof createClient>,
+  teamId: string,
+  startDate: string,
+  endDate: string
+): Promise<string[]> {
+  const { data: holidays, error } = await supabase
+    .from('team_holidays')
+    .select('date')
+    .eq('team_id', teamId)
+    .gte('date', startDate)
+    .lte('date', endDate)
+
+  if (error) {
+    throw new Error(`Failed to fetch team holidays: ${error.message}`)
+  }
+
+  return (holidays || []).map(holiday => holiday.date as string)
+}
+
+export async function getAwayMemberIds(
+  supabase: ReturnType<typeof createClient>,
+  teamId: string,
+  date: string
+): Promise<Set<string>> {
+  const { data: absences, error } = await supabase
+    .from('member_absences')
+    .select('team_member_id')
+    .eq('team_id', teamId)
+    .lte('start_date', date)
+    .gte('end_date', date)
+
+  if (error) {
+    throw new Error(`Failed to fetch member absences: ${error.message}`)
+  }
+
+  return new Set((absences || []).map(absence => absence.team_member_id as string))
+}
+
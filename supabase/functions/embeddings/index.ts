@@ -0,0 +1,169 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { EmbeddingProvider, getEmbeddingProvider } from '../_shared/embeddings.ts'
+import { htmlToText, truncate } from '../_shared/text.ts'
+
+// Embeds standup updates for semantic search, and the questions asked of them. A trigger calls
+// 'embed_update' whenever an update is saved; 'backfill' embeds updates saved before embeddings
+// existed, or before the provider changed. Signed-in users call 'embed_query' to search.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+type EmbeddingAction = 'embed_update' | 'backfill' | 'embed_query'
+
+// Long updates are cut to this many characters before embedding
+const MAX_TEXT_LENGTH = 8000
+
+// Questions are cut to this many characters
+const MAX_QUERY_LENGTH = 1000
+
+// How many updates one backfill call embeds, and how many are sent to the provider at once
+const BACKFILL_LIMIT = 200
+const BATCH_SIZE = 50
+
+interface UpdateRow {
+  id: string
+  team_id: string
+  yesterday: string | null
+  today: string | null
+  blockers: string | null
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Missing Supabase environment variables')
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    const body = await req.json().catch(() => ({}))
+    const action: EmbeddingAction = ['embed_update', 'backfill'].includes(body.action) ? body.action : 'embed_query'
+    const provider = await getEmbeddingProvider(supabase)
+
+    // Questions come from signed-in users; everything else from the trigger or an operator with the service role key
+    if (action === 'embed_query') {
+      const token = req.headers.get('Authorization')?.replace(/^Bearer /, '') ?? ''
+      const { data: { user } } = await supabase.auth.getUser(token)
+      if (!user) {
+        return jsonResponse({ success: false, error: 'Sign in to search' }, 401)
+      }
+
+      const text = typeof body.text === 'string' ? body.text.trim().slice(0, MAX_QUERY_LENGTH) : ''
+      if (!text) {
+        return jsonResponse({ success: false, error: 'text is required' }, 400)
+      }
+
+      const [embedding] = await provider.embed([text], 'query')
+      return jsonResponse({ success: true, model: provider.model, embedding })
+    }
+
+    if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401)
+    }
+
+    if (action === 'embed_update') {
+      if (!body.updateId) {
+        return jsonResponse({ success: false, error: 'updateId is required' }, 400)
+      }
+      const embedded = await embedUpdates(supabase, provider, [body.updateId])
+      return jsonResponse({ success: true, message: `Processed embed_update: ${embedded} embedded with ${provider.model}` })
+    }
+
+    // e.g. { "action": "backfill" }; call again until nothing is left
+    const { data: pending, error: pendingError } = await supabase.rpc('get_unembedded_standup_updates', {
+      p_model: provider.model,
+      p_limit: BACKFILL_LIMIT
+    })
+
+    if (pendingError) {
+      throw new Error(`Failed to find updates to embed: ${pendingError.message}`)
+    }
+
+    const ids = (pending ?? []).map((row: { standup_update_id: string }) => row.standup_update_id)
+    let embedded = 0
+    for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+      embedded += await embedUpdates(supabase, provider, ids.slice(i, i + BATCH_SIZE))
+    }
+
+    return jsonResponse({
+      success: true,
+      message: `Processed backfill: ${embedded} embedded with ${provider.model}`,
+      remaining: ids.length === BACKFILL_LIMIT
+    })
+  } catch (error) {
+    console.error('Embeddings function error:', error)
+    return jsonResponse({ success: false, error: error.message }, 500)
+  }
+})
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status
+    }
+  )
+}
+
+// Embed the updates' yesterday and today text together and their blockers on their own, replacing
+// any earlier embeddings; updates with no text are skipped
+async function embedUpdates(
+  supabase: ReturnType<typeof createClient>,
+  provider: EmbeddingProvider,
+  updateIds: string[]
+): Promise<number> {
+  const { data, error } = await supabase
+    .from('standup_updates')
+    .select('id, team_id, yesterday, today, blockers')
+    .in('id', updateIds)
+
+  if (error) {
+    throw new Error(`Failed to fetch updates: ${error.message}`)
+  }
+
+  const updates = ((data ?? []) as UpdateRow[])
+    .map(update => ({
+      update,
+      content: truncate([htmlToText(update.yesterday ?? ''), htmlToText(update.today ?? '')].filter(Boolean).join('\n'), MAX_TEXT_LENGTH),
+      blockers: truncate(htmlToText(update.blockers ?? ''), MAX_TEXT_LENGTH)
+    }))
+    .filter(({ content, blockers }) => content || blockers)
+
+  if (updates.length === 0) return 0
+
+  // Each text is embedded once, in one call to the provider
+  const texts = Array.from(new Set(updates.flatMap(({ content, blockers }) => [content, blockers].filter(Boolean))))
+  const embeddings = await provider.embed(texts, 'document')
+  const embeddingOf = (text: string) => text ? JSON.stringify(embeddings[texts.indexOf(text)]) : null
+
+  const rows = updates.map(({ update, content, blockers }) => ({
+    standup_update_id: update.id,
+    team_id: update.team_id,
+    model: provider.model,
+    embedding: embeddingOf(content),
+    blockers_embedding: embeddingOf(blockers),
+    embedded_at: new Date().toISOString()
+  }))
+
+  const { error: upsertError } = await supabase
+    .from('standup_update_embeddings')
+    .upsert(rows, { onConflict: 'standup_update_id' })
+
+  if (upsertError) {
+    throw new Error(`Failed to save embeddings: ${upsertError.message}`)
+  }
+
+  return rows.length
+}
@@ -3,10 +3,41 @@ import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-passkey',
 }
 
 
+interface Team {
+  id: string;
+  name: string;
+  timezone: string;
+  standup_time: string | null;
+}
+
+// 'latest' uses each update as it reads now; 'standup' uses the revision current at standup time
+type ReportContentVersion = 'latest' | 'standup'
+
+interface StandupUpdateRevision {
+  standup_update_id: string;
+  revision_number: number;
+  yesterday: string;
+  today: string;
+  blockers: string;
+  created_at: string;
+}
+
+interface TeamReportResult {
+  teamId: string;
+  teamName: string;
+  message: string;
+  weekStart?: string;
+  weekEnd?: string;
+  failed?: boolean;
+  totalUpdates?: number;
+  uniqueMembers?: number;
+  hasAISummary?: boolean;
+}
+
 interface StandupEntry {
   id: string;
   date: string;
@@ -19,7 +50,15 @@ interface StandupUpdate {
   yesterday: string;
   today: string;
   blockers: string;
+  posted_late: boolean;
   created_at: string;
+  // Embedded as update_comments(count)
+  update_comments?: { count: number }[];
+  update_mentions?: {
+    team_member_id: string;
+    field: 'yesterday' | 'today' | 'blockers';
+    team_members: { name: string } | null;
+  }[];
   standup_entries: StandupEntry;
   team_members: {
     id: string;
@@ -35,6 +74,73 @@ interface TeamMember {
   yesterday: string;
   today: string;
   blockers: string;
+  postedLate?: boolean;
+  commentCount?: number;
+  mentions?: UpdateMention[];
+}
+
+// Mirrors UpdateMention in the app; mentions in blockers are who the member was waiting on
+interface UpdateMention {
+  teamMemberId: string;
+  memberName: string;
+  field: 'yesterday' | 'today' | 'blockers';
+}
+
+interface TeamHoliday {
+  date: string
+  name: string
+}
+
+interface MemberAbsence {
+  team_member_id: string
+  start_date: string
+  end_date: string
+  team_members: {
+    name: string
+  }
+}
+
+interface Blocker {
+  id: string
+  description: string
+  unblocker: string | null
+  severity: 'low' | 'medium' | 'high'
+  opened_on: string
+  resolved_on: string | null
+  resolution: string | null
+  team_members: {
+    name: string
+  }
+}
+
+interface BlockerReportItem {
+  id: string
+  description: string
+  memberName: string
+  unblocker: string | null
+  severity: 'low' | 'medium' | 'high'
+  openedOn: string
+  resolvedOn: string | null
+  resolution: string | null
+  ageDays: number
+}
+
+// Mirrors BlockerReport in the app; the three lists never overlap
+interface BlockerReport {
+  opened: BlockerReportItem[]
+  resolved: BlockerReportItem[]
+  stillOpen: BlockerReportItem[]
+}
+
+interface DependencyEdge {
+  blockedMember: string
+  blockingMember: string
+  dates: string[]
+}
+
+// Mirrors DependencyGraph in the app
+interface DependencyGraph {
+  edges: DependencyEdge[]
 }
 
 interface ReportEntry {
@@ -45,7 +151,7 @@ interface ReportEntry {
 interface WeeklyReportSummary {
   keyAccomplishments: string[];
   ongoingWork: string[];
-  blockers: string[];
+  blockers: BlockerReport;
   teamInsights: string;
   recommendations: string[];
   memberSummaries: Record<string, {
@@ -55,6 +161,7 @@ interface WeeklyReportSummary {
     concerns: string[];
     nextWeekFocus: string;
   }>;
+  dependencies: DependencyGraph;
 }
 
 serve(async (req) => {
@@ -75,213 +182,76 @@ serve(async (req) => {
 
     const supabase = createClient(supabaseUrl, supabaseServiceKey)
 
-    // Calculate current week dates (Monday to Sunday)
-    const today = new Date()
-    const dayOfWeek = today.getDay()
-    const daysToMonday = dayOfWeek === 0 ? 6 : dayOfWeek - 1
-    
-    const monday = new Date(today)
-    monday.setDate(today.getDate() - daysToMonday)
-    
-    const sunday = new Date(monday)
-    sunday.setDate(monday.getDate() + 6)
-    
-    const weekStart = monday.toISOString().split('T')[0] // YYYY-MM-DD format
-    const weekEnd = sunday.toISOString().split('T')[0]
-
-    console.log(`Generating weekly report for ${weekStart} to ${weekEnd}`)
-
-    // Check if report already exists for this week
-    const { data: existingReport, error: checkError } = await supabase
-      .from('weekly_reports')
-      .select('id')
-      .eq('week_start', weekStart)
-      .eq('week_end', weekEnd)
-      .single()
-
-    if (existingReport && !checkError) {
-      console.log('Weekly report already exists for this week')
-      return new Response(
-        JSON.stringify({ 
-          success: true, 
-          message: 'Weekly report already exists for this week',
-          weekStart,
-          weekEnd 
-        }),
-        { 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 200 
-        }
-      )
-    }
-
-    // Create pending report entry
-    const { data: reportEntry, error: insertError } = await supabase
-      .from('weekly_reports')
-      .insert({
-        week_start: weekStart,
-        week_end: weekEnd,
-        status: 'pending',
-        total_updates: 0,
-        unique_members: 0
-      })
-      .select()
-      .single()
-
-    if (insertError) {
-      throw new Error(`Failed to create report entry: ${insertError.message}`)
-    }
-
-    // Fetch all standup entries for the week
-    const { data: weekEntries, error: entriesError } = await supabase
-      .from('standup_entries')
-      .select('id, date')
-      .gte('date', weekStart)
-      .lte('date', weekEnd)
-      .order('date', { ascending: true })
-
-    if (entriesError) {
-      throw new Error(`Failed to fetch standup entries: ${entriesError.message}`)
-    }
-
-    if (!weekEntries || weekEntries.length === 0) {
-      // Update report with no data status
-      await supabase
-        .from('weekly_reports')
-        .update({
-          status: 'generated',
-          report_data: {
-            entries: [],
-            summary: {
-              keyAccomplishments: [],
-              ongoingWork: [],
-              blockers: [],
-              teamInsights: 'No standup data available for this week.',
-              recommendations: [],
-              memberSummaries: {}
-            }
-          },
-          total_updates: 0,
-          unique_members: 0
-        })
-        .eq('id', reportEntry.id)
-
-      console.log('No standup data found for this week')
-      return new Response(
-        JSON.stringify({ 
-          success: true, 
-          message: 'No standup data available for this week',
-          weekStart,
-          weekEnd 
-        }),
-        { 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 200 
-        }
-      )
-    }
-
-    const entryIds = weekEntries.map(entry => entry.id)
-
-    // Fetch all updates for the week
-    const { data: updates, error: updatesError } = await supabase
-      .from('standup_updates')
-      .select(`
-        *,
-        standup_entries!inner(
-          id,
-          date
-        ),
-        team_members!inner(
-          id,
-          name,
-          role,
-          avatar
+    // Generate for one team and pick the content version,
+    // e.g. { "teamId": "...", "contentVersion": "standup" }; only scheduled runs may leave out teamId
+    const body = req.method === 'POST' ? await req.json().catch(() => ({})) : {}
+    const contentVersion: ReportContentVersion = body.contentVersion === 'standup' ? 'standup' : 'latest'
+
+    // Scheduled runs authenticate with the service role key; any other caller needs one of the
+    // team's passkeys scoped to weekly report generation, checked (and audited) by the database
+    if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+      if (typeof body.teamId !== 'string' || !body.teamId) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'teamId is required when calling with a passkey' }),
+          {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            status: 400
+          }
         )
-      `)
-      .in('standup_entry_id', entryIds)
-      .order('created_at', { ascending: true })
-
-    if (updatesError) {
-      throw new Error(`Failed to fetch standup updates: ${updatesError.message}`)
-    }
-
-    // Group updates by date
-    const updatesByDate = new Map<string, StandupUpdate[]>()
-    
-    updates?.forEach(update => {
-      const date = update.standup_entries?.date
-      if (date) {
-        if (!updatesByDate.has(date)) {
-          updatesByDate.set(date, [])
-        }
-        updatesByDate.get(date)!.push(update)
       }
-    })
-
-    // Convert to report format
-    const reportEntries = Array.from(updatesByDate.entries()).map(([date, dayUpdates]) => ({
-      date,
-      teamMembers: dayUpdates.map(update => ({
-        name: update.team_members.name,
-        role: update.team_members.role,
-        avatar: update.team_members.avatar,
-        yesterday: update.yesterday,
-        today: update.today,
-        blockers: update.blockers
-      }))
-    }))
 
-    // Generate AI summary if API key is available
-    let aiSummary: WeeklyReportSummary | null = null
-    
-    if (anthropicApiKey) {
-      try {
-        aiSummary = await generateAISummary(reportEntries, weekStart, weekEnd, anthropicApiKey)
-      } catch (aiError) {
-        console.warn('AI summary generation failed:', aiError)
+      const passkey = req.headers.get('x-passkey')
+      const { data: isValid, error: passkeyError } = passkey
+        ? await supabase.rpc('validate_passkey', {
+            passkey_value: passkey,
+            p_scope: 'weekly_report_generation',
+            p_team_id: body.teamId
+          })
+        : { data: false, error: null }
+
+      if (passkeyError || isValid !== true) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'A valid passkey for this team is required' }),
+          {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            status: 401
+          }
+        )
       }
     }
 
-    // Create basic summary if AI failed or not available
-    const summary = aiSummary || generateBasicSummary(reportEntries)
-
-    // Prepare report data
-    const reportData = {
-      entries: reportEntries,
-      summary
+    let teamsQuery = supabase.from('teams').select('id, name, timezone, standup_time')
+    if (body.teamId) {
+      teamsQuery = teamsQuery.eq('id', body.teamId)
     }
 
-    // Calculate statistics
-    const totalUpdates = updates?.length || 0
-    const uniqueMembers = new Set(updates?.map(u => u.team_members.name) || []).size
+    const { data: teams, error: teamsError } = await teamsQuery
 
-    // Update the report with generated data
-    const { error: updateError } = await supabase
-      .from('weekly_reports')
-      .update({
-        status: 'generated',
-        report_data: reportData,
-        total_updates: totalUpdates,
-        unique_members: uniqueMembers
-      })
-      .eq('id', reportEntry.id)
-
-    if (updateError) {
-      throw new Error(`Failed to update report: ${updateError.message}`)
+    if (teamsError) {
+      throw new Error(`Failed to fetch teams: ${teamsError.message}`)
     }
 
-    console.log(`Successfully generated weekly report for ${weekStart} to ${weekEnd}`)
+    const results: TeamReportResult[] = []
+    for (const team of (teams || []) as Team[]) {
+      try {
+        results.push(await generateTeamReport(supabase, team, anthropicApiKey, contentVersion))
+      } catch (teamError) {
+        // One team's failure should not stop the other teams' reports
+        console.error(`Weekly report generation failed for ${team.name}:`, teamError)
+        results.push({
+          teamId: team.id,
+          teamName: team.name,
+          message: teamError.message || 'Unknown error occurred',
+          failed: true
+        })
+      }
+    }
 
     return new Response(
       JSON.stringify({ 
         success: true, 
-        message: 'Weekly report generated successfully',
-        weekStart,
-        weekEnd,
-        totalUpdates,
-        uniqueMembers,
-        hasAISummary: !!aiSummary
+        message: `Processed weekly reports for ${results.length} team(s)`,
+        results
       }),
       { 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -305,7 +275,477 @@ serve(async (req) => {
   }
 })
 
-async function generateAISummary(reportEntries: ReportEntry[], weekStart: string, weekEnd: string, apiKey: string): Promise<WeeklyReportSummary> {
+const DEFAULT_TIMEZONE = 'America/Vancouver'
+const DEFAULT_STANDUP_TIME = '10:00'
+
+async function generateTeamReport(
+  supabase: ReturnType<typeof createClient>,
+  team: Team,
+  anthropicApiKey: string | undefined,
+  contentVersion: ReportContentVersion
+): Promise<TeamReportResult> {
+  // Calculate current week dates (Monday to Sunday) in the team's timezone
+  const { weekStart, weekEnd } = getCurrentWeekDates(team.timezone || DEFAULT_TIMEZONE)
+
+  console.log(`Generating weekly report for ${team.name}: ${weekStart} to ${weekEnd} (${team.timezone})`)
+
+  // Check if report already exists for this week
+  const { data: existingReport, error: checkError } = await supabase
+    .from('weekly_reports')
+    .select('id')
+    .eq('team_id', team.id)
+    .eq('week_start', weekStart)
+    .eq('week_end', weekEnd)
+    .single()
+
+  if (existingReport && !checkError) {
+    console.log('Weekly report already exists for this week')
+    return { teamId: team.id, teamName: team.name, message: 'Weekly report already exists for this week', weekStart, weekEnd }
+  }
+
+  // Create pending report entry
+  const { data: reportEntry, error: insertError } = await supabase
+    .from('weekly_reports')
+    .insert({
+      team_id: team.id,
+      week_start: weekStart,
+      week_end: weekEnd,
+      status: 'pending',
+      total_updates: 0,
+      unique_members: 0
+    })
+    .select()
+    .single()
+
+  if (insertError) {
+    throw new Error(`Failed to create report entry: ${insertError.message}`)
+  }
+
+  // Holidays are listed on the report and are not working days
+  const holidays = await getHolidays(supabase, team.id, weekStart, weekEnd)
+
+  // Blockers are reported from their records, so carried-over ones count once
+  const blockers = await getBlockerReport(supabase, team.id, weekStart, weekEnd)
+
+  // Fetch all standup entries for the week
+  const { data: weekEntries, error: entriesError } = await supabase
+    .from('standup_entries')
+    .select('id, date')
+    .eq('team_id', team.id)
+    .gte('date', weekStart)
+    .lte('date', weekEnd)
+    .order('date', { ascending: true })
+
+  if (entriesError) {
+    throw new Error(`Failed to fetch standup entries: ${entriesError.message}`)
+  }
+
+  if (!weekEntries || weekEntries.length === 0) {
+    // Update report with no data status
+    await supabase
+      .from('weekly_reports')
+      .update({
+        status: 'generated',
+        report_data: {
+          entries: [],
+          summary: {
+            keyAccomplishments: [],
+            ongoingWork: [],
+            blockers,
+            teamInsights: 'No standup data available for this week.',
+            recommendations: [],
+            memberSummaries: {}
+          },
+          holidays
+        },
+        total_updates: 0,
+        unique_members: 0
+      })
+      .eq('id', reportEntry.id)
+
+    console.log('No standup data found for this week')
+    return { teamId: team.id, teamName: team.name, message: 'No standup data available for this week', weekStart, weekEnd }
+  }
+
+  const entryIds = weekEntries.map(entry => entry.id)
+
+  // Fetch all updates for the week
+  const { data: updates, error: updatesError } = await supabase
+    .from('standup_updates')
+    .select(`
+      *,
+      standup_entries!inner(
+        id,
+        date
+      ),
+      team_members!inner(
+        id,
+        name,
+        role,
+        avatar
+      ),
+      update_comments(count),
+      update_mentions(team_member_id, field, team_members(name))
+    `)
+    .in('standup_entry_id', entryIds)
+    .order('created_at', { ascending: true })
+
+  if (updatesError) {
+    throw new Error(`Failed to fetch standup updates: ${updatesError.message}`)
+  }
+
+  if (contentVersion === 'standup' && updates?.length) {
+    await applyStandupSnapshots(supabase, team, updates as StandupUpdate[])
+  }
+
+  // Group updates by date
+  const updatesByDate = new Map<string, StandupUpdate[]>()
+  
+  updates?.forEach(update => {
+    const date = update.standup_entries?.date
+    if (date) {
+      if (!updatesByDate.has(date)) {
+        updatesByDate.set(date, [])
+      }
+      updatesByDate.get(date)!.push(update)
+    }
+  })
+
+  // Convert to report format
+  const reportEntries = Array.from(updatesByDate.entries()).map(([date, dayUpdates]) => ({
+    date,
+    teamMembers: dayUpdates.map(update => ({
+      name: update.team_members.name,
+      role: update.team_members.role,
+      avatar: update.team_members.avatar,
+      yesterday: update.yesterday,
+      today: update.today,
+      blockers: update.blockers,
+      postedLate: update.posted_late,
+      commentCount: update.update_comments?.[0]?.count ?? 0,
+      mentions: (update.update_mentions ?? []).map(mention => ({
+        teamMemberId: mention.team_member_id,
+        memberName: mention.team_members?.name ?? '',
+        field: mention.field
+      }))
+    }))
+  }))
+
+  // Who was waiting on whom, from the teammates mentioned in blockers
+  const dependencies = getDependencyGraph(reportEntries)
+
+  // Generate AI summary if API key is available
+  let aiSummary: Omit<WeeklyReportSummary, 'blockers' | 'dependencies'> | null = null
+  
+  if (anthropicApiKey) {
+    try {
+      aiSummary = await generateAISummary(reportEntries, weekStart, weekEnd, anthropicApiKey)
+    } catch (aiError) {
+      console.warn('AI summary generation failed:', aiError)
+    }
+  }
+
+  // Create basic summary if AI failed or not available
+  const summary: WeeklyReportSummary = aiSummary
+    ? { ...aiSummary, blockers, dependencies }
+    : generateBasicSummary(reportEntries, blockers, dependencies)
+
+  // Members away for every business day of the week are not counted as participants
+  const awayMembers = await getAwayMembers(
+    supabase,
+    team.id,
+    getBusinessDays(weekStart, weekEnd, holidays.map(holiday => holiday.date))
+  )
+
+  // Prepare report data
+  const reportData = {
+    entries: reportEntries,
+    summary,
+    contentVersion,
+    awayMembers,
+    holidays
+  }
+
+  // Calculate statistics
+  const totalUpdates = updates?.length || 0
+  const uniqueMembers = new Set(
+    (updates || []).map(u => u.team_members.name).filter(name => !awayMembers.includes(name))
+  ).size
+
+  // Update the report with generated data
+  const { error: updateError } = await supabase
+    .from('weekly_reports')
+    .update({
+      status: 'generated',
+      report_data: reportData,
+      total_updates: totalUpdates,
+      unique_members: uniqueMembers
+    })
+    .eq('id', reportEntry.id)
+
+  if (updateError) {
+    throw new Error(`Failed to update report: ${updateError.message}`)
+  }
+
+  console.log(`Successfully generated weekly report for ${team.name}: ${weekStart} to ${weekEnd}`)
+
+  return {
+    teamId: team.id,
+    teamName: team.name,
+    message: 'Weekly report generated successfully',
+    weekStart,
+    weekEnd,
+    totalUpdates,
+    uniqueMembers,
+    hasAISummary: !!aiSummary
+  }
+}
+
+// Replace each update's content with the revision that was current at that day's
+// standup time; updates first posted after standup keep their original revision
+async function applyStandupSnapshots(
+  supabase: ReturnType<typeof createClient>,
+  team: Team,
+  updates: StandupUpdate[]
+): Promise<void> {
+  const { data: revisions, error } = await supabase
+    .from('standup_update_revisions')
+    .select('standup_update_id, revision_number, yesterday, today, blockers, created_at')
+    .in('standup_update_id', updates.map(update => update.id))
+    .order('revision_number', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to fetch standup update revisions: ${error.message}`)
+  }
+
+  const timezone = team.timezone || DEFAULT_TIMEZONE
+  const standupTime = team.standup_time ? team.standup_time.slice(0, 5) : DEFAULT_STANDUP_TIME
+
+  for (const update of updates) {
+    const own = ((revisions || []) as StandupUpdateRevision[])
+      .filter(revision => revision.standup_update_id === update.id)
+    if (own.length === 0) continue
+
+    const cutoff = getInstant(update.standup_entries.date, standupTime, timezone)
+    const snapshot = own.filter(revision => new Date(revision.created_at).getTime() <= cutoff).pop() ?? own[0]
+
+    update.yesterday = snapshot.yesterday
+    update.today = snapshot.today
+    update.blockers = snapshot.blockers
+  }
+}
+
+// Team holidays within the week, in date order
+async function getHolidays(
+  supabase: ReturnType<typeof createClient>,
+  teamId: string,
+  weekStart: string,
+  weekEnd: string
+): Promise<TeamHoliday[]> {
+  const { data: holidays, error } = await supabase
+    .from('team_holidays')
+    .select('date, name')
+    .eq('team_id', teamId)
+    .gte('date', weekStart)
+    .lte('date', weekEnd)
+    .order('date', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to fetch team holidays: ${error.message}`)
+  }
+
+  return (holidays || []) as TeamHoliday[]
+}
+
+// Every blocker open at some point during the week, split like BlockerReport.fromBlockers in the app
+async function getBlockerReport(
+  supabase: ReturnType<typeof createClient>,
+  teamId: string,
+  weekStart: string,
+  weekEnd: string
+): Promise<BlockerReport> {
+  const { data: blockers, error } = await supabase
+    .from('blockers')
+    .select('id, description, unblocker, severity, opened_on, resolved_on, resolution, team_members!inner(name)')
+    .eq('team_id', teamId)
+    .lte('opened_on', weekEnd)
+    .or(`resolved_on.is.null,resolved_on.gte.${weekStart}`)
+
+  if (error) {
+    throw new Error(`Failed to fetch blockers: ${error.message}`)
+  }
+
+  const report: BlockerReport = { opened: [], resolved: [], stillOpen: [] }
+
+  for (const blocker of (blockers || []) as Blocker[]) {
+    const resolvedThisWeek = blocker.resolved_on !== null && blocker.resolved_on <= weekEnd
+    const item: BlockerReportItem = {
+      id: blocker.id,
+      description: blocker.description,
+      memberName: blocker.team_members.name,
+      unblocker: blocker.unblocker,
+      severity: blocker.severity,
+      openedOn: blocker.opened_on,
+      resolvedOn: blocker.resolved_on,
+      resolution: blocker.resolution,
+      ageDays: Math.max(0, getDaysBetween(blocker.opened_on, resolvedThisWeek ? blocker.resolved_on! : weekEnd))
+    }
+
+    if (resolvedThisWeek) {
+      report.resolved.push(item)
+    } else if (blocker.opened_on >= weekStart) {
+      report.opened.push(item)
+    } else {
+      report.stillOpen.push(item)
+    }
+  }
+
+  const oldestFirst = (a: BlockerReportItem, b: BlockerReportItem) => b.ageDays - a.ageDays
+  report.opened.sort(oldestFirst)
+  report.resolved.sort(oldestFirst)
+  report.stillOpen.sort(oldestFirst)
+
+  return report
+}
+
+// One edge per blocked member and teammate they waited on, with the days it was reported,
+// longest-standing first, like DependencyGraph.fromEntries in the app
+function getDependencyGraph(reportEntries: ReportEntry[]): DependencyGraph {
+  const edges = new Map<string, DependencyEdge>()
+
+  reportEntries.forEach(entry => {
+    entry.teamMembers.forEach(member => {
+      (member.mentions ?? [])
+        .filter(mention => mention.field === 'blockers')
+        .forEach(mention => {
+          const key = `${member.name}\u0000${mention.memberName}`
+          const edge = edges.get(key) ?? { blockedMember: member.name, blockingMember: mention.memberName, dates: [] }
+
+          if (!edge.dates.includes(entry.date)) {
+            edge.dates.push(entry.date)
+          }
+          edges.set(key, edge)
+        })
+    })
+  })
+
+  return {
+    edges: Array.from(edges.values())
+      .map(edge => ({ ...edge, dates: [...edge.dates].sort() }))
+      .sort((a, b) => b.dates.length - a.dates.length || a.blockedMember.localeCompare(b.blockedMember))
+  }
+}
+
+// Mirrors TeamCalendar.getDaysBetween in the app
+function getDaysBetween(startDate: string, endDate: string): number {
+  const toTime = (dateString: string) => {
+    const [year, month, day] = dateString.split('-').map(Number)
+    return Date.UTC(year, month - 1, day)
+  }
+  return Math.round((toTime(endDate) - toTime(startDate)) / (24 * 60 * 60 * 1000))
+}
+
+// Names of members whose absences cover every working day of the report week
+async function getAwayMembers(
+  supabase: ReturnType<typeof createClient>,
+  teamId: string,
+  businessDays: string[]
+): Promise<string[]> {
+  if (businessDays.length === 0) return []
+
+  const { data: absences, error } = await supabase
+    .from('member_absences')
+    .select('team_member_id, start_date, end_date, team_members!inner(name)')
+    .eq('team_id', teamId)
+    .lte('start_date', businessDays[businessDays.length - 1])
+    .gte('end_date', businessDays[0])
+
+  if (error) {
+    throw new Error(`Failed to fetch member absences: ${error.message}`)
+  }
+
+  const byMember = new Map<string, { name: string; ranges: { start: string; end: string }[] }>()
+
+  for (const absence of (absences || []) as MemberAbsence[]) {
+    const member = byMember.get(absence.team_member_id) ?? { name: absence.team_members.name, ranges: [] }
+    member.ranges.push({ start: absence.start_date, end: absence.end_date })
+    byMember.set(absence.team_member_id, member)
+  }
+
+  return Array.from(byMember.values())
+    .filter(member => businessDays.every(date =>
+      member.ranges.some(range => date >= range.start && date <= range.end)
+    ))
+    .map(member => member.name)
+}
+
+// Mirrors TeamCalendar.getBusinessDays in the app: weekdays that are not team holidays, inclusive
+function getBusinessDays(startDate: string, endDate: string, holidays: string[] = []): string[] {
+  const days: string[] = []
+  const [year, month, day] = startDate.split('-').map(Number)
+
+  for (let date = new Date(Date.UTC(year, month - 1, day)); ; date.setUTCDate(date.getUTCDate() + 1)) {
+    const dateString = date.toISOString().split('T')[0]
+    if (dateString > endDate) break
+
+    const dayOfWeek = date.getUTCDay()
+    if (dayOfWeek !== 0 && dayOfWeek !== 6 && !holidays.includes(dateString)) {
+      days.push(dateString)
+    }
+  }
+
+  return days
+}
+
+// Mirrors TeamCalendar.getInstant in the app: the epoch milliseconds at which a
+// local HH:MM time occurs on a date, corrected once for DST transitions
+function getInstant(dateString: string, time: string, timezone: string): number {
+  const [year, month, day] = dateString.split('-').map(Number)
+  const [hours, minutes] = time.split(':').map(Number)
+  const localAsUtc = Date.UTC(year, month - 1, day, hours, minutes)
+
+  const firstGuess = localAsUtc - getOffset(timezone, new Date(localAsUtc))
+  return localAsUtc - getOffset(timezone, new Date(firstGuess))
+}
+
+function getOffset(timezone: string, date: Date): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date)
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find(part => part.type === type)?.value)
+
+  const localAsUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'))
+  return localAsUtc - (date.getTime() - date.getMilliseconds())
+}
+
+// Mirrors TeamCalendar.getCurrentWeekDates in the app: the local calendar date
+// is taken first, then Monday/Sunday are found with UTC date arithmetic
+function getCurrentWeekDates(timezone: string): { weekStart: string; weekEnd: string } {
+  const today = new Date().toLocaleDateString('en-CA', { timeZone: timezone })
+  const [year, month, day] = today.split('-').map(Number)
+  const todayUtc = new Date(Date.UTC(year, month - 1, day))
+  const dayOfWeek = todayUtc.getUTCDay()
+  const daysToMonday = dayOfWeek === 0 ? 6 : dayOfWeek - 1
+
+  const monday = new Date(Date.UTC(year, month - 1, day - daysToMonday))
+  const sunday = new Date(Date.UTC(year, month - 1, day - daysToMonday + 6))
+
+  return {
+    weekStart: monday.toISOString().split('T')[0],
+    weekEnd: sunday.toISOString().split('T')[0]
+  }
+}
+
+async function generateAISummary(reportEntries: ReportEntry[], weekStart: string, weekEnd: string, apiKey: string): Promise<Omit<WeeklyReportSummary, 'blockers' | 'dependencies'>> {
   const weekData = reportEntries.map(entry => ({
     date: entry.date,
     teamMembers: entry.teamMembers.map((member: TeamMember) => ({
@@ -313,7 +753,12 @@ async function generateAISummary(reportEntries: ReportEntry[], weekStart: string
       role: member.role,
       yesterday: member.yesterday,
       today: member.today,
-      blockers: member.blockers
+      blockers: member.blockers,
+      // Heavily discussed updates are worth calling out
+      comments: member.commentCount ?? 0,
+      waitingOn: (member.mentions ?? [])
+        .filter(mention => mention.field === 'blockers')
+        .map(mention => mention.memberName)
     }))
   }))
 
@@ -331,7 +776,6 @@ Return ONLY valid JSON in this exact format:
 {
   "keyAccomplishments": ["accomplishment 1", "accomplishment 2"],
   "ongoingWork": ["ongoing work 1", "ongoing work 2"], 
-  "blockers": ["blocker 1", "blocker 2"],
   "teamInsights": "Brief team observation",
   "recommendations": ["recommendation 1", "recommendation 2"],
   "memberSummaries": {
@@ -355,6 +799,9 @@ Create a summary with:
 1. Team accomplishments, ongoing work, and blockers
 2. Individual summaries for each team member
 
+Updates with many teammate comments were discussed heavily; mention those items in teamInsights.
+"waitingOn" lists the teammates a member was blocked by; call out anyone several people were waiting on in teamInsights.
+
 CRITICAL: In memberSummaries, use ONLY these exact names as keys: ${memberNames.join(', ')}
 Do NOT use any other keys like "role", "concerns", "progress", etc.
 
@@ -423,7 +870,6 @@ Return only valid JSON.`
     return {
       keyAccomplishments: summary.keyAccomplishments || [],
       ongoingWork: summary.ongoingWork || [],
-      blockers: summary.blockers || [],
       teamInsights: summary.teamInsights || '',
       recommendations: summary.recommendations || [],
       memberSummaries: cleanedMemberSummaries
@@ -433,10 +879,14 @@ Return only valid JSON.`
   throw new Error('Failed to generate AI summary')
 }
 
-function generateBasicSummary(reportEntries: ReportEntry[]): WeeklyReportSummary {
+function generateBasicSummary(
+  reportEntries: ReportEntry[],
+  blockers: BlockerReport,
+  dependencies: DependencyGraph
+): WeeklyReportSummary {
   const allAccomplishments: string[] = []
   const allOngoingWork: string[] = []
-  const allBlockers: string[] = []
+  const blockerCount = blockers.opened.length + blockers.resolved.length + blockers.stillOpen.length
   const memberSummaries: Record<string, {
     role: string;
     keyContributions: string[];
@@ -454,9 +904,6 @@ function generateBasicSummary(reportEntries: ReportEntry[]): WeeklyReportSummary
       if (member.today) {
         allOngoingWork.push(member.today)
       }
-      if (member.blockers && member.blockers !== '<p>None</p>') {
-        allBlockers.push(member.blockers)
-      }
 
       // Build member summaries
       if (!memberSummaries[member.name]) {
@@ -472,7 +919,7 @@ function generateBasicSummary(reportEntries: ReportEntry[]): WeeklyReportSummary
       if (member.yesterday) {
         memberSummaries[member.name].keyContributions.push(member.yesterday)
       }
-      if (member.blockers && member.blockers !== '<p>None</p>') {
+      if (member.blockers && !memberSummaries[member.name].concerns.includes(member.blockers)) {
         memberSummaries[member.name].concerns.push(member.blockers)
       }
     })
@@ -489,9 +936,10 @@ function generateBasicSummary(reportEntries: ReportEntry[]): WeeklyReportSummary
   return {
     keyAccomplishments: allAccomplishments.slice(0, 10),
     ongoingWork: allOngoingWork.slice(0, 10),
-    blockers: allBlockers.slice(0, 10),
-    teamInsights: `Generated basic summary for ${reportEntries.length} days with ${allAccomplishments.length} accomplishments, ${allOngoingWork.length} ongoing tasks, and ${allBlockers.length} blockers.`,
+    blockers,
+    teamInsights: `Generated basic summary for ${reportEntries.length} days with ${allAccomplishments.length} accomplishments, ${allOngoingWork.length} ongoing tasks, and ${blockerCount} blockers.`,
     recommendations: [],
-    memberSummaries
+    memberSummaries,
+    dependencies
   }
 }
@@ -0,0 +1,91 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Sign-up is closed, so roster members get their account through an invite. A trigger calls this
+// whenever a member is added with an email, or given one, before they have signed in; the invite
+// email's link signs them in, and signing in links them to their roster entry.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const APP_URL = (Deno.env.get('APP_URL') ?? '').replace(/\/$/, '')
+
+interface TeamMemberRow {
+  id: string
+  email: string | null
+  user_id: string | null
+  archived_at: string | null
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Missing Supabase environment variables')
+    }
+
+    // Only the trigger, or an operator with the service role key, can send invites
+    if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401)
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    const body = await req.json().catch(() => ({}))
+
+    if (!body.teamMemberId) {
+      return jsonResponse({ success: false, error: 'teamMemberId is required' }, 400)
+    }
+
+    const { data: member, error: memberError } = await supabase
+      .from('team_members')
+      .select('id, email, user_id, archived_at')
+      .eq('id', body.teamMemberId)
+      .maybeSingle()
+
+    if (memberError) {
+      throw new Error(`Failed to fetch team member: ${memberError.message}`)
+    }
+
+    const row = member as TeamMemberRow | null
+    if (!row?.email || row.user_id || row.archived_at) {
+      return jsonResponse({ success: true, message: 'Nothing to invite' })
+    }
+
+    const { error: inviteError } = await supabase.auth.admin.inviteUserByEmail(
+      row.email,
+      APP_URL ? { redirectTo: APP_URL } : undefined
+    )
+
+    // People who already have an account are linked the next time they sign in
+    if (inviteError && inviteError.code !== 'email_exists') {
+      throw new Error(`Failed to invite ${row.email}: ${inviteError.message}`)
+    }
+
+    return jsonResponse({
+      success: true,
+      message: inviteError ? `${row.email} already has an account` : `Invited ${row.email}`
+    })
+  } catch (error) {
+    console.error('Invitations function error:', error)
+    return jsonResponse({ success: false, error: error.message }, 500)
+  }
+})
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status
+    }
+  )
+}
@@ -0,0 +1,342 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createRemoteJWKSet, jwtVerify } from 'https://esm.sh/jose@4.15.4'
+import { DEFAULT_TIMEZONE, getDate } from '../_shared/calendar.ts'
+import { htmlToText, truncate } from '../_shared/text.ts'
+import { adaptiveCard, textBlock, toMessage, CardElement } from '../_shared/microsoft-teams.ts'
+import {
+  Team,
+  RosterMember,
+  SEVERITY_LABELS,
+  saveUpdate,
+  parseBlockerLines,
+  getUpdates,
+  getOpenBlockers
+} from '../_shared/standup.ts'
+
+// Bot Framework messaging endpoint for the Microsoft Teams bot. Members message the bot (or
+// "standup <team name>" when they are on several teams) and get an Adaptive Card with the
+// standup questions; submitting the card saves their update like the app does.
+
+const MICROSOFT_APP_ID = Deno.env.get('MICROSOFT_APP_ID') ?? ''
+const MICROSOFT_APP_PASSWORD = Deno.env.get('MICROSOFT_APP_PASSWORD') ?? ''
+// Single-tenant bots get their tokens from their own tenant; multi-tenant bots leave this unset
+const MICROSOFT_APP_TENANT_ID = Deno.env.get('MICROSOFT_APP_TENANT_ID') || 'botframework.com'
+
+// https://learn.microsoft.com/azure/bot-service/rest-api/bot-framework-rest-connector-authentication
+const BOT_FRAMEWORK_ISSUER = 'https://api.botframework.com'
+const BOT_FRAMEWORK_KEYS = createRemoteJWKSet(new URL('https://login.botframework.com/v1/.well-known/keys'))
+
+const SUBMIT_ACTION = 'save_standup'
+
+// The subset of a Bot Framework activity this bot reads
+interface Activity {
+  type: string
+  id: string
+  serviceUrl: string
+  text?: string
+  value?: Record<string, string>
+  from: { id: string; name?: string }
+  conversation: { id: string; tenantId?: string }
+  channelData?: { tenant?: { id: string } }
+}
+
+// Returned by the connector's conversation member lookup
+interface TeamsChannelAccount {
+  id: string
+  email?: string
+  userPrincipalName?: string
+}
+
+let cachedToken: { value: string; expiresAt: number } | null = null
+
+serve(async (req) => {
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Missing Supabase environment variables')
+    }
+
+    if (!MICROSOFT_APP_ID || !MICROSOFT_APP_PASSWORD) {
+      throw new Error('MICROSOFT_APP_ID and MICROSOFT_APP_PASSWORD must be set')
+    }
+
+    const activity = await req.json() as Activity
+
+    if (!(await isFromBotFramework(req, activity))) {
+      return new Response('Unauthorized', { status: 401 })
+    }
+
+    // Conversation updates, reactions and the like need no answer
+    if (activity.type !== 'message') {
+      return new Response(null, { status: 200 })
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    if (activity.value?.action === SUBMIT_ACTION) {
+      await handleSubmission(supabase, activity)
+    } else {
+      await handleMessage(supabase, activity)
+    }
+
+    return new Response(null, { status: 200 })
+
+  } catch (error) {
+    console.error('Microsoft Teams bot failed:', error)
+    return new Response(JSON.stringify({ error: error.message || 'Unknown error occurred' }), {
+      headers: { 'Content-Type': 'application/json' },
+      status: 500
+    })
+  }
+})
+
+// ---------------------------------------------------------------------------
+// Conversation
+// ---------------------------------------------------------------------------
+
+// Any message gets the standup card; members of several connected teams name the team,
+// e.g. "standup Platform"
+async function handleMessage(supabase: ReturnType<typeof createClient>, activity: Activity): Promise<void> {
+  const teamName = (activity.text ?? '')
+    .replace(/<at>.*?<\/at>/g, '')
+    .trim()
+    .replace(/^standup\b/i, '')
+    .trim()
+    .toLowerCase()
+
+  const candidates = await findMembersForTeamsUser(supabase, activity)
+  const named = candidates.filter(({ team }) => team.name.toLowerCase() === teamName)
+  const matches = named.length > 0 ? named : candidates
+
+  if (matches.length === 0) {
+    await reply(activity, { type: 'message', text: 'Your Teams account is not linked to anyone on a team roster. Ask a team lead to add your email to the roster.' })
+    return
+  }
+
+  if (matches.length > 1) {
+    await reply(activity, {
+      type: 'message',
+      text: `You're on several teams. Send "standup <team name>" with one of: ${matches.map(({ team }) => team.name).join(', ')}`
+    })
+    return
+  }
+
+  await reply(activity, toMessage(await standupCard(supabase, matches[0].team, matches[0].member)))
+}
+
+async function standupCard(
+  supabase: ReturnType<typeof createClient>,
+  team: Team,
+  member: RosterMember
+): Promise<CardElement> {
+  const date = getDate(team.timezone || DEFAULT_TIMEZONE)
+  const [updates, openBlockers] = await Promise.all([
+    getUpdates(supabase, team.id, date),
+    getOpenBlockers(supabase, team.id, member.id, date)
+  ])
+  const existing = updates.find(update => update.team_member_id === member.id)
+
+  const body: CardElement[] = [
+    textBlock(`${team.name} · ${date}${existing ? ' · editing your update' : ''}`, { weight: 'Bolder' }),
+    textInput('yesterday', 'What did you do yesterday?', existing?.yesterday),
+    textInput('today', 'What are you working on today?', existing?.today)
+  ]
+
+  if (openBlockers.length > 0) {
+    body.push({
+      type: 'Input.ChoiceSet',
+      id: 'resolved',
+      label: 'Open blockers resolved today',
+      isMultiSelect: true,
+      style: 'expanded',
+      choices: openBlockers.map(blocker => ({
+        title: truncate(`${SEVERITY_LABELS[blocker.severity]}: ${blocker.description} (open since ${blocker.opened_on})`, 150),
+        value: blocker.id
+      }))
+    })
+  }
+
+  body.push({
+    ...textInput('blockers', 'New blockers'),
+    placeholder: 'One per line. Blockers you already raised carry over until you resolve them.'
+  })
+
+  return adaptiveCard(body, [{
+    type: 'Action.Submit',
+    title: existing ? 'Save' : 'Post',
+    data: { action: SUBMIT_ACTION, teamId: team.id, memberId: member.id, date }
+  }])
+}
+
+function textInput(id: string, label: string, initialHtml?: string | null): CardElement {
+  const value = initialHtml ? htmlToText(initialHtml) : ''
+  return { type: 'Input.Text', id, label, isMultiline: true, ...(value ? { value } : {}) }
+}
+
+// Save the card through the same steps as saving an update in the app
+async function handleSubmission(supabase: ReturnType<typeof createClient>, activity: Activity): Promise<void> {
+  const value = activity.value!
+  const candidates = await findMembersForTeamsUser(supabase, activity)
+  const match = candidates.find(({ team, member }) => team.id === value.teamId && member.id === value.memberId)
+
+  if (!match) {
+    await reply(activity, { type: 'message', text: 'You can only post your own update.' })
+    return
+  }
+
+  try {
+    await saveUpdate(supabase, match.team, match.member, value.date, {
+      yesterday: (value.yesterday ?? '').trim(),
+      today: (value.today ?? '').trim(),
+      // Multi-select choice sets submit their values comma-separated
+      resolvedBlockerIds: (value.resolved ?? '').split(',').filter(Boolean),
+      newBlockers: parseBlockerLines(value.blockers ?? '')
+    })
+  } catch (saveError) {
+    console.error(`Failed to save Teams update for ${match.member.name}:`, saveError)
+    await reply(activity, { type: 'message', text: `Your update was not saved: ${saveError.message || 'Unknown error occurred'}` })
+    return
+  }
+
+  await reply(activity, { type: 'message', text: `Saved your ${match.team.name} update for ${value.date}.` })
+}
+
+// Every roster member the Teams user is on a team connected to this Microsoft 365 tenant,
+// matched by the email on their Teams account
+async function findMembersForTeamsUser(
+  supabase: ReturnType<typeof createClient>,
+  activity: Activity
+): Promise<{ team: Team; member: RosterMember }[]> {
+  const tenantId = activity.channelData?.tenant?.id ?? activity.conversation.tenantId
+  if (!tenantId) return []
+
+  const { data: integrations, error } = await supabase
+    .from('microsoft_teams_integrations')
+    .select('team_id, teams!inner(id, name, timezone, standup_time)')
+    .eq('tenant_id', tenantId)
+
+  if (error) {
+    throw new Error(`Failed to fetch Microsoft Teams integrations: ${error.message}`)
+  }
+
+  const teams = ((integrations || []) as unknown as { teams: Team }[]).map(integration => integration.teams)
+  if (teams.length === 0) return []
+
+  const email = await getTeamsUserEmail(activity)
+  if (!email) return []
+
+  const { data: members, error: membersError } = await supabase
+    .from('team_members')
+    .select('id, team_id, name, role, email, slack_user_id, reminder_channel, access_role, archived_at')
+    .in('team_id', teams.map(team => team.id))
+    .eq('email', email.trim().toLowerCase())
+    .is('archived_at', null)
+
+  if (membersError) {
+    throw new Error(`Failed to fetch team members: ${membersError.message}`)
+  }
+
+  return ((members || []) as RosterMember[]).flatMap(member => {
+    const team = teams.find(candidate => candidate.id === member.team_id)
+    return team ? [{ team, member }] : []
+  })
+}
+
+async function getTeamsUserEmail(activity: Activity): Promise<string | null> {
+  try {
+    const account = await callConnector<TeamsChannelAccount>(
+      activity.serviceUrl,
+      `v3/conversations/${encodeURIComponent(activity.conversation.id)}/members/${encodeURIComponent(activity.from.id)}`
+    )
+    return account.email || account.userPrincipalName || null
+  } catch (lookupError) {
+    console.warn(`Could not look up Teams user ${activity.from.id}:`, lookupError)
+    return null
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Bot Framework connector
+// ---------------------------------------------------------------------------
+
+async function reply(activity: Activity, message: Record<string, unknown>): Promise<void> {
+  await callConnector(
+    activity.serviceUrl,
+    `v3/conversations/${encodeURIComponent(activity.conversation.id)}/activities/${encodeURIComponent(activity.id)}`,
+    { ...message, replyToId: activity.id }
+  )
+}
+
+async function callConnector<T = Record<string, unknown>>(
+  serviceUrl: string,
+  path: string,
+  body?: Record<string, unknown>
+): Promise<T> {
+  const response = await fetch(`${serviceUrl.replace(/\/?$/, '/')}${path}`, {
+    method: body ? 'POST' : 'GET',
+    headers: {
+      'Authorization': `Bearer ${await getBotToken()}`,
+      'Content-Type': 'application/json'
+    },
+    ...(body ? { body: JSON.stringify(body) } : {})
+  })
+
+  if (!response.ok) {
+    throw new Error(`Bot Framework ${path} failed: ${response.status} ${await response.text()}`)
+  }
+
+  const text = await response.text()
+  return (text ? JSON.parse(text) : {}) as T
+}
+
+// Tokens last an hour; refresh a few minutes early
+async function getBotToken(): Promise<string> {
+  if (cachedToken && cachedToken.expiresAt > Date.now() + 5 * 60 * 1000) {
+    return cachedToken.value
+  }
+
+  const response = await fetch(`https://login.microsoftonline.com/${MICROSOFT_APP_TENANT_ID}/oauth2/v2.0/token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'client_credentials',
+      client_id: MICROSOFT_APP_ID,
+      client_secret: MICROSOFT_APP_PASSWORD,
+      scope: 'https://api.botframework.com/.default'
+    })
+  })
+
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(`Failed to get a Bot Framework token: ${data.error_description || data.error || response.statusText}`)
+  }
+
+  cachedToken = { value: data.access_token, expiresAt: Date.now() + data.expires_in * 1000 }
+  return cachedToken.value
+}
+
+// Requests from the Bot Framework carry a JWT for this bot, issued for the activity's service URL
+async function isFromBotFramework(req: Request, activity: Activity): Promise<boolean> {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer /, '')
+  if (!token) return false
+
+  try {
+    const { payload } = await jwtVerify(token, BOT_FRAMEWORK_KEYS, {
+      issuer: BOT_FRAMEWORK_ISSUER,
+      audience: MICROSOFT_APP_ID,
+      clockTolerance: 5 * 60
+    })
+    return payload.serviceurl === activity.serviceUrl
+  } catch (verifyError) {
+    console.warn('Rejected a Bot Framework token:', verifyError)
+    return false
+  }
+}
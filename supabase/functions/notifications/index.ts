@@ -0,0 +1,554 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { DEFAULT_TIMEZONE, DEFAULT_STANDUP_TIME, getDate, getLocalTime, addMinutes, getBusinessDays } from '../_shared/calendar.ts'
+import { Team, ROSTER_MANAGER_ROLES, getPostingMembers, getUpdates, getAwayMemberIds, getHolidayDates } from '../_shared/standup.ts'
+import {
+  NotificationChannel,
+  NotificationKind,
+  TeamNotification,
+  DailyDigest,
+  WeeklyReport,
+  WeeklyReportNotification
+} from '../_shared/notifications.ts'
+import { slackChannel } from '../_shared/slack.ts'
+import { microsoftTeamsChannel } from '../_shared/microsoft-teams.ts'
+import { emailChannel } from '../_shared/email.ts'
+import { webPushChannel, pushToMembers } from '../_shared/push.ts'
+import { htmlToText, truncate } from '../_shared/text.ts'
+
+// Sends team notifications to every chat app, email list and browser a team has connected. Called by
+// pg_cron every few minutes for the daily digest, and by a trigger when a weekly report is generated.
+// Comments on standup updates are pushed to the people they reply to, and escalated blockers to the
+// team's leads, also from triggers.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Everywhere notifications go; add a NotificationChannel here to support another one
+const CHANNELS: NotificationChannel[] = [slackChannel, microsoftTeamsChannel, emailChannel, webPushChannel]
+
+const APP_URL = (Deno.env.get('APP_URL') ?? '').replace(/\/$/, '')
+
+// The digest goes out this long after standup time, once people have had a chance to post
+const DIGEST_DELAY_MINUTES = 60
+
+// A failed delivery is retried on later runs until it has been attempted this many times
+const MAX_DELIVERY_ATTEMPTS = 3
+
+// 'tick' sends any digests that are due and retries failed deliveries; 'weekly_report_generated',
+// 'comment_posted', 'member_mentioned' and 'blocker_escalated' come from table triggers; the others send
+// one notification now
+type NotificationEvent =
+  | 'tick'
+  | 'daily_digest'
+  | 'weekly_report'
+  | 'weekly_report_generated'
+  | 'comment_posted'
+  | 'member_mentioned'
+  | 'blocker_escalated'
+
+interface Delivery {
+  channel: string
+  status: 'sent' | 'failed'
+  attempts: number
+}
+
+interface DeliveryResult {
+  teamId: string
+  kind: NotificationKind
+  subject: string
+  channel: string
+  status: 'sent' | 'failed'
+  error?: string
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Missing Supabase environment variables')
+    }
+
+    // Scheduled runs, the weekly report trigger and manual sends authenticate with the service role key
+    if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401)
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // e.g. { "event": "daily_digest", "teamId": "..." } sends today's digest now, whatever the time;
+    // add "force": true to send it again to channels that already have it
+    const body = await req.json().catch(() => ({}))
+    const event: NotificationEvent = ['daily_digest', 'weekly_report', 'weekly_report_generated', 'comment_posted', 'member_mentioned', 'blocker_escalated'].includes(body.event)
+      ? body.event
+      : 'tick'
+    const force = body.force === true
+
+    // Comments, mentions and escalations go to people rather than the team's channels, so they are not
+    // tracked as deliveries
+    if (event === 'comment_posted') {
+      if (!body.commentId) {
+        return jsonResponse({ success: false, error: 'commentId is required' }, 400)
+      }
+      const notified = await sendCommentNotification(supabase, body.commentId)
+      return jsonResponse({ success: true, message: `Processed comment_posted: ${notified} browsers notified` })
+    }
+
+    if (event === 'member_mentioned') {
+      if (!body.mentionId) {
+        return jsonResponse({ success: false, error: 'mentionId is required' }, 400)
+      }
+      const notified = await sendMentionNotification(supabase, body.mentionId)
+      return jsonResponse({ success: true, message: `Processed member_mentioned: ${notified} browsers notified` })
+    }
+
+    if (event === 'blocker_escalated') {
+      if (!body.escalationId) {
+        return jsonResponse({ success: false, error: 'escalationId is required' }, 400)
+      }
+      const notified = await sendEscalationNotification(supabase, body.escalationId)
+      return jsonResponse({ success: true, message: `Processed blocker_escalated: ${notified} browsers notified` })
+    }
+
+    let results: DeliveryResult[]
+    switch (event) {
+      case 'weekly_report_generated':
+        if (!body.reportId) {
+          return jsonResponse({ success: false, error: 'reportId is required' }, 400)
+        }
+        results = await sendWeeklyReport(supabase, body.reportId, force)
+        break
+
+      case 'weekly_report': {
+        if (!body.teamId) {
+          return jsonResponse({ success: false, error: 'teamId is required' }, 400)
+        }
+        const reportId = await getLatestWeeklyReportId(supabase, body.teamId)
+        results = reportId ? await sendWeeklyReport(supabase, reportId, force) : []
+        break
+      }
+
+      case 'daily_digest': {
+        if (!body.teamId) {
+          return jsonResponse({ success: false, error: 'teamId is required' }, 400)
+        }
+        const team = await getTeam(supabase, body.teamId)
+        results = await sendDailyDigest(supabase, team, body.date || getDate(team.timezone || DEFAULT_TIMEZONE), force)
+        break
+      }
+
+      default:
+        results = await runTick(supabase)
+    }
+
+    return jsonResponse({
+      success: true,
+      message: `Processed ${event}: ${results.filter(result => result.status === 'sent').length} sent, ${results.filter(result => result.status === 'failed').length} failed`,
+      results
+    })
+
+  } catch (error) {
+    console.error('Notifications function failed:', error)
+    return jsonResponse({ success: false, error: error.message || 'Unknown error occurred' }, 500)
+  }
+})
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status
+    }
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Scheduled run
+// ---------------------------------------------------------------------------
+
+// Send each team's digest once its local time passes standup time plus DIGEST_DELAY_MINUTES on a
+// business day, then retry weekly reports that failed to reach a channel
+async function runTick(supabase: ReturnType<typeof createClient>): Promise<DeliveryResult[]> {
+  const { data: teams, error } = await supabase
+    .from('teams')
+    .select('id, name, timezone, standup_time')
+
+  if (error) {
+    throw new Error(`Failed to fetch teams: ${error.message}`)
+  }
+
+  const results: DeliveryResult[] = []
+
+  for (const team of (teams || []) as Team[]) {
+    try {
+      const timezone = team.timezone || DEFAULT_TIMEZONE
+      const standupTime = team.standup_time ? team.standup_time.slice(0, 5) : DEFAULT_STANDUP_TIME
+      if (getLocalTime(timezone) < addMinutes(standupTime, DIGEST_DELAY_MINUTES)) continue
+
+      const today = getDate(timezone)
+      const holidays = await getHolidayDates(supabase, team.id, today, today)
+      if (getBusinessDays(today, today, holidays).length === 0) continue
+
+      results.push(...await sendDailyDigest(supabase, team, today, false))
+    } catch (teamError) {
+      // One team's failure should not stop the other teams' digests
+      console.error(`Digest failed for ${team.name}:`, teamError)
+    }
+  }
+
+  const { data: failed, error: failedError } = await supabase
+    .from('notification_deliveries')
+    .select('subject')
+    .eq('kind', 'weekly_report')
+    .eq('status', 'failed')
+    .lt('attempts', MAX_DELIVERY_ATTEMPTS)
+
+  if (failedError) {
+    throw new Error(`Failed to fetch failed deliveries: ${failedError.message}`)
+  }
+
+  for (const reportId of new Set((failed || []).map(delivery => delivery.subject as string))) {
+    try {
+      results.push(...await sendWeeklyReport(supabase, reportId, false))
+    } catch (retryError) {
+      console.error(`Retrying weekly report ${reportId} failed:`, retryError)
+    }
+  }
+
+  return results
+}
+
+// ---------------------------------------------------------------------------
+// Notifications
+// ---------------------------------------------------------------------------
+
+async function sendDailyDigest(
+  supabase: ReturnType<typeof createClient>,
+  team: Team,
+  date: string,
+  force: boolean
+): Promise<DeliveryResult[]> {
+  return await dispatch(supabase, team.id, 'daily_digest', date, force, () => buildDailyDigest(supabase, team, date))
+}
+
+async function sendWeeklyReport(
+  supabase: ReturnType<typeof createClient>,
+  reportId: string,
+  force: boolean
+): Promise<DeliveryResult[]> {
+  const { data: report, error } = await supabase
+    .from('weekly_reports')
+    .select('id, team_id, status, week_start, week_end, total_updates, unique_members, generated_at, report_data, teams!inner(id, name, timezone, standup_time)')
+    .eq('id', reportId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch weekly report: ${error.message}`)
+  }
+
+  if (!report || report.status !== 'generated') return []
+
+  const notification: WeeklyReportNotification = {
+    kind: 'weekly_report',
+    team: report.teams as unknown as Team,
+    report: report as unknown as WeeklyReport,
+    url: APP_URL ? `${APP_URL}/weekly-reports` : null
+  }
+
+  return await dispatch(supabase, report.team_id as string, 'weekly_report', report.id as string, force, () => Promise.resolve(notification))
+}
+
+// Hand a notification to every channel that still needs it and record how each delivery went.
+// `subject` identifies the notification (the digest's date, the report's id), so a notification
+// already sent to a channel is not sent again; it is only built if some channel needs it.
+async function dispatch(
+  supabase: ReturnType<typeof createClient>,
+  teamId: string,
+  kind: NotificationKind,
+  subject: string,
+  force: boolean,
+  build: () => Promise<TeamNotification>
+): Promise<DeliveryResult[]> {
+  const { data: deliveries, error } = await supabase
+    .from('notification_deliveries')
+    .select('channel, status, attempts')
+    .eq('team_id', teamId)
+    .eq('kind', kind)
+    .eq('subject', subject)
+
+  if (error) {
+    throw new Error(`Failed to fetch notification deliveries: ${error.message}`)
+  }
+
+  const pending: { channel: NotificationChannel; destination: string; attempts: number }[] = []
+  for (const channel of CHANNELS) {
+    const previous = ((deliveries || []) as Delivery[]).find(delivery => delivery.channel === channel.name)
+    if (!force && previous && (previous.status === 'sent' || previous.attempts >= MAX_DELIVERY_ATTEMPTS)) continue
+
+    const destination = await channel.getDestination(supabase, teamId, kind)
+    if (destination) {
+      pending.push({ channel, destination, attempts: previous?.attempts ?? 0 })
+    }
+  }
+
+  if (pending.length === 0) return []
+
+  const notification = await build()
+  const results: DeliveryResult[] = []
+
+  for (const { channel, destination, attempts } of pending) {
+    let sendError: string | null = null
+    try {
+      await channel.send(destination, notification, supabase)
+    } catch (channelError) {
+      // One channel's failure should not stop the others
+      console.error(`Sending ${kind} ${subject} to ${channel.name} failed:`, channelError)
+      sendError = channelError.message || 'Unknown error occurred'
+    }
+
+    const status = sendError ? 'failed' : 'sent'
+    const { error: recordError } = await supabase
+      .from('notification_deliveries')
+      .upsert({
+        team_id: teamId,
+        channel: channel.name,
+        kind,
+        subject,
+        status,
+        error: sendError,
+        attempts: attempts + 1,
+        attempted_at: new Date().toISOString()
+      }, { onConflict: 'team_id,channel,kind,subject' })
+
+    if (recordError) {
+      console.error(`Failed to record ${channel.name} delivery:`, recordError)
+    }
+
+    results.push({ teamId, kind, subject, channel: channel.name, status, ...(sendError ? { error: sendError } : {}) })
+  }
+
+  return results
+}
+
+// Push a new comment to the update's author and, for a reply, whoever started the thread; nobody
+// is told about their own comment. Members without push turned on see it next time they open the app.
+async function sendCommentNotification(supabase: ReturnType<typeof createClient>, commentId: string): Promise<number> {
+  const { data: comment, error } = await supabase
+    .from('update_comments')
+    .select(`
+      id,
+      body,
+      parent_id,
+      team_member_id,
+      team_members!inner(name),
+      standup_updates!inner(team_member_id, standup_entries!inner(date)),
+      parent:update_comments!parent_id(team_member_id)
+    `)
+    .eq('id', commentId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch comment: ${error.message}`)
+  }
+
+  if (!comment) return 0
+
+  const author = comment.team_members as unknown as { name: string }
+  const update = comment.standup_updates as unknown as { team_member_id: string; standup_entries: { date: string } }
+  const parent = comment.parent as unknown as { team_member_id: string } | null
+
+  const recipients = [update.team_member_id, parent?.team_member_id]
+    .filter((memberId): memberId is string => !!memberId && memberId !== comment.team_member_id)
+
+  if (recipients.length === 0) return 0
+
+  try {
+    return await pushToMembers(supabase, [...new Set(recipients)], {
+      title: parent ? `${author.name} replied in a thread` : `${author.name} commented on your update`,
+      body: truncate(comment.body as string, 140),
+      url: APP_URL || null,
+      tag: `comment-${update.standup_entries.date}-${comment.parent_id ?? comment.id}`
+    })
+  } catch (pushError) {
+    // Usually nobody being told has push turned on
+    console.log(`Comment ${commentId} was not pushed:`, pushError.message)
+    return 0
+  }
+}
+
+// Push a new mention to the member who was mentioned. A mention in blockers means the author is
+// waiting on them, so it says so; other mentions just point them at the update.
+async function sendMentionNotification(supabase: ReturnType<typeof createClient>, mentionId: string): Promise<number> {
+  const { data: mention, error } = await supabase
+    .from('update_mentions')
+    .select(`
+      id,
+      field,
+      team_member_id,
+      standup_updates!inner(yesterday, today, team_members!inner(name), standup_entries!inner(date))
+    `)
+    .eq('id', mentionId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch mention: ${error.message}`)
+  }
+
+  if (!mention) return 0
+
+  const update = mention.standup_updates as unknown as {
+    yesterday: string | null
+    today: string | null
+    team_members: { name: string }
+    standup_entries: { date: string }
+  }
+  const author = update.team_members.name
+  const field = mention.field as 'yesterday' | 'today' | 'blockers'
+
+  try {
+    return await pushToMembers(supabase, [mention.team_member_id as string], {
+      title: field === 'blockers' ? `${author} is waiting on you` : `${author} mentioned you`,
+      body: field === 'blockers'
+        ? `You're in ${author}'s blockers for ${update.standup_entries.date}`
+        : truncate(htmlToText(update[field] ?? ''), 140),
+      url: APP_URL || null,
+      tag: `mention-${update.standup_entries.date}-${mention.id}`
+    })
+  } catch (pushError) {
+    // Usually the mentioned member has not turned push on
+    console.log(`Mention ${mentionId} was not pushed:`, pushError.message)
+    return 0
+  }
+}
+
+// Push a new escalation to the team's leads, who acknowledge it from the dashboard. A lead whose own
+// blocker was escalated is not told about it.
+async function sendEscalationNotification(supabase: ReturnType<typeof createClient>, escalationId: string): Promise<number> {
+  const { data: escalation, error } = await supabase
+    .from('blocker_escalations')
+    .select(`
+      id,
+      team_id,
+      business_days_open,
+      blockers!inner(description, team_member_id, team_members!inner(name))
+    `)
+    .eq('id', escalationId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch escalation: ${error.message}`)
+  }
+
+  if (!escalation) return 0
+
+  const blocker = escalation.blockers as unknown as {
+    description: string
+    team_member_id: string
+    team_members: { name: string }
+  }
+
+  const { data: leads, error: leadsError } = await supabase
+    .from('team_members')
+    .select('id')
+    .eq('team_id', escalation.team_id)
+    .is('archived_at', null)
+    .in('access_role', ROSTER_MANAGER_ROLES)
+
+  if (leadsError) {
+    throw new Error(`Failed to fetch team leads: ${leadsError.message}`)
+  }
+
+  const recipients = (leads || [])
+    .map(lead => lead.id as string)
+    .filter(memberId => memberId !== blocker.team_member_id)
+
+  if (recipients.length === 0) return 0
+
+  try {
+    return await pushToMembers(supabase, recipients, {
+      title: `${blocker.team_members.name}'s blocker was escalated`,
+      body: truncate(
+        `Open ${escalation.business_days_open} business days: ${htmlToText(blocker.description)}`,
+        140
+      ),
+      url: APP_URL || null,
+      tag: `escalation-${escalation.id}`
+    })
+  } catch (pushError) {
+    // Usually none of the leads have push turned on
+    console.log(`Escalation ${escalationId} was not pushed:`, pushError.message)
+    return 0
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Data access
+// ---------------------------------------------------------------------------
+
+async function buildDailyDigest(
+  supabase: ReturnType<typeof createClient>,
+  team: Team,
+  date: string
+): Promise<DailyDigest> {
+  const [members, updates, away] = await Promise.all([
+    getPostingMembers(supabase, team.id),
+    getUpdates(supabase, team.id, date),
+    getAwayMemberIds(supabase, team.id, date)
+  ])
+  const updatesByMember = new Map(updates.map(update => [update.team_member_id, update]))
+
+  return {
+    kind: 'daily_digest',
+    team,
+    date,
+    posted: members
+      .filter(member => updatesByMember.has(member.id))
+      .map(member => ({ member, update: updatesByMember.get(member.id)! })),
+    missing: members.filter(member => !updatesByMember.has(member.id) && !away.has(member.id)),
+    away: members.filter(member => away.has(member.id))
+  }
+}
+
+async function getTeam(supabase: ReturnType<typeof createClient>, teamId: string): Promise<Team> {
+  const { data: team, error } = await supabase
+    .from('teams')
+    .select('id, name, timezone, standup_time')
+    .eq('id', teamId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch team: ${error.message}`)
+  }
+
+  if (!team) {
+    throw new Error(`Team ${teamId} not found`)
+  }
+
+  return team as Team
+}
+
+async function getLatestWeeklyReportId(supabase: ReturnType<typeof createClient>, teamId: string): Promise<string | null> {
+  const { data: reports, error } = await supabase
+    .from('weekly_reports')
+    .select('id')
+    .eq('team_id', teamId)
+    .eq('status', 'generated')
+    .order('generated_at', { ascending: false })
+    .limit(1)
+
+  if (error) {
+    throw new Error(`Failed to fetch weekly reports: ${error.message}`)
+  }
+
+  return reports && reports.length > 0 ? reports[0].id as string : null
+}
@@ -0,0 +1,254 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { DEFAULT_TIMEZONE, getDate, getLocalTime, getBusinessDays } from '../_shared/calendar.ts'
+import { Team, getPostingMembers, getUpdates, getAwayMemberIds, getHolidayDates } from '../_shared/standup.ts'
+import { ReminderChannel, StandupReminder } from '../_shared/reminders.ts'
+import { emailReminderChannel } from '../_shared/email.ts'
+import { slackReminderChannel } from '../_shared/slack.ts'
+import { pushReminderChannel } from '../_shared/push.ts'
+
+// Reminds members who have not posted today's update, through the channel each of them chose.
+// Called by pg_cron every few minutes; a team's reminders go out once its local time passes its
+// reminder time on a business day. Members who are away today are skipped.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Every way a member can be reminded; add a ReminderChannel here to support another one
+const CHANNELS: ReminderChannel[] = [emailReminderChannel, slackReminderChannel, pushReminderChannel]
+
+const APP_URL = (Deno.env.get('APP_URL') ?? '').replace(/\/$/, '')
+
+// A failed reminder is retried on later runs the same day until it has been attempted this many times
+const MAX_REMINDER_ATTEMPTS = 3
+
+// 'tick' sends any reminders that are due; 'remind' sends a team's reminders now, whatever the time
+type ReminderEvent = 'tick' | 'remind'
+
+interface ReminderTeam extends Team {
+  reminder_time: string | null
+}
+
+interface Reminded {
+  team_member_id: string
+  status: 'sent' | 'failed'
+  attempts: number
+}
+
+interface ReminderResult {
+  teamId: string
+  memberId: string
+  channel: string
+  status: 'sent' | 'failed'
+  error?: string
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Missing Supabase environment variables')
+    }
+
+    // Scheduled runs and manual sends authenticate with the service role key
+    if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401)
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // e.g. { "event": "remind", "teamId": "..." } reminds everyone who has not posted today;
+    // add "force": true to remind members who were already reminded
+    const body = await req.json().catch(() => ({}))
+    const event: ReminderEvent = body.event === 'remind' ? 'remind' : 'tick'
+    const force = body.force === true
+
+    let results: ReminderResult[]
+    if (event === 'remind') {
+      if (!body.teamId) {
+        return jsonResponse({ success: false, error: 'teamId is required' }, 400)
+      }
+      const team = await getTeam(supabase, body.teamId)
+      results = await remindTeam(supabase, team, getDate(team.timezone || DEFAULT_TIMEZONE), force)
+    } else {
+      results = await runTick(supabase)
+    }
+
+    return jsonResponse({
+      success: true,
+      message: `Processed ${event}: ${results.filter(result => result.status === 'sent').length} sent, ${results.filter(result => result.status === 'failed').length} failed`,
+      results
+    })
+
+  } catch (error) {
+    console.error('Reminders function failed:', error)
+    return jsonResponse({ success: false, error: error.message || 'Unknown error occurred' }, 500)
+  }
+})
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status
+    }
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Scheduled run
+// ---------------------------------------------------------------------------
+
+// Remind each team's members once its local time passes its reminder time on a business day
+async function runTick(supabase: ReturnType<typeof createClient>): Promise<ReminderResult[]> {
+  const { data: teams, error } = await supabase
+    .from('teams')
+    .select('id, name, timezone, standup_time, reminder_time')
+    .not('reminder_time', 'is', null)
+
+  if (error) {
+    throw new Error(`Failed to fetch teams: ${error.message}`)
+  }
+
+  const results: ReminderResult[] = []
+
+  for (const team of (teams || []) as ReminderTeam[]) {
+    try {
+      const timezone = team.timezone || DEFAULT_TIMEZONE
+      if (!team.reminder_time || getLocalTime(timezone) < team.reminder_time.slice(0, 5)) continue
+
+      const today = getDate(timezone)
+      const holidays = await getHolidayDates(supabase, team.id, today, today)
+      if (getBusinessDays(today, today, holidays).length === 0) continue
+
+      results.push(...await remindTeam(supabase, team, today, false))
+    } catch (teamError) {
+      // One team's failure should not stop the other teams' reminders
+      console.error(`Reminders failed for ${team.name}:`, teamError)
+    }
+  }
+
+  return results
+}
+
+// ---------------------------------------------------------------------------
+// Reminders
+// ---------------------------------------------------------------------------
+
+// Remind every member expected on `date` who has not posted, is not away and has not been reminded
+// yet, and record how each reminder went. Mirrors StandupEntry.getMembersWithoutUpdates in the app.
+async function remindTeam(
+  supabase: ReturnType<typeof createClient>,
+  team: Team,
+  date: string,
+  force: boolean
+): Promise<ReminderResult[]> {
+  const [members, updates, away, reminded] = await Promise.all([
+    getPostingMembers(supabase, team.id),
+    getUpdates(supabase, team.id, date),
+    getAwayMemberIds(supabase, team.id, date),
+    getReminded(supabase, team.id, date)
+  ])
+  const postedIds = new Set(updates.map(update => update.team_member_id))
+  const remindedById = new Map(reminded.map(reminder => [reminder.team_member_id, reminder]))
+
+  const results: ReminderResult[] = []
+
+  for (const member of members) {
+    if (postedIds.has(member.id) || away.has(member.id)) continue
+
+    const previous = remindedById.get(member.id)
+    if (!force && previous && (previous.status === 'sent' || previous.attempts >= MAX_REMINDER_ATTEMPTS)) continue
+
+    const channel = CHANNELS.find(candidate => candidate.name === member.reminder_channel)
+    if (!channel) continue
+
+    results.push(await remindMember(supabase, channel, { team, member, date, url: APP_URL || null }, previous?.attempts ?? 0))
+  }
+
+  return results
+}
+
+async function remindMember(
+  supabase: ReturnType<typeof createClient>,
+  channel: ReminderChannel,
+  reminder: StandupReminder,
+  attempts: number
+): Promise<ReminderResult> {
+  const { team, member, date } = reminder
+
+  let sendError: string | null = null
+  try {
+    await channel.send(supabase, reminder)
+  } catch (channelError) {
+    // One member's failure should not stop the others' reminders
+    console.error(`Reminding ${member.name} by ${channel.name} failed:`, channelError)
+    sendError = channelError.message || 'Unknown error occurred'
+  }
+
+  const status = sendError ? 'failed' : 'sent'
+  const { error: recordError } = await supabase
+    .from('standup_reminders')
+    .upsert({
+      team_id: team.id,
+      team_member_id: member.id,
+      date,
+      channel: channel.name,
+      status,
+      error: sendError,
+      attempts: attempts + 1,
+      attempted_at: new Date().toISOString()
+    }, { onConflict: 'team_member_id,date' })
+
+  if (recordError) {
+    console.error(`Failed to record reminder for ${member.name}:`, recordError)
+  }
+
+  return { teamId: team.id, memberId: member.id, channel: channel.name, status, ...(sendError ? { error: sendError } : {}) }
+}
+
+// ---------------------------------------------------------------------------
+// Data access
+// ---------------------------------------------------------------------------
+
+async function getReminded(supabase: ReturnType<typeof createClient>, teamId: string, date: string): Promise<Reminded[]> {
+  const { data: reminders, error } = await supabase
+    .from('standup_reminders')
+    .select('team_member_id, status, attempts')
+    .eq('team_id', teamId)
+    .eq('date', date)
+
+  if (error) {
+    throw new Error(`Failed to fetch reminders: ${error.message}`)
+  }
+
+  return (reminders || []) as Reminded[]
+}
+
+async function getTeam(supabase: ReturnType<typeof createClient>, teamId: string): Promise<Team> {
+  const { data: team, error } = await supabase
+    .from('teams')
+    .select('id, name, timezone, standup_time')
+    .eq('id', teamId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch team: ${error.message}`)
+  }
+
+  if (!team) {
+    throw new Error(`Team ${teamId} not found`)
+  }
+
+  return team as Team
+}
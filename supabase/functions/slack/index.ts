@@ -0,0 +1,542 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { DEFAULT_TIMEZONE, DEFAULT_STANDUP_TIME, getDate, getLocalTime, getBusinessDays } from '../_shared/calendar.ts'
+import { htmlToText, truncate } from '../_shared/text.ts'
+import { OPEN_MODAL_ACTION_ID, callSlack, escapeMrkdwn, sendStandupDm, resolveSlackUserId, SlackBlock } from '../_shared/slack.ts'
+import {
+  Team,
+  RosterMember,
+  SEVERITY_LABELS,
+  saveUpdate,
+  parseBlockerLines,
+  getPostingMembers,
+  getUpdates,
+  getOpenBlockers,
+  getHolidayDates,
+  getAwayMemberIds
+} from '../_shared/standup.ts'
+
+// Slack's side of standups: DMs each member at standup time and takes their update through a
+// modal or `/standup`. The day's digest and weekly reports reach the channel through the
+// notifications function.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const SLACK_SIGNING_SECRET = Deno.env.get('SLACK_SIGNING_SECRET') ?? ''
+
+// Slack rejects requests signed more than five minutes ago
+const MAX_SIGNATURE_AGE_SECONDS = 5 * 60
+
+const STANDUP_MODAL_ID = 'standup_update'
+
+type SlackAction = 'tick' | 'prompt'
+
+interface SlackIntegration {
+  team_id: string
+  slack_team_id: string
+  channel_id: string
+  prompts_enabled: boolean
+  last_prompted_on: string | null
+  teams: Team
+}
+
+interface TeamRunResult {
+  teamId: string
+  teamName: string
+  prompted?: number
+  skipped?: string
+  failed?: boolean
+  message?: string
+}
+
+// The subset of Slack's interaction payloads this function handles
+interface SlackInteraction {
+  type: 'block_actions' | 'view_submission' | string
+  trigger_id?: string
+  team?: { id: string }
+  user: { id: string }
+  actions?: { action_id: string; value?: string }[]
+  view?: {
+    callback_id: string
+    private_metadata: string
+    state: {
+      values: Record<string, Record<string, {
+        value?: string | null
+        selected_options?: { value: string }[]
+      }>>
+    }
+  }
+}
+
+interface ModalMetadata {
+  teamId: string
+  memberId: string
+  date: string
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Missing Supabase environment variables')
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    const rawBody = await req.text()
+
+    // Requests from Slack (slash commands and interactivity) are signed with the app's signing secret
+    if (req.headers.get('x-slack-signature')) {
+      if (!(await isValidSlackSignature(req, rawBody))) {
+        return jsonResponse({ error: 'Invalid Slack signature' }, 401)
+      }
+
+      const params = new URLSearchParams(rawBody)
+      const payload = params.get('payload')
+
+      if (payload) {
+        return await handleInteraction(supabase, JSON.parse(payload) as SlackInteraction)
+      }
+
+      if (params.get('command')) {
+        return await handleSlashCommand(supabase, params)
+      }
+
+      return jsonResponse({ error: 'Unsupported Slack request' }, 400)
+    }
+
+    // Scheduled runs (pg_cron through pg_net) and manual triggers authenticate with the service role key
+    if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401)
+    }
+
+    // e.g. { "action": "prompt", "teamId": "..." } sends today's prompts now, whatever the time
+    const body = rawBody ? JSON.parse(rawBody) : {}
+    const action: SlackAction = body.action === 'prompt' ? 'prompt' : 'tick'
+
+    let integrationsQuery = supabase
+      .from('slack_integrations')
+      .select('*, teams!inner(id, name, timezone, standup_time)')
+    if (body.teamId) {
+      integrationsQuery = integrationsQuery.eq('team_id', body.teamId)
+    }
+
+    const { data: integrations, error: integrationsError } = await integrationsQuery
+
+    if (integrationsError) {
+      throw new Error(`Failed to fetch Slack integrations: ${integrationsError.message}`)
+    }
+
+    const results: TeamRunResult[] = []
+    for (const integration of (integrations || []) as SlackIntegration[]) {
+      try {
+        results.push(await runForTeam(supabase, integration, action))
+      } catch (teamError) {
+        // One team's failure should not stop the other teams' prompts
+        console.error(`Slack run failed for ${integration.teams.name}:`, teamError)
+        results.push({
+          teamId: integration.team_id,
+          teamName: integration.teams.name,
+          message: teamError.message || 'Unknown error occurred',
+          failed: true
+        })
+      }
+    }
+
+    return jsonResponse({
+      success: true,
+      message: `Processed Slack ${action} for ${results.length} team(s)`,
+      results
+    })
+
+  } catch (error) {
+    console.error('Slack function failed:', error)
+    return jsonResponse({ success: false, error: error.message || 'Unknown error occurred' }, 500)
+  }
+})
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status
+    }
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Scheduled prompts
+// ---------------------------------------------------------------------------
+
+// On a tick, prompts go out at standup time on business days; a prompt action sends them immediately
+async function runForTeam(
+  supabase: ReturnType<typeof createClient>,
+  integration: SlackIntegration,
+  action: SlackAction
+): Promise<TeamRunResult> {
+  const team = integration.teams
+  const timezone = team.timezone || DEFAULT_TIMEZONE
+  const standupTime = team.standup_time ? team.standup_time.slice(0, 5) : DEFAULT_STANDUP_TIME
+  const today = getDate(timezone)
+  const localTime = getLocalTime(timezone)
+  const result: TeamRunResult = { teamId: team.id, teamName: team.name }
+
+  const isTick = action === 'tick'
+  const holidays = await getHolidayDates(supabase, team.id, today, today)
+  const isBusinessDay = getBusinessDays(today, today, holidays).length === 1
+
+  if (isTick && !isBusinessDay) {
+    result.skipped = 'Not a business day'
+  }
+
+  if (action === 'prompt' || (isTick && isBusinessDay && integration.prompts_enabled &&
+    integration.last_prompted_on !== today && localTime >= standupTime)) {
+    result.prompted = await sendPrompts(supabase, integration, today)
+    await markIntegration(supabase, team.id, { last_prompted_on: today })
+  }
+
+  return result
+}
+
+async function markIntegration(
+  supabase: ReturnType<typeof createClient>,
+  teamId: string,
+  fields: Partial<Pick<SlackIntegration, 'last_prompted_on'>>
+): Promise<void> {
+  const { error } = await supabase
+    .from('slack_integrations')
+    .update(fields)
+    .eq('team_id', teamId)
+
+  if (error) {
+    throw new Error(`Failed to update Slack integration: ${error.message}`)
+  }
+}
+
+// DM every member expected today who has not posted yet, with a button that opens the update modal
+async function sendPrompts(
+  supabase: ReturnType<typeof createClient>,
+  integration: SlackIntegration,
+  date: string
+): Promise<number> {
+  const members = await getPostingMembers(supabase, integration.team_id)
+  const [posted, away] = await Promise.all([
+    getUpdates(supabase, integration.team_id, date),
+    getAwayMemberIds(supabase, integration.team_id, date)
+  ])
+  const postedIds = new Set(posted.map(update => update.team_member_id))
+
+  let prompted = 0
+  for (const member of members) {
+    if (postedIds.has(member.id) || away.has(member.id)) continue
+
+    const slackUserId = await resolveSlackUserId(supabase, member)
+    if (!slackUserId) continue
+
+    try {
+      await sendStandupDm(
+        slackUserId,
+        integration.team_id,
+        `Hi ${escapeMrkdwn(member.name)}, it's standup time for *${escapeMrkdwn(integration.teams.name)}*. What did you do yesterday, what's next, and is anything in your way?`,
+        `Time for standup with ${integration.teams.name}`
+      )
+      prompted++
+    } catch (promptError) {
+      // A member who can't be messaged should not stop the others' prompts
+      console.warn(`Could not prompt ${member.name} in Slack:`, promptError)
+    }
+  }
+
+  return prompted
+}
+
+// ---------------------------------------------------------------------------
+// Slash command and interactivity
+// ---------------------------------------------------------------------------
+
+// `/standup` opens the update modal; members of several connected teams name the team, e.g. `/standup Platform`
+async function handleSlashCommand(
+  supabase: ReturnType<typeof createClient>,
+  params: URLSearchParams
+): Promise<Response> {
+  const slackUserId = params.get('user_id') ?? ''
+  const slackTeamId = params.get('team_id') ?? ''
+  const teamName = (params.get('text') ?? '').trim().toLowerCase()
+
+  const candidates = await findMembersForSlackUser(supabase, slackTeamId, slackUserId)
+  const matches = teamName
+    ? candidates.filter(({ team }) => team.name.toLowerCase() === teamName)
+    : candidates
+
+  if (matches.length === 0) {
+    return ephemeral(candidates.length === 0
+      ? 'Your Slack account is not linked to anyone on a team roster. Ask a team lead to add your email to the roster.'
+      : `No team called "${params.get('text')?.trim()}". Your teams: ${candidates.map(({ team }) => team.name).join(', ')}`)
+  }
+
+  if (matches.length > 1) {
+    return ephemeral(`You're on several teams. Run \`${params.get('command')} <team name>\` with one of: ${matches.map(({ team }) => team.name).join(', ')}`)
+  }
+
+  await openStandupModal(supabase, params.get('trigger_id') ?? '', matches[0].team, matches[0].member)
+  return new Response('', { status: 200 })
+}
+
+async function handleInteraction(
+  supabase: ReturnType<typeof createClient>,
+  interaction: SlackInteraction
+): Promise<Response> {
+  if (interaction.type === 'block_actions') {
+    const action = interaction.actions?.find(candidate => candidate.action_id === OPEN_MODAL_ACTION_ID)
+    if (!action?.value) return new Response('', { status: 200 })
+
+    const candidates = await findMembersForSlackUser(supabase, interaction.team?.id ?? '', interaction.user.id)
+    const match = candidates.find(({ team }) => team.id === action.value)
+
+    if (match) {
+      await openStandupModal(supabase, interaction.trigger_id ?? '', match.team, match.member)
+    }
+
+    return new Response('', { status: 200 })
+  }
+
+  if (interaction.type === 'view_submission' && interaction.view?.callback_id === STANDUP_MODAL_ID) {
+    return await handleModalSubmission(supabase, interaction)
+  }
+
+  return new Response('', { status: 200 })
+}
+
+async function openStandupModal(
+  supabase: ReturnType<typeof createClient>,
+  triggerId: string,
+  team: Team,
+  member: RosterMember
+): Promise<void> {
+  const date = getDate(team.timezone || DEFAULT_TIMEZONE)
+  const [updates, openBlockers] = await Promise.all([
+    getUpdates(supabase, team.id, date),
+    getOpenBlockers(supabase, team.id, member.id, date)
+  ])
+  const existing = updates.find(update => update.team_member_id === member.id)
+
+  const blocks: SlackBlock[] = [
+    {
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: `*${escapeMrkdwn(team.name)}* · ${date}${existing ? ' · editing your update' : ''}` }]
+    },
+    textInput('yesterday', 'What did you do yesterday?', existing?.yesterday),
+    textInput('today', 'What are you working on today?', existing?.today)
+  ]
+
+  if (openBlockers.length > 0) {
+    // Slack allows 10 options per checkbox group
+    blocks.push({
+      type: 'input',
+      block_id: 'resolved',
+      optional: true,
+      label: { type: 'plain_text', text: 'Open blockers resolved today' },
+      element: {
+        type: 'checkboxes',
+        action_id: 'value',
+        options: openBlockers.slice(0, 10).map(blocker => ({
+          text: { type: 'mrkdwn', text: truncate(`*${SEVERITY_LABELS[blocker.severity]}*: ${escapeMrkdwn(blocker.description)}`, 150) },
+          description: { type: 'plain_text', text: `Open since ${blocker.opened_on}` },
+          value: blocker.id
+        }))
+      }
+    })
+  }
+
+  blocks.push({
+    ...textInput('blockers', 'New blockers'),
+    hint: { type: 'plain_text', text: 'One per line. Blockers you already raised carry over until you resolve them.' }
+  })
+
+  const metadata: ModalMetadata = { teamId: team.id, memberId: member.id, date }
+
+  await callSlack('views.open', {
+    trigger_id: triggerId,
+    view: {
+      type: 'modal',
+      callback_id: STANDUP_MODAL_ID,
+      private_metadata: JSON.stringify(metadata),
+      title: { type: 'plain_text', text: 'Standup update' },
+      submit: { type: 'plain_text', text: existing ? 'Save' : 'Post' },
+      close: { type: 'plain_text', text: 'Cancel' },
+      blocks
+    }
+  })
+}
+
+function textInput(blockId: string, label: string, initialHtml?: string | null): SlackBlock {
+  const initialValue = initialHtml ? htmlToText(initialHtml) : ''
+  return {
+    type: 'input',
+    block_id: blockId,
+    optional: true,
+    label: { type: 'plain_text', text: label },
+    element: {
+      type: 'plain_text_input',
+      action_id: 'value',
+      multiline: true,
+      ...(initialValue ? { initial_value: initialValue } : {})
+    }
+  }
+}
+
+// Save the modal through the same steps as saving an update in the app; validation
+// errors are shown next to the field in the modal
+async function handleModalSubmission(
+  supabase: ReturnType<typeof createClient>,
+  interaction: SlackInteraction
+): Promise<Response> {
+  const view = interaction.view!
+  const metadata = JSON.parse(view.private_metadata) as ModalMetadata
+  const values = view.state.values
+  const text = (blockId: string) => (values[blockId]?.value?.value ?? '').trim()
+
+  const candidates = await findMembersForSlackUser(supabase, interaction.team?.id ?? '', interaction.user.id)
+  const match = candidates.find(({ team, member }) => team.id === metadata.teamId && member.id === metadata.memberId)
+
+  if (!match) {
+    return jsonResponse({ response_action: 'errors', errors: { today: 'You can only post your own update' } })
+  }
+
+  try {
+    await saveUpdate(supabase, match.team, match.member, metadata.date, {
+      yesterday: text('yesterday'),
+      today: text('today'),
+      resolvedBlockerIds: (values.resolved?.value?.selected_options ?? []).map(option => option.value),
+      newBlockers: parseBlockerLines(text('blockers'))
+    })
+  } catch (saveError) {
+    console.error(`Failed to save Slack update for ${match.member.name}:`, saveError)
+    return jsonResponse({ response_action: 'errors', errors: { today: saveError.message || 'Failed to save your update' } })
+  }
+
+  return jsonResponse({ response_action: 'clear' })
+}
+
+function ephemeral(text: string): Response {
+  return jsonResponse({ response_type: 'ephemeral', text })
+}
+
+// ---------------------------------------------------------------------------
+// Slack users
+// ---------------------------------------------------------------------------
+
+// Every roster member the Slack user is on a team connected to this Slack workspace
+async function findMembersForSlackUser(
+  supabase: ReturnType<typeof createClient>,
+  slackTeamId: string,
+  slackUserId: string
+): Promise<{ team: Team; member: RosterMember }[]> {
+  const { data: integrations, error } = await supabase
+    .from('slack_integrations')
+    .select('team_id, teams!inner(id, name, timezone, standup_time)')
+    .eq('slack_team_id', slackTeamId)
+
+  if (error) {
+    throw new Error(`Failed to fetch Slack integrations: ${error.message}`)
+  }
+
+  const teams = ((integrations || []) as unknown as { teams: Team }[]).map(integration => integration.teams)
+  if (teams.length === 0) return []
+
+  const teamIds = teams.map(team => team.id)
+  const memberColumns = 'id, team_id, name, role, email, slack_user_id, reminder_channel, access_role, archived_at'
+
+  const { data: linked, error: linkedError } = await supabase
+    .from('team_members')
+    .select(memberColumns)
+    .in('team_id', teamIds)
+    .eq('slack_user_id', slackUserId)
+    .is('archived_at', null)
+
+  if (linkedError) {
+    throw new Error(`Failed to fetch team members: ${linkedError.message}`)
+  }
+
+  let members = (linked || []) as RosterMember[]
+
+  // First contact from this Slack user: match the roster by email and remember the Slack id
+  if (members.length < teamIds.length) {
+    const email = await getSlackUserEmail(slackUserId)
+    if (email) {
+      const linkedTeamIds = new Set(members.map(member => member.team_id))
+      const { data: byEmail, error: emailError } = await supabase
+        .from('team_members')
+        .select(memberColumns)
+        .in('team_id', teamIds.filter(teamId => !linkedTeamIds.has(teamId)))
+        .eq('email', email.trim().toLowerCase())
+        .is('archived_at', null)
+
+      if (emailError) {
+        throw new Error(`Failed to fetch team members: ${emailError.message}`)
+      }
+
+      for (const member of (byEmail || []) as RosterMember[]) {
+        await supabase.from('team_members').update({ slack_user_id: slackUserId }).eq('id', member.id)
+        members = [...members, { ...member, slack_user_id: slackUserId }]
+      }
+    }
+  }
+
+  return members.flatMap(member => {
+    const team = teams.find(candidate => candidate.id === member.team_id)
+    return team ? [{ team, member }] : []
+  })
+}
+
+async function getSlackUserEmail(slackUserId: string): Promise<string | null> {
+  try {
+    const { user } = await callSlack<{ user: { profile?: { email?: string } } }>('users.info', { user: slackUserId })
+    return user.profile?.email ?? null
+  } catch (lookupError) {
+    console.warn(`Could not look up Slack user ${slackUserId}:`, lookupError)
+    return null
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Request signing
+// ---------------------------------------------------------------------------
+
+// https://api.slack.com/authentication/verifying-requests-from-slack
+async function isValidSlackSignature(req: Request, rawBody: string): Promise<boolean> {
+  const timestamp = req.headers.get('x-slack-request-timestamp') ?? ''
+  const signature = req.headers.get('x-slack-signature') ?? ''
+
+  if (!SLACK_SIGNING_SECRET || !/^\d+$/.test(timestamp)) return false
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > MAX_SIGNATURE_AGE_SECONDS) return false
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(SLACK_SIGNING_SECRET),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const digest = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`v0:${timestamp}:${rawBody}`))
+  const expected = 'v0=' + Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('')
+
+  // Compare in constant time
+  if (expected.length !== signature.length) return false
+  let difference = 0
+  for (let i = 0; i < expected.length; i++) {
+    difference |= expected.charCodeAt(i) ^ signature.charCodeAt(i)
+  }
+  return difference === 0
+}
+
@@ -0,0 +1,67 @@
+-- Turn team_members into a managed roster
+-- Members were previously hardcoded in the client and a new row was inserted
+-- for every saved update, so duplicates are merged before adding constraints
+
+-- Add archive support
+ALTER TABLE team_members ADD COLUMN IF NOT EXISTS archived_at timestamptz;
+
+-- Map every duplicate member row to the earliest row with the same name
+CREATE TEMP TABLE team_member_merge ON COMMIT DROP AS
+SELECT id AS duplicate_id, canonical_id
+FROM (
+  SELECT
+    id,
+    first_value(id) OVER (
+      PARTITION BY lower(trim(name))
+      ORDER BY created_at, id
+    ) AS canonical_id
+  FROM team_members
+) ranked
+WHERE id <> canonical_id;
+
+-- When the same person has several updates for one day, keep the most recent one
+DELETE FROM standup_updates su
+USING team_members tm
+WHERE su.team_member_id = tm.id
+  AND EXISTS (
+    SELECT 1
+    FROM standup_updates other
+    JOIN team_members other_tm ON other_tm.id = other.team_member_id
+    WHERE other.standup_entry_id = su.standup_entry_id
+      AND lower(trim(other_tm.name)) = lower(trim(tm.name))
+      AND (other.updated_at, other.id) > (su.updated_at, su.id)
+  );
+
+-- Point the remaining updates at the canonical member
+UPDATE standup_updates su
+SET team_member_id = m.canonical_id
+FROM team_member_merge m
+WHERE su.team_member_id = m.duplicate_id;
+
+DELETE FROM team_members
+WHERE id IN (SELECT duplicate_id FROM team_member_merge);
+
+UPDATE team_members SET name = trim(name), role = trim(role);
+
+-- Seed the roster with the members that used to be hardcoded
+INSERT INTO team_members (name, role)
+SELECT seed.name, seed.role
+FROM (VALUES
+  ('Ibrahim', 'Boss'),
+  ('Aurelio', 'Developer'),
+  ('Francois', 'Developer'),
+  ('Isik', 'Marketing'),
+  ('Atena', 'Developer'),
+  ('Raphael', 'Sales'),
+  ('Gyunay', 'Developer')
+) AS seed(name, role)
+WHERE NOT EXISTS (
+  SELECT 1 FROM team_members tm WHERE lower(tm.name) = lower(seed.name)
+);
+
+-- Active member names must be unique; archived members may share a name
+CREATE UNIQUE INDEX IF NOT EXISTS idx_team_members_active_name
+  ON team_members (lower(name))
+  WHERE archived_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_team_members_archived_at ON team_members(archived_at);
@@ -0,0 +1,204 @@
+-- Team-wide settings, starting with the timezone that defines "today" and "this week"
+-- The table holds a single row; the boolean primary key enforces that
+CREATE TABLE IF NOT EXISTS team_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  timezone text NOT NULL DEFAULT 'America/Vancouver',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO team_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE team_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read team settings" ON team_settings;
+DROP POLICY IF EXISTS "Anyone can insert team settings" ON team_settings;
+DROP POLICY IF EXISTS "Anyone can update team settings" ON team_settings;
+
+CREATE POLICY "Anyone can read team settings"
+  ON team_settings
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Anyone can insert team settings"
+  ON team_settings
+  FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Anyone can update team settings"
+  ON team_settings
+  FOR UPDATE
+  TO anon, authenticated
+  USING (true);
+
+DROP TRIGGER IF EXISTS update_team_settings_updated_at ON team_settings;
+CREATE TRIGGER update_team_settings_updated_at
+  BEFORE UPDATE ON team_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Reject timezones Postgres does not know, so the database and clients agree
+CREATE OR REPLACE FUNCTION validate_team_timezone()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone) THEN
+    RAISE EXCEPTION 'Unknown timezone: %', NEW.timezone;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS validate_team_settings_timezone ON team_settings;
+CREATE TRIGGER validate_team_settings_timezone
+  BEFORE INSERT OR UPDATE OF timezone ON team_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_team_timezone();
+
+-- The team's timezone, falling back to the historical default
+CREATE OR REPLACE FUNCTION get_team_timezone()
+RETURNS text AS $$
+  SELECT COALESCE((SELECT timezone FROM team_settings LIMIT 1), 'America/Vancouver');
+$$ LANGUAGE sql STABLE;
+
+-- Today's date in the team's timezone
+CREATE OR REPLACE FUNCTION get_team_today()
+RETURNS date AS $$
+  SELECT (now() AT TIME ZONE get_team_timezone())::date;
+$$ LANGUAGE sql STABLE;
+
+-- Recreate the report generator so the week follows the team's timezone
+-- instead of the database server's CURRENT_DATE
+CREATE OR REPLACE FUNCTION generate_weekly_report()
+RETURNS void AS $$
+DECLARE
+  week_start_date date;
+  week_end_date date;
+  report_id uuid;
+  total_updates_count integer := 0;
+  unique_members_count integer := 0;
+  member_names text[] := '{}';
+  basic_summary jsonb;
+BEGIN
+  -- Calculate current week dates (Monday to Sunday) in the team's timezone
+  week_start_date := date_trunc('week', get_team_today())::date;
+  week_end_date := week_start_date + 6;
+
+  -- Check if report already exists for this week
+  IF EXISTS (
+    SELECT 1 FROM weekly_reports
+    WHERE week_start = week_start_date AND week_end = week_end_date
+  ) THEN
+    RAISE NOTICE 'Weekly report already exists for week % to %', week_start_date, week_end_date;
+    RETURN;
+  END IF;
+
+  -- Create pending report entry
+  INSERT INTO weekly_reports (week_start, week_end, status, total_updates, unique_members)
+  VALUES (week_start_date, week_end_date, 'pending', 0, 0)
+  RETURNING id INTO report_id;
+
+  -- Count total updates and unique members
+  SELECT
+    COUNT(*) as total,
+    COUNT(DISTINCT tm.name) as unique_count,
+    ARRAY_AGG(DISTINCT tm.name) as names
+  INTO total_updates_count, unique_members_count, member_names
+  FROM standup_updates su
+  JOIN standup_entries se ON su.standup_entry_id = se.id
+  JOIN team_members tm ON su.team_member_id = tm.id
+  WHERE se.date >= week_start_date AND se.date <= week_end_date;
+
+  -- Generate basic summary data
+  basic_summary := jsonb_build_object(
+    'entries', (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'date', se.date,
+          'teamMembers', (
+            SELECT jsonb_agg(
+              jsonb_build_object(
+                'name', tm2.name,
+                'role', tm2.role,
+                'avatar', tm2.avatar,
+                'yesterday', su2.yesterday,
+                'today', su2.today,
+                'blockers', su2.blockers
+              )
+            )
+            FROM standup_updates su2
+            JOIN team_members tm2 ON su2.team_member_id = tm2.id
+            WHERE su2.standup_entry_id = se.id
+          )
+        )
+        ORDER BY se.date
+      )
+      FROM standup_entries se
+      WHERE se.date >= week_start_date AND se.date <= week_end_date
+    ),
+    'summary', jsonb_build_object(
+      'keyAccomplishments', '[]'::jsonb,
+      'ongoingWork', '[]'::jsonb,
+      'blockers', '[]'::jsonb,
+      'teamInsights', 'Basic summary generated automatically. AI analysis not available.',
+      'recommendations', '[]'::jsonb,
+      'memberSummaries', '{}'::jsonb
+    )
+  );
+
+  -- Update the report with generated data
+  UPDATE weekly_reports
+  SET
+    status = 'generated',
+    report_data = basic_summary,
+    total_updates = total_updates_count,
+    unique_members = unique_members_count
+  WHERE id = report_id;
+
+  RAISE NOTICE 'Weekly report generated successfully for week % to % with % updates from % unique members',
+    week_start_date, week_end_date, total_updates_count, unique_members_count;
+
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Update report status to failed
+    UPDATE weekly_reports
+    SET
+      status = 'failed',
+      error = SQLERRM
+    WHERE id = report_id;
+
+    RAISE NOTICE 'Error generating weekly report: %', SQLERRM;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Generate the report on Friday at 12:00 in the team's timezone
+-- pg_cron runs in UTC, so the job runs hourly and checks the local time itself;
+-- this also keeps working across DST changes
+CREATE OR REPLACE FUNCTION run_scheduled_weekly_report()
+RETURNS void AS $$
+DECLARE
+  local_now timestamp := now() AT TIME ZONE get_team_timezone();
+BEGIN
+  IF EXTRACT(ISODOW FROM local_now) = 5 AND EXTRACT(HOUR FROM local_now) = 12 THEN
+    PERFORM generate_weekly_report();
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'weekly-report-generation') THEN
+    PERFORM cron.unschedule('weekly-report-generation');
+  END IF;
+END $$;
+
+SELECT cron.schedule(
+  'weekly-report-generation',
+  '0 * * * *', -- Every hour; run_scheduled_weekly_report() decides when it is Friday noon locally
+  'SELECT run_scheduled_weekly_report();'
+);
+
+GRANT EXECUTE ON FUNCTION get_team_timezone() TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_team_today() TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION generate_weekly_report() TO authenticated;
@@ -0,0 +1,239 @@
+-- Multi-team support
+-- Every roster member, standup and weekly report now belongs to a team (workspace).
+-- Existing data moves into a default team, which also takes over team_settings.
+
+CREATE TABLE IF NOT EXISTS teams (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  timezone text NOT NULL DEFAULT 'America/Vancouver',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_teams_name ON teams (lower(name));
+
+-- Move the single-team settings into a default team
+INSERT INTO teams (name, timezone)
+SELECT 'Huddle', COALESCE((SELECT timezone FROM team_settings LIMIT 1), 'America/Vancouver')
+WHERE NOT EXISTS (SELECT 1 FROM teams);
+
+ALTER TABLE teams ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read teams" ON teams;
+DROP POLICY IF EXISTS "Anyone can insert teams" ON teams;
+DROP POLICY IF EXISTS "Anyone can update teams" ON teams;
+
+CREATE POLICY "Anyone can read teams"
+  ON teams
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Anyone can insert teams"
+  ON teams
+  FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Anyone can update teams"
+  ON teams
+  FOR UPDATE
+  TO anon, authenticated
+  USING (true);
+
+DROP TRIGGER IF EXISTS update_teams_updated_at ON teams;
+CREATE TRIGGER update_teams_updated_at
+  BEFORE UPDATE ON teams
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS validate_teams_timezone ON teams;
+CREATE TRIGGER validate_teams_timezone
+  BEFORE INSERT OR UPDATE OF timezone ON teams
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_team_timezone();
+
+-- Scope every row to a team, backfilling existing rows into the default team
+ALTER TABLE team_members ADD COLUMN IF NOT EXISTS team_id uuid REFERENCES teams(id) ON DELETE CASCADE;
+ALTER TABLE standup_entries ADD COLUMN IF NOT EXISTS team_id uuid REFERENCES teams(id) ON DELETE CASCADE;
+ALTER TABLE standup_updates ADD COLUMN IF NOT EXISTS team_id uuid REFERENCES teams(id) ON DELETE CASCADE;
+ALTER TABLE weekly_reports ADD COLUMN IF NOT EXISTS team_id uuid REFERENCES teams(id) ON DELETE CASCADE;
+
+UPDATE team_members SET team_id = (SELECT id FROM teams ORDER BY created_at LIMIT 1) WHERE team_id IS NULL;
+UPDATE standup_entries SET team_id = (SELECT id FROM teams ORDER BY created_at LIMIT 1) WHERE team_id IS NULL;
+UPDATE standup_updates SET team_id = (SELECT id FROM teams ORDER BY created_at LIMIT 1) WHERE team_id IS NULL;
+UPDATE weekly_reports SET team_id = (SELECT id FROM teams ORDER BY created_at LIMIT 1) WHERE team_id IS NULL;
+
+ALTER TABLE team_members ALTER COLUMN team_id SET NOT NULL;
+ALTER TABLE standup_entries ALTER COLUMN team_id SET NOT NULL;
+ALTER TABLE standup_updates ALTER COLUMN team_id SET NOT NULL;
+ALTER TABLE weekly_reports ALTER COLUMN team_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_team_members_team_id ON team_members(team_id);
+CREATE INDEX IF NOT EXISTS idx_standup_entries_team_date ON standup_entries(team_id, date);
+CREATE INDEX IF NOT EXISTS idx_standup_updates_team_id ON standup_updates(team_id);
+
+-- Uniqueness is now per team
+DROP INDEX IF EXISTS idx_team_members_active_name;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_team_members_active_name
+  ON team_members (team_id, lower(name))
+  WHERE archived_at IS NULL;
+
+DROP INDEX IF EXISTS idx_weekly_reports_unique_week;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_weekly_reports_unique_week
+  ON weekly_reports(team_id, week_start, week_end);
+
+-- Timezone helpers now take the team
+DROP FUNCTION IF EXISTS get_team_today();
+DROP FUNCTION IF EXISTS get_team_timezone();
+
+CREATE OR REPLACE FUNCTION get_team_timezone(p_team_id uuid)
+RETURNS text AS $$
+  SELECT COALESCE((SELECT timezone FROM teams WHERE id = p_team_id), 'America/Vancouver');
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION get_team_today(p_team_id uuid)
+RETURNS date AS $$
+  SELECT (now() AT TIME ZONE get_team_timezone(p_team_id))::date;
+$$ LANGUAGE sql STABLE;
+
+-- Generate the current week's report for one team
+CREATE OR REPLACE FUNCTION generate_weekly_report(p_team_id uuid)
+RETURNS void AS $$
+DECLARE
+  week_start_date date;
+  week_end_date date;
+  report_id uuid;
+  total_updates_count integer := 0;
+  unique_members_count integer := 0;
+  member_names text[] := '{}';
+  basic_summary jsonb;
+BEGIN
+  -- Calculate current week dates (Monday to Sunday) in the team's timezone
+  week_start_date := date_trunc('week', get_team_today(p_team_id))::date;
+  week_end_date := week_start_date + 6;
+
+  -- Check if report already exists for this week
+  IF EXISTS (
+    SELECT 1 FROM weekly_reports
+    WHERE team_id = p_team_id AND week_start = week_start_date AND week_end = week_end_date
+  ) THEN
+    RAISE NOTICE 'Weekly report already exists for team % week % to %', p_team_id, week_start_date, week_end_date;
+    RETURN;
+  END IF;
+
+  -- Create pending report entry
+  INSERT INTO weekly_reports (team_id, week_start, week_end, status, total_updates, unique_members)
+  VALUES (p_team_id, week_start_date, week_end_date, 'pending', 0, 0)
+  RETURNING id INTO report_id;
+
+  -- Count total updates and unique members
+  SELECT
+    COUNT(*) as total,
+    COUNT(DISTINCT tm.name) as unique_count,
+    ARRAY_AGG(DISTINCT tm.name) as names
+  INTO total_updates_count, unique_members_count, member_names
+  FROM standup_updates su
+  JOIN standup_entries se ON su.standup_entry_id = se.id
+  JOIN team_members tm ON su.team_member_id = tm.id
+  WHERE se.team_id = p_team_id
+    AND se.date >= week_start_date AND se.date <= week_end_date;
+
+  -- Generate basic summary data
+  basic_summary := jsonb_build_object(
+    'entries', (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'date', se.date,
+          'teamMembers', (
+            SELECT jsonb_agg(
+              jsonb_build_object(
+                'name', tm2.name,
+                'role', tm2.role,
+                'avatar', tm2.avatar,
+                'yesterday', su2.yesterday,
+                'today', su2.today,
+                'blockers', su2.blockers
+              )
+            )
+            FROM standup_updates su2
+            JOIN team_members tm2 ON su2.team_member_id = tm2.id
+            WHERE su2.standup_entry_id = se.id
+          )
+        )
+        ORDER BY se.date
+      )
+      FROM standup_entries se
+      WHERE se.team_id = p_team_id
+        AND se.date >= week_start_date AND se.date <= week_end_date
+    ),
+    'summary', jsonb_build_object(
+      'keyAccomplishments', '[]'::jsonb,
+      'ongoingWork', '[]'::jsonb,
+      'blockers', '[]'::jsonb,
+      'teamInsights', 'Basic summary generated automatically. AI analysis not available.',
+      'recommendations', '[]'::jsonb,
+      'memberSummaries', '{}'::jsonb
+    )
+  );
+
+  -- Update the report with generated data
+  UPDATE weekly_reports
+  SET
+    status = 'generated',
+    report_data = basic_summary,
+    total_updates = total_updates_count,
+    unique_members = unique_members_count
+  WHERE id = report_id;
+
+  RAISE NOTICE 'Weekly report generated successfully for team % week % to % with % updates from % unique members',
+    p_team_id, week_start_date, week_end_date, total_updates_count, unique_members_count;
+
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Update report status to failed
+    UPDATE weekly_reports
+    SET
+      status = 'failed',
+      error = SQLERRM
+    WHERE id = report_id;
+
+    RAISE NOTICE 'Error generating weekly report for team %: %', p_team_id, SQLERRM;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Generate the current week's report for every team
+CREATE OR REPLACE FUNCTION generate_weekly_report()
+RETURNS void AS $$
+DECLARE
+  team record;
+BEGIN
+  FOR team IN SELECT id FROM teams LOOP
+    PERFORM generate_weekly_report(team.id);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Each team gets its report on Friday at 12:00 in its own timezone
+CREATE OR REPLACE FUNCTION run_scheduled_weekly_report()
+RETURNS void AS $$
+DECLARE
+  team record;
+  local_now timestamp;
+BEGIN
+  FOR team IN SELECT id, timezone FROM teams LOOP
+    local_now := now() AT TIME ZONE team.timezone;
+    IF EXTRACT(ISODOW FROM local_now) = 5 AND EXTRACT(HOUR FROM local_now) = 12 THEN
+      PERFORM generate_weekly_report(team.id);
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION get_team_timezone(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_team_today(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION generate_weekly_report(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION generate_weekly_report() TO authenticated;
+
+-- Settings now live on each team
+DROP TABLE IF EXISTS team_settings;
@@ -0,0 +1,210 @@
+-- User authentication
+-- Roster members are linked to Supabase Auth users by email. Row level security
+-- now requires a signed-in user, and standup updates can only be written by the
+-- user linked to the team member they belong to.
+
+ALTER TABLE team_members ADD COLUMN IF NOT EXISTS email text;
+ALTER TABLE team_members ADD COLUMN IF NOT EXISTS user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_team_members_active_email
+  ON team_members (team_id, lower(email))
+  WHERE email IS NOT NULL AND archived_at IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_team_members_active_user
+  ON team_members (team_id, user_id)
+  WHERE user_id IS NOT NULL AND archived_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_team_members_user_id ON team_members(user_id);
+
+-- The link is only ever set by signing in, and a linked member's email is fixed,
+-- so nobody can point someone else's roster entry at their own account
+CREATE OR REPLACE FUNCTION protect_team_member_link()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.user_id IS NOT NULL THEN
+      RAISE EXCEPTION 'Team members are linked to a user when that user signs in';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'Team members are linked to a user when that user signs in';
+  END IF;
+
+  IF OLD.user_id IS NOT NULL AND NEW.email IS DISTINCT FROM OLD.email THEN
+    RAISE EXCEPTION 'The email of a signed-in team member cannot be changed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_team_members_link ON team_members;
+CREATE TRIGGER protect_team_members_link
+  BEFORE INSERT OR UPDATE ON team_members
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_team_member_link();
+
+-- Link the signed-in user to every unclaimed roster entry with their email
+CREATE OR REPLACE FUNCTION link_team_members_to_current_user()
+RETURNS integer AS $$
+DECLARE
+  linked_count integer := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE team_members tm
+  SET user_id = auth.uid()
+  WHERE tm.user_id IS NULL
+    AND tm.archived_at IS NULL
+    AND tm.email IS NOT NULL
+    AND lower(tm.email) = lower(auth.jwt() ->> 'email')
+    AND NOT EXISTS (
+      SELECT 1 FROM team_members other
+      WHERE other.team_id = tm.team_id
+        AND other.user_id = auth.uid()
+        AND other.archived_at IS NULL
+    );
+
+  GET DIAGNOSTICS linked_count = ROW_COUNT;
+  RETURN linked_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Whether the signed-in user is the active team member an update belongs to
+CREATE OR REPLACE FUNCTION is_own_team_member(p_team_member_id uuid, p_team_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM team_members
+    WHERE id = p_team_member_id
+      AND team_id = p_team_id
+      AND user_id = auth.uid()
+      AND archived_at IS NULL
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION link_team_members_to_current_user() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION link_team_members_to_current_user() TO authenticated;
+GRANT EXECUTE ON FUNCTION is_own_team_member(uuid, uuid) TO authenticated;
+
+-- Replace the open policies with signed-in ones
+DROP POLICY IF EXISTS "Anyone can read teams" ON teams;
+DROP POLICY IF EXISTS "Anyone can insert teams" ON teams;
+DROP POLICY IF EXISTS "Anyone can update teams" ON teams;
+
+DROP POLICY IF EXISTS "Anyone can read team members" ON team_members;
+DROP POLICY IF EXISTS "Anyone can insert team members" ON team_members;
+DROP POLICY IF EXISTS "Anyone can update team members" ON team_members;
+
+DROP POLICY IF EXISTS "Anyone can read standup entries" ON standup_entries;
+DROP POLICY IF EXISTS "Anyone can insert standup entries" ON standup_entries;
+DROP POLICY IF EXISTS "Anyone can update standup entries" ON standup_entries;
+
+DROP POLICY IF EXISTS "Anyone can read standup updates" ON standup_updates;
+DROP POLICY IF EXISTS "Anyone can insert standup updates" ON standup_updates;
+DROP POLICY IF EXISTS "Anyone can update standup updates" ON standup_updates;
+DROP POLICY IF EXISTS "Anyone can delete standup updates" ON standup_updates;
+
+DROP POLICY IF EXISTS "Allow all users to read weekly reports" ON weekly_reports;
+DROP POLICY IF EXISTS "Allow all users to insert weekly reports" ON weekly_reports;
+DROP POLICY IF EXISTS "Allow all users to update weekly reports" ON weekly_reports;
+DROP POLICY IF EXISTS "Allow all users to delete weekly reports" ON weekly_reports;
+
+CREATE POLICY "Signed-in users can read teams"
+  ON teams
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Signed-in users can insert teams"
+  ON teams
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Signed-in users can update teams"
+  ON teams
+  FOR UPDATE
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Signed-in users can read team members"
+  ON team_members
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Signed-in users can insert team members"
+  ON team_members
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Signed-in users can update team members"
+  ON team_members
+  FOR UPDATE
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Signed-in users can read standup entries"
+  ON standup_entries
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Signed-in users can insert standup entries"
+  ON standup_entries
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Signed-in users can read standup updates"
+  ON standup_updates
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Members can insert their own standup updates"
+  ON standup_updates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_own_team_member(team_member_id, team_id));
+
+CREATE POLICY "Members can update their own standup updates"
+  ON standup_updates
+  FOR UPDATE
+  TO authenticated
+  USING (is_own_team_member(team_member_id, team_id))
+  WITH CHECK (is_own_team_member(team_member_id, team_id));
+
+CREATE POLICY "Members can delete their own standup updates"
+  ON standup_updates
+  FOR DELETE
+  TO authenticated
+  USING (is_own_team_member(team_member_id, team_id));
+
+-- The scheduler and edge function use the service role, which bypasses RLS
+CREATE POLICY "Signed-in users can read weekly reports"
+  ON weekly_reports
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Signed-in users can insert weekly reports"
+  ON weekly_reports
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Signed-in users can update weekly reports"
+  ON weekly_reports
+  FOR UPDATE
+  TO authenticated
+  USING (true);
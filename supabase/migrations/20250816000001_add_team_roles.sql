@@ -0,0 +1,222 @@
+-- Role-based permissions
+-- Every roster member has an access role (admin, lead, member or viewer) that decides
+-- what they may do on their team. Signed-in users who are not on a team's roster are
+-- treated as viewers. The matrix below mirrors the TeamRole value object in the app.
+
+ALTER TABLE team_members ADD COLUMN IF NOT EXISTS access_role text NOT NULL DEFAULT 'member';
+
+ALTER TABLE team_members DROP CONSTRAINT IF EXISTS team_members_access_role_check;
+ALTER TABLE team_members ADD CONSTRAINT team_members_access_role_check
+  CHECK (access_role IN ('admin', 'lead', 'member', 'viewer'));
+
+-- The signed-in user's role on a team
+CREATE OR REPLACE FUNCTION get_team_role(p_team_id uuid)
+RETURNS text AS $$
+  SELECT COALESCE((
+    SELECT access_role FROM team_members
+    WHERE team_id = p_team_id
+      AND user_id = auth.uid()
+      AND archived_at IS NULL
+  ), 'viewer');
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Whether a role grants a permission
+CREATE OR REPLACE FUNCTION role_has_permission(p_role text, p_permission text)
+RETURNS boolean AS $$
+  SELECT CASE p_role
+    WHEN 'admin' THEN true
+    WHEN 'lead' THEN p_permission IN (
+      'generate_reports', 'manage_roster', 'manage_team_settings', 'view_blockers', 'post_updates'
+    )
+    WHEN 'member' THEN p_permission IN ('view_blockers', 'post_updates')
+    ELSE false
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Whether the signed-in user has a permission on a team
+CREATE OR REPLACE FUNCTION has_team_permission(p_team_id uuid, p_permission text)
+RETURNS boolean AS $$
+  SELECT role_has_permission(get_team_role(p_team_id), p_permission);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Whether the signed-in user is an admin of any team (for global screens such as passkeys)
+CREATE OR REPLACE FUNCTION is_any_team_admin()
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM team_members
+    WHERE user_id = auth.uid()
+      AND access_role = 'admin'
+      AND archived_at IS NULL
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_team_role(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION has_team_permission(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION is_any_team_admin() TO authenticated;
+
+-- Only members who may post can write their own updates
+CREATE OR REPLACE FUNCTION is_own_team_member(p_team_member_id uuid, p_team_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM team_members
+    WHERE id = p_team_member_id
+      AND team_id = p_team_id
+      AND user_id = auth.uid()
+      AND archived_at IS NULL
+      AND role_has_permission(access_role, 'post_updates')
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Role changes need manage_roles, and a team always keeps an active admin
+CREATE OR REPLACE FUNCTION protect_team_member_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.access_role <> 'member' AND NOT has_team_permission(NEW.team_id, 'manage_roles') THEN
+      RAISE EXCEPTION 'You don''t have permission to change team roles';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.access_role IS DISTINCT FROM OLD.access_role
+    AND NOT has_team_permission(OLD.team_id, 'manage_roles') THEN
+    RAISE EXCEPTION 'You don''t have permission to change team roles';
+  END IF;
+
+  IF OLD.access_role = 'admin' AND OLD.archived_at IS NULL
+    AND (NEW.access_role <> 'admin' OR NEW.archived_at IS NOT NULL)
+    AND NOT EXISTS (
+      SELECT 1 FROM team_members
+      WHERE team_id = OLD.team_id
+        AND id <> OLD.id
+        AND access_role = 'admin'
+        AND archived_at IS NULL
+    ) THEN
+    RAISE EXCEPTION 'A team needs at least one admin';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_team_members_role ON team_members;
+CREATE TRIGGER protect_team_members_role
+  BEFORE INSERT OR UPDATE ON team_members
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_team_member_role();
+
+-- Whoever creates a team becomes its first admin
+CREATE OR REPLACE FUNCTION add_team_creator_as_admin()
+RETURNS TRIGGER AS $$
+DECLARE
+  creator_email text := auth.jwt() ->> 'email';
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO team_members (team_id, name, role, email, user_id, access_role)
+  VALUES (NEW.id, COALESCE(split_part(creator_email, '@', 1), 'Admin'), 'Admin', lower(creator_email), auth.uid(), 'admin');
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS add_teams_creator_as_admin ON teams;
+CREATE TRIGGER add_teams_creator_as_admin
+  AFTER INSERT ON teams
+  FOR EACH ROW
+  EXECUTE FUNCTION add_team_creator_as_admin();
+
+-- Linking also bootstraps teams that predate roles: the first member to sign in
+-- to a team without an admin becomes its admin
+CREATE OR REPLACE FUNCTION link_team_members_to_current_user()
+RETURNS integer AS $$
+DECLARE
+  linked_count integer := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE team_members tm
+  SET user_id = auth.uid()
+  WHERE tm.user_id IS NULL
+    AND tm.archived_at IS NULL
+    AND tm.email IS NOT NULL
+    AND lower(tm.email) = lower(auth.jwt() ->> 'email')
+    AND NOT EXISTS (
+      SELECT 1 FROM team_members other
+      WHERE other.team_id = tm.team_id
+        AND other.user_id = auth.uid()
+        AND other.archived_at IS NULL
+    );
+
+  GET DIAGNOSTICS linked_count = ROW_COUNT;
+
+  UPDATE team_members tm
+  SET access_role = 'admin'
+  WHERE tm.user_id = auth.uid()
+    AND tm.archived_at IS NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM team_members other
+      WHERE other.team_id = tm.team_id
+        AND other.access_role = 'admin'
+        AND other.archived_at IS NULL
+    );
+
+  RETURN linked_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Writes now follow the permission matrix
+DROP POLICY IF EXISTS "Signed-in users can update teams" ON teams;
+CREATE POLICY "Team settings managers can update teams"
+  ON teams
+  FOR UPDATE
+  TO authenticated
+  USING (has_team_permission(id, 'manage_team_settings'));
+
+DROP POLICY IF EXISTS "Signed-in users can insert team members" ON team_members;
+DROP POLICY IF EXISTS "Signed-in users can update team members" ON team_members;
+
+CREATE POLICY "Roster managers can insert team members"
+  ON team_members
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_team_permission(team_id, 'manage_roster'));
+
+CREATE POLICY "Roster managers can update team members"
+  ON team_members
+  FOR UPDATE
+  TO authenticated
+  USING (has_team_permission(team_id, 'manage_roster'))
+  WITH CHECK (has_team_permission(team_id, 'manage_roster'));
+
+DROP POLICY IF EXISTS "Signed-in users can insert weekly reports" ON weekly_reports;
+DROP POLICY IF EXISTS "Signed-in users can update weekly reports" ON weekly_reports;
+
+CREATE POLICY "Report generators can insert weekly reports"
+  ON weekly_reports
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_team_permission(team_id, 'generate_reports'));
+
+CREATE POLICY "Report generators can update weekly reports"
+  ON weekly_reports
+  FOR UPDATE
+  TO authenticated
+  USING (has_team_permission(team_id, 'generate_reports'))
+  WITH CHECK (has_team_permission(team_id, 'generate_reports'));
+
+DROP POLICY IF EXISTS "Allow authenticated users to manage passkeys" ON passkeys;
+CREATE POLICY "Admins can manage passkeys"
+  ON passkeys
+  FOR ALL
+  TO authenticated
+  USING (is_any_team_admin())
+  WITH CHECK (is_any_team_admin());
@@ -0,0 +1,168 @@
+-- Harden passkeys
+-- Passkeys are stored as bcrypt hashes and can only be validated by validate_passkey(),
+-- which is reserved for server-side callers such as the generate-weekly-report function.
+-- Each passkey carries scopes, an optional expiry and an optional use limit, and every
+-- validation attempt is written to passkey_audit_log.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+ALTER TABLE passkeys
+  ADD COLUMN IF NOT EXISTS key_hash text,
+  ADD COLUMN IF NOT EXISTS scopes text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS expires_at timestamptz,
+  ADD COLUMN IF NOT EXISTS max_uses integer,
+  ADD COLUMN IF NOT EXISTS use_count integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS last_used_at timestamptz;
+
+ALTER TABLE passkeys DROP CONSTRAINT IF EXISTS passkeys_max_uses_check;
+ALTER TABLE passkeys ADD CONSTRAINT passkeys_max_uses_check
+  CHECK (max_uses IS NULL OR max_uses > 0);
+
+-- Existing passkeys only ever guarded weekly report generation
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'passkeys' AND column_name = 'key_value'
+  ) THEN
+    UPDATE passkeys
+    SET key_hash = extensions.crypt(key_value, extensions.gen_salt('bf')),
+        scopes = ARRAY['weekly_report_generation']
+    WHERE key_hash IS NULL;
+
+    ALTER TABLE passkeys DROP COLUMN key_value;
+  END IF;
+END $$;
+
+ALTER TABLE passkeys ALTER COLUMN key_hash SET NOT NULL;
+
+-- Clients can read passkey metadata but never the hash, and can only write through save_passkey()
+DROP POLICY IF EXISTS "Allow all users to read active passkeys" ON passkeys;
+
+REVOKE ALL ON passkeys FROM anon, authenticated;
+GRANT SELECT (
+  id, key_name, description, is_active, scopes, expires_at, max_uses,
+  use_count, last_used_at, created_at, updated_at
+) ON passkeys TO authenticated;
+GRANT UPDATE (description, is_active) ON passkeys TO authenticated;
+GRANT DELETE ON passkeys TO authenticated;
+
+-- Every validation attempt, successful or not
+CREATE TABLE IF NOT EXISTS passkey_audit_log (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  passkey_id uuid REFERENCES passkeys(id) ON DELETE SET NULL,
+  key_name text,
+  scope text NOT NULL,
+  success boolean NOT NULL,
+  reason text NOT NULL CHECK (reason IN ('valid', 'unknown', 'inactive', 'expired', 'exhausted', 'out_of_scope')),
+  user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_passkey_audit_log_created_at ON passkey_audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_passkey_audit_log_passkey_id ON passkey_audit_log(passkey_id);
+
+ALTER TABLE passkey_audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can read the passkey audit log" ON passkey_audit_log;
+CREATE POLICY "Admins can read the passkey audit log"
+  ON passkey_audit_log
+  FOR SELECT
+  TO authenticated
+  USING (is_any_team_admin());
+
+-- Validate a passkey for a scope, count the use and record the attempt
+DROP FUNCTION IF EXISTS validate_passkey(text);
+
+CREATE OR REPLACE FUNCTION validate_passkey(passkey_value text, p_scope text)
+RETURNS boolean AS $$
+DECLARE
+  matched passkeys%ROWTYPE;
+  outcome text;
+BEGIN
+  SELECT * INTO matched
+  FROM passkeys
+  WHERE key_hash = extensions.crypt(passkey_value, key_hash)
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    outcome := 'unknown';
+  ELSIF NOT matched.is_active THEN
+    outcome := 'inactive';
+  ELSIF matched.expires_at IS NOT NULL AND matched.expires_at <= now() THEN
+    outcome := 'expired';
+  ELSIF NOT (p_scope = ANY (matched.scopes)) THEN
+    outcome := 'out_of_scope';
+  ELSE
+    -- Counting and checking the limit in one statement keeps concurrent uses within max_uses
+    UPDATE passkeys
+    SET use_count = use_count + 1,
+        last_used_at = now()
+    WHERE id = matched.id
+      AND (max_uses IS NULL OR use_count < max_uses);
+
+    outcome := CASE WHEN FOUND THEN 'valid' ELSE 'exhausted' END;
+  END IF;
+
+  INSERT INTO passkey_audit_log (passkey_id, key_name, scope, success, reason, user_id)
+  VALUES (matched.id, matched.key_name, p_scope, outcome = 'valid', outcome, auth.uid());
+
+  RETURN outcome = 'valid';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+REVOKE EXECUTE ON FUNCTION validate_passkey(text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION validate_passkey(text, text) TO service_role;
+
+-- Create a passkey, or rotate an existing one by name; rotating resets its use count
+CREATE OR REPLACE FUNCTION save_passkey(
+  p_key_name text,
+  p_key_value text,
+  p_scopes text[],
+  p_description text DEFAULT NULL,
+  p_expires_at timestamptz DEFAULT NULL,
+  p_max_uses integer DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  saved_id uuid;
+BEGIN
+  IF NOT is_any_team_admin() THEN
+    RAISE EXCEPTION 'You don''t have permission to manage passkeys';
+  END IF;
+
+  IF length(coalesce(p_key_value, '')) < 6 THEN
+    RAISE EXCEPTION 'Passkey must be at least 6 characters long';
+  END IF;
+
+  IF coalesce(array_length(p_scopes, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'A passkey needs at least one scope';
+  END IF;
+
+  INSERT INTO passkeys (key_name, key_hash, scopes, description, expires_at, max_uses, is_active)
+  VALUES (
+    trim(p_key_name),
+    extensions.crypt(p_key_value, extensions.gen_salt('bf')),
+    p_scopes,
+    p_description,
+    p_expires_at,
+    p_max_uses,
+    true
+  )
+  ON CONFLICT (key_name) DO UPDATE SET
+    key_hash = EXCLUDED.key_hash,
+    scopes = EXCLUDED.scopes,
+    description = COALESCE(EXCLUDED.description, passkeys.description),
+    expires_at = EXCLUDED.expires_at,
+    max_uses = EXCLUDED.max_uses,
+    use_count = 0,
+    last_used_at = NULL,
+    is_active = true
+  RETURNING id INTO saved_id;
+
+  RETURN saved_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+REVOKE EXECUTE ON FUNCTION save_passkey(text, text, text[], text, timestamptz, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION save_passkey(text, text, text[], text, timestamptz, integer) TO authenticated;
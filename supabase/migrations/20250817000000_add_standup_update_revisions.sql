@@ -0,0 +1,87 @@
+-- Edit history for standup updates
+-- Every save of a standup update is kept as a numbered revision, so later edits never
+-- lose what was said at the standup itself. Teams get a standup time, which marks the
+-- "as of standup" snapshot that weekly reports can be generated from.
+
+ALTER TABLE teams ADD COLUMN IF NOT EXISTS standup_time time NOT NULL DEFAULT '10:00';
+
+ALTER TABLE standup_updates ADD COLUMN IF NOT EXISTS revision_count integer NOT NULL DEFAULT 1;
+
+CREATE TABLE IF NOT EXISTS standup_update_revisions (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  standup_update_id uuid NOT NULL REFERENCES standup_updates(id) ON DELETE CASCADE,
+  team_id uuid NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  revision_number integer NOT NULL,
+  yesterday text NOT NULL DEFAULT '',
+  today text NOT NULL DEFAULT '',
+  blockers text NOT NULL DEFAULT '',
+  edited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (standup_update_id, revision_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_standup_update_revisions_update ON standup_update_revisions(standup_update_id, revision_number);
+CREATE INDEX IF NOT EXISTS idx_standup_update_revisions_team ON standup_update_revisions(team_id);
+
+-- Existing updates start with their current content as revision 1
+INSERT INTO standup_update_revisions (standup_update_id, team_id, revision_number, yesterday, today, blockers, created_at)
+SELECT su.id, su.team_id, 1, coalesce(su.yesterday, ''), coalesce(su.today, ''), coalesce(su.blockers, ''), su.updated_at
+FROM standup_updates su
+WHERE NOT EXISTS (
+  SELECT 1 FROM standup_update_revisions r WHERE r.standup_update_id = su.id
+);
+
+-- Count a new revision whenever the content actually changes
+CREATE OR REPLACE FUNCTION bump_standup_update_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.revision_count := 1;
+  ELSIF NEW.yesterday IS DISTINCT FROM OLD.yesterday
+    OR NEW.today IS DISTINCT FROM OLD.today
+    OR NEW.blockers IS DISTINCT FROM OLD.blockers THEN
+    NEW.revision_count := OLD.revision_count + 1;
+  ELSE
+    NEW.revision_count := OLD.revision_count;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS bump_standup_updates_revision ON standup_updates;
+CREATE TRIGGER bump_standup_updates_revision
+  BEFORE INSERT OR UPDATE ON standup_updates
+  FOR EACH ROW
+  EXECUTE FUNCTION bump_standup_update_revision();
+
+-- Record the saved content; runs as the owner because clients cannot write revisions
+CREATE OR REPLACE FUNCTION record_standup_update_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.revision_count = OLD.revision_count THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO standup_update_revisions (standup_update_id, team_id, revision_number, yesterday, today, blockers, edited_by)
+  VALUES (NEW.id, NEW.team_id, NEW.revision_count, coalesce(NEW.yesterday, ''), coalesce(NEW.today, ''), coalesce(NEW.blockers, ''), auth.uid());
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_standup_updates_revision ON standup_updates;
+CREATE TRIGGER record_standup_updates_revision
+  AFTER INSERT OR UPDATE ON standup_updates
+  FOR EACH ROW
+  EXECUTE FUNCTION record_standup_update_revision();
+
+-- Revisions are readable like the updates themselves and written only by the trigger
+ALTER TABLE standup_update_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Signed-in users can read standup update revisions" ON standup_update_revisions;
+CREATE POLICY "Signed-in users can read standup update revisions"
+  ON standup_update_revisions
+  FOR SELECT
+  TO authenticated
+  USING (true);
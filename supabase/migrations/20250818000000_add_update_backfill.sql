@@ -0,0 +1,66 @@
+-- Backfilled standup updates
+-- Members can post or correct an update for a past standup date, as long as it falls
+-- within the team's backfill window. Updates first posted after their date are marked
+-- late so history and weekly reports can show it.
+
+ALTER TABLE teams ADD COLUMN IF NOT EXISTS backfill_days integer NOT NULL DEFAULT 7;
+
+ALTER TABLE teams DROP CONSTRAINT IF EXISTS teams_backfill_days_range;
+ALTER TABLE teams ADD CONSTRAINT teams_backfill_days_range CHECK (backfill_days BETWEEN 0 AND 90);
+
+ALTER TABLE standup_updates ADD COLUMN IF NOT EXISTS posted_late boolean NOT NULL DEFAULT false;
+
+-- Existing updates are late if they were created after their standup date
+UPDATE standup_updates su
+SET posted_late = true
+FROM standup_entries se, teams t
+WHERE su.standup_entry_id = se.id
+  AND t.id = su.team_id
+  AND (su.created_at AT TIME ZONE t.timezone)::date > se.date;
+
+-- Keep writes inside the backfill window and decide lateness on the server
+CREATE OR REPLACE FUNCTION check_standup_update_date()
+RETURNS TRIGGER AS $$
+DECLARE
+  entry_date date;
+  team_today date;
+  window_days integer;
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.standup_entry_id = OLD.standup_entry_id
+    AND NEW.yesterday IS NOT DISTINCT FROM OLD.yesterday
+    AND NEW.today IS NOT DISTINCT FROM OLD.today
+    AND NEW.blockers IS NOT DISTINCT FROM OLD.blockers THEN
+    NEW.posted_late := OLD.posted_late;
+    RETURN NEW;
+  END IF;
+
+  SELECT se.date, (now() AT TIME ZONE t.timezone)::date, t.backfill_days
+  INTO entry_date, team_today, window_days
+  FROM standup_entries se
+  JOIN teams t ON t.id = se.team_id
+  WHERE se.id = NEW.standup_entry_id;
+
+  IF entry_date > team_today THEN
+    RAISE EXCEPTION 'Updates cannot be posted for a future date (%)', entry_date;
+  END IF;
+
+  IF entry_date < team_today - window_days THEN
+    RAISE EXCEPTION 'Updates older than % days cannot be posted or edited', window_days;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.posted_late := entry_date < team_today;
+  ELSE
+    NEW.posted_late := OLD.posted_late;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_standup_updates_date ON standup_updates;
+CREATE TRIGGER check_standup_updates_date
+  BEFORE INSERT OR UPDATE ON standup_updates
+  FOR EACH ROW
+  EXECUTE FUNCTION check_standup_update_date();
@@ -0,0 +1,71 @@
+-- Member absences
+-- Members record PTO, sick days and public holidays. Days a member is away do not
+-- count against them in participation metrics or weekly report member counts.
+
+CREATE TABLE IF NOT EXISTS member_absences (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  team_id uuid NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  team_member_id uuid NOT NULL REFERENCES team_members(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('pto', 'sick', 'public_holiday')),
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  note text,
+  created_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_member_absences_team_dates ON member_absences(team_id, start_date, end_date);
+CREATE INDEX IF NOT EXISTS idx_member_absences_member ON member_absences(team_member_id);
+
+DROP TRIGGER IF EXISTS update_member_absences_updated_at ON member_absences;
+CREATE TRIGGER update_member_absences_updated_at
+  BEFORE UPDATE ON member_absences
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Anyone signed in can see who is out; members manage their own time off and
+-- roster managers can record it for anyone on the team
+ALTER TABLE member_absences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Signed-in users can read member absences" ON member_absences;
+CREATE POLICY "Signed-in users can read member absences"
+  ON member_absences
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Members and roster managers can insert member absences" ON member_absences;
+CREATE POLICY "Members and roster managers can insert member absences"
+  ON member_absences
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    is_own_team_member(team_member_id, team_id)
+    OR has_team_permission(team_id, 'manage_roster')
+  );
+
+DROP POLICY IF EXISTS "Members and roster managers can update member absences" ON member_absences;
+CREATE POLICY "Members and roster managers can update member absences"
+  ON member_absences
+  FOR UPDATE
+  TO authenticated
+  USING (
+    is_own_team_member(team_member_id, team_id)
+    OR has_team_permission(team_id, 'manage_roster')
+  )
+  WITH CHECK (
+    is_own_team_member(team_member_id, team_id)
+    OR has_team_permission(team_id, 'manage_roster')
+  );
+
+DROP POLICY IF EXISTS "Members and roster managers can delete member absences" ON member_absences;
+CREATE POLICY "Members and roster managers can delete member absences"
+  ON member_absences
+  FOR DELETE
+  TO authenticated
+  USING (
+    is_own_team_member(team_member_id, team_id)
+    OR has_team_permission(team_id, 'manage_roster')
+  );
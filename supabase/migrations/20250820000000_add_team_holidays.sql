@@ -0,0 +1,47 @@
+-- Team holiday calendar
+-- Days the whole team is off, entered by hand or imported from an .ics file. Every
+-- business-day calculation skips them: the "previous business day" an update's
+-- yesterday field refers to, participation counts and weekly report working days.
+
+CREATE TABLE IF NOT EXISTS team_holidays (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  team_id uuid NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  date date NOT NULL,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (team_id, date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_team_holidays_team_date ON team_holidays(team_id, date);
+
+-- Anyone signed in can see the calendar; team settings managers maintain it
+ALTER TABLE team_holidays ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Signed-in users can read team holidays" ON team_holidays;
+CREATE POLICY "Signed-in users can read team holidays"
+  ON team_holidays
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Team settings managers can insert team holidays" ON team_holidays;
+CREATE POLICY "Team settings managers can insert team holidays"
+  ON team_holidays
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_team_permission(team_id, 'manage_team_settings'));
+
+DROP POLICY IF EXISTS "Team settings managers can update team holidays" ON team_holidays;
+CREATE POLICY "Team settings managers can update team holidays"
+  ON team_holidays
+  FOR UPDATE
+  TO authenticated
+  USING (has_team_permission(team_id, 'manage_team_settings'))
+  WITH CHECK (has_team_permission(team_id, 'manage_team_settings'));
+
+DROP POLICY IF EXISTS "Team settings managers can delete team holidays" ON team_holidays;
+CREATE POLICY "Team settings managers can delete team holidays"
+  ON team_holidays
+  FOR DELETE
+  TO authenticated
+  USING (has_team_permission(team_id, 'manage_team_settings'));
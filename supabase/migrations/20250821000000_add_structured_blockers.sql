@@ -0,0 +1,167 @@
+-- Structured blockers
+-- Blockers become records with a description, who can unblock them, a severity and the
+-- days they were opened and resolved. Each standup update links to the blockers open
+-- (or resolved) on it, so an open blocker is carried from update to update until it is
+-- closed. The blockers text on standup_updates stays as a rendered list of the open
+-- blockers, which keeps revisions and exports readable.
+
+CREATE TABLE IF NOT EXISTS blockers (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  team_id uuid NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  team_member_id uuid NOT NULL REFERENCES team_members(id) ON DELETE CASCADE,
+  description text NOT NULL CHECK (length(trim(description)) > 0),
+  unblocker text,
+  severity text NOT NULL DEFAULT 'medium' CHECK (severity IN ('low', 'medium', 'high')),
+  opened_on date NOT NULL,
+  resolved_on date,
+  resolution text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (resolved_on IS NULL OR resolved_on >= opened_on)
+);
+
+CREATE INDEX IF NOT EXISTS idx_blockers_team_dates ON blockers(team_id, opened_on, resolved_on);
+CREATE INDEX IF NOT EXISTS idx_blockers_member ON blockers(team_member_id);
+
+DROP TRIGGER IF EXISTS update_blockers_updated_at ON blockers;
+CREATE TRIGGER update_blockers_updated_at
+  BEFORE UPDATE ON blockers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS standup_update_blockers (
+  standup_update_id uuid NOT NULL REFERENCES standup_updates(id) ON DELETE CASCADE,
+  blocker_id uuid NOT NULL REFERENCES blockers(id) ON DELETE CASCADE,
+  PRIMARY KEY (standup_update_id, blocker_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_standup_update_blockers_blocker ON standup_update_blockers(blocker_id);
+
+-- Convert free-text blockers into records. Consecutive updates from a member with the
+-- same text are one blocker, opened on the first of them and resolved on the member's
+-- next update that no longer mentions it; the latest text stays open.
+CREATE TEMP TABLE legacy_blockers AS
+WITH ordered AS (
+  SELECT
+    su.id AS update_id,
+    su.team_id,
+    su.team_member_id,
+    se.date,
+    nullif(trim(regexp_replace(regexp_replace(coalesce(su.blockers, ''), '<[^>]*>', ' ', 'g'), '\s+', ' ', 'g')), '') AS text
+  FROM standup_updates su
+  JOIN standup_entries se ON se.id = su.standup_entry_id
+  WHERE NOT EXISTS (
+    SELECT 1 FROM standup_update_blockers sub WHERE sub.standup_update_id = su.id
+  )
+),
+cleaned AS (
+  SELECT
+    update_id, team_id, team_member_id, date,
+    CASE WHEN lower(text) IN ('none', 'none.', 'n/a', 'na', 'no', 'no blockers', 'no blockers.', 'nothing', '-') THEN NULL ELSE text END AS text
+  FROM ordered
+),
+runs AS (
+  SELECT
+    *,
+    sum(CASE WHEN text IS DISTINCT FROM prev_text THEN 1 ELSE 0 END)
+      OVER (PARTITION BY team_member_id ORDER BY date) AS run
+  FROM (
+    SELECT *, lag(text) OVER (PARTITION BY team_member_id ORDER BY date) AS prev_text
+    FROM cleaned
+  ) with_prev
+)
+SELECT
+  gen_random_uuid() AS blocker_id,
+  r.team_id,
+  r.team_member_id,
+  min(r.text) AS description,
+  min(r.date) AS opened_on,
+  (
+    SELECT min(c.date) FROM cleaned c
+    WHERE c.team_member_id = r.team_member_id AND c.date > max(r.date)
+  ) AS resolved_on,
+  array_agg(r.update_id) AS update_ids
+FROM runs r
+WHERE r.text IS NOT NULL
+GROUP BY r.team_id, r.team_member_id, r.run;
+
+INSERT INTO blockers (id, team_id, team_member_id, description, opened_on, resolved_on)
+SELECT blocker_id, team_id, team_member_id, description, opened_on, resolved_on
+FROM legacy_blockers;
+
+INSERT INTO standup_update_blockers (standup_update_id, blocker_id)
+SELECT unnest(update_ids), blocker_id
+FROM legacy_blockers
+ON CONFLICT DO NOTHING;
+
+DROP TABLE legacy_blockers;
+
+-- Blockers are readable like the updates they sit on; members manage their own and
+-- roster managers can tidy up anyone's
+ALTER TABLE blockers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Signed-in users can read blockers" ON blockers;
+CREATE POLICY "Signed-in users can read blockers"
+  ON blockers
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Members and roster managers can insert blockers" ON blockers;
+CREATE POLICY "Members and roster managers can insert blockers"
+  ON blockers
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    is_own_team_member(team_member_id, team_id)
+    OR has_team_permission(team_id, 'manage_roster')
+  );
+
+DROP POLICY IF EXISTS "Members and roster managers can update blockers" ON blockers;
+CREATE POLICY "Members and roster managers can update blockers"
+  ON blockers
+  FOR UPDATE
+  TO authenticated
+  USING (
+    is_own_team_member(team_member_id, team_id)
+    OR has_team_permission(team_id, 'manage_roster')
+  )
+  WITH CHECK (
+    is_own_team_member(team_member_id, team_id)
+    OR has_team_permission(team_id, 'manage_roster')
+  );
+
+ALTER TABLE standup_update_blockers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Signed-in users can read standup update blockers" ON standup_update_blockers;
+CREATE POLICY "Signed-in users can read standup update blockers"
+  ON standup_update_blockers
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Members can link blockers to their own updates" ON standup_update_blockers;
+CREATE POLICY "Members can link blockers to their own updates"
+  ON standup_update_blockers
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM standup_updates su
+      WHERE su.id = standup_update_id
+        AND is_own_team_member(su.team_member_id, su.team_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Members can unlink blockers from their own updates" ON standup_update_blockers;
+CREATE POLICY "Members can unlink blockers from their own updates"
+  ON standup_update_blockers
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM standup_updates su
+      WHERE su.id = standup_update_id
+        AND is_own_team_member(su.team_member_id, su.team_id)
+    )
+  );
@@ -0,0 +1,131 @@
+-- Blocker escalation
+-- A blocker that stays open longer than the team's escalation threshold, counted in
+-- business days (weekdays that are not team holidays), is escalated to the team's leads.
+-- Escalations are recorded once per blocker by an hourly job; leads acknowledge them from
+-- the dashboard. A threshold of 0 turns escalation off for the team.
+
+ALTER TABLE teams ADD COLUMN IF NOT EXISTS blocker_escalation_days integer NOT NULL DEFAULT 3;
+
+ALTER TABLE teams DROP CONSTRAINT IF EXISTS teams_blocker_escalation_days_range;
+ALTER TABLE teams ADD CONSTRAINT teams_blocker_escalation_days_range CHECK (blocker_escalation_days BETWEEN 0 AND 30);
+
+CREATE TABLE IF NOT EXISTS blocker_escalations (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  team_id uuid NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  blocker_id uuid NOT NULL UNIQUE REFERENCES blockers(id) ON DELETE CASCADE,
+  business_days_open integer NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  acknowledged_at timestamptz,
+  acknowledged_by uuid REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_blocker_escalations_team ON blocker_escalations(team_id, acknowledged_at);
+
+-- Business days after one date, up to and including another
+-- Mirrors TeamCalendar.getBusinessDaysBetween in the app
+CREATE OR REPLACE FUNCTION count_business_days_between(p_team_id uuid, p_start date, p_end date)
+RETURNS integer AS $$
+  SELECT count(*)::integer
+  FROM generate_series(p_start + 1, p_end, interval '1 day') AS day
+  WHERE EXTRACT(ISODOW FROM day) < 6
+    AND NOT EXISTS (
+      SELECT 1 FROM team_holidays th
+      WHERE th.team_id = p_team_id AND th.date = day::date
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Escalate every open blocker that has passed its team's threshold and has not been
+-- escalated yet. Ages are counted up to today in each team's timezone.
+CREATE OR REPLACE FUNCTION escalate_stale_blockers()
+RETURNS integer AS $$
+DECLARE
+  escalated integer;
+BEGIN
+  WITH aged AS (
+    SELECT
+      b.id AS blocker_id,
+      b.team_id,
+      t.blocker_escalation_days,
+      count_business_days_between(b.team_id, b.opened_on, (now() AT TIME ZONE t.timezone)::date) AS business_days_open
+    FROM blockers b
+    JOIN teams t ON t.id = b.team_id
+    WHERE b.resolved_on IS NULL
+      AND t.blocker_escalation_days > 0
+      AND NOT EXISTS (SELECT 1 FROM blocker_escalations be WHERE be.blocker_id = b.id)
+  )
+  INSERT INTO blocker_escalations (team_id, blocker_id, business_days_open)
+  SELECT team_id, blocker_id, business_days_open
+  FROM aged
+  WHERE business_days_open > blocker_escalation_days
+  ON CONFLICT (blocker_id) DO NOTHING;
+
+  GET DIAGNOSTICS escalated = ROW_COUNT;
+  RETURN escalated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- A reopened blocker starts over, so it can be escalated again if it lingers
+CREATE OR REPLACE FUNCTION clear_resolved_blocker_escalation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.resolved_on IS NOT NULL AND NEW.resolved_on IS NULL THEN
+    DELETE FROM blocker_escalations WHERE blocker_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS clear_blockers_escalation_on_reopen ON blockers;
+CREATE TRIGGER clear_blockers_escalation_on_reopen
+  AFTER UPDATE OF resolved_on ON blockers
+  FOR EACH ROW
+  EXECUTE FUNCTION clear_resolved_blocker_escalation();
+
+-- Record who acknowledged an escalation on the server, so it cannot be forged
+CREATE OR REPLACE FUNCTION set_blocker_escalation_acknowledged_by()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.acknowledged_at IS DISTINCT FROM OLD.acknowledged_at THEN
+    NEW.acknowledged_by := CASE WHEN NEW.acknowledged_at IS NULL THEN NULL ELSE auth.uid() END;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_blocker_escalations_acknowledged_by ON blocker_escalations;
+CREATE TRIGGER set_blocker_escalations_acknowledged_by
+  BEFORE UPDATE ON blocker_escalations
+  FOR EACH ROW
+  EXECUTE FUNCTION set_blocker_escalation_acknowledged_by();
+
+-- Everyone who can read blockers can see which are escalated; acknowledging one is a
+-- lead's job
+ALTER TABLE blocker_escalations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Signed-in users can read blocker escalations" ON blocker_escalations;
+CREATE POLICY "Signed-in users can read blocker escalations"
+  ON blocker_escalations
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Roster managers can acknowledge blocker escalations" ON blocker_escalations;
+CREATE POLICY "Roster managers can acknowledge blocker escalations"
+  ON blocker_escalations
+  FOR UPDATE
+  TO authenticated
+  USING (has_team_permission(team_id, 'manage_roster'))
+  WITH CHECK (has_team_permission(team_id, 'manage_roster'));
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'blocker-escalation') THEN
+    PERFORM cron.unschedule('blocker-escalation');
+  END IF;
+END $$;
+
+SELECT cron.schedule(
+  'blocker-escalation',
+  '15 * * * *', -- Every hour; each team's age is counted against its own local date
+  'SELECT escalate_stale_blockers();'
+);
@@ -0,0 +1,113 @@
+-- Slack integration
+-- A team can connect a Slack workspace and channel. The `slack` edge function DMs each
+-- member at standup time, takes their update through a Slack modal, and posts the day's
+-- digest and each new weekly report to the channel. Members are matched to Slack users
+-- by email the first time they are needed, and the Slack user id is kept on the roster.
+
+ALTER TABLE team_members ADD COLUMN IF NOT EXISTS slack_user_id text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_team_members_team_slack_user
+  ON team_members(team_id, slack_user_id)
+  WHERE slack_user_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS slack_integrations (
+  team_id uuid PRIMARY KEY REFERENCES teams(id) ON DELETE CASCADE,
+  slack_team_id text NOT NULL CHECK (length(trim(slack_team_id)) > 0),
+  channel_id text NOT NULL CHECK (length(trim(channel_id)) > 0),
+  prompts_enabled boolean NOT NULL DEFAULT true,
+  digest_enabled boolean NOT NULL DEFAULT true,
+  weekly_report_enabled boolean NOT NULL DEFAULT true,
+  -- Bookkeeping for the scheduled run, so each post goes out once
+  last_prompted_on date,
+  last_digest_on date,
+  last_weekly_report_id uuid REFERENCES weekly_reports(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_slack_integrations_slack_team ON slack_integrations(slack_team_id);
+
+DROP TRIGGER IF EXISTS update_slack_integrations_updated_at ON slack_integrations;
+CREATE TRIGGER update_slack_integrations_updated_at
+  BEFORE UPDATE ON slack_integrations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- The connection is a team setting; the edge function reads and writes it with the service role
+ALTER TABLE slack_integrations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Signed-in users can read slack integrations" ON slack_integrations;
+CREATE POLICY "Signed-in users can read slack integrations"
+  ON slack_integrations
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Team settings managers can insert slack integrations" ON slack_integrations;
+CREATE POLICY "Team settings managers can insert slack integrations"
+  ON slack_integrations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_team_permission(team_id, 'manage_team_settings'));
+
+DROP POLICY IF EXISTS "Team settings managers can update slack integrations" ON slack_integrations;
+CREATE POLICY "Team settings managers can update slack integrations"
+  ON slack_integrations
+  FOR UPDATE
+  TO authenticated
+  USING (has_team_permission(team_id, 'manage_team_settings'))
+  WITH CHECK (has_team_permission(team_id, 'manage_team_settings'));
+
+DROP POLICY IF EXISTS "Team settings managers can delete slack integrations" ON slack_integrations;
+CREATE POLICY "Team settings managers can delete slack integrations"
+  ON slack_integrations
+  FOR DELETE
+  TO authenticated
+  USING (has_team_permission(team_id, 'manage_team_settings'));
+
+-- Call the slack edge function's scheduled run. The project URL and service role key
+-- are read from Vault (secrets named 'project_url' and 'service_role_key'), so they
+-- are never stored in the cron job itself.
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+CREATE OR REPLACE FUNCTION run_scheduled_slack_tick()
+RETURNS void AS $$
+DECLARE
+  project_url text;
+  service_role_key text;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM slack_integrations) THEN
+    RETURN;
+  END IF;
+
+  SELECT decrypted_secret INTO project_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO service_role_key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+  IF project_url IS NULL OR service_role_key IS NULL THEN
+    RAISE NOTICE 'Slack tick skipped: add project_url and service_role_key to Vault';
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := project_url || '/functions/v1/slack',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || service_role_key
+    ),
+    body := jsonb_build_object('action', 'tick')
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'slack-standup-tick') THEN
+    PERFORM cron.unschedule('slack-standup-tick');
+  END IF;
+END $$;
+
+SELECT cron.schedule(
+  'slack-standup-tick',
+  '*/5 * * * *', -- Every five minutes; the function compares each team's local time to its standup time
+  'SELECT run_scheduled_slack_tick();'
+);
@@ -0,0 +1,176 @@
+-- Notification channels
+-- The day's digest and each generated weekly report go to every chat app a team has connected
+-- through the `notifications` edge function: Slack (slack_integrations) and now Microsoft Teams.
+-- Each delivery is recorded so a notification reaches each app once, and failures are retried.
+
+CREATE TABLE IF NOT EXISTS microsoft_teams_integrations (
+  team_id uuid PRIMARY KEY REFERENCES teams(id) ON DELETE CASCADE,
+  -- Incoming webhook (or Workflows webhook) for the channel digests and reports are posted to
+  webhook_url text NOT NULL CHECK (webhook_url ~ '^https://'),
+  -- The Microsoft 365 tenant whose users can post updates through the bot; null leaves the bot off
+  tenant_id text CHECK (tenant_id IS NULL OR length(trim(tenant_id)) > 0),
+  digest_enabled boolean NOT NULL DEFAULT true,
+  weekly_report_enabled boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_microsoft_teams_integrations_tenant ON microsoft_teams_integrations(tenant_id);
+
+DROP TRIGGER IF EXISTS update_microsoft_teams_integrations_updated_at ON microsoft_teams_integrations;
+CREATE TRIGGER update_microsoft_teams_integrations_updated_at
+  BEFORE UPDATE ON microsoft_teams_integrations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Anyone holding the webhook URL can post to the channel, so only settings managers can read it
+ALTER TABLE microsoft_teams_integrations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Team settings managers can read microsoft teams integrations" ON microsoft_teams_integrations;
+CREATE POLICY "Team settings managers can read microsoft teams integrations"
+  ON microsoft_teams_integrations
+  FOR SELECT
+  TO authenticated
+  USING (has_team_permission(team_id, 'manage_team_settings'));
+
+DROP POLICY IF EXISTS "Team settings managers can insert microsoft teams integrations" ON microsoft_teams_integrations;
+CREATE POLICY "Team settings managers can insert microsoft teams integrations"
+  ON microsoft_teams_integrations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_team_permission(team_id, 'manage_team_settings'));
+
+DROP POLICY IF EXISTS "Team settings managers can update microsoft teams integrations" ON microsoft_teams_integrations;
+CREATE POLICY "Team settings managers can update microsoft teams integrations"
+  ON microsoft_teams_integrations
+  FOR UPDATE
+  TO authenticated
+  USING (has_team_permission(team_id, 'manage_team_settings'))
+  WITH CHECK (has_team_permission(team_id, 'manage_team_settings'));
+
+DROP POLICY IF EXISTS "Team settings managers can delete microsoft teams integrations" ON microsoft_teams_integrations;
+CREATE POLICY "Team settings managers can delete microsoft teams integrations"
+  ON microsoft_teams_integrations
+  FOR DELETE
+  TO authenticated
+  USING (has_team_permission(team_id, 'manage_team_settings'));
+
+-- One row per notification per app. `subject` is the digest's date or the weekly report's id.
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id uuid NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  channel text NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('daily_digest', 'weekly_report')),
+  subject text NOT NULL,
+  status text NOT NULL CHECK (status IN ('sent', 'failed')),
+  error text,
+  attempts integer NOT NULL DEFAULT 1,
+  attempted_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (team_id, channel, kind, subject)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_failed
+  ON notification_deliveries(kind, attempts)
+  WHERE status = 'failed';
+
+-- Written by the edge function with the service role; settings managers can see what went out
+ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Team settings managers can read notification deliveries" ON notification_deliveries;
+CREATE POLICY "Team settings managers can read notification deliveries"
+  ON notification_deliveries
+  FOR SELECT
+  TO authenticated
+  USING (has_team_permission(team_id, 'manage_team_settings'));
+
+-- Slack's digest and weekly report bookkeeping now lives in notification_deliveries
+ALTER TABLE slack_integrations DROP COLUMN IF EXISTS last_digest_on;
+ALTER TABLE slack_integrations DROP COLUMN IF EXISTS last_weekly_report_id;
+
+-- Call an edge function with the service role key. The project URL and key are read from
+-- Vault (secrets named 'project_url' and 'service_role_key'), so they are never stored in
+-- cron jobs or triggers. The request is queued by pg_net and sent after the transaction commits.
+CREATE OR REPLACE FUNCTION invoke_edge_function(p_function_name text, p_body jsonb)
+RETURNS void AS $$
+DECLARE
+  project_url text;
+  service_role_key text;
+BEGIN
+  SELECT decrypted_secret INTO project_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO service_role_key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+  IF project_url IS NULL OR service_role_key IS NULL THEN
+    RAISE NOTICE '% not called: add project_url and service_role_key to Vault', p_function_name;
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := project_url || '/functions/v1/' || p_function_name,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || service_role_key
+    ),
+    body := p_body
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION invoke_edge_function(text, jsonb) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION run_scheduled_slack_tick()
+RETURNS void AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM slack_integrations WHERE prompts_enabled) THEN
+    PERFORM invoke_edge_function('slack', jsonb_build_object('action', 'tick'));
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION run_scheduled_notification_tick()
+RETURNS void AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM slack_integrations) OR EXISTS (SELECT 1 FROM microsoft_teams_integrations) THEN
+    PERFORM invoke_edge_function('notifications', jsonb_build_object('event', 'tick'));
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Send a weekly report to the team's chat apps as soon as it is generated, whether the
+-- scheduled function or the app generated it
+CREATE OR REPLACE FUNCTION notify_weekly_report_generated()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM invoke_edge_function(
+    'notifications',
+    jsonb_build_object('event', 'weekly_report_generated', 'reportId', NEW.id)
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notify_weekly_report_generated_on_insert ON weekly_reports;
+CREATE TRIGGER notify_weekly_report_generated_on_insert
+  AFTER INSERT ON weekly_reports
+  FOR EACH ROW
+  WHEN (NEW.status = 'generated')
+  EXECUTE FUNCTION notify_weekly_report_generated();
+
+DROP TRIGGER IF EXISTS notify_weekly_report_generated_on_update ON weekly_reports;
+CREATE TRIGGER notify_weekly_report_generated_on_update
+  AFTER UPDATE OF status ON weekly_reports
+  FOR EACH ROW
+  WHEN (NEW.status = 'generated' AND OLD.status IS DISTINCT FROM 'generated')
+  EXECUTE FUNCTION notify_weekly_report_generated();
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'notification-tick') THEN
+    PERFORM cron.unschedule('notification-tick');
+  END IF;
+END $$;
+
+SELECT cron.schedule(
+  'notification-tick',
+  '*/5 * * * *', -- Every five minutes; the function compares each team's local time to its digest time
+  'SELECT run_scheduled_notification_tick();'
+);
@@ -0,0 +1,61 @@
+-- Email digest of weekly reports
+-- Each generated weekly report is emailed, as HTML with a plain-text alternative, to the team's
+-- distribution list by the `notifications` edge function over SMTP.
+
+CREATE TABLE IF NOT EXISTS email_digest_settings (
+  team_id uuid PRIMARY KEY REFERENCES teams(id) ON DELETE CASCADE,
+  recipients text[] NOT NULL CHECK (cardinality(recipients) BETWEEN 1 AND 50),
+  weekly_report_enabled boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+DROP TRIGGER IF EXISTS update_email_digest_settings_updated_at ON email_digest_settings;
+CREATE TRIGGER update_email_digest_settings_updated_at
+  BEFORE UPDATE ON email_digest_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- The distribution list may include addresses outside the team, so only settings managers can read it
+ALTER TABLE email_digest_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Team settings managers can read email digest settings" ON email_digest_settings;
+CREATE POLICY "Team settings managers can read email digest settings"
+  ON email_digest_settings
+  FOR SELECT
+  TO authenticated
+  USING (has_team_permission(team_id, 'manage_team_settings'));
+
+DROP POLICY IF EXISTS "Team settings managers can insert email digest settings" ON email_digest_settings;
+CREATE POLICY "Team settings managers can insert email digest settings"
+  ON email_digest_settings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_team_permission(team_id, 'manage_team_settings'));
+
+DROP POLICY IF EXISTS "Team settings managers can update email digest settings" ON email_digest_settings;
+CREATE POLICY "Team settings managers can update email digest settings"
+  ON email_digest_settings
+  FOR UPDATE
+  TO authenticated
+  USING (has_team_permission(team_id, 'manage_team_settings'))
+  WITH CHECK (has_team_permission(team_id, 'manage_team_settings'));
+
+DROP POLICY IF EXISTS "Team settings managers can delete email digest settings" ON email_digest_settings;
+CREATE POLICY "Team settings managers can delete email digest settings"
+  ON email_digest_settings
+  FOR DELETE
+  TO authenticated
+  USING (has_team_permission(team_id, 'manage_team_settings'));
+
+-- The scheduled run retries failed deliveries, so it also runs for teams that only use email
+CREATE OR REPLACE FUNCTION run_scheduled_notification_tick()
+RETURNS void AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM slack_integrations)
+    OR EXISTS (SELECT 1 FROM microsoft_teams_integrations)
+    OR EXISTS (SELECT 1 FROM email_digest_settings) THEN
+    PERFORM invoke_edge_function('notifications', jsonb_build_object('event', 'tick'));
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,78 @@
+-- Standup reminders
+-- At each team's reminder time on business days, the `reminders` edge function reminds members
+-- who have not posted yet, through the channel each of them chose. Members who are away are skipped.
+
+-- Null turns reminders off for the team
+ALTER TABLE teams ADD COLUMN IF NOT EXISTS reminder_time time;
+
+ALTER TABLE team_members ADD COLUMN IF NOT EXISTS reminder_channel text NOT NULL DEFAULT 'email';
+
+ALTER TABLE team_members DROP CONSTRAINT IF EXISTS team_members_reminder_channel_check;
+ALTER TABLE team_members ADD CONSTRAINT team_members_reminder_channel_check
+  CHECK (reminder_channel IN ('email', 'slack', 'none'));
+
+-- Members choose their own reminder channel; the rest of their roster entry stays with roster managers
+CREATE OR REPLACE FUNCTION set_my_reminder_channel(p_team_id uuid, p_channel text)
+RETURNS void AS $$
+BEGIN
+  UPDATE team_members
+  SET reminder_channel = p_channel
+  WHERE team_id = p_team_id
+    AND user_id = auth.uid()
+    AND archived_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not on this team''s roster';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION set_my_reminder_channel(uuid, text) FROM PUBLIC, anon;
+
+-- One row per member per day, so nobody is reminded twice; failures are retried up to three times
+CREATE TABLE IF NOT EXISTS standup_reminders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id uuid NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  team_member_id uuid NOT NULL REFERENCES team_members(id) ON DELETE CASCADE,
+  date date NOT NULL,
+  channel text NOT NULL,
+  status text NOT NULL CHECK (status IN ('sent', 'failed')),
+  error text,
+  attempts integer NOT NULL DEFAULT 1,
+  attempted_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (team_member_id, date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_standup_reminders_team_date ON standup_reminders(team_id, date);
+
+-- Written by the edge function with the service role; settings managers can see what went out
+ALTER TABLE standup_reminders ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Team settings managers can read standup reminders" ON standup_reminders;
+CREATE POLICY "Team settings managers can read standup reminders"
+  ON standup_reminders
+  FOR SELECT
+  TO authenticated
+  USING (has_team_permission(team_id, 'manage_team_settings'));
+
+CREATE OR REPLACE FUNCTION run_scheduled_reminders()
+RETURNS void AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM teams WHERE reminder_time IS NOT NULL) THEN
+    PERFORM invoke_edge_function('reminders', jsonb_build_object('event', 'tick'));
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'standup-reminders') THEN
+    PERFORM cron.unschedule('standup-reminders');
+  END IF;
+END $$;
+
+SELECT cron.schedule(
+  'standup-reminders',
+  '*/5 * * * *', -- Every five minutes; the function compares each team's local time to its reminder time
+  'SELECT run_scheduled_reminders();'
+);
@@ -0,0 +1,83 @@
+-- Browser push notifications
+-- Members turn on push on the Team tab, which stores the browser's Web Push subscription against
+-- their roster entry. The edge functions push reminders and new weekly reports to every browser a
+-- member has subscribed, and drop subscriptions the push service reports as gone.
+
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_member_id uuid NOT NULL REFERENCES team_members(id) ON DELETE CASCADE,
+  endpoint text NOT NULL CHECK (endpoint ~ '^https://'),
+  p256dh text NOT NULL,
+  auth text NOT NULL,
+  user_agent text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  last_used_at timestamptz,
+  UNIQUE (team_member_id, endpoint)
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_endpoint ON push_subscriptions(endpoint);
+
+-- Members manage their own browsers' subscriptions
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can read their own push subscriptions" ON push_subscriptions;
+CREATE POLICY "Members can read their own push subscriptions"
+  ON push_subscriptions
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM team_members tm
+    WHERE tm.id = team_member_id AND tm.user_id = auth.uid()
+  ));
+
+DROP POLICY IF EXISTS "Members can add their own push subscriptions" ON push_subscriptions;
+CREATE POLICY "Members can add their own push subscriptions"
+  ON push_subscriptions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM team_members tm
+    WHERE tm.id = team_member_id AND tm.user_id = auth.uid() AND tm.archived_at IS NULL
+  ));
+
+DROP POLICY IF EXISTS "Members can update their own push subscriptions" ON push_subscriptions;
+CREATE POLICY "Members can update their own push subscriptions"
+  ON push_subscriptions
+  FOR UPDATE
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM team_members tm
+    WHERE tm.id = team_member_id AND tm.user_id = auth.uid()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM team_members tm
+    WHERE tm.id = team_member_id AND tm.user_id = auth.uid() AND tm.archived_at IS NULL
+  ));
+
+DROP POLICY IF EXISTS "Members can remove their own push subscriptions" ON push_subscriptions;
+CREATE POLICY "Members can remove their own push subscriptions"
+  ON push_subscriptions
+  FOR DELETE
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM team_members tm
+    WHERE tm.id = team_member_id AND tm.user_id = auth.uid()
+  ));
+
+-- Push is another way to be reminded
+ALTER TABLE team_members DROP CONSTRAINT IF EXISTS team_members_reminder_channel_check;
+ALTER TABLE team_members ADD CONSTRAINT team_members_reminder_channel_check
+  CHECK (reminder_channel IN ('email', 'slack', 'push', 'none'));
+
+-- The scheduled run retries failed weekly report deliveries, now including pushes
+CREATE OR REPLACE FUNCTION run_scheduled_notification_tick()
+RETURNS void AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM slack_integrations)
+    OR EXISTS (SELECT 1 FROM microsoft_teams_integrations)
+    OR EXISTS (SELECT 1 FROM email_digest_settings)
+    OR EXISTS (SELECT 1 FROM push_subscriptions) THEN
+    PERFORM invoke_edge_function('notifications', jsonb_build_object('event', 'tick'));
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
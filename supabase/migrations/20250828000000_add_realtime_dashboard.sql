@@ -0,0 +1,43 @@
+-- Realtime dashboard
+-- The dashboard listens for new and changed standup updates and weekly reports, and shows who is
+-- writing an update through presence on a private `standup-presence:<team id>` channel.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'standup_updates'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE standup_updates;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'weekly_reports'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE weekly_reports;
+  END IF;
+END $$;
+
+-- Like the dashboard itself, anyone signed in can see who is writing; only members who may post
+-- can announce that they are
+DROP POLICY IF EXISTS "Signed-in users can see who is writing an update" ON realtime.messages;
+CREATE POLICY "Signed-in users can see who is writing an update"
+  ON realtime.messages
+  FOR SELECT
+  TO authenticated
+  USING (
+    realtime.messages.extension = 'presence'
+    AND split_part(realtime.topic(), ':', 1) = 'standup-presence'
+  );
+
+DROP POLICY IF EXISTS "Members who can post can say they are writing an update" ON realtime.messages;
+CREATE POLICY "Members who can post can say they are writing an update"
+  ON realtime.messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    realtime.messages.extension = 'presence'
+    AND split_part(realtime.topic(), ':', 1) = 'standup-presence'
+    AND has_team_permission(split_part(realtime.topic(), ':', 2)::uuid, 'post_updates')
+  );
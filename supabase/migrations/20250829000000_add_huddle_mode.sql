@@ -0,0 +1,90 @@
+-- Huddle mode
+-- A facilitator runs the standup meeting from the dashboard, giving each member a time-boxed turn
+-- in random or the team's saved order. The meeting's start, length and who was present are saved
+-- with that day's standup_entries row.
+
+ALTER TABLE teams ADD COLUMN IF NOT EXISTS huddle_time_box_seconds integer NOT NULL DEFAULT 120;
+ALTER TABLE teams ADD COLUMN IF NOT EXISTS huddle_order text NOT NULL DEFAULT 'random';
+-- Roster ids in speaking order; members missing from it speak last, by name
+ALTER TABLE teams ADD COLUMN IF NOT EXISTS huddle_member_order uuid[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE teams DROP CONSTRAINT IF EXISTS teams_huddle_time_box_seconds_check;
+ALTER TABLE teams ADD CONSTRAINT teams_huddle_time_box_seconds_check
+  CHECK (huddle_time_box_seconds BETWEEN 15 AND 900);
+
+ALTER TABLE teams DROP CONSTRAINT IF EXISTS teams_huddle_order_check;
+ALTER TABLE teams ADD CONSTRAINT teams_huddle_order_check
+  CHECK (huddle_order IN ('random', 'custom'));
+
+ALTER TABLE standup_entries ADD COLUMN IF NOT EXISTS huddle_started_at timestamptz;
+ALTER TABLE standup_entries ADD COLUMN IF NOT EXISTS huddle_duration_seconds integer CHECK (huddle_duration_seconds >= 0);
+ALTER TABLE standup_entries ADD COLUMN IF NOT EXISTS huddle_facilitated_by uuid REFERENCES team_members(id) ON DELETE SET NULL;
+
+-- Who was at each recorded huddle, and how long they spoke
+CREATE TABLE IF NOT EXISTS standup_attendance (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  standup_entry_id uuid NOT NULL REFERENCES standup_entries(id) ON DELETE CASCADE,
+  team_member_id uuid NOT NULL REFERENCES team_members(id) ON DELETE CASCADE,
+  present boolean NOT NULL,
+  speaking_seconds integer NOT NULL DEFAULT 0 CHECK (speaking_seconds >= 0),
+  UNIQUE (standup_entry_id, team_member_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_standup_attendance_member ON standup_attendance(team_member_id);
+
+-- Readable like the rest of the standup; written only through record_huddle()
+ALTER TABLE standup_attendance ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Signed-in users can read standup attendance" ON standup_attendance;
+CREATE POLICY "Signed-in users can read standup attendance"
+  ON standup_attendance
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Save a huddle on the day's standup entry, replacing one recorded earlier that day
+-- p_attendance is a JSON array of {team_member_id, present, speaking_seconds}
+CREATE OR REPLACE FUNCTION record_huddle(
+  p_team_id uuid,
+  p_date date,
+  p_started_at timestamptz,
+  p_duration_seconds integer,
+  p_attendance jsonb
+)
+RETURNS uuid AS $$
+DECLARE
+  v_entry_id uuid;
+  v_facilitator_id uuid;
+BEGIN
+  IF NOT has_team_permission(p_team_id, 'post_updates') THEN
+    RAISE EXCEPTION 'You do not have permission to run this team''s huddle';
+  END IF;
+
+  SELECT id INTO v_facilitator_id
+  FROM team_members
+  WHERE team_id = p_team_id AND user_id = auth.uid() AND archived_at IS NULL;
+
+  INSERT INTO standup_entries (team_id, date)
+  SELECT p_team_id, p_date
+  WHERE NOT EXISTS (SELECT 1 FROM standup_entries WHERE team_id = p_team_id AND date = p_date);
+
+  UPDATE standup_entries
+  SET huddle_started_at = p_started_at,
+      huddle_duration_seconds = p_duration_seconds,
+      huddle_facilitated_by = v_facilitator_id
+  WHERE team_id = p_team_id AND date = p_date
+  RETURNING id INTO v_entry_id;
+
+  DELETE FROM standup_attendance WHERE standup_entry_id = v_entry_id;
+
+  INSERT INTO standup_attendance (standup_entry_id, team_member_id, present, speaking_seconds)
+  SELECT v_entry_id, tm.id, a.present, COALESCE(a.speaking_seconds, 0)
+  FROM jsonb_to_recordset(p_attendance) AS a(team_member_id uuid, present boolean, speaking_seconds integer)
+  JOIN team_members tm ON tm.id = a.team_member_id AND tm.team_id = p_team_id;
+
+  RETURN v_entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION record_huddle(uuid, date, timestamptz, integer, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_huddle(uuid, date, timestamptz, integer, jsonb) TO authenticated;
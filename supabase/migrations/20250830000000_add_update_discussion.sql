@@ -0,0 +1,144 @@
+-- Comments and reactions on standup updates
+-- Teammates reply to an update in threads and react with emoji. When someone comments, the update's
+-- author (and, for a reply, whoever started the thread) is notified by push through the
+-- `notifications` edge function. Weekly reports count each update's comments.
+
+CREATE TABLE IF NOT EXISTS update_comments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id uuid NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  standup_update_id uuid NOT NULL REFERENCES standup_updates(id) ON DELETE CASCADE,
+  -- Replies point at the comment that started their thread; threads are one level deep
+  parent_id uuid REFERENCES update_comments(id) ON DELETE CASCADE,
+  team_member_id uuid NOT NULL REFERENCES team_members(id) ON DELETE CASCADE,
+  body text NOT NULL CHECK (char_length(btrim(body)) BETWEEN 1 AND 2000),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_update_comments_update ON update_comments(standup_update_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_update_comments_parent ON update_comments(parent_id);
+
+CREATE TABLE IF NOT EXISTS update_reactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id uuid NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  standup_update_id uuid NOT NULL REFERENCES standup_updates(id) ON DELETE CASCADE,
+  team_member_id uuid NOT NULL REFERENCES team_members(id) ON DELETE CASCADE,
+  emoji text NOT NULL CHECK (emoji IN ('👍', '🎉', '❤️', '👀', '🙏', '🚀')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (standup_update_id, team_member_id, emoji)
+);
+
+CREATE INDEX IF NOT EXISTS idx_update_reactions_update ON update_reactions(standup_update_id);
+
+-- Comments and reactions belong to their update's team, and replies to a thread on the same update
+CREATE OR REPLACE FUNCTION set_update_discussion_team()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT team_id INTO NEW.team_id FROM standup_updates WHERE id = NEW.standup_update_id;
+
+  IF TG_TABLE_NAME = 'update_comments' AND NEW.parent_id IS NOT NULL THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM update_comments
+      WHERE id = NEW.parent_id AND standup_update_id = NEW.standup_update_id AND parent_id IS NULL
+    ) THEN
+      RAISE EXCEPTION 'Replies must start from a comment on the same update';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS set_update_comments_team ON update_comments;
+CREATE TRIGGER set_update_comments_team
+  BEFORE INSERT ON update_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION set_update_discussion_team();
+
+DROP TRIGGER IF EXISTS set_update_reactions_team ON update_reactions;
+CREATE TRIGGER set_update_reactions_team
+  BEFORE INSERT ON update_reactions
+  FOR EACH ROW
+  EXECUTE FUNCTION set_update_discussion_team();
+
+-- Readable like the updates themselves; members who can post comment and react as themselves
+ALTER TABLE update_comments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Signed-in users can read update comments" ON update_comments;
+CREATE POLICY "Signed-in users can read update comments"
+  ON update_comments
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Members can comment as themselves" ON update_comments;
+CREATE POLICY "Members can comment as themselves"
+  ON update_comments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_own_team_member(team_member_id, team_id));
+
+DROP POLICY IF EXISTS "Members can delete their own comments" ON update_comments;
+CREATE POLICY "Members can delete their own comments"
+  ON update_comments
+  FOR DELETE
+  TO authenticated
+  USING (is_own_team_member(team_member_id, team_id));
+
+ALTER TABLE update_reactions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Signed-in users can read update reactions" ON update_reactions;
+CREATE POLICY "Signed-in users can read update reactions"
+  ON update_reactions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Members can react as themselves" ON update_reactions;
+CREATE POLICY "Members can react as themselves"
+  ON update_reactions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_own_team_member(team_member_id, team_id));
+
+DROP POLICY IF EXISTS "Members can remove their own reactions" ON update_reactions;
+CREATE POLICY "Members can remove their own reactions"
+  ON update_reactions
+  FOR DELETE
+  TO authenticated
+  USING (is_own_team_member(team_member_id, team_id));
+
+-- The dashboard refreshes comment counts, reactions and open threads as they change
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'update_comments'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE update_comments;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'update_reactions'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE update_reactions;
+  END IF;
+END $$;
+
+-- Tell the update's author, and the thread's starter, about each new comment
+CREATE OR REPLACE FUNCTION notify_update_comment_posted()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM invoke_edge_function(
+    'notifications',
+    jsonb_build_object('event', 'comment_posted', 'commentId', NEW.id)
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notify_update_comment_posted_on_insert ON update_comments;
+CREATE TRIGGER notify_update_comment_posted_on_insert
+  AFTER INSERT ON update_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_update_comment_posted();
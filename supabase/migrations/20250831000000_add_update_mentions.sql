@@ -0,0 +1,101 @@
+-- @mentions in standup updates
+-- Members @mention teammates from the roster in what they did, what they plan and their blockers.
+-- Each mention is stored as a link from the update to the mentioned member, once per field, and
+-- the mentioned member is notified by push through the `notifications` edge function. Mentions in
+-- blockers are who the author is waiting on; weekly reports turn them into a dependency graph.
+
+CREATE TABLE IF NOT EXISTS update_mentions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id uuid NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  standup_update_id uuid NOT NULL REFERENCES standup_updates(id) ON DELETE CASCADE,
+  -- The member who was mentioned; the author is the update's member
+  team_member_id uuid NOT NULL REFERENCES team_members(id) ON DELETE CASCADE,
+  field text NOT NULL CHECK (field IN ('yesterday', 'today', 'blockers')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (standup_update_id, team_member_id, field)
+);
+
+CREATE INDEX IF NOT EXISTS idx_update_mentions_update ON update_mentions(standup_update_id);
+CREATE INDEX IF NOT EXISTS idx_update_mentions_member ON update_mentions(team_member_id, created_at DESC);
+
+-- Mentions belong to their update's team and can only name someone else on it
+CREATE OR REPLACE FUNCTION set_update_mention_team()
+RETURNS TRIGGER AS $$
+DECLARE
+  author_id uuid;
+BEGIN
+  SELECT team_id, team_member_id INTO NEW.team_id, author_id
+  FROM standup_updates WHERE id = NEW.standup_update_id;
+
+  IF NOT EXISTS (SELECT 1 FROM team_members WHERE id = NEW.team_member_id AND team_id = NEW.team_id) THEN
+    RAISE EXCEPTION 'Only members of the update''s team can be mentioned';
+  END IF;
+
+  IF NEW.team_member_id = author_id THEN
+    RAISE EXCEPTION 'Members cannot mention themselves';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS set_update_mentions_team ON update_mentions;
+CREATE TRIGGER set_update_mentions_team
+  BEFORE INSERT ON update_mentions
+  FOR EACH ROW
+  EXECUTE FUNCTION set_update_mention_team();
+
+-- Readable like the updates themselves; written along with the author's own update
+ALTER TABLE update_mentions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Signed-in users can read update mentions" ON update_mentions;
+CREATE POLICY "Signed-in users can read update mentions"
+  ON update_mentions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Members can mention teammates in their own updates" ON update_mentions;
+CREATE POLICY "Members can mention teammates in their own updates"
+  ON update_mentions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM standup_updates su
+      WHERE su.id = standup_update_id
+        AND is_own_team_member(su.team_member_id, su.team_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Members can remove mentions from their own updates" ON update_mentions;
+CREATE POLICY "Members can remove mentions from their own updates"
+  ON update_mentions
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM standup_updates su
+      WHERE su.id = standup_update_id
+        AND is_own_team_member(su.team_member_id, su.team_id)
+    )
+  );
+
+-- Tell the mentioned member; editing an update only inserts mentions it did not already have,
+-- so nobody is notified twice for the same mention
+CREATE OR REPLACE FUNCTION notify_member_mentioned()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM invoke_edge_function(
+    'notifications',
+    jsonb_build_object('event', 'member_mentioned', 'mentionId', NEW.id)
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notify_member_mentioned_on_insert ON update_mentions;
+CREATE TRIGGER notify_member_mentioned_on_insert
+  AFTER INSERT ON update_mentions
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_member_mentioned();
@@ -0,0 +1,85 @@
+-- Full-text search across standup history
+-- Each update's yesterday, today and blockers are indexed as one tsvector with the HTML stripped.
+-- Fields are weighted (yesterday A, today B, blockers C) so blockers can be left out for people who
+-- may not see them. search_standup_updates() searches the index with optional filters and returns
+-- the best matches first, with snippets whose matches are wrapped in chr(2) ... chr(3).
+
+-- The plain text of an update field: tags removed, common entities decoded, whitespace collapsed
+CREATE OR REPLACE FUNCTION strip_html(p_html text)
+RETURNS text AS $$
+  SELECT btrim(regexp_replace(
+    replace(replace(replace(replace(replace(replace(
+      regexp_replace(coalesce(p_html, ''), '<[^>]*>', ' ', 'g'),
+      '&nbsp;', ' '), '&lt;', '<'), '&gt;', '>'), '&quot;', '"'), '&#39;', ''''), '&amp;', '&'),
+    '\s+', ' ', 'g'
+  ));
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE standup_updates
+  ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', strip_html(yesterday)), 'A') ||
+    setweight(to_tsvector('english', strip_html(today)), 'B') ||
+    setweight(to_tsvector('english', strip_html(blockers)), 'C')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_standup_updates_search ON standup_updates USING GIN (search_vector);
+
+-- Search a team's updates. p_query takes web search syntax ("quoted phrases", or, -excluded);
+-- without one, the filters alone apply and the newest updates come first. Blockers are only
+-- searched, shown and filtered on for people with the view_blockers permission.
+CREATE OR REPLACE FUNCTION search_standup_updates(
+  p_team_id uuid,
+  p_query text DEFAULT NULL,
+  p_member_id uuid DEFAULT NULL,
+  p_role text DEFAULT NULL,
+  p_start_date date DEFAULT NULL,
+  p_end_date date DEFAULT NULL,
+  p_has_blockers boolean DEFAULT false,
+  p_limit integer DEFAULT 50
+)
+RETURNS TABLE (
+  standup_update_id uuid,
+  standup_date date,
+  rank real,
+  yesterday_headline text,
+  today_headline text,
+  blockers_headline text
+) AS $$
+  WITH params AS (
+    SELECT
+      CASE WHEN btrim(coalesce(p_query, '')) = '' THEN NULL ELSE websearch_to_tsquery('english', p_query) END AS query,
+      has_team_permission(p_team_id, 'view_blockers') AS can_view_blockers,
+      format('StartSel=%s, StopSel=%s, MaxFragments=2, MaxWords=25, MinWords=10', chr(2), chr(3)) AS headline_options
+  )
+  SELECT
+    su.id,
+    se.date,
+    CASE
+      WHEN p.query IS NULL THEN 0
+      WHEN p.can_view_blockers THEN ts_rank(su.search_vector, p.query)
+      ELSE ts_rank(ts_filter(su.search_vector, '{a,b}'), p.query)
+    END::real,
+    CASE WHEN p.query IS NOT NULL THEN ts_headline('english', strip_html(su.yesterday), p.query, p.headline_options) END,
+    CASE WHEN p.query IS NOT NULL THEN ts_headline('english', strip_html(su.today), p.query, p.headline_options) END,
+    CASE WHEN p.query IS NOT NULL AND p.can_view_blockers THEN ts_headline('english', strip_html(su.blockers), p.query, p.headline_options) END
+  FROM standup_updates su
+  JOIN standup_entries se ON se.id = su.standup_entry_id
+  JOIN team_members tm ON tm.id = su.team_member_id
+  CROSS JOIN params p
+  WHERE su.team_id = p_team_id
+    AND (
+      p.query IS NULL
+      OR (su.search_vector @@ p.query AND (p.can_view_blockers OR ts_filter(su.search_vector, '{a,b}') @@ p.query))
+    )
+    AND (p_member_id IS NULL OR su.team_member_id = p_member_id)
+    AND (p_role IS NULL OR tm.role = p_role)
+    AND (p_start_date IS NULL OR se.date >= p_start_date)
+    AND (p_end_date IS NULL OR se.date <= p_end_date)
+    AND (NOT coalesce(p_has_blockers, false) OR (p.can_view_blockers AND coalesce(su.blockers, '') <> ''))
+  ORDER BY 3 DESC, se.date DESC, su.created_at DESC
+  LIMIT least(greatest(coalesce(p_limit, 50), 1), 200);
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION search_standup_updates(uuid, text, uuid, text, date, date, boolean, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION search_standup_updates(uuid, text, uuid, text, date, date, boolean, integer) TO authenticated;
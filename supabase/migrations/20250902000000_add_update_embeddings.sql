@@ -0,0 +1,113 @@
+-- Semantic search across standup history
+-- Each standup update gets an embedding of its yesterday and today text, and one of its blockers,
+-- stored with pgvector. The embeddings edge function computes them with the configured provider
+-- whenever an update is saved; match_standup_updates() finds the updates closest in meaning to a
+-- question's embedding, so "who touched the billing migration?" finds "moved invoices to the new schema".
+
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS standup_update_embeddings (
+  standup_update_id uuid PRIMARY KEY REFERENCES standup_updates(id) ON DELETE CASCADE,
+  team_id uuid NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  -- The provider and model the vectors came from; only vectors from the same model are compared
+  model text NOT NULL,
+  -- Yesterday and today together; blockers are kept apart so they are only searched for people who
+  -- may see them. Either is null when its fields are empty
+  embedding extensions.vector(512),
+  blockers_embedding extensions.vector(512),
+  embedded_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_standup_update_embeddings_team ON standup_update_embeddings(team_id, model);
+CREATE INDEX IF NOT EXISTS idx_standup_update_embeddings_embedding
+  ON standup_update_embeddings USING hnsw (embedding extensions.vector_cosine_ops);
+
+ALTER TABLE standup_update_embeddings ENABLE ROW LEVEL SECURITY;
+
+-- Readable like the updates themselves; only the embeddings edge function writes them
+DROP POLICY IF EXISTS "Signed-in users can read standup update embeddings" ON standup_update_embeddings;
+CREATE POLICY "Signed-in users can read standup update embeddings"
+  ON standup_update_embeddings
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Embed an update again whenever its text changes
+CREATE OR REPLACE FUNCTION embed_standup_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM invoke_edge_function(
+    'embeddings',
+    jsonb_build_object('action', 'embed_update', 'updateId', NEW.id)
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS embed_standup_update_on_save ON standup_updates;
+CREATE TRIGGER embed_standup_update_on_save
+  AFTER INSERT OR UPDATE OF yesterday, today, blockers ON standup_updates
+  FOR EACH ROW
+  EXECUTE FUNCTION embed_standup_update();
+
+-- Updates with no embedding from the given model, oldest first, for the edge function to backfill
+CREATE OR REPLACE FUNCTION get_unembedded_standup_updates(p_model text, p_limit integer DEFAULT 100)
+RETURNS TABLE (standup_update_id uuid) AS $$
+  SELECT su.id
+  FROM standup_updates su
+  LEFT JOIN standup_update_embeddings sue ON sue.standup_update_id = su.id AND sue.model = p_model
+  WHERE sue.standup_update_id IS NULL
+  ORDER BY su.created_at
+  LIMIT least(greatest(coalesce(p_limit, 100), 1), 500);
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION get_unembedded_standup_updates(text, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_unembedded_standup_updates(text, integer) TO service_role;
+
+-- Find a team's updates closest in meaning to p_embedding, most similar first. p_embedding must come
+-- from p_model. Blockers are only compared for people with the view_blockers permission.
+CREATE OR REPLACE FUNCTION match_standup_updates(
+  p_team_id uuid,
+  p_embedding extensions.vector(512),
+  p_model text,
+  p_member_id uuid DEFAULT NULL,
+  p_start_date date DEFAULT NULL,
+  p_end_date date DEFAULT NULL,
+  p_min_similarity real DEFAULT 0.2,
+  p_limit integer DEFAULT 20
+)
+RETURNS TABLE (
+  standup_update_id uuid,
+  standup_date date,
+  similarity real
+) AS $$
+  WITH scored AS (
+    SELECT
+      su.id,
+      se.date,
+      su.created_at,
+      greatest(
+        CASE WHEN sue.embedding IS NOT NULL THEN 1 - (sue.embedding <=> p_embedding) END,
+        CASE
+          WHEN sue.blockers_embedding IS NOT NULL AND has_team_permission(p_team_id, 'view_blockers')
+            THEN 1 - (sue.blockers_embedding <=> p_embedding)
+        END
+      )::real AS similarity
+    FROM standup_update_embeddings sue
+    JOIN standup_updates su ON su.id = sue.standup_update_id
+    JOIN standup_entries se ON se.id = su.standup_entry_id
+    WHERE sue.team_id = p_team_id
+      AND sue.model = p_model
+      AND (p_member_id IS NULL OR su.team_member_id = p_member_id)
+      AND (p_start_date IS NULL OR se.date >= p_start_date)
+      AND (p_end_date IS NULL OR se.date <= p_end_date)
+  )
+  SELECT id, date, similarity
+  FROM scored
+  WHERE similarity IS NOT NULL AND similarity >= coalesce(p_min_similarity, 0)
+  ORDER BY similarity DESC, date DESC, created_at DESC
+  LIMIT least(greatest(coalesce(p_limit, 20), 1), 100);
+$$ LANGUAGE sql STABLE SET search_path = public, extensions;
+
+REVOKE EXECUTE ON FUNCTION match_standup_updates(uuid, extensions.vector, text, uuid, date, date, real, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION match_standup_updates(uuid, extensions.vector, text, uuid, date, date, real, integer) TO authenticated;
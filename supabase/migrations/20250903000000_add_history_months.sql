@@ -0,0 +1,17 @@
+-- Months with standup history
+-- The history's month picker lists every month a team has updates in, read from the database rather
+-- than from the days the app happens to have loaded.
+
+-- Months (YYYY-MM) with at least one update before p_before, newest first
+CREATE OR REPLACE FUNCTION get_standup_history_months(p_team_id uuid, p_before date)
+RETURNS TABLE (month text) AS $$
+  SELECT DISTINCT to_char(se.date, 'YYYY-MM')
+  FROM standup_entries se
+  WHERE se.team_id = p_team_id
+    AND se.date < p_before
+    AND EXISTS (SELECT 1 FROM standup_updates su WHERE su.standup_entry_id = se.id)
+  ORDER BY 1 DESC;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION get_standup_history_months(uuid, date) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_standup_history_months(uuid, date) TO authenticated;
@@ -0,0 +1,185 @@
+-- Team-scoped access
+-- Sign-up is closed: people get an account when a roster manager adds their email, which sends
+-- them an invite through the `invitations` edge function. Everything a team owns is now only
+-- readable by the active members on its roster, rather than by anyone signed in.
+
+-- Whether the signed-in user is an active member of a team
+CREATE OR REPLACE FUNCTION is_team_member(p_team_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM team_members
+    WHERE team_id = p_team_id
+      AND user_id = auth.uid()
+      AND archived_at IS NULL
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION is_team_member(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION is_team_member(uuid) TO authenticated;
+
+-- Invite a roster member once they have an email and no account linked
+CREATE OR REPLACE FUNCTION invite_team_member()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM invoke_edge_function(
+    'invitations',
+    jsonb_build_object('teamMemberId', NEW.id)
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS invite_team_member_on_insert ON team_members;
+CREATE TRIGGER invite_team_member_on_insert
+  AFTER INSERT ON team_members
+  FOR EACH ROW
+  WHEN (NEW.email IS NOT NULL AND NEW.user_id IS NULL AND NEW.archived_at IS NULL)
+  EXECUTE FUNCTION invite_team_member();
+
+DROP TRIGGER IF EXISTS invite_team_member_on_update ON team_members;
+CREATE TRIGGER invite_team_member_on_update
+  AFTER UPDATE OF email, archived_at ON team_members
+  FOR EACH ROW
+  WHEN (
+    NEW.email IS NOT NULL AND NEW.user_id IS NULL AND NEW.archived_at IS NULL
+    AND (NEW.email IS DISTINCT FROM OLD.email OR OLD.archived_at IS NOT NULL)
+  )
+  EXECUTE FUNCTION invite_team_member();
+
+-- Teams and their rosters
+DROP POLICY IF EXISTS "Signed-in users can read teams" ON teams;
+CREATE POLICY "Team members can read their teams"
+  ON teams
+  FOR SELECT
+  TO authenticated
+  USING (is_team_member(id));
+
+DROP POLICY IF EXISTS "Signed-in users can read team members" ON team_members;
+CREATE POLICY "Team members can read their roster"
+  ON team_members
+  FOR SELECT
+  TO authenticated
+  USING (is_team_member(team_id));
+
+-- Standups. Loading the dashboard creates the day's entry, so any member may insert one.
+DROP POLICY IF EXISTS "Signed-in users can read standup entries" ON standup_entries;
+CREATE POLICY "Team members can read standup entries"
+  ON standup_entries
+  FOR SELECT
+  TO authenticated
+  USING (is_team_member(team_id));
+
+DROP POLICY IF EXISTS "Signed-in users can insert standup entries" ON standup_entries;
+CREATE POLICY "Team members can insert standup entries"
+  ON standup_entries
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_team_member(team_id));
+
+DROP POLICY IF EXISTS "Signed-in users can read standup updates" ON standup_updates;
+CREATE POLICY "Team members can read standup updates"
+  ON standup_updates
+  FOR SELECT
+  TO authenticated
+  USING (is_team_member(team_id));
+
+DROP POLICY IF EXISTS "Signed-in users can read standup update revisions" ON standup_update_revisions;
+CREATE POLICY "Team members can read standup update revisions"
+  ON standup_update_revisions
+  FOR SELECT
+  TO authenticated
+  USING (is_team_member(team_id));
+
+DROP POLICY IF EXISTS "Signed-in users can read standup attendance" ON standup_attendance;
+CREATE POLICY "Team members can read standup attendance"
+  ON standup_attendance
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM standup_entries se
+    WHERE se.id = standup_entry_id
+      AND is_team_member(se.team_id)
+  ));
+
+DROP POLICY IF EXISTS "Signed-in users can read update comments" ON update_comments;
+CREATE POLICY "Team members can read update comments"
+  ON update_comments
+  FOR SELECT
+  TO authenticated
+  USING (is_team_member(team_id));
+
+DROP POLICY IF EXISTS "Signed-in users can read update reactions" ON update_reactions;
+CREATE POLICY "Team members can read update reactions"
+  ON update_reactions
+  FOR SELECT
+  TO authenticated
+  USING (is_team_member(team_id));
+
+DROP POLICY IF EXISTS "Signed-in users can read update mentions" ON update_mentions;
+CREATE POLICY "Team members can read update mentions"
+  ON update_mentions
+  FOR SELECT
+  TO authenticated
+  USING (is_team_member(team_id));
+
+DROP POLICY IF EXISTS "Signed-in users can read standup update embeddings" ON standup_update_embeddings;
+CREATE POLICY "Team members can read standup update embeddings"
+  ON standup_update_embeddings
+  FOR SELECT
+  TO authenticated
+  USING (is_team_member(team_id));
+
+-- Blockers
+DROP POLICY IF EXISTS "Signed-in users can read blockers" ON blockers;
+CREATE POLICY "Team members can read blockers"
+  ON blockers
+  FOR SELECT
+  TO authenticated
+  USING (is_team_member(team_id));
+
+DROP POLICY IF EXISTS "Signed-in users can read standup update blockers" ON standup_update_blockers;
+CREATE POLICY "Team members can read standup update blockers"
+  ON standup_update_blockers
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM blockers b
+    WHERE b.id = blocker_id
+      AND is_team_member(b.team_id)
+  ));
+
+DROP POLICY IF EXISTS "Signed-in users can read blocker escalations" ON blocker_escalations;
+CREATE POLICY "Team members can read blocker escalations"
+  ON blocker_escalations
+  FOR SELECT
+  TO authenticated
+  USING (is_team_member(team_id));
+
+-- Calendars, reports and integrations
+DROP POLICY IF EXISTS "Signed-in users can read member absences" ON member_absences;
+CREATE POLICY "Team members can read member absences"
+  ON member_absences
+  FOR SELECT
+  TO authenticated
+  USING (is_team_member(team_id));
+
+DROP POLICY IF EXISTS "Signed-in users can read team holidays" ON team_holidays;
+CREATE POLICY "Team members can read team holidays"
+  ON team_holidays
+  FOR SELECT
+  TO authenticated
+  USING (is_team_member(team_id));
+
+DROP POLICY IF EXISTS "Signed-in users can read weekly reports" ON weekly_reports;
+CREATE POLICY "Team members can read weekly reports"
+  ON weekly_reports
+  FOR SELECT
+  TO authenticated
+  USING (is_team_member(team_id));
+
+DROP POLICY IF EXISTS "Signed-in users can read slack integrations" ON slack_integrations;
+CREATE POLICY "Team members can read slack integrations"
+  ON slack_integrations
+  FOR SELECT
+  TO authenticated
+  USING (is_team_member(team_id));
@@ -0,0 +1,307 @@
+-- Blockers only for people who may view them
+-- Team members could read every blocker of their team straight from the tables, whatever their
+-- role. Blocker records, escalations and mentions in blockers are now only readable with the
+-- view_blockers permission. The blockers text on updates and revisions is no longer selectable
+-- at all: it is read through functions that return it to people with view_blockers, and stored
+-- weekly reports are read through get_weekly_reports(), which leaves the blocker sections out for
+-- everyone else. Posting an update now also checks post_updates on the team itself.
+
+-- Blocker records
+DROP POLICY IF EXISTS "Team members can read blockers" ON blockers;
+CREATE POLICY "Blocker viewers can read blockers"
+  ON blockers
+  FOR SELECT
+  TO authenticated
+  USING (has_team_permission(team_id, 'view_blockers'));
+
+DROP POLICY IF EXISTS "Team members can read standup update blockers" ON standup_update_blockers;
+CREATE POLICY "Blocker viewers can read standup update blockers"
+  ON standup_update_blockers
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM blockers b
+    WHERE b.id = blocker_id
+      AND has_team_permission(b.team_id, 'view_blockers')
+  ));
+
+DROP POLICY IF EXISTS "Team members can read blocker escalations" ON blocker_escalations;
+CREATE POLICY "Blocker viewers can read blocker escalations"
+  ON blocker_escalations
+  FOR SELECT
+  TO authenticated
+  USING (has_team_permission(team_id, 'view_blockers'));
+
+DROP POLICY IF EXISTS "Team members can read update mentions" ON update_mentions;
+CREATE POLICY "Team members can read update mentions"
+  ON update_mentions
+  FOR SELECT
+  TO authenticated
+  USING (
+    is_team_member(team_id)
+    AND (field <> 'blockers' OR has_team_permission(team_id, 'view_blockers'))
+  );
+
+-- Blocker embeddings could be compared against directly; only match_standup_updates() reads them
+DROP POLICY IF EXISTS "Team members can read standup update embeddings" ON standup_update_embeddings;
+CREATE POLICY "Blocker viewers can read standup update embeddings"
+  ON standup_update_embeddings
+  FOR SELECT
+  TO authenticated
+  USING (has_team_permission(team_id, 'view_blockers'));
+
+-- The blockers text on updates and revisions, and the search index that contains it
+REVOKE SELECT ON standup_updates FROM anon, authenticated;
+GRANT SELECT (
+  id, team_id, standup_entry_id, team_member_id, yesterday, today,
+  revision_count, posted_late, created_at, updated_at
+) ON standup_updates TO authenticated;
+
+REVOKE SELECT ON standup_update_revisions FROM anon, authenticated;
+GRANT SELECT (
+  id, standup_update_id, team_id, revision_number, yesterday, today, edited_by, created_at
+) ON standup_update_revisions TO authenticated;
+
+-- The blockers text of a team's updates, for people with view_blockers
+CREATE OR REPLACE FUNCTION get_standup_update_blockers(p_team_id uuid, p_update_ids uuid[])
+RETURNS TABLE (standup_update_id uuid, blockers text) AS $$
+  SELECT su.id, su.blockers
+  FROM standup_updates su
+  WHERE su.team_id = p_team_id
+    AND su.id = ANY(p_update_ids)
+    AND has_team_permission(p_team_id, 'view_blockers');
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION get_standup_update_blockers(uuid, uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_standup_update_blockers(uuid, uuid[]) TO authenticated;
+
+-- The blockers text of a team's update revisions, for people with view_blockers
+CREATE OR REPLACE FUNCTION get_standup_update_revision_blockers(p_team_id uuid, p_revision_ids uuid[])
+RETURNS TABLE (revision_id uuid, blockers text) AS $$
+  SELECT r.id, r.blockers
+  FROM standup_update_revisions r
+  WHERE r.team_id = p_team_id
+    AND r.id = ANY(p_revision_ids)
+    AND has_team_permission(p_team_id, 'view_blockers');
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION get_standup_update_revision_blockers(uuid, uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_standup_update_revision_blockers(uuid, uuid[]) TO authenticated;
+
+-- Search and semantic matching read the blockers text and embeddings, so they now run as the
+-- owner and check membership themselves; what they return was already gated on view_blockers
+CREATE OR REPLACE FUNCTION search_standup_updates(
+  p_team_id uuid,
+  p_query text DEFAULT NULL,
+  p_member_id uuid DEFAULT NULL,
+  p_role text DEFAULT NULL,
+  p_start_date date DEFAULT NULL,
+  p_end_date date DEFAULT NULL,
+  p_has_blockers boolean DEFAULT false,
+  p_limit integer DEFAULT 50
+)
+RETURNS TABLE (
+  standup_update_id uuid,
+  standup_date date,
+  rank real,
+  yesterday_headline text,
+  today_headline text,
+  blockers_headline text
+) AS $$
+  WITH params AS (
+    SELECT
+      CASE WHEN btrim(coalesce(p_query, '')) = '' THEN NULL ELSE websearch_to_tsquery('english', p_query) END AS query,
+      has_team_permission(p_team_id, 'view_blockers') AS can_view_blockers,
+      format('StartSel=%s, StopSel=%s, MaxFragments=2, MaxWords=25, MinWords=10', chr(2), chr(3)) AS headline_options
+  )
+  SELECT
+    su.id,
+    se.date,
+    CASE
+      WHEN p.query IS NULL THEN 0
+      WHEN p.can_view_blockers THEN ts_rank(su.search_vector, p.query)
+      ELSE ts_rank(ts_filter(su.search_vector, '{a,b}'), p.query)
+    END::real,
+    CASE WHEN p.query IS NOT NULL THEN ts_headline('english', strip_html(su.yesterday), p.query, p.headline_options) END,
+    CASE WHEN p.query IS NOT NULL THEN ts_headline('english', strip_html(su.today), p.query, p.headline_options) END,
+    CASE WHEN p.query IS NOT NULL AND p.can_view_blockers THEN ts_headline('english', strip_html(su.blockers), p.query, p.headline_options) END
+  FROM standup_updates su
+  JOIN standup_entries se ON se.id = su.standup_entry_id
+  JOIN team_members tm ON tm.id = su.team_member_id
+  CROSS JOIN params p
+  WHERE su.team_id = p_team_id
+    AND is_team_member(p_team_id)
+    AND (
+      p.query IS NULL
+      OR (su.search_vector @@ p.query AND (p.can_view_blockers OR ts_filter(su.search_vector, '{a,b}') @@ p.query))
+    )
+    AND (p_member_id IS NULL OR su.team_member_id = p_member_id)
+    AND (p_role IS NULL OR tm.role = p_role)
+    AND (p_start_date IS NULL OR se.date >= p_start_date)
+    AND (p_end_date IS NULL OR se.date <= p_end_date)
+    AND (NOT coalesce(p_has_blockers, false) OR (p.can_view_blockers AND coalesce(su.blockers, '') <> ''))
+  ORDER BY 3 DESC, se.date DESC, su.created_at DESC
+  LIMIT least(greatest(coalesce(p_limit, 50), 1), 200);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION search_standup_updates(uuid, text, uuid, text, date, date, boolean, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION search_standup_updates(uuid, text, uuid, text, date, date, boolean, integer) TO authenticated;
+
+CREATE OR REPLACE FUNCTION match_standup_updates(
+  p_team_id uuid,
+  p_embedding extensions.vector(512),
+  p_model text,
+  p_member_id uuid DEFAULT NULL,
+  p_start_date date DEFAULT NULL,
+  p_end_date date DEFAULT NULL,
+  p_min_similarity real DEFAULT 0.2,
+  p_limit integer DEFAULT 20
+)
+RETURNS TABLE (
+  standup_update_id uuid,
+  standup_date date,
+  similarity real
+) AS $$
+  WITH scored AS (
+    SELECT
+      su.id,
+      se.date,
+      su.created_at,
+      greatest(
+        CASE WHEN sue.embedding IS NOT NULL THEN 1 - (sue.embedding <=> p_embedding) END,
+        CASE
+          WHEN sue.blockers_embedding IS NOT NULL AND has_team_permission(p_team_id, 'view_blockers')
+            THEN 1 - (sue.blockers_embedding <=> p_embedding)
+        END
+      )::real AS similarity
+    FROM standup_update_embeddings sue
+    JOIN standup_updates su ON su.id = sue.standup_update_id
+    JOIN standup_entries se ON se.id = su.standup_entry_id
+    WHERE sue.team_id = p_team_id
+      AND is_team_member(p_team_id)
+      AND sue.model = p_model
+      AND (p_member_id IS NULL OR su.team_member_id = p_member_id)
+      AND (p_start_date IS NULL OR se.date >= p_start_date)
+      AND (p_end_date IS NULL OR se.date <= p_end_date)
+  )
+  SELECT id, date, similarity
+  FROM scored
+  WHERE similarity IS NOT NULL AND similarity >= coalesce(p_min_similarity, 0)
+  ORDER BY similarity DESC, date DESC, created_at DESC
+  LIMIT least(greatest(coalesce(p_limit, 20), 1), 100);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+REVOKE EXECUTE ON FUNCTION match_standup_updates(uuid, extensions.vector, text, uuid, date, date, real, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION match_standup_updates(uuid, extensions.vector, text, uuid, date, date, real, integer) TO authenticated;
+
+-- Weekly reports. Only blocker viewers read the table directly (report generators all are);
+-- everyone else on the team reads reports through get_weekly_reports()
+DROP POLICY IF EXISTS "Team members can read weekly reports" ON weekly_reports;
+CREATE POLICY "Blocker viewers can read weekly reports"
+  ON weekly_reports
+  FOR SELECT
+  TO authenticated
+  USING (has_team_permission(team_id, 'view_blockers'));
+
+-- A stored report without its blocker sections: the blocker report, the dependency graph,
+-- member concerns, and each update's blockers and mentions in blockers
+CREATE OR REPLACE FUNCTION hide_report_blockers(p_report jsonb)
+RETURNS jsonb AS $$
+  SELECT p_report || jsonb_build_object(
+    'entries', coalesce((
+      SELECT jsonb_agg(
+        entry || jsonb_build_object('teamMembers', coalesce((
+          SELECT jsonb_agg(
+            member || jsonb_build_object(
+              'blockers', '',
+              'blockerItems', '[]'::jsonb,
+              'mentions', coalesce((
+                SELECT jsonb_agg(mention)
+                FROM jsonb_array_elements(coalesce(member -> 'mentions', '[]'::jsonb)) mention
+                WHERE mention ->> 'field' IS DISTINCT FROM 'blockers'
+              ), '[]'::jsonb)
+            )
+            ORDER BY member_position
+          )
+          FROM jsonb_array_elements(coalesce(entry -> 'teamMembers', '[]'::jsonb)) WITH ORDINALITY AS m(member, member_position)
+        ), '[]'::jsonb))
+        ORDER BY entry_position
+      )
+      FROM jsonb_array_elements(coalesce(p_report -> 'entries', '[]'::jsonb)) WITH ORDINALITY AS e(entry, entry_position)
+    ), '[]'::jsonb),
+    'summary', coalesce(p_report -> 'summary', '{}'::jsonb) || jsonb_build_object(
+      'blockers', jsonb_build_object('opened', '[]'::jsonb, 'resolved', '[]'::jsonb, 'stillOpen', '[]'::jsonb),
+      'dependencies', jsonb_build_object('edges', '[]'::jsonb),
+      'memberSummaries', coalesce((
+        SELECT jsonb_object_agg(name, summary || jsonb_build_object('concerns', '[]'::jsonb))
+        FROM jsonb_each(coalesce(p_report #> '{summary,memberSummaries}', '{}'::jsonb)) AS s(name, summary)
+      ), '{}'::jsonb)
+    )
+  );
+$$ LANGUAGE sql IMMUTABLE STRICT SET search_path = public;
+
+-- A team's stored weekly reports, newest first, without blocker sections for people who may not
+-- view blockers
+CREATE OR REPLACE FUNCTION get_weekly_reports(p_team_id uuid, p_limit integer DEFAULT 10)
+RETURNS TABLE (
+  id uuid,
+  week_start date,
+  week_end date,
+  total_updates integer,
+  unique_members integer,
+  report_data jsonb,
+  generated_at timestamptz,
+  status text,
+  error text,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+  SELECT
+    wr.id,
+    wr.week_start,
+    wr.week_end,
+    wr.total_updates,
+    wr.unique_members,
+    CASE
+      WHEN has_team_permission(p_team_id, 'view_blockers') THEN wr.report_data
+      ELSE hide_report_blockers(wr.report_data)
+    END,
+    wr.generated_at,
+    wr.status,
+    wr.error,
+    wr.created_at,
+    wr.updated_at
+  FROM weekly_reports wr
+  WHERE wr.team_id = p_team_id
+    AND is_team_member(p_team_id)
+  ORDER BY wr.generated_at DESC
+  LIMIT least(greatest(coalesce(p_limit, 10), 1), 100);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION get_weekly_reports(uuid, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_weekly_reports(uuid, integer) TO authenticated;
+
+-- Posting checks post_updates on the team as well as on the member being posted as
+DROP POLICY IF EXISTS "Members can insert their own standup updates" ON standup_updates;
+CREATE POLICY "Members can insert their own standup updates"
+  ON standup_updates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    is_own_team_member(team_member_id, team_id)
+    AND has_team_permission(team_id, 'post_updates')
+  );
+
+DROP POLICY IF EXISTS "Members can update their own standup updates" ON standup_updates;
+CREATE POLICY "Members can update their own standup updates"
+  ON standup_updates
+  FOR UPDATE
+  TO authenticated
+  USING (
+    is_own_team_member(team_member_id, team_id)
+    AND has_team_permission(team_id, 'post_updates')
+  )
+  WITH CHECK (
+    is_own_team_member(team_member_id, team_id)
+    AND has_team_permission(team_id, 'post_updates')
+  );
@@ -0,0 +1,50 @@
+-- Usable passkeys first
+-- validate_passkey() took the first passkey whose hash matched, so when the same value was saved
+-- under more than one name, an inactive or expired key could shadow a usable one and the call
+-- failed. Matching keys are now ordered so an active, unexpired key in scope with uses left is
+-- the one checked; the others are only picked, and audited, when no usable key matches.
+
+CREATE OR REPLACE FUNCTION validate_passkey(passkey_value text, p_scope text)
+RETURNS boolean AS $$
+DECLARE
+  matched passkeys%ROWTYPE;
+  outcome text;
+BEGIN
+  SELECT * INTO matched
+  FROM passkeys
+  WHERE key_hash = extensions.crypt(passkey_value, key_hash)
+  ORDER BY
+    (is_active AND (expires_at IS NULL OR expires_at > now())) DESC,
+    (p_scope = ANY (scopes)) DESC,
+    (max_uses IS NULL OR use_count < max_uses) DESC,
+    created_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    outcome := 'unknown';
+  ELSIF NOT matched.is_active THEN
+    outcome := 'inactive';
+  ELSIF matched.expires_at IS NOT NULL AND matched.expires_at <= now() THEN
+    outcome := 'expired';
+  ELSIF NOT (p_scope = ANY (matched.scopes)) THEN
+    outcome := 'out_of_scope';
+  ELSE
+    -- Counting and checking the limit in one statement keeps concurrent uses within max_uses
+    UPDATE passkeys
+    SET use_count = use_count + 1,
+        last_used_at = now()
+    WHERE id = matched.id
+      AND (max_uses IS NULL OR use_count < max_uses);
+
+    outcome := CASE WHEN FOUND THEN 'valid' ELSE 'exhausted' END;
+  END IF;
+
+  INSERT INTO passkey_audit_log (passkey_id, key_name, scope, success, reason, user_id)
+  VALUES (matched.id, matched.key_name, p_scope, outcome = 'valid', outcome, auth.uid());
+
+  RETURN outcome = 'valid';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+REVOKE EXECUTE ON FUNCTION validate_passkey(text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION validate_passkey(text, text) TO service_role;
@@ -0,0 +1,60 @@
+-- Scheduled weekly reports from the edge function
+-- The hourly cron job generated reports with the SQL generate_weekly_report(), a basic summary
+-- with no blocker report, absences or holidays. It now calls the generate-weekly-report edge
+-- function for each team whose Friday noon it is, so scheduled reports match the ones generated
+-- from the app, and the SQL generators are dropped.
+
+CREATE OR REPLACE FUNCTION run_scheduled_weekly_report()
+RETURNS void AS $$
+DECLARE
+  team record;
+  local_now timestamp;
+BEGIN
+  FOR team IN SELECT id, timezone FROM teams LOOP
+    local_now := now() AT TIME ZONE team.timezone;
+    IF EXTRACT(ISODOW FROM local_now) = 5 AND EXTRACT(HOUR FROM local_now) = 12 THEN
+      PERFORM invoke_edge_function(
+        'generate-weekly-report',
+        jsonb_build_object('teamId', team.id)
+      );
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION run_scheduled_weekly_report() FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION IF EXISTS trigger_weekly_report_now();
+DROP FUNCTION IF EXISTS generate_weekly_report();
+DROP FUNCTION IF EXISTS generate_weekly_report(uuid);
+
+-- Blockers written by a roster manager must belong to someone on that team's roster
+DROP POLICY IF EXISTS "Members and roster managers can insert blockers" ON blockers;
+CREATE POLICY "Members and roster managers can insert blockers"
+  ON blockers
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    is_own_team_member(team_member_id, team_id)
+    OR (
+      has_team_permission(team_id, 'manage_roster')
+      AND EXISTS (SELECT 1 FROM team_members tm WHERE tm.id = blockers.team_member_id AND tm.team_id = blockers.team_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Members and roster managers can update blockers" ON blockers;
+CREATE POLICY "Members and roster managers can update blockers"
+  ON blockers
+  FOR UPDATE
+  TO authenticated
+  USING (
+    is_own_team_member(team_member_id, team_id)
+    OR has_team_permission(team_id, 'manage_roster')
+  )
+  WITH CHECK (
+    is_own_team_member(team_member_id, team_id)
+    OR (
+      has_team_permission(team_id, 'manage_roster')
+      AND EXISTS (SELECT 1 FROM team_members tm WHERE tm.id = blockers.team_member_id AND tm.team_id = blockers.team_id)
+    )
+  );
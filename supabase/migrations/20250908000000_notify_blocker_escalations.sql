@@ -0,0 +1,24 @@
+-- Escalation notifications
+-- escalate_stale_blockers() recorded escalations that leads only saw the next time they opened
+-- the dashboard. Each new escalation now calls the notifications edge function, which pushes it to
+-- the team's leads. The escalation functions run as their owner, so clients can no longer call them.
+
+CREATE OR REPLACE FUNCTION notify_blocker_escalated()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM invoke_edge_function(
+    'notifications',
+    jsonb_build_object('event', 'blocker_escalated', 'escalationId', NEW.id)
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notify_blocker_escalated_on_insert ON blocker_escalations;
+CREATE TRIGGER notify_blocker_escalated_on_insert
+  AFTER INSERT ON blocker_escalations
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_blocker_escalated();
+
+REVOKE EXECUTE ON FUNCTION count_business_days_between(uuid, date, date) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION escalate_stale_blockers() FROM PUBLIC, anon, authenticated;
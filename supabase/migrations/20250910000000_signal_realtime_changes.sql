@@ -0,0 +1,104 @@
+-- Realtime change signals
+-- Publishing standup_updates and weekly_reports sent whole rows, blockers included, to everyone
+-- listening, whatever their permissions. The dashboard now listens to standup_changes instead:
+-- one row per team, day and kind of change, touched whenever an update or report changes, and
+-- refetches through the usual reads, which hide blockers from people without view_blockers.
+
+CREATE TABLE IF NOT EXISTS standup_changes (
+  team_id uuid NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  -- The standup date of a changed update, or the week_start of a changed report
+  date date NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('updates', 'weekly_reports')),
+  changed_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (team_id, date, kind)
+);
+
+-- Written by triggers only
+ALTER TABLE standup_changes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Team members can read standup changes" ON standup_changes;
+CREATE POLICY "Team members can read standup changes"
+  ON standup_changes
+  FOR SELECT
+  TO authenticated
+  USING (is_team_member(team_id));
+
+CREATE OR REPLACE FUNCTION signal_standup_change(p_team_id uuid, p_date date, p_kind text)
+RETURNS void AS $$
+  INSERT INTO standup_changes (team_id, date, kind)
+  VALUES (p_team_id, p_date, p_kind)
+  ON CONFLICT (team_id, date, kind) DO UPDATE SET changed_at = now();
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION signal_standup_change(uuid, date, text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION signal_standup_update_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  changed standup_updates%ROWTYPE;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    changed := OLD;
+  ELSE
+    changed := NEW;
+  END IF;
+
+  PERFORM signal_standup_change(changed.team_id, se.date, 'updates')
+  FROM standup_entries se
+  WHERE se.id = changed.standup_entry_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS signal_standup_update_change ON standup_updates;
+CREATE TRIGGER signal_standup_update_change
+  AFTER INSERT OR UPDATE OR DELETE ON standup_updates
+  FOR EACH ROW
+  EXECUTE FUNCTION signal_standup_update_change();
+
+CREATE OR REPLACE FUNCTION signal_weekly_report_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  changed weekly_reports%ROWTYPE;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    changed := OLD;
+  ELSE
+    changed := NEW;
+  END IF;
+
+  PERFORM signal_standup_change(changed.team_id, changed.week_start, 'weekly_reports');
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS signal_weekly_report_change ON weekly_reports;
+CREATE TRIGGER signal_weekly_report_change
+  AFTER INSERT OR UPDATE OR DELETE ON weekly_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION signal_weekly_report_change();
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'standup_updates'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime DROP TABLE standup_updates;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'weekly_reports'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime DROP TABLE weekly_reports;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'standup_changes'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE standup_changes;
+  END IF;
+END $$;
@@ -0,0 +1,150 @@
+-- One standup entry per team and day
+-- Entries were created with a look-then-insert, so two saves at the same moment could give a day
+-- two entries, splitting its updates and attendance and breaking history pages. Duplicates are
+-- merged into the day's earliest entry, the pair is made unique and entries are created with
+-- INSERT ... ON CONFLICT. Huddles can only be recorded for days inside the backfill window.
+
+CREATE TEMP TABLE duplicate_standup_entries AS
+SELECT se.id, keeper.id AS keeper_id
+FROM standup_entries se
+JOIN LATERAL (
+  SELECT k.id
+  FROM standup_entries k
+  WHERE k.team_id = se.team_id AND k.date = se.date
+  ORDER BY k.created_at, k.id
+  LIMIT 1
+) keeper ON keeper.id <> se.id;
+
+-- Moving updates is not a new post: skip the backfill check, revisions and embeddings
+ALTER TABLE standup_updates DISABLE TRIGGER USER;
+
+-- A member with an update on more than one of a day's entries keeps the latest
+DELETE FROM standup_updates
+WHERE id IN (
+  SELECT ranked.id
+  FROM (
+    SELECT
+      su.id,
+      row_number() OVER (
+        PARTITION BY coalesce(d.keeper_id, su.standup_entry_id), su.team_member_id
+        ORDER BY su.updated_at DESC, su.created_at DESC
+      ) AS rank
+    FROM standup_updates su
+    LEFT JOIN duplicate_standup_entries d ON d.id = su.standup_entry_id
+    WHERE su.standup_entry_id IN (
+      SELECT id FROM duplicate_standup_entries
+      UNION
+      SELECT keeper_id FROM duplicate_standup_entries
+    )
+  ) ranked
+  WHERE ranked.rank > 1
+);
+
+UPDATE standup_updates su
+SET standup_entry_id = d.keeper_id
+FROM duplicate_standup_entries d
+WHERE su.standup_entry_id = d.id;
+
+ALTER TABLE standup_updates ENABLE TRIGGER USER;
+
+-- The day's most recently started huddle is kept, with its attendance
+CREATE TEMP TABLE kept_huddles AS
+SELECT DISTINCT ON (coalesce(d.keeper_id, se.id))
+  coalesce(d.keeper_id, se.id) AS keeper_id,
+  se.id AS entry_id,
+  se.huddle_started_at,
+  se.huddle_duration_seconds,
+  se.huddle_facilitated_by
+FROM standup_entries se
+LEFT JOIN duplicate_standup_entries d ON d.id = se.id
+WHERE se.huddle_started_at IS NOT NULL
+  AND se.id IN (
+    SELECT id FROM duplicate_standup_entries
+    UNION
+    SELECT keeper_id FROM duplicate_standup_entries
+  )
+ORDER BY coalesce(d.keeper_id, se.id), se.huddle_started_at DESC;
+
+DELETE FROM standup_attendance
+WHERE standup_entry_id IN (
+    SELECT id FROM duplicate_standup_entries
+    UNION
+    SELECT keeper_id FROM duplicate_standup_entries
+  )
+  AND standup_entry_id NOT IN (SELECT entry_id FROM kept_huddles);
+
+UPDATE standup_attendance sa
+SET standup_entry_id = k.keeper_id
+FROM kept_huddles k
+WHERE sa.standup_entry_id = k.entry_id AND k.entry_id <> k.keeper_id;
+
+UPDATE standup_entries se
+SET huddle_started_at = k.huddle_started_at,
+    huddle_duration_seconds = k.huddle_duration_seconds,
+    huddle_facilitated_by = k.huddle_facilitated_by
+FROM kept_huddles k
+WHERE se.id = k.keeper_id AND k.entry_id <> k.keeper_id;
+
+DELETE FROM standup_entries WHERE id IN (SELECT id FROM duplicate_standup_entries);
+
+DROP TABLE kept_huddles;
+DROP TABLE duplicate_standup_entries;
+
+ALTER TABLE standup_entries DROP CONSTRAINT IF EXISTS standup_entries_team_id_date_key;
+ALTER TABLE standup_entries ADD CONSTRAINT standup_entries_team_id_date_key UNIQUE (team_id, date);
+
+-- Save a huddle on the day's standup entry, replacing one recorded earlier that day
+-- p_attendance is a JSON array of {team_member_id, present, speaking_seconds}
+CREATE OR REPLACE FUNCTION record_huddle(
+  p_team_id uuid,
+  p_date date,
+  p_started_at timestamptz,
+  p_duration_seconds integer,
+  p_attendance jsonb
+)
+RETURNS uuid AS $$
+DECLARE
+  v_entry_id uuid;
+  v_facilitator_id uuid;
+  v_today date := get_team_today(p_team_id);
+  v_backfill_days integer;
+BEGIN
+  IF NOT has_team_permission(p_team_id, 'post_updates') THEN
+    RAISE EXCEPTION 'You do not have permission to run this team''s huddle';
+  END IF;
+
+  SELECT backfill_days INTO v_backfill_days FROM teams WHERE id = p_team_id;
+
+  IF p_date > v_today OR p_date < v_today - v_backfill_days THEN
+    IF v_backfill_days = 0 THEN
+      RAISE EXCEPTION 'Huddles can only be recorded for today';
+    END IF;
+
+    RAISE EXCEPTION 'Huddles can only be recorded for today or the last % days', v_backfill_days;
+  END IF;
+
+  SELECT id INTO v_facilitator_id
+  FROM team_members
+  WHERE team_id = p_team_id AND user_id = auth.uid() AND archived_at IS NULL;
+
+  INSERT INTO standup_entries (team_id, date, huddle_started_at, huddle_duration_seconds, huddle_facilitated_by)
+  VALUES (p_team_id, p_date, p_started_at, p_duration_seconds, v_facilitator_id)
+  ON CONFLICT (team_id, date) DO UPDATE
+  SET huddle_started_at = EXCLUDED.huddle_started_at,
+      huddle_duration_seconds = EXCLUDED.huddle_duration_seconds,
+      huddle_facilitated_by = EXCLUDED.huddle_facilitated_by
+  RETURNING id INTO v_entry_id;
+
+  DELETE FROM standup_attendance WHERE standup_entry_id = v_entry_id;
+
+  INSERT INTO standup_attendance (standup_entry_id, team_member_id, present, speaking_seconds)
+  SELECT v_entry_id, tm.id, a.present, COALESCE(a.speaking_seconds, 0)
+  FROM jsonb_to_recordset(p_attendance) AS a(team_member_id uuid, present boolean, speaking_seconds integer)
+  JOIN team_members tm ON tm.id = a.team_member_id AND tm.team_id = p_team_id;
+
+  RETURN v_entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION record_huddle(uuid, date, timestamptz, integer, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_huddle(uuid, date, timestamptz, integer, jsonb) TO authenticated;
@@ -0,0 +1,22 @@
+-- Commenting and reacting check post_updates on the team as well as on the member being
+-- commented or reacted as, the same checks as posting an update
+
+DROP POLICY IF EXISTS "Members can comment as themselves" ON update_comments;
+CREATE POLICY "Members can comment as themselves"
+  ON update_comments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    is_own_team_member(team_member_id, team_id)
+    AND has_team_permission(team_id, 'post_updates')
+  );
+
+DROP POLICY IF EXISTS "Members can react as themselves" ON update_reactions;
+CREATE POLICY "Members can react as themselves"
+  ON update_reactions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    is_own_team_member(team_member_id, team_id)
+    AND has_team_permission(team_id, 'post_updates')
+  );
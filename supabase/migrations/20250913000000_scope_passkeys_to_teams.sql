@@ -0,0 +1,154 @@
+-- Passkeys belong to a team
+-- Passkeys and their audit log were open to an admin of any team, and anyone can create a team
+-- and become its admin, so any signed-in user could manage every passkey and read every
+-- validation attempt. Each passkey now belongs to a team and is managed, like the team's other
+-- settings, by members with manage_passkeys on that team. Existing passkeys go to the first team,
+-- as weekly reports did when teams were added.
+
+ALTER TABLE passkeys ADD COLUMN IF NOT EXISTS team_id uuid REFERENCES teams(id) ON DELETE CASCADE;
+
+UPDATE passkeys
+SET team_id = (SELECT id FROM teams ORDER BY created_at LIMIT 1)
+WHERE team_id IS NULL;
+
+-- Without any team there is no one left who could manage them
+DELETE FROM passkeys WHERE team_id IS NULL;
+
+ALTER TABLE passkeys ALTER COLUMN team_id SET NOT NULL;
+
+-- Names only need to be unique within a team
+ALTER TABLE passkeys DROP CONSTRAINT IF EXISTS passkeys_key_name_key;
+ALTER TABLE passkeys DROP CONSTRAINT IF EXISTS passkeys_team_id_key_name_key;
+ALTER TABLE passkeys ADD CONSTRAINT passkeys_team_id_key_name_key UNIQUE (team_id, key_name);
+
+GRANT SELECT (team_id) ON passkeys TO authenticated;
+
+ALTER TABLE passkey_audit_log ADD COLUMN IF NOT EXISTS team_id uuid REFERENCES teams(id) ON DELETE CASCADE;
+
+UPDATE passkey_audit_log pal
+SET team_id = p.team_id
+FROM passkeys p
+WHERE pal.passkey_id = p.id AND pal.team_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_passkey_audit_log_team_id ON passkey_audit_log(team_id, created_at DESC);
+
+DROP POLICY IF EXISTS "Admins can manage passkeys" ON passkeys;
+CREATE POLICY "Admins can manage passkeys"
+  ON passkeys
+  FOR ALL
+  TO authenticated
+  USING (has_team_permission(team_id, 'manage_passkeys'))
+  WITH CHECK (has_team_permission(team_id, 'manage_passkeys'));
+
+DROP POLICY IF EXISTS "Admins can read the passkey audit log" ON passkey_audit_log;
+CREATE POLICY "Admins can read the passkey audit log"
+  ON passkey_audit_log
+  FOR SELECT
+  TO authenticated
+  USING (has_team_permission(team_id, 'manage_passkeys'));
+
+-- Attempts are recorded against the matched passkey's team
+CREATE OR REPLACE FUNCTION validate_passkey(passkey_value text, p_scope text)
+RETURNS boolean AS $$
+DECLARE
+  matched passkeys%ROWTYPE;
+  outcome text;
+BEGIN
+  SELECT * INTO matched
+  FROM passkeys
+  WHERE key_hash = extensions.crypt(passkey_value, key_hash)
+  ORDER BY
+    (is_active AND (expires_at IS NULL OR expires_at > now())) DESC,
+    (p_scope = ANY (scopes)) DESC,
+    (max_uses IS NULL OR use_count < max_uses) DESC,
+    created_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    outcome := 'unknown';
+  ELSIF NOT matched.is_active THEN
+    outcome := 'inactive';
+  ELSIF matched.expires_at IS NOT NULL AND matched.expires_at <= now() THEN
+    outcome := 'expired';
+  ELSIF NOT (p_scope = ANY (matched.scopes)) THEN
+    outcome := 'out_of_scope';
+  ELSE
+    -- Counting and checking the limit in one statement keeps concurrent uses within max_uses
+    UPDATE passkeys
+    SET use_count = use_count + 1,
+        last_used_at = now()
+    WHERE id = matched.id
+      AND (max_uses IS NULL OR use_count < max_uses);
+
+    outcome := CASE WHEN FOUND THEN 'valid' ELSE 'exhausted' END;
+  END IF;
+
+  INSERT INTO passkey_audit_log (team_id, passkey_id, key_name, scope, success, reason, user_id)
+  VALUES (matched.team_id, matched.id, matched.key_name, p_scope, outcome = 'valid', outcome, auth.uid());
+
+  RETURN outcome = 'valid';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+REVOKE EXECUTE ON FUNCTION validate_passkey(text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION validate_passkey(text, text) TO service_role;
+
+-- Create a passkey for a team, or rotate the team's passkey with the same name
+DROP FUNCTION IF EXISTS save_passkey(text, text, text[], text, timestamptz, integer);
+
+CREATE OR REPLACE FUNCTION save_passkey(
+  p_team_id uuid,
+  p_key_name text,
+  p_key_value text,
+  p_scopes text[],
+  p_description text DEFAULT NULL,
+  p_expires_at timestamptz DEFAULT NULL,
+  p_max_uses integer DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  saved_id uuid;
+BEGIN
+  IF NOT has_team_permission(p_team_id, 'manage_passkeys') THEN
+    RAISE EXCEPTION 'You don''t have permission to manage this team''s passkeys';
+  END IF;
+
+  IF length(coalesce(p_key_value, '')) < 6 THEN
+    RAISE EXCEPTION 'Passkey must be at least 6 characters long';
+  END IF;
+
+  IF coalesce(array_length(p_scopes, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'A passkey needs at least one scope';
+  END IF;
+
+  INSERT INTO passkeys (team_id, key_name, key_hash, scopes, description, expires_at, max_uses, is_active)
+  VALUES (
+    p_team_id,
+    trim(p_key_name),
+    extensions.crypt(p_key_value, extensions.gen_salt('bf')),
+    p_scopes,
+    p_description,
+    p_expires_at,
+    p_max_uses,
+    true
+  )
+  ON CONFLICT (team_id, key_name) DO UPDATE SET
+    key_hash = EXCLUDED.key_hash,
+    scopes = EXCLUDED.scopes,
+    description = COALESCE(EXCLUDED.description, passkeys.description),
+    expires_at = EXCLUDED.expires_at,
+    max_uses = EXCLUDED.max_uses,
+    use_count = 0,
+    last_used_at = NULL,
+    is_active = true
+  RETURNING id INTO saved_id;
+
+  RETURN saved_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+REVOKE EXECUTE ON FUNCTION save_passkey(uuid, text, text, text[], text, timestamptz, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION save_passkey(uuid, text, text, text[], text, timestamptz, integer) TO authenticated;
+
+-- Nothing is managed across teams any more
+DROP FUNCTION IF EXISTS is_any_team_admin();
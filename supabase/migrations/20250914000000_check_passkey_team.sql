@@ -0,0 +1,54 @@
+-- Passkeys only work for their own team
+-- A passkey caller of generate-weekly-report could leave out teamId and generate every team's
+-- report, or name another team. validate_passkey() now takes the team the call is for and only
+-- matches that team's passkeys, so a passkey from any other team is an unknown passkey. Every
+-- attempt is recorded against the team it was made for.
+
+DROP FUNCTION IF EXISTS validate_passkey(text, text);
+
+CREATE OR REPLACE FUNCTION validate_passkey(passkey_value text, p_scope text, p_team_id uuid)
+RETURNS boolean AS $$
+DECLARE
+  matched passkeys%ROWTYPE;
+  outcome text;
+BEGIN
+  SELECT * INTO matched
+  FROM passkeys
+  WHERE team_id = p_team_id
+    AND key_hash = extensions.crypt(passkey_value, key_hash)
+  ORDER BY
+    (is_active AND (expires_at IS NULL OR expires_at > now())) DESC,
+    (p_scope = ANY (scopes)) DESC,
+    (max_uses IS NULL OR use_count < max_uses) DESC,
+    created_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    outcome := 'unknown';
+  ELSIF NOT matched.is_active THEN
+    outcome := 'inactive';
+  ELSIF matched.expires_at IS NOT NULL AND matched.expires_at <= now() THEN
+    outcome := 'expired';
+  ELSIF NOT (p_scope = ANY (matched.scopes)) THEN
+    outcome := 'out_of_scope';
+  ELSE
+    -- Counting and checking the limit in one statement keeps concurrent uses within max_uses
+    UPDATE passkeys
+    SET use_count = use_count + 1,
+        last_used_at = now()
+    WHERE id = matched.id
+      AND (max_uses IS NULL OR use_count < max_uses);
+
+    outcome := CASE WHEN FOUND THEN 'valid' ELSE 'exhausted' END;
+  END IF;
+
+  INSERT INTO passkey_audit_log (team_id, passkey_id, key_name, scope, success, reason, user_id)
+  SELECT p_team_id, matched.id, matched.key_name, p_scope, outcome = 'valid', outcome, auth.uid()
+  WHERE EXISTS (SELECT 1 FROM teams WHERE id = p_team_id);
+
+  RETURN outcome = 'valid';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+REVOKE EXECUTE ON FUNCTION validate_passkey(text, text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION validate_passkey(text, text, uuid) TO service_role;
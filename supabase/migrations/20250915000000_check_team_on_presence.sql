@@ -0,0 +1,16 @@
+-- Only a team's members can see who is writing its updates
+-- Anyone signed in could join another team's standup-presence channel and see who was writing.
+-- Seeing presence now needs membership of the team in the channel's topic, as announcing it
+-- already needed post_updates there.
+
+DROP POLICY IF EXISTS "Signed-in users can see who is writing an update" ON realtime.messages;
+DROP POLICY IF EXISTS "Team members can see who is writing an update" ON realtime.messages;
+CREATE POLICY "Team members can see who is writing an update"
+  ON realtime.messages
+  FOR SELECT
+  TO authenticated
+  USING (
+    realtime.messages.extension = 'presence'
+    AND split_part(realtime.topic(), ':', 1) = 'standup-presence'
+    AND is_team_member(split_part(realtime.topic(), ':', 2)::uuid)
+  );
@@ -0,0 +1,270 @@
+-- Mentions are found when an update is saved
+-- The app and the chat app edge functions each parsed an update's @mentions and passed them to
+-- save_standup_update, with two copies of the same rules. save_standup_update now finds them in
+-- the text it saves: the editor's mention spans, a plain "@Name" of someone on the active roster
+-- (longest names first) and a blocker's unblocker when it names a teammate, with or without the @.
+
+-- The active roster members, other than the author, that a field's text or HTML mentions
+CREATE OR REPLACE FUNCTION mentioned_members(p_team_id uuid, p_author_id uuid, p_content text)
+RETURNS SETOF uuid AS $$
+DECLARE
+  plain text;
+  candidate record;
+  pattern text;
+BEGIN
+  IF coalesce(p_content, '') = '' THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT DISTINCT tm.id
+  FROM regexp_matches(p_content, 'data-mention-id="([^"]+)"', 'g') AS span(ids)
+  JOIN team_members tm ON tm.id::text = span.ids[1]
+  WHERE tm.team_id = p_team_id AND tm.archived_at IS NULL AND tm.id <> p_author_id;
+
+  plain := replace(regexp_replace(p_content, '<[^>]*>', ' ', 'g'), '&nbsp;', ' ');
+
+  -- Longer names first, so "@Ana Lima" is not also read as "@Ana"
+  FOR candidate IN
+    SELECT id, name
+    FROM team_members
+    WHERE team_id = p_team_id AND archived_at IS NULL AND id <> p_author_id AND btrim(name) <> ''
+    ORDER BY length(name) DESC
+  LOOP
+    pattern := '@' || regexp_replace(candidate.name, '([.*+?^${}()|\[\]\\])', '\\\1', 'g') || '(?![[:alnum:]_])';
+
+    IF plain ~* pattern THEN
+      RETURN NEXT candidate.id;
+      plain := regexp_replace(plain, pattern, ' ', 'gi');
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- Save a member's update for a standup date, today in the team's timezone by default.
+-- p_blockers are the blockers on the update, as objects with id (null for a new one), description,
+-- unblocker, severity, resolved_on and resolution. A new blocker that repeats one already open on
+-- the update is dropped, and one that repeats a blocker the member had open in the last 7 days is
+-- linked back to it, reopening it if needed, so it keeps its age. The teammates the update mentions
+-- are found with mentioned_members(); mentions the update already had are kept so only people
+-- newly mentioned are notified. The backfill window is checked on standup_updates.
+DROP FUNCTION IF EXISTS save_standup_update(uuid, uuid, date, text, text, jsonb, jsonb);
+
+CREATE OR REPLACE FUNCTION save_standup_update(
+  p_team_id uuid,
+  p_team_member_id uuid,
+  p_date date,
+  p_yesterday text,
+  p_today text,
+  p_blockers jsonb DEFAULT '[]'
+)
+RETURNS uuid AS $$
+DECLARE
+  target_date date := coalesce(p_date, get_team_today(p_team_id));
+  author team_members%ROWTYPE;
+  items jsonb := '[]';
+  item jsonb;
+  opened date;
+  repeated blockers%ROWTYPE;
+  entry_id uuid;
+  update_id uuid;
+  saved_id uuid;
+  blocker_ids uuid[] := '{}';
+  blockers_html text;
+  mentions jsonb;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT is_own_team_member(p_team_member_id, p_team_id) THEN
+    RAISE EXCEPTION 'Updates can only be posted by the member themselves';
+  END IF;
+
+  SELECT * INTO author FROM team_members WHERE id = p_team_member_id AND team_id = p_team_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Team member is not on the roster';
+  END IF;
+
+  IF author.archived_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Team member % has been archived', author.name;
+  END IF;
+
+  IF NOT role_has_permission(author.access_role, 'post_updates') THEN
+    RAISE EXCEPTION '%''s role on this team cannot post updates', author.name;
+  END IF;
+
+  FOR item IN SELECT value FROM jsonb_array_elements(coalesce(p_blockers, '[]')) LOOP
+    IF coalesce(btrim(item->>'description'), '') = '' THEN
+      RAISE EXCEPTION 'Every blocker needs a description';
+    END IF;
+
+    IF coalesce(item->>'severity', '') NOT IN ('low', 'medium', 'high') THEN
+      RAISE EXCEPTION '% is not a valid blocker severity', item->>'severity';
+    END IF;
+
+    IF item->>'id' IS NOT NULL THEN
+      SELECT opened_on INTO opened
+      FROM blockers
+      WHERE id = (item->>'id')::uuid
+        AND team_id = p_team_id
+        AND team_member_id = p_team_member_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Blockers can only be carried on their owner''s update';
+      END IF;
+
+      items := items || jsonb_build_array(item || jsonb_build_object('opened_on', opened));
+    END IF;
+  END LOOP;
+
+  FOR item IN SELECT value FROM jsonb_array_elements(coalesce(p_blockers, '[]')) WHERE value->>'id' IS NULL LOOP
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM jsonb_array_elements(items) AS existing(value)
+      WHERE blocker_open_on(existing.value, target_date)
+        AND text_similarity(item->>'description', existing.value->>'description') >= 0.6
+    );
+
+    SELECT b.* INTO repeated
+    FROM blockers b
+    WHERE b.team_id = p_team_id
+      AND b.team_member_id = p_team_member_id
+      AND b.opened_on <= target_date
+      AND (b.resolved_on IS NULL OR b.resolved_on >= target_date - 7)
+      AND NOT EXISTS (SELECT 1 FROM jsonb_array_elements(items) AS used(value) WHERE used.value->>'id' = b.id::text)
+      AND text_similarity(item->>'description', b.description) >= 0.6
+    ORDER BY text_similarity(item->>'description', b.description) DESC, b.opened_on DESC
+    LIMIT 1;
+
+    IF FOUND THEN
+      items := items || jsonb_build_array(jsonb_build_object(
+        'id', repeated.id,
+        'description', repeated.description,
+        'unblocker', repeated.unblocker,
+        'severity', repeated.severity,
+        'opened_on', repeated.opened_on,
+        'resolved_on', CASE WHEN repeated.resolved_on > target_date THEN repeated.resolved_on END,
+        'resolution', CASE WHEN repeated.resolved_on > target_date THEN repeated.resolution END
+      ));
+    ELSE
+      items := items || jsonb_build_array(item || jsonb_build_object('opened_on', target_date));
+    END IF;
+  END LOOP;
+
+  IF coalesce(p_yesterday, '') = '' AND coalesce(p_today, '') = '' AND jsonb_array_length(items) = 0 THEN
+    RAISE EXCEPTION 'At least one update field (yesterday, today, or blockers) must be provided';
+  END IF;
+
+  SELECT render_blockers_html(coalesce(jsonb_agg(value ORDER BY ordinal), '[]'))
+  INTO blockers_html
+  FROM jsonb_array_elements(items) WITH ORDINALITY AS open_item(value, ordinal)
+  WHERE blocker_open_on(value, target_date);
+
+  INSERT INTO standup_entries (team_id, date)
+  VALUES (p_team_id, target_date)
+  ON CONFLICT (team_id, date) DO UPDATE SET team_id = EXCLUDED.team_id
+  RETURNING id INTO entry_id;
+
+  SELECT id INTO update_id
+  FROM standup_updates
+  WHERE standup_entry_id = entry_id AND team_member_id = p_team_member_id
+  LIMIT 1;
+
+  IF FOUND THEN
+    UPDATE standup_updates
+    SET
+      yesterday = p_yesterday,
+      today = p_today,
+      blockers = blockers_html
+    WHERE id = update_id;
+  ELSE
+    INSERT INTO standup_updates (team_id, standup_entry_id, team_member_id, yesterday, today, blockers)
+    VALUES (
+      p_team_id,
+      entry_id,
+      p_team_member_id,
+      p_yesterday,
+      p_today,
+      blockers_html
+    )
+    RETURNING id INTO update_id;
+  END IF;
+
+  FOR item IN SELECT value FROM jsonb_array_elements(items) LOOP
+    IF item->>'id' IS NULL THEN
+      INSERT INTO blockers (team_id, team_member_id, description, unblocker, severity, opened_on, resolved_on, resolution)
+      VALUES (
+        p_team_id,
+        p_team_member_id,
+        item->>'description',
+        item->>'unblocker',
+        item->>'severity',
+        target_date,
+        (item->>'resolved_on')::date,
+        item->>'resolution'
+      )
+      RETURNING id INTO saved_id;
+    ELSE
+      saved_id := (item->>'id')::uuid;
+
+      UPDATE blockers
+      SET
+        description = item->>'description',
+        unblocker = item->>'unblocker',
+        severity = item->>'severity',
+        resolved_on = (item->>'resolved_on')::date,
+        resolution = item->>'resolution'
+      WHERE id = saved_id;
+    END IF;
+
+    blocker_ids := blocker_ids || saved_id;
+  END LOOP;
+
+  DELETE FROM standup_update_blockers WHERE standup_update_id = update_id;
+
+  INSERT INTO standup_update_blockers (standup_update_id, blocker_id)
+  SELECT DISTINCT update_id, blocker_id FROM unnest(blocker_ids) AS blocker_id;
+
+  -- Blockers only count while they are open, since a mention there means the member is still waiting
+  SELECT coalesce(jsonb_agg(DISTINCT jsonb_build_object('team_member_id', mention.team_member_id, 'field', mention.field)), '[]')
+  INTO mentions
+  FROM (
+    SELECT mentioned_members(p_team_id, p_team_member_id, p_yesterday) AS team_member_id, 'yesterday' AS field
+    UNION ALL
+    SELECT mentioned_members(p_team_id, p_team_member_id, p_today), 'today'
+    UNION ALL
+    SELECT mentioned_members(p_team_id, p_team_member_id, (value->>'description') || ' ' || coalesce(value->>'unblocker', '')), 'blockers'
+    FROM jsonb_array_elements(items) AS open_item(value)
+    WHERE blocker_open_on(value, target_date)
+    UNION ALL
+    SELECT tm.id, 'blockers'
+    FROM jsonb_array_elements(items) AS open_item(value)
+    JOIN team_members tm
+      ON tm.team_id = p_team_id
+      AND tm.archived_at IS NULL
+      AND lower(btrim(tm.name)) = lower(regexp_replace(btrim(value->>'unblocker'), '^@', ''))
+    WHERE blocker_open_on(value, target_date)
+      AND tm.id <> p_team_member_id
+  ) mention;
+
+  DELETE FROM update_mentions um
+  WHERE um.standup_update_id = update_id
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(mentions) AS mention(value)
+      WHERE mention.value->>'team_member_id' = um.team_member_id::text
+        AND mention.value->>'field' = um.field
+    );
+
+  INSERT INTO update_mentions (team_id, standup_update_id, team_member_id, field)
+  SELECT DISTINCT p_team_id, update_id, tm.id, mention.value->>'field'
+  FROM jsonb_array_elements(mentions) AS mention(value)
+  JOIN team_members tm ON tm.id::text = mention.value->>'team_member_id'
+  WHERE tm.team_id = p_team_id
+    AND tm.archived_at IS NULL
+    AND tm.id <> p_team_member_id
+    AND mention.value->>'field' IN ('yesterday', 'today', 'blockers')
+  ON CONFLICT (standup_update_id, team_member_id, field) DO NOTHING;
+
+  RETURN update_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION save_standup_update(uuid, uuid, date, text, text, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION save_standup_update(uuid, uuid, date, text, text, jsonb) TO authenticated, service_role;